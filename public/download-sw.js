@@ -0,0 +1,92 @@
+/**
+ * 流式下载 Service Worker
+ * 页面通过 MessageChannel 推送数据，本脚本将其包装为下载响应，
+ * 由浏览器下载管理器直接写入磁盘
+ */
+
+const STREAM_PATH = '/__cloud_download__/';
+
+// 待响应的下载流：路径 -> { stream, fileName, size, mimeType }
+const downloads = new Map();
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('message', (event) => {
+  const data = event.data;
+  if (!data || data.type !== 'CLOUD_DOWNLOAD_INIT' || !event.ports[0]) {
+    return;
+  }
+
+  const port = event.ports[0];
+
+  const stream = new ReadableStream(
+    {
+      start(controller) {
+        port.onmessage = ({ data: message }) => {
+          switch (message.type) {
+            case 'chunk':
+              controller.enqueue(message.data);
+              break;
+            case 'end':
+              controller.close();
+              port.close();
+              break;
+            case 'abort':
+              controller.error(new Error(message.reason || 'Download aborted'));
+              port.close();
+              break;
+          }
+        };
+      },
+      pull() {
+        // 请求页面发送下一块数据
+        port.postMessage({ type: 'pull' });
+      },
+      cancel() {
+        port.postMessage({ type: 'cancel' });
+        port.close();
+      },
+    },
+    { highWaterMark: 1 }
+  );
+
+  downloads.set(data.url, {
+    stream,
+    fileName: data.fileName,
+    size: data.size,
+    mimeType: data.mimeType,
+  });
+
+  port.postMessage({ type: 'ready' });
+});
+
+self.addEventListener('fetch', (event) => {
+  const url = new URL(event.request.url);
+  if (!url.pathname.includes(STREAM_PATH)) {
+    return;
+  }
+
+  const download = downloads.get(url.pathname);
+  if (!download) {
+    return;
+  }
+  downloads.delete(url.pathname);
+
+  const headers = new Headers({
+    'Content-Type': 'application/octet-stream',
+    'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(download.fileName)}`,
+    'Content-Security-Policy': "default-src 'none'",
+    'X-Content-Type-Options': 'nosniff',
+  });
+  if (download.size) {
+    headers.set('Content-Length', String(download.size));
+  }
+
+  event.respondWith(new Response(download.stream, { headers }));
+});
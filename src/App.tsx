@@ -12,6 +12,7 @@ import { AuthContext } from '@/contexts/authContext';
 import Layout from "@/components/Layout";
 import { ApiProvider } from '@/contexts/apiContext';
 import { OSSProvider } from '@/contexts/ossContext';
+import { CloudProvider } from '@/cloud-core/contexts/CloudProviderContext';
 
 export default function App() {
   // 从localStorage初始化状态，解决刷新丢失问题
@@ -56,28 +57,30 @@ export default function App() {
     <AuthContext.Provider
       value={{ isAuthenticated, user, login, logout }}
     >
-      <ApiProvider>
-        <OSSProvider>
-          <Routes>
-            {/* 公共路由 */}
-            <Route path="/" element={isAuthenticated ? <Navigate to="/dashboard" replace /> : <LandingPage />} />
-            <Route path="/login" element={<Login />} />
+      <CloudProvider>
+        <ApiProvider>
+          <OSSProvider>
+            <Routes>
+              {/* 公共路由 */}
+              <Route path="/" element={isAuthenticated ? <Navigate to="/dashboard" replace /> : <LandingPage />} />
+              <Route path="/login" element={<Login />} />
 
-            {/* 受保护的路由 */}
-            <Route element={<Layout />}>
-              <Route path="/dashboard" element={<Home />} />
-              <Route path="/files" element={<Files />} />
-              <Route path="/shared" element={<Shared />} />
-              <Route path="/recent" element={<Recent />} />
-              <Route path="/oss-config" element={<OSSConfig />} />
-              <Route path="/storage" element={<Storage />} />
-            </Route>
+              {/* 受保护的路由 */}
+              <Route element={<Layout />}>
+                <Route path="/dashboard" element={<Home />} />
+                <Route path="/files" element={<Files />} />
+                <Route path="/shared" element={<Shared />} />
+                <Route path="/recent" element={<Recent />} />
+                <Route path="/oss-config" element={<OSSConfig />} />
+                <Route path="/storage" element={<Storage />} />
+              </Route>
 
-            {/* 重定向所有其他路由到首页 */}
-            <Route path="*" element={<Navigate to="/" replace />} />
-          </Routes>
-        </OSSProvider>
-      </ApiProvider>
+              {/* 重定向所有其他路由到首页 */}
+              <Route path="*" element={<Navigate to="/" replace />} />
+            </Routes>
+          </OSSProvider>
+        </ApiProvider>
+      </CloudProvider>
     </AuthContext.Provider>
   );
 }
@@ -584,6 +584,27 @@ export class CacheManager {
     }
   }
 
+  /**
+   * 在元数据和列表缓存中查找文件
+   */
+  findFiles(predicate: (file: IFileItem) => boolean): IFileItem[] {
+    const found = new Map<string, IFileItem>();
+    const collect = (file: IFileItem) => {
+      if (file && predicate(file)) {
+        found.set(`${file.providerId}:${file.id}`, file);
+      }
+    };
+
+    this.caches.get(CacheType.METADATA)?.forEach(value => collect(value));
+    this.caches.get(CacheType.LISTING)?.forEach(value => {
+      if (Array.isArray(value)) {
+        value.forEach(collect);
+      }
+    });
+
+    return Array.from(found.values());
+  }
+
   /**
    * 获取缓存大小
    */
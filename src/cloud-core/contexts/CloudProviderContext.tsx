@@ -4,11 +4,13 @@
  */
 
 import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
-import { IStorageProvider, IProviderConfig, ProviderStatus } from './providers/base';
-import { providerRegistry } from './providers/registry/ProviderRegistry';
-import { transferManager, TransferManager } from './transfer/TransferManager';
-import { cacheManager, CacheManager } from './cache/CacheManager';
-import { eventBus, CloudEventType } from './events';
+import { IStorageProvider, IProviderConfig, ProviderStatus } from '../providers/base';
+import { providerRegistry } from '../providers/registry/ProviderRegistry';
+import { registerBuiltinProviders } from '../providers/registry/builtinProviders';
+import { transferManager, TransferManager } from '../transfer/TransferManager';
+import { transferScheduler } from '../transfer/TransferScheduler';
+import { cacheManager, CacheManager } from '../cache/CacheManager';
+import { eventBus, CloudEventType } from '../events';
 
 /**
  * 提供商状态接口
@@ -99,6 +101,8 @@ export const CloudProvider: React.FC<ICloudProviderProps> = ({
       setError(null);
 
       try {
+        registerBuiltinProviders();
+
         const savedProvidersJson = localStorage.getItem('cloud_providers');
         if (savedProvidersJson) {
           const savedConfigs: IProviderConfig[] = JSON.parse(savedProvidersJson);
@@ -123,7 +127,23 @@ export const CloudProvider: React.FC<ICloudProviderProps> = ({
           }
 
           setProviders(providerStates);
+
+          // 恢复上次使用的提供商
+          const activeId = localStorage.getItem('cloud_active_provider');
+          if (activeId && providerStates.some(p => p.id === activeId)) {
+            setActiveProviderId(activeId);
+          }
         }
+
+        // 提供商实例就绪后恢复未完成的传输任务
+        await transferManager.restoreTasks().catch(err => {
+          console.error('Failed to restore transfers:', err);
+        });
+
+        // 开始调度定时传输任务（错过的执行会补执行一次）
+        await transferScheduler.start().catch(err => {
+          console.error('Failed to start transfer scheduler:', err);
+        });
       } catch (err) {
         setError((err as Error).message);
         console.error('Failed to load providers:', err);
@@ -190,50 +210,70 @@ export const CloudProvider: React.FC<ICloudProviderProps> = ({
   }, []);
 
   /**
-   * 添加提供商
+   * 添加提供商（同ID时更新配置）
+   * 只有校验和连接测试通过后才会持久化
    */
   const addProvider = useCallback(async (type: string, config: IProviderConfig): Promise<void> => {
     setIsLoading(true);
     setError(null);
 
+    const previous = providers.find(p => p.id === config.id);
+    // 保留同ID的旧实例，新实例连接失败时放回（旧实例保持原有连接）
+    const previousInstance = providerRegistry.getInstance(config.id);
+    let created: IStorageProvider | undefined;
+
     try {
-      // 验证配置
-      const validation = await providerRegistry.getMetadata(type)?.factory(config).validateConfig(config);
-      if (validation && !validation.valid) {
+      // 创建提供商实例并验证配置
+      const instance = providerRegistry.create(type, config);
+      created = instance;
+      const validation = await instance.validateConfig(config);
+      if (!validation.valid) {
         throw new Error(validation.errors?.join(', '));
       }
 
-      // 创建提供商实例
-      const instance = providerRegistry.create(type, config);
       await instance.initialize();
 
+      // 自动连接（内部执行连接测试）
+      if (config.enabled) {
+        await instance.connect();
+        config.status = ProviderStatus.CONNECTED;
+        config.lastConnected = new Date();
+      }
+
       // 添加到状态
       const newProvider: IProviderState = {
         id: config.id,
         name: config.name,
         type,
-        status: ProviderStatus.DISCONNECTED,
+        status: config.status,
         enabled: config.enabled,
-        connected: false,
+        connected: config.status === ProviderStatus.CONNECTED,
         config,
       };
 
-      const updatedProviders = [...providers, newProvider];
+      const updatedProviders = previous
+        ? providers.map(p => (p.id === config.id ? newProvider : p))
+        : [...providers, newProvider];
       setProviders(updatedProviders);
       saveProviders(updatedProviders);
 
-      // 自动连接
-      if (config.enabled) {
-        await instance.connect();
-        updateProviderStatus(config.id, ProviderStatus.CONNECTED);
-      }
+      // 新实例已生效，释放被替换的旧实例
+      await previousInstance?.cleanup().catch(() => undefined);
     } catch (err) {
+      // 失败时放回旧实例
+      await created?.cleanup().catch(() => undefined);
+      if (previousInstance) {
+        providerRegistry.registerInstance(config.id, previousInstance);
+      } else {
+        await providerRegistry.removeInstance(config.id).catch(() => undefined);
+      }
+
       setError((err as Error).message);
       throw err;
     } finally {
       setIsLoading(false);
     }
-  }, [providers, saveProviders, updateProviderStatus]);
+  }, [providers, saveProviders]);
 
   /**
    * 移除提供商
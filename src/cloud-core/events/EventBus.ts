@@ -29,6 +29,8 @@ export enum CloudEventType {
   UPLOAD_PAUSED = 'upload_paused',
   UPLOAD_RESUMED = 'upload_resumed',
   UPLOAD_CANCELLED = 'upload_cancelled',
+  UPLOAD_CONFLICT = 'upload_conflict',
+  UPLOAD_CONFLICT_RESOLVED = 'upload_conflict_resolved',
 
   DOWNLOAD_STARTED = 'download_started',
   DOWNLOAD_PROGRESS = 'download_progress',
@@ -38,6 +40,10 @@ export enum CloudEventType {
   DOWNLOAD_RESUMED = 'download_resumed',
   DOWNLOAD_CANCELLED = 'download_cancelled',
 
+  TRANSFERS_RESTORED = 'transfers_restored',
+  TRANSFER_QUEUE_CHANGED = 'transfer_queue_changed',
+  TRANSFER_JOB_RUN = 'transfer_job_run',
+
   // 同步事件
   SYNC_STARTED = 'sync_started',
   SYNC_PROGRESS = 'sync_progress',
@@ -8,6 +8,9 @@ import { IFileItem, IFileListResponse } from '../providers/base/IFileItem';
 import { ITransferTask, TransferStatus } from '../providers/base/ITransferOptions';
 import { CloudEventType } from '../events';
 import { eventBus } from '../events/EventBus';
+import { IFolderEntry, collectDroppedEntries } from '../transfer/FolderUpload';
+import { TransferTaskOptions } from '../transfer/TransferManager';
+import { ConflictAction, IConflictResolution, IUploadConflict } from '../transfer/ConflictResolver';
 
 /**
  * 使用文件列表的Hook
@@ -153,6 +156,37 @@ export const useFileUpload = () => {
   return { uploading, progress, tasks, upload };
 };
 
+/**
+ * 使用文件夹上传的Hook（保留目录结构）
+ */
+export const useFolderUpload = () => {
+  const activeProvider = useActiveProvider();
+  const { transferManager } = useCloud();
+  const [uploading, setUploading] = useState(false);
+  const [groupId, setGroupId] = useState<string | null>(null);
+
+  const uploadFolder = useCallback(async (
+    entries: IFolderEntry[],
+    targetPath: string,
+    options?: TransferTaskOptions
+  ) => {
+    if (!activeProvider) {
+      throw new Error('No active provider');
+    }
+
+    setUploading(true);
+    try {
+      const result = await transferManager.uploadFolder(activeProvider, entries, { targetPath, ...options });
+      setGroupId(result.groupId);
+      return result;
+    } finally {
+      setUploading(false);
+    }
+  }, [activeProvider, transferManager]);
+
+  return { uploading, groupId, uploadFolder };
+};
+
 /**
  * 使用文件下载的Hook
  */
@@ -277,6 +311,78 @@ export const useTransfers = () => {
   };
 };
 
+/**
+ * 使用任务组汇总进度的Hook
+ */
+export const useTransferGroup = (groupId?: string | null) => {
+  const { transferManager } = useCloud();
+  const [tasks, setTasks] = useState<ITransferTask[]>([]);
+  const [summary, setSummary] = useState(() => transferManager.getGroupSummary(groupId || ''));
+
+  useEffect(() => {
+    if (!groupId) {
+      setTasks([]);
+      setSummary(transferManager.getGroupSummary(''));
+      return;
+    }
+
+    const refresh = () => {
+      setTasks(transferManager.getAllTasks().filter(task => task.groupId === groupId));
+      setSummary(transferManager.getGroupSummary(groupId));
+    };
+    refresh();
+
+    // 进度事件的数据为 { task, progress }，其余为任务本身
+    const filter = (data: any) => (data?.task ?? data)?.groupId === groupId;
+    const unsubscribes = [
+      CloudEventType.UPLOAD_STARTED,
+      CloudEventType.UPLOAD_PROGRESS,
+      CloudEventType.UPLOAD_PAUSED,
+      CloudEventType.UPLOAD_RESUMED,
+      CloudEventType.UPLOAD_CANCELLED,
+      CloudEventType.UPLOAD_COMPLETED,
+      CloudEventType.UPLOAD_FAILED,
+    ].map(type => eventBus.on(type, refresh, { filter }));
+
+    return () => {
+      unsubscribes.forEach(unsub => unsub());
+    };
+  }, [groupId, transferManager]);
+
+  return { tasks, summary };
+};
+
+/**
+ * 使用上传冲突询问的Hook
+ * 按到达顺序逐个询问；冲突被"应用到全部"或超时处理后从队列中移除
+ */
+export const useUploadConflicts = () => {
+  const { transferManager } = useCloud();
+  const [conflicts, setConflicts] = useState<IUploadConflict[]>([]);
+
+  useEffect(() => {
+    const unsubscribes = [
+      eventBus.on<IUploadConflict>(CloudEventType.UPLOAD_CONFLICT, (conflict) => {
+        setConflicts(prev => [...prev, conflict]);
+      }),
+      eventBus.on<IConflictResolution>(CloudEventType.UPLOAD_CONFLICT_RESOLVED, (resolution) => {
+        setConflicts(prev => prev.filter(conflict => conflict.conflictId !== resolution.conflictId));
+      }),
+    ];
+
+    return () => {
+      unsubscribes.forEach(unsub => unsub());
+    };
+  }, []);
+
+  const resolve = useCallback(async (conflict: IUploadConflict, action: ConflictAction, applyToAll: boolean = false) => {
+    // 同组后续冲突会直接采用该选择，不再发出询问
+    await transferManager.resolveConflict(conflict.conflictId, action, applyToAll);
+  }, [transferManager]);
+
+  return { conflict: conflicts[0] ?? null, pending: conflicts.length, resolve };
+};
+
 /**
  * 使用存储配额的Hook
  */
@@ -320,7 +426,7 @@ export const useStorageQuota = () => {
  * 使用文件拖放的Hook
  */
 export const useFileDrop = (
-  onDrop: (files: File[]) => void,
+  onDrop: (files: File[], entries: IFolderEntry[]) => void,
   options?: { accept?: string; multiple?: boolean }
 ) => {
   const [isDragging, setIsDragging] = useState(false);
@@ -347,19 +453,16 @@ export const useFileDrop = (
     e.stopPropagation();
     setIsDragging(false);
 
-    const files = Array.from(e.dataTransfer.files);
-
-    if (options?.accept) {
-      const acceptedFiles = files.filter(file => {
+    // 文件夹会展开为其中的全部文件，entries 保留相对路径
+    collectDroppedEntries(e.dataTransfer).then(entries => {
+      if (options?.accept) {
         // 简单的MIME类型检查
-        return file.type.startsWith(options.accept);
-      });
-      onDrop(acceptedFiles);
-    } else if (!options?.multiple) {
-      onDrop([files[0]]);
-    } else {
-      onDrop(files);
-    }
+        entries = entries.filter(entry => entry.file.type.startsWith(options.accept!));
+      } else if (!options?.multiple) {
+        entries = entries.slice(0, 1);
+      }
+      onDrop(entries.map(entry => entry.file), entries);
+    }).catch(console.error);
   }, [onDrop, options]);
 
   const dropHandlers = {
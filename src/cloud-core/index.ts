@@ -7,10 +7,53 @@ export * from './providers/base';
 
 // 提供商注册表
 export { providerRegistry, registerProvider, createProvider, getProviderTemplate, getAllProviderTemplates } from './providers/registry/ProviderRegistry';
+export { registerBuiltinProviders } from './providers/registry/builtinProviders';
 
 // 示例提供商
 export { WebDAVProvider, createWebDAVProvider } from './providers/examples/WebDAVProvider';
 
+// S3 兼容存储提供商
+export { S3Provider, createS3Provider } from './providers/s3/S3Provider';
+export type { IS3Object, IS3UploadedPart } from './providers/s3/S3Provider';
+export { SigV4Signer } from './providers/s3/SigV4Signer';
+
+// tus 可续传上传提供商
+export { TusProvider, createTusProvider } from './providers/tus/TusProvider';
+export type { ITusFileEntry } from './providers/tus/TusProvider';
+
+// OneDrive 提供商
+export { OneDriveProvider, createOneDriveProvider, GRAPH_ENDPOINT, ONEDRIVE_OAUTH } from './providers/onedrive/OneDriveProvider';
+export type { IOneDriveItem } from './providers/onedrive/OneDriveProvider';
+
+// Google Drive 提供商
+export {
+  GoogleDriveProvider,
+  createGoogleDriveProvider,
+  GOOGLE_API_ENDPOINT,
+  GOOGLE_DRIVE_OAUTH,
+  GOOGLE_EXPORT_FORMATS,
+  GOOGLE_FOLDER_MIME_TYPE,
+} from './providers/googledrive/GoogleDriveProvider';
+export type { IGoogleDriveFile } from './providers/googledrive/GoogleDriveProvider';
+
+// Dropbox 提供商
+export { DropboxProvider, createDropboxProvider, DROPBOX_ENDPOINTS, DROPBOX_OAUTH } from './providers/dropbox/DropboxProvider';
+export type { IDropboxMetadata } from './providers/dropbox/DropboxProvider';
+
+// 阿里云盘提供商
+export { AliDriveProvider, createAliDriveProvider, ALIDRIVE_API_ENDPOINT, ALIDRIVE_OAUTH } from './providers/alidrive/AliDriveProvider';
+export type { IAliDriveFile, AliDriveQrCodeStatus } from './providers/alidrive/AliDriveProvider';
+
+// 百度网盘提供商
+export { BaiduDriveProvider, createBaiduDriveProvider, BAIDU_ENDPOINTS, BAIDU_OAUTH } from './providers/baidu/BaiduDriveProvider';
+export type { IBaiduFile } from './providers/baidu/BaiduDriveProvider';
+
+// 客户端加密
+export { EncryptedProvider, createEncryptedProvider, ENCRYPTED_FILE_SUFFIX, ENCRYPTION_KEY_FILE } from './providers/encrypted/EncryptedProvider';
+export type { IEncryptedProviderOptions } from './providers/encrypted/EncryptedProvider';
+export { deriveKeyMaterial, DEFAULT_KDF_COST } from './providers/encrypted/KeyDerivation';
+export type { KeyDerivationFunction } from './providers/encrypted/KeyDerivation';
+
 // 事件系统
 export * from './events';
 
@@ -0,0 +1,409 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { AliDriveProvider } from './AliDriveProvider';
+import { FileType, IChunkInfo, IInstantUploadRequest, IProviderConfig, IUploadOptions, TransferStatus } from '../base';
+import { mockFetch, jsonResponse, IRecordedRequest } from '../../testing/mockFetch';
+
+const KB = 1024;
+
+const createProvider = (overrides: Partial<IProviderConfig> = {}) => new AliDriveProvider({
+  id: 'alidrive-test',
+  name: 'AliDrive Test',
+  type: 'alidrive',
+  enabled: true,
+  auth: {},
+  tokens: { accessToken: 'token' },
+  sync: { interval: 10 },
+  ...overrides,
+} as IProviderConfig);
+
+const raw = (fileId: string, name: string, extra: Record<string, unknown> = {}) => ({
+  drive_id: 'drive-1',
+  file_id: fileId,
+  parent_file_id: 'root',
+  name,
+  type: 'file',
+  size: 10,
+  updated_at: '2024-06-01T00:00:00Z',
+  ...extra,
+});
+
+/**
+ * 文件内容：第 i 个字节为 i % 251
+ */
+const createBlob = (size: number) => new Blob([Uint8Array.from({ length: size }, (_, i) => i % 251)]);
+
+const chunkAt = (index: number, size: number): IChunkInfo =>
+  ({ index, offset: index * size, size, status: TransferStatus.PENDING, retryCount: 0 });
+
+const route = (request: IRecordedRequest) => request.url.pathname;
+const body = (request: IRecordedRequest) => JSON.parse(String(request.body));
+const calls = (requests: IRecordedRequest[], path: string) => requests.filter(request => route(request) === path);
+
+/**
+ * 开放平台的业务错误（带错误码）
+ */
+const apiError = (status: number, code: string) => jsonResponse({ code, message: code }, { status });
+
+describe('AliDriveProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('列出文件', () => {
+    it('按路径解析文件夹，使用 workspace 作为 drive_id，next_marker 作为 nextCursor', async () => {
+      const { requests } = mockFetch(request => {
+        switch (route(request)) {
+          case '/adrive/v1.0/openFile/get_by_path':
+            return jsonResponse(raw('docs', 'Docs', { type: 'folder' }));
+          case '/adrive/v1.0/openFile/list':
+            return jsonResponse({
+              items: [
+                raw('a', 'a.txt', { parent_file_id: 'docs', content_hash_name: 'sha1', content_hash: 'ABCDEF' }),
+                raw('hidden', '.hidden', { parent_file_id: 'docs' }),
+                raw('sub', 'Sub', { parent_file_id: 'docs', type: 'folder' }),
+              ],
+              next_marker: 'marker-2',
+            });
+        }
+      });
+      const provider = createProvider({ workspace: 'resource-drive' });
+
+      const result = await provider.listFiles({ path: '/Docs/', cursor: 'marker-1', sortBy: 'modified', sortOrder: 'desc' });
+
+      expect(calls(requests, '/adrive/v1.0/user/getDriveInfo')).toHaveLength(0);
+      expect(requests[0].headers.get('Authorization')).toBe('Bearer token');
+      expect(body(requests[0])).toEqual({ drive_id: 'resource-drive', file_path: '/Docs' });
+      expect(body(requests[1])).toEqual({
+        drive_id: 'resource-drive',
+        parent_file_id: 'docs',
+        limit: 100,
+        marker: 'marker-1',
+        order_by: 'updated_at',
+        order_direction: 'DESC',
+      });
+      expect(result.files.map(file => [file.id, file.path, file.type])).toEqual([
+        ['a', '/Docs/a.txt', FileType.FILE],
+        ['sub', '/Docs/Sub', FileType.FOLDER],
+      ]);
+      expect(result.files[0].hash).toEqual({ sha1: 'abcdef' });
+      expect(result).toMatchObject({ nextCursor: 'marker-2', hasMore: true });
+    });
+
+    it('未设置 workspace 时使用默认网盘并缓存', async () => {
+      const { requests } = mockFetch(request => {
+        switch (route(request)) {
+          case '/adrive/v1.0/user/getDriveInfo':
+            return jsonResponse({ user_id: 'u', name: 'user', default_drive_id: 'default-drive', resource_drive_id: 'resource-drive' });
+          case '/adrive/v1.0/openFile/list':
+            return jsonResponse({ items: [], next_marker: '' });
+        }
+      });
+      const provider = createProvider();
+
+      const result = await provider.listFiles();
+      await provider.listFiles();
+
+      expect(calls(requests, '/adrive/v1.0/user/getDriveInfo')).toHaveLength(1);
+      expect(calls(requests, '/adrive/v1.0/openFile/list').map(request => body(request).drive_id)).toEqual(['default-drive', 'default-drive']);
+      expect(result).toMatchObject({ files: [], nextCursor: undefined, hasMore: false });
+      expect(await provider.listDrives()).toEqual([
+        { id: 'resource-drive', name: '资源库' },
+        { id: 'default-drive', name: '默认网盘' },
+      ]);
+    });
+  });
+
+  describe('秒传', () => {
+    const request: IInstantUploadRequest = {
+      size: 2000,
+      quickHash: 'quick',
+      hash: async () => 'fbbf1fb8250e80f74e4c4253f7c15b00b96ed2fd',
+    };
+    const options = { fileName: 'a.bin', parentId: 'root', chunkSize: 1000 * KB } as IUploadOptions;
+
+    it('pre_hash 命中后提交完整 SHA-1 和内容证明', async () => {
+      let creates = 0;
+      const { requests } = mockFetch(request => {
+        switch (route(request)) {
+          case '/adrive/v1.0/openFile/create':
+            return ++creates === 1
+              ? apiError(409, 'PreHashMatched')
+              : jsonResponse({ drive_id: 'drive-1', file_id: 'new', rapid_upload: true });
+          case '/adrive/v1.0/openFile/get':
+            return jsonResponse(raw('new', 'a.bin', { size: 2000 }));
+        }
+      });
+
+      const file = await createProvider({ workspace: 'drive-1' }).instantUpload(createBlob(2000), request, options);
+
+      const [first, second] = calls(requests, '/adrive/v1.0/openFile/create').map(body);
+      expect(first).toMatchObject({
+        parent_file_id: 'root',
+        name: 'a.bin',
+        check_name_mode: 'auto_rename',
+        size: 2000,
+        part_info_list: [{ part_number: 1 }],
+        pre_hash: '0ac28084ff74933d05123496dafd3791684d9b53',
+      });
+      // 证明起点：MD5('token') 前 16 位对 2000 取模为 56，读取第 56~63 字节
+      expect(second).toMatchObject({
+        content_hash_name: 'sha1',
+        content_hash: 'FBBF1FB8250E80F74E4C4253F7C15B00B96ED2FD',
+        proof_version: 'v1',
+        proof_code: 'ODk6Ozw9Pj8=',
+      });
+      expect(second.pre_hash).toBeUndefined();
+      expect(file).toMatchObject({ id: 'new', path: '/a.bin', size: 2000 });
+    });
+
+    it('未命中时返回 null，随后的 initChunkUpload 续用已创建的上传', async () => {
+      const { requests } = mockFetch(request => {
+        if (route(request) === '/adrive/v1.0/openFile/create') {
+          return jsonResponse({
+            drive_id: 'drive-1',
+            file_id: 'new',
+            upload_id: 'upload-1',
+            part_info_list: [{ part_number: 1, upload_url: 'https://upload.example.com/part1' }],
+          });
+        }
+      });
+      const provider = createProvider({ workspace: 'drive-1' });
+      const blob = createBlob(2000);
+
+      expect(await provider.instantUpload(blob, request, options)).toBeNull();
+      const session = await provider.initChunkUpload(blob, options);
+
+      expect(calls(requests, '/adrive/v1.0/openFile/create')).toHaveLength(1);
+      expect(session).toMatchObject({ uploadId: 'upload-1', fileId: 'new', chunkSize: 1000 * KB });
+    });
+  });
+
+  describe('分片上传', () => {
+    const options = { fileName: 'big.bin', parentId: 'root', chunkSize: 100 * KB } as IUploadOptions;
+
+    it('上传地址写入 chunk.uploadUrl，缺少时批量获取，过期时重新获取', async () => {
+      let expired = true;
+      const { requests } = mockFetch(request => {
+        if (request.url.hostname === 'upload.example.com') {
+          if (request.url.pathname === '/part2-old' && expired) {
+            expired = false;
+            return new Response('AccessDenied', { status: 403 });
+          }
+          return new Response(null, { headers: { ETag: `"${request.url.pathname}"` } });
+        }
+        switch (route(request)) {
+          case '/adrive/v1.0/openFile/create':
+            return jsonResponse({
+              drive_id: 'drive-1',
+              file_id: 'new',
+              upload_id: 'upload-1',
+              part_info_list: [{ part_number: 1, upload_url: 'https://upload.example.com/part1' }],
+            });
+          case '/adrive/v1.0/openFile/getUploadUrl': {
+            const suffix = calls(requests, '/adrive/v1.0/openFile/getUploadUrl').length === 1 ? '-old' : '-new';
+            return jsonResponse({
+              part_info_list: body(request).part_info_list.map((part: { part_number: number }) =>
+                ({ part_number: part.part_number, upload_url: `https://upload.example.com/part${part.part_number}${suffix}` })),
+            });
+          }
+          case '/adrive/v1.0/openFile/complete':
+            return jsonResponse(raw('new', 'big.bin', { size: 250 * KB }));
+        }
+      });
+      const provider = createProvider({ workspace: 'drive-1' });
+      const blob = createBlob(250 * KB);
+
+      const session = await provider.initChunkUpload(blob, options);
+      expect(body(calls(requests, '/adrive/v1.0/openFile/create')[0]).part_info_list).toEqual([
+        { part_number: 1 },
+        { part_number: 2 },
+        { part_number: 3 },
+      ]);
+
+      const chunks = [chunkAt(0, 100 * KB), chunkAt(1, 100 * KB)];
+      expect(await provider.uploadChunk(session, chunks[0], blob.slice(0, 100 * KB))).toEqual({ etag: '"/part1"' });
+      expect(chunks[0].uploadUrl).toBe('https://upload.example.com/part1');
+
+      await provider.uploadChunk(session, chunks[1], blob.slice(100 * KB, 200 * KB));
+      expect(chunks[1].uploadUrl).toBe('https://upload.example.com/part2-new');
+
+      const batches = calls(requests, '/adrive/v1.0/openFile/getUploadUrl').map(body);
+      expect(batches.map(batch => batch.part_info_list)).toEqual([
+        [{ part_number: 2 }, { part_number: 3 }],
+        [{ part_number: 2 }, { part_number: 3 }],
+      ]);
+      expect(batches[0]).toMatchObject({ drive_id: 'drive-1', file_id: 'new', upload_id: 'upload-1' });
+
+      // 签名地址不能附带认证头
+      const puts = requests.filter(request => request.method === 'PUT');
+      expect(puts.map(request => request.url.pathname)).toEqual(['/part1', '/part2-old', '/part2-new']);
+      expect(puts.every(request => !request.headers.has('Authorization'))).toBe(true);
+
+      const file = await provider.completeChunkUpload(session, chunks);
+      expect(body(calls(requests, '/adrive/v1.0/openFile/complete')[0])).toEqual({ drive_id: 'drive-1', file_id: 'new', upload_id: 'upload-1' });
+      expect(file).toMatchObject({ id: 'new', path: '/big.bin' });
+    });
+
+    it('分片已存在（409）视为成功，其他错误抛出', async () => {
+      mockFetch(request => {
+        if (request.url.pathname === '/exists') {
+          return apiError(409, 'PartAlreadyExist');
+        }
+        if (request.url.pathname === '/broken') {
+          return apiError(500, 'InternalError');
+        }
+        return jsonResponse({
+          drive_id: 'drive-1',
+          file_id: 'new',
+          upload_id: 'upload-1',
+          part_info_list: [
+            { part_number: 1, upload_url: 'https://upload.example.com/exists' },
+            { part_number: 2, upload_url: 'https://upload.example.com/broken' },
+          ],
+        });
+      });
+      const provider = createProvider({ workspace: 'drive-1' });
+      const blob = createBlob(150 * KB);
+      const session = await provider.initChunkUpload(blob, options);
+
+      expect(await provider.uploadChunk(session, chunkAt(0, 100 * KB), blob.slice(0, 100 * KB))).toEqual({ etag: undefined });
+      await expect(provider.uploadChunk(session, chunkAt(1, 100 * KB), blob.slice(100 * KB))).rejects.toMatchObject({
+        message: 'Part 2 upload failed (500): InternalError',
+        status: 500,
+      });
+    });
+
+    it('已接收字节数只计算从第 1 个分片起连续的分片，并跟随分页标记', async () => {
+      const { requests } = mockFetch(request => {
+        switch (route(request)) {
+          case '/adrive/v1.0/openFile/create':
+            return jsonResponse({ drive_id: 'drive-1', file_id: 'new', upload_id: 'upload-1', part_info_list: [] });
+          case '/adrive/v1.0/openFile/listUploadedParts':
+            return body(request).part_number_marker
+              ? jsonResponse({ uploaded_parts: [{ part_number: 2 }, { part_number: 4 }] })
+              : jsonResponse({ uploaded_parts: [{ part_number: 1 }], next_part_number_marker: '1' });
+        }
+      });
+      const provider = createProvider({ workspace: 'drive-1' });
+      const session = await provider.initChunkUpload(createBlob(350 * KB), options);
+
+      expect(await provider.getChunkUploadOffset(session)).toBe(200 * KB);
+      expect(calls(requests, '/adrive/v1.0/openFile/listUploadedParts').map(request => body(request).part_number_marker)).toEqual([
+        undefined,
+        '1',
+      ]);
+    });
+
+    it('全部分片已接收时不超过文件大小', async () => {
+      mockFetch(request => {
+        switch (route(request)) {
+          case '/adrive/v1.0/openFile/create':
+            return jsonResponse({ drive_id: 'drive-1', file_id: 'new', upload_id: 'upload-1', part_info_list: [] });
+          case '/adrive/v1.0/openFile/listUploadedParts':
+            return jsonResponse({ uploaded_parts: [{ part_number: 1 }, { part_number: 2 }] });
+        }
+      });
+      const provider = createProvider({ workspace: 'drive-1' });
+      const session = await provider.initChunkUpload(createBlob(150 * KB), options);
+
+      expect(await provider.getChunkUploadOffset(session)).toBe(150 * KB);
+    });
+  });
+
+  describe('预览', () => {
+    it('视频使用清晰度最高的已完成转码', async () => {
+      const { requests } = mockFetch(request => {
+        switch (route(request)) {
+          case '/adrive/v1.0/openFile/get':
+            return jsonResponse(raw('video', 'movie.mp4', { category: 'video' }));
+          case '/adrive/v1.0/openFile/getDownloadUrl':
+            return jsonResponse({ url: 'https://download.example.com/movie.mp4' });
+          case '/adrive/v1.0/openFile/getVideoPreviewPlayInfo':
+            return jsonResponse({
+              video_preview_play_info: {
+                live_transcoding_task_list: [
+                  { template_id: 'SD', status: 'finished', url: 'https://play.example.com/sd.m3u8' },
+                  { template_id: 'QHD', status: 'running' },
+                  { template_id: 'FHD', status: 'finished', url: 'https://play.example.com/fhd.m3u8' },
+                ],
+              },
+            });
+        }
+      });
+
+      const preview = await createProvider({ workspace: 'drive-1' }).getPreviewInfo('video');
+
+      expect(body(calls(requests, '/adrive/v1.0/openFile/getVideoPreviewPlayInfo')[0])).toMatchObject({
+        file_id: 'video',
+        category: 'live_transcoding',
+        url_expire_sec: 14400,
+      });
+      expect(preview).toMatchObject({
+        url: 'https://play.example.com/fhd.m3u8',
+        mimeType: 'application/vnd.apple.mpegurl',
+        canEmbed: true,
+        downloadUrl: 'https://download.example.com/movie.mp4',
+      });
+    });
+
+    it('转码未完成时回退到下载地址', async () => {
+      mockFetch(request => {
+        switch (route(request)) {
+          case '/adrive/v1.0/openFile/get':
+            return jsonResponse(raw('video', 'movie.mp4', { category: 'video', mime_type: 'video/mp4' }));
+          case '/adrive/v1.0/openFile/getDownloadUrl':
+            return jsonResponse({ url: 'https://download.example.com/movie.mp4' });
+          case '/adrive/v1.0/openFile/getVideoPreviewPlayInfo':
+            return jsonResponse({ video_preview_play_info: { live_transcoding_task_list: [{ template_id: 'FHD', status: 'running' }] } });
+        }
+      });
+
+      const preview = await createProvider({ workspace: 'drive-1' }).getPreviewInfo('video');
+
+      expect(preview).toMatchObject({ url: 'https://download.example.com/movie.mp4', mimeType: 'video/mp4', canEmbed: false });
+    });
+  });
+
+  describe('回收站', () => {
+    it('清空回收站时逐个彻底删除，直到列表为空', async () => {
+      let remaining = ['t1', 't2', 't3'];
+      const { requests } = mockFetch(request => {
+        switch (route(request)) {
+          case '/adrive/v1.0/openFile/recyclebin/list':
+            return jsonResponse({
+              items: remaining.slice(0, 2).map(id => raw(id, `${id}.txt`, { trashed: true })),
+              next_marker: remaining.length > 2 ? 'more' : '',
+            });
+          case '/adrive/v1.0/openFile/delete':
+            remaining = remaining.filter(id => id !== body(request).file_id);
+            return new Response(null, { status: 204 });
+        }
+      });
+
+      await createProvider({ workspace: 'drive-1' }).emptyTrash();
+
+      expect(calls(requests, '/adrive/v1.0/openFile/recyclebin/list').map(request => body(request))).toEqual([
+        { drive_id: 'drive-1', limit: 100 },
+        { drive_id: 'drive-1', limit: 100 },
+      ]);
+      expect(calls(requests, '/adrive/v1.0/openFile/delete').map(request => body(request).file_id)).toEqual(['t1', 't2', 't3']);
+      expect(remaining).toEqual([]);
+    });
+
+    it('恢复文件后返回文件信息', async () => {
+      const { requests } = mockFetch(request => {
+        switch (route(request)) {
+          case '/adrive/v1.0/openFile/recyclebin/restore':
+            return new Response(null, { status: 204 });
+          case '/adrive/v1.0/openFile/get':
+            return jsonResponse(raw('f1', 'a.txt'));
+        }
+      });
+
+      const file = await createProvider({ workspace: 'drive-1' }).restoreFile('f1');
+
+      expect(body(requests[0])).toEqual({ drive_id: 'drive-1', file_id: 'f1' });
+      expect(file).toMatchObject({ id: 'f1', path: '/a.txt', isTrashed: false });
+    });
+  });
+});
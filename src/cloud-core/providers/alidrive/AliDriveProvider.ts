@@ -0,0 +1,1440 @@
+/**
+ * 阿里云盘提供商实现
+ * 基于阿里云盘开放平台 API，OAuth2（授权码 + PKCE 或扫码登录）授权
+ *
+ * 文件以 file_id 标识，path 由父文件夹逐级解析并缓存；上传先创建文件取得分片上传地址，
+ * 按顺序 PUT 分片后完成上传。秒传先比对文件前 1KB 的 SHA-1（pre_hash），
+ * 命中后再提交整个文件的 SHA-1 和由访问令牌决定位置的内容证明（proof_code）
+ */
+
+import {
+  BaseStorageProvider,
+  IFileItem,
+  IFileListResponse,
+  IPreviewInfo,
+  IStorageProvider,
+  IProviderConfig,
+  IProviderCapabilities,
+  IListFilesOptions,
+  IUploadOptions,
+  IDownloadOptions,
+  IChunkUploadSession,
+  IChunkUploadResult,
+  IChunkInfo,
+  IInstantUploadRequest,
+  ISearchOptions,
+  ISearchResult,
+  IStorageQuota,
+  ITransferTask,
+  ITransferOptions,
+  IAuthorizationRequest,
+  OAuth2Client,
+  OAuth2Tokens,
+  isTokenExpiring,
+  FileType,
+  TransferType,
+  TransferStatus,
+  ProviderStatus,
+  ProviderEventType,
+} from '../base';
+import { createDownloadSink } from '../../transfer/DownloadSink';
+import { createHasher, hashBlob } from '../../transfer/HashAlgorithms';
+import { classifyError, createHttpError, sleep } from '../../transfer/RetryPolicy';
+
+/**
+ * 开放平台默认端点
+ */
+export const ALIDRIVE_API_ENDPOINT = 'https://openapi.alipan.com';
+
+/**
+ * 阿里云盘 OAuth2 默认配置
+ */
+export const ALIDRIVE_OAUTH = {
+  authUrl: 'https://openapi.alipan.com/oauth/authorize',
+  tokenUrl: 'https://openapi.alipan.com/oauth/access_token',
+  scopes: ['user:base', 'file:all:read', 'file:all:write'],
+};
+
+/**
+ * 扫码登录状态
+ */
+export type AliDriveQrCodeStatus = 'WaitLogin' | 'ScanSuccess' | 'LoginSuccess' | 'QRCodeExpired';
+
+/**
+ * 单个文件的最大分片数
+ */
+const MAX_PART_COUNT = 10000;
+
+/**
+ * 每次请求的分片上传地址数量
+ */
+const UPLOAD_URL_BATCH = 20;
+
+/**
+ * pre_hash 计算的文件头部大小
+ */
+const PRE_HASH_SIZE = 1024;
+
+/**
+ * 下载地址和转码播放地址的有效期（秒，开放平台最长 4 小时）
+ */
+const URL_EXPIRE_SECONDS = 4 * 60 * 60;
+
+/**
+ * 扫码登录状态查询间隔
+ */
+const QR_POLL_INTERVAL = 2000;
+
+/**
+ * 视频转码清晰度（从高到低）
+ */
+const TRANSCODING_TEMPLATES = ['QHD', 'FHD', 'HD', 'SD', 'LD'];
+
+/**
+ * 列表排序字段
+ */
+const SORT_FIELDS: Record<NonNullable<IListFilesOptions['sortBy']>, string> = {
+  name: 'name',
+  size: 'size',
+  modified: 'updated_at',
+  created: 'created_at',
+};
+
+/**
+ * 阿里云盘提供商能力声明
+ */
+const ALIDRIVE_CAPABILITIES: IProviderCapabilities = {
+  supports: {
+    listFiles: true,
+    uploadFile: true,
+    downloadFile: true,
+    deleteFile: true,
+    moveFile: true,
+    copyFile: true,
+    renameFile: true,
+    createFolder: true,
+    searchFiles: true,
+    shareFile: false,
+    getFileInfo: true,
+    getFileThumbnail: true,
+    getFilePreview: true,
+    batchDelete: false,
+    batchDownload: false,
+    batchMove: false,
+    batchCopy: false,
+    chunkUpload: true,
+    chunkDownload: true,
+    resumableUpload: true,
+    resumableDownload: true,
+    uploadSpeedLimit: false,
+    downloadSpeedLimit: false,
+    sync: false,
+    versioning: false,
+    conflictResolution: true,
+    metadataCache: true,
+    thumbnailCache: true,
+    encryption: false,
+    twoFactorAuth: false,
+  },
+  limits: {
+    maxFileSize: 100 * 1024 * 1024 * 1024, // 100GB（会员等级不同，上限不同）
+    maxFolderDepth: 0,
+    maxFileNameLength: 1024,
+    maxPathLength: 0,
+    maxUploadConnections: 1,
+    maxDownloadConnections: 4,
+    allowedFileTypes: [],
+    blockedFileTypes: [],
+  },
+  performance: {
+    recommendedChunkSize: 10 * 1024 * 1024, // 10MB
+    maxChunkSize: 5 * 1024 * 1024 * 1024, // 5GB
+    minChunkSize: 100 * 1024, // 100KB
+    fixedChunkSize: true,
+    maxConcurrentRequests: 4,
+    requestTimeout: 30000,
+    apiRateLimit: 0,
+  },
+  authMethods: ['oauth2'],
+  regions: ['cn'],
+  customMetadata: false,
+};
+
+/**
+ * 阿里云盘文件
+ */
+export interface IAliDriveFile {
+  drive_id: string;
+  file_id: string;
+  parent_file_id: string;
+  name: string;
+  type: 'file' | 'folder';
+  size?: number;
+  file_extension?: string;
+  content_hash?: string;
+  content_hash_name?: string;
+  category?: string;             // video / image / audio / doc / zip / others
+  mime_type?: string;
+  thumbnail?: string;
+  url?: string;
+  created_at?: string;
+  updated_at?: string;
+  trashed?: boolean;
+  starred?: boolean;
+  punish_flag?: number;
+  video_media_metadata?: Record<string, any>;
+  path?: string;                 // 由父文件夹路径解析后填入
+}
+
+/**
+ * 分页列表响应
+ */
+interface IAliDrivePage {
+  items: IAliDriveFile[];
+  next_marker?: string;
+}
+
+/**
+ * 分片上传地址
+ */
+interface IAliDrivePartInfo {
+  part_number: number;
+  upload_url?: string;
+  part_size?: number;
+}
+
+/**
+ * 创建文件响应
+ */
+interface IAliDriveCreateResult {
+  drive_id: string;
+  file_id: string;
+  file_name?: string;
+  upload_id?: string;
+  rapid_upload?: boolean;
+  exist?: boolean;
+  part_info_list?: IAliDrivePartInfo[];
+}
+
+/**
+ * 用户的网盘信息
+ */
+interface IAliDriveInfo {
+  user_id: string;
+  name: string;
+  default_drive_id: string;
+  resource_drive_id?: string;
+  backup_drive_id?: string;
+}
+
+/**
+ * 上传会话状态（保存在 session.metadata.aliDrive）
+ */
+interface IAliDriveSessionState {
+  driveId: string;               // 网盘ID
+  fileId: string;                // 上传中的文件ID
+  size: number;                  // 文件大小
+  partSize: number;              // 分片大小
+  partCount: number;             // 分片数
+  replaceFileId?: string;        // 覆盖上传时完成后移入回收站的同名文件
+}
+
+/**
+ * 等待续用的上传会话（秒传未命中时创建，随后的 initChunkUpload 直接使用）
+ */
+interface IPendingUpload {
+  parentId: string;
+  fileName: string;
+  partSize: number;
+  replaceFileId?: string;
+  result: IAliDriveCreateResult;
+}
+
+/**
+ * 阿里云盘提供商类
+ */
+export class AliDriveProvider extends BaseStorageProvider {
+  private apiUrl: string;
+  private oauth?: OAuth2Client;
+  private refreshing?: Promise<void>;
+  private defaultDriveId?: string;
+  private folderPaths: Map<string, string> = new Map();
+  private uploadUrls: Map<string, Map<number, string>> = new Map();
+  private pendingUploads: WeakMap<Blob, IPendingUpload> = new WeakMap();
+
+  constructor(config: IProviderConfig) {
+    super(config.id, config.name, 'alidrive', config, ALIDRIVE_CAPABILITIES);
+
+    this.apiUrl = (config.endpoint || ALIDRIVE_API_ENDPOINT).replace(/\/+$/, '');
+    this.oauth = config.auth.oauth2 ? new OAuth2Client(config.auth.oauth2, requestTokenAsJson) : undefined;
+  }
+
+  // ============================================
+  // 初始化和连接
+  // ============================================
+
+  /**
+   * 初始化提供商
+   */
+  async initialize(): Promise<void> {
+    this.setStatus(ProviderStatus.DISCONNECTED, 'Initialized');
+  }
+
+  /**
+   * 连接到提供商（读取网盘信息和配额验证令牌）
+   */
+  async connect(): Promise<void> {
+    this.setStatus(ProviderStatus.CONNECTING, 'Connecting...');
+
+    try {
+      if (!this.config.tokens?.accessToken) {
+        throw new Error('Not authorized: complete the OAuth2 sign-in first');
+      }
+      await this.getDriveId();
+      this.config.quota = await this.getStorageQuota();
+      this.config.lastConnected = new Date();
+      this.setStatus(ProviderStatus.CONNECTED, 'Connected');
+    } catch (error) {
+      this.setStatus(ProviderStatus.AUTH_ERROR, (error as Error).message);
+      throw error;
+    }
+  }
+
+  /**
+   * 断开连接
+   */
+  async disconnect(): Promise<void> {
+    this.folderPaths.clear();
+    this.setStatus(ProviderStatus.DISCONNECTED, 'Disconnected');
+  }
+
+  /**
+   * 测试连接
+   */
+  async testConnection(): Promise<boolean> {
+    try {
+      await this.api('/oauth/users/info');
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * 刷新访问令牌（并发调用共用同一次刷新）
+   */
+  async refreshAuth(): Promise<void> {
+    if (!this.refreshing) {
+      this.refreshing = this.doRefreshAuth().finally(() => {
+        this.refreshing = undefined;
+      });
+    }
+    return this.refreshing;
+  }
+
+  /**
+   * 创建授权请求，调用方保存返回值后跳转到 url
+   * 开放平台的 scope 以逗号分隔
+   */
+  public createAuthorizationRequest(params?: Record<string, string>): Promise<IAuthorizationRequest> {
+    const scopes = this.config.auth.oauth2?.scopes || ALIDRIVE_OAUTH.scopes;
+    return this.getOAuthClient().createAuthorizationRequest({ scope: scopes.join(','), ...params });
+  }
+
+  /**
+   * 处理授权回调并保存令牌
+   * @param redirectUrl - 回调页面的完整地址
+   * @param request - createAuthorizationRequest 返回的授权请求
+   */
+  public async completeAuthorization(redirectUrl: string, request: IAuthorizationRequest): Promise<void> {
+    this.setTokens(await this.getOAuthClient().handleRedirect(redirectUrl, request));
+  }
+
+  /**
+   * 创建扫码登录二维码（需要 clientSecret）
+   * @returns sid 用于查询扫码状态，qrCodeUrl 为二维码图片地址
+   */
+  public async createQrCodeLogin(width: number = 430, height: number = 430): Promise<{ sid: string; qrCodeUrl: string }> {
+    const oauth2 = this.config.auth.oauth2;
+    if (!oauth2?.clientSecret) {
+      throw new Error('QR code login requires OAuth2 clientId and clientSecret');
+    }
+
+    const response = await fetch(`${this.apiUrl}/oauth/authorize/qrcode`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        client_id: oauth2.clientId,
+        client_secret: oauth2.clientSecret,
+        scopes: oauth2.scopes.length > 0 ? oauth2.scopes : ALIDRIVE_OAUTH.scopes,
+        width,
+        height,
+      }),
+    });
+    if (!response.ok) {
+      throw await this.toError(response, 'QR code request failed');
+    }
+    return response.json();
+  }
+
+  /**
+   * 等待扫码登录完成并保存令牌（二维码过期时抛出错误）
+   * @param sid - createQrCodeLogin 返回的 sid
+   */
+  public async waitForQrCodeLogin(
+    sid: string,
+    options: { signal?: AbortSignal; interval?: number; onStatus?: (status: AliDriveQrCodeStatus) => void } = {}
+  ): Promise<void> {
+    for (;;) {
+      const response = await fetch(`${this.apiUrl}/oauth/qrcode/${encodeURIComponent(sid)}/status`, {
+        signal: options.signal,
+      });
+      if (!response.ok) {
+        throw await this.toError(response, 'QR code status request failed');
+      }
+
+      const result: { status: AliDriveQrCodeStatus; authCode?: string } = await response.json();
+      options.onStatus?.(result.status);
+
+      if (result.status === 'LoginSuccess' && result.authCode) {
+        this.setTokens(await this.getOAuthClient().exchangeCode(result.authCode));
+        return;
+      }
+      if (result.status === 'QRCodeExpired') {
+        throw new Error('QR code expired');
+      }
+
+      await sleep(options.interval ?? QR_POLL_INTERVAL, options.signal);
+      if (options.signal?.aborted) {
+        throw new Error('QR code login aborted');
+      }
+    }
+  }
+
+  /**
+   * 验证配置
+   */
+  public async validateConfig(config: IProviderConfig): Promise<{
+    valid: boolean;
+    errors?: string[];
+  }> {
+    const result = await super.validateConfig(config);
+    const errors = result.errors ? [...result.errors] : [];
+
+    if (!config.auth.oauth2 && !config.tokens?.accessToken) {
+      errors.push('OAuth2 configuration or access token is required');
+    }
+    if (config.endpoint) {
+      try {
+        new URL(config.endpoint);
+      } catch {
+        errors.push(`Invalid endpoint: ${config.endpoint}`);
+      }
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors: errors.length > 0 ? errors : undefined,
+    };
+  }
+
+  /**
+   * 列出当前用户的网盘（备份盘、资源库，用于选择 workspace）
+   */
+  public async listDrives(): Promise<Array<{ id: string; name: string }>> {
+    const info = await this.api<IAliDriveInfo>('/adrive/v1.0/user/getDriveInfo');
+    const drives: Array<{ id: string; name: string }> = [];
+
+    for (const [id, name] of [
+      [info.backup_drive_id, '备份盘'],
+      [info.resource_drive_id, '资源库'],
+      [info.default_drive_id, '默认网盘'],
+    ]) {
+      if (id && !drives.some(drive => drive.id === id)) {
+        drives.push({ id, name: name! });
+      }
+    }
+    return drives;
+  }
+
+  // ============================================
+  // 文件操作
+  // ============================================
+
+  /**
+   * 列出文件（nextCursor 为 next_marker，翻页时须传入相同的文件夹）
+   */
+  async listFiles(options?: IListFilesOptions): Promise<IFileListResponse> {
+    const folderId = await this.resolveId(options?.folderId ?? options?.path);
+    const folderPath = await this.getFolderPath(folderId);
+
+    const page = await this.api<IAliDrivePage>('/adrive/v1.0/openFile/list', {
+      drive_id: await this.getDriveId(),
+      parent_file_id: folderId,
+      limit: Math.min(options?.limit || 100, 100),
+      marker: options?.cursor,
+      order_by: SORT_FIELDS[options?.sortBy || 'name'],
+      order_direction: options?.sortOrder === 'desc' ? 'DESC' : 'ASC',
+    });
+
+    const files = page.items
+      .map(raw => this.normalizeFile(this.withChildPath(raw, folderPath)))
+      .filter(file => this.config.preferences?.showHiddenFiles || !file.isHidden);
+
+    return {
+      files,
+      nextCursor: page.next_marker || undefined,
+      hasMore: !!page.next_marker,
+    };
+  }
+
+  /**
+   * 获取文件信息
+   */
+  async getFileInfo(fileId: string): Promise<IFileItem> {
+    const id = await this.resolveId(fileId);
+    if (id === 'root') {
+      return this.normalizeFile({
+        drive_id: await this.getDriveId(),
+        file_id: 'root',
+        parent_file_id: '',
+        name: '',
+        type: 'folder',
+        path: '/',
+      });
+    }
+    return this.normalizeFile(await this.withPath(await this.getRawFile(id)));
+  }
+
+  /**
+   * 创建文件夹（同名文件夹已存在时返回现有文件夹）
+   */
+  async createFolder(name: string, parentId: string): Promise<IFileItem> {
+    const result = await this.api<IAliDriveCreateResult>('/adrive/v1.0/openFile/create', {
+      drive_id: await this.getDriveId(),
+      parent_file_id: await this.resolveId(parentId),
+      name,
+      type: 'folder',
+      check_name_mode: 'refuse',
+    });
+    return this.getFileInfo(result.file_id);
+  }
+
+  /**
+   * 重命名文件
+   */
+  async renameFile(fileId: string, newName: string): Promise<IFileItem> {
+    const raw = await this.api<IAliDriveFile>('/adrive/v1.0/openFile/update', {
+      drive_id: await this.getDriveId(),
+      file_id: await this.resolveId(fileId),
+      name: newName,
+      check_name_mode: 'refuse',
+    });
+    this.folderPaths.clear();
+    return this.normalizeFile(await this.withPath(raw));
+  }
+
+  /**
+   * 移动文件
+   */
+  async moveFile(fileId: string, targetParentId: string): Promise<IFileItem> {
+    const result = await this.api<{ file_id: string }>('/adrive/v1.0/openFile/move', {
+      drive_id: await this.getDriveId(),
+      file_id: await this.resolveId(fileId),
+      to_parent_file_id: await this.resolveId(targetParentId),
+      check_name_mode: 'refuse',
+    });
+    this.folderPaths.clear();
+    return this.getFileInfo(result.file_id);
+  }
+
+  /**
+   * 复制文件（目标重名时自动重命名；文件夹在服务端异步复制）
+   */
+  async copyFile(fileId: string, targetParentId: string, newName?: string): Promise<IFileItem> {
+    const driveId = await this.getDriveId();
+    const result = await this.api<{ file_id: string }>('/adrive/v1.0/openFile/copy', {
+      drive_id: driveId,
+      file_id: await this.resolveId(fileId),
+      to_drive_id: driveId,
+      to_parent_file_id: await this.resolveId(targetParentId),
+      auto_rename: true,
+    });
+    return newName ? this.renameFile(result.file_id, newName) : this.getFileInfo(result.file_id);
+  }
+
+  /**
+   * 删除文件（默认移入回收站）
+   */
+  async deleteFile(fileId: string, permanent?: boolean): Promise<void> {
+    await this.api(permanent ? '/adrive/v1.0/openFile/delete' : '/adrive/v1.0/openFile/recyclebin/trash', {
+      drive_id: await this.getDriveId(),
+      file_id: await this.resolveId(fileId),
+    });
+    this.folderPaths.delete(fileId);
+  }
+
+  /**
+   * 清空回收站（开放平台没有清空接口，逐个彻底删除回收站中的文件）
+   */
+  public async emptyTrash(): Promise<void> {
+    const driveId = await this.getDriveId();
+    let page: IAliDrivePage;
+
+    do {
+      // 删除后的文件不再出现在列表中，始终读取第一页
+      page = await this.api<IAliDrivePage>('/adrive/v1.0/openFile/recyclebin/list', { drive_id: driveId, limit: 100 });
+      for (const item of page.items) {
+        await this.api('/adrive/v1.0/openFile/delete', { drive_id: driveId, file_id: item.file_id });
+      }
+    } while (page.items.length > 0 && page.next_marker);
+  }
+
+  /**
+   * 从回收站恢复文件
+   */
+  public async restoreFile(fileId: string): Promise<IFileItem> {
+    await this.api('/adrive/v1.0/openFile/recyclebin/restore', {
+      drive_id: await this.getDriveId(),
+      file_id: fileId,
+    });
+    return this.getFileInfo(fileId);
+  }
+
+  /**
+   * 搜索文件（按名称匹配）
+   */
+  async searchFiles(options: ISearchOptions): Promise<ISearchResult> {
+    const startedAt = Date.now();
+    const conditions = [`name match "${escapeQuery(options.query)}"`];
+    if (options.folderId) {
+      conditions.push(`parent_file_id = "${escapeQuery(await this.resolveId(options.folderId))}"`);
+    }
+
+    const page = await this.api<IAliDrivePage & { total_count?: number }>('/adrive/v1.0/openFile/search', {
+      drive_id: await this.getDriveId(),
+      query: conditions.join(' and '),
+      limit: Math.min(options.limit || 100, 100),
+      order_by: 'updated_at DESC',
+    });
+    const files = await Promise.all(page.items.map(async raw => this.normalizeFile(await this.withPath(raw))));
+
+    return {
+      files,
+      total: page.total_count ?? files.length,
+      searchTime: Date.now() - startedAt,
+    };
+  }
+
+  // ============================================
+  // 上传和下载
+  // ============================================
+
+  /**
+   * 上传文件（开放平台没有单次上传接口，所有文件都按分片上传）
+   */
+  async uploadFile(file: File | Blob, options: IUploadOptions): Promise<ITransferTask> {
+    const task = this.createTransferTask(
+      TransferType.UPLOAD,
+      options.fileName,
+      file.size,
+      { providerId: 'local', path: options.fileName },
+      { providerId: this.id, path: options.targetPath },
+      { ...options, chunkSize: options.chunkSize || this.capabilities.performance.recommendedChunkSize } as ITransferOptions
+    );
+
+    task.status = TransferStatus.ACTIVE;
+    task.startedAt = new Date();
+
+    try {
+      const session = await this.initChunkUpload(file, options);
+      const { partSize, partCount } = this.getSessionState(session);
+
+      for (let index = 0; index < partCount; index++) {
+        const offset = index * partSize;
+        const size = Math.min(partSize, file.size - offset);
+        const chunk: IChunkInfo = { index, offset, size, status: TransferStatus.ACTIVE, retryCount: 0 };
+        await this.uploadChunk(session, chunk, file.slice(offset, offset + size));
+
+        task.progress.transferred = offset + size;
+        task.progress.percentage = file.size > 0 ? ((offset + size) / file.size) * 100 : 100;
+        options.onProgress?.(task.progress);
+      }
+      const fileItem = await this.completeChunkUpload(session, []);
+
+      task.status = TransferStatus.COMPLETED;
+      task.completedAt = new Date();
+      task.destination.fileId = fileItem.id;
+      task.result = { success: true, fileId: fileItem.id, filePath: fileItem.path };
+      options.onComplete?.(task);
+    } catch (error) {
+      task.status = TransferStatus.FAILED;
+      task.error = error as Error;
+      task.errorMessage = (error as Error).message;
+      task.errorCount++;
+      options.onError?.(error as Error);
+      throw error;
+    }
+
+    return task;
+  }
+
+  /**
+   * 下载文件（流式写入本地，不在内存中缓冲整个文件）
+   */
+  async downloadFile(fileId: string, options?: IDownloadOptions): Promise<ITransferTask> {
+    const fileInfo = await this.getFileInfo(fileId);
+
+    const task = this.createTransferTask(
+      TransferType.DOWNLOAD,
+      fileInfo.name,
+      fileInfo.size,
+      { providerId: this.id, path: fileInfo.path, fileId },
+      { providerId: 'local', path: '/' },
+      options || {} as any
+    );
+
+    task.status = TransferStatus.ACTIVE;
+    task.startedAt = new Date();
+
+    const sink = await createDownloadSink({
+      fileName: fileInfo.name,
+      size: fileInfo.size,
+      mimeType: fileInfo.mimeType,
+      fileHandle: options?.saveHandle,
+    });
+
+    try {
+      const reader = (await this.openDownloadStream(fileInfo.id)).getReader();
+      let transferred = 0;
+
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+
+        await sink.write(value);
+        transferred += value.length;
+
+        task.progress.transferred = transferred;
+        task.progress.percentage = fileInfo.size > 0 ? (transferred / fileInfo.size) * 100 : 100;
+        options?.onProgress?.(task.progress);
+      }
+
+      await sink.close();
+
+      task.status = TransferStatus.COMPLETED;
+      task.progress.transferred = fileInfo.size;
+      task.progress.percentage = 100;
+      task.completedAt = new Date();
+      task.result = { success: true, fileId, filePath: fileInfo.path };
+    } catch (error) {
+      await sink.abort().catch(() => undefined);
+      task.status = TransferStatus.FAILED;
+      task.error = error as Error;
+      throw error;
+    }
+
+    return task;
+  }
+
+  /**
+   * 打开文件读取流（通过下载地址读取，支持 Range）
+   */
+  async openDownloadStream(
+    fileId: string,
+    range?: { start: number; end: number },
+    signal?: AbortSignal
+  ): Promise<ReadableStream<Uint8Array>> {
+    // 下载地址已签名，不能附带 Authorization 头
+    const response = await fetch(await this.getDownloadUrl(fileId), {
+      headers: range ? { Range: `bytes=${range.start}-${range.end}` } : undefined,
+      signal,
+    });
+    if (!response.ok) {
+      throw await this.toError(response, 'Download failed');
+    }
+
+    if (range && response.status !== 206) {
+      throw new Error('Server does not support range requests');
+    }
+
+    if (!response.body) {
+      throw new Error('Streaming response body is not supported');
+    }
+
+    return response.body;
+  }
+
+  /**
+   * 获取下载地址（有效期最长 4 小时）
+   */
+  public async getDownloadUrl(fileId: string, expiresIn: number = URL_EXPIRE_SECONDS): Promise<string> {
+    const result = await this.api<{ url: string }>('/adrive/v1.0/openFile/getDownloadUrl', {
+      drive_id: await this.getDriveId(),
+      file_id: await this.resolveId(fileId),
+      expire_sec: Math.min(expiresIn, URL_EXPIRE_SECONDS),
+    });
+    return result.url;
+  }
+
+  // ============================================
+  // 分片上传契约（供 TransferManager 调度）
+  // ============================================
+
+  /**
+   * 秒传：先提交文件前 1KB 的 SHA-1，服务端有匹配时再提交整个文件的 SHA-1 和内容证明
+   * 未命中时创建的上传会话留给随后的 initChunkUpload 使用
+   */
+  async instantUpload(
+    file: File | Blob,
+    request: IInstantUploadRequest,
+    options: IUploadOptions
+  ): Promise<IFileItem | null> {
+    const parentId = await this.resolveId(options.parentId ?? options.targetPath);
+    const partSize = this.getPartSize(file.size, options.chunkSize);
+    const replaceFileId = options.overwrite ? await this.findChildId(parentId, options.fileName) : undefined;
+    const preHash = await hashBlob(file.slice(0, PRE_HASH_SIZE), 'sha1');
+
+    let result: IAliDriveCreateResult;
+    try {
+      result = await this.createUploadFile(parentId, options, file.size, partSize, { pre_hash: preHash });
+    } catch (error) {
+      if ((error as { code?: string }).code !== 'PreHashMatched') {
+        throw error;
+      }
+      result = await this.createUploadFile(parentId, options, file.size, partSize, {
+        content_hash_name: 'sha1',
+        content_hash: (await request.hash('sha1')).toUpperCase(),
+        proof_version: 'v1',
+        proof_code: await this.createProofCode(file),
+      });
+    }
+
+    if (result.rapid_upload) {
+      await this.trashReplaced(replaceFileId, result.file_id);
+      return this.getFileInfo(result.file_id);
+    }
+
+    this.pendingUploads.set(file, { parentId, fileName: options.fileName, partSize, replaceFileId, result });
+    return null;
+  }
+
+  /**
+   * 创建上传文件并取得分片上传地址（分片数超过上限时增大分片）
+   */
+  async initChunkUpload(file: File | Blob, options: IUploadOptions): Promise<IChunkUploadSession> {
+    const parentId = await this.resolveId(options.parentId ?? options.targetPath);
+    const partSize = this.getPartSize(file.size, options.chunkSize);
+
+    const pending = this.pendingUploads.get(file);
+    this.pendingUploads.delete(file);
+
+    let result: IAliDriveCreateResult;
+    let replaceFileId: string | undefined;
+    if (pending && pending.parentId === parentId && pending.fileName === options.fileName && pending.partSize === partSize) {
+      result = pending.result;
+      replaceFileId = pending.replaceFileId;
+    } else {
+      replaceFileId = options.overwrite ? await this.findChildId(parentId, options.fileName) : undefined;
+      result = await this.createUploadFile(parentId, options, file.size, partSize);
+    }
+
+    if (!result.upload_id) {
+      throw new Error(`Upload session was not created for ${options.fileName}`);
+    }
+
+    this.cacheUploadUrls(result.upload_id, result.part_info_list);
+    const state: IAliDriveSessionState = {
+      driveId: result.drive_id || await this.getDriveId(),
+      fileId: result.file_id,
+      size: file.size,
+      partSize,
+      partCount: getPartCount(file.size, partSize),
+      replaceFileId,
+    };
+
+    return {
+      uploadId: result.upload_id,
+      fileId: result.file_id,
+      chunkSize: partSize,
+      metadata: { aliDrive: state },
+    };
+  }
+
+  /**
+   * 上传一个分片（分片序号为 index + 1，上传地址记录在 chunk.uploadUrl）
+   * 上传地址过期时重新获取后重试一次
+   */
+  async uploadChunk(
+    session: IChunkUploadSession,
+    chunk: IChunkInfo,
+    data: Blob,
+    signal?: AbortSignal
+  ): Promise<IChunkUploadResult> {
+    const partNumber = chunk.index + 1;
+    // 按会话取地址：恢复时分片上可能还留着已失效会话的地址
+    chunk.uploadUrl = await this.getPartUploadUrl(session, partNumber);
+
+    let response = await putPart(chunk.uploadUrl, data, signal);
+    if (response.status === 403 || response.status === 404) {
+      this.uploadUrls.delete(session.uploadId);
+      chunk.uploadUrl = await this.getPartUploadUrl(session, partNumber);
+      response = await putPart(chunk.uploadUrl, data, signal);
+    }
+
+    // 409 PartAlreadyExist：分片已上传（如上次请求成功但响应丢失）
+    if (!response.ok && response.status !== 409) {
+      throw await this.toError(response, `Part ${partNumber} upload failed`);
+    }
+
+    return { etag: response.headers.get('ETag') || undefined };
+  }
+
+  /**
+   * 完成上传；覆盖上传时将原同名文件移入回收站
+   */
+  async completeChunkUpload(session: IChunkUploadSession, _chunks: IChunkInfo[]): Promise<IFileItem> {
+    const state = this.getSessionState(session);
+    const raw = await this.api<IAliDriveFile>('/adrive/v1.0/openFile/complete', {
+      drive_id: state.driveId,
+      file_id: state.fileId,
+      upload_id: session.uploadId,
+    });
+    this.uploadUrls.delete(session.uploadId);
+    await this.trashReplaced(state.replaceFileId, raw.file_id);
+    return this.normalizeFile(await this.withPath(raw));
+  }
+
+  /**
+   * 取消上传（删除上传中的文件）
+   */
+  async abortChunkUpload(session: IChunkUploadSession): Promise<void> {
+    const state = this.getSessionState(session);
+    this.uploadUrls.delete(session.uploadId);
+    try {
+      await this.api('/adrive/v1.0/openFile/delete', { drive_id: state.driveId, file_id: state.fileId });
+    } catch (error) {
+      if (classifyError(error).status !== 404) {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * 查询服务端已接收的连续字节数（从第 1 个分片起连续已上传的分片）
+   */
+  async getChunkUploadOffset(session: IChunkUploadSession, signal?: AbortSignal): Promise<number> {
+    const state = this.getSessionState(session);
+    const uploaded = new Set<number>();
+    let marker: string | undefined;
+
+    do {
+      const result = await this.api<{ uploaded_parts: IAliDrivePartInfo[]; next_part_number_marker?: string }>(
+        '/adrive/v1.0/openFile/listUploadedParts',
+        { drive_id: state.driveId, file_id: state.fileId, upload_id: session.uploadId, part_number_marker: marker },
+        signal
+      );
+      result.uploaded_parts.forEach(part => uploaded.add(part.part_number));
+      marker = result.next_part_number_marker || undefined;
+    } while (marker);
+
+    let parts = 0;
+    while (uploaded.has(parts + 1)) {
+      parts++;
+    }
+    return Math.min(state.size, parts * state.partSize);
+  }
+
+  // ============================================
+  // 缩略图和预览
+  // ============================================
+
+  /**
+   * 获取预览信息
+   * 视频使用清晰度最高的已完成转码（HLS 播放地址），转码未完成或其他文件使用下载地址
+   */
+  public async getPreviewInfo(fileId: string): Promise<IPreviewInfo> {
+    const file = await this.getFileInfo(fileId);
+    const downloadUrl = file.type === FileType.FOLDER ? undefined : await this.getDownloadUrl(file.id);
+    const expiresAt = new Date(Date.now() + URL_EXPIRE_SECONDS * 1000);
+
+    if (file.extensionStatus?.aliDrive?.category === 'video') {
+      const result = await this.api<{ video_preview_play_info?: { live_transcoding_task_list?: Array<{ template_id: string; status: string; url?: string }> } }>(
+        '/adrive/v1.0/openFile/getVideoPreviewPlayInfo',
+        {
+          drive_id: await this.getDriveId(),
+          file_id: file.id,
+          category: 'live_transcoding',
+          url_expire_sec: URL_EXPIRE_SECONDS,
+        }
+      );
+      const tasks = (result.video_preview_play_info?.live_transcoding_task_list || [])
+        .filter(task => task.status === 'finished' && task.url)
+        .sort((a, b) => rankTemplate(a.template_id) - rankTemplate(b.template_id));
+
+      if (tasks.length > 0) {
+        return {
+          url: tasks[0].url!,
+          mimeType: 'application/vnd.apple.mpegurl',
+          expiresAt,
+          canEmbed: true,
+          downloadUrl,
+        };
+      }
+    }
+
+    return {
+      url: downloadUrl || '',
+      mimeType: file.mimeType || 'application/octet-stream',
+      expiresAt,
+      canEmbed: file.fileType === FileType.IMAGE,
+      downloadUrl,
+    };
+  }
+
+  // ============================================
+  // 存储配额
+  // ============================================
+
+  /**
+   * 获取存储配额
+   */
+  async getStorageQuota(): Promise<IStorageQuota> {
+    const result = await this.api<{ personal_space_info: { used_size: number; total_size: number } }>(
+      '/adrive/v1.0/user/getSpaceInfo'
+    );
+    const total = result.personal_space_info?.total_size || 0;
+    const used = result.personal_space_info?.used_size || 0;
+
+    return {
+      total,
+      used,
+      remaining: Math.max(0, total - used),
+      usagePercentage: total > 0 ? (used / total) * 100 : 0,
+    };
+  }
+
+  // ============================================
+  // 实用方法
+  // ============================================
+
+  /**
+   * 获取提供商特定功能
+   */
+  public getFeature(feature: string): any {
+    switch (feature) {
+      case 'oauth2':
+        return this.getOAuthClient();
+      default:
+        return super.getFeature(feature);
+    }
+  }
+
+  /**
+   * 标准化文件项（path 由调用方解析后填入原始数据）
+   */
+  normalizeFile(rawFile: IAliDriveFile): IFileItem {
+    const isFolder = rawFile.type === 'folder';
+    const isRoot = rawFile.file_id === 'root';
+    const createdAt = new Date(rawFile.created_at || Date.now());
+    const modifiedAt = new Date(rawFile.updated_at || createdAt.getTime());
+    const sha1 = rawFile.content_hash_name?.toLowerCase() === 'sha1' ? rawFile.content_hash?.toLowerCase() : undefined;
+
+    return {
+      id: rawFile.file_id,
+      providerId: this.id,
+      parentId: isRoot ? '' : rawFile.parent_file_id,
+      path: isRoot ? '/' : rawFile.path || `/${rawFile.name}`,
+      name: rawFile.name,
+      type: isFolder ? FileType.FOLDER : FileType.FILE,
+      fileType: isFolder ? FileType.FOLDER : (this.getFileType(rawFile.name) as FileType),
+      size: rawFile.size || 0,
+      createdAt,
+      modifiedAt,
+      downloadUrl: rawFile.url,
+      thumbnailUrl: rawFile.thumbnail,
+      mimeType: isFolder ? undefined : rawFile.mime_type || this.getMimeType(rawFile.name),
+      hash: sha1 ? { sha1 } : undefined,
+      permissions: {
+        canRead: true,
+        canWrite: true,
+        canDelete: !isRoot,
+        canShare: false,
+        canRename: !isRoot,
+        canMove: !isRoot,
+        canCopy: !isRoot,
+      },
+      hasVersions: false,
+      isFavorite: !!rawFile.starred,
+      isOffline: false,
+      isShared: false,
+      isLocked: false,
+      isHidden: rawFile.name.startsWith('.'),
+      isTrashed: !!rawFile.trashed,
+      isEncrypted: false,
+      extensionStatus: {
+        aliDrive: {
+          category: rawFile.category || (isFolder ? 'folder' : 'others'),
+          thumbnail: rawFile.thumbnail,
+          videoPreviewMetadata: rawFile.video_media_metadata,
+          punishmentFlag: rawFile.punish_flag,
+          driveId: rawFile.drive_id,
+        },
+      },
+      isCached: false,
+    };
+  }
+
+  /**
+   * 反标准化文件项
+   */
+  denormalizeFile(file: IFileItem): IAliDriveFile {
+    const aliDrive = file.extensionStatus?.aliDrive;
+    return {
+      drive_id: aliDrive?.driveId || this.config.workspace || this.defaultDriveId || '',
+      file_id: file.id,
+      parent_file_id: file.parentId,
+      name: file.name,
+      type: file.type === FileType.FOLDER ? 'folder' : 'file',
+      size: file.type === FileType.FOLDER ? undefined : file.size,
+      content_hash: file.hash?.sha1?.toUpperCase(),
+      content_hash_name: file.hash?.sha1 ? 'sha1' : undefined,
+      category: aliDrive?.category,
+      mime_type: file.mimeType,
+      thumbnail: aliDrive?.thumbnail,
+      url: file.downloadUrl,
+      created_at: file.createdAt.toISOString(),
+      updated_at: file.modifiedAt.toISOString(),
+      trashed: file.isTrashed,
+      starred: file.isFavorite,
+      punish_flag: aliDrive?.punishmentFlag,
+      video_media_metadata: aliDrive?.videoPreviewMetadata,
+      path: file.path,
+    };
+  }
+
+  // ============================================
+  // 私有辅助方法
+  // ============================================
+
+  /**
+   * 调用开放平台接口（POST JSON，令牌即将过期时先刷新），失败时抛出带状态码的错误
+   */
+  private async api<T = void>(path: string, body?: Record<string, unknown>, signal?: AbortSignal): Promise<T> {
+    if (isTokenExpiring(this.config.tokens) && this.config.tokens?.refreshToken) {
+      await this.refreshAuth();
+    }
+
+    const response = await this.fetchWithAuth(`${this.apiUrl}${path}`, {
+      method: body ? 'POST' : 'GET',
+      headers: body ? { 'Content-Type': 'application/json' } : undefined,
+      body: body ? JSON.stringify(body) : undefined,
+      signal,
+    });
+    if (!response.ok) {
+      throw await this.toError(response, 'AliDrive request failed');
+    }
+
+    const text = await response.text();
+    return (text ? JSON.parse(text) : undefined) as T;
+  }
+
+  /**
+   * 由错误响应创建带状态码的错误（附带开放平台错误码 code）
+   */
+  private async toError(response: Response, message: string): Promise<Error> {
+    const text = await response.text().catch(() => '');
+    let body: { code?: string; message?: string } | undefined;
+    try {
+      body = text ? JSON.parse(text) : undefined;
+    } catch {
+      body = undefined;
+    }
+
+    const detail = body?.message || body?.code || text || response.statusText;
+    return Object.assign(createHttpError(response, `${message} (${response.status}): ${detail}`), { code: body?.code });
+  }
+
+  private async doRefreshAuth(): Promise<void> {
+    const refreshToken = this.config.tokens?.refreshToken;
+    if (!refreshToken) {
+      throw new Error('No refresh token available');
+    }
+
+    try {
+      this.setTokens(await this.getOAuthClient().refresh(refreshToken));
+    } catch (error) {
+      this.setStatus(ProviderStatus.AUTH_ERROR, (error as Error).message);
+      throw error;
+    }
+  }
+
+  /**
+   * 保存令牌并通知（调用方监听 TOKEN_REFRESHED 持久化配置）
+   */
+  private setTokens(tokens: OAuth2Tokens): void {
+    this.config.tokens = { ...this.config.tokens, ...tokens };
+    this.emit({
+      type: ProviderEventType.TOKEN_REFRESHED,
+      timestamp: new Date(),
+      data: { tokens: this.config.tokens },
+    });
+  }
+
+  private getOAuthClient(): OAuth2Client {
+    if (!this.oauth) {
+      throw new Error('OAuth2 is not configured for this provider');
+    }
+    return this.oauth;
+  }
+
+  /**
+   * 当前网盘ID（workspace 未设置时使用默认网盘）
+   */
+  private async getDriveId(): Promise<string> {
+    if (this.config.workspace) {
+      return this.config.workspace;
+    }
+    if (!this.defaultDriveId) {
+      const info = await this.api<IAliDriveInfo>('/adrive/v1.0/user/getDriveInfo');
+      this.defaultDriveId = info.default_drive_id;
+    }
+    return this.defaultDriveId;
+  }
+
+  /**
+   * 文件标识解析为文件ID：空值、/ 和 root 为根文件夹，以 / 开头时按路径查找
+   */
+  private async resolveId(idOrPath?: string): Promise<string> {
+    if (!idOrPath || idOrPath === '/' || idOrPath === 'root') {
+      return 'root';
+    }
+    if (!idOrPath.startsWith('/')) {
+      return idOrPath;
+    }
+
+    const path = `/${idOrPath.split('/').filter(Boolean).join('/')}`;
+    const raw = await this.api<IAliDriveFile>('/adrive/v1.0/openFile/get_by_path', {
+      drive_id: await this.getDriveId(),
+      file_path: path,
+    });
+    if (raw.type === 'folder') {
+      this.folderPaths.set(raw.file_id, path);
+    }
+    return raw.file_id;
+  }
+
+  private async getRawFile(id: string): Promise<IAliDriveFile> {
+    return this.api<IAliDriveFile>('/adrive/v1.0/openFile/get', { drive_id: await this.getDriveId(), file_id: id });
+  }
+
+  /**
+   * 文件夹路径（逐级查询父文件夹并缓存）
+   */
+  private async getFolderPath(folderId: string): Promise<string> {
+    if (folderId === 'root') {
+      return '/';
+    }
+    const cached = this.folderPaths.get(folderId);
+    if (cached) {
+      return cached;
+    }
+
+    const folder = await this.getRawFile(folderId);
+    const path = joinPath(await this.getFolderPath(folder.parent_file_id || 'root'), folder.name);
+    this.folderPaths.set(folderId, path);
+    return path;
+  }
+
+  /**
+   * 补充原始数据的路径
+   */
+  private async withPath(raw: IAliDriveFile): Promise<IAliDriveFile> {
+    return this.withChildPath(raw, await this.getFolderPath(raw.parent_file_id || 'root'));
+  }
+
+  /**
+   * 按已知的父文件夹路径补充路径，文件夹同时写入路径缓存
+   */
+  private withChildPath(raw: IAliDriveFile, parentPath: string): IAliDriveFile {
+    const path = joinPath(parentPath, raw.name);
+    if (raw.type === 'folder') {
+      this.folderPaths.set(raw.file_id, path);
+    }
+    return { ...raw, path };
+  }
+
+  /**
+   * 查找文件夹中指定名称的子项，不存在时返回 undefined
+   */
+  private async findChildId(parentId: string, name: string): Promise<string | undefined> {
+    try {
+      return await this.resolveId(joinPath(await this.getFolderPath(parentId), name));
+    } catch (error) {
+      if (classifyError(error).status === 404) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 创建上传文件（覆盖上传时允许同名，完成后再移除原文件；否则自动重命名）
+   * @param hashes - 秒传参数（pre_hash 或 content_hash 与 proof_code）
+   */
+  private async createUploadFile(
+    parentId: string,
+    options: IUploadOptions,
+    size: number,
+    partSize: number,
+    hashes: Record<string, string> = {}
+  ): Promise<IAliDriveCreateResult> {
+    const partCount = getPartCount(size, partSize);
+    return this.api<IAliDriveCreateResult>('/adrive/v1.0/openFile/create', {
+      drive_id: await this.getDriveId(),
+      parent_file_id: parentId,
+      name: options.fileName,
+      type: 'file',
+      check_name_mode: options.overwrite ? 'ignore' : 'auto_rename',
+      size,
+      part_info_list: Array.from({ length: partCount }, (_, index) => ({ part_number: index + 1 })),
+      ...hashes,
+    });
+  }
+
+  /**
+   * 秒传内容证明（v1）：访问令牌 MD5 的前 16 位十六进制数对文件大小取模作为起点，读取 8 字节并 Base64 编码
+   */
+  private async createProofCode(file: File | Blob): Promise<string> {
+    if (file.size === 0) {
+      return '';
+    }
+
+    const hasher = createHasher('md5');
+    hasher.update(new TextEncoder().encode(this.config.tokens?.accessToken || ''));
+    const start = Number(BigInt(`0x${hasher.digest().slice(0, 16)}`) % BigInt(file.size));
+    const bytes = new Uint8Array(await file.slice(start, Math.min(start + 8, file.size)).arrayBuffer());
+
+    let binary = '';
+    bytes.forEach(byte => {
+      binary += String.fromCharCode(byte);
+    });
+    return btoa(binary);
+  }
+
+  /**
+   * 覆盖上传完成后将原同名文件移入回收站
+   */
+  private async trashReplaced(replaceFileId: string | undefined, newFileId: string): Promise<void> {
+    if (replaceFileId && replaceFileId !== newFileId) {
+      await this.deleteFile(replaceFileId);
+    }
+  }
+
+  /**
+   * 分片大小：分片数超过上限时按上限均分（向上取整到 MB）
+   */
+  private getPartSize(size: number, requested?: number): number {
+    const partSize = Math.max(
+      requested || this.capabilities.performance.recommendedChunkSize,
+      this.capabilities.performance.minChunkSize
+    );
+    if (getPartCount(size, partSize) <= MAX_PART_COUNT) {
+      return partSize;
+    }
+    const megabyte = 1024 * 1024;
+    return Math.ceil(size / MAX_PART_COUNT / megabyte) * megabyte;
+  }
+
+  private cacheUploadUrls(uploadId: string, parts: IAliDrivePartInfo[] = []): void {
+    const urls = this.uploadUrls.get(uploadId) || new Map<number, string>();
+    for (const part of parts) {
+      if (part.upload_url) {
+        urls.set(part.part_number, part.upload_url);
+      }
+    }
+    this.uploadUrls.set(uploadId, urls);
+  }
+
+  /**
+   * 分片上传地址（没有缓存时批量获取之后的若干个分片的地址）
+   */
+  private async getPartUploadUrl(session: IChunkUploadSession, partNumber: number): Promise<string> {
+    const cached = this.uploadUrls.get(session.uploadId)?.get(partNumber);
+    if (cached) {
+      return cached;
+    }
+
+    const state = this.getSessionState(session);
+    const count = Math.max(1, Math.min(UPLOAD_URL_BATCH, state.partCount - partNumber + 1));
+    const result = await this.api<{ part_info_list: IAliDrivePartInfo[] }>('/adrive/v1.0/openFile/getUploadUrl', {
+      drive_id: state.driveId,
+      file_id: state.fileId,
+      upload_id: session.uploadId,
+      part_info_list: Array.from({ length: count }, (_, index) => ({ part_number: partNumber + index })),
+    });
+    this.cacheUploadUrls(session.uploadId, result.part_info_list);
+
+    const url = this.uploadUrls.get(session.uploadId)?.get(partNumber);
+    if (!url) {
+      throw new Error(`Upload URL missing for part ${partNumber}`);
+    }
+    return url;
+  }
+
+  private getSessionState(session: IChunkUploadSession): IAliDriveSessionState {
+    const state = session.metadata?.aliDrive as IAliDriveSessionState | undefined;
+    if (!state) {
+      throw new Error(`Invalid AliDrive upload session: ${session.uploadId}`);
+    }
+    return state;
+  }
+}
+
+/**
+ * 令牌请求：开放平台的令牌端点只接受 JSON 请求体
+ */
+function requestTokenAsJson(url: string, init: RequestInit): Promise<Response> {
+  const params = Object.fromEntries(new URLSearchParams(String(init.body || '')));
+  return fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+    body: JSON.stringify(params),
+  });
+}
+
+/**
+ * 上传分片到已签名的上传地址（不能附带 Authorization 和 Content-Type 头）
+ */
+function putPart(url: string, data: Blob, signal?: AbortSignal): Promise<Response> {
+  return fetch(url, { method: 'PUT', body: data.type ? data.slice(0, data.size, '') : data, signal });
+}
+
+/**
+ * 分片数（空文件也需要一个分片）
+ */
+function getPartCount(size: number, partSize: number): number {
+  return Math.max(1, Math.ceil(size / partSize));
+}
+
+function rankTemplate(templateId: string): number {
+  const index = TRANSCODING_TEMPLATES.indexOf(templateId);
+  return index === -1 ? TRANSCODING_TEMPLATES.length : index;
+}
+
+function escapeQuery(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+function joinPath(parentPath: string, name: string): string {
+  return parentPath === '/' ? `/${name}` : `${parentPath}/${name}`;
+}
+
+/**
+ * 创建阿里云盘提供商实例
+ */
+export function createAliDriveProvider(config: IProviderConfig): IStorageProvider {
+  return new AliDriveProvider(config);
+}
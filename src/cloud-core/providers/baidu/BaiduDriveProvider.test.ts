@@ -0,0 +1,293 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { BaiduDriveProvider } from './BaiduDriveProvider';
+import { FileType, IInstantUploadRequest, IProviderConfig, IUploadOptions, TransferStatus } from '../base';
+import { mockFetch, jsonResponse, IRecordedRequest } from '../../testing/mockFetch';
+
+const KB = 1024;
+const MB = 1024 * KB;
+
+const createProvider = () => new BaiduDriveProvider({
+  id: 'baidu-test',
+  name: 'Baidu Test',
+  type: 'baidu',
+  enabled: true,
+  auth: {},
+  tokens: { accessToken: 'token' },
+  sync: { interval: 10 },
+} as IProviderConfig);
+
+const raw = (fsId: number, path: string, extra: Record<string, unknown> = {}) => ({
+  fs_id: fsId,
+  path,
+  server_filename: path.split('/').pop(),
+  size: 10,
+  isdir: 0,
+  category: 6,
+  server_mtime: 1717200000,
+  ...extra,
+});
+
+/**
+ * 文件内容：第 i 个字节为 i % 251
+ */
+const createBlob = (size: number) => new Blob([Uint8Array.from({ length: size }, (_, i) => i % 251)]);
+
+/**
+ * 接口路径和 method 参数，如 file?list
+ */
+const route = (request: IRecordedRequest) =>
+  `${request.url.pathname.split('/').pop()}?${request.url.searchParams.get('method') ?? ''}`;
+const form = (request: IRecordedRequest) => Object.fromEntries(request.body as URLSearchParams);
+const calls = (requests: IRecordedRequest[], name: string) => requests.filter(request => route(request) === name);
+
+/**
+ * 百度网盘出错时返回 200 和非 0 的 errno
+ */
+const apiError = (errno: number) => jsonResponse({ errno, errmsg: 'error' });
+
+describe('BaiduDriveProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('列出文件', () => {
+    it('按路径列出，fs_id 作为文件ID，按分类映射文件类型', async () => {
+      const { requests } = mockFetch(request => route(request) === 'file?list'
+        ? jsonResponse({
+            errno: 0,
+            list: [
+              raw(1, '/Docs/movie.bin', { category: 1 }),
+              raw(2, '/Docs/photo.bin', { category: 3, thumbs: { url1: 'small', url3: 'large' } }),
+              raw(3, '/Docs/report.pdf', { md5: 'abc' }),
+              raw(4, '/Docs/.hidden'),
+              raw(5, '/Docs/Sub', { isdir: 1, size: 0 }),
+            ],
+          })
+        : undefined);
+
+      const result = await createProvider().listFiles({ path: '/Docs/', limit: 5, cursor: '10', sortBy: 'modified', sortOrder: 'desc' });
+
+      const params = Object.fromEntries(requests[0].url.searchParams);
+      expect(requests[0].url.origin).toBe('https://pan.baidu.com');
+      expect(params).toMatchObject({ dir: '/Docs', order: 'time', desc: '1', start: '10', limit: '5', access_token: 'token' });
+      expect(result.files.map(file => [file.id, file.parentId, file.path, file.fileType])).toEqual([
+        ['1', '/Docs', '/Docs/movie.bin', FileType.VIDEO],
+        ['2', '/Docs', '/Docs/photo.bin', FileType.IMAGE],
+        ['3', '/Docs', '/Docs/report.pdf', FileType.DOCUMENT],
+        ['5', '/Docs', '/Docs/Sub', FileType.FOLDER],
+      ]);
+      expect(result.files[1].thumbnailUrl).toBe('large');
+      expect(result.files[2].extensionStatus?.baiduDrive).toEqual({ category: 6, fs_id: 3, md5: 'abc' });
+      // 返回数量等于 limit（含隐藏文件）时还有下一页
+      expect(result).toMatchObject({ nextCursor: '15', hasMore: true });
+    });
+
+    it('已列出的 fs_id 直接使用缓存的路径，未知的通过 filemetas 查询', async () => {
+      const { requests } = mockFetch(request => {
+        switch (route(request)) {
+          case 'file?list':
+            return jsonResponse({ errno: 0, list: request.url.searchParams.get('dir') === '/' ? [raw(5, '/Sub', { isdir: 1 })] : [] });
+          case 'multimedia?filemetas':
+            return jsonResponse({ errno: 0, list: [raw(9, '/Other', { isdir: 1 })] });
+        }
+      });
+      const provider = createProvider();
+
+      await provider.listFiles();
+      await provider.listFiles({ folderId: '5' });
+      await provider.listFiles({ folderId: '9' });
+
+      expect(calls(requests, 'file?list').map(request => request.url.searchParams.get('dir'))).toEqual(['/', '/Sub', '/Other']);
+      expect(calls(requests, 'multimedia?filemetas').map(request => request.url.searchParams.get('fsids'))).toEqual(['[9]']);
+    });
+  });
+
+  describe('文件信息', () => {
+    it('getFilesInfo 按 100 个分批查询 filemetas，路径按父文件夹列表解析，找不到的跳过', async () => {
+      const { requests } = mockFetch(request => {
+        switch (route(request)) {
+          case 'file?list':
+            return jsonResponse({ errno: 0, list: [raw(500, '/a.txt')] });
+          case 'multimedia?filemetas': {
+            const fsIds: number[] = JSON.parse(request.url.searchParams.get('fsids')!);
+            return jsonResponse({ errno: 0, list: fsIds.map(fsId => ({ ...raw(fsId, `/f${fsId}`), server_filename: undefined, filename: `f${fsId}` })) });
+          }
+        }
+      });
+      const ids = [...Array.from({ length: 149 }, (_, index) => String(index + 1)), '/a.txt', '/missing.txt'];
+
+      const files = await createProvider().getFilesInfo(ids);
+
+      const batches = calls(requests, 'multimedia?filemetas').map(request => JSON.parse(request.url.searchParams.get('fsids')!));
+      expect(batches.map(batch => batch.length)).toEqual([100, 50]);
+      expect(batches[1].slice(-1)).toEqual([500]);
+      expect(files).toHaveLength(150);
+      expect(files[0]).toMatchObject({ id: '1', name: 'f1', path: '/f1' });
+    });
+
+    it('根目录返回固定的文件夹，errno 映射为状态码', async () => {
+      mockFetch(() => apiError(-9));
+      const provider = createProvider();
+
+      expect(await provider.getFileInfo('root')).toMatchObject({ id: '/', path: '/', type: FileType.FOLDER });
+      await expect(provider.getFileInfo('42')).rejects.toMatchObject({ status: 404, errno: -9 });
+    });
+  });
+
+  describe('上传', () => {
+    it('precreate → superfile2 → create，分片大小按会员等级', async () => {
+      const { requests } = mockFetch(request => {
+        switch (route(request)) {
+          case 'nas?uinfo':
+            return jsonResponse({ errno: 0, vip_type: 0 });
+          case 'file?precreate':
+            return jsonResponse({ errno: 0, uploadid: 'upload-1', return_type: 1 });
+          case 'superfile2?upload':
+            return jsonResponse({ md5: `md5-${request.url.searchParams.get('partseq')}` });
+          case 'file?create':
+            return jsonResponse({ errno: 0, ...raw(77, '/Docs/big.bin', { size: 4 * MB + 10 }) });
+        }
+      });
+      const progress: number[] = [];
+
+      const task = await createProvider().uploadFile(createBlob(4 * MB + 10), {
+        fileName: 'big.bin',
+        targetPath: '/Docs',
+        onProgress: p => {
+          progress.push(p.transferred);
+        },
+      } as IUploadOptions);
+
+      const blockList = JSON.stringify(['aad8b8e4d120d0df7a7fda991d5dab03', '4f10fe7c2e3b1db5639bb8681f041ad6']);
+      expect(form(calls(requests, 'file?precreate')[0])).toEqual({
+        path: '/Docs/big.bin',
+        size: String(4 * MB + 10),
+        isdir: '0',
+        autoinit: '1',
+        rtype: '1',
+        block_list: blockList,
+      });
+
+      const slices = calls(requests, 'superfile2?upload');
+      expect(slices.map(request => request.url.origin)).toEqual(['https://d.pcs.baidu.com', 'https://d.pcs.baidu.com']);
+      expect(slices.map(request => Object.fromEntries(request.url.searchParams))).toEqual([0, 1].map(partseq => ({
+        method: 'upload',
+        type: 'tmpfile',
+        path: '/Docs/big.bin',
+        uploadid: 'upload-1',
+        partseq: String(partseq),
+        access_token: 'token',
+      })));
+      expect(slices.map(request => ((request.body as FormData).get('file') as Blob).size)).toEqual([4 * MB, 10]);
+
+      expect(form(calls(requests, 'file?create')[0])).toEqual({
+        path: '/Docs/big.bin',
+        size: String(4 * MB + 10),
+        isdir: '0',
+        rtype: '1',
+        uploadid: 'upload-1',
+        block_list: blockList,
+      });
+      expect(progress).toEqual([4 * MB, 4 * MB + 10]);
+      expect(task.result).toMatchObject({ success: true, fileId: '77', filePath: '/Docs/big.bin' });
+    });
+
+    it('precreate 按分片 MD5 秒传完成时跳过分片上传', async () => {
+      const { requests } = mockFetch(request => {
+        switch (route(request)) {
+          case 'nas?uinfo':
+            return jsonResponse({ errno: 0, vip_type: 2 });
+          case 'file?precreate':
+            return jsonResponse({ errno: 0, path: '/a.bin', return_type: 2 });
+          case 'file?list':
+            return jsonResponse({ errno: 0, list: [raw(88, '/a.bin')] });
+          case 'multimedia?filemetas':
+            return jsonResponse({ errno: 0, list: [raw(88, '/a.bin')] });
+        }
+      });
+      const provider = createProvider();
+      const blob = createBlob(100);
+
+      const session = await provider.initChunkUpload(blob, { fileName: 'a.bin', overwrite: true } as IUploadOptions);
+      expect(await provider.uploadChunk(session, { index: 0, offset: 0, size: 100, status: TransferStatus.PENDING, retryCount: 0 }, blob)).toEqual({});
+      const file = await provider.completeChunkUpload(session, []);
+
+      expect(session).toMatchObject({ uploadId: 'rapid:/a.bin', chunkSize: 32 * MB });
+      expect(form(calls(requests, 'file?precreate')[0]).rtype).toBe('3');
+      expect(calls(requests, 'superfile2?upload')).toHaveLength(0);
+      expect(calls(requests, 'file?create')).toHaveLength(0);
+      expect(file).toMatchObject({ id: '88', path: '/a.bin' });
+    });
+  });
+
+  describe('秒传', () => {
+    const request: IInstantUploadRequest = { size: 300 * KB, quickHash: 'quick', hash: async () => 'full-md5' };
+    const options = { fileName: 'a.bin', targetPath: '/Docs' } as IUploadOptions;
+
+    it('rapidupload 提交整个文件和前 256KB 的 MD5', async () => {
+      const { requests } = mockFetch(() => jsonResponse({ errno: 0, info: raw(66, '/Docs/a.bin', { size: 300 * KB }) }));
+
+      const file = await createProvider().instantUpload(createBlob(300 * KB), request, options);
+
+      expect(route(requests[0])).toBe('file?rapidupload');
+      expect(form(requests[0])).toEqual({
+        path: '/Docs/a.bin',
+        'content-length': String(300 * KB),
+        'content-md5': 'full-md5',
+        'slice-md5': 'f6224c81f6d6b0c9c260a4f677f5db6f',
+        rtype: '1',
+      });
+      expect(file).toMatchObject({ id: '66', path: '/Docs/a.bin' });
+    });
+
+    it('小于 256KB 的文件不请求，未匹配时返回 null，其他错误抛出', async () => {
+      let errno = 31079;
+      const { requests } = mockFetch(() => apiError(errno));
+      const provider = createProvider();
+
+      expect(await provider.instantUpload(createBlob(100 * KB), request, options)).toBeNull();
+      expect(requests).toHaveLength(0);
+
+      expect(await provider.instantUpload(createBlob(300 * KB), request, options)).toBeNull();
+      errno = 404;
+      expect(await provider.instantUpload(createBlob(300 * KB), request, options)).toBeNull();
+
+      errno = 31034;
+      await expect(provider.instantUpload(createBlob(300 * KB), request, options)).rejects.toMatchObject({ status: 429, errno: 31034 });
+    });
+  });
+
+  describe('下载', () => {
+    it('通过 filemetas 的 dlink 读取，附带访问令牌，不设置 User-Agent', async () => {
+      const { requests } = mockFetch(request => {
+        if (request.url.hostname === 'd.pcs.baidu.com') {
+          return new Response('partial', { status: 206 });
+        }
+        return jsonResponse({ errno: 0, list: [raw(42, '/a.txt', { dlink: 'https://d.pcs.baidu.com/file/abc?fid=42' })] });
+      });
+      const provider = createProvider();
+
+      const stream = await provider.openDownloadStream('42', { start: 0, end: 6 });
+
+      expect(await new Response(stream).text()).toBe('partial');
+      expect(requests[0].url.searchParams.get('dlink')).toBe('1');
+      const download = requests[1];
+      expect(download.url.toString()).toBe('https://d.pcs.baidu.com/file/abc?fid=42&access_token=token');
+      expect(download.headers.get('Range')).toBe('bytes=0-6');
+      expect(download.headers.has('User-Agent')).toBe(false);
+      await expect(provider.getDownloadUrl('42')).rejects.toThrow('use openDownloadStream');
+    });
+  });
+
+  describe('存储配额', () => {
+    it('由 quota 接口计算剩余空间', async () => {
+      const { requests } = mockFetch(() => jsonResponse({ errno: 0, total: 1000, used: 250, free: 700 }));
+
+      const quota = await createProvider().getStorageQuota();
+
+      expect(requests[0].url.pathname).toBe('/api/quota');
+      expect(Object.fromEntries(requests[0].url.searchParams)).toMatchObject({ checkfree: '1', checkexpire: '1' });
+      expect(quota).toEqual({ total: 1000, used: 250, remaining: 700, usagePercentage: 25 });
+    });
+  });
+});
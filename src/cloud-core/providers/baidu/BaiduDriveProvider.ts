@@ -0,0 +1,1158 @@
+/**
+ * 百度网盘提供商实现
+ * 基于百度网盘开放平台（xpan）API，OAuth2 授权码授权
+ *
+ * 百度网盘的文件操作以路径为参数，路径在重命名和移动后会变化；IFileItem.id 使用不变的 fs_id，
+ * 按需通过 filemetas 查询路径并缓存。上传按 precreate → superfile2 分片 → create 三步完成，
+ * 分片大小由会员等级决定；秒传使用 rapidupload 按 MD5 匹配
+ */
+
+import {
+  BaseStorageProvider,
+  IFileItem,
+  IFileListResponse,
+  IStorageProvider,
+  IProviderConfig,
+  IProviderCapabilities,
+  IListFilesOptions,
+  IUploadOptions,
+  IDownloadOptions,
+  IChunkUploadSession,
+  IChunkUploadResult,
+  IChunkInfo,
+  IInstantUploadRequest,
+  ISearchOptions,
+  ISearchResult,
+  IStorageQuota,
+  ITransferTask,
+  ITransferOptions,
+  IAuthorizationRequest,
+  OAuth2Client,
+  OAuth2Tokens,
+  isTokenExpiring,
+  FileType,
+  TransferType,
+  TransferStatus,
+  ProviderStatus,
+  ProviderEventType,
+} from '../base';
+import { createDownloadSink } from '../../transfer/DownloadSink';
+import { hashBlob } from '../../transfer/HashAlgorithms';
+import { hashService } from '../../transfer/HashService';
+import { createHttpError } from '../../transfer/RetryPolicy';
+
+/**
+ * 百度网盘默认端点（API 和分片上传）
+ */
+export const BAIDU_ENDPOINTS = {
+  api: 'https://pan.baidu.com',
+  upload: 'https://d.pcs.baidu.com',
+};
+
+/**
+ * 百度网盘 OAuth2 默认配置
+ */
+export const BAIDU_OAUTH = {
+  authUrl: 'https://openapi.baidu.com/oauth/2.0/authorize',
+  tokenUrl: 'https://openapi.baidu.com/oauth/2.0/token',
+  scopes: ['basic', 'netdisk'],
+};
+
+/**
+ * 各会员等级的分片大小（普通用户 4MB、普通会员 16MB、超级会员 32MB）
+ */
+const BLOCK_SIZES: Record<number, number> = {
+  0: 4 * 1024 * 1024,
+  1: 16 * 1024 * 1024,
+  2: 32 * 1024 * 1024,
+};
+
+/**
+ * 秒传校验的文件头部大小（slice-md5），小于该大小的文件不能秒传
+ */
+const SLICE_MD5_SIZE = 256 * 1024;
+
+/**
+ * filemetas 单次查询的最大文件数
+ */
+const FILEMETAS_BATCH = 100;
+
+/**
+ * 列表默认分页大小（接口上限 1000）
+ */
+const DEFAULT_PAGE_SIZE = 100;
+
+/**
+ * 文件分类对应的文件类型（5 应用、6 其他、7 种子按扩展名判断）
+ */
+const CATEGORY_TYPES: Record<number, FileType> = {
+  1: FileType.VIDEO,
+  2: FileType.AUDIO,
+  3: FileType.IMAGE,
+  4: FileType.DOCUMENT,
+};
+
+/**
+ * 列表排序字段
+ */
+const SORT_FIELDS: Record<NonNullable<IListFilesOptions['sortBy']>, string> = {
+  name: 'name',
+  size: 'size',
+  modified: 'time',
+  created: 'time',
+};
+
+/**
+ * 错误码对应的 HTTP 状态（百度网盘出错时多数仍返回 200）
+ */
+const ERRNO_STATUS: Record<number, number> = {
+  [-6]: 401,                     // 身份验证失败
+  [-7]: 400,                     // 文件名非法
+  [-8]: 409,                     // 文件已存在
+  [-9]: 404,                     // 文件不存在
+  110: 401,                      // 访问令牌无效
+  111: 401,                      // 访问令牌过期
+  404: 404,                      // 秒传 MD5 不匹配
+  31034: 429,                    // 请求过于频繁
+  31066: 404,                    // 文件不存在
+  31079: 404,                    // 秒传未找到文件
+};
+
+/**
+ * 百度网盘提供商能力声明
+ */
+const BAIDU_CAPABILITIES: IProviderCapabilities = {
+  supports: {
+    listFiles: true,
+    uploadFile: true,
+    downloadFile: true,
+    deleteFile: true,
+    moveFile: true,
+    copyFile: true,
+    renameFile: true,
+    createFolder: true,
+    searchFiles: true,
+    shareFile: false,
+    getFileInfo: true,
+    getFileThumbnail: true,
+    getFilePreview: false,
+    batchDelete: false,
+    batchDownload: false,
+    batchMove: false,
+    batchCopy: false,
+    chunkUpload: true,
+    chunkDownload: true,
+    resumableUpload: true,
+    resumableDownload: true,
+    uploadSpeedLimit: false,
+    downloadSpeedLimit: false,
+    sync: false,
+    versioning: false,
+    conflictResolution: true,
+    metadataCache: true,
+    thumbnailCache: true,
+    encryption: false,
+    twoFactorAuth: false,
+  },
+  limits: {
+    maxFileSize: 20 * 1024 * 1024 * 1024, // 20GB（超级会员，普通用户 4GB）
+    maxFolderDepth: 0,
+    maxFileNameLength: 255,
+    maxPathLength: 1000,
+    maxUploadConnections: 3,
+    maxDownloadConnections: 2,
+    allowedFileTypes: [],
+    blockedFileTypes: [],
+  },
+  performance: {
+    recommendedChunkSize: 4 * 1024 * 1024, // 4MB
+    maxChunkSize: 32 * 1024 * 1024, // 32MB
+    minChunkSize: 4 * 1024 * 1024, // 4MB
+    fixedChunkSize: true,
+    chunkHashesUpFront: true,
+    maxConcurrentRequests: 4,
+    requestTimeout: 30000,
+    apiRateLimit: 0,
+  },
+  authMethods: ['oauth2'],
+  regions: ['cn'],
+  customMetadata: false,
+};
+
+/**
+ * 百度网盘文件
+ */
+export interface IBaiduFile {
+  fs_id: number;
+  path: string;
+  server_filename?: string;      // list / search 返回
+  filename?: string;             // filemetas 返回
+  size?: number;
+  isdir: number;
+  category?: number;             // 1 视频 2 音频 3 图片 4 文档 5 应用 6 其他 7 种子
+  md5?: string;
+  server_ctime?: number;         // 秒
+  server_mtime?: number;         // 秒
+  thumbs?: { url1?: string; url2?: string; url3?: string; icon?: string };
+  dlink?: string;                // 下载地址（filemetas 请求 dlink=1 时返回，8 小时有效）
+}
+
+/**
+ * 接口响应（errno 非 0 表示出错）
+ */
+interface IBaiduResponse {
+  errno?: number;
+  error_code?: number;
+  errmsg?: string;
+  error_msg?: string;
+  request_id?: number | string;
+}
+
+/**
+ * 上传会话状态（保存在 session.metadata.baidu）
+ */
+interface IBaiduSessionState {
+  path: string;                  // 目标文件路径
+  size: number;                  // 文件大小
+  blockList: string[];           // 各分片的 MD5
+  rtype: number;                 // 重名处理：1 自动重命名，3 覆盖
+  rapid?: boolean;               // precreate 已按分片 MD5 秒传完成
+}
+
+/**
+ * 百度网盘提供商类
+ */
+export class BaiduDriveProvider extends BaseStorageProvider {
+  private endpoints: typeof BAIDU_ENDPOINTS;
+  private oauth?: OAuth2Client;
+  private refreshing?: Promise<void>;
+  private vipType?: number;
+  private paths: Map<string, string> = new Map();
+
+  constructor(config: IProviderConfig) {
+    super(config.id, config.name, 'baidu', config, BAIDU_CAPABILITIES);
+
+    // 自定义 endpoint（如本地模拟服务）同时替换 API 和上传域名
+    const endpoint = config.endpoint?.replace(/\/+$/, '');
+    this.endpoints = endpoint ? { api: endpoint, upload: endpoint } : BAIDU_ENDPOINTS;
+    this.oauth = config.auth.oauth2 ? new OAuth2Client(config.auth.oauth2) : undefined;
+  }
+
+  // ============================================
+  // 初始化和连接
+  // ============================================
+
+  /**
+   * 初始化提供商
+   */
+  async initialize(): Promise<void> {
+    this.setStatus(ProviderStatus.DISCONNECTED, 'Initialized');
+  }
+
+  /**
+   * 连接到提供商（读取用户信息和配额验证令牌）
+   */
+  async connect(): Promise<void> {
+    this.setStatus(ProviderStatus.CONNECTING, 'Connecting...');
+
+    try {
+      if (!this.config.tokens?.accessToken) {
+        throw new Error('Not authorized: complete the OAuth2 sign-in first');
+      }
+      await this.getBlockSize();
+      this.config.quota = await this.getStorageQuota();
+      this.config.lastConnected = new Date();
+      this.setStatus(ProviderStatus.CONNECTED, 'Connected');
+    } catch (error) {
+      this.setStatus(ProviderStatus.AUTH_ERROR, (error as Error).message);
+      throw error;
+    }
+  }
+
+  /**
+   * 断开连接
+   */
+  async disconnect(): Promise<void> {
+    this.paths.clear();
+    this.setStatus(ProviderStatus.DISCONNECTED, 'Disconnected');
+  }
+
+  /**
+   * 测试连接
+   */
+  async testConnection(): Promise<boolean> {
+    try {
+      await this.api('/rest/2.0/xpan/nas', { method: 'uinfo' });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * 刷新访问令牌（并发调用共用同一次刷新）
+   */
+  async refreshAuth(): Promise<void> {
+    if (!this.refreshing) {
+      this.refreshing = this.doRefreshAuth().finally(() => {
+        this.refreshing = undefined;
+      });
+    }
+    return this.refreshing;
+  }
+
+  /**
+   * 创建授权请求，调用方保存返回值后跳转到 url
+   * 百度的 scope 以逗号分隔
+   */
+  public createAuthorizationRequest(params?: Record<string, string>): Promise<IAuthorizationRequest> {
+    const scopes = this.config.auth.oauth2?.scopes || BAIDU_OAUTH.scopes;
+    return this.getOAuthClient().createAuthorizationRequest({ scope: scopes.join(','), ...params });
+  }
+
+  /**
+   * 处理授权回调并保存令牌
+   * @param redirectUrl - 回调页面的完整地址
+   * @param request - createAuthorizationRequest 返回的授权请求
+   */
+  public async completeAuthorization(redirectUrl: string, request: IAuthorizationRequest): Promise<void> {
+    this.setTokens(await this.getOAuthClient().handleRedirect(redirectUrl, request));
+  }
+
+  /**
+   * 验证配置
+   */
+  public async validateConfig(config: IProviderConfig): Promise<{
+    valid: boolean;
+    errors?: string[];
+  }> {
+    const result = await super.validateConfig(config);
+    const errors = result.errors ? [...result.errors] : [];
+
+    if (!config.auth.oauth2 && !config.tokens?.accessToken) {
+      errors.push('OAuth2 configuration or access token is required');
+    }
+    if (config.auth.oauth2 && !config.auth.oauth2.clientSecret) {
+      errors.push('Baidu OAuth2 requires clientSecret');
+    }
+    if (config.endpoint) {
+      try {
+        new URL(config.endpoint);
+      } catch {
+        errors.push(`Invalid endpoint: ${config.endpoint}`);
+      }
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors: errors.length > 0 ? errors : undefined,
+    };
+  }
+
+  // ============================================
+  // 文件操作
+  // ============================================
+
+  /**
+   * 列出文件（nextCursor 为下一页的起始位置，翻页时须传入相同的文件夹）
+   */
+  async listFiles(options?: IListFilesOptions): Promise<IFileListResponse> {
+    const dir = await this.resolvePath(options?.folderId ?? options?.path);
+    const limit = Math.min(options?.limit || DEFAULT_PAGE_SIZE, 1000);
+    const start = Number(options?.cursor || 0);
+
+    const result = await this.api<{ list: IBaiduFile[] }>('/rest/2.0/xpan/file', {
+      method: 'list',
+      dir,
+      order: SORT_FIELDS[options?.sortBy || 'name'],
+      ...(options?.sortOrder === 'desc' ? { desc: '1' } : {}),
+      start: String(start),
+      limit: String(limit),
+      web: '1',
+    });
+
+    const files = (result.list || [])
+      .map(raw => this.normalizeFile(raw))
+      .filter(file => this.config.preferences?.showHiddenFiles || !file.isHidden);
+    const hasMore = (result.list || []).length === limit;
+
+    return {
+      files,
+      nextCursor: hasMore ? String(start + limit) : undefined,
+      hasMore,
+    };
+  }
+
+  /**
+   * 获取文件信息（根目录没有 fs_id，返回固定的根文件夹）
+   */
+  async getFileInfo(fileId: string): Promise<IFileItem> {
+    const path = await this.resolvePath(fileId);
+    if (path === '/') {
+      return this.normalizeFile({ fs_id: 0, path: '/', server_filename: '', isdir: 1 });
+    }
+
+    const fsId = isFsId(fileId) ? fileId : (await this.findByPath(path)).fs_id;
+    const [raw] = await this.fetchMetas([String(fsId)]);
+    if (!raw) {
+      throw Object.assign(new Error(`File not found: ${fileId}`), { status: 404 });
+    }
+    return this.normalizeFile(raw);
+  }
+
+  /**
+   * 批量获取文件信息（filemetas 每次查询 100 个，找不到的文件跳过）
+   */
+  public async getFilesInfo(fileIds: string[]): Promise<IFileItem[]> {
+    const fsIds: string[] = [];
+    for (const fileId of fileIds) {
+      try {
+        fsIds.push(isFsId(fileId) ? fileId : String((await this.findByPath(await this.resolvePath(fileId))).fs_id));
+      } catch {
+        // 与默认实现一致：找不到的文件不出现在结果中
+      }
+    }
+
+    const files: IFileItem[] = [];
+    for (let index = 0; index < fsIds.length; index += FILEMETAS_BATCH) {
+      const metas = await this.fetchMetas(fsIds.slice(index, index + FILEMETAS_BATCH));
+      files.push(...metas.map(raw => this.normalizeFile(raw)));
+    }
+    return files;
+  }
+
+  /**
+   * 创建文件夹
+   */
+  async createFolder(name: string, parentId: string): Promise<IFileItem> {
+    const raw = await this.api<IBaiduFile>(
+      '/rest/2.0/xpan/file',
+      { method: 'create' },
+      { path: joinPath(await this.resolvePath(parentId), name), isdir: '1', rtype: '0' }
+    );
+    return this.normalizeFile({ ...raw, isdir: 1 });
+  }
+
+  /**
+   * 重命名文件（fs_id 不变）
+   */
+  async renameFile(fileId: string, newName: string): Promise<IFileItem> {
+    const path = await this.resolvePath(fileId);
+    await this.fileManager('rename', [{ path, newname: newName }]);
+    return this.afterRelocate(fileId, joinPath(parentPath(path), newName));
+  }
+
+  /**
+   * 移动文件（fs_id 不变）
+   */
+  async moveFile(fileId: string, targetParentId: string): Promise<IFileItem> {
+    const path = await this.resolvePath(fileId);
+    const dest = await this.resolvePath(targetParentId);
+    await this.fileManager('move', [{ path, dest, newname: basename(path), ondup: 'fail' }]);
+    return this.afterRelocate(fileId, joinPath(dest, basename(path)));
+  }
+
+  /**
+   * 复制文件（目标已有同名文件时失败，避免返回错误的文件）
+   */
+  async copyFile(fileId: string, targetParentId: string, newName?: string): Promise<IFileItem> {
+    const path = await this.resolvePath(fileId);
+    const dest = await this.resolvePath(targetParentId);
+    const name = newName || basename(path);
+    await this.fileManager('copy', [{ path, dest, newname: name, ondup: 'fail' }]);
+    return this.getFileInfo(joinPath(dest, name));
+  }
+
+  /**
+   * 删除文件（移入回收站；开放平台不支持彻底删除和从回收站恢复）
+   */
+  async deleteFile(fileId: string, _permanent?: boolean): Promise<void> {
+    await this.fileManager('delete', [await this.resolvePath(fileId)]);
+    this.paths.clear();
+  }
+
+  /**
+   * 搜索文件（按名称匹配，包含子文件夹）
+   */
+  async searchFiles(options: ISearchOptions): Promise<ISearchResult> {
+    const startedAt = Date.now();
+    const result = await this.api<{ list: IBaiduFile[] }>('/rest/2.0/xpan/file', {
+      method: 'search',
+      key: options.query,
+      dir: await this.resolvePath(options.folderId),
+      recursion: '1',
+      web: '1',
+      ...(options.limit ? { num: String(options.limit) } : {}),
+    });
+    const files = (result.list || []).map(raw => this.normalizeFile(raw));
+
+    return {
+      files,
+      total: files.length,
+      searchTime: Date.now() - startedAt,
+    };
+  }
+
+  // ============================================
+  // 上传和下载
+  // ============================================
+
+  /**
+   * 上传文件（所有文件都按 precreate → superfile2 → create 上传）
+   */
+  async uploadFile(file: File | Blob, options: IUploadOptions): Promise<ITransferTask> {
+    const task = this.createTransferTask(
+      TransferType.UPLOAD,
+      options.fileName,
+      file.size,
+      { providerId: 'local', path: options.fileName },
+      { providerId: this.id, path: options.targetPath },
+      { ...options, chunkSize: await this.getBlockSize() } as ITransferOptions
+    );
+
+    task.status = TransferStatus.ACTIVE;
+    task.startedAt = new Date();
+
+    try {
+      const session = await this.initChunkUpload(file, options);
+      const blockSize = session.chunkSize!;
+      const chunks: IChunkInfo[] = [];
+
+      for (let index = 0; index < this.getSessionState(session).blockList.length; index++) {
+        const offset = index * blockSize;
+        const size = Math.min(blockSize, file.size - offset);
+        const chunk: IChunkInfo = { index, offset, size, status: TransferStatus.ACTIVE, retryCount: 0 };
+        chunk.etag = (await this.uploadChunk(session, chunk, file.slice(offset, offset + size))).etag;
+        chunks.push(chunk);
+
+        task.progress.transferred = offset + size;
+        task.progress.percentage = file.size > 0 ? ((offset + size) / file.size) * 100 : 100;
+        options.onProgress?.(task.progress);
+      }
+      const fileItem = await this.completeChunkUpload(session, chunks);
+
+      task.status = TransferStatus.COMPLETED;
+      task.completedAt = new Date();
+      task.destination.fileId = fileItem.id;
+      task.result = { success: true, fileId: fileItem.id, filePath: fileItem.path };
+      options.onComplete?.(task);
+    } catch (error) {
+      task.status = TransferStatus.FAILED;
+      task.error = error as Error;
+      task.errorMessage = (error as Error).message;
+      task.errorCount++;
+      options.onError?.(error as Error);
+      throw error;
+    }
+
+    return task;
+  }
+
+  /**
+   * 下载文件（流式写入本地，不在内存中缓冲整个文件）
+   */
+  async downloadFile(fileId: string, options?: IDownloadOptions): Promise<ITransferTask> {
+    const fileInfo = await this.getFileInfo(fileId);
+
+    const task = this.createTransferTask(
+      TransferType.DOWNLOAD,
+      fileInfo.name,
+      fileInfo.size,
+      { providerId: this.id, path: fileInfo.path, fileId },
+      { providerId: 'local', path: '/' },
+      options || {} as any
+    );
+
+    task.status = TransferStatus.ACTIVE;
+    task.startedAt = new Date();
+
+    const sink = await createDownloadSink({
+      fileName: fileInfo.name,
+      size: fileInfo.size,
+      mimeType: fileInfo.mimeType,
+      fileHandle: options?.saveHandle,
+    });
+
+    try {
+      const reader = (await this.openDownloadStream(fileInfo.id)).getReader();
+      let transferred = 0;
+
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+
+        await sink.write(value);
+        transferred += value.length;
+
+        task.progress.transferred = transferred;
+        task.progress.percentage = fileInfo.size > 0 ? (transferred / fileInfo.size) * 100 : 100;
+        options?.onProgress?.(task.progress);
+      }
+
+      await sink.close();
+
+      task.status = TransferStatus.COMPLETED;
+      task.progress.transferred = fileInfo.size;
+      task.progress.percentage = 100;
+      task.completedAt = new Date();
+      task.result = { success: true, fileId, filePath: fileInfo.path };
+    } catch (error) {
+      await sink.abort().catch(() => undefined);
+      task.status = TransferStatus.FAILED;
+      task.error = error as Error;
+      throw error;
+    }
+
+    return task;
+  }
+
+  /**
+   * 打开文件读取流（通过 dlink 读取，支持 Range）
+   * dlink 需要附带访问令牌，只在这里使用，不对外返回
+   */
+  async openDownloadStream(
+    fileId: string,
+    range?: { start: number; end: number },
+    signal?: AbortSignal
+  ): Promise<ReadableStream<Uint8Array>> {
+    const headers: Record<string, string> = {};
+    if (range) {
+      headers.Range = `bytes=${range.start}-${range.end}`;
+    }
+
+    const response = await fetch(await this.getDlink(fileId), { headers, signal });
+    if (!response.ok) {
+      throw await this.toError(response, 'Download failed');
+    }
+
+    if (range && response.status !== 206) {
+      throw new Error('Server does not support range requests');
+    }
+
+    if (!response.body) {
+      throw new Error('Streaming response body is not supported');
+    }
+
+    return response.body;
+  }
+
+  /**
+   * 百度网盘的下载地址必须附带访问令牌，不提供可外传的下载链接，请使用 openDownloadStream
+   */
+  public async getDownloadUrl(_fileId: string, _expiresIn?: number): Promise<string> {
+    throw new Error('Baidu download links require the access token; use openDownloadStream instead');
+  }
+
+  // ============================================
+  // 分片上传契约（供 TransferManager 调度）
+  // ============================================
+
+  /**
+   * 秒传：按整个文件的 MD5 和前 256KB 的 MD5 匹配服务端已有的文件
+   * 小于 256KB 的文件不支持秒传
+   */
+  async instantUpload(
+    file: File | Blob,
+    request: IInstantUploadRequest,
+    options: IUploadOptions
+  ): Promise<IFileItem | null> {
+    if (file.size < SLICE_MD5_SIZE) {
+      return null;
+    }
+
+    try {
+      const result = await this.api<{ info?: IBaiduFile }>(
+        '/rest/2.0/xpan/file',
+        { method: 'rapidupload' },
+        {
+          path: joinPath(await this.resolvePath(options.parentId ?? options.targetPath), options.fileName),
+          'content-length': String(file.size),
+          'content-md5': await request.hash('md5'),
+          'slice-md5': await hashBlob(file.slice(0, SLICE_MD5_SIZE), 'md5'),
+          rtype: options.overwrite ? '3' : '1',
+        }
+      );
+      return result.info?.fs_id ? this.normalizeFile(result.info) : null;
+    } catch (error) {
+      if ((error as { status?: number }).status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 预创建文件（precreate）
+   * 需要先计算每个分片的 MD5，分片大小由会员等级决定（通过 session.chunkSize 告知调度方）
+   */
+  async initChunkUpload(file: File | Blob, options: IUploadOptions): Promise<IChunkUploadSession> {
+    const path = joinPath(await this.resolvePath(options.parentId ?? options.targetPath), options.fileName);
+    const blockSize = await this.getBlockSize();
+
+    const blockList: string[] = [];
+    for (let offset = 0; offset < file.size || blockList.length === 0; offset += blockSize) {
+      blockList.push(await hashService.hash(file.slice(offset, offset + blockSize), 'md5'));
+    }
+
+    const rtype = options.overwrite ? 3 : 1;
+    const result = await this.api<{ uploadid?: string; path?: string; return_type?: number }>(
+      '/rest/2.0/xpan/file',
+      { method: 'precreate' },
+      {
+        path,
+        size: String(file.size),
+        isdir: '0',
+        autoinit: '1',
+        rtype: String(rtype),
+        block_list: JSON.stringify(blockList),
+      }
+    );
+
+    // return_type 为 2 时服务端已按分片 MD5 完成秒传
+    const state: IBaiduSessionState = {
+      path: result.path || path,
+      size: file.size,
+      blockList,
+      rtype,
+      rapid: result.return_type === 2,
+    };
+
+    return {
+      uploadId: result.uploadid || `rapid:${path}`,
+      chunkSize: blockSize,
+      metadata: { baidu: state },
+    };
+  }
+
+  /**
+   * 上传一个分片（superfile2，partseq 为分片序号，分片可以并行上传）
+   */
+  async uploadChunk(
+    session: IChunkUploadSession,
+    chunk: IChunkInfo,
+    data: Blob,
+    signal?: AbortSignal
+  ): Promise<IChunkUploadResult> {
+    const state = this.getSessionState(session);
+    if (state.rapid) {
+      return {};
+    }
+
+    const form = new FormData();
+    form.append('file', data, 'blob');
+    const result = await this.api<{ md5?: string }>(
+      '/rest/2.0/pcs/superfile2',
+      {
+        method: 'upload',
+        type: 'tmpfile',
+        path: state.path,
+        uploadid: session.uploadId,
+        partseq: String(chunk.index),
+      },
+      form,
+      { base: this.endpoints.upload, signal }
+    );
+
+    return { etag: result.md5 };
+  }
+
+  /**
+   * 合并分片创建文件（create）
+   */
+  async completeChunkUpload(session: IChunkUploadSession, _chunks: IChunkInfo[]): Promise<IFileItem> {
+    const state = this.getSessionState(session);
+    if (state.rapid) {
+      return this.getFileInfo(state.path);
+    }
+
+    const raw = await this.api<IBaiduFile>(
+      '/rest/2.0/xpan/file',
+      { method: 'create' },
+      {
+        path: state.path,
+        size: String(state.size),
+        isdir: '0',
+        rtype: String(state.rtype),
+        uploadid: session.uploadId,
+        block_list: JSON.stringify(state.blockList),
+      }
+    );
+    return this.normalizeFile(raw);
+  }
+
+  /**
+   * 取消上传（百度网盘没有取消接口，未合并的分片由服务端自动清理）
+   */
+  async abortChunkUpload(_session: IChunkUploadSession): Promise<void> {
+    return;
+  }
+
+  // ============================================
+  // 存储配额
+  // ============================================
+
+  /**
+   * 获取存储配额
+   */
+  async getStorageQuota(): Promise<IStorageQuota> {
+    const result = await this.api<{ total: number; used: number; free?: number }>('/api/quota', {
+      checkfree: '1',
+      checkexpire: '1',
+    });
+    const total = result.total || 0;
+    const used = result.used || 0;
+
+    return {
+      total,
+      used,
+      remaining: result.free ?? Math.max(0, total - used),
+      usagePercentage: total > 0 ? (used / total) * 100 : 0,
+    };
+  }
+
+  // ============================================
+  // 实用方法
+  // ============================================
+
+  /**
+   * 获取提供商特定功能
+   */
+  public getFeature(feature: string): any {
+    switch (feature) {
+      case 'oauth2':
+        return this.getOAuthClient();
+      default:
+        return super.getFeature(feature);
+    }
+  }
+
+  /**
+   * 标准化文件项（id 为 fs_id，同时缓存 fs_id 对应的路径）
+   * 服务端的 md5 不一定是文件内容的 MD5（分片上传的文件），只保存在扩展字段中
+   */
+  normalizeFile(rawFile: IBaiduFile): IFileItem {
+    const isFolder = Number(rawFile.isdir) === 1;
+    const isRoot = rawFile.path === '/';
+    const id = isRoot ? '/' : String(rawFile.fs_id);
+    const name = rawFile.server_filename ?? rawFile.filename ?? basename(rawFile.path);
+    const createdAt = new Date((rawFile.server_ctime || rawFile.server_mtime || Date.now() / 1000) * 1000);
+    const modifiedAt = new Date((rawFile.server_mtime || rawFile.server_ctime || Date.now() / 1000) * 1000);
+
+    if (!isRoot) {
+      this.paths.set(id, rawFile.path);
+    }
+
+    return {
+      id,
+      providerId: this.id,
+      parentId: isRoot ? '' : parentPath(rawFile.path),
+      path: rawFile.path,
+      name,
+      type: isFolder ? FileType.FOLDER : FileType.FILE,
+      fileType: isFolder
+        ? FileType.FOLDER
+        : CATEGORY_TYPES[rawFile.category || 0] || (this.getFileType(name) as FileType),
+      size: rawFile.size || 0,
+      createdAt,
+      modifiedAt,
+      thumbnailUrl: rawFile.thumbs?.url3 || rawFile.thumbs?.url2 || rawFile.thumbs?.url1,
+      mimeType: isFolder ? undefined : this.getMimeType(name),
+      permissions: {
+        canRead: true,
+        canWrite: true,
+        canDelete: !isRoot,
+        canShare: false,
+        canRename: !isRoot,
+        canMove: !isRoot,
+        canCopy: !isRoot,
+      },
+      hasVersions: false,
+      isFavorite: false,
+      isOffline: false,
+      isShared: false,
+      isLocked: false,
+      isHidden: name.startsWith('.'),
+      isTrashed: false,
+      isEncrypted: false,
+      extensionStatus: {
+        baiduDrive: {
+          category: rawFile.category || 0,
+          fs_id: isRoot ? undefined : rawFile.fs_id,
+          md5: rawFile.md5,
+        },
+      },
+      isCached: false,
+    };
+  }
+
+  /**
+   * 反标准化文件项
+   */
+  denormalizeFile(file: IFileItem): IBaiduFile {
+    const baiduDrive = file.extensionStatus?.baiduDrive;
+    return {
+      fs_id: baiduDrive?.fs_id ?? Number(file.id),
+      path: file.path,
+      server_filename: file.name,
+      size: file.type === FileType.FOLDER ? 0 : file.size,
+      isdir: file.type === FileType.FOLDER ? 1 : 0,
+      category: baiduDrive?.category,
+      md5: baiduDrive?.md5,
+      server_ctime: Math.floor(file.createdAt.getTime() / 1000),
+      server_mtime: Math.floor(file.modifiedAt.getTime() / 1000),
+    };
+  }
+
+  // ============================================
+  // 私有辅助方法
+  // ============================================
+
+  /**
+   * 调用接口（访问令牌放在查询参数中，令牌即将过期时先刷新）
+   * 百度网盘出错时多数返回 200 和非 0 的 errno，令牌失效时刷新后重试一次
+   * @param body - 表单参数或分片数据，有 body 时使用 POST
+   */
+  private async api<T>(
+    path: string,
+    params: Record<string, string>,
+    body?: Record<string, string> | FormData,
+    options: { base?: string; signal?: AbortSignal } = {}
+  ): Promise<T> {
+    if (isTokenExpiring(this.config.tokens) && this.config.tokens?.refreshToken) {
+      await this.refreshAuth();
+    }
+
+    const send = async () => {
+      const url = new URL(`${options.base || this.endpoints.api}${path}`);
+      for (const [key, value] of Object.entries(params)) {
+        url.searchParams.set(key, value);
+      }
+      url.searchParams.set('access_token', this.config.tokens?.accessToken || '');
+
+      const response = await fetch(url.toString(), {
+        method: body ? 'POST' : 'GET',
+        body: body instanceof FormData ? body : body ? new URLSearchParams(body) : undefined,
+        signal: options.signal,
+      });
+      const data: T & IBaiduResponse = await response.json().catch(() => ({}));
+      return { response, data };
+    };
+
+    let { response, data } = await send();
+    if (ERRNO_STATUS[getErrno(data)] === 401 && this.config.tokens?.refreshToken) {
+      await this.refreshAuth();
+      ({ response, data } = await send());
+    }
+
+    if (!response.ok || getErrno(data) !== 0) {
+      throw this.toApiError(response, data, `Baidu request failed (${path})`);
+    }
+    return data;
+  }
+
+  /**
+   * 由接口响应创建带状态码的错误（按 errno 映射 HTTP 状态）
+   */
+  private toApiError(response: Response, data: IBaiduResponse, message: string): Error {
+    const errno = getErrno(data);
+    const detail = data.errmsg || data.error_msg || response.statusText;
+    const error = Object.assign(createHttpError(response, `${message}: errno ${errno}${detail ? ` ${detail}` : ''}`), { errno });
+    if (ERRNO_STATUS[errno]) {
+      error.status = ERRNO_STATUS[errno];
+    } else if (response.ok) {
+      error.status = 400;
+    }
+    return error;
+  }
+
+  /**
+   * 由非 JSON 的错误响应（如下载）创建带状态码的错误
+   */
+  private async toError(response: Response, message: string): Promise<Error> {
+    const text = await response.text().catch(() => '');
+    return createHttpError(response, `${message} (${response.status}): ${text || response.statusText}`);
+  }
+
+  private async doRefreshAuth(): Promise<void> {
+    const refreshToken = this.config.tokens?.refreshToken;
+    if (!refreshToken) {
+      throw new Error('No refresh token available');
+    }
+
+    try {
+      this.setTokens(await this.getOAuthClient().refresh(refreshToken));
+    } catch (error) {
+      this.setStatus(ProviderStatus.AUTH_ERROR, (error as Error).message);
+      throw error;
+    }
+  }
+
+  /**
+   * 保存令牌并通知（调用方监听 TOKEN_REFRESHED 持久化配置）
+   */
+  private setTokens(tokens: OAuth2Tokens): void {
+    this.config.tokens = { ...this.config.tokens, ...tokens };
+    this.emit({
+      type: ProviderEventType.TOKEN_REFRESHED,
+      timestamp: new Date(),
+      data: { tokens: this.config.tokens },
+    });
+  }
+
+  private getOAuthClient(): OAuth2Client {
+    if (!this.oauth) {
+      throw new Error('OAuth2 is not configured for this provider');
+    }
+    return this.oauth;
+  }
+
+  /**
+   * 分片大小（按会员等级，首次调用时查询用户信息）
+   */
+  private async getBlockSize(): Promise<number> {
+    if (this.vipType === undefined) {
+      const info = await this.api<{ vip_type?: number }>('/rest/2.0/xpan/nas', { method: 'uinfo' });
+      this.vipType = info.vip_type || 0;
+    }
+    return BLOCK_SIZES[this.vipType] || BLOCK_SIZES[0];
+  }
+
+  /**
+   * 文件标识解析为路径：空值、/ 和 root 为根目录，以 / 开头的按路径使用，其余为 fs_id
+   */
+  private async resolvePath(idOrPath?: string): Promise<string> {
+    if (!idOrPath || idOrPath === '/' || idOrPath === 'root') {
+      return '/';
+    }
+    if (idOrPath.startsWith('/')) {
+      return `/${idOrPath.split('/').filter(Boolean).join('/')}`;
+    }
+
+    const cached = this.paths.get(idOrPath);
+    if (cached) {
+      return cached;
+    }
+    const [raw] = await this.fetchMetas([idOrPath]);
+    if (!raw) {
+      throw Object.assign(new Error(`File not found: ${idOrPath}`), { status: 404 });
+    }
+    this.paths.set(idOrPath, raw.path);
+    return raw.path;
+  }
+
+  /**
+   * 按路径查找文件（列出父文件夹查找同名项）
+   */
+  private async findByPath(path: string): Promise<IBaiduFile> {
+    const name = basename(path);
+    for (let start = 0; ; start += 1000) {
+      const result = await this.api<{ list: IBaiduFile[] }>('/rest/2.0/xpan/file', {
+        method: 'list',
+        dir: parentPath(path),
+        start: String(start),
+        limit: '1000',
+      });
+      const match = (result.list || []).find(item => (item.server_filename ?? basename(item.path)) === name);
+      if (match) {
+        this.paths.set(String(match.fs_id), match.path);
+        return match;
+      }
+      if ((result.list || []).length < 1000) {
+        throw Object.assign(new Error(`File not found: ${path}`), { status: 404 });
+      }
+    }
+  }
+
+  /**
+   * 带访问令牌的 dlink（8 小时有效）
+   * 设置了 endpoint 时经由同一代理下载，与分片上传一样转发到 d.pcs.baidu.com
+   */
+  private async getDlink(fileId: string): Promise<string> {
+    const fsId = isFsId(fileId) ? fileId : String((await this.findByPath(await this.resolvePath(fileId))).fs_id);
+    const [raw] = await this.fetchMetas([fsId], true);
+    if (!raw?.dlink) {
+      throw new Error(`Download link not available: ${fileId}`);
+    }
+
+    const dlink = new URL(raw.dlink);
+    const url = this.config.endpoint ? new URL(`${this.endpoints.upload}${dlink.pathname}${dlink.search}`) : dlink;
+    url.searchParams.set('access_token', this.config.tokens?.accessToken || '');
+    return url.toString();
+  }
+
+  /**
+   * 查询文件元数据（filemetas，最多 100 个）
+   */
+  private async fetchMetas(fsIds: string[], dlink: boolean = false): Promise<IBaiduFile[]> {
+    const result = await this.api<{ list: IBaiduFile[] }>('/rest/2.0/xpan/multimedia', {
+      method: 'filemetas',
+      fsids: `[${fsIds.join(',')}]`,
+      thumb: '1',
+      extra: '1',
+      ...(dlink ? { dlink: '1' } : {}),
+    });
+    return result.list || [];
+  }
+
+  /**
+   * 文件管理操作（同步执行）
+   */
+  private async fileManager(opera: 'copy' | 'move' | 'rename' | 'delete', fileList: unknown[]): Promise<void> {
+    await this.api('/rest/2.0/xpan/file', { method: 'filemanager', opera }, {
+      async: '0',
+      filelist: JSON.stringify(fileList),
+    });
+  }
+
+  /**
+   * 重命名或移动后更新路径缓存（子项的路径随之变化，整体清空）并返回新的文件信息
+   */
+  private async afterRelocate(fileId: string, newPath: string): Promise<IFileItem> {
+    this.paths.clear();
+    return this.getFileInfo(isFsId(fileId) ? fileId : newPath);
+  }
+
+  private getSessionState(session: IChunkUploadSession): IBaiduSessionState {
+    const state = session.metadata?.baidu as IBaiduSessionState | undefined;
+    if (!state) {
+      throw new Error(`Invalid Baidu upload session: ${session.uploadId}`);
+    }
+    return state;
+  }
+}
+
+/**
+ * 是否为 fs_id（纯数字）
+ */
+function isFsId(value: string): boolean {
+  return /^\d+$/.test(value);
+}
+
+/**
+ * 错误码（不同接口分别使用 errno 和 error_code）
+ */
+function getErrno(data: IBaiduResponse): number {
+  return Number(data.errno ?? data.error_code ?? 0);
+}
+
+function joinPath(parent: string, name: string): string {
+  return `${parent.replace(/\/+$/, '')}/${name}`;
+}
+
+function parentPath(path: string): string {
+  const index = path.lastIndexOf('/');
+  return index > 0 ? path.slice(0, index) : '/';
+}
+
+function basename(path: string): string {
+  return path.slice(path.lastIndexOf('/') + 1);
+}
+
+/**
+ * 创建百度网盘提供商实例
+ */
+export function createBaiduDriveProvider(config: IProviderConfig): IStorageProvider {
+  return new BaiduDriveProvider(config);
+}
@@ -487,9 +487,9 @@ export abstract class BaseStorageProvider implements IStorageProvider {
 
     // OAuth2 验证
     if (config.auth.oauth2) {
-      const { clientId, clientSecret, redirectUri, scopes, authUrl, tokenUrl } = config.auth.oauth2;
+      const { clientId, clientSecret, redirectUri, scopes, authUrl, tokenUrl, usePkce } = config.auth.oauth2;
       if (!clientId) errors.push('OAuth2 clientId is required');
-      if (!clientSecret) errors.push('OAuth2 clientSecret is required');
+      if (!clientSecret && !usePkce) errors.push('OAuth2 clientSecret is required');
       if (!redirectUri) errors.push('OAuth2 redirectUri is required');
       if (!scopes || scopes.length === 0) errors.push('OAuth2 scopes are required');
       if (!authUrl) errors.push('OAuth2 authUrl is required');
@@ -680,9 +680,10 @@ export abstract class BaseStorageProvider implements IStorageProvider {
       headers.set('Authorization', `Bearer ${this.config.tokens.accessToken}`);
     }
 
-    // 添加超时
+    // 添加超时（同时响应调用方的中止信号）
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), this.config.transfer?.upload.timeout || 30000);
+    options.signal?.addEventListener('abort', () => controller.abort());
 
     try {
       const response = await fetch(url, {
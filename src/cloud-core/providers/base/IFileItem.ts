@@ -111,6 +111,7 @@ export interface IFileHash {
   sha1?: string;
   sha256?: string;
   crc32?: string;
+  dropbox?: string;              // Dropbox content_hash（按 4MB 分块的 SHA-256）
 }
 
 /**
@@ -131,6 +132,7 @@ export interface IFileExtensionStatus {
     thumbnail?: string;
     videoPreviewMetadata?: any;
     punishmentFlag?: number;
+    driveId?: string;            // 所在网盘ID
   };
 
   // 百度网盘特定字段
@@ -144,6 +146,8 @@ export interface IFileExtensionStatus {
   oneDrive?: {
     shareId?: string;
     webUrl?: string;
+    driveId?: string;            // 所在驱动器ID
+    quickXorHash?: string;       // OneDrive for Business 的内容哈希
   };
 
   // Google Drive 特定字段
@@ -153,12 +157,21 @@ export interface IFileExtensionStatus {
     thumbnailLink?: string;
     modifiedByMeTime?: string;
     sharingUser?: any;
+    driveId?: string;            // 所在共享云端硬盘ID
+    exportFormats?: string[];    // 可导出的 MIME 类型（Google 文档）
   };
 
   // Dropbox 特定字段
   dropbox?: {
     isFile?: boolean;
     sharingInfo?: any;
+    rev?: string;                // 文件修订号
+    pathLower?: string;          // 小写路径（Dropbox 路径不区分大小写）
+  };
+
+  // WebDAV 特定字段
+  webDav?: {
+    etag?: string;
   };
 
   // S3 特定字段
@@ -168,6 +181,12 @@ export interface IFileExtensionStatus {
     storageClass?: string;
   };
 
+  // tus 特定字段
+  tus?: {
+    uploadUrl: string;
+    offset?: number;
+  };
+
   // 自定义字段
   custom?: { [key: string]: any };
 }
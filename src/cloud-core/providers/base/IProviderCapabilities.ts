@@ -67,6 +67,9 @@ export interface IProviderCapabilities {
     recommendedChunkSize: number;  // 推荐分片大小
     maxChunkSize: number;          // 最大分片大小
     minChunkSize: number;          // 最小分片大小
+    chunkAlignment?: number;       // 分片大小必须是该值的整数倍
+    fixedChunkSize?: boolean;      // 上传会话内分片大小固定（如 S3 分片上传），不随吞吐量调整
+    chunkHashesUpFront?: boolean;  // 创建分片上传会话时读取整个文件计算各分片哈希（如百度网盘预创建），分片边界由提供商决定
     maxConcurrentRequests: number; // 最大并发请求数
     requestTimeout: number;        // 请求超时时间 (毫秒)
     apiRateLimit: number;          // API速率限制 (请求/分钟)
@@ -80,4 +83,31 @@ export interface IProviderCapabilities {
 
   // 自定义元数据
   customMetadata: boolean;
+
+  // tus 可续传上传（声明后分片按偏移顺序上传，恢复时以服务端偏移为准）
+  tus?: ITusCapability;
+}
+
+/**
+ * tus 协议扩展
+ */
+export type TusExtension =
+  | 'creation'
+  | 'creation-with-upload'
+  | 'creation-defer-length'
+  | 'expiration'
+  | 'checksum'
+  | 'checksum-trailer'
+  | 'termination'
+  | 'concatenation';
+
+/**
+ * tus 1.0 服务端声明
+ */
+export interface ITusCapability {
+  endpoint: string;              // 创建上传的地址
+  version: string;               // 协议版本（Tus-Resumable）
+  extensions: TusExtension[];    // 服务端支持的扩展
+  checksumAlgorithms?: string[]; // checksum 扩展支持的算法
+  maxSize?: number;              // 单个上传的最大字节数（Tus-Max-Size）
 }
@@ -16,6 +16,7 @@ export interface IAuthConfig {
     authUrl: string;
     tokenUrl: string;
     refreshUrl?: string;
+    usePkce?: boolean;           // 使用 PKCE（公共客户端可不提供 clientSecret）
   };
 
   // API Key 配置
@@ -189,6 +190,7 @@ export interface IProviderConfig {
     accessToken?: string;
     refreshToken?: string;
     expiresIn?: number;
+    expiresAt?: number;          // 访问令牌过期时间（毫秒时间戳）
     tokenType?: string;
     scope?: string;
   };
@@ -12,12 +12,14 @@ import {
   IThumbnail,
   IPreviewInfo,
   IFileVersion,
+  IFileHash,
 } from './IFileItem';
 import { IProviderConfig, IStorageQuota, ProviderStatus } from './IProviderConfig';
 import {
   ITransferOptions,
   ITransferTask,
   TransferType,
+  IChunkInfo,
 } from './ITransferOptions';
 import { IProviderCapabilities } from './IProviderCapabilities';
 
@@ -30,6 +32,7 @@ export interface IListFilesOptions {
   recursive?: boolean;           // 是否递归
   limit?: number;                // 限制数量
   offset?: number;               // 偏移量
+  cursor?: string;               // 分页游标（来自上次响应的 nextCursor）
   sortBy?: 'name' | 'size' | 'modified' | 'created'; // 排序字段
   sortOrder?: 'asc' | 'desc';    // 排序顺序
   filter?: {
@@ -56,6 +59,82 @@ export interface IUploadOptions extends ITransferOptions {
   metadata?: Record<string, any>; // 自定义元数据
 }
 
+/**
+ * 分片上传会话接口
+ */
+export interface IChunkUploadSession {
+  uploadId: string;              // 上传会话ID
+  fileId?: string;               // 目标文件ID（如已确定）
+  chunkSize?: number;            // 提供商要求的分片大小（与请求值不同时以此为准）
+  expiresAt?: Date;              // 会话过期时间
+  metadata?: Record<string, any>; // 提供商特定数据
+}
+
+/**
+ * 分片上传结果接口
+ */
+export interface IChunkUploadResult {
+  etag?: string;                 // 分片ETag（完成上传时使用）
+  metadata?: Record<string, any>; // 提供商特定数据
+}
+
+/**
+ * 秒传请求接口
+ */
+export interface IInstantUploadRequest {
+  size: number;                  // 文件大小
+  quickHash: string;             // 快速哈希（首尾各1MB的SHA-256）
+
+  /**
+   * 计算完整文件哈希（按需计算并缓存，提供商只需请求所需的算法）
+   */
+  hash(algorithm: keyof IFileHash): Promise<string>;
+}
+
+/**
+ * 服务端离线下载选项
+ */
+export interface IRemoteFetchOptions {
+  fileName: string;              // 保存的文件名
+  targetPath: string;            // 目标文件夹路径
+  parentId?: string;             // 目标文件夹ID
+  overwrite?: boolean;           // 覆盖同名文件
+  signal?: AbortSignal;          // 中止信号
+}
+
+/**
+ * 服务端离线下载状态
+ */
+export interface IRemoteFetchStatus {
+  jobId: string;                 // 离线下载任务ID
+  state: 'pending' | 'running' | 'completed' | 'failed';
+  transferred?: number;          // 服务端已下载字节数
+  total?: number;                // 文件总大小（服务端已知时）
+  file?: IFileItem;              // 完成后的文件
+  error?: string;                // 失败原因
+}
+
+/**
+ * 服务端离线下载功能（通过 getFeature('remoteFetch') 获取）
+ * 服务端直接从链接下载到网盘，数据不经过浏览器
+ */
+export interface IRemoteFetchFeature {
+  /**
+   * 创建离线下载任务
+   */
+  start(url: string, options: IRemoteFetchOptions): Promise<IRemoteFetchStatus>;
+
+  /**
+   * 查询离线下载状态
+   */
+  getStatus(jobId: string, signal?: AbortSignal): Promise<IRemoteFetchStatus>;
+
+  /**
+   * 取消离线下载任务
+   */
+  cancel?(jobId: string): Promise<void>;
+}
+
 /**
  * 下载选项接口
  */
@@ -66,6 +145,7 @@ export interface IDownloadOptions extends ITransferOptions {
     end: number;
   };
   format?: string;               // 转换格式（如导出为其他格式）
+  saveHandle?: FileSystemFileHandle; // 保存目标（File System Access API，需在用户手势中获取）
 }
 
 /**
@@ -348,6 +428,85 @@ export interface IStorageProvider {
     headers?: Record<string, string>;
   }>;
 
+  /**
+   * 打开文件内容读取流（可选，实现后 TransferManager 可执行分片/断点下载）
+   * @param fileId - 文件ID
+   * @param range - 字节范围（闭区间），提供时必须返回对应的部分内容
+   * @param signal - 中止信号
+   */
+  openDownloadStream?(
+    fileId: string,
+    range?: { start: number; end: number },
+    signal?: AbortSignal
+  ): Promise<ReadableStream<Uint8Array>>;
+
+  /**
+   * 由服务端打包下载多个文件/文件夹（可选，capabilities.supports.batchDownload 为 true 时实现）
+   * @param fileIds - 文件或文件夹ID列表
+   * @param signal - 中止信号
+   * @returns ZIP 归档数据流
+   */
+  openArchiveStream?(fileIds: string[], signal?: AbortSignal): Promise<ReadableStream<Uint8Array>>;
+
+  // ============================================
+  // 分片上传（可选，capabilities.supports.chunkUpload 为 true 时实现）
+  // ============================================
+
+  /**
+   * 创建分片上传会话
+   * @param file - 待上传文件
+   * @param options - 上传选项
+   */
+  initChunkUpload?(file: File | Blob, options: IUploadOptions): Promise<IChunkUploadSession>;
+
+  /**
+   * 上传单个分片
+   * @param session - 上传会话
+   * @param chunk - 分片信息
+   * @param data - 分片数据
+   * @param signal - 中止信号（暂停/取消时触发）
+   */
+  uploadChunk?(
+    session: IChunkUploadSession,
+    chunk: IChunkInfo,
+    data: Blob,
+    signal?: AbortSignal
+  ): Promise<IChunkUploadResult>;
+
+  /**
+   * 合并分片完成上传
+   * @param session - 上传会话
+   * @param chunks - 已完成的分片列表
+   */
+  completeChunkUpload?(session: IChunkUploadSession, chunks: IChunkInfo[]): Promise<IFileItem>;
+
+  /**
+   * 中止分片上传并清理已上传的分片
+   * @param session - 上传会话
+   */
+  abortChunkUpload?(session: IChunkUploadSession): Promise<void>;
+
+  /**
+   * 查询服务端已接收的连续字节数（可选，恢复会话时据此校正分片状态，如 tus 的 Upload-Offset）
+   * 会话已失效时抛出状态码为 404 或 410 的错误
+   * @param session - 上传会话
+   * @param signal - 中止信号
+   */
+  getChunkUploadOffset?(session: IChunkUploadSession, signal?: AbortSignal): Promise<number>;
+
+  /**
+   * 秒传：服务端已有相同内容时直接创建文件，不传输数据（可选）
+   * @param file - 待上传文件（部分提供商需要读取文件片段作为证明）
+   * @param request - 文件大小与内容哈希
+   * @param options - 上传选项
+   * @returns 创建的文件，服务端没有相同内容时返回 null
+   */
+  instantUpload?(
+    file: File | Blob,
+    request: IInstantUploadRequest,
+    options: IUploadOptions
+  ): Promise<IFileItem | null>;
+
   // ============================================
   // 缩略图和预览
   // ============================================
@@ -11,6 +11,7 @@ export enum TransferType {
   DOWNLOAD = 'download',
   MOVE = 'move',
   COPY = 'copy',
+  FETCH = 'fetch',               // 从远程链接保存到网盘（离线下载）
 }
 
 /**
@@ -38,6 +39,20 @@ export enum TransferPriority {
   URGENT = 3,
 }
 
+/**
+ * 传输失败类型
+ */
+export type TransferErrorKind =
+  | 'network'                    // 网络中断、连接失败
+  | 'timeout'                    // 请求超时
+  | 'server'                     // 服务端错误（5xx）
+  | 'rate-limit'                 // 请求过多（429）
+  | 'auth'                       // 认证失效（401）
+  | 'quota'                      // 存储空间不足
+  | 'integrity'                  // 校验失败（大小或哈希不一致）
+  | 'client'                     // 其他请求错误（4xx），重试无效
+  | 'unknown';                   // 无法识别的错误
+
 /**
  * 分片信息接口
  */
@@ -83,11 +98,11 @@ export interface ITransferProgress {
 export interface ITransferStatistics {
   totalBytes: number;            // 总字节数
   transferredBytes: number;      // 已传输字节数
-  failedBytes: number;           // 失败字节数
+  failedBytes: number;           // 失败字节数（失败尝试中已传输、需要重传的字节）
   chunkCount: number;            // 分片总数
   completedChunks: number;       // 已完成分片数
   failedChunks: number;          // 失败分片数
-  retriedChunks: number;         // 重试分片数
+  retriedChunks: number;         // 分片重试次数
   skippedChunks: number;         // 跳过分片数
 }
 
@@ -107,6 +122,8 @@ export interface ITransferOptions {
   // === 基础选项 ===
   type: TransferType;            // 传输类型
   priority: TransferPriority;    // 优先级
+  targetPath?: string;           // 目标路径
+  parentId?: string;             // 目标文件夹ID
 
   // === 并发控制 ===
   maxConcurrentChunks: number;   // 最大并发分片数
@@ -117,6 +134,7 @@ export interface ITransferOptions {
   enableChunking: boolean;       // 是否启用分片
   minChunkSize?: number;         // 最小分片大小
   maxChunkSize?: number;         // 最大分片大小
+  adaptiveChunkSize?: boolean;   // 按实测吞吐量调整分片大小（默认开启）
 
   // === 重试配置 ===
   maxRetries: number;            // 最大重试次数
@@ -135,7 +153,7 @@ export interface ITransferOptions {
 
   // === 完整性验证 ===
   verifyHash: boolean;           // 是否验证哈希
-  hashAlgorithm?: 'md5' | 'sha1' | 'sha256' | 'crc32';
+  hashAlgorithm?: 'md5' | 'sha1' | 'sha256' | 'crc32' | 'dropbox';
   verifyOnComplete: boolean;     // 完成后验证
   verifyPerChunk: boolean;       // 每个分片验证
 
@@ -253,6 +271,7 @@ export interface ITransferTask {
   error?: Error;                 // 错误对象
   errorMessage?: string;         // 错误消息
   errorCount: number;            // 错误次数
+  errorKind?: TransferErrorKind; // 最近一次失败的类型
 
   // === 结果信息 ===
   result?: {
@@ -264,9 +283,19 @@ export interface ITransferTask {
     metadata?: any;
   };
 
+  // === 恢复信息 ===
+  requiresSource?: boolean;      // 页面刷新后需要重新选择源文件才能继续
+  requiresEncryptionKey?: boolean; // 页面刷新后需要重新输入加密口令才能继续
+
+  // === 计划信息 ===
+  schedule?: ITransferSchedule;  // 传输计划（开始时间、时间窗口）
+  waitingReason?: string;        // 排队等待的原因（如未到传输窗口）
+  scheduledAt?: Date;            // 计划开始时间（等待结束的时间）
+
   // === 重试信息 ===
   retryCount: number;            // 重试次数
   maxRetries: number;            // 最大重试次数
+  nextRetryAt?: Date;            // 下次自动重试时间
 
   // === 用户数据 ===
   userData?: any;                // 用户自定义数据
@@ -283,6 +312,22 @@ export interface ITransferTask {
   retry?(): Promise<void>;
 }
 
+/**
+ * 传输时间窗口（本地时间 HH:mm，结束早于开始表示跨越午夜）
+ */
+export interface ITransferWindow {
+  start: string;                 // 开始时间，如 "22:00"
+  end: string;                   // 结束时间，如 "06:00"
+}
+
+/**
+ * 传输计划
+ */
+export interface ITransferSchedule {
+  startAt?: Date;                // 最早开始时间
+  window?: ITransferWindow;      // 允许传输的时间窗口，窗口关闭时进行中的任务回到队列
+}
+
 /**
  * 传输队列配置接口
  */
@@ -292,8 +337,13 @@ export interface ITransferQueueConfig {
   maxDownloadConcurrent: number; // 最大下传并发数
   maxQueueSize: number;          // 最大队列大小
   priorityMode: 'fifo' | 'priority' | 'smart'; // 队列模式
+  queueOverflow?: 'reject' | 'wait'; // 队列已满时拒绝新任务或等待空位（默认拒绝）
+  agingInterval?: number;        // 智能模式下每等待多久提升一级优先级（毫秒）
+  perProviderLimits?: boolean;   // 按提供商的连接数限制同时运行的任务数（默认开启）
   autoStart: boolean;            // 自动开始
   throttleDelay?: number;        // 节流延迟
+  uploadSpeedLimit?: number;     // 全局上传速度限制（字节/秒，0表示不限制）
+  downloadSpeedLimit?: number;   // 全局下载速度限制（字节/秒，0表示不限制）
 }
 
 /**
@@ -320,12 +370,21 @@ export interface ITransferHistory {
   taskId: string;
   type: TransferType;
   fileName: string;
+  filePath: string;              // 云端路径（上传为目标路径，其余为源路径）
   fileSize: number;
+  fileType: string;              // 文件类型
+  mimeType?: string;             // MIME类型
+  fileId?: string;               // 云端文件ID（上传、复制、移动为新文件）
+  providerId: string;            // 云端提供商ID（上传为目标，其余为源）
+  targetProviderId?: string;     // 复制/移动的目标提供商ID
+  groupId?: string;              // 任务组ID
   status: TransferStatus;
   startedAt: Date;
   completedAt?: Date;
+  finishedAt: Date;              // 结束时间（完成、失败或取消）
   duration: number;              // 持续时间（秒）
   averageSpeed: number;          // 平均速度
+  transferredBytes: number;      // 已传输字节数
   success: boolean;
   error?: string;
 }
@@ -0,0 +1,188 @@
+/**
+ * OAuth 2.0 客户端
+ * 授权码流程（可选 PKCE）、令牌交换和刷新，供使用 OAuth2 的提供商共用
+ */
+
+import { IAuthConfig, IProviderConfig } from './IProviderConfig';
+import { createHttpError } from '../../transfer/RetryPolicy';
+
+/**
+ * OAuth2 配置
+ */
+export type OAuth2Config = NonNullable<IAuthConfig['oauth2']>;
+
+/**
+ * 提供商配置中保存的令牌
+ */
+export type OAuth2Tokens = NonNullable<IProviderConfig['tokens']>;
+
+/**
+ * 令牌请求函数（默认使用 fetch）
+ */
+export type OAuth2Request = (url: string, init: RequestInit) => Promise<Response>;
+
+/**
+ * 进行中的授权请求（跳转前由调用方保存，回调时交回）
+ */
+export interface IAuthorizationRequest {
+  url: string;                   // 授权页面地址
+  state: string;                 // 防 CSRF 的随机值
+  codeVerifier?: string;         // PKCE 校验码（启用 PKCE 时）
+  redirectUri: string;           // 回调地址
+}
+
+/**
+ * 令牌即将过期的提前量（毫秒）
+ */
+export const TOKEN_EXPIRY_MARGIN = 60 * 1000;
+
+/**
+ * OAuth2 客户端类
+ */
+export class OAuth2Client {
+  constructor(
+    private config: OAuth2Config,
+    private request: OAuth2Request = (url, init) => fetch(url, init)
+  ) {}
+
+  /**
+   * 创建授权请求
+   * @param params - 附加的授权参数（如 prompt、login_hint）
+   */
+  public async createAuthorizationRequest(params: Record<string, string> = {}): Promise<IAuthorizationRequest> {
+    const state = createRandomString(16);
+    const url = new URL(this.config.authUrl);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', this.config.clientId);
+    url.searchParams.set('redirect_uri', this.config.redirectUri);
+    url.searchParams.set('state', state);
+    if (this.config.scopes.length > 0) {
+      url.searchParams.set('scope', this.config.scopes.join(' '));
+    }
+
+    let codeVerifier: string | undefined;
+    if (this.config.usePkce) {
+      codeVerifier = createRandomString(48);
+      url.searchParams.set('code_challenge', await createCodeChallenge(codeVerifier));
+      url.searchParams.set('code_challenge_method', 'S256');
+    }
+
+    for (const [key, value] of Object.entries(params)) {
+      url.searchParams.set(key, value);
+    }
+
+    return { url: url.toString(), state, codeVerifier, redirectUri: this.config.redirectUri };
+  }
+
+  /**
+   * 处理授权回调：校验 state 后用授权码换取令牌
+   * @param redirectUrl - 回调页面的完整地址
+   * @param request - createAuthorizationRequest 返回的授权请求
+   */
+  public async handleRedirect(redirectUrl: string, request: IAuthorizationRequest): Promise<OAuth2Tokens> {
+    const url = new URL(redirectUrl);
+    const params = url.searchParams.has('state') ? url.searchParams : new URLSearchParams(url.hash.slice(1));
+
+    const error = params.get('error');
+    if (error) {
+      throw new Error(`Authorization failed: ${params.get('error_description') || error}`);
+    }
+    if (params.get('state') !== request.state) {
+      throw new Error('Authorization state mismatch');
+    }
+
+    const code = params.get('code');
+    if (!code) {
+      throw new Error('Authorization code missing from redirect');
+    }
+    return this.exchangeCode(code, request.codeVerifier);
+  }
+
+  /**
+   * 用授权码换取令牌
+   */
+  public exchangeCode(code: string, codeVerifier?: string): Promise<OAuth2Tokens> {
+    return this.requestToken({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: this.config.redirectUri,
+      ...(codeVerifier ? { code_verifier: codeVerifier } : {}),
+    });
+  }
+
+  /**
+   * 刷新访问令牌（服务端未返回新的刷新令牌时沿用原令牌）
+   */
+  public async refresh(refreshToken: string): Promise<OAuth2Tokens> {
+    const tokens = await this.requestToken(
+      {
+        grant_type: 'refresh_token',
+        refresh_token: refreshToken,
+        ...(this.config.scopes.length > 0 ? { scope: this.config.scopes.join(' ') } : {}),
+      },
+      this.config.refreshUrl
+    );
+    return { ...tokens, refreshToken: tokens.refreshToken || refreshToken };
+  }
+
+  /**
+   * 请求令牌端点
+   */
+  private async requestToken(params: Record<string, string>, url: string = this.config.tokenUrl): Promise<OAuth2Tokens> {
+    const body = new URLSearchParams({ client_id: this.config.clientId, ...params });
+    if (this.config.clientSecret) {
+      body.set('client_secret', this.config.clientSecret);
+    }
+
+    const response = await this.request(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+      body: body.toString(),
+    });
+    const data = await response.json().catch(() => ({}));
+
+    if (!response.ok || data.error) {
+      const reason = data.error_description || data.error || response.statusText;
+      throw createHttpError(response, `OAuth2 token request failed (${response.status}): ${reason}`);
+    }
+
+    return {
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token,
+      expiresIn: data.expires_in,
+      expiresAt: data.expires_in ? Date.now() + Number(data.expires_in) * 1000 : undefined,
+      tokenType: data.token_type,
+      scope: data.scope,
+    };
+  }
+}
+
+/**
+ * 令牌是否已过期或即将过期
+ */
+export function isTokenExpiring(tokens: OAuth2Tokens | undefined, margin: number = TOKEN_EXPIRY_MARGIN): boolean {
+  return !!tokens?.expiresAt && tokens.expiresAt - margin <= Date.now();
+}
+
+/**
+ * 计算 PKCE code_challenge（S256）
+ */
+export async function createCodeChallenge(codeVerifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier));
+  return toBase64Url(new Uint8Array(digest));
+}
+
+/**
+ * 生成 URL 安全的随机字符串
+ */
+function createRandomString(byteLength: number): string {
+  return toBase64Url(crypto.getRandomValues(new Uint8Array(byteLength)));
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
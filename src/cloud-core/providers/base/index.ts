@@ -8,3 +8,4 @@ export * from './IProviderConfig';
 export * from './ITransferOptions';
 export * from './IProviderCapabilities';
 export * from './BaseStorageProvider';
+export * from './OAuth2Client';
@@ -0,0 +1,292 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { DropboxProvider } from './DropboxProvider';
+import { IChunkInfo, IProviderConfig, IUploadOptions, TransferStatus } from '../base';
+import { mockFetch, readBody, jsonResponse, IRecordedRequest } from '../../testing/mockFetch';
+
+const createProvider = () => new DropboxProvider({
+  id: 'dropbox-test',
+  name: 'Dropbox Test',
+  type: 'dropbox',
+  enabled: true,
+  auth: {},
+  tokens: { accessToken: 'token' },
+  sync: { interval: 10 },
+} as IProviderConfig);
+
+const entry = (name: string, folder = '/Work', extra: Record<string, unknown> = {}) => ({
+  '.tag': 'file',
+  id: `id:${name}`,
+  name,
+  path_display: `${folder}/${name}`,
+  path_lower: `${folder}/${name}`.toLowerCase(),
+  size: 10,
+  server_modified: '2024-06-01T00:00:00Z',
+  ...extra,
+});
+
+const deleted = (name: string, folder = '/Work') => ({
+  '.tag': 'deleted',
+  name,
+  path_display: `${folder}/${name}`,
+  path_lower: `${folder}/${name}`.toLowerCase(),
+});
+
+/**
+ * Dropbox 以 409 返回业务错误
+ */
+const apiError = (summary: string, error: Record<string, unknown> = {}) =>
+  jsonResponse({ error_summary: summary, error }, { status: 409 });
+
+const route = (request: IRecordedRequest) => request.url.pathname.replace(/^\/2\//, '');
+const apiArg = (request: IRecordedRequest) => JSON.parse(request.headers.get('Dropbox-API-Arg')!);
+
+describe('DropboxProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('列出文件', () => {
+    it('list_folder 游标作为 nextCursor，翻页时调用 list_folder/continue', async () => {
+      const { requests } = mockFetch(request => route(request) === 'files/list_folder'
+        ? jsonResponse({
+            entries: [
+              entry('a.txt', '/Work', { content_hash: 'e3b0c442', rev: '015a' }),
+              entry('.hidden'),
+              deleted('gone.txt'),
+              { '.tag': 'folder', id: 'id:sub', name: 'Sub', path_display: '/Work/Sub', path_lower: '/work/sub' },
+            ],
+            cursor: 'cursor-1',
+            has_more: true,
+          })
+        : jsonResponse({ entries: [entry('b.txt')], cursor: 'cursor-2', has_more: false }));
+      const provider = createProvider();
+
+      const first = await provider.listFiles({ path: 'Work/', limit: 50 });
+
+      expect(requests[0].url.toString()).toBe('https://api.dropboxapi.com/2/files/list_folder');
+      expect(requests[0].headers.get('Authorization')).toBe('Bearer token');
+      expect(JSON.parse(await readBody(requests[0]))).toEqual({ path: '/Work', limit: 50 });
+      expect(first.files.map(file => [file.id, file.type, file.parentId])).toEqual([
+        ['id:a.txt', 'file', '/Work'],
+        ['id:sub', 'folder', '/Work'],
+      ]);
+      expect(first.files[0].hash).toEqual({ dropbox: 'e3b0c442' });
+      expect(first.files[0].extensionStatus?.dropbox).toMatchObject({ rev: '015a', pathLower: '/work/a.txt' });
+      expect(first).toMatchObject({ nextCursor: 'cursor-1', hasMore: true });
+
+      const second = await provider.listFiles({ cursor: first.nextCursor });
+
+      expect(route(requests[1])).toBe('files/list_folder/continue');
+      expect(JSON.parse(await readBody(requests[1]))).toEqual({ cursor: 'cursor-1' });
+      expect(second).toMatchObject({ nextCursor: undefined, hasMore: false });
+    });
+
+    it('路径不存在时按 404 报告', async () => {
+      mockFetch(() => apiError('path/not_found/..'));
+
+      await expect(createProvider().listFiles({ path: '/missing' })).rejects.toMatchObject({ status: 404 });
+    });
+  });
+
+  describe('上传会话', () => {
+    const options = { fileName: '报告.pdf', targetPath: '/Work', overwrite: true } as IUploadOptions;
+    const chunk = (index: number, offset: number, size: number): IChunkInfo =>
+      ({ index, offset, size, status: TransferStatus.ACTIVE, retryCount: 0 });
+
+    it('start → append_v2 → finish，偏移不一致时按服务端偏移只发送剩余部分', async () => {
+      let serverOffset = 0;
+      const { requests } = mockFetch(async request => {
+        switch (route(request)) {
+          case 'files/upload_session/start':
+            return jsonResponse({ session_id: 'session-1' });
+          case 'files/upload_session/append_v2': {
+            const { offset } = apiArg(request).cursor;
+            if (offset !== serverOffset) {
+              return apiError('incorrect_offset/..', { '.tag': 'incorrect_offset', correct_offset: serverOffset });
+            }
+            serverOffset += (request.body as Blob).size;
+            return new Response('null');
+          }
+          case 'files/upload_session/finish':
+            return jsonResponse(entry('报告.pdf', '/Work', { size: serverOffset }));
+        }
+      });
+      const provider = createProvider();
+      const file = new File([new Uint8Array(30)], '报告.pdf');
+
+      const session = await provider.initChunkUpload(file, options);
+      await provider.uploadChunk(session, chunk(0, 0, 10), file.slice(0, 10));
+      // 上一次追加已被接收但响应丢失：服务端偏移为 15，本地仍认为是 10
+      serverOffset = 15;
+      await provider.uploadChunk(session, chunk(1, 10, 10), file.slice(10, 20));
+      await provider.uploadChunk(session, chunk(2, 20, 10), file.slice(20, 30));
+      const item = await provider.completeChunkUpload(session, []);
+
+      const appends = requests.filter(request => route(request) === 'files/upload_session/append_v2');
+      expect(appends.map(request => [apiArg(request).cursor.offset, (request.body as Blob).size])).toEqual([
+        [0, 10],
+        [10, 10],
+        [15, 5],
+        [20, 10],
+      ]);
+      expect(apiArg(appends[0])).toEqual({ cursor: { session_id: 'session-1', offset: 0 }, close: false });
+
+      const finish = requests[requests.length - 1];
+      expect(apiArg(finish)).toEqual({
+        cursor: { session_id: 'session-1', offset: 30 },
+        commit: { path: '/Work/报告.pdf', mode: 'overwrite', autorename: false },
+      });
+      // 非 ASCII 字符转义后放入请求头
+      expect(finish.headers.get('Dropbox-API-Arg')).toContain('\\u62a5\\u544a.pdf');
+      expect(item).toMatchObject({ id: 'id:报告.pdf', path: '/Work/报告.pdf', size: 30 });
+    });
+
+    it('查询服务端偏移，落后于分片开始位置时报错', async () => {
+      mockFetch(request => route(request) === 'files/upload_session/start'
+        ? jsonResponse({ session_id: 'session-1' })
+        : apiError('incorrect_offset/..', { '.tag': 'incorrect_offset', correct_offset: 4 }));
+      const provider = createProvider();
+      const file = new File([new Uint8Array(30)], 'a.bin');
+
+      const session = await provider.initChunkUpload(file, options);
+      expect(await provider.getChunkUploadOffset(session)).toBe(4);
+
+      await expect(provider.uploadChunk(session, chunk(1, 10, 10), file.slice(10, 20)))
+        .rejects.toThrow('Upload session is at offset 4, expected 10');
+    });
+  });
+
+  describe('监视文件夹', () => {
+    it('列出现有文件后长轮询，有变化时按游标增量获取', async () => {
+      const changes = [
+        entry('c.txt'),
+        deleted('a.txt'),
+        // 重命名：删除旧路径并添加新路径，ID 不变
+        deleted('b.txt'),
+        entry('renamed.txt', '/Work', { id: 'id:b.txt' }),
+      ];
+      const { requests } = mockFetch(request => {
+        switch (route(request)) {
+          case 'files/list_folder':
+            return jsonResponse({ entries: [entry('a.txt')], cursor: 'c0', has_more: true });
+          case 'files/list_folder/continue':
+            return readBody(request).then(body => JSON.parse(body).cursor === 'c0'
+              ? jsonResponse({ entries: [entry('b.txt')], cursor: 'c1', has_more: false })
+              : jsonResponse({ entries: changes.splice(0), cursor: 'c2', has_more: false }));
+          case 'files/list_folder/longpoll':
+            return readBody(request).then(body => JSON.parse(body).cursor === 'c1'
+              ? jsonResponse({ changes: true })
+              : new Promise<Response>(resolve => setTimeout(() => resolve(jsonResponse({ changes: false })), 20)));
+        }
+      });
+      const callbacks = { onCreated: vi.fn(), onDeleted: vi.fn(), onUpdated: vi.fn(), onError: vi.fn() };
+
+      const stop = createProvider().watchFiles('/Work', callbacks);
+      try {
+        await vi.waitFor(() => expect(callbacks.onDeleted).toHaveBeenCalled());
+
+        const longpoll = requests.find(request => route(request) === 'files/list_folder/longpoll')!;
+        expect(longpoll.url.hostname).toBe('notify.dropboxapi.com');
+        // 通知端点不需要访问令牌
+        expect(longpoll.headers.has('Authorization')).toBe(false);
+        expect(JSON.parse(await readBody(longpoll))).toEqual({ cursor: 'c1', timeout: 120 });
+
+        expect(callbacks.onCreated).toHaveBeenCalledTimes(1);
+        expect(callbacks.onCreated).toHaveBeenCalledWith(expect.objectContaining({ id: 'id:c.txt' }));
+        expect(callbacks.onDeleted).toHaveBeenCalledTimes(1);
+        expect(callbacks.onDeleted).toHaveBeenCalledWith('id:a.txt');
+        expect(callbacks.onUpdated).toHaveBeenCalledWith(expect.objectContaining({ id: 'id:b.txt', name: 'renamed.txt' }));
+        expect(callbacks.onError).not.toHaveBeenCalled();
+      } finally {
+        stop();
+      }
+    });
+
+    it('游标失效（reset）时重新列出', async () => {
+      let listed = 0;
+      mockFetch(request => {
+        switch (route(request)) {
+          case 'files/list_folder':
+            listed++;
+            return jsonResponse({ entries: [], cursor: `c${listed}`, has_more: false });
+          case 'files/list_folder/longpoll':
+            return listed === 1
+              ? apiError('reset/..')
+              : new Promise<Response>(resolve => setTimeout(() => resolve(jsonResponse({ changes: false })), 20));
+        }
+      });
+      const callbacks = { onError: vi.fn() };
+
+      const stop = createProvider().watchFiles('/Work', callbacks);
+      try {
+        await vi.waitFor(() => expect(listed).toBe(2));
+        expect(callbacks.onError).not.toHaveBeenCalled();
+      } finally {
+        stop();
+      }
+    });
+  });
+
+  describe('分享和修订版本', () => {
+    it('创建带密码和过期时间的链接，已存在时返回现有链接', async () => {
+      let exists = false;
+      const { requests } = mockFetch(() => exists
+        ? apiError('shared_link_already_exists/..', {
+            '.tag': 'shared_link_already_exists',
+            shared_link_already_exists: { metadata: { url: 'https://www.dropbox.com/s/existing' } },
+          })
+        : jsonResponse({ url: 'https://www.dropbox.com/s/abc', expires: '2030-01-01T12:00:00Z' }));
+      const provider = createProvider();
+
+      const share = await provider.createShare({
+        fileId: '/Work/a.txt',
+        shareType: 'link',
+        permission: 'read',
+        allowDownload: false,
+        password: 'p@ss',
+        expiresAt: new Date('2030-01-01T12:00:00.123Z'),
+      });
+
+      expect(route(requests[0])).toBe('sharing/create_shared_link_with_settings');
+      expect(JSON.parse(await readBody(requests[0]))).toEqual({
+        path: '/Work/a.txt',
+        settings: {
+          audience: 'public',
+          access: 'viewer',
+          allow_download: false,
+          requested_visibility: 'password',
+          link_password: 'p@ss',
+          expires: '2030-01-01T12:00:00Z',
+        },
+      });
+      expect(share).toEqual({
+        shareId: 'https://www.dropbox.com/s/abc',
+        shareUrl: 'https://www.dropbox.com/s/abc',
+        expiresAt: new Date('2030-01-01T12:00:00Z'),
+      });
+
+      exists = true;
+      const existing = await provider.createShare({ fileId: '/Work/a.txt', shareType: 'link', permission: 'write', allowDownload: true });
+      expect(existing.shareUrl).toBe('https://www.dropbox.com/s/existing');
+    });
+
+    it('修订版本最新在前，下载地址指向 rev:', async () => {
+      mockFetch(() => jsonResponse({
+        entries: [
+          entry('a.txt', '/Work', { rev: 'r2', size: 20 }),
+          entry('a.txt', '/Work', { rev: 'r1', size: 10 }),
+        ],
+      }));
+
+      const versions = await createProvider().getFileVersions('/Work/a.txt');
+
+      expect(versions.map(version => [version.id, version.versionNumber, version.size, version.isCurrent])).toEqual([
+        ['r2', 2, 20, true],
+        ['r1', 1, 10, false],
+      ]);
+      const url = new URL(versions[1].downloadUrl!);
+      expect(url.pathname).toBe('/2/files/download');
+      expect(JSON.parse(url.searchParams.get('arg')!)).toEqual({ path: 'rev:r1' });
+    });
+  });
+});
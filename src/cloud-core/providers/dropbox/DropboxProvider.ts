@@ -0,0 +1,1287 @@
+/**
+ * Dropbox 提供商实现
+ * 基于 Dropbox API v2，OAuth2（PKCE）授权
+ *
+ * Dropbox 以路径访问文件，文件 ID（id:xxx）可以在任何需要路径的地方使用；
+ * 列表按 list_folder/continue 的游标分页，大文件使用上传会话顺序上传，
+ * 文件哈希为 Dropbox content_hash（按 4MB 分块的 SHA-256），watchFiles 使用 list_folder/longpoll
+ */
+
+import {
+  BaseStorageProvider,
+  IFileItem,
+  IFileListResponse,
+  IFileVersion,
+  IThumbnail,
+  IStorageProvider,
+  IProviderConfig,
+  IProviderCapabilities,
+  IListFilesOptions,
+  IUploadOptions,
+  IDownloadOptions,
+  IShareOptions,
+  IFileWatchCallbacks,
+  IChunkUploadSession,
+  IChunkUploadResult,
+  IChunkInfo,
+  ISearchOptions,
+  ISearchResult,
+  IStorageQuota,
+  ITransferTask,
+  ITransferOptions,
+  IAuthorizationRequest,
+  OAuth2Client,
+  OAuth2Tokens,
+  isTokenExpiring,
+  FileType,
+  TransferType,
+  TransferStatus,
+  ProviderStatus,
+  ProviderEventType,
+} from '../base';
+import { createDownloadSink } from '../../transfer/DownloadSink';
+import { createHttpError, sleep } from '../../transfer/RetryPolicy';
+
+/**
+ * Dropbox API 默认端点（RPC、内容、通知）
+ */
+export const DROPBOX_ENDPOINTS = {
+  api: 'https://api.dropboxapi.com/2',
+  content: 'https://content.dropboxapi.com/2',
+  notify: 'https://notify.dropboxapi.com/2',
+};
+
+/**
+ * Dropbox OAuth2 默认配置
+ */
+export const DROPBOX_OAUTH = {
+  authUrl: 'https://www.dropbox.com/oauth2/authorize',
+  tokenUrl: 'https://api.dropboxapi.com/oauth2/token',
+  scopes: [
+    'account_info.read',
+    'files.metadata.read',
+    'files.metadata.write',
+    'files.content.read',
+    'files.content.write',
+    'sharing.read',
+    'sharing.write',
+  ],
+};
+
+/**
+ * 不超过该大小的文件直接上传（单次请求上限 150MB）
+ */
+const SIMPLE_UPLOAD_LIMIT = 8 * 1024 * 1024;
+
+/**
+ * 上传会话有效期
+ */
+const UPLOAD_SESSION_TTL = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * 长轮询等待时间（秒，Dropbox 允许 30–480）
+ */
+const LONGPOLL_TIMEOUT = 120;
+
+/**
+ * 缩略图尺寸（按宽度从小到大）
+ */
+const THUMBNAIL_SIZES: Array<{ name: string; width: number; height: number }> = [
+  { name: 'w32h32', width: 32, height: 32 },
+  { name: 'w64h64', width: 64, height: 64 },
+  { name: 'w128h128', width: 128, height: 128 },
+  { name: 'w256h256', width: 256, height: 256 },
+  { name: 'w480h320', width: 480, height: 320 },
+  { name: 'w640h480', width: 640, height: 480 },
+  { name: 'w960h640', width: 960, height: 640 },
+  { name: 'w1024h768', width: 1024, height: 768 },
+  { name: 'w2048h1536', width: 2048, height: 1536 },
+];
+
+/**
+ * Dropbox 提供商能力声明
+ */
+const DROPBOX_CAPABILITIES: IProviderCapabilities = {
+  supports: {
+    listFiles: true,
+    uploadFile: true,
+    downloadFile: true,
+    deleteFile: true,
+    moveFile: true,
+    copyFile: true,
+    renameFile: true,
+    createFolder: true,
+    searchFiles: true,
+    shareFile: true,
+    getFileInfo: true,
+    getFileThumbnail: true,
+    getFilePreview: false,
+    batchDelete: false,
+    batchDownload: false,
+    batchMove: false,
+    batchCopy: false,
+    chunkUpload: true,
+    chunkDownload: true,
+    resumableUpload: true,
+    resumableDownload: true,
+    uploadSpeedLimit: false,
+    downloadSpeedLimit: false,
+    sync: true,
+    versioning: true,
+    conflictResolution: true,
+    metadataCache: true,
+    thumbnailCache: true,
+    encryption: false,
+    twoFactorAuth: false,
+  },
+  limits: {
+    maxFileSize: 350 * 1024 * 1024 * 1024, // 350GB
+    maxFolderDepth: 0,
+    maxFileNameLength: 255,
+    maxPathLength: 0,
+    maxUploadConnections: 1,
+    maxDownloadConnections: 4,
+    allowedFileTypes: [],
+    blockedFileTypes: [],
+  },
+  performance: {
+    recommendedChunkSize: 8 * 1024 * 1024, // 8MB
+    maxChunkSize: 150 * 1024 * 1024, // 150MB
+    minChunkSize: 1,
+    maxConcurrentRequests: 4,
+    requestTimeout: 30000,
+    apiRateLimit: 0,
+  },
+  authMethods: ['oauth2'],
+  regions: ['global'],
+  customMetadata: false,
+};
+
+/**
+ * Dropbox 文件元数据
+ */
+export interface IDropboxMetadata {
+  '.tag': 'file' | 'folder' | 'deleted';
+  id?: string;                   // 已删除的条目没有 ID
+  name: string;
+  path_display?: string;
+  path_lower?: string;
+  rev?: string;
+  size?: number;
+  client_modified?: string;
+  server_modified?: string;
+  content_hash?: string;
+  is_downloadable?: boolean;
+  sharing_info?: Record<string, any>;
+  has_explicit_shared_members?: boolean;
+}
+
+/**
+ * list_folder 响应
+ */
+interface IDropboxListResult {
+  entries: IDropboxMetadata[];
+  cursor: string;
+  has_more: boolean;
+}
+
+/**
+ * 分享链接元数据
+ */
+interface IDropboxSharedLink {
+  url: string;
+  expires?: string;
+  path_lower?: string;
+}
+
+/**
+ * Dropbox 错误响应（error_summary 如 "path/not_found/..."）
+ */
+interface IDropboxErrorBody {
+  error_summary?: string;
+  error?: Record<string, any>;
+}
+
+/**
+ * 上传会话状态（保存在 session.metadata.dropbox）
+ */
+interface IDropboxSessionState {
+  size: number;                  // 文件大小
+  offset: number;                // 服务端已接收的字节数
+  path: string;                  // 目标文件路径
+  overwrite: boolean;            // 覆盖同名文件
+}
+
+/**
+ * Dropbox 提供商类
+ */
+export class DropboxProvider extends BaseStorageProvider {
+  private endpoints: typeof DROPBOX_ENDPOINTS;
+  private oauth?: OAuth2Client;
+  private refreshing?: Promise<void>;
+
+  constructor(config: IProviderConfig) {
+    super(config.id, config.name, 'dropbox', config, DROPBOX_CAPABILITIES);
+
+    // 自定义 endpoint（如本地模拟服务）同时替换三个域名
+    const endpoint = config.endpoint?.replace(/\/+$/, '');
+    this.endpoints = endpoint ? { api: endpoint, content: endpoint, notify: endpoint } : DROPBOX_ENDPOINTS;
+    this.oauth = config.auth.oauth2 ? new OAuth2Client(config.auth.oauth2) : undefined;
+  }
+
+  // ============================================
+  // 初始化和连接
+  // ============================================
+
+  /**
+   * 初始化提供商
+   */
+  async initialize(): Promise<void> {
+    this.setStatus(ProviderStatus.DISCONNECTED, 'Initialized');
+  }
+
+  /**
+   * 连接到提供商（读取空间使用情况验证令牌）
+   */
+  async connect(): Promise<void> {
+    this.setStatus(ProviderStatus.CONNECTING, 'Connecting...');
+
+    try {
+      if (!this.config.tokens?.accessToken) {
+        throw new Error('Not authorized: complete the OAuth2 sign-in first');
+      }
+      this.config.quota = await this.getStorageQuota();
+      this.config.lastConnected = new Date();
+      this.setStatus(ProviderStatus.CONNECTED, 'Connected');
+    } catch (error) {
+      this.setStatus(ProviderStatus.AUTH_ERROR, (error as Error).message);
+      throw error;
+    }
+  }
+
+  /**
+   * 断开连接
+   */
+  async disconnect(): Promise<void> {
+    this.setStatus(ProviderStatus.DISCONNECTED, 'Disconnected');
+  }
+
+  /**
+   * 测试连接
+   */
+  async testConnection(): Promise<boolean> {
+    try {
+      await this.rpc('users/get_current_account');
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * 刷新访问令牌（并发调用共用同一次刷新）
+   */
+  async refreshAuth(): Promise<void> {
+    if (!this.refreshing) {
+      this.refreshing = this.doRefreshAuth().finally(() => {
+        this.refreshing = undefined;
+      });
+    }
+    return this.refreshing;
+  }
+
+  /**
+   * 创建授权请求，调用方保存返回值后跳转到 url
+   * 默认请求离线访问（token_access_type=offline），Dropbox 只在此时返回刷新令牌
+   */
+  public createAuthorizationRequest(params?: Record<string, string>): Promise<IAuthorizationRequest> {
+    return this.getOAuthClient().createAuthorizationRequest({ token_access_type: 'offline', ...params });
+  }
+
+  /**
+   * 处理授权回调并保存令牌
+   * @param redirectUrl - 回调页面的完整地址
+   * @param request - createAuthorizationRequest 返回的授权请求
+   */
+  public async completeAuthorization(redirectUrl: string, request: IAuthorizationRequest): Promise<void> {
+    this.setTokens(await this.getOAuthClient().handleRedirect(redirectUrl, request));
+  }
+
+  /**
+   * 验证配置
+   */
+  public async validateConfig(config: IProviderConfig): Promise<{
+    valid: boolean;
+    errors?: string[];
+  }> {
+    const result = await super.validateConfig(config);
+    const errors = result.errors ? [...result.errors] : [];
+
+    if (!config.auth.oauth2 && !config.tokens?.accessToken) {
+      errors.push('OAuth2 configuration or access token is required');
+    }
+    if (config.endpoint) {
+      try {
+        new URL(config.endpoint);
+      } catch {
+        errors.push(`Invalid endpoint: ${config.endpoint}`);
+      }
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors: errors.length > 0 ? errors : undefined,
+    };
+  }
+
+  // ============================================
+  // 文件操作
+  // ============================================
+
+  /**
+   * 列出文件（nextCursor 为 list_folder 的游标，翻页时只需传入 cursor）
+   * Dropbox 不支持服务端排序，sortBy 按当前页排序
+   */
+  async listFiles(options?: IListFilesOptions): Promise<IFileListResponse> {
+    const result = options?.cursor
+      ? await this.rpc<IDropboxListResult>('files/list_folder/continue', { cursor: options.cursor })
+      : await this.rpc<IDropboxListResult>('files/list_folder', {
+          path: toApiPath(options?.folderId ?? options?.path),
+          ...(options?.limit ? { limit: options.limit } : {}),
+        });
+
+    const files = result.entries
+      .filter(entry => entry['.tag'] !== 'deleted')
+      .map(entry => this.normalizeFile(entry))
+      .filter(file => this.config.preferences?.showHiddenFiles || !file.isHidden);
+
+    if (options?.sortBy) {
+      const direction = options.sortOrder === 'desc' ? -1 : 1;
+      const key = options.sortBy;
+      files.sort((a, b) => {
+        const left = key === 'name' ? a.name : key === 'size' ? a.size : key === 'created' ? a.createdAt.getTime() : a.modifiedAt.getTime();
+        const right = key === 'name' ? b.name : key === 'size' ? b.size : key === 'created' ? b.createdAt.getTime() : b.modifiedAt.getTime();
+        return (left < right ? -1 : left > right ? 1 : 0) * direction;
+      });
+    }
+
+    return {
+      files,
+      nextCursor: result.has_more ? result.cursor : undefined,
+      hasMore: result.has_more,
+    };
+  }
+
+  /**
+   * 获取文件信息（根目录没有元数据，返回固定的根文件夹）
+   */
+  async getFileInfo(fileId: string): Promise<IFileItem> {
+    const path = toApiPath(fileId);
+    if (path === '') {
+      return this.normalizeFile({ '.tag': 'folder', id: '/', name: '', path_display: '/' });
+    }
+    return this.normalizeFile(await this.getMetadata(path));
+  }
+
+  /**
+   * 创建文件夹
+   */
+  async createFolder(name: string, parentId: string): Promise<IFileItem> {
+    const result = await this.rpc<{ metadata: IDropboxMetadata }>('files/create_folder_v2', {
+      path: joinPath(await this.resolvePath(parentId), name),
+      autorename: false,
+    });
+    return this.normalizeFile({ ...result.metadata, '.tag': 'folder' });
+  }
+
+  /**
+   * 重命名文件
+   */
+  async renameFile(fileId: string, newName: string): Promise<IFileItem> {
+    const current = await this.getMetadata(toApiPath(fileId));
+    return this.relocate('files/move_v2', current, joinPath(parentPath(current.path_display!), newName));
+  }
+
+  /**
+   * 移动文件
+   */
+  async moveFile(fileId: string, targetParentId: string): Promise<IFileItem> {
+    const current = await this.getMetadata(toApiPath(fileId));
+    return this.relocate('files/move_v2', current, joinPath(await this.resolvePath(targetParentId), current.name));
+  }
+
+  /**
+   * 复制文件（目标重名时自动重命名）
+   */
+  async copyFile(fileId: string, targetParentId: string, newName?: string): Promise<IFileItem> {
+    const current = await this.getMetadata(toApiPath(fileId));
+    return this.relocate(
+      'files/copy_v2',
+      current,
+      joinPath(await this.resolvePath(targetParentId), newName || current.name),
+      true
+    );
+  }
+
+  /**
+   * 删除文件（默认可在删除记录中恢复；permanent 需要 Dropbox Business）
+   */
+  async deleteFile(fileId: string, permanent?: boolean): Promise<void> {
+    const path = toApiPath(fileId);
+    if (permanent) {
+      await this.rpc('files/permanently_delete', { path });
+    } else {
+      await this.rpc('files/delete_v2', { path });
+    }
+  }
+
+  /**
+   * 恢复已删除的文件（恢复到删除前的最后一个修订版本，只能按路径访问）
+   */
+  public async restoreFile(fileId: string): Promise<IFileItem> {
+    const path = toApiPath(fileId);
+    const revisions = await this.rpc<{ entries: IDropboxMetadata[] }>('files/list_revisions', { path, limit: 1 });
+    const latest = revisions.entries[0];
+    if (!latest?.rev) {
+      throw new Error(`No revision available to restore: ${fileId}`);
+    }
+    return this.normalizeFile(await this.rpc<IDropboxMetadata>('files/restore', { path, rev: latest.rev }));
+  }
+
+  /**
+   * 搜索文件
+   */
+  async searchFiles(options: ISearchOptions): Promise<ISearchResult> {
+    const startedAt = Date.now();
+    const result = await this.rpc<{ matches: Array<{ metadata: { metadata: IDropboxMetadata } }> }>(
+      'files/search_v2',
+      {
+        query: options.query,
+        options: {
+          file_status: 'active',
+          ...(options.folderId ? { path: await this.resolvePath(options.folderId) } : {}),
+          ...(options.limit ? { max_results: options.limit } : {}),
+        },
+      }
+    );
+    const files = result.matches.map(match => this.normalizeFile(match.metadata.metadata));
+
+    return {
+      files,
+      total: files.length,
+      searchTime: Date.now() - startedAt,
+    };
+  }
+
+  // ============================================
+  // 上传和下载
+  // ============================================
+
+  /**
+   * 上传文件（小文件直接上传，大文件使用上传会话）
+   */
+  async uploadFile(file: File | Blob, options: IUploadOptions): Promise<ITransferTask> {
+    const chunkSize = options.chunkSize || this.capabilities.performance.recommendedChunkSize;
+
+    const task = this.createTransferTask(
+      TransferType.UPLOAD,
+      options.fileName,
+      file.size,
+      { providerId: 'local', path: options.fileName },
+      { providerId: this.id, path: options.targetPath },
+      { ...options, chunkSize } as ITransferOptions
+    );
+
+    task.status = TransferStatus.ACTIVE;
+    task.startedAt = new Date();
+
+    const reportProgress = (transferred: number) => {
+      task.progress.transferred = transferred;
+      task.progress.percentage = file.size > 0 ? (transferred / file.size) * 100 : 100;
+      options.onProgress?.(task.progress);
+    };
+
+    try {
+      let fileItem: IFileItem;
+
+      if (file.size <= SIMPLE_UPLOAD_LIMIT) {
+        const path = joinPath(await this.resolvePath(options.parentId ?? options.targetPath), options.fileName);
+        const response = await this.content('files/upload', { path, ...toWriteMode(!!options.overwrite) }, file);
+        fileItem = this.normalizeFile(await response.json());
+      } else {
+        const session = await this.initChunkUpload(file, options);
+        const state = this.getSessionState(session);
+
+        for (let offset = 0, index = 0; offset < file.size; offset += chunkSize, index++) {
+          const size = Math.min(chunkSize, file.size - offset);
+          const chunk: IChunkInfo = { index, offset, size, status: TransferStatus.ACTIVE, retryCount: 0 };
+          await this.uploadChunk(session, chunk, file.slice(offset, offset + size));
+          reportProgress(state.offset);
+        }
+        fileItem = await this.completeChunkUpload(session, []);
+      }
+
+      reportProgress(file.size);
+      task.status = TransferStatus.COMPLETED;
+      task.completedAt = new Date();
+      task.destination.fileId = fileItem.id;
+      task.result = { success: true, fileId: fileItem.id, filePath: fileItem.path };
+      options.onComplete?.(task);
+    } catch (error) {
+      task.status = TransferStatus.FAILED;
+      task.error = error as Error;
+      task.errorMessage = (error as Error).message;
+      task.errorCount++;
+      options.onError?.(error as Error);
+      throw error;
+    }
+
+    return task;
+  }
+
+  /**
+   * 下载文件（流式写入本地，不在内存中缓冲整个文件）
+   */
+  async downloadFile(fileId: string, options?: IDownloadOptions): Promise<ITransferTask> {
+    const fileInfo = await this.getFileInfo(fileId);
+
+    const task = this.createTransferTask(
+      TransferType.DOWNLOAD,
+      fileInfo.name,
+      fileInfo.size,
+      { providerId: this.id, path: fileInfo.path, fileId },
+      { providerId: 'local', path: '/' },
+      options || {} as any
+    );
+
+    task.status = TransferStatus.ACTIVE;
+    task.startedAt = new Date();
+
+    const sink = await createDownloadSink({
+      fileName: fileInfo.name,
+      size: fileInfo.size,
+      mimeType: fileInfo.mimeType,
+      fileHandle: options?.saveHandle,
+    });
+
+    try {
+      const reader = (await this.openDownloadStream(fileInfo.id)).getReader();
+      let transferred = 0;
+
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+
+        await sink.write(value);
+        transferred += value.length;
+
+        task.progress.transferred = transferred;
+        task.progress.percentage = fileInfo.size > 0 ? (transferred / fileInfo.size) * 100 : 100;
+        options?.onProgress?.(task.progress);
+      }
+
+      await sink.close();
+
+      task.status = TransferStatus.COMPLETED;
+      task.progress.transferred = fileInfo.size;
+      task.progress.percentage = 100;
+      task.completedAt = new Date();
+      task.result = { success: true, fileId, filePath: fileInfo.path };
+    } catch (error) {
+      await sink.abort().catch(() => undefined);
+      task.status = TransferStatus.FAILED;
+      task.error = error as Error;
+      throw error;
+    }
+
+    return task;
+  }
+
+  /**
+   * 打开文件读取流（files/download，支持 Range；fileId 也可以是 rev:修订号）
+   */
+  async openDownloadStream(
+    fileId: string,
+    range?: { start: number; end: number },
+    signal?: AbortSignal
+  ): Promise<ReadableStream<Uint8Array>> {
+    const response = await this.content('files/download', { path: toApiPath(fileId) }, undefined, {
+      headers: range ? { Range: `bytes=${range.start}-${range.end}` } : undefined,
+      signal,
+    });
+
+    if (range && response.status !== 206) {
+      throw new Error('Server does not support range requests');
+    }
+
+    if (!response.body) {
+      throw new Error('Streaming response body is not supported');
+    }
+
+    return response.body;
+  }
+
+  /**
+   * 获取下载URL（临时链接，有效期 4 小时）
+   */
+  public async getDownloadUrl(fileId: string, _expiresIn?: number): Promise<string> {
+    const result = await this.rpc<{ link: string }>('files/get_temporary_link', { path: toApiPath(fileId) });
+    return result.link;
+  }
+
+  // ============================================
+  // 分片上传契约（供 TransferManager 调度）
+  // ============================================
+
+  /**
+   * 创建上传会话（有效期 7 天）
+   */
+  async initChunkUpload(file: File | Blob, options: IUploadOptions): Promise<IChunkUploadSession> {
+    const path = joinPath(await this.resolvePath(options.parentId ?? options.targetPath), options.fileName);
+    const response = await this.content('files/upload_session/start', { close: false }, new Blob([]));
+    const { session_id: sessionId } = await response.json();
+
+    const state: IDropboxSessionState = { size: file.size, offset: 0, path, overwrite: !!options.overwrite };
+    return {
+      uploadId: sessionId,
+      expiresAt: new Date(Date.now() + UPLOAD_SESSION_TTL),
+      metadata: { dropbox: state },
+    };
+  }
+
+  /**
+   * 追加一个分片（必须按顺序上传）
+   * 偏移量不一致（incorrect_offset）时按服务端返回的偏移量校正，只发送剩余部分
+   */
+  async uploadChunk(
+    session: IChunkUploadSession,
+    chunk: IChunkInfo,
+    data: Blob,
+    signal?: AbortSignal
+  ): Promise<IChunkUploadResult> {
+    const state = this.getSessionState(session);
+    const end = chunk.offset + chunk.size;
+
+    while (state.offset < end) {
+      if (state.offset < chunk.offset) {
+        throw new Error(`Upload session is at offset ${state.offset}, expected ${chunk.offset}`);
+      }
+
+      const start = state.offset;
+      const correct = await this.appendToSession(session, start, data.slice(start - chunk.offset), signal);
+      if (correct === start) {
+        throw new Error(`Upload session rejected data at offset ${start}`);
+      }
+      state.offset = correct ?? end;
+    }
+
+    return {};
+  }
+
+  /**
+   * 完成上传会话并提交文件
+   */
+  async completeChunkUpload(session: IChunkUploadSession, _chunks: IChunkInfo[]): Promise<IFileItem> {
+    const state = this.getSessionState(session);
+    const response = await this.content(
+      'files/upload_session/finish',
+      {
+        cursor: { session_id: session.uploadId, offset: state.size },
+        commit: { path: state.path, ...toWriteMode(state.overwrite) },
+      },
+      new Blob([])
+    );
+    return this.normalizeFile(await response.json());
+  }
+
+  /**
+   * 取消上传会话（Dropbox 没有取消接口，会话过期后自动清理）
+   */
+  async abortChunkUpload(_session: IChunkUploadSession): Promise<void> {
+    return;
+  }
+
+  /**
+   * 查询服务端已接收的字节数（追加空数据，偏移量不一致时服务端返回正确的偏移量）
+   */
+  async getChunkUploadOffset(session: IChunkUploadSession, signal?: AbortSignal): Promise<number> {
+    const state = this.getSessionState(session);
+    const correct = await this.appendToSession(session, state.offset, new Blob([]), signal);
+    if (correct !== undefined) {
+      state.offset = correct;
+    }
+    return state.offset;
+  }
+
+  // ============================================
+  // 缩略图
+  // ============================================
+
+  /**
+   * 获取缩略图（选择不小于请求尺寸的最小规格，返回对象 URL）
+   */
+  public async getThumbnail(fileId: string, size: number = 256): Promise<IThumbnail> {
+    const spec = THUMBNAIL_SIZES.find(item => item.width >= size) ?? THUMBNAIL_SIZES[THUMBNAIL_SIZES.length - 1];
+    const response = await this.content('files/get_thumbnail_v2', {
+      resource: { '.tag': 'path', path: toApiPath(fileId) },
+      format: 'jpeg',
+      size: spec.name,
+    });
+    const blob = await response.blob();
+
+    return {
+      url: URL.createObjectURL(blob),
+      width: spec.width,
+      height: spec.height,
+      size: blob.size,
+      mimeType: 'image/jpeg',
+    };
+  }
+
+  // ============================================
+  // 共享
+  // ============================================
+
+  /**
+   * 创建分享链接（支持过期时间和密码；已存在时返回现有链接）
+   * shareId 为链接地址
+   */
+  public async createShare(options: IShareOptions): Promise<{ shareId: string; shareUrl: string; expiresAt?: Date }> {
+    const path = toApiPath(options.fileId);
+    let link: IDropboxSharedLink;
+
+    try {
+      link = await this.rpc<IDropboxSharedLink>('sharing/create_shared_link_with_settings', {
+        path,
+        settings: {
+          audience: 'public',
+          access: options.permission === 'read' ? 'viewer' : 'editor',
+          allow_download: options.allowDownload,
+          ...(options.password ? { requested_visibility: 'password', link_password: options.password } : {}),
+          ...(options.expiresAt ? { expires: toDropboxTime(options.expiresAt) } : {}),
+        },
+      });
+    } catch (error) {
+      const existing = (error as { body?: IDropboxErrorBody }).body?.error?.shared_link_already_exists?.metadata;
+      if (!existing) {
+        throw error;
+      }
+      link = existing;
+    }
+
+    return {
+      shareId: link.url,
+      shareUrl: link.url,
+      expiresAt: link.expires ? new Date(link.expires) : undefined,
+    };
+  }
+
+  /**
+   * 获取文件的分享链接
+   */
+  public async getShareInfo(fileId: string): Promise<any> {
+    const result = await this.rpc<{ links: IDropboxSharedLink[] }>('sharing/list_shared_links', {
+      path: toApiPath(fileId),
+      direct_only: true,
+    });
+    return result.links;
+  }
+
+  /**
+   * 撤销分享链接
+   */
+  public async deleteShare(shareId: string): Promise<void> {
+    await this.rpc('sharing/revoke_shared_link', { url: shareId });
+  }
+
+  // ============================================
+  // 版本控制
+  // ============================================
+
+  /**
+   * 获取文件修订版本列表（最新版本在前）
+   */
+  public async getFileVersions(fileId: string): Promise<IFileVersion[]> {
+    const result = await this.rpc<{ entries: IDropboxMetadata[] }>('files/list_revisions', {
+      path: toApiPath(fileId),
+      limit: 100,
+    });
+
+    return result.entries.map((entry, index) => ({
+      id: entry.rev!,
+      versionNumber: result.entries.length - index,
+      modifiedAt: new Date(entry.server_modified || entry.client_modified || Date.now()),
+      modifiedBy: {
+        id: entry.sharing_info?.modified_by || '',
+        name: '',
+      },
+      size: entry.size || 0,
+      downloadUrl: `${this.endpoints.content}/files/download?arg=${encodeURIComponent(toApiArg({ path: `rev:${entry.rev}` }))}`,
+      isCurrent: index === 0,
+    }));
+  }
+
+  /**
+   * 获取特定版本
+   */
+  public async getFileVersion(fileId: string, versionId: string): Promise<IFileVersion> {
+    const version = (await this.getFileVersions(fileId)).find(item => item.id === versionId);
+    if (!version) {
+      throw new Error(`Version not found: ${versionId}`);
+    }
+    return version;
+  }
+
+  /**
+   * 恢复到特定版本
+   */
+  public async restoreFileVersion(fileId: string, versionId: string): Promise<void> {
+    await this.rpc('files/restore', { path: await this.resolvePath(fileId), rev: versionId });
+  }
+
+  // ============================================
+  // 存储配额
+  // ============================================
+
+  /**
+   * 获取存储配额（团队空间时使用团队的分配量）
+   */
+  async getStorageQuota(): Promise<IStorageQuota> {
+    const usage = await this.rpc<{ used: number; allocation?: { '.tag': string; allocated?: number } }>(
+      'users/get_space_usage'
+    );
+    const total = usage.allocation?.allocated || 0;
+    const used = usage.used || 0;
+
+    return {
+      total,
+      used,
+      remaining: Math.max(0, total - used),
+      usagePercentage: total > 0 ? (used / total) * 100 : 0,
+    };
+  }
+
+  // ============================================
+  // 文件监视
+  // ============================================
+
+  /**
+   * 监视文件夹直接子项的变化（list_folder/longpoll）
+   * 首次列出现有文件并取得游标，之后长轮询等待变化，有变化时按游标增量获取；
+   * 游标失效（reset）时重新列出。删除的条目只有路径，按已知的路径映射为文件 ID
+   */
+  public watchFiles(folderId: string, callbacks: IFileWatchCallbacks): () => void {
+    const watcherId = `${folderId}-${Date.now()}`;
+    const controller = new AbortController();
+    const known = new Map<string, string>();
+    let cursor: string | undefined;
+
+    const applyChanges = (entries: IDropboxMetadata[]) => {
+      const before = new Set(known.values());
+      const removed = new Set<string>();
+
+      for (const entry of entries) {
+        const key = (entry.path_lower || entry.path_display || '').toLowerCase();
+        if (entry['.tag'] === 'deleted') {
+          const id = known.get(key);
+          if (id) {
+            known.delete(key);
+            removed.add(id);
+          }
+          continue;
+        }
+
+        const file = this.normalizeFile(entry);
+        known.set(key, file.id);
+        if (before.has(file.id) || removed.has(file.id)) {
+          callbacks.onUpdated?.(file);
+        } else {
+          callbacks.onCreated?.(file);
+        }
+      }
+
+      // 重命名表现为删除旧路径并添加新路径，ID 仍存在的不算删除
+      const remaining = new Set(known.values());
+      for (const id of removed) {
+        if (!remaining.has(id)) {
+          callbacks.onDeleted?.(id);
+        }
+      }
+    };
+
+    const run = async () => {
+      while (!controller.signal.aborted) {
+        try {
+          if (!cursor) {
+            known.clear();
+            const path = await this.resolvePath(folderId);
+            let page = await this.rpc<IDropboxListResult>('files/list_folder', { path });
+            for (;;) {
+              page.entries
+                .filter(entry => entry['.tag'] !== 'deleted' && entry.id)
+                .forEach(entry => known.set((entry.path_lower || '').toLowerCase(), entry.id!));
+              if (!page.has_more) {
+                break;
+              }
+              page = await this.rpc<IDropboxListResult>('files/list_folder/continue', { cursor: page.cursor });
+            }
+            cursor = page.cursor;
+          }
+
+          const poll = await this.longpoll(cursor, controller.signal);
+          if (poll.changes) {
+            let page: IDropboxListResult;
+            do {
+              page = await this.rpc<IDropboxListResult>('files/list_folder/continue', { cursor });
+              applyChanges(page.entries);
+              cursor = page.cursor;
+            } while (page.has_more);
+          }
+          if (poll.backoff) {
+            await sleep(poll.backoff * 1000);
+          }
+        } catch (error) {
+          if (controller.signal.aborted) {
+            return;
+          }
+          const summary = (error as { body?: IDropboxErrorBody }).body?.error_summary || '';
+          if (summary.startsWith('reset')) {
+            cursor = undefined;
+            continue;
+          }
+          callbacks.onError?.(error as Error);
+          await sleep(this.config.sync?.interval || 30000);
+        }
+      }
+    };
+
+    run();
+
+    const cleanup = () => {
+      controller.abort();
+      this._fileWatchers.delete(watcherId);
+    };
+
+    this._fileWatchers.set(watcherId, { callbacks, cleanup });
+
+    return cleanup;
+  }
+
+  // ============================================
+  // 实用方法
+  // ============================================
+
+  /**
+   * 获取提供商特定功能
+   */
+  public getFeature(feature: string): any {
+    switch (feature) {
+      case 'oauth2':
+        return this.getOAuthClient();
+      default:
+        return super.getFeature(feature);
+    }
+  }
+
+  /**
+   * 标准化文件项（parentId 为父文件夹路径）
+   */
+  normalizeFile(rawFile: IDropboxMetadata): IFileItem {
+    const isFolder = rawFile['.tag'] === 'folder';
+    const path = rawFile.path_display || `/${rawFile.name}`;
+    const isRoot = path === '/';
+    const modifiedAt = new Date(rawFile.client_modified || rawFile.server_modified || Date.now());
+
+    return {
+      id: rawFile.id || path,
+      providerId: this.id,
+      parentId: isRoot ? '' : parentPath(path),
+      path,
+      name: rawFile.name,
+      type: isFolder ? FileType.FOLDER : FileType.FILE,
+      fileType: isFolder ? FileType.FOLDER : (this.getFileType(rawFile.name) as FileType),
+      size: rawFile.size || 0,
+      createdAt: modifiedAt,
+      modifiedAt,
+      mimeType: isFolder ? undefined : this.getMimeType(rawFile.name),
+      hash: rawFile.content_hash ? { dropbox: rawFile.content_hash } : undefined,
+      permissions: {
+        canRead: rawFile.is_downloadable ?? true,
+        canWrite: !rawFile.sharing_info?.read_only,
+        canDelete: !isRoot,
+        canShare: true,
+        canRename: !isRoot,
+        canMove: !isRoot,
+        canCopy: !isRoot,
+      },
+      hasVersions: !isFolder,
+      isFavorite: false,
+      isOffline: false,
+      isShared: !!rawFile.sharing_info || !!rawFile.has_explicit_shared_members,
+      isLocked: false,
+      isHidden: rawFile.name.startsWith('.'),
+      isTrashed: rawFile['.tag'] === 'deleted',
+      isEncrypted: false,
+      extensionStatus: {
+        dropbox: {
+          isFile: rawFile['.tag'] === 'file',
+          sharingInfo: rawFile.sharing_info,
+          rev: rawFile.rev,
+          pathLower: rawFile.path_lower,
+        },
+      },
+      isCached: false,
+    };
+  }
+
+  /**
+   * 反标准化文件项
+   */
+  denormalizeFile(file: IFileItem): IDropboxMetadata {
+    return {
+      '.tag': file.type === FileType.FOLDER ? 'folder' : 'file',
+      id: file.id,
+      name: file.name,
+      path_display: file.path,
+      path_lower: file.extensionStatus?.dropbox?.pathLower ?? file.path.toLowerCase(),
+      rev: file.extensionStatus?.dropbox?.rev,
+      size: file.type === FileType.FOLDER ? undefined : file.size,
+      client_modified: toDropboxTime(file.modifiedAt),
+      content_hash: file.hash?.dropbox,
+      sharing_info: file.extensionStatus?.dropbox?.sharingInfo,
+    };
+  }
+
+  // ============================================
+  // 私有辅助方法
+  // ============================================
+
+  /**
+   * 发送请求（令牌即将过期时先刷新），失败时抛出带状态码的错误
+   */
+  private async request(url: string, init: RequestInit): Promise<Response> {
+    if (isTokenExpiring(this.config.tokens) && this.config.tokens?.refreshToken) {
+      await this.refreshAuth();
+    }
+
+    const response = await this.fetchWithAuth(url, init);
+    if (!response.ok) {
+      throw await this.toError(response, 'Dropbox request failed');
+    }
+    return response;
+  }
+
+  /**
+   * RPC 请求：参数和结果都是 JSON
+   */
+  private async rpc<T = void>(route: string, args?: unknown): Promise<T> {
+    const response = await this.request(`${this.endpoints.api}/${route}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(args ?? null),
+    });
+    const text = await response.text();
+    return (text ? JSON.parse(text) : undefined) as T;
+  }
+
+  /**
+   * 内容请求：参数放在 Dropbox-API-Arg 头中，请求体或响应体为文件内容
+   */
+  private content(route: string, args: unknown, body?: Blob, init: RequestInit = {}): Promise<Response> {
+    const headers = new Headers(init.headers);
+    headers.set('Dropbox-API-Arg', toApiArg(args));
+    if (body) {
+      headers.set('Content-Type', 'application/octet-stream');
+    }
+    return this.request(`${this.endpoints.content}/${route}`, { ...init, method: 'POST', headers, body });
+  }
+
+  /**
+   * 向上传会话追加数据
+   * @returns 偏移量不一致时服务端期望的偏移量，成功时返回 undefined
+   */
+  private async appendToSession(
+    session: IChunkUploadSession,
+    offset: number,
+    data: Blob,
+    signal?: AbortSignal
+  ): Promise<number | undefined> {
+    try {
+      await this.content(
+        'files/upload_session/append_v2',
+        { cursor: { session_id: session.uploadId, offset }, close: false },
+        data,
+        { signal }
+      );
+      return undefined;
+    } catch (error) {
+      const detail = (error as { body?: IDropboxErrorBody }).body?.error;
+      if (detail?.['.tag'] !== 'incorrect_offset' || typeof detail.correct_offset !== 'number') {
+        throw error;
+      }
+      return detail.correct_offset;
+    }
+  }
+
+  /**
+   * 长轮询等待游标之后的变化（通知端点不需要访问令牌）
+   */
+  private async longpoll(cursor: string, signal: AbortSignal): Promise<{ changes: boolean; backoff?: number }> {
+    const response = await fetch(`${this.endpoints.notify}/files/list_folder/longpoll`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ cursor, timeout: LONGPOLL_TIMEOUT }),
+      signal,
+    });
+    if (!response.ok) {
+      throw await this.toError(response, 'Longpoll failed');
+    }
+    return response.json();
+  }
+
+  /**
+   * 由错误响应创建带状态码的错误（附带解析后的错误体）
+   * 路径或会话不存在（409，error_summary 含 not_found）按 404 处理
+   */
+  private async toError(response: Response, message: string): Promise<Error> {
+    const text = await response.text().catch(() => '');
+    let body: IDropboxErrorBody | undefined;
+    try {
+      body = text ? JSON.parse(text) : undefined;
+    } catch {
+      body = undefined;
+    }
+
+    const detail = body?.error_summary || text || response.statusText;
+    const error = Object.assign(createHttpError(response, `${message} (${response.status}): ${detail}`), { body });
+    if (response.status === 409 && /(^|\/)not_found/.test(body?.error_summary || '')) {
+      error.status = 404;
+    }
+    return error;
+  }
+
+  private async doRefreshAuth(): Promise<void> {
+    const refreshToken = this.config.tokens?.refreshToken;
+    if (!refreshToken) {
+      throw new Error('No refresh token available');
+    }
+
+    try {
+      this.setTokens(await this.getOAuthClient().refresh(refreshToken));
+    } catch (error) {
+      this.setStatus(ProviderStatus.AUTH_ERROR, (error as Error).message);
+      throw error;
+    }
+  }
+
+  /**
+   * 保存令牌并通知（调用方监听 TOKEN_REFRESHED 持久化配置）
+   */
+  private setTokens(tokens: OAuth2Tokens): void {
+    this.config.tokens = { ...this.config.tokens, ...tokens };
+    this.emit({
+      type: ProviderEventType.TOKEN_REFRESHED,
+      timestamp: new Date(),
+      data: { tokens: this.config.tokens },
+    });
+  }
+
+  private getOAuthClient(): OAuth2Client {
+    if (!this.oauth) {
+      throw new Error('OAuth2 is not configured for this provider');
+    }
+    return this.oauth;
+  }
+
+  private getMetadata(path: string): Promise<IDropboxMetadata> {
+    return this.rpc<IDropboxMetadata>('files/get_metadata', { path });
+  }
+
+  /**
+   * 解析为路径（以 ID 标识的文件先查询其路径），用于拼接子项路径
+   */
+  private async resolvePath(idOrPath?: string): Promise<string> {
+    const path = toApiPath(idOrPath);
+    if (!path.startsWith('id:')) {
+      return path;
+    }
+    return (await this.getMetadata(path)).path_display || '';
+  }
+
+  /**
+   * 移动或复制到目标路径
+   */
+  private async relocate(
+    route: 'files/move_v2' | 'files/copy_v2',
+    current: IDropboxMetadata,
+    toPath: string,
+    autorename: boolean = false
+  ): Promise<IFileItem> {
+    const result = await this.rpc<{ metadata: IDropboxMetadata }>(route, {
+      from_path: current.id || current.path_lower,
+      to_path: toPath,
+      autorename,
+    });
+    return this.normalizeFile({ ...result.metadata, '.tag': result.metadata['.tag'] || current['.tag'] });
+  }
+
+  private getSessionState(session: IChunkUploadSession): IDropboxSessionState {
+    const state = session.metadata?.dropbox as IDropboxSessionState | undefined;
+    if (!state) {
+      throw new Error(`Invalid Dropbox upload session: ${session.uploadId}`);
+    }
+    return state;
+  }
+}
+
+/**
+ * 转换为 API 路径：根目录为空字符串，ID（id:）、修订号（rev:）和命名空间（ns:）原样使用
+ */
+function toApiPath(idOrPath?: string): string {
+  if (!idOrPath || idOrPath === '/' || idOrPath === 'root') {
+    return '';
+  }
+  if (/^(id|rev|ns):/.test(idOrPath)) {
+    return idOrPath;
+  }
+  return `/${idOrPath.replace(/^\/+|\/+$/g, '')}`;
+}
+
+function joinPath(parent: string, name: string): string {
+  return `${parent.replace(/\/+$/, '')}/${name}`;
+}
+
+function parentPath(path: string): string {
+  const index = path.lastIndexOf('/');
+  return index > 0 ? path.slice(0, index) : '/';
+}
+
+/**
+ * 写入模式：覆盖或重名时自动重命名
+ */
+function toWriteMode(overwrite: boolean): { mode: 'overwrite' | 'add'; autorename: boolean } {
+  return overwrite ? { mode: 'overwrite', autorename: false } : { mode: 'add', autorename: true };
+}
+
+/**
+ * Dropbox 时间格式（不带毫秒的 ISO 8601）
+ */
+function toDropboxTime(date: Date): string {
+  return date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+/**
+ * Dropbox-API-Arg 头的值（HTTP 头只能包含 ASCII，非 ASCII 字符转义为 \uXXXX）
+ */
+function toApiArg(args: unknown): string {
+  return JSON.stringify(args).replace(/[\u007f-\uffff]/g, char => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`);
+}
+
+/**
+ * 创建Dropbox提供商实例
+ */
+export function createDropboxProvider(config: IProviderConfig): IStorageProvider {
+  return new DropboxProvider(config);
+}
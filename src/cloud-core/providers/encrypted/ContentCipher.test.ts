@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest';
+import {
+  HEADER_SIZE,
+  SEGMENT_SIZE,
+  TAG_SIZE,
+  NameCipher,
+  createHeader,
+  encodeHeader,
+  parseHeader,
+  encryptSegments,
+  createDecryptStream,
+  createSliceStream,
+  getEncryptedSize,
+  getPlainSize,
+  getEncryptedOffset,
+  getEncryptedRange,
+  alignToSegments,
+} from './ContentCipher';
+
+const generateKey = () =>
+  crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+
+const sample = (size: number) => new Uint8Array(size).map((_, i) => (i * 7 + 3) & 0xff);
+
+const readAll = async (stream: ReadableStream<Uint8Array>): Promise<Uint8Array> =>
+  new Uint8Array(await new Response(stream).arrayBuffer());
+
+const decrypt = (
+  key: CryptoKey,
+  header: ReturnType<typeof createHeader>,
+  body: Uint8Array,
+  firstSegment: number = 0,
+  endsWithFinal: boolean = true
+) => readAll(new Blob([body]).stream().pipeThrough(createDecryptStream(key, header, firstSegment, endsWithFinal)));
+
+describe('ContentCipher', () => {
+  it('文件头编码后可以解析回来', () => {
+    const header = createHeader('Scrypt', 32768);
+    const bytes = encodeHeader(header);
+
+    expect(bytes.length).toBe(HEADER_SIZE);
+    expect(new TextDecoder().decode(bytes.subarray(0, 4))).toBe('WPZE');
+    expect(parseHeader(bytes)).toEqual(header);
+  });
+
+  it('拒绝不是加密文件或版本不支持的文件头', () => {
+    expect(() => parseHeader(new Uint8Array(HEADER_SIZE))).toThrow('Not an encrypted file');
+
+    const bytes = encodeHeader(createHeader('PBKDF2', 600000));
+    bytes[4] = 99;
+    expect(() => parseHeader(bytes)).toThrow('Unsupported encryption format version: 99');
+  });
+
+  it.each([0, 1, SEGMENT_SIZE - 1, SEGMENT_SIZE, SEGMENT_SIZE + 1, 3 * SEGMENT_SIZE + 12345])(
+    '%i 字节的内容加密后大小换算一致并能解密',
+    async (size) => {
+      const key = await generateKey();
+      const header = createHeader('PBKDF2', 600000);
+      const plain = sample(size);
+
+      const body = new Uint8Array(await (await encryptSegments(key, header, new Blob([plain]), 0, true)).arrayBuffer());
+
+      expect(HEADER_SIZE + body.length).toBe(getEncryptedSize(size));
+      expect(getPlainSize(getEncryptedSize(size))).toBe(size);
+      expect(await decrypt(key, header, body)).toEqual(plain);
+    }
+  );
+
+  it('分片独立加密后拼接与整体加密结果相同', async () => {
+    const key = await generateKey();
+    const header = createHeader('PBKDF2', 600000);
+    const plain = sample(5 * SEGMENT_SIZE + 100);
+    const chunkSize = alignToSegments(2 * SEGMENT_SIZE + 500);
+
+    expect(chunkSize).toBe(2 * SEGMENT_SIZE);
+
+    const parts: Blob[] = [];
+    for (let offset = 0; offset < plain.length; offset += chunkSize) {
+      const final = offset + chunkSize >= plain.length;
+      parts.push(await encryptSegments(key, header, new Blob([plain.subarray(offset, offset + chunkSize)]), offset / SEGMENT_SIZE, final));
+      expect(HEADER_SIZE + (await new Blob(parts).arrayBuffer()).byteLength)
+        .toBe(final ? getEncryptedSize(plain.length) : getEncryptedOffset(offset + chunkSize));
+    }
+
+    const whole = await encryptSegments(key, header, new Blob([plain]), 0, true);
+    const joined = new Uint8Array(await new Blob(parts).arrayBuffer());
+    expect(joined).toEqual(new Uint8Array(await whole.arrayBuffer()));
+  });
+
+  it('按范围读取只解密所在的段', async () => {
+    const key = await generateKey();
+    const header = createHeader('PBKDF2', 600000);
+    const plain = sample(4 * SEGMENT_SIZE + 77);
+    const encrypted = new Uint8Array([
+      ...encodeHeader(header),
+      ...new Uint8Array(await (await encryptSegments(key, header, new Blob([plain]), 0, true)).arrayBuffer()),
+    ]);
+
+    const range = { start: SEGMENT_SIZE + 10, end: 3 * SEGMENT_SIZE + 5 };
+    const span = getEncryptedRange(range, encrypted.length);
+    expect(span).toEqual({
+      start: HEADER_SIZE + (SEGMENT_SIZE + TAG_SIZE),
+      end: HEADER_SIZE + 4 * (SEGMENT_SIZE + TAG_SIZE) - 1,
+      firstSegment: 1,
+      lastSegment: 3,
+    });
+
+    const result = await readAll(
+      new Blob([encrypted.subarray(span.start, span.end + 1)]).stream()
+        .pipeThrough(createDecryptStream(key, header, span.firstSegment, false))
+        .pipeThrough(createSliceStream(range.start - span.firstSegment * SEGMENT_SIZE, range.end - range.start + 1))
+    );
+    expect(result).toEqual(plain.subarray(range.start, range.end + 1));
+  });
+
+  it('检测篡改、截断和错误的密钥', async () => {
+    const key = await generateKey();
+    const header = createHeader('PBKDF2', 600000);
+    const body = new Uint8Array(await (await encryptSegments(key, header, new Blob([sample(2 * SEGMENT_SIZE + 5)]), 0, true)).arrayBuffer());
+
+    const tampered = body.slice();
+    tampered[SEGMENT_SIZE + 100] ^= 1;
+    await expect(decrypt(key, header, tampered)).rejects.toThrow('Failed to decrypt file');
+
+    // 去掉结束段后，最后一段没有结束标记
+    const truncated = body.subarray(0, 2 * (SEGMENT_SIZE + TAG_SIZE));
+    await expect(decrypt(key, header, truncated)).rejects.toThrow('Failed to decrypt file');
+
+    await expect(decrypt(await generateKey(), header, body)).rejects.toThrow('Failed to decrypt file');
+  });
+
+  it('getEncryptedOffset 要求段对齐', () => {
+    expect(getEncryptedOffset(0)).toBe(0);
+    expect(getEncryptedOffset(2 * SEGMENT_SIZE)).toBe(HEADER_SIZE + 2 * (SEGMENT_SIZE + TAG_SIZE));
+    expect(() => getEncryptedOffset(100)).toThrow('not aligned');
+  });
+});
+
+describe('NameCipher', () => {
+  const createKeys = async () => ({
+    key: await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']),
+    ivKey: await crypto.subtle.generateKey({ name: 'HMAC', hash: 'SHA-256' }, false, ['sign']),
+  });
+
+  it('相同名称得到相同的小写 base32 密文并能解密', async () => {
+    const { key, ivKey } = await createKeys();
+    const cipher = new NameCipher(key, ivKey);
+    const encrypted = await cipher.encrypt('报告 2024.pdf');
+
+    expect(encrypted).toMatch(/^[a-z2-7]+$/);
+    expect(await cipher.encrypt('报告 2024.pdf')).toBe(encrypted);
+    expect(await cipher.encrypt('报告 2025.pdf')).not.toBe(encrypted);
+
+    // 新实例没有缓存，走完整的解密流程
+    expect(await new NameCipher(key, ivKey).decrypt(encrypted)).toBe('报告 2024.pdf');
+  });
+
+  it('不是本密钥加密的名称解密为 null', async () => {
+    const { key, ivKey } = await createKeys();
+    const encrypted = await new NameCipher(key, ivKey).encrypt('notes.txt');
+    const other = await createKeys();
+    const cipher = new NameCipher(other.key, other.ivKey);
+
+    expect(await cipher.decrypt(encrypted)).toBeNull();
+    expect(await cipher.decrypt('plain-name.txt')).toBeNull();
+    expect(cipher.peek('plain-name.txt')).toBeNull();
+  });
+});
@@ -0,0 +1,406 @@
+/**
+ * 加密文件格式
+ *
+ * 文件 = 文件头 + 若干加密段。每段明文 64 KiB，使用 AES-256-GCM 单独加密（附 16 字节认证标签），
+ * 任意明文范围只需读取并解密所在的段即可，分片上传时每个分片也能独立加密。
+ *
+ * 文件头（44 字节）：
+ *   magic "WPZE" | 版本 u8 | 派生函数 u8 | 保留 u16 | 段大小 u32 | 派生成本 u32 | 盐 16 字节 | 基础 nonce 12 字节
+ *
+ * 每个文件的内容密钥由主密钥和文件头中的盐通过 HKDF 派生；第 i 段的 nonce 为基础 nonce 末 4 字节异或 i，
+ * 最后一段的附加数据标记为结束段，防止截断
+ */
+
+import type { KeyDerivationFunction } from './KeyDerivation';
+
+export const HEADER_SIZE = 44;
+export const SEGMENT_SIZE = 64 * 1024;
+export const TAG_SIZE = 16;
+export const FORMAT_VERSION = 1;
+
+const MAGIC = [0x57, 0x50, 0x5a, 0x45]; // "WPZE"
+const SALT_SIZE = 16;
+const NONCE_SIZE = 12;
+const KDF_IDS: KeyDerivationFunction[] = ['PBKDF2', 'Scrypt', 'Argon2'];
+
+/**
+ * 加密文件头
+ */
+export interface IEncryptionHeader {
+  version: number;               // 格式版本
+  kdf: KeyDerivationFunction;    // 加密时使用的派生函数
+  cost: number;                  // 加密时使用的派生成本
+  segmentSize: number;           // 明文段大小
+  salt: Uint8Array;              // 内容密钥盐
+  nonce: Uint8Array;             // 基础 nonce
+}
+
+// ============================================
+// 文件头
+// ============================================
+
+/**
+ * 为新文件生成文件头（随机盐和 nonce）
+ */
+export function createHeader(kdf: KeyDerivationFunction, cost: number): IEncryptionHeader {
+  return {
+    version: FORMAT_VERSION,
+    kdf,
+    cost,
+    segmentSize: SEGMENT_SIZE,
+    salt: crypto.getRandomValues(new Uint8Array(SALT_SIZE)),
+    nonce: crypto.getRandomValues(new Uint8Array(NONCE_SIZE)),
+  };
+}
+
+export function encodeHeader(header: IEncryptionHeader): Uint8Array {
+  const bytes = new Uint8Array(HEADER_SIZE);
+  const view = new DataView(bytes.buffer);
+
+  bytes.set(MAGIC, 0);
+  view.setUint8(4, header.version);
+  view.setUint8(5, KDF_IDS.indexOf(header.kdf) + 1);
+  view.setUint32(8, header.segmentSize);
+  view.setUint32(12, header.cost);
+  bytes.set(header.salt, 16);
+  bytes.set(header.nonce, 16 + SALT_SIZE);
+
+  return bytes;
+}
+
+export function parseHeader(bytes: Uint8Array): IEncryptionHeader {
+  if (bytes.length < HEADER_SIZE || MAGIC.some((byte, i) => bytes[i] !== byte)) {
+    throw new Error('Not an encrypted file');
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, HEADER_SIZE);
+  const version = view.getUint8(4);
+  if (version !== FORMAT_VERSION) {
+    throw new Error(`Unsupported encryption format version: ${version}`);
+  }
+
+  const kdf = KDF_IDS[view.getUint8(5) - 1];
+  const segmentSize = view.getUint32(8);
+  if (!kdf || segmentSize !== SEGMENT_SIZE) {
+    throw new Error('Corrupted encryption header');
+  }
+
+  return {
+    version,
+    kdf,
+    cost: view.getUint32(12),
+    segmentSize,
+    salt: bytes.slice(16, 16 + SALT_SIZE),
+    nonce: bytes.slice(16 + SALT_SIZE, HEADER_SIZE),
+  };
+}
+
+// ============================================
+// 大小与范围换算
+// ============================================
+
+/**
+ * 明文段数（空文件也有一个空的结束段）
+ */
+export function getSegmentCount(plainSize: number): number {
+  return Math.max(1, Math.ceil(plainSize / SEGMENT_SIZE));
+}
+
+export function getEncryptedSize(plainSize: number): number {
+  return HEADER_SIZE + plainSize + getSegmentCount(plainSize) * TAG_SIZE;
+}
+
+export function getPlainSize(encryptedSize: number): number {
+  const body = Math.max(0, encryptedSize - HEADER_SIZE);
+  const fullSegments = Math.floor(body / (SEGMENT_SIZE + TAG_SIZE));
+  const remainder = body % (SEGMENT_SIZE + TAG_SIZE);
+  return fullSegments * SEGMENT_SIZE + Math.max(0, remainder - TAG_SIZE);
+}
+
+/**
+ * 明文偏移对应的密文偏移（偏移必须位于段边界）
+ */
+export function getEncryptedOffset(plainOffset: number): number {
+  if (plainOffset % SEGMENT_SIZE !== 0) {
+    throw new Error(`Offset ${plainOffset} is not aligned to the encryption segment size`);
+  }
+  return plainOffset === 0 ? 0 : HEADER_SIZE + (plainOffset / SEGMENT_SIZE) * (SEGMENT_SIZE + TAG_SIZE);
+}
+
+/**
+ * 明文范围（闭区间）需要读取的密文范围
+ */
+export function getEncryptedRange(
+  range: { start: number; end: number },
+  encryptedSize: number
+): { start: number; end: number; firstSegment: number; lastSegment: number } {
+  const firstSegment = Math.floor(range.start / SEGMENT_SIZE);
+  const lastSegment = Math.floor(range.end / SEGMENT_SIZE);
+
+  return {
+    start: HEADER_SIZE + firstSegment * (SEGMENT_SIZE + TAG_SIZE),
+    end: Math.min(HEADER_SIZE + (lastSegment + 1) * (SEGMENT_SIZE + TAG_SIZE), encryptedSize) - 1,
+    firstSegment,
+    lastSegment,
+  };
+}
+
+/**
+ * 将分片大小向下对齐到段大小（至少一段）
+ */
+export function alignToSegments(size: number): number {
+  return Math.max(SEGMENT_SIZE, size - (size % SEGMENT_SIZE));
+}
+
+// ============================================
+// 内容加解密
+// ============================================
+
+/**
+ * 加密一段连续明文（起点位于段边界）
+ * @param firstSegment - 起始段序号
+ * @param final - 数据是否包含文件的最后一段
+ */
+export async function encryptSegments(
+  key: CryptoKey,
+  header: IEncryptionHeader,
+  data: Blob,
+  firstSegment: number,
+  final: boolean
+): Promise<Blob> {
+  const count = data.size === 0 ? 1 : Math.ceil(data.size / SEGMENT_SIZE);
+  const parts: ArrayBuffer[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const plain = await data.slice(i * SEGMENT_SIZE, (i + 1) * SEGMENT_SIZE).arrayBuffer();
+    parts.push(await crypto.subtle.encrypt(
+      segmentParams(header, firstSegment + i, final && i === count - 1),
+      key,
+      plain
+    ));
+  }
+
+  return new Blob(parts, { type: 'application/octet-stream' });
+}
+
+/**
+ * 创建解密转换流：输入从某段起点开始的密文，输出对应明文
+ * @param firstSegment - 输入的第一段序号
+ * @param endsWithFinal - 输入的最后一段是否为文件的结束段
+ */
+export function createDecryptStream(
+  key: CryptoKey,
+  header: IEncryptionHeader,
+  firstSegment: number,
+  endsWithFinal: boolean
+): TransformStream<Uint8Array, Uint8Array> {
+  const encryptedSegmentSize = header.segmentSize + TAG_SIZE;
+  let pending = new Uint8Array(0);
+  let index = firstSegment;
+
+  const decrypt = async (segment: Uint8Array, final: boolean) => {
+    try {
+      return new Uint8Array(await crypto.subtle.decrypt(segmentParams(header, index++, final), key, segment));
+    } catch {
+      throw new Error('Failed to decrypt file: wrong passphrase or corrupted data');
+    }
+  };
+
+  return new TransformStream({
+    async transform(chunk, controller) {
+      pending = concat(pending, chunk);
+      // 保留最后一段到 flush，才能判断是否为结束段
+      while (pending.length > encryptedSegmentSize) {
+        controller.enqueue(await decrypt(pending.subarray(0, encryptedSegmentSize), false));
+        pending = pending.slice(encryptedSegmentSize);
+      }
+    },
+    async flush(controller) {
+      if (pending.length === 0) {
+        throw new Error('Encrypted data is truncated');
+      }
+      controller.enqueue(await decrypt(pending, endsWithFinal));
+    },
+  });
+}
+
+/**
+ * 截取数据流：跳过 skip 字节后输出 length 字节
+ */
+export function createSliceStream(skip: number, length: number): TransformStream<Uint8Array, Uint8Array> {
+  let position = 0;
+
+  return new TransformStream({
+    transform(chunk, controller) {
+      const start = Math.max(0, skip - position);
+      const end = Math.min(chunk.length, skip + length - position);
+      position += chunk.length;
+      if (end > start) {
+        controller.enqueue(chunk.subarray(start, end));
+      }
+    },
+  });
+}
+
+function segmentParams(header: IEncryptionHeader, index: number, final: boolean): AesGcmParams {
+  const iv = header.nonce.slice();
+  const view = new DataView(iv.buffer);
+  view.setUint32(NONCE_SIZE - 4, view.getUint32(NONCE_SIZE - 4) ^ index);
+
+  return {
+    name: 'AES-GCM',
+    iv,
+    additionalData: new Uint8Array([final ? 1 : 0]),
+    tagLength: TAG_SIZE * 8,
+  };
+}
+
+function concat(a: Uint8Array, b: Uint8Array): Uint8Array {
+  if (a.length === 0) {
+    return b;
+  }
+  const out = new Uint8Array(a.length + b.length);
+  out.set(a);
+  out.set(b, a.length);
+  return out;
+}
+
+// ============================================
+// 文件名加解密
+// ============================================
+
+const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567';
+
+/**
+ * 文件名加密
+ * 相同名称总是得到相同密文（nonce 由名称的 HMAC 派生），以便按名称查找和检测冲突；
+ * 使用小写 base32 编码，兼容不区分大小写的存储
+ */
+export class NameCipher {
+  private encrypted: Map<string, string> = new Map();
+  private decrypted: Map<string, string | null> = new Map();
+
+  constructor(
+    private key: CryptoKey,      // AES-GCM 密钥
+    private ivKey: CryptoKey     // HMAC-SHA256 密钥
+  ) {}
+
+  async encrypt(name: string): Promise<string> {
+    const cached = this.encrypted.get(name);
+    if (cached) {
+      return cached;
+    }
+
+    const plain = new TextEncoder().encode(name);
+    const iv = new Uint8Array(await crypto.subtle.sign('HMAC', this.ivKey, plain)).slice(0, NONCE_SIZE);
+    const cipher = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, this.key, plain));
+
+    const encoded = encodeBase32(concat(iv, cipher));
+    this.remember(name, encoded);
+    return encoded;
+  }
+
+  /**
+   * 解密文件名，不是本密钥加密的名称返回 null
+   */
+  async decrypt(encoded: string): Promise<string | null> {
+    if (this.decrypted.has(encoded)) {
+      return this.decrypted.get(encoded)!;
+    }
+
+    let name: string | null = null;
+    const bytes = decodeBase32(encoded);
+    if (bytes && bytes.length > NONCE_SIZE + TAG_SIZE) {
+      try {
+        const plain = await crypto.subtle.decrypt(
+          { name: 'AES-GCM', iv: bytes.subarray(0, NONCE_SIZE) },
+          this.key,
+          bytes.subarray(NONCE_SIZE)
+        );
+        name = new TextDecoder().decode(plain);
+      } catch {
+        name = null;
+      }
+    }
+
+    if (name === null) {
+      this.decrypted.set(encoded, null);
+    } else {
+      this.remember(name, encoded);
+    }
+    return name;
+  }
+
+  /**
+   * 同步读取已解密过的名称（未解密过或无法解密时返回 undefined/null）
+   */
+  peek(encoded: string): string | null | undefined {
+    return this.decrypted.get(encoded);
+  }
+
+  /**
+   * 名称形如加密名称但无法解密（口令错误或由其他密钥加密）
+   */
+  isForeign(name: string): boolean {
+    const bytes = this.decrypted.get(name) === null ? decodeBase32(name) : null;
+    return !!bytes && bytes.length > NONCE_SIZE + TAG_SIZE;
+  }
+
+  /**
+   * 名称是否已确认不是加密名称（如根路径前缀）
+   */
+  isPlain(name: string): boolean {
+    return this.decrypted.get(name) === null;
+  }
+
+  clear(): void {
+    this.encrypted.clear();
+    this.decrypted.clear();
+  }
+
+  private remember(name: string, encoded: string): void {
+    this.encrypted.set(name, encoded);
+    this.decrypted.set(encoded, name);
+  }
+}
+
+function encodeBase32(bytes: Uint8Array): string {
+  let output = '';
+  let buffer = 0;
+  let bits = 0;
+
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(buffer >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(buffer << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+function decodeBase32(text: string): Uint8Array | null {
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+
+  for (const char of text) {
+    const value = BASE32_ALPHABET.indexOf(char);
+    if (value < 0) {
+      return null;
+    }
+    buffer = (buffer << 5) | value;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((buffer >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+
+  return new Uint8Array(bytes);
+}
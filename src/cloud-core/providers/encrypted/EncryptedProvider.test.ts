@@ -0,0 +1,70 @@
+import { describe, it, expect, vi } from 'vitest';
+import { EncryptedProvider } from './EncryptedProvider';
+import { SEGMENT_SIZE, getEncryptedSize } from './ContentCipher';
+import { IChunkInfo, IUploadOptions, TransferStatus } from '../base';
+import { MemoryProvider, IMemoryProviderOptions } from '../../testing/MemoryProvider';
+
+const createProviders = (options: IMemoryProviderOptions = {}) => {
+  const inner = new MemoryProvider(options);
+  const provider = new EncryptedProvider(inner.asProvider(), {
+    passphrase: 'correct horse battery staple',
+    salt: 'test',
+    encryption: { iterations: 1000 },
+    encryptFileNames: false,
+  });
+  return { inner, provider };
+};
+
+const createFile = (size: number) =>
+  new File([Uint8Array.from({ length: size }, (_, i) => (i * 7) % 256)], 'secret.bin');
+
+const uploadOptions = { fileName: 'secret.bin', targetPath: '/', chunkSize: SEGMENT_SIZE } as IUploadOptions;
+
+/**
+ * 读取解密后的完整内容
+ */
+const readPlain = async (provider: EncryptedProvider, fileId: string) =>
+  new Uint8Array(await new Response(await provider.openDownloadStream(fileId)).arrayBuffer());
+
+describe('EncryptedProvider', () => {
+  it('分片上传时被包装的提供商收到密文大小的真实文件', async () => {
+    const { inner, provider } = createProviders();
+    const initChunkUpload = vi.spyOn(inner, 'initChunkUpload');
+    const file = createFile(2 * SEGMENT_SIZE + 100);
+
+    const session = await provider.initChunkUpload(file, uploadOptions);
+    const placeholder = initChunkUpload.mock.calls[0][0];
+    expect(placeholder).toBeInstanceOf(File);
+    expect(placeholder.size).toBe(getEncryptedSize(file.size));
+    expect((placeholder as File).name).toBe('secret.bin.enc');
+    expect(session.chunkSize).toBe(SEGMENT_SIZE);
+
+    const chunks = [0, 1, 2].map(index => ({
+      index,
+      offset: index * SEGMENT_SIZE,
+      size: Math.min(SEGMENT_SIZE, file.size - index * SEGMENT_SIZE),
+      status: TransferStatus.PENDING,
+    }) as IChunkInfo);
+    for (const chunk of chunks) {
+      await provider.uploadChunk(session, chunk, file.slice(chunk.offset, chunk.offset + chunk.size));
+    }
+    const item = await provider.completeChunkUpload(session, chunks);
+
+    expect(inner.files.get('secret.bin.enc')!.data.length).toBe(getEncryptedSize(file.size));
+    expect(await readPlain(provider, item.id)).toEqual(new Uint8Array(await file.arrayBuffer()));
+  });
+
+  it('需要预先读取分片哈希的提供商改为整文件加密上传', async () => {
+    const { inner, provider } = createProviders({ chunkHashesUpFront: true });
+    const file = createFile(SEGMENT_SIZE + 10);
+
+    expect(provider.capabilities.supports.chunkUpload).toBe(false);
+    await expect(provider.initChunkUpload(file, uploadOptions)).rejects.toThrow('does not support chunked upload');
+    expect(inner.calls.initChunkUpload).toBe(0);
+
+    const task = await provider.uploadFile(file, uploadOptions);
+    expect(task.fileName).toBe('secret.bin');
+    expect(inner.files.get('secret.bin.enc')!.data.length).toBe(getEncryptedSize(file.size));
+    expect(await readPlain(provider, task.destination.fileId!)).toEqual(new Uint8Array(await file.arrayBuffer()));
+  });
+});
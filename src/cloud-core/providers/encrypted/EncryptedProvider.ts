@@ -0,0 +1,1069 @@
+/**
+ * 客户端加密提供商
+ * 包装任意 IStorageProvider，文件内容在浏览器中按段加密后再上传，可选加密文件名和文件夹名，
+ * 存储端只能看到密文；分段加密使分片上传、范围下载和断点续传照常可用
+ */
+
+import { BaseStorageProvider } from '../base/BaseStorageProvider';
+import {
+  IStorageProvider,
+  IListFilesOptions,
+  IUploadOptions,
+  IDownloadOptions,
+  ISearchOptions,
+  IShareOptions,
+  IFileWatchCallbacks,
+  IChunkUploadSession,
+  IChunkUploadResult,
+  ProviderEventType,
+  IProviderEvent,
+} from '../base/IStorageProvider';
+import {
+  IFileItem,
+  IFileListResponse,
+  ISearchResult,
+  IBatchOperationResult,
+  IFileStatistics,
+  IThumbnail,
+  IPreviewInfo,
+  IFileVersion,
+  FileType,
+} from '../base/IFileItem';
+import { IProviderConfig, IEncryptionConfig, IStorageQuota, ProviderStatus } from '../base/IProviderConfig';
+import { ITransferTask, IChunkInfo, TransferType, TransferStatus } from '../base/ITransferOptions';
+import { IProviderCapabilities } from '../base/IProviderCapabilities';
+import { LRUCache } from '../../cache/LRUCache';
+import { createDownloadSink } from '../../transfer/DownloadSink';
+import { hexToBytes } from '../../transfer/HashAlgorithms';
+import { deriveKeyMaterial, DEFAULT_KDF_COST, KeyDerivationFunction } from './KeyDerivation';
+import {
+  IEncryptionHeader,
+  NameCipher,
+  HEADER_SIZE,
+  SEGMENT_SIZE,
+  TAG_SIZE,
+  createHeader,
+  encodeHeader,
+  parseHeader,
+  getSegmentCount,
+  getEncryptedOffset,
+  getEncryptedRange,
+  getPlainSize,
+  alignToSegments,
+  encryptSegments,
+  createDecryptStream,
+  createSliceStream,
+} from './ContentCipher';
+
+/**
+ * 加密提供商选项
+ */
+export interface IEncryptedProviderOptions {
+  passphrase: string;            // 口令（不会写入配置）
+  encryption?: Partial<IEncryptionConfig>; // 加密配置（默认取被包装提供商的 config.encryption）
+  encryptFileNames?: boolean;    // 是否加密文件名和文件夹名（默认 true）
+  salt?: string;                 // 主密钥派生盐（默认使用存储根目录密钥文件中的随机盐），访问同一存储的所有客户端必须一致
+}
+
+/**
+ * 未加密文件名时，加密文件使用的后缀
+ */
+export const ENCRYPTED_FILE_SUFFIX = '.enc';
+
+/**
+ * 分片 ETag 前缀：存储端返回的是密文的 MD5，不能与明文分片的 MD5 比对
+ */
+const ETAG_PREFIX = 'enc:';
+
+/**
+ * 上传会话中保存加密状态的字段
+ */
+const SESSION_KEY = 'encryption';
+
+/**
+ * 存储根目录中保存主密钥派生盐的密钥文件（明文名称，删除后已加密的数据无法解密）
+ */
+export const ENCRYPTION_KEY_FILE = '.wpzs-encryption.json';
+
+/**
+ * 密钥文件中随机盐的字节数
+ */
+const STORE_SALT_SIZE = 32;
+
+/**
+ * 密钥文件内容
+ */
+interface IEncryptionKeyFile {
+  version: number;               // 格式版本
+  salt: string;                  // 主密钥派生盐（十六进制）
+}
+
+/**
+ * 分片上传会话中的加密状态（可持久化，恢复上传时重新派生密钥）
+ */
+interface IEncryptedSessionState {
+  header: string;                // 文件头（十六进制）
+  size: number;                  // 明文大小
+  chunkSize?: number;            // 被包装提供商返回的分片大小
+}
+
+/**
+ * 客户端加密提供商
+ */
+export class EncryptedProvider extends BaseStorageProvider {
+  private inner: IStorageProvider;
+  private passphrase: string;
+  private salt?: string;
+  private kdf: KeyDerivationFunction;
+  private cost: number;
+  private encryptFileNames: boolean;
+
+  private masterKey?: Promise<CryptoKey>;
+  private nameCipher?: Promise<NameCipher>;
+  private readyNames?: NameCipher;  // 已就绪的文件名解密器（供同步方法使用）
+  private fileKeys = new LRUCache<string, Promise<CryptoKey>>({ maxSize: 256 });
+  private headers = new LRUCache<string, IEncryptionHeader>({ maxSize: 1024 });
+
+  constructor(inner: IStorageProvider, options: IEncryptedProviderOptions) {
+    const encryption = resolveEncryptionConfig(inner.config.encryption, options.encryption);
+    const encryptFileNames = options.encryptFileNames ?? true;
+
+    super(
+      `${inner.id}:encrypted`,
+      `${inner.name}（加密）`,
+      inner.type,
+      { ...inner.config, encryption },
+      getEncryptedCapabilities(inner.capabilities, encryptFileNames)
+    );
+
+    if (!options.passphrase) {
+      throw new Error('Encryption passphrase is required');
+    }
+
+    this.inner = inner;
+    this.passphrase = options.passphrase;
+    this.salt = options.salt;
+    this.kdf = encryption.keyDerivation;
+    this.cost = encryption.iterations;
+    this.encryptFileNames = encryptFileNames;
+  }
+
+  /**
+   * 被包装的提供商
+   */
+  get innerProvider(): IStorageProvider {
+    return this.inner;
+  }
+
+  get status(): ProviderStatus {
+    return this.inner.status;
+  }
+
+  public on(event: ProviderEventType, callback: (event: IProviderEvent) => void): void {
+    this.inner.on(event, callback);
+  }
+
+  public off(event: ProviderEventType, callback: (event: IProviderEvent) => void): void {
+    this.inner.off(event, callback);
+  }
+
+  // ============================================
+  // 初始化和连接
+  // ============================================
+
+  async initialize(): Promise<void> {
+    await this.inner.initialize();
+  }
+
+  async connect(): Promise<void> {
+    await this.inner.connect();
+  }
+
+  async disconnect(): Promise<void> {
+    await this.inner.disconnect();
+  }
+
+  async testConnection(): Promise<boolean> {
+    return this.inner.testConnection();
+  }
+
+  async refreshAuth(): Promise<void> {
+    await this.inner.refreshAuth();
+  }
+
+  // ============================================
+  // 文件操作
+  // ============================================
+
+  async listFiles(options?: IListFilesOptions): Promise<IFileListResponse> {
+    const response = await this.inner.listFiles(
+      options && { ...options, path: await this.encodePath(options.path) }
+    );
+    const files = response.files.filter(file => !isKeyFile(file));
+    return { ...response, files: await Promise.all(files.map(file => this.toPlainItem(file))) };
+  }
+
+  async getFileInfo(fileId: string): Promise<IFileItem> {
+    return this.toPlainItem(await this.inner.getFileInfo(fileId));
+  }
+
+  public async getFilesInfo(fileIds: string[]): Promise<IFileItem[]> {
+    const files = await this.inner.getFilesInfo(fileIds);
+    return Promise.all(files.map(file => this.toPlainItem(file)));
+  }
+
+  async createFolder(name: string, parentId: string): Promise<IFileItem> {
+    return this.toPlainItem(await this.inner.createFolder(await this.encodeName(name, true), parentId));
+  }
+
+  async renameFile(fileId: string, newName: string): Promise<IFileItem> {
+    const file = await this.inner.getFileInfo(fileId);
+    return this.toPlainItem(await this.inner.renameFile(fileId, await this.encodeNameLike(file, newName)));
+  }
+
+  async moveFile(fileId: string, targetParentId: string): Promise<IFileItem> {
+    return this.toPlainItem(await this.inner.moveFile(fileId, targetParentId));
+  }
+
+  async copyFile(fileId: string, targetParentId: string, newName?: string): Promise<IFileItem> {
+    const name = newName === undefined
+      ? undefined
+      : await this.encodeNameLike(await this.inner.getFileInfo(fileId), newName);
+    return this.toPlainItem(await this.inner.copyFile(fileId, targetParentId, name));
+  }
+
+  async deleteFile(fileId: string, permanent?: boolean): Promise<void> {
+    await this.inner.deleteFile(fileId, permanent);
+  }
+
+  public async deleteFiles(fileIds: string[]): Promise<IBatchOperationResult> {
+    return this.inner.deleteFiles(fileIds);
+  }
+
+  public async emptyTrash(): Promise<void> {
+    await this.inner.emptyTrash();
+  }
+
+  public async restoreFile(fileId: string): Promise<IFileItem> {
+    return this.toPlainItem(await this.inner.restoreFile(fileId));
+  }
+
+  // ============================================
+  // 搜索（文件名加密时存储端无法按名称搜索）
+  // ============================================
+
+  async searchFiles(options: ISearchOptions): Promise<ISearchResult> {
+    if (this.encryptFileNames) {
+      throw new Error('Search is not available when file names are encrypted');
+    }
+    const result = await this.inner.searchFiles(options);
+    return { ...result, files: await Promise.all(result.files.map(file => this.toPlainItem(file))) };
+  }
+
+  public async getSearchSuggestions(query: string): Promise<string[]> {
+    return this.encryptFileNames ? [] : this.inner.getSearchSuggestions(query);
+  }
+
+  // ============================================
+  // 上传
+  // ============================================
+
+  /**
+   * 整文件上传：在内存中加密后交给被包装的提供商
+   */
+  async uploadFile(file: File | Blob, options: IUploadOptions): Promise<ITransferTask> {
+    const header = createHeader(this.kdf, this.cost);
+    const key = await this.getFileKey(header);
+    const encrypted = new Blob(
+      [encodeHeader(header), await encryptSegments(key, header, file, 0, true)],
+      { type: 'application/octet-stream' }
+    );
+
+    const task = await this.inner.uploadFile(encrypted, await this.toInnerUploadOptions(options));
+    return { ...task, fileName: options.fileName };
+  }
+
+  /**
+   * 创建分片上传会话：分片大小对齐到加密段，加密状态随会话保存以便恢复
+   */
+  async initChunkUpload(file: File | Blob, options: IUploadOptions): Promise<IChunkUploadSession> {
+    if (!this.inner.initChunkUpload || !this.capabilities.supports.chunkUpload) {
+      throw new Error(`Provider ${this.inner.name} does not support chunked upload`);
+    }
+
+    const header = createHeader(this.kdf, this.cost);
+    const chunkSize = alignToSegments(options.chunkSize || this.capabilities.performance.recommendedChunkSize);
+    const innerOptions = await this.toInnerUploadOptions({ ...options, chunkSize });
+
+    // 密文在上传分片时才逐段生成，创建会话时交给被包装的提供商的文件只有大小、类型和名称与密文一致；
+    // 需要预先读取内容的提供商不支持加密分片上传（见 getEncryptedCapabilities）
+    const placeholder = new File(
+      [encodeHeader(header), file, new Uint8Array(getSegmentCount(file.size) * TAG_SIZE)],
+      innerOptions.fileName,
+      { type: 'application/octet-stream', lastModified: (file as File).lastModified ?? Date.now() }
+    );
+    const session = await this.inner.initChunkUpload(placeholder, innerOptions);
+
+    const state: IEncryptedSessionState = {
+      header: toHex(encodeHeader(header)),
+      size: file.size,
+      chunkSize: session.chunkSize,
+    };
+
+    return {
+      ...session,
+      chunkSize: alignToSegments(session.chunkSize ?? chunkSize),
+      metadata: { ...session.metadata, [SESSION_KEY]: state },
+    };
+  }
+
+  async uploadChunk(
+    session: IChunkUploadSession,
+    chunk: IChunkInfo,
+    data: Blob,
+    signal?: AbortSignal
+  ): Promise<IChunkUploadResult> {
+    const state = this.getSessionState(session);
+    const innerChunk = this.toInnerChunk(chunk);
+    const header = parseHeader(hexToBytes(state.header));
+    const key = await this.getFileKey(header);
+
+    const encrypted = await encryptSegments(
+      key,
+      header,
+      data,
+      chunk.offset / SEGMENT_SIZE,
+      chunk.offset + chunk.size >= state.size
+    );
+    const body = chunk.offset === 0 ? new Blob([encodeHeader(header), encrypted]) : encrypted;
+
+    const result = await this.inner.uploadChunk!(this.toInnerSession(session), innerChunk, body, signal);
+    return { ...result, etag: result.etag && `${ETAG_PREFIX}${result.etag}` };
+  }
+
+  async completeChunkUpload(session: IChunkUploadSession, chunks: IChunkInfo[]): Promise<IFileItem> {
+    this.getSessionState(session);
+    const file = await this.inner.completeChunkUpload!(
+      this.toInnerSession(session),
+      chunks.map(chunk => this.toInnerChunk(chunk))
+    );
+    return this.toPlainItem(file);
+  }
+
+  async abortChunkUpload(session: IChunkUploadSession): Promise<void> {
+    await this.inner.abortChunkUpload?.(this.toInnerSession(session));
+  }
+
+  public async getUploadUrl(): Promise<{ uploadUrl: string; fileId?: string; headers?: Record<string, string> }> {
+    throw new Error('Direct upload URLs are not available for encrypted storage');
+  }
+
+  // ============================================
+  // 下载
+  // ============================================
+
+  /**
+   * 打开解密后的读取流，范围按明文计算
+   */
+  async openDownloadStream(
+    fileId: string,
+    range?: { start: number; end: number },
+    signal?: AbortSignal
+  ): Promise<ReadableStream<Uint8Array>> {
+    const file = await this.inner.getFileInfo(fileId);
+    if (!(await this.isEncryptedFile(file))) {
+      // 不能把其他密钥加密的文件当作普通文件返回密文
+      if (this.encryptFileNames && (await this.getNameCipher()).isForeign(file.name)) {
+        throw new Error('Failed to decrypt file name: wrong passphrase or corrupted data');
+      }
+      return this.readInner(fileId, range, signal);
+    }
+
+    const header = await this.readHeader(file, signal);
+    const key = await this.getFileKey(header);
+
+    if (!range) {
+      const stream = await this.readInner(fileId, { start: HEADER_SIZE, end: file.size - 1 }, signal);
+      return stream.pipeThrough(createDecryptStream(key, header, 0, true));
+    }
+
+    const plainSize = getPlainSize(file.size);
+    const end = Math.min(range.end, plainSize - 1);
+    if (range.start < 0 || range.start > end) {
+      throw new Error(`Invalid range ${range.start}-${range.end} for ${plainSize} bytes`);
+    }
+
+    const encryptedRange = getEncryptedRange({ start: range.start, end }, file.size);
+    const stream = await this.readInner(fileId, encryptedRange, signal);
+
+    return stream
+      .pipeThrough(createDecryptStream(
+        key,
+        header,
+        encryptedRange.firstSegment,
+        encryptedRange.lastSegment === getSegmentCount(plainSize) - 1
+      ))
+      .pipeThrough(createSliceStream(range.start - encryptedRange.firstSegment * SEGMENT_SIZE, end - range.start + 1));
+  }
+
+  /**
+   * 下载文件（边解密边写入保存位置）
+   */
+  async downloadFile(fileId: string, options?: IDownloadOptions): Promise<ITransferTask> {
+    const fileInfo = await this.getFileInfo(fileId);
+    const range = options?.range;
+    const size = range ? range.end - range.start + 1 : fileInfo.size;
+
+    const task = this.createTransferTask(
+      TransferType.DOWNLOAD,
+      fileInfo.name,
+      size,
+      { providerId: this.id, path: fileInfo.path, fileId },
+      { providerId: 'local', path: '/' },
+      options || {} as any
+    );
+
+    task.status = TransferStatus.ACTIVE;
+    task.startedAt = new Date();
+
+    const sink = await createDownloadSink({
+      fileName: fileInfo.name,
+      size,
+      mimeType: fileInfo.mimeType,
+      fileHandle: options?.saveHandle,
+    });
+
+    try {
+      const reader = (await this.openDownloadStream(fileId, range)).getReader();
+      let transferred = 0;
+
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+
+        await sink.write(value);
+        transferred += value.length;
+
+        task.progress.transferred = transferred;
+        task.progress.percentage = size > 0 ? (transferred / size) * 100 : 100;
+        options?.onProgress?.(task.progress);
+      }
+
+      await sink.close();
+
+      task.status = TransferStatus.COMPLETED;
+      task.completedAt = new Date();
+      task.result = { success: true, fileId, filePath: fileInfo.path };
+    } catch (error) {
+      await sink.abort().catch(() => undefined);
+      task.status = TransferStatus.FAILED;
+      task.error = error as Error;
+      throw error;
+    }
+
+    return task;
+  }
+
+  /**
+   * 获取下载URL（加密文件的直链只能得到密文）
+   */
+  public async getDownloadUrl(fileId: string, expiresIn?: number): Promise<string> {
+    await this.assertPlainFile(fileId);
+    return this.inner.getDownloadUrl(fileId, expiresIn);
+  }
+
+  // ============================================
+  // 缩略图和预览（存储端无法处理密文，仅未加密文件可用）
+  // ============================================
+
+  public async getThumbnail(fileId: string, size?: number): Promise<IThumbnail> {
+    await this.assertPlainFile(fileId);
+    return this.inner.getThumbnail(fileId, size);
+  }
+
+  public async getPreviewInfo(fileId: string): Promise<IPreviewInfo> {
+    await this.assertPlainFile(fileId);
+    return this.inner.getPreviewInfo(fileId);
+  }
+
+  public async getPreviewUrl(fileId: string): Promise<string> {
+    await this.assertPlainFile(fileId);
+    return this.inner.getPreviewUrl(fileId);
+  }
+
+  // ============================================
+  // 共享和协作
+  // ============================================
+
+  public async createShare(options: IShareOptions): Promise<{ shareId: string; shareUrl: string; expiresAt?: Date }> {
+    return this.inner.createShare(options);
+  }
+
+  public async getShareInfo(fileId: string): Promise<any> {
+    return this.inner.getShareInfo(fileId);
+  }
+
+  public async updateShare(shareId: string, updates: any): Promise<void> {
+    await this.inner.updateShare(shareId, updates);
+  }
+
+  public async deleteShare(shareId: string): Promise<void> {
+    await this.inner.deleteShare(shareId);
+  }
+
+  public async addCollaborator(fileId: string, collaborator: any): Promise<void> {
+    await this.inner.addCollaborator(fileId, collaborator);
+  }
+
+  public async removeCollaborator(fileId: string, userId: string): Promise<void> {
+    await this.inner.removeCollaborator(fileId, userId);
+  }
+
+  public async listCollaborators(fileId: string): Promise<any[]> {
+    return this.inner.listCollaborators(fileId);
+  }
+
+  // ============================================
+  // 版本控制
+  // ============================================
+
+  public async getFileVersions(fileId: string): Promise<IFileVersion[]> {
+    return this.inner.getFileVersions(fileId);
+  }
+
+  public async getFileVersion(fileId: string, versionId: string): Promise<IFileVersion> {
+    return this.inner.getFileVersion(fileId, versionId);
+  }
+
+  public async restoreFileVersion(fileId: string, versionId: string): Promise<void> {
+    await this.inner.restoreFileVersion(fileId, versionId);
+  }
+
+  public async deleteFileVersion(fileId: string, versionId: string): Promise<void> {
+    await this.inner.deleteFileVersion(fileId, versionId);
+  }
+
+  // ============================================
+  // 存储配额和文件监视
+  // ============================================
+
+  async getStorageQuota(): Promise<IStorageQuota> {
+    return this.inner.getStorageQuota();
+  }
+
+  public async getFileStatistics(folderId?: string): Promise<IFileStatistics> {
+    return this.inner.getFileStatistics(folderId);
+  }
+
+  public watchFiles(folderId: string, callbacks: IFileWatchCallbacks): () => void {
+    const decrypted = (callback?: (file: IFileItem) => void) => callback && ((file: IFileItem) => {
+      this.toPlainItem(file).then(callback).catch(error => callbacks.onError?.(error));
+    });
+
+    return this.inner.watchFiles(folderId, {
+      ...callbacks,
+      onCreated: decrypted(callbacks.onCreated),
+      onUpdated: decrypted(callbacks.onUpdated),
+    });
+  }
+
+  // ============================================
+  // 实用方法
+  // ============================================
+
+  /**
+   * 标准化文件项（同步方法，只能使用已解密过的文件名）
+   */
+  normalizeFile(rawFile: any): IFileItem {
+    const file = this.inner.normalizeFile(rawFile);
+    const isFolder = file.type === FileType.FOLDER;
+
+    if (!this.encryptFileNames) {
+      return this.applyPlainName(file, this.decodeSuffix(file.name, isFolder), file.path);
+    }
+
+    const names = this.readyNames;
+    const name = names?.peek(file.name);
+    const path = file.path.split('/').map(part => names?.peek(part) ?? part).join('/');
+    return this.applyPlainName(file, name ?? null, path);
+  }
+
+  denormalizeFile(file: IFileItem): any {
+    return this.inner.denormalizeFile(file);
+  }
+
+  public async validateConfig(config: IProviderConfig): Promise<{ valid: boolean; errors?: string[] }> {
+    return this.inner.validateConfig(config);
+  }
+
+  public getFeature(feature: string): any {
+    // 服务端离线下载会绕过加密，以明文保存
+    if (feature === 'remoteFetch') {
+      throw new Error(`Feature '${feature}' not supported for encrypted storage`);
+    }
+    return this.inner.getFeature(feature);
+  }
+
+  /**
+   * 清理派生的密钥（被包装的提供商由其创建者清理）
+   */
+  public async cleanup(): Promise<void> {
+    this.masterKey = undefined;
+    this.nameCipher = undefined;
+    this.readyNames = undefined;
+    this.fileKeys.clear();
+    this.headers.clear();
+    await super.cleanup();
+  }
+
+  // ============================================
+  // 密钥
+  // ============================================
+
+  /**
+   * 主密钥：口令和存储的盐经配置的派生函数得到，只派生一次
+   */
+  private getMasterKey(): Promise<CryptoKey> {
+    if (!this.masterKey) {
+      this.masterKey = (async () => {
+        const salt = this.salt !== undefined
+          ? new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(this.salt)))
+          : await this.getStoreSalt();
+        const material = await deriveKeyMaterial(this.passphrase, salt, this.kdf, this.cost);
+        return crypto.subtle.importKey('raw', material, 'HKDF', false, ['deriveKey']);
+      })();
+      this.masterKey.catch(() => {
+        this.masterKey = undefined;
+      });
+    }
+    return this.masterKey;
+  }
+
+  /**
+   * 口令校验值：由主密钥派生，恢复任务时用于确认重新输入的口令与原任务一致
+   */
+  public async getKeyCheck(): Promise<string> {
+    const key = await this.deriveSubKey(new Uint8Array(0), 'key-check', { name: 'HMAC', hash: 'SHA-256', length: 256 }, ['sign']);
+    const mac = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode('key-check'));
+    return toHex(new Uint8Array(mac).subarray(0, 16));
+  }
+
+  /**
+   * 存储的随机盐：读取根目录的密钥文件，不存在时生成并写入
+   * 两个客户端同时初始化时以写入后读到的密钥文件为准
+   */
+  private async getStoreSalt(): Promise<Uint8Array> {
+    const existing = await this.readKeyFile();
+    if (existing) {
+      return existing;
+    }
+
+    const keyFile: IEncryptionKeyFile = {
+      version: 1,
+      salt: toHex(crypto.getRandomValues(new Uint8Array(STORE_SALT_SIZE))),
+    };
+    await this.inner.uploadFile(
+      new Blob([JSON.stringify(keyFile)], { type: 'application/json' }),
+      { fileName: ENCRYPTION_KEY_FILE, targetPath: '/', overwrite: false } as IUploadOptions
+    );
+
+    const stored = await this.readKeyFile();
+    if (!stored) {
+      throw new Error(`Failed to create encryption key file ${ENCRYPTION_KEY_FILE}`);
+    }
+    return stored;
+  }
+
+  /**
+   * 读取根目录的密钥文件
+   * @returns 密钥文件不存在时返回 undefined
+   */
+  private async readKeyFile(): Promise<Uint8Array | undefined> {
+    let cursor: string | undefined;
+    let file: IFileItem | undefined;
+
+    do {
+      const response = await this.inner.listFiles(cursor ? { cursor } : undefined);
+      file = response.files.find(isKeyFile);
+      cursor = response.hasMore ? response.nextCursor : undefined;
+    } while (!file && cursor);
+
+    if (!file) {
+      return undefined;
+    }
+
+    const content: Partial<IEncryptionKeyFile> = JSON.parse(await new Response(await this.readInner(file.id, undefined)).text());
+    if (content.version !== 1 || typeof content.salt !== 'string' || !/^([0-9a-f]{2}){16,}$/i.test(content.salt)) {
+      throw new Error(`Invalid encryption key file ${ENCRYPTION_KEY_FILE}`);
+    }
+    return hexToBytes(content.salt);
+  }
+
+  /**
+   * 文件内容密钥：由主密钥和文件头中的盐派生
+   */
+  private getFileKey(header: IEncryptionHeader): Promise<CryptoKey> {
+    if (header.kdf !== this.kdf || header.cost !== this.cost) {
+      return Promise.reject(new Error(
+        `File was encrypted with ${header.kdf} (cost ${header.cost}), current settings are ${this.kdf} (cost ${this.cost})`
+      ));
+    }
+
+    const id = toHex(header.salt);
+    let key = this.fileKeys.get(id);
+    if (!key) {
+      key = this.deriveSubKey(header.salt, 'content', { name: 'AES-GCM', length: 256 }, ['encrypt', 'decrypt']);
+      this.fileKeys.set(id, key);
+      key.catch(() => this.fileKeys.delete(id));
+    }
+    return key;
+  }
+
+  private getNameCipher(): Promise<NameCipher> {
+    if (!this.nameCipher) {
+      const salt = new Uint8Array(0);
+      this.nameCipher = Promise.all([
+        this.deriveSubKey(salt, 'name', { name: 'AES-GCM', length: 256 }, ['encrypt', 'decrypt']),
+        this.deriveSubKey(salt, 'name-iv', { name: 'HMAC', hash: 'SHA-256', length: 256 }, ['sign']),
+      ]).then(([key, ivKey]) => {
+        this.readyNames = new NameCipher(key, ivKey);
+        return this.readyNames;
+      });
+      this.nameCipher.catch(() => {
+        this.nameCipher = undefined;
+      });
+    }
+    return this.nameCipher;
+  }
+
+  private async deriveSubKey(
+    salt: Uint8Array,
+    info: string,
+    algorithm: AesKeyGenParams | HmacKeyGenParams,
+    usages: KeyUsage[]
+  ): Promise<CryptoKey> {
+    return crypto.subtle.deriveKey(
+      { name: 'HKDF', hash: 'SHA-256', salt, info: new TextEncoder().encode(info) },
+      await this.getMasterKey(),
+      algorithm,
+      false,
+      usages
+    );
+  }
+
+  // ============================================
+  // 文件名和文件项转换
+  // ============================================
+
+  /**
+   * 编码新建项目的名称
+   */
+  private async encodeName(name: string, isFolder: boolean): Promise<string> {
+    if (this.encryptFileNames) {
+      return (await this.getNameCipher()).encrypt(name);
+    }
+    return isFolder ? name : `${name}${ENCRYPTED_FILE_SUFFIX}`;
+  }
+
+  /**
+   * 按已有项目是否加密编码新名称（重命名/复制）
+   */
+  private async encodeNameLike(file: IFileItem, name: string): Promise<string> {
+    const isFolder = file.type === FileType.FOLDER;
+    return (await this.decodeName(file.name, isFolder)) === null ? name : this.encodeName(name, isFolder);
+  }
+
+  /**
+   * 还原名称，不是加密名称时返回 null
+   */
+  private async decodeName(name: string, isFolder: boolean): Promise<string | null> {
+    if (this.encryptFileNames) {
+      return (await this.getNameCipher()).decrypt(name);
+    }
+    return this.decodeSuffix(name, isFolder);
+  }
+
+  private decodeSuffix(name: string, isFolder: boolean): string | null {
+    if (isFolder || name.length <= ENCRYPTED_FILE_SUFFIX.length || !name.endsWith(ENCRYPTED_FILE_SUFFIX)) {
+      return null;
+    }
+    return name.slice(0, -ENCRYPTED_FILE_SUFFIX.length);
+  }
+
+  /**
+   * 加密路径中的每一级名称；已确认不是加密名称的部分（如根路径前缀）原样保留
+   */
+  private async encodePath(path?: string): Promise<string | undefined> {
+    if (!path || !this.encryptFileNames) {
+      return path;
+    }
+    const names = await this.getNameCipher();
+    const parts = await Promise.all(
+      path.split('/').map(part => (!part || names.isPlain(part) ? part : names.encrypt(part)))
+    );
+    return parts.join('/');
+  }
+
+  private async decodePath(path: string): Promise<string> {
+    if (!this.encryptFileNames) {
+      return path;
+    }
+    const names = await this.getNameCipher();
+    const parts = await Promise.all(
+      path.split('/').map(async part => (part ? (await names.decrypt(part)) ?? part : part))
+    );
+    return parts.join('/');
+  }
+
+  /**
+   * 转换为明文文件项
+   */
+  private async toPlainItem(file: IFileItem): Promise<IFileItem> {
+    const name = await this.decodeName(file.name, file.type === FileType.FOLDER);
+    return this.applyPlainName(file, name, await this.decodePath(file.path));
+  }
+
+  /**
+   * 应用还原后的名称；加密文件的大小换算为明文大小，并去掉只对密文有效的哈希和链接
+   */
+  private applyPlainName(file: IFileItem, name: string | null, path: string): IFileItem {
+    if (name === null) {
+      return { ...file, providerId: this.id, path, isEncrypted: false };
+    }
+
+    const renamed: IFileItem = {
+      ...file,
+      providerId: this.id,
+      name,
+      path: !this.encryptFileNames && path.endsWith(file.name)
+        ? `${path.slice(0, -file.name.length)}${name}`
+        : path,
+      isHidden: name.startsWith('.'),
+      isEncrypted: true,
+    };
+
+    if (file.type === FileType.FOLDER) {
+      return renamed;
+    }
+
+    return {
+      ...renamed,
+      fileType: this.getFileType(name) as FileType,
+      size: getPlainSize(file.size),
+      mimeType: this.getMimeType(name),
+      hash: undefined,
+      downloadUrl: undefined,
+      previewUrl: undefined,
+      thumbnailUrl: undefined,
+      streamUrl: undefined,
+      thumbnail: undefined,
+      extensionStatus: undefined,
+    };
+  }
+
+  private async isEncryptedFile(file: IFileItem): Promise<boolean> {
+    return file.type !== FileType.FOLDER && (await this.decodeName(file.name, false)) !== null;
+  }
+
+  private async assertPlainFile(fileId: string): Promise<void> {
+    if (await this.isEncryptedFile(await this.inner.getFileInfo(fileId))) {
+      throw new Error('Not available for encrypted files');
+    }
+  }
+
+  // ============================================
+  // 上传辅助
+  // ============================================
+
+  private async toInnerUploadOptions(options: IUploadOptions): Promise<IUploadOptions> {
+    return {
+      ...options,
+      fileName: await this.encodeName(options.fileName, false),
+      targetPath: (await this.encodePath(options.targetPath)) ?? options.targetPath,
+    };
+  }
+
+  private getSessionState(session: IChunkUploadSession): IEncryptedSessionState {
+    const state: IEncryptedSessionState | undefined = session.metadata?.[SESSION_KEY];
+    if (!state) {
+      throw new Error('Upload session was not created by the encrypted provider');
+    }
+    return state;
+  }
+
+  /**
+   * 还原被包装提供商创建的会话
+   */
+  private toInnerSession(session: IChunkUploadSession): IChunkUploadSession {
+    const { [SESSION_KEY]: state, ...metadata } = session.metadata ?? {};
+    return { ...session, chunkSize: (state as IEncryptedSessionState | undefined)?.chunkSize, metadata };
+  }
+
+  /**
+   * 明文分片对应的密文分片（第一个分片包含文件头）
+   */
+  private toInnerChunk(chunk: IChunkInfo): IChunkInfo {
+    const segments = chunk.size === 0 ? 1 : Math.ceil(chunk.size / SEGMENT_SIZE);
+    return {
+      ...chunk,
+      offset: getEncryptedOffset(chunk.offset),
+      size: chunk.size + segments * TAG_SIZE + (chunk.offset === 0 ? HEADER_SIZE : 0),
+      etag: chunk.etag?.startsWith(ETAG_PREFIX) ? chunk.etag.slice(ETAG_PREFIX.length) : chunk.etag,
+    };
+  }
+
+  // ============================================
+  // 下载辅助
+  // ============================================
+
+  /**
+   * 读取密文，未实现 openDownloadStream 的提供商通过下载链接读取
+   */
+  private async readInner(
+    fileId: string,
+    range: { start: number; end: number } | undefined,
+    signal?: AbortSignal
+  ): Promise<ReadableStream<Uint8Array>> {
+    if (this.inner.openDownloadStream) {
+      return this.inner.openDownloadStream(fileId, range, signal);
+    }
+
+    const response = await fetch(await this.inner.getDownloadUrl(fileId), {
+      headers: range ? { Range: `bytes=${range.start}-${range.end}` } : undefined,
+      signal,
+    });
+    if (!response.ok || !response.body) {
+      throw new Error(`Failed to read ${fileId}: ${response.status} ${response.statusText}`);
+    }
+    if (range && response.status !== 206) {
+      throw new Error('Storage does not support range requests');
+    }
+    return response.body;
+  }
+
+  /**
+   * 读取文件头（按文件版本缓存，分片下载时不重复读取）
+   */
+  private async readHeader(file: IFileItem, signal?: AbortSignal): Promise<IEncryptionHeader> {
+    const cacheKey = `${file.id}:${file.size}:${new Date(file.modifiedAt).getTime()}`;
+    const cached = this.headers.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    if (file.size < HEADER_SIZE + TAG_SIZE) {
+      throw new Error('Encrypted data is truncated');
+    }
+
+    const reader = (await this.readInner(file.id, { start: 0, end: HEADER_SIZE - 1 }, signal)).getReader();
+    const bytes = new Uint8Array(HEADER_SIZE);
+    let length = 0;
+
+    while (length < HEADER_SIZE) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      const count = Math.min(value.length, HEADER_SIZE - length);
+      bytes.set(value.subarray(0, count), length);
+      length += count;
+    }
+    reader.cancel().catch(() => undefined);
+
+    const header = parseHeader(bytes.subarray(0, length));
+    this.headers.set(cacheKey, header);
+    return header;
+  }
+}
+
+/**
+ * 创建加密提供商
+ */
+export function createEncryptedProvider(
+  inner: IStorageProvider,
+  options: IEncryptedProviderOptions
+): EncryptedProvider {
+  return new EncryptedProvider(inner, options);
+}
+
+// ============================================
+// 配置
+// ============================================
+
+/**
+ * 合并加密配置，目前只支持 AES-256-GCM
+ */
+function resolveEncryptionConfig(
+  base?: IEncryptionConfig,
+  overrides?: Partial<IEncryptionConfig>
+): IEncryptionConfig {
+  const config = { ...base, ...overrides };
+  const keyDerivation = config.keyDerivation ?? 'PBKDF2';
+  const resolved: IEncryptionConfig = {
+    enabled: true,
+    algorithm: config.algorithm ?? 'AES-256-GCM',
+    keySize: config.keySize ?? 256,
+    keyDerivation,
+    iterations: config.iterations || DEFAULT_KDF_COST[keyDerivation],
+  };
+
+  if (resolved.algorithm !== 'AES-256-GCM' || resolved.keySize !== 256) {
+    throw new Error(`Unsupported encryption algorithm: ${resolved.algorithm} (${resolved.keySize} bit)`);
+  }
+  return resolved;
+}
+
+/**
+ * 加密后的能力：存储端无法预览、打包或按名称搜索密文
+ */
+function getEncryptedCapabilities(inner: IProviderCapabilities, encryptFileNames: boolean): IProviderCapabilities {
+  const nameLength = inner.limits.maxFileNameLength;
+
+  return {
+    ...inner,
+    supports: {
+      ...inner.supports,
+      searchFiles: inner.supports.searchFiles && !encryptFileNames,
+      shareFile: false,
+      getFileThumbnail: false,
+      getFilePreview: false,
+      batchDownload: false,
+      // 密文在上传分片时逐段生成，需要预先读取整个文件的提供商改为整文件加密上传
+      chunkUpload: inner.supports.chunkUpload && !inner.performance.chunkHashesUpFront,
+      resumableUpload: inner.supports.resumableUpload && !inner.performance.chunkHashesUpFront,
+      encryption: true,
+    },
+    limits: {
+      ...inner.limits,
+      maxFileSize: inner.limits.maxFileSize > 0 ? getPlainSize(inner.limits.maxFileSize) : 0,
+      // 加密名称 = base32(12 字节 nonce + 名称 + 16 字节标签)
+      maxFileNameLength: nameLength > 0
+        ? Math.max(1, encryptFileNames ? Math.floor((nameLength * 5) / 8) - 28 : nameLength - ENCRYPTED_FILE_SUFFIX.length)
+        : nameLength,
+    },
+    performance: {
+      ...inner.performance,
+      recommendedChunkSize: alignToSegments(inner.performance.recommendedChunkSize),
+      minChunkSize: Math.max(SEGMENT_SIZE, inner.performance.minChunkSize),
+      // 明文分片必须按加密段对齐
+      chunkAlignment: SEGMENT_SIZE,
+    },
+  };
+}
+
+/**
+ * 是否为根目录的密钥文件（不在文件列表中显示）
+ */
+function isKeyFile(file: IFileItem): boolean {
+  return file.name === ENCRYPTION_KEY_FILE && file.path.replace(/^\/+/, '') === ENCRYPTION_KEY_FILE;
+}
+
+function toHex(bytes: Uint8Array): string {
+  let hex = '';
+  for (let i = 0; i < bytes.length; i++) {
+    hex += bytes[i].toString(16).padStart(2, '0');
+  }
+  return hex;
+}
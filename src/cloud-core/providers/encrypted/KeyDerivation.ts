@@ -0,0 +1,548 @@
+/**
+ * 口令密钥派生
+ * PBKDF2 使用 WebCrypto；WebCrypto 不支持 scrypt 和 Argon2，这里提供纯 TS 实现
+ */
+
+import type { IEncryptionConfig } from '../base/IProviderConfig';
+
+/**
+ * 支持的密钥派生函数
+ */
+export type KeyDerivationFunction = IEncryptionConfig['keyDerivation'];
+
+/**
+ * 各派生函数的默认成本参数（IEncryptionConfig.iterations）
+ * - PBKDF2：迭代次数
+ * - Scrypt：CPU/内存成本 N（2 的幂，r=8，p=1）
+ * - Argon2：Argon2id 迭代次数 t（内存 19 MiB，并行度 1）
+ */
+export const DEFAULT_KDF_COST: Record<KeyDerivationFunction, number> = {
+  PBKDF2: 600000,
+  Scrypt: 32768,
+  Argon2: 2,
+};
+
+const SCRYPT_BLOCK_SIZE = 8;
+const ARGON2_MEMORY_KIB = 19456;
+
+/**
+ * 从口令派生密钥材料
+ * @param passphrase - 口令
+ * @param salt - 盐
+ * @param kdf - 派生函数
+ * @param cost - 成本参数（含义见 DEFAULT_KDF_COST）
+ * @param length - 输出字节数
+ */
+export async function deriveKeyMaterial(
+  passphrase: string,
+  salt: Uint8Array,
+  kdf: KeyDerivationFunction,
+  cost: number = DEFAULT_KDF_COST[kdf],
+  length: number = 32
+): Promise<Uint8Array> {
+  const password = new TextEncoder().encode(passphrase);
+
+  switch (kdf) {
+    case 'PBKDF2':
+      return pbkdf2(password, salt, cost, length);
+    case 'Scrypt':
+      return scrypt(password, salt, cost, SCRYPT_BLOCK_SIZE, 1, length);
+    case 'Argon2':
+      return argon2id(password, salt, cost, ARGON2_MEMORY_KIB, length);
+    default:
+      throw new Error(`Unsupported key derivation function: ${kdf}`);
+  }
+}
+
+// ============================================
+// PBKDF2
+// ============================================
+
+async function pbkdf2(password: Uint8Array, salt: Uint8Array, iterations: number, length: number): Promise<Uint8Array> {
+  if (!Number.isInteger(iterations) || iterations < 1) {
+    throw new Error(`Invalid PBKDF2 iterations: ${iterations}`);
+  }
+
+  const key = await crypto.subtle.importKey('raw', password, 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    key,
+    length * 8
+  );
+  return new Uint8Array(bits);
+}
+
+// ============================================
+// scrypt（RFC 7914）
+// ============================================
+
+async function scrypt(
+  password: Uint8Array,
+  salt: Uint8Array,
+  N: number,
+  r: number,
+  p: number,
+  length: number
+): Promise<Uint8Array> {
+  if (N < 2 || (N & (N - 1)) !== 0) {
+    throw new Error(`Invalid scrypt cost (must be a power of 2): ${N}`);
+  }
+
+  const blockWords = 32 * r;
+  const B = await pbkdf2(password, salt, 1, p * blockWords * 4);
+  const words = bytesToWordsLE(B);
+
+  const V = new Uint32Array(blockWords * N);
+  const X = new Uint32Array(blockWords);
+  const Y = new Uint32Array(blockWords);
+  const T = new Uint32Array(16);
+
+  for (let i = 0; i < p; i++) {
+    const block = words.subarray(i * blockWords, (i + 1) * blockWords);
+    X.set(block);
+
+    for (let j = 0; j < N; j++) {
+      V.set(X, j * blockWords);
+      blockMixSalsa8(X, Y, T, r);
+      X.set(Y);
+    }
+
+    for (let j = 0; j < N; j++) {
+      const offset = (X[(2 * r - 1) * 16] & (N - 1)) * blockWords;
+      for (let k = 0; k < blockWords; k++) {
+        X[k] ^= V[offset + k];
+      }
+      blockMixSalsa8(X, Y, T, r);
+      X.set(Y);
+    }
+
+    block.set(X);
+  }
+
+  return pbkdf2(password, wordsToBytesLE(words), 1, length);
+}
+
+function blockMixSalsa8(B: Uint32Array, Y: Uint32Array, X: Uint32Array, r: number): void {
+  X.set(B.subarray((2 * r - 1) * 16, 2 * r * 16));
+
+  for (let i = 0; i < 2 * r; i++) {
+    for (let j = 0; j < 16; j++) {
+      X[j] ^= B[i * 16 + j];
+    }
+    salsa208(X);
+    // 偶数块写入前半部分，奇数块写入后半部分
+    Y.set(X, ((i >> 1) + (i & 1) * r) * 16);
+  }
+}
+
+function salsa208(B: Uint32Array): void {
+  const x = Uint32Array.from(B);
+  const R = (a: number, b: number) => (a << b) | (a >>> (32 - b));
+
+  for (let i = 0; i < 8; i += 2) {
+    x[4] ^= R(x[0] + x[12], 7); x[8] ^= R(x[4] + x[0], 9);
+    x[12] ^= R(x[8] + x[4], 13); x[0] ^= R(x[12] + x[8], 18);
+    x[9] ^= R(x[5] + x[1], 7); x[13] ^= R(x[9] + x[5], 9);
+    x[1] ^= R(x[13] + x[9], 13); x[5] ^= R(x[1] + x[13], 18);
+    x[14] ^= R(x[10] + x[6], 7); x[2] ^= R(x[14] + x[10], 9);
+    x[6] ^= R(x[2] + x[14], 13); x[10] ^= R(x[6] + x[2], 18);
+    x[3] ^= R(x[15] + x[11], 7); x[7] ^= R(x[3] + x[15], 9);
+    x[11] ^= R(x[7] + x[3], 13); x[15] ^= R(x[11] + x[7], 18);
+
+    x[1] ^= R(x[0] + x[3], 7); x[2] ^= R(x[1] + x[0], 9);
+    x[3] ^= R(x[2] + x[1], 13); x[0] ^= R(x[3] + x[2], 18);
+    x[6] ^= R(x[5] + x[4], 7); x[7] ^= R(x[6] + x[5], 9);
+    x[4] ^= R(x[7] + x[6], 13); x[5] ^= R(x[4] + x[7], 18);
+    x[11] ^= R(x[10] + x[9], 7); x[8] ^= R(x[11] + x[10], 9);
+    x[9] ^= R(x[8] + x[11], 13); x[10] ^= R(x[9] + x[8], 18);
+    x[12] ^= R(x[15] + x[14], 7); x[13] ^= R(x[12] + x[15], 9);
+    x[14] ^= R(x[13] + x[12], 13); x[15] ^= R(x[14] + x[13], 18);
+  }
+
+  for (let i = 0; i < 16; i++) {
+    B[i] += x[i];
+  }
+}
+
+// ============================================
+// Argon2id（RFC 9106，版本 0x13，单通道）
+// ============================================
+
+const ARGON2_BLOCK_WORDS = 256;          // 1 KiB 块，按 32 位字存储
+const ARGON2_SYNC_POINTS = 4;
+const ARGON2_VERSION = 0x13;
+const ARGON2_TYPE_ID = 2;
+
+async function argon2id(
+  password: Uint8Array,
+  salt: Uint8Array,
+  passes: number,
+  memoryKiB: number,
+  length: number
+): Promise<Uint8Array> {
+  if (!Number.isInteger(passes) || passes < 1) {
+    throw new Error(`Invalid Argon2 iterations: ${passes}`);
+  }
+
+  const lanes = 1;
+  const blockCount = Math.max(2 * ARGON2_SYNC_POINTS, memoryKiB - (memoryKiB % (ARGON2_SYNC_POINTS * lanes)));
+  const segmentLength = blockCount / ARGON2_SYNC_POINTS;
+  const memory = new Uint32Array(blockCount * ARGON2_BLOCK_WORDS);
+
+  const h0 = blake2b(concatBytes(
+    le32(lanes), le32(length), le32(memoryKiB), le32(passes), le32(ARGON2_VERSION), le32(ARGON2_TYPE_ID),
+    le32(password.length), password,
+    le32(salt.length), salt,
+    le32(0),                     // 密钥
+    le32(0)                      // 关联数据
+  ), 64);
+
+  for (let i = 0; i < 2; i++) {
+    const block = blake2bLong(concatBytes(h0, le32(i), le32(0)), 1024);
+    memory.set(bytesToWordsLE(block), i * ARGON2_BLOCK_WORDS);
+  }
+
+  const zero = new Uint32Array(ARGON2_BLOCK_WORDS);
+  const input = new Uint32Array(ARGON2_BLOCK_WORDS);
+  const address = new Uint32Array(ARGON2_BLOCK_WORDS);
+  const scratch = new Uint32Array(ARGON2_BLOCK_WORDS * 2);
+
+  for (let pass = 0; pass < passes; pass++) {
+    for (let slice = 0; slice < ARGON2_SYNC_POINTS; slice++) {
+      // 第一遍的前两个分段使用与数据无关的寻址（Argon2i），其余与数据相关（Argon2d）
+      const independent = pass === 0 && slice < ARGON2_SYNC_POINTS / 2;
+      const start = pass === 0 && slice === 0 ? 2 : 0;
+
+      if (independent) {
+        input.fill(0);
+        input[0] = pass;
+        input[2] = 0;            // 通道
+        input[4] = slice;
+        input[6] = blockCount;
+        input[8] = passes;
+        input[10] = ARGON2_TYPE_ID;
+        if (start === 2) {
+          nextAddresses(input, address, zero, scratch);
+        }
+      }
+
+      for (let index = start; index < segmentLength; index++) {
+        const current = slice * segmentLength + index;
+        const previous = current === 0 ? blockCount - 1 : current - 1;
+
+        let pseudoRandom: number;
+        if (independent) {
+          if (index % 128 === 0) {
+            nextAddresses(input, address, zero, scratch);
+          }
+          pseudoRandom = address[(index % 128) * 2];
+        } else {
+          pseudoRandom = memory[previous * ARGON2_BLOCK_WORDS];
+        }
+
+        const reference = referenceIndex(pass, slice, index, segmentLength, blockCount, pseudoRandom);
+        fillBlock(
+          memory.subarray(previous * ARGON2_BLOCK_WORDS, (previous + 1) * ARGON2_BLOCK_WORDS),
+          memory.subarray(reference * ARGON2_BLOCK_WORDS, (reference + 1) * ARGON2_BLOCK_WORDS),
+          memory.subarray(current * ARGON2_BLOCK_WORDS, (current + 1) * ARGON2_BLOCK_WORDS),
+          pass > 0,
+          scratch
+        );
+      }
+    }
+  }
+
+  const last = memory.subarray((blockCount - 1) * ARGON2_BLOCK_WORDS, blockCount * ARGON2_BLOCK_WORDS);
+  return blake2bLong(wordsToBytesLE(last), length);
+}
+
+/**
+ * 生成下一批与数据无关的引用地址
+ */
+function nextAddresses(input: Uint32Array, address: Uint32Array, zero: Uint32Array, scratch: Uint32Array): void {
+  input[12]++;                   // 计数器（64 位，低 32 位足够）
+  fillBlock(zero, input, address, false, scratch);
+  fillBlock(zero, address, address, false, scratch);
+}
+
+/**
+ * 计算引用块位置（单通道）
+ */
+function referenceIndex(
+  pass: number,
+  slice: number,
+  index: number,
+  segmentLength: number,
+  laneLength: number,
+  pseudoRandom: number
+): number {
+  const areaSize = pass === 0
+    ? slice * segmentLength + index - 1
+    : laneLength - segmentLength + index - 1;
+
+  const x = mulHigh(pseudoRandom, pseudoRandom);
+  const relative = areaSize - 1 - mulHigh(areaSize, x);
+  const start = pass !== 0 && slice !== ARGON2_SYNC_POINTS - 1 ? (slice + 1) * segmentLength : 0;
+  return (start + relative) % laneLength;
+}
+
+/**
+ * 压缩函数 G：next = P(prev ^ ref) ^ prev ^ ref（withXor 时再异或原有 next）
+ */
+function fillBlock(
+  prev: Uint32Array,
+  ref: Uint32Array,
+  next: Uint32Array,
+  withXor: boolean,
+  scratch: Uint32Array
+): void {
+  const R = scratch.subarray(0, ARGON2_BLOCK_WORDS);
+  const T = scratch.subarray(ARGON2_BLOCK_WORDS);
+
+  for (let i = 0; i < ARGON2_BLOCK_WORDS; i++) {
+    R[i] = prev[i] ^ ref[i];
+    T[i] = withXor ? R[i] ^ next[i] : R[i];
+  }
+
+  for (let i = 0; i < 8; i++) {
+    blake2RoundNoMsg(R, ROW_INDEXES[i]);
+  }
+  for (let i = 0; i < 8; i++) {
+    blake2RoundNoMsg(R, COLUMN_INDEXES[i]);
+  }
+
+  for (let i = 0; i < ARGON2_BLOCK_WORDS; i++) {
+    next[i] = T[i] ^ R[i];
+  }
+}
+
+/**
+ * P 置换作用的 16 个 64 位字位置（以 32 位字下标表示）
+ */
+const ROW_INDEXES = Array.from({ length: 8 }, (_, i) =>
+  Array.from({ length: 16 }, (_, k) => (16 * i + k) * 2)
+);
+const COLUMN_INDEXES = Array.from({ length: 8 }, (_, i) =>
+  Array.from({ length: 16 }, (_, k) => (2 * i + (k & 1) + 16 * (k >> 1)) * 2)
+);
+
+function blake2RoundNoMsg(v: Uint32Array, at: number[]): void {
+  gb(v, at[0], at[4], at[8], at[12]);
+  gb(v, at[1], at[5], at[9], at[13]);
+  gb(v, at[2], at[6], at[10], at[14]);
+  gb(v, at[3], at[7], at[11], at[15]);
+  gb(v, at[0], at[5], at[10], at[15]);
+  gb(v, at[1], at[6], at[11], at[12]);
+  gb(v, at[2], at[7], at[8], at[13]);
+  gb(v, at[3], at[4], at[9], at[14]);
+}
+
+function gb(v: Uint32Array, a: number, b: number, c: number, d: number): void {
+  fBlaMka(v, a, b);
+  rotr64(v, d, a, 32);
+  fBlaMka(v, c, d);
+  rotr64(v, b, c, 24);
+  fBlaMka(v, a, b);
+  rotr64(v, d, a, 16);
+  fBlaMka(v, c, d);
+  rotr64(v, b, c, 63);
+}
+
+/**
+ * v[a] = v[a] + v[b] + 2 * lo(v[a]) * lo(v[b])（64 位）
+ */
+function fBlaMka(v: Uint32Array, a: number, b: number): void {
+  const x = v[a];
+  const y = v[b];
+  const productLow = Math.imul(x, y) >>> 0;
+  const productHigh = mulHigh(x, y);
+
+  const low = x + y + ((productLow << 1) >>> 0);
+  v[a + 1] = v[a + 1] + v[b + 1] + ((productHigh << 1) | (productLow >>> 31)) + Math.floor(low / 0x100000000);
+  v[a] = low;
+}
+
+/**
+ * v[x] = rotr64(v[x] ^ v[y], n)
+ */
+function rotr64(v: Uint32Array, x: number, y: number, n: 16 | 24 | 32 | 63): void {
+  const low = v[x] ^ v[y];
+  const high = v[x + 1] ^ v[y + 1];
+
+  if (n === 32) {
+    v[x] = high;
+    v[x + 1] = low;
+  } else if (n === 63) {
+    v[x] = (low << 1) | (high >>> 31);
+    v[x + 1] = (high << 1) | (low >>> 31);
+  } else {
+    v[x] = (low >>> n) | (high << (32 - n));
+    v[x + 1] = (high >>> n) | (low << (32 - n));
+  }
+}
+
+/**
+ * 两个 32 位无符号整数乘积的高 32 位
+ */
+function mulHigh(a: number, b: number): number {
+  const aLow = a & 0xffff;
+  const aHigh = a >>> 16;
+  const bLow = b & 0xffff;
+  const bHigh = b >>> 16;
+
+  const lowLow = aLow * bLow;
+  const lowHigh = aLow * bHigh;
+  const highLow = aHigh * bLow;
+  const carry = (lowLow >>> 16) + (lowHigh & 0xffff) + (highLow & 0xffff);
+
+  return (aHigh * bHigh + (lowHigh >>> 16) + (highLow >>> 16) + (carry >>> 16)) >>> 0;
+}
+
+/**
+ * 变长哈希 H'
+ */
+function blake2bLong(input: Uint8Array, length: number): Uint8Array {
+  const prefixed = concatBytes(le32(length), input);
+  if (length <= 64) {
+    return blake2b(prefixed, length);
+  }
+
+  const out = new Uint8Array(length);
+  let v = blake2b(prefixed, 64);
+  let offset = 0;
+
+  while (length - offset > 64) {
+    out.set(v.subarray(0, 32), offset);
+    offset += 32;
+    v = blake2b(v, Math.min(64, length - offset));
+  }
+  out.set(v, offset);
+
+  return out;
+}
+
+// ============================================
+// BLAKE2b（RFC 7693，无密钥）
+// ============================================
+
+const BLAKE2B_IV = new Uint32Array([
+  0xf3bcc908, 0x6a09e667, 0x84caa73b, 0xbb67ae85, 0xfe94f82b, 0x3c6ef372, 0x5f1d36f1, 0xa54ff53a,
+  0xade682d1, 0x510e527f, 0x2b3e6c1f, 0x9b05688c, 0xfb41bd6b, 0x1f83d9ab, 0x137e2179, 0x5be0cd19,
+]);
+
+const BLAKE2B_SIGMA = [
+  0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15,
+  14, 10, 4, 8, 9, 15, 13, 6, 1, 12, 0, 2, 11, 7, 5, 3,
+  11, 8, 12, 0, 5, 2, 15, 13, 10, 14, 3, 6, 7, 1, 9, 4,
+  7, 9, 3, 1, 13, 12, 11, 14, 2, 6, 5, 10, 4, 0, 15, 8,
+  9, 0, 5, 7, 2, 4, 10, 15, 14, 1, 11, 12, 6, 8, 3, 13,
+  2, 12, 6, 10, 0, 11, 8, 3, 4, 13, 7, 5, 15, 14, 1, 9,
+  12, 5, 1, 15, 14, 13, 4, 10, 0, 7, 6, 3, 9, 2, 8, 11,
+  13, 11, 7, 14, 12, 1, 3, 9, 5, 0, 15, 4, 8, 6, 2, 10,
+  6, 15, 14, 9, 11, 3, 0, 8, 12, 2, 13, 7, 1, 4, 10, 5,
+  10, 2, 8, 4, 7, 6, 1, 5, 15, 11, 9, 14, 3, 12, 13, 0,
+  0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15,
+  14, 10, 4, 8, 9, 15, 13, 6, 1, 12, 0, 2, 11, 7, 5, 3,
+].map(index => index * 2);
+
+function blake2b(input: Uint8Array, length: number): Uint8Array {
+  const h = Uint32Array.from(BLAKE2B_IV);
+  h[0] ^= 0x01010000 ^ length;
+
+  const v = new Uint32Array(32);
+  const m = new Uint32Array(32);
+  const block = new Uint8Array(128);
+  const blockCount = Math.max(1, Math.ceil(input.length / 128));
+
+  for (let i = 0; i < blockCount; i++) {
+    const last = i === blockCount - 1;
+    block.fill(0);
+    block.set(input.subarray(i * 128, (i + 1) * 128));
+    m.set(bytesToWordsLE(block));
+
+    const counter = last ? input.length : (i + 1) * 128;
+    v.set(h);
+    v.set(BLAKE2B_IV, 16);
+    v[24] ^= counter >>> 0;
+    v[25] ^= Math.floor(counter / 0x100000000);
+    if (last) {
+      v[28] = ~v[28];
+      v[29] = ~v[29];
+    }
+
+    for (let round = 0; round < 12; round++) {
+      const s = round * 16;
+      blake2bG(v, m, 0, 8, 16, 24, BLAKE2B_SIGMA[s], BLAKE2B_SIGMA[s + 1]);
+      blake2bG(v, m, 2, 10, 18, 26, BLAKE2B_SIGMA[s + 2], BLAKE2B_SIGMA[s + 3]);
+      blake2bG(v, m, 4, 12, 20, 28, BLAKE2B_SIGMA[s + 4], BLAKE2B_SIGMA[s + 5]);
+      blake2bG(v, m, 6, 14, 22, 30, BLAKE2B_SIGMA[s + 6], BLAKE2B_SIGMA[s + 7]);
+      blake2bG(v, m, 0, 10, 20, 30, BLAKE2B_SIGMA[s + 8], BLAKE2B_SIGMA[s + 9]);
+      blake2bG(v, m, 2, 12, 22, 24, BLAKE2B_SIGMA[s + 10], BLAKE2B_SIGMA[s + 11]);
+      blake2bG(v, m, 4, 14, 16, 26, BLAKE2B_SIGMA[s + 12], BLAKE2B_SIGMA[s + 13]);
+      blake2bG(v, m, 6, 8, 18, 28, BLAKE2B_SIGMA[s + 14], BLAKE2B_SIGMA[s + 15]);
+    }
+
+    for (let j = 0; j < 16; j++) {
+      h[j] ^= v[j] ^ v[j + 16];
+    }
+  }
+
+  return wordsToBytesLE(h).slice(0, length);
+}
+
+function blake2bG(v: Uint32Array, m: Uint32Array, a: number, b: number, c: number, d: number, x: number, y: number): void {
+  add64(v, a, v[b], v[b + 1]);
+  add64(v, a, m[x], m[x + 1]);
+  rotr64(v, d, a, 32);
+  add64(v, c, v[d], v[d + 1]);
+  rotr64(v, b, c, 24);
+  add64(v, a, v[b], v[b + 1]);
+  add64(v, a, m[y], m[y + 1]);
+  rotr64(v, d, a, 16);
+  add64(v, c, v[d], v[d + 1]);
+  rotr64(v, b, c, 63);
+}
+
+function add64(v: Uint32Array, a: number, low: number, high: number): void {
+  const sum = v[a] + low;
+  v[a + 1] = v[a + 1] + high + (sum >= 0x100000000 ? 1 : 0);
+  v[a] = sum;
+}
+
+// ============================================
+// 字节工具
+// ============================================
+
+function le32(value: number): Uint8Array {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value, true);
+  return bytes;
+}
+
+function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+function bytesToWordsLE(bytes: Uint8Array): Uint32Array {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const words = new Uint32Array(bytes.length / 4);
+  for (let i = 0; i < words.length; i++) {
+    words[i] = view.getUint32(i * 4, true);
+  }
+  return words;
+}
+
+function wordsToBytesLE(words: Uint32Array): Uint8Array {
+  const bytes = new Uint8Array(words.length * 4);
+  const view = new DataView(bytes.buffer);
+  for (let i = 0; i < words.length; i++) {
+    view.setUint32(i * 4, words[i], true);
+  }
+  return bytes;
+}
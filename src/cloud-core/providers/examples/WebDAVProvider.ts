@@ -6,6 +6,7 @@
 import {
   BaseStorageProvider,
   IFileItem,
+  IFileHash,
   IFileListResponse,
   IStorageProvider,
   IProviderConfig,
@@ -17,6 +18,8 @@ import {
   ITransferTask,
   ProviderStatus,
 } from '../base';
+import { createDownloadSink } from '../../transfer/DownloadSink';
+import { createHttpError } from '../../transfer/RetryPolicy';
 
 /**
  * WebDAV 提供商能力声明
@@ -91,6 +94,7 @@ interface IWebDAVResponse {
         collection?: any;
       };
       getcontenttype?: string;
+      getetag?: string;
     };
     status: string;
   };
@@ -195,19 +199,21 @@ export class WebDAVProvider extends BaseStorageProvider {
         'Content-Type': 'application/xml',
       },
       body: `<?xml version="1.0"?>
-        <D:propfind xmlns:D="DAV:">
+        <D:propfind xmlns:D="DAV:" xmlns:oc="http://owncloud.org/ns">
           <D:prop>
             <D:displayname/>
             <D:getcontentlength/>
             <D:getlastmodified/>
             <D:resourcetype/>
             <D:getcontenttype/>
+            <D:getetag/>
+            <oc:checksums/>
           </D:prop>
         </D:propfind>`,
     });
 
     if (!response.ok) {
-      throw new Error(`Failed to list files: ${response.statusText}`);
+      throw createHttpError(response, `Failed to list files: ${response.statusText}`);
     }
 
     const text = await response.text();
@@ -240,6 +246,9 @@ export class WebDAVProvider extends BaseStorageProvider {
       const lastModified = props.getElementsByTagNameNS('DAV:', 'getlastmodified')[0]?.textContent;
       const resourceType = props.getElementsByTagNameNS('DAV:', 'resourcetype')[0];
       const contentType = props.getElementsByTagNameNS('DAV:', 'getcontenttype')[0]?.textContent;
+      const etag = props.getElementsByTagNameNS('DAV:', 'getetag')[0]?.textContent || undefined;
+      // ownCloud/Nextcloud 扩展属性，形如 "SHA1:... MD5:..."
+      const checksums = props.getElementsByTagNameNS('http://owncloud.org/ns', 'checksum')[0]?.textContent;
 
       const isFolder = resourceType?.getElementsByTagNameNS('DAV:', 'collection').length > 0;
 
@@ -260,6 +269,7 @@ export class WebDAVProvider extends BaseStorageProvider {
         createdAt: new Date(),
         modifiedAt: lastModified ? new Date(lastModified) : new Date(),
         mimeType: contentType || undefined,
+        hash: this.parseChecksums(checksums),
         permissions: {
           canRead: true,
           canWrite: true,
@@ -277,11 +287,40 @@ export class WebDAVProvider extends BaseStorageProvider {
         isTrashed: false,
         isEncrypted: false,
         hasVersions: false,
+        extensionStatus: {
+          webDav: { etag },
+        },
         isCached: false,
       };
     });
   }
 
+  /**
+   * 解析 oc:checksums 属性
+   */
+  private parseChecksums(value?: string | null): IFileHash | undefined {
+    if (!value) {
+      return undefined;
+    }
+
+    const hash: IFileHash = {};
+    for (const entry of value.trim().split(/\s+/)) {
+      const [type, digest] = entry.split(':');
+      switch (type?.toUpperCase()) {
+        case 'MD5':
+          hash.md5 = digest?.toLowerCase();
+          break;
+        case 'SHA1':
+          hash.sha1 = digest?.toLowerCase();
+          break;
+        case 'SHA256':
+          hash.sha256 = digest?.toLowerCase();
+          break;
+      }
+    }
+    return Object.keys(hash).length > 0 ? hash : undefined;
+  }
+
   /**
    * 从MIME类型获取文件类型
    */
@@ -317,7 +356,7 @@ export class WebDAVProvider extends BaseStorageProvider {
     });
 
     if (!response.ok) {
-      throw new Error(`Failed to create folder: ${response.statusText}`);
+      throw createHttpError(response, `Failed to create folder: ${response.statusText}`);
     }
 
     return await this.getFileInfo(path);
@@ -352,7 +391,7 @@ export class WebDAVProvider extends BaseStorageProvider {
     });
 
     if (!response.ok) {
-      throw new Error(`Failed to move file: ${response.statusText}`);
+      throw createHttpError(response, `Failed to move file: ${response.statusText}`);
     }
 
     return await this.getFileInfo(targetParentId);
@@ -377,7 +416,7 @@ export class WebDAVProvider extends BaseStorageProvider {
     });
 
     if (!response.ok) {
-      throw new Error(`Failed to copy file: ${response.statusText}`);
+      throw createHttpError(response, `Failed to copy file: ${response.statusText}`);
     }
 
     return await this.getFileInfo(destinationPath);
@@ -394,7 +433,7 @@ export class WebDAVProvider extends BaseStorageProvider {
     });
 
     if (!response.ok) {
-      throw new Error(`Failed to delete file: ${response.statusText}`);
+      throw createHttpError(response, `Failed to delete file: ${response.statusText}`);
     }
   }
 
@@ -439,13 +478,20 @@ export class WebDAVProvider extends BaseStorageProvider {
       const response = await this.fetchWithAuth(url, {
         method: 'PUT',
         body: file,
+        // 明确不覆盖时要求目标不存在，避免检查后被其他客户端抢先写入
+        headers: options.overwrite === false ? { 'If-None-Match': '*' } : undefined,
       });
 
+      if (response.status === 412) {
+        throw new Error(`File already exists: ${path}`);
+      }
       if (!response.ok) {
-        throw new Error(`Upload failed: ${response.statusText}`);
+        throw createHttpError(response, `Upload failed: ${response.statusText}`);
       }
 
       task.status = 'completed' as any;
+      task.destination.fileId = path;
+      task.result = { success: true, fileId: path, filePath: path };
       task.progress.transferred = file.size;
       task.progress.percentage = 100;
       task.completedAt = new Date();
@@ -459,44 +505,59 @@ export class WebDAVProvider extends BaseStorageProvider {
   }
 
   /**
-   * 下载文件
+   * 下载文件（流式写入本地，不在内存中缓冲整个文件）
    */
   async downloadFile(fileId: string, options?: IDownloadOptions): Promise<ITransferTask> {
     const fileInfo = await this.getFileInfo(fileId);
-    const url = this.baseUrl + fileId;
+    const range = options?.range;
+    const size = range ? range.end - range.start + 1 : fileInfo.size;
 
     const task = this.createTransferTask(
       'download' as any,
       fileInfo.name,
-      fileInfo.size,
+      size,
       { providerId: this.id, path: fileId },
       { providerId: 'local', path: '/' },
       options || {} as any
     );
 
     task.status = 'active' as any;
+    task.startedAt = new Date();
+
+    const sink = await createDownloadSink({
+      fileName: fileInfo.name,
+      size,
+      mimeType: fileInfo.mimeType,
+      fileHandle: options?.saveHandle,
+    });
 
     try {
-      const response = await this.fetchWithAuth(url);
-      if (!response.ok) {
-        throw new Error(`Download failed: ${response.statusText}`);
+      const reader = (await this.openDownloadStream(fileId, range)).getReader();
+      let transferred = 0;
+
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+
+        await sink.write(value);
+        transferred += value.length;
+
+        task.progress.transferred = transferred;
+        task.progress.percentage = size > 0 ? (transferred / size) * 100 : 100;
+        options?.onProgress?.(task.progress);
       }
 
-      const blob = await response.blob();
+      await sink.close();
 
       task.status = 'completed' as any;
-      task.progress.transferred = fileInfo.size;
+      task.progress.transferred = size;
       task.progress.percentage = 100;
       task.completedAt = new Date();
-
-      // 触发浏览器下载
-      const downloadUrl = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = downloadUrl;
-      a.download = fileInfo.name;
-      a.click();
-      URL.revokeObjectURL(downloadUrl);
+      task.result = { success: true, fileId, filePath: fileInfo.path };
     } catch (error) {
+      await sink.abort().catch(() => undefined);
       task.status = 'failed' as any;
       task.error = error as Error;
       throw error;
@@ -505,6 +566,35 @@ export class WebDAVProvider extends BaseStorageProvider {
     return task;
   }
 
+  /**
+   * 打开文件读取流（支持 Range 请求）
+   */
+  async openDownloadStream(
+    fileId: string,
+    range?: { start: number; end: number },
+    signal?: AbortSignal
+  ): Promise<ReadableStream<Uint8Array>> {
+    const response = await this.fetchWithAuth(this.baseUrl + fileId, {
+      headers: range ? { Range: `bytes=${range.start}-${range.end}` } : undefined,
+      signal,
+    });
+
+    if (!response.ok) {
+      throw createHttpError(response, `Download failed: ${response.statusText}`);
+    }
+
+    // 服务器忽略 Range 时会返回完整内容，不能当作分片使用
+    if (range && response.status !== 206) {
+      throw new Error('Server does not support range requests');
+    }
+
+    if (!response.body) {
+      throw new Error('Streaming response body is not supported');
+    }
+
+    return response.body;
+  }
+
   /**
    * 获取下载URL
    */
@@ -0,0 +1,323 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { GoogleDriveProvider, GOOGLE_FOLDER_MIME_TYPE } from './GoogleDriveProvider';
+import { IChunkInfo, IDownloadOptions, IProviderConfig, IUploadOptions, SharePermission, TransferStatus } from '../base';
+import { mockFetch, readBody, jsonResponse, IRecordedRequest, MockFetchHandler } from '../../testing/mockFetch';
+
+const API = 'https://www.googleapis.com/drive/v3';
+const SESSION_URL = 'https://www.googleapis.com/upload/drive/v3/files?upload_id=session-1';
+const KB = 1024;
+const MB = 1024 * KB;
+
+const createProvider = (config: Partial<IProviderConfig> = {}) => new GoogleDriveProvider({
+  id: 'gdrive-test',
+  name: 'Google Drive Test',
+  type: 'googledrive',
+  enabled: true,
+  auth: {},
+  tokens: { accessToken: 'token' },
+  sync: { interval: 10 },
+  ...config,
+} as IProviderConfig);
+
+const file = (id: string, name: string, parent = 'folder-1', extra: Record<string, unknown> = {}) => ({
+  id,
+  name,
+  mimeType: 'text/plain',
+  size: '10',
+  parents: [parent],
+  ...extra,
+});
+
+/**
+ * 模拟 Drive API：根文件夹为 root-id，其余请求交给 handler
+ */
+const mockDrive = (handler: MockFetchHandler) => mockFetch(request => {
+  if (request.url.pathname === '/drive/v3/files/root') {
+    return jsonResponse({ id: 'root-id' });
+  }
+  return handler(request);
+});
+
+const query = (request: IRecordedRequest) => Object.fromEntries(request.url.searchParams);
+
+describe('GoogleDriveProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('列出文件', () => {
+    it('按路径逐级查找文件夹，由父文件夹路径得到子项路径', async () => {
+      const { requests } = mockDrive(request => {
+        if (request.url.searchParams.get('q')?.includes("name = 'Work'")) {
+          return jsonResponse({ files: [file('work', 'Work', 'root-id', { mimeType: GOOGLE_FOLDER_MIME_TYPE })] });
+        }
+        return jsonResponse({
+          files: [file('a', 'a.txt', 'work', { md5Checksum: 'abc' }), file('hidden', '.hidden', 'work')],
+          nextPageToken: 'page-2',
+        });
+      });
+
+      const page = await createProvider().listFiles({ path: '/Work', limit: 2, sortBy: 'size', sortOrder: 'desc', cursor: 'page-1' });
+
+      const list = requests[requests.length - 1];
+      expect(requests[0].headers.get('Authorization')).toBe('Bearer token');
+      expect(query(list)).toMatchObject({
+        supportsAllDrives: 'true',
+        includeItemsFromAllDrives: 'true',
+        q: "'work' in parents and trashed = false",
+        orderBy: 'folder,quotaBytesUsed desc',
+        pageSize: '2',
+        pageToken: 'page-1',
+      });
+      expect(page.files).toHaveLength(1);
+      expect(page.files[0]).toMatchObject({ id: 'a', parentId: 'work', path: '/Work/a.txt', size: 10, hash: { md5: 'abc' } });
+      expect(page).toMatchObject({ nextCursor: 'page-2', hasMore: true });
+    });
+
+    it('设置 workspace 时在共享云端硬盘内列出', async () => {
+      const { requests } = mockDrive(() => jsonResponse({ files: [file('a', 'a.txt', 'drive-1')] }));
+
+      const page = await createProvider({ workspace: 'drive-1' }).listFiles();
+
+      // 共享云端硬盘的 ID 即根文件夹 ID，不需要查询 root
+      expect(requests).toHaveLength(1);
+      expect(query(requests[0])).toMatchObject({
+        corpora: 'drive',
+        driveId: 'drive-1',
+        q: "'drive-1' in parents and trashed = false",
+      });
+      expect(page.files[0].path).toBe('/a.txt');
+    });
+  });
+
+  describe('可续传上传', () => {
+    it('按 256 KiB 对齐的分片上传，服务端只接收部分数据时继续发送剩余部分', async () => {
+      const content = new File([new Uint8Array(5 * MB + 512 * KB)], 'big.bin', { type: 'application/octet-stream' });
+      let received = 0;
+      const { requests } = mockDrive(request => {
+        if (request.method === 'POST') {
+          return new Response(null, { headers: { Location: SESSION_URL } });
+        }
+        if (request.url.toString() === SESSION_URL) {
+          const [start, end] = /bytes (\d+)-(\d+)/.exec(request.headers.get('Content-Range')!)!.slice(1).map(Number);
+          // 第一个分片只接收 1 MiB
+          received = start === 0 ? MB : end + 1;
+          return received === content.size
+            ? jsonResponse(file('big', 'big.bin', 'root-id', { size: String(content.size) }))
+            : new Response(null, { status: 308, headers: { Range: `bytes=0-${received - 1}` } });
+        }
+      });
+      const progress: number[] = [];
+
+      const task = await createProvider().uploadFile(content, {
+        fileName: 'big.bin',
+        targetPath: '/',
+        chunkSize: 3 * MB + 100,
+        onProgress: p => { progress.push(p.transferred); },
+      } as IUploadOptions);
+
+      const create = requests.find(request => request.method === 'POST')!;
+      expect(create.url.pathname).toBe('/upload/drive/v3/files');
+      expect(query(create)).toMatchObject({ uploadType: 'resumable' });
+      expect(create.headers.get('X-Upload-Content-Length')).toBe(String(content.size));
+      expect(JSON.parse(await readBody(create))).toEqual({
+        name: 'big.bin',
+        mimeType: 'application/octet-stream',
+        parents: ['root-id'],
+      });
+
+      const puts = requests.filter(request => request.method === 'PUT');
+      expect(puts.map(request => [request.headers.get('Content-Range'), (request.body as Blob).size])).toEqual([
+        ['bytes 0-3145727/5767168', 3 * MB],
+        ['bytes 1048576-3145727/5767168', 2 * MB],
+        ['bytes 3145728-5767167/5767168', 2.5 * MB],
+      ]);
+      // 会话地址本身即为凭据
+      expect(puts.every(request => !request.headers.has('Authorization'))).toBe(true);
+      expect(progress).toEqual([3 * MB, content.size, content.size]);
+      expect(task.result).toMatchObject({ success: true, fileId: 'big', filePath: '/big.bin' });
+    });
+
+    it('查询会话进度，服务端没有接收数据时报错', async () => {
+      let range: string | undefined = 'bytes=0-262143';
+      mockDrive(request => {
+        if (request.method === 'POST') {
+          return new Response(null, { headers: { Location: SESSION_URL } });
+        }
+        return new Response(null, { status: 308, headers: range ? { Range: range } : {} });
+      });
+      const provider = createProvider();
+      const content = new File([new Uint8Array(MB)], 'big.bin');
+      const session = await provider.initChunkUpload(content, { fileName: 'big.bin', targetPath: '/' } as IUploadOptions);
+
+      expect(await provider.getChunkUploadOffset(session)).toBe(256 * KB);
+
+      range = undefined;
+      const chunk: IChunkInfo = { index: 0, offset: 0, size: MB, status: TransferStatus.ACTIVE, retryCount: 0 };
+      await expect(provider.uploadChunk(session, chunk, content))
+        .rejects.toMatchObject({ message: `Upload chunk made no progress at offset ${256 * KB}`, status: 308 });
+    });
+  });
+
+  describe('监视文件夹', () => {
+    it('记录现有子项后按 changes.list 分页获取变化', async () => {
+      const changes: Record<string, unknown> = {
+        t1: {
+          changes: [{ fileId: 'c', removed: false, file: file('c', 'c.txt') }],
+          nextPageToken: 't2',
+        },
+        t2: {
+          changes: [
+            { fileId: 'a', removed: true },
+            { fileId: 'b', removed: false, file: file('b', 'b.txt', 'folder-2') },
+            { fileId: 'x', removed: false, file: file('x', 'x.txt', 'folder-2') },
+          ],
+          newStartPageToken: 't3',
+        },
+        t3: { changes: [], newStartPageToken: 't3' },
+      };
+      const { requests } = mockDrive(request => {
+        switch (request.url.pathname) {
+          case '/drive/v3/changes/startPageToken':
+            return jsonResponse({ startPageToken: 't1' });
+          case '/drive/v3/changes':
+            return jsonResponse(changes[request.url.searchParams.get('pageToken')!]);
+          case '/drive/v3/files/folder-1':
+            return jsonResponse({ id: 'folder-1', name: 'Docs', parents: ['root-id'] });
+          case '/drive/v3/files':
+            return jsonResponse({ files: [file('a', 'a.txt'), file('b', 'b.txt')] });
+        }
+      });
+      const callbacks = { onCreated: vi.fn(), onDeleted: vi.fn(), onMoved: vi.fn(), onUpdated: vi.fn(), onError: vi.fn() };
+
+      const stop = createProvider().watchFiles('folder-1', callbacks);
+      try {
+        await vi.waitFor(() => expect(callbacks.onMoved).toHaveBeenCalled());
+
+        const tokens = requests
+          .filter(request => request.url.pathname === '/drive/v3/changes')
+          .map(request => request.url.searchParams.get('pageToken'));
+        expect(tokens.slice(0, 2)).toEqual(['t1', 't2']);
+        expect(callbacks.onCreated).toHaveBeenCalledTimes(1);
+        expect(callbacks.onCreated).toHaveBeenCalledWith(expect.objectContaining({ id: 'c', path: '/Docs/c.txt' }));
+        expect(callbacks.onDeleted).toHaveBeenCalledWith('a');
+        expect(callbacks.onMoved).toHaveBeenCalledWith('b', 'folder-2');
+        expect(callbacks.onUpdated).not.toHaveBeenCalled();
+        expect(callbacks.onError).not.toHaveBeenCalled();
+      } finally {
+        stop();
+      }
+    });
+  });
+
+  describe('导出 Google 文档', () => {
+    const doc = {
+      ...file('doc-1', 'Plan', 'root-id', { size: undefined, mimeType: 'application/vnd.google-apps.document' }),
+      exportLinks: { 'application/pdf': 'https://docs.google.com/feeds/download/documents/export?id=doc-1&exportFormat=pdf' },
+    };
+
+    /**
+     * 写入内存的本地文件句柄
+     */
+    const createSaveHandle = () => {
+      const parts: string[] = [];
+      const handle = {
+        createWritable: async () => ({
+          write: async (data: Uint8Array) => { parts.push(new TextDecoder().decode(data)); },
+          close: async () => undefined,
+          abort: async () => undefined,
+        }),
+      } as unknown as FileSystemFileHandle;
+      return { handle, parts };
+    };
+
+    it('按 format 通过 exportLinks 导出，文件名追加扩展名', async () => {
+      const { requests } = mockDrive(request => {
+        if (request.url.hostname === 'docs.google.com') {
+          return new Response('%PDF');
+        }
+        return jsonResponse(doc);
+      });
+      const { handle, parts } = createSaveHandle();
+
+      const task = await createProvider().downloadFile('doc-1', { format: 'pdf', saveHandle: handle } as IDownloadOptions);
+
+      const exported = requests[requests.length - 1];
+      expect(exported.url.toString()).toBe(doc.exportLinks['application/pdf']);
+      expect(exported.headers.get('Authorization')).toBe('Bearer token');
+      expect(task.fileName).toBe('Plan.pdf');
+      expect(parts.join('')).toBe('%PDF');
+    });
+
+    it('未指定 format 时使用默认格式，没有导出链接时使用 export 接口', async () => {
+      const { requests } = mockDrive(request => {
+        if (request.url.pathname.endsWith('/export')) {
+          return new Response('docx');
+        }
+        return jsonResponse({ ...doc, exportLinks: undefined });
+      });
+
+      const task = await createProvider().downloadFile('doc-1', { saveHandle: createSaveHandle().handle } as IDownloadOptions);
+
+      const exported = requests[requests.length - 1];
+      expect(exported.url.pathname).toBe('/drive/v3/files/doc-1/export');
+      expect(exported.url.searchParams.get('mimeType'))
+        .toBe('application/vnd.openxmlformats-officedocument.wordprocessingml.document');
+      expect(task.fileName).toBe('Plan.docx');
+    });
+
+    it('拒绝不支持的格式和普通文件的格式转换', async () => {
+      mockDrive(request => jsonResponse(request.url.pathname.endsWith('/doc-1') ? doc : file('a', 'a.txt', 'root-id')));
+      const provider = createProvider();
+
+      await expect(provider.downloadFile('doc-1', { format: 'odt' } as IDownloadOptions)).rejects.toThrow('Plan cannot be exported as odt');
+      await expect(provider.downloadFile('doc-1', { format: 'abc' } as IDownloadOptions)).rejects.toThrow('Unknown export format: abc');
+      await expect(provider.downloadFile('a', { format: 'pdf' } as IDownloadOptions)).rejects.toThrow('Only Google documents can be exported: a.txt');
+    });
+  });
+
+  describe('修订版本和协作者', () => {
+    it('修订版本按页读取，最新版本在前', async () => {
+      const { requests } = mockDrive(request => jsonResponse(request.url.searchParams.get('pageToken')
+        ? { revisions: [{ id: 'r3', modifiedTime: '2024-03-01T00:00:00Z', size: '30' }] }
+        : {
+            revisions: [
+              { id: 'r1', modifiedTime: '2024-01-01T00:00:00Z', size: '10' },
+              { id: 'r2', modifiedTime: '2024-02-01T00:00:00Z', size: '20', lastModifyingUser: { displayName: 'Bob', permissionId: 'p-bob' } },
+            ],
+            nextPageToken: 'next',
+          }));
+
+      const versions = await createProvider().getFileVersions('file-1');
+
+      expect(requests.map(request => request.url.pathname)).toEqual([
+        '/drive/v3/files/file-1/revisions',
+        '/drive/v3/files/file-1/revisions',
+      ]);
+      expect(versions.map(version => [version.id, version.versionNumber, version.size, version.isCurrent])).toEqual([
+        ['r3', 3, 30, true],
+        ['r2', 2, 20, false],
+        ['r1', 1, 10, false],
+      ]);
+      expect(versions[1].modifiedBy).toEqual({ id: 'p-bob', name: 'Bob' });
+      expect(versions[0].downloadUrl).toBe(`${API}/files/file-1/revisions/r3?alt=media`);
+    });
+
+    it('只列出用户和群组权限', async () => {
+      mockDrive(() => jsonResponse({
+        permissions: [
+          { id: 'p1', type: 'user', role: 'owner', emailAddress: 'alice@example.com', displayName: 'Alice' },
+          { id: 'p2', type: 'group', role: 'fileOrganizer', emailAddress: 'team@example.com' },
+          { id: 'p3', type: 'anyone', role: 'reader' },
+        ],
+      }));
+
+      const collaborators = await createProvider().listCollaborators('file-1');
+
+      expect(collaborators.map(({ id, name, permission }) => ({ id, name, permission }))).toEqual([
+        { id: 'p1', name: 'Alice', permission: SharePermission.OWNER },
+        { id: 'p2', name: 'team@example.com', permission: SharePermission.ADMIN },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,1719 @@
+/**
+ * Google Drive 提供商实现
+ * 基于 Drive API v3，OAuth2（PKCE）授权
+ *
+ * Drive 以文件 ID 标识文件，父子关系由 parents 表示，路径通过逐级查询父文件夹得到；
+ * 以 / 开头的 ID 按路径逐级查找。config.workspace 指定共享云端硬盘 ID 时在该硬盘内操作。
+ * 大文件使用可续传上传会话按 256 KiB 对齐的分片顺序上传，Google 文档通过 format 导出为其他格式
+ */
+
+import {
+  BaseStorageProvider,
+  IFileItem,
+  IFileListResponse,
+  IFileVersion,
+  IThumbnail,
+  ICollaborator,
+  IStorageProvider,
+  IProviderConfig,
+  IProviderCapabilities,
+  IListFilesOptions,
+  IUploadOptions,
+  IDownloadOptions,
+  IShareOptions,
+  IFileWatchCallbacks,
+  IChunkUploadSession,
+  IChunkUploadResult,
+  IChunkInfo,
+  ISearchOptions,
+  ISearchResult,
+  IStorageQuota,
+  ITransferTask,
+  ITransferOptions,
+  IAuthorizationRequest,
+  OAuth2Client,
+  OAuth2Tokens,
+  isTokenExpiring,
+  FileType,
+  SharePermission,
+  TransferType,
+  TransferStatus,
+  ProviderStatus,
+  ProviderEventType,
+} from '../base';
+import { createDownloadSink } from '../../transfer/DownloadSink';
+import { classifyError, createHttpError } from '../../transfer/RetryPolicy';
+
+/**
+ * Google API 默认端点
+ */
+export const GOOGLE_API_ENDPOINT = 'https://www.googleapis.com';
+
+/**
+ * Google OAuth2 默认配置
+ */
+export const GOOGLE_DRIVE_OAUTH = {
+  authUrl: 'https://accounts.google.com/o/oauth2/v2/auth',
+  tokenUrl: 'https://oauth2.googleapis.com/token',
+  scopes: ['https://www.googleapis.com/auth/drive'],
+};
+
+/**
+ * 文件夹的 MIME 类型
+ */
+export const GOOGLE_FOLDER_MIME_TYPE = 'application/vnd.google-apps.folder';
+
+/**
+ * Google 文档（文档、表格、幻灯片等）的 MIME 类型前缀，这类文件只能导出
+ */
+const GOOGLE_APPS_PREFIX = 'application/vnd.google-apps.';
+
+/**
+ * 可续传上传的分片大小必须是 256 KiB 的整数倍
+ */
+const UPLOAD_ALIGNMENT = 256 * 1024;
+
+/**
+ * 不超过该大小的文件使用 multipart 一次上传
+ */
+const SIMPLE_UPLOAD_LIMIT = 5 * 1024 * 1024;
+
+/**
+ * 文件请求返回的字段
+ */
+const FILE_FIELDS = [
+  'id', 'name', 'mimeType', 'size', 'parents', 'driveId', 'createdTime', 'modifiedTime', 'modifiedByMeTime',
+  'md5Checksum', 'sha1Checksum', 'sha256Checksum', 'webViewLink', 'webContentLink', 'thumbnailLink',
+  'starred', 'trashed', 'shared', 'sharingUser', 'exportLinks',
+  'capabilities(canEdit,canDelete,canShare,canRename,canMoveItemWithinDrive,canCopy,canDownload)',
+].join(',');
+
+/**
+ * 导出格式：扩展名 → MIME 类型（format 也可直接使用 MIME 类型）
+ */
+export const GOOGLE_EXPORT_FORMATS: Record<string, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  odt: 'application/vnd.oasis.opendocument.text',
+  ods: 'application/x-vnd.oasis.opendocument.spreadsheet',
+  odp: 'application/vnd.oasis.opendocument.presentation',
+  rtf: 'application/rtf',
+  txt: 'text/plain',
+  md: 'text/markdown',
+  html: 'text/html',
+  zip: 'application/zip',
+  epub: 'application/epub+zip',
+  csv: 'text/csv',
+  tsv: 'text/tab-separated-values',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  svg: 'image/svg+xml',
+  json: 'application/vnd.google-apps.script+json',
+};
+
+/**
+ * 未指定 format 时各类 Google 文档的默认导出格式
+ */
+const DEFAULT_EXPORT_FORMATS: Record<string, string> = {
+  document: 'docx',
+  spreadsheet: 'xlsx',
+  presentation: 'pptx',
+  drawing: 'png',
+  script: 'json',
+};
+
+/**
+ * Google Drive 提供商能力声明
+ */
+const GOOGLE_DRIVE_CAPABILITIES: IProviderCapabilities = {
+  supports: {
+    listFiles: true,
+    uploadFile: true,
+    downloadFile: true,
+    deleteFile: true,
+    moveFile: true,
+    copyFile: true,
+    renameFile: true,
+    createFolder: true,
+    searchFiles: true,
+    shareFile: true,
+    getFileInfo: true,
+    getFileThumbnail: true,
+    getFilePreview: false,
+    batchDelete: false,
+    batchDownload: false,
+    batchMove: false,
+    batchCopy: false,
+    chunkUpload: true,
+    chunkDownload: true,
+    resumableUpload: true,
+    resumableDownload: true,
+    uploadSpeedLimit: false,
+    downloadSpeedLimit: false,
+    sync: true,
+    versioning: true,
+    conflictResolution: true,
+    metadataCache: true,
+    thumbnailCache: true,
+    encryption: false,
+    twoFactorAuth: false,
+  },
+  limits: {
+    maxFileSize: 5 * 1024 * 1024 * 1024 * 1024, // 5TB
+    maxFolderDepth: 0,
+    maxFileNameLength: 255,
+    maxPathLength: 0,
+    maxUploadConnections: 1,
+    maxDownloadConnections: 4,
+    allowedFileTypes: [],
+    blockedFileTypes: [],
+  },
+  performance: {
+    recommendedChunkSize: 8 * 1024 * 1024, // 8MB
+    maxChunkSize: 256 * 1024 * 1024, // 256MB
+    minChunkSize: UPLOAD_ALIGNMENT,
+    chunkAlignment: UPLOAD_ALIGNMENT,
+    maxConcurrentRequests: 4,
+    requestTimeout: 30000,
+    apiRateLimit: 0,
+  },
+  authMethods: ['oauth2'],
+  regions: ['global'],
+  customMetadata: false,
+};
+
+/**
+ * Drive 文件原始数据
+ */
+export interface IGoogleDriveFile {
+  id: string;
+  name: string;
+  mimeType: string;
+  size?: string;
+  parents?: string[];
+  driveId?: string;
+  createdTime?: string;
+  modifiedTime?: string;
+  modifiedByMeTime?: string;
+  md5Checksum?: string;
+  sha1Checksum?: string;
+  sha256Checksum?: string;
+  webViewLink?: string;
+  webContentLink?: string;
+  thumbnailLink?: string;
+  starred?: boolean;
+  trashed?: boolean;
+  shared?: boolean;
+  sharingUser?: Record<string, any>;
+  exportLinks?: Record<string, string>;
+  capabilities?: {
+    canEdit?: boolean;
+    canDelete?: boolean;
+    canShare?: boolean;
+    canRename?: boolean;
+    canMoveItemWithinDrive?: boolean;
+    canCopy?: boolean;
+    canDownload?: boolean;
+  };
+  path?: string;                 // 由父文件夹解析出的路径（非 API 字段）
+}
+
+/**
+ * Drive 权限
+ */
+interface IGoogleDrivePermission {
+  id: string;
+  type: 'user' | 'group' | 'domain' | 'anyone';
+  role: 'owner' | 'organizer' | 'fileOrganizer' | 'writer' | 'commenter' | 'reader';
+  emailAddress?: string;
+  displayName?: string;
+  photoLink?: string;
+  domain?: string;
+}
+
+/**
+ * Drive 修订版本
+ */
+interface IGoogleDriveRevision {
+  id: string;
+  modifiedTime: string;
+  size?: string;
+  lastModifyingUser?: { displayName?: string; permissionId?: string };
+}
+
+/**
+ * 文件变化（changes.list）
+ */
+interface IGoogleDriveChange {
+  fileId: string;
+  removed?: boolean;
+  file?: IGoogleDriveFile;
+}
+
+/**
+ * 可续传上传会话状态（保存在 session.metadata.googleDrive）
+ */
+interface IGoogleDriveSessionState {
+  size: number;                  // 文件大小
+  offset: number;                // 服务端已接收的字节数
+  folderId: string;              // 目标文件夹ID
+  file?: IGoogleDriveFile;       // 上传完成后返回的文件
+}
+
+/**
+ * 带分页令牌的列表响应
+ */
+type IGoogleDrivePage<K extends string, T> = { [key in K]?: T[] } & { nextPageToken?: string };
+
+/**
+ * Google Drive 提供商类
+ */
+export class GoogleDriveProvider extends BaseStorageProvider {
+  private apiUrl: string;
+  private uploadUrl: string;
+  private oauth?: OAuth2Client;
+  private refreshing?: Promise<void>;
+  private rootId?: string;
+  private folderPaths: Map<string, string> = new Map();
+
+  constructor(config: IProviderConfig) {
+    super(config.id, config.name, 'googledrive', config, GOOGLE_DRIVE_CAPABILITIES);
+
+    const endpoint = (config.endpoint || GOOGLE_API_ENDPOINT).replace(/\/+$/, '');
+    this.apiUrl = `${endpoint}/drive/v3`;
+    this.uploadUrl = `${endpoint}/upload/drive/v3`;
+    this.oauth = config.auth.oauth2 ? new OAuth2Client(config.auth.oauth2) : undefined;
+  }
+
+  /**
+   * 共享云端硬盘ID（未设置时使用“我的云端硬盘”）
+   */
+  private get sharedDriveId(): string | undefined {
+    return this.config.workspace || undefined;
+  }
+
+  // ============================================
+  // 初始化和连接
+  // ============================================
+
+  /**
+   * 初始化提供商
+   */
+  async initialize(): Promise<void> {
+    this.setStatus(ProviderStatus.DISCONNECTED, 'Initialized');
+  }
+
+  /**
+   * 连接到提供商（读取配额验证令牌）
+   */
+  async connect(): Promise<void> {
+    this.setStatus(ProviderStatus.CONNECTING, 'Connecting...');
+
+    try {
+      if (!this.config.tokens?.accessToken) {
+        throw new Error('Not authorized: complete the OAuth2 sign-in first');
+      }
+      this.config.quota = await this.getStorageQuota();
+      this.config.lastConnected = new Date();
+      this.setStatus(ProviderStatus.CONNECTED, 'Connected');
+    } catch (error) {
+      this.setStatus(ProviderStatus.AUTH_ERROR, (error as Error).message);
+      throw error;
+    }
+  }
+
+  /**
+   * 断开连接
+   */
+  async disconnect(): Promise<void> {
+    this.rootId = undefined;
+    this.folderPaths.clear();
+    this.setStatus(ProviderStatus.DISCONNECTED, 'Disconnected');
+  }
+
+  /**
+   * 测试连接
+   */
+  async testConnection(): Promise<boolean> {
+    try {
+      await this.api(this.url('/about', { fields: 'user' }));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * 刷新访问令牌（并发调用共用同一次刷新）
+   */
+  async refreshAuth(): Promise<void> {
+    if (!this.refreshing) {
+      this.refreshing = this.doRefreshAuth().finally(() => {
+        this.refreshing = undefined;
+      });
+    }
+    return this.refreshing;
+  }
+
+  /**
+   * 创建授权请求，调用方保存返回值后跳转到 url
+   * 默认请求离线访问，Google 只在用户授权时返回刷新令牌
+   */
+  public createAuthorizationRequest(params?: Record<string, string>): Promise<IAuthorizationRequest> {
+    return this.getOAuthClient().createAuthorizationRequest({ access_type: 'offline', prompt: 'consent', ...params });
+  }
+
+  /**
+   * 处理授权回调并保存令牌
+   * @param redirectUrl - 回调页面的完整地址
+   * @param request - createAuthorizationRequest 返回的授权请求
+   */
+  public async completeAuthorization(redirectUrl: string, request: IAuthorizationRequest): Promise<void> {
+    this.setTokens(await this.getOAuthClient().handleRedirect(redirectUrl, request));
+  }
+
+  /**
+   * 验证配置
+   */
+  public async validateConfig(config: IProviderConfig): Promise<{
+    valid: boolean;
+    errors?: string[];
+  }> {
+    const result = await super.validateConfig(config);
+    const errors = result.errors ? [...result.errors] : [];
+
+    if (!config.auth.oauth2 && !config.tokens?.accessToken) {
+      errors.push('OAuth2 configuration or access token is required');
+    }
+    if (config.endpoint) {
+      try {
+        new URL(config.endpoint);
+      } catch {
+        errors.push(`Invalid endpoint: ${config.endpoint}`);
+      }
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors: errors.length > 0 ? errors : undefined,
+    };
+  }
+
+  /**
+   * 列出当前用户可访问的共享云端硬盘（用于选择 workspace）
+   */
+  public async listSharedDrives(): Promise<Array<{ id: string; name: string }>> {
+    const drives: Array<{ id: string; name: string }> = [];
+    let pageToken: string | undefined;
+
+    do {
+      const page = await this.apiJson<IGoogleDrivePage<'drives', { id: string; name: string }>>(
+        this.url('/drives', { pageSize: '100', fields: 'nextPageToken,drives(id,name)', pageToken })
+      );
+      drives.push(...(page.drives || []));
+      pageToken = page.nextPageToken;
+    } while (pageToken);
+
+    return drives;
+  }
+
+  // ============================================
+  // 文件操作
+  // ============================================
+
+  /**
+   * 列出文件（nextCursor 为 Drive 的 nextPageToken，翻页时须传入相同的文件夹）
+   */
+  async listFiles(options?: IListFilesOptions): Promise<IFileListResponse> {
+    const folderId = await this.resolveId(options?.folderId ?? options?.path);
+    const folderPath = await this.getFolderPath(folderId);
+
+    const sortField = options?.sortBy
+      ? { name: 'name', size: 'quotaBytesUsed', modified: 'modifiedTime', created: 'createdTime' }[options.sortBy]
+      : 'name';
+    const page = await this.apiJson<IGoogleDrivePage<'files', IGoogleDriveFile>>(
+      this.url('/files', {
+        ...this.listParams(),
+        q: `'${escapeQuery(folderId)}' in parents and trashed = false`,
+        fields: `nextPageToken,files(${FILE_FIELDS})`,
+        orderBy: `folder,${sortField}${options?.sortOrder === 'desc' ? ' desc' : ''}`,
+        pageSize: options?.limit ? String(options.limit) : undefined,
+        pageToken: options?.cursor,
+      })
+    );
+
+    const files = (page.files || [])
+      .map(raw => this.normalizeFile(this.withChildPath(raw, folderPath)))
+      .filter(file => this.config.preferences?.showHiddenFiles || !file.isHidden);
+
+    return {
+      files,
+      nextCursor: page.nextPageToken,
+      hasMore: !!page.nextPageToken,
+    };
+  }
+
+  /**
+   * 获取文件信息
+   */
+  async getFileInfo(fileId: string): Promise<IFileItem> {
+    const raw = await this.getRawFile(await this.resolveId(fileId));
+    return this.normalizeFile(await this.withPath(raw));
+  }
+
+  /**
+   * 创建文件夹
+   */
+  async createFolder(name: string, parentId: string): Promise<IFileItem> {
+    const folderId = await this.resolveId(parentId);
+    const raw = await this.apiJson<IGoogleDriveFile>(this.url('/files', { fields: FILE_FIELDS }), {
+      method: 'POST',
+      body: JSON.stringify({ name, mimeType: GOOGLE_FOLDER_MIME_TYPE, parents: [folderId] }),
+    });
+    return this.normalizeFile(this.withChildPath(raw, await this.getFolderPath(folderId)));
+  }
+
+  /**
+   * 重命名文件
+   */
+  async renameFile(fileId: string, newName: string): Promise<IFileItem> {
+    const raw = await this.apiJson<IGoogleDriveFile>(
+      this.url(`/files/${encodeURIComponent(await this.resolveId(fileId))}`, { fields: FILE_FIELDS }),
+      { method: 'PATCH', body: JSON.stringify({ name: newName }) }
+    );
+    this.folderPaths.clear();
+    return this.normalizeFile(await this.withPath(raw));
+  }
+
+  /**
+   * 移动文件（替换全部父文件夹）
+   */
+  async moveFile(fileId: string, targetParentId: string): Promise<IFileItem> {
+    const id = await this.resolveId(fileId);
+    const targetId = await this.resolveId(targetParentId);
+    const current = await this.apiJson<IGoogleDriveFile>(
+      this.url(`/files/${encodeURIComponent(id)}`, { fields: 'parents' })
+    );
+
+    const raw = await this.apiJson<IGoogleDriveFile>(
+      this.url(`/files/${encodeURIComponent(id)}`, {
+        fields: FILE_FIELDS,
+        addParents: targetId,
+        removeParents: current.parents?.join(','),
+      }),
+      { method: 'PATCH', body: JSON.stringify({}) }
+    );
+    this.folderPaths.clear();
+    return this.normalizeFile(this.withChildPath(raw, await this.getFolderPath(targetId)));
+  }
+
+  /**
+   * 复制文件（Drive 不支持复制文件夹）
+   */
+  async copyFile(fileId: string, targetParentId: string, newName?: string): Promise<IFileItem> {
+    const targetId = await this.resolveId(targetParentId);
+    const raw = await this.apiJson<IGoogleDriveFile>(
+      this.url(`/files/${encodeURIComponent(await this.resolveId(fileId))}/copy`, { fields: FILE_FIELDS }),
+      {
+        method: 'POST',
+        body: JSON.stringify({ parents: [targetId], ...(newName ? { name: newName } : {}) }),
+      }
+    );
+    return this.normalizeFile(this.withChildPath(raw, await this.getFolderPath(targetId)));
+  }
+
+  /**
+   * 删除文件（默认移入回收站）
+   */
+  async deleteFile(fileId: string, permanent?: boolean): Promise<void> {
+    const url = this.url(`/files/${encodeURIComponent(await this.resolveId(fileId))}`);
+    if (permanent) {
+      await this.api(url, { method: 'DELETE' });
+    } else {
+      await this.api(url, { method: 'PATCH', body: JSON.stringify({ trashed: true }) });
+    }
+  }
+
+  /**
+   * 清空回收站（共享云端硬盘时只清空该硬盘）
+   */
+  public async emptyTrash(): Promise<void> {
+    await this.api(this.url('/files/trash', { driveId: this.sharedDriveId }), { method: 'DELETE' });
+  }
+
+  /**
+   * 从回收站恢复文件
+   */
+  public async restoreFile(fileId: string): Promise<IFileItem> {
+    const raw = await this.apiJson<IGoogleDriveFile>(
+      this.url(`/files/${encodeURIComponent(await this.resolveId(fileId))}`, { fields: FILE_FIELDS }),
+      { method: 'PATCH', body: JSON.stringify({ trashed: false }) }
+    );
+    return this.normalizeFile(await this.withPath(raw));
+  }
+
+  /**
+   * 搜索文件（按名称匹配）
+   */
+  async searchFiles(options: ISearchOptions): Promise<ISearchResult> {
+    const startedAt = Date.now();
+    const conditions = [`name contains '${escapeQuery(options.query)}'`, 'trashed = false'];
+    if (options.folderId) {
+      conditions.push(`'${escapeQuery(await this.resolveId(options.folderId))}' in parents`);
+    }
+
+    const page = await this.apiJson<IGoogleDrivePage<'files', IGoogleDriveFile>>(
+      this.url('/files', {
+        ...this.listParams(),
+        q: conditions.join(' and '),
+        fields: `files(${FILE_FIELDS})`,
+        pageSize: options.limit ? String(options.limit) : undefined,
+      })
+    );
+    const files = await Promise.all((page.files || []).map(async raw => this.normalizeFile(await this.withPath(raw))));
+
+    return {
+      files,
+      total: files.length,
+      searchTime: Date.now() - startedAt,
+    };
+  }
+
+  // ============================================
+  // 上传和下载
+  // ============================================
+
+  /**
+   * 上传文件（小文件使用 multipart 上传，大文件使用可续传上传会话）
+   * overwrite 时更新同名文件的内容（保留文件 ID 和修订历史），否则创建新文件
+   */
+  async uploadFile(file: File | Blob, options: IUploadOptions): Promise<ITransferTask> {
+    const chunkSize = this.alignChunkSize(options.chunkSize || this.capabilities.performance.recommendedChunkSize);
+
+    const task = this.createTransferTask(
+      TransferType.UPLOAD,
+      options.fileName,
+      file.size,
+      { providerId: 'local', path: options.fileName },
+      { providerId: this.id, path: options.targetPath },
+      { ...options, chunkSize } as ITransferOptions
+    );
+
+    task.status = TransferStatus.ACTIVE;
+    task.startedAt = new Date();
+
+    const reportProgress = (transferred: number) => {
+      task.progress.transferred = transferred;
+      task.progress.percentage = file.size > 0 ? (transferred / file.size) * 100 : 100;
+      options.onProgress?.(task.progress);
+    };
+
+    try {
+      let fileItem: IFileItem;
+
+      if (file.size <= SIMPLE_UPLOAD_LIMIT) {
+        fileItem = await this.uploadMultipart(file, options);
+      } else {
+        const session = await this.initChunkUpload(file, options);
+        const state = this.getSessionState(session);
+
+        for (let offset = 0, index = 0; offset < file.size; offset += chunkSize, index++) {
+          const size = Math.min(chunkSize, file.size - offset);
+          const chunk: IChunkInfo = { index, offset, size, status: TransferStatus.ACTIVE, retryCount: 0 };
+          await this.uploadChunk(session, chunk, file.slice(offset, offset + size));
+          reportProgress(state.offset);
+        }
+        fileItem = await this.completeChunkUpload(session, []);
+      }
+
+      reportProgress(file.size);
+      task.status = TransferStatus.COMPLETED;
+      task.completedAt = new Date();
+      task.destination.fileId = fileItem.id;
+      task.result = { success: true, fileId: fileItem.id, filePath: fileItem.path };
+      options.onComplete?.(task);
+    } catch (error) {
+      task.status = TransferStatus.FAILED;
+      task.error = error as Error;
+      task.errorMessage = (error as Error).message;
+      task.errorCount++;
+      options.onError?.(error as Error);
+      throw error;
+    }
+
+    return task;
+  }
+
+  /**
+   * 下载文件（流式写入本地，不在内存中缓冲整个文件）
+   * Google 文档按 options.format 导出（扩展名或 MIME 类型，未指定时使用默认格式），
+   * 导出的文件名追加对应扩展名；普通文件不支持格式转换
+   */
+  async downloadFile(fileId: string, options?: IDownloadOptions): Promise<ITransferTask> {
+    const raw = await this.withPath(await this.getRawFile(await this.resolveId(fileId)));
+    const fileInfo = this.normalizeFile(raw);
+    const range = options?.range;
+
+    let fileName = fileInfo.name;
+    let mimeType = fileInfo.mimeType;
+    let size = range ? range.end - range.start + 1 : fileInfo.size;
+    let openStream: () => Promise<ReadableStream<Uint8Array>>;
+
+    if (isGoogleDocument(raw)) {
+      if (range) {
+        throw new Error('Range downloads are not supported for exported Google documents');
+      }
+      const format = resolveExportFormat(raw, options?.format);
+      fileName = `${fileInfo.name}.${format.extension}`;
+      mimeType = format.mimeType;
+      size = 0;
+      openStream = () => this.openExportStream(raw, format.mimeType);
+    } else if (options?.format) {
+      throw new Error(`Only Google documents can be exported: ${fileInfo.name}`);
+    } else {
+      openStream = () => this.openDownloadStream(raw.id, range);
+    }
+
+    const task = this.createTransferTask(
+      TransferType.DOWNLOAD,
+      fileName,
+      size,
+      { providerId: this.id, path: fileInfo.path, fileId },
+      { providerId: 'local', path: '/' },
+      options || {} as any
+    );
+
+    task.status = TransferStatus.ACTIVE;
+    task.startedAt = new Date();
+
+    const sink = await createDownloadSink({
+      fileName,
+      size,
+      mimeType,
+      fileHandle: options?.saveHandle,
+    });
+
+    try {
+      const reader = (await openStream()).getReader();
+      let transferred = 0;
+
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+
+        await sink.write(value);
+        transferred += value.length;
+
+        task.progress.transferred = transferred;
+        task.progress.percentage = size > 0 ? (transferred / size) * 100 : 100;
+        options?.onProgress?.(task.progress);
+      }
+
+      await sink.close();
+
+      task.status = TransferStatus.COMPLETED;
+      task.progress.transferred = transferred;
+      task.progress.percentage = 100;
+      task.completedAt = new Date();
+      task.result = { success: true, fileId, filePath: fileInfo.path };
+    } catch (error) {
+      await sink.abort().catch(() => undefined);
+      task.status = TransferStatus.FAILED;
+      task.error = error as Error;
+      throw error;
+    }
+
+    return task;
+  }
+
+  /**
+   * 打开文件读取流（alt=media，支持 Range；Google 文档须通过 downloadFile 导出）
+   */
+  async openDownloadStream(
+    fileId: string,
+    range?: { start: number; end: number },
+    signal?: AbortSignal
+  ): Promise<ReadableStream<Uint8Array>> {
+    const id = await this.resolveId(fileId);
+    const response = await this.api(this.url(`/files/${encodeURIComponent(id)}`, { alt: 'media' }), {
+      headers: range ? { Range: `bytes=${range.start}-${range.end}` } : undefined,
+      signal,
+    });
+
+    if (range && response.status !== 206) {
+      throw new Error('Server does not support range requests');
+    }
+
+    if (!response.body) {
+      throw new Error('Streaming response body is not supported');
+    }
+
+    return response.body;
+  }
+
+  /**
+   * 获取下载URL（webContentLink，需在浏览器中以已登录的 Google 账户打开）
+   */
+  public async getDownloadUrl(fileId: string, _expiresIn?: number): Promise<string> {
+    const raw = await this.apiJson<IGoogleDriveFile>(
+      this.url(`/files/${encodeURIComponent(await this.resolveId(fileId))}`, { fields: 'webContentLink' })
+    );
+    if (!raw.webContentLink) {
+      throw new Error(`Download URL not available: ${fileId}`);
+    }
+    return raw.webContentLink;
+  }
+
+  // ============================================
+  // 分片上传契约（供 TransferManager 调度）
+  // ============================================
+
+  /**
+   * 创建可续传上传会话（会话地址约一周内有效）
+   */
+  async initChunkUpload(file: File | Blob, options: IUploadOptions): Promise<IChunkUploadSession> {
+    const folderId = await this.resolveId(options.parentId ?? options.targetPath);
+    const existing = options.overwrite ? await this.findChild(folderId, options.fileName) : undefined;
+    const mimeType = file.type || this.getMimeType(options.fileName);
+
+    const response = await this.api(
+      existing
+        ? this.url(`/files/${encodeURIComponent(existing.id)}`, { uploadType: 'resumable', fields: FILE_FIELDS }, this.uploadUrl)
+        : this.url('/files', { uploadType: 'resumable', fields: FILE_FIELDS }, this.uploadUrl),
+      {
+        method: existing ? 'PATCH' : 'POST',
+        headers: { 'X-Upload-Content-Type': mimeType, 'X-Upload-Content-Length': String(file.size) },
+        body: JSON.stringify(existing ? { mimeType } : { name: options.fileName, mimeType, parents: [folderId] }),
+      }
+    );
+
+    const uploadUrl = response.headers.get('Location');
+    if (!uploadUrl) {
+      throw new Error('Upload session URL missing from response');
+    }
+
+    const state: IGoogleDriveSessionState = { size: file.size, offset: 0, folderId };
+    return {
+      uploadId: uploadUrl,
+      expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+      metadata: { googleDrive: state },
+    };
+  }
+
+  /**
+   * 上传一个分片（Content-Range 指定位置，必须按顺序上传）
+   * 服务端只接收了部分数据（308 的 Range 未到分片末尾）时继续发送剩余部分
+   */
+  async uploadChunk(
+    session: IChunkUploadSession,
+    chunk: IChunkInfo,
+    data: Blob,
+    signal?: AbortSignal
+  ): Promise<IChunkUploadResult> {
+    const state = this.getSessionState(session);
+    const end = chunk.offset + chunk.size;
+
+    while (state.offset < end) {
+      const start = Math.max(chunk.offset, state.offset);
+      // 会话地址本身即为凭据，不需要携带访问令牌
+      const response = await fetch(session.uploadId, {
+        method: 'PUT',
+        headers: { 'Content-Range': `bytes ${start}-${end - 1}/${state.size}` },
+        body: start > chunk.offset ? data.slice(start - chunk.offset) : data,
+        signal,
+      });
+
+      if (!this.updateSessionState(state, response)) {
+        throw await this.toError(response, 'Upload chunk failed');
+      }
+      if (response.status === 200 || response.status === 201) {
+        state.file = await response.json();
+      } else if (state.offset <= start) {
+        throw createHttpError(response, `Upload chunk made no progress at offset ${start}`);
+      }
+    }
+
+    return {};
+  }
+
+  /**
+   * 完成上传（最后一个分片的响应即为创建的文件）
+   */
+  async completeChunkUpload(session: IChunkUploadSession, _chunks: IChunkInfo[]): Promise<IFileItem> {
+    const state = this.getSessionState(session);
+    if (!state.file) {
+      await this.getChunkUploadOffset(session);
+    }
+    if (!state.file) {
+      throw new Error(`Upload session is incomplete: ${state.offset}/${state.size} bytes received`);
+    }
+    return this.normalizeFile(this.withChildPath(state.file, await this.getFolderPath(state.folderId)));
+  }
+
+  /**
+   * 取消上传会话（成功时 Drive 返回 499）
+   */
+  async abortChunkUpload(session: IChunkUploadSession): Promise<void> {
+    const response = await fetch(session.uploadId, { method: 'DELETE' });
+    if (!response.ok && response.status !== 499 && response.status !== 404) {
+      throw await this.toError(response, 'Failed to cancel upload session');
+    }
+  }
+
+  /**
+   * 查询服务端已接收的字节数（空请求体的 Content-Range: bytes *\/总大小）
+   */
+  async getChunkUploadOffset(session: IChunkUploadSession, signal?: AbortSignal): Promise<number> {
+    const state = this.getSessionState(session);
+    const response = await fetch(session.uploadId, {
+      method: 'PUT',
+      headers: { 'Content-Range': `bytes */${state.size}` },
+      signal,
+    });
+
+    if (!this.updateSessionState(state, response)) {
+      throw await this.toError(response, 'Failed to query upload session');
+    }
+    if (response.status === 200 || response.status === 201) {
+      state.file = await response.json();
+    }
+    return state.offset;
+  }
+
+  // ============================================
+  // 缩略图
+  // ============================================
+
+  /**
+   * 获取缩略图（thumbnailLink 的 =s 参数指定尺寸）
+   */
+  public async getThumbnail(fileId: string, size: number = 256): Promise<IThumbnail> {
+    const raw = await this.apiJson<IGoogleDriveFile>(
+      this.url(`/files/${encodeURIComponent(await this.resolveId(fileId))}`, { fields: 'thumbnailLink' })
+    );
+    if (!raw.thumbnailLink) {
+      throw new Error('Thumbnail not available');
+    }
+
+    return {
+      url: raw.thumbnailLink.replace(/=s\d+$/, '') + `=s${size}`,
+      width: size,
+      height: size,
+      size: 0,
+      mimeType: 'image/png',
+    };
+  }
+
+  // ============================================
+  // 共享和协作
+  // ============================================
+
+  /**
+   * 创建分享链接（任何知道链接的人可访问，Drive 的链接不支持密码和过期时间）
+   * shareId 为 "文件ID/权限ID"
+   */
+  public async createShare(options: IShareOptions): Promise<{ shareId: string; shareUrl: string; expiresAt?: Date }> {
+    if (options.password) {
+      throw new Error('Google Drive share links do not support passwords');
+    }
+    if (options.expiresAt) {
+      throw new Error('Google Drive share links cannot expire; add collaborators with an expiration instead');
+    }
+
+    const id = await this.resolveId(options.fileId);
+    const permission = await this.apiJson<IGoogleDrivePermission>(
+      this.url(`/files/${encodeURIComponent(id)}/permissions`, { fields: 'id' }),
+      {
+        method: 'POST',
+        body: JSON.stringify({ type: 'anyone', role: options.permission === 'read' ? 'reader' : 'writer' }),
+      }
+    );
+    const raw = await this.apiJson<IGoogleDriveFile>(
+      this.url(`/files/${encodeURIComponent(id)}`, { fields: 'webViewLink' })
+    );
+
+    return {
+      shareId: `${id}/${permission.id}`,
+      shareUrl: raw.webViewLink || '',
+    };
+  }
+
+  /**
+   * 获取文件的链接分享权限
+   */
+  public async getShareInfo(fileId: string): Promise<any> {
+    const permissions = await this.listPermissions(await this.resolveId(fileId));
+    return permissions.filter(permission => permission.type === 'anyone' || permission.type === 'domain');
+  }
+
+  /**
+   * 删除分享链接
+   */
+  public async deleteShare(shareId: string): Promise<void> {
+    const separator = shareId.indexOf('/');
+    if (separator < 0) {
+      throw new Error(`Invalid share ID: ${shareId}`);
+    }
+    await this.deletePermission(shareId.slice(0, separator), shareId.slice(separator + 1));
+  }
+
+  /**
+   * 添加协作者（按邮箱授予用户权限）
+   */
+  public async addCollaborator(fileId: string, collaborator: Pick<ICollaborator, 'email' | 'permission'>): Promise<void> {
+    if (!collaborator.email) {
+      throw new Error('Collaborator email is required');
+    }
+
+    await this.api(this.url(`/files/${encodeURIComponent(await this.resolveId(fileId))}/permissions`), {
+      method: 'POST',
+      body: JSON.stringify({
+        type: 'user',
+        role: toDriveRole(collaborator.permission, !!this.sharedDriveId),
+        emailAddress: collaborator.email,
+      }),
+    });
+  }
+
+  /**
+   * 移除协作者
+   * @param userId - listCollaborators 返回的协作者 ID（Drive 权限 ID）
+   */
+  public async removeCollaborator(fileId: string, userId: string): Promise<void> {
+    await this.deletePermission(await this.resolveId(fileId), userId);
+  }
+
+  /**
+   * 列出协作者（用户和群组权限）
+   * Drive 不返回授权时间，addedAt 固定为时间零点
+   */
+  public async listCollaborators(fileId: string): Promise<ICollaborator[]> {
+    const permissions = await this.listPermissions(await this.resolveId(fileId));
+
+    return permissions
+      .filter(permission => permission.type === 'user' || permission.type === 'group')
+      .map(permission => ({
+        id: permission.id,
+        name: permission.displayName || permission.emailAddress || permission.id,
+        email: permission.emailAddress,
+        avatar: permission.photoLink,
+        permission: fromDriveRole(permission.role),
+        addedAt: new Date(0),
+      }));
+  }
+
+  // ============================================
+  // 版本控制
+  // ============================================
+
+  /**
+   * 获取文件修订版本列表（最新版本在前）
+   */
+  public async getFileVersions(fileId: string): Promise<IFileVersion[]> {
+    const id = await this.resolveId(fileId);
+    const revisions: IGoogleDriveRevision[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      const page = await this.apiJson<IGoogleDrivePage<'revisions', IGoogleDriveRevision>>(
+        this.url(`/files/${encodeURIComponent(id)}/revisions`, {
+          fields: 'nextPageToken,revisions(id,modifiedTime,size,lastModifyingUser(displayName,permissionId))',
+          pageSize: '200',
+          pageToken,
+        })
+      );
+      revisions.push(...(page.revisions || []));
+      pageToken = page.nextPageToken;
+    } while (pageToken);
+
+    return revisions.reverse().map((revision, index) => ({
+      id: revision.id,
+      versionNumber: revisions.length - index,
+      modifiedAt: new Date(revision.modifiedTime),
+      modifiedBy: {
+        id: revision.lastModifyingUser?.permissionId || '',
+        name: revision.lastModifyingUser?.displayName || '',
+      },
+      size: Number(revision.size || 0),
+      downloadUrl: `${this.apiUrl}/files/${encodeURIComponent(id)}/revisions/${encodeURIComponent(revision.id)}?alt=media`,
+      isCurrent: index === 0,
+    }));
+  }
+
+  /**
+   * 获取特定版本
+   */
+  public async getFileVersion(fileId: string, versionId: string): Promise<IFileVersion> {
+    const version = (await this.getFileVersions(fileId)).find(item => item.id === versionId);
+    if (!version) {
+      throw new Error(`Version not found: ${versionId}`);
+    }
+    return version;
+  }
+
+  /**
+   * 恢复到特定版本
+   * Drive 没有恢复接口，下载该版本内容后作为新版本上传（Google 文档不支持）
+   */
+  public async restoreFileVersion(fileId: string, versionId: string): Promise<void> {
+    const raw = await this.getRawFile(await this.resolveId(fileId));
+    if (isGoogleDocument(raw)) {
+      throw new Error('Restoring Google document revisions is not supported by the Drive API');
+    }
+
+    const revision = await this.api(
+      this.url(`/files/${encodeURIComponent(raw.id)}/revisions/${encodeURIComponent(versionId)}`, { alt: 'media' })
+    );
+    await this.api(this.url(`/files/${encodeURIComponent(raw.id)}`, { uploadType: 'media' }, this.uploadUrl), {
+      method: 'PATCH',
+      headers: { 'Content-Type': raw.mimeType },
+      body: await revision.blob(),
+    });
+  }
+
+  /**
+   * 删除特定版本
+   */
+  public async deleteFileVersion(fileId: string, versionId: string): Promise<void> {
+    const id = await this.resolveId(fileId);
+    await this.api(
+      this.url(`/files/${encodeURIComponent(id)}/revisions/${encodeURIComponent(versionId)}`),
+      { method: 'DELETE' }
+    );
+  }
+
+  // ============================================
+  // 存储配额
+  // ============================================
+
+  /**
+   * 获取存储配额（about.storageQuota，无上限时 total 为 0）
+   */
+  async getStorageQuota(): Promise<IStorageQuota> {
+    const about = await this.apiJson<{ storageQuota?: { limit?: string; usage?: string } }>(
+      this.url('/about', { fields: 'storageQuota(limit,usage)' })
+    );
+    const total = Number(about.storageQuota?.limit || 0);
+    const used = Number(about.storageQuota?.usage || 0);
+
+    return {
+      total,
+      used,
+      remaining: Math.max(0, total - used),
+      usagePercentage: total > 0 ? (used / total) * 100 : 0,
+    };
+  }
+
+  // ============================================
+  // 文件监视
+  // ============================================
+
+  /**
+   * 监视文件夹直接子项的变化（changes.list）
+   * 首次轮询取得起始令牌并记录现有子项，之后按令牌增量获取变化；令牌失效时重新开始
+   */
+  public watchFiles(folderId: string, callbacks: IFileWatchCallbacks): () => void {
+    const watcherId = `${folderId}-${Date.now()}`;
+    const known = new Map<string, string>();
+    let parentId: string | undefined;
+    let pageToken: string | undefined;
+    let polling = false;
+
+    const poll = async () => {
+      if (polling) {
+        return;
+      }
+      polling = true;
+
+      try {
+        if (!pageToken) {
+          parentId = await this.resolveId(folderId);
+          // 先取令牌再列出，列出期间的变化会在下次轮询中出现
+          const start = await this.apiJson<{ startPageToken: string }>(
+            this.url('/changes/startPageToken', { driveId: this.sharedDriveId })
+          );
+          known.clear();
+          let cursor: string | undefined;
+          do {
+            const page = await this.listFiles({ folderId: parentId, cursor });
+            page.files.forEach(file => known.set(file.id, file.parentId));
+            cursor = page.nextCursor;
+          } while (cursor);
+          pageToken = start.startPageToken;
+          return;
+        }
+
+        const { changes, newStartPageToken } = await this.fetchChanges(pageToken);
+        const folderPath = await this.getFolderPath(parentId!);
+
+        for (const change of changes) {
+          if (change.removed || !change.file || change.file.trashed) {
+            if (known.delete(change.fileId)) {
+              callbacks.onDeleted?.(change.fileId);
+            }
+            continue;
+          }
+
+          const inFolder = !!change.file.parents?.includes(parentId!);
+          const wasKnown = known.has(change.fileId);
+
+          if (inFolder) {
+            const file = this.normalizeFile(this.withChildPath(change.file, folderPath));
+            known.set(change.fileId, parentId!);
+            if (wasKnown) {
+              callbacks.onUpdated?.(file);
+            } else {
+              callbacks.onCreated?.(file);
+            }
+          } else if (wasKnown) {
+            known.delete(change.fileId);
+            callbacks.onMoved?.(change.fileId, change.file.parents?.[0] || '');
+          }
+        }
+
+        pageToken = newStartPageToken;
+      } catch (error) {
+        const status = classifyError(error).status;
+        if (status === 404 || status === 410) {
+          pageToken = undefined;
+        } else {
+          callbacks.onError?.(error as Error);
+        }
+      } finally {
+        polling = false;
+      }
+    };
+
+    poll();
+    const intervalId = setInterval(poll, this.config.sync?.interval || 30000);
+
+    const cleanup = () => {
+      clearInterval(intervalId);
+      this._fileWatchers.delete(watcherId);
+    };
+
+    this._fileWatchers.set(watcherId, { callbacks, cleanup });
+
+    return cleanup;
+  }
+
+  // ============================================
+  // 实用方法
+  // ============================================
+
+  /**
+   * 获取提供商特定功能
+   */
+  public getFeature(feature: string): any {
+    switch (feature) {
+      case 'oauth2':
+        return this.getOAuthClient();
+      case 'exportFormats':
+        return GOOGLE_EXPORT_FORMATS;
+      default:
+        return super.getFeature(feature);
+    }
+  }
+
+  /**
+   * 标准化文件项（path 由调用方解析后填入原始数据）
+   */
+  normalizeFile(rawFile: IGoogleDriveFile): IFileItem {
+    const isFolder = rawFile.mimeType === GOOGLE_FOLDER_MIME_TYPE;
+    const isRoot = rawFile.id === this.rootId || rawFile.id === this.sharedDriveId;
+    const createdAt = new Date(rawFile.createdTime || Date.now());
+    const modifiedAt = new Date(rawFile.modifiedTime || createdAt.getTime());
+    const capabilities = rawFile.capabilities || {};
+    const hasHash = !!(rawFile.md5Checksum || rawFile.sha1Checksum || rawFile.sha256Checksum);
+
+    return {
+      id: rawFile.id,
+      providerId: this.id,
+      parentId: rawFile.parents?.[0] || '',
+      path: isRoot ? '/' : rawFile.path || `/${rawFile.name}`,
+      name: rawFile.name,
+      type: isFolder ? FileType.FOLDER : FileType.FILE,
+      fileType: isFolder
+        ? FileType.FOLDER
+        : isGoogleDocument(rawFile) ? FileType.DOCUMENT : (this.getFileType(rawFile.name) as FileType),
+      size: Number(rawFile.size || 0),
+      createdAt,
+      modifiedAt,
+      downloadUrl: rawFile.webContentLink,
+      previewUrl: rawFile.webViewLink,
+      thumbnailUrl: rawFile.thumbnailLink,
+      mimeType: isFolder ? undefined : rawFile.mimeType,
+      hash: hasHash
+        ? { md5: rawFile.md5Checksum, sha1: rawFile.sha1Checksum, sha256: rawFile.sha256Checksum }
+        : undefined,
+      permissions: {
+        canRead: capabilities.canDownload ?? true,
+        canWrite: capabilities.canEdit ?? true,
+        canDelete: !isRoot && (capabilities.canDelete ?? true),
+        canShare: capabilities.canShare ?? true,
+        canRename: !isRoot && (capabilities.canRename ?? true),
+        canMove: !isRoot && (capabilities.canMoveItemWithinDrive ?? true),
+        canCopy: !isRoot && !isFolder && (capabilities.canCopy ?? true),
+      },
+      hasVersions: !isFolder,
+      isFavorite: !!rawFile.starred,
+      isOffline: false,
+      isShared: !!rawFile.shared,
+      isLocked: false,
+      isHidden: rawFile.name.startsWith('.'),
+      isTrashed: !!rawFile.trashed,
+      isEncrypted: false,
+      extensionStatus: {
+        googleDrive: {
+          webViewLink: rawFile.webViewLink,
+          webContentLink: rawFile.webContentLink,
+          thumbnailLink: rawFile.thumbnailLink,
+          modifiedByMeTime: rawFile.modifiedByMeTime,
+          sharingUser: rawFile.sharingUser,
+          driveId: rawFile.driveId,
+          exportFormats: rawFile.exportLinks ? Object.keys(rawFile.exportLinks) : undefined,
+        },
+      },
+      isCached: false,
+    };
+  }
+
+  /**
+   * 反标准化文件项
+   */
+  denormalizeFile(file: IFileItem): IGoogleDriveFile {
+    return {
+      id: file.id,
+      name: file.name,
+      mimeType: file.type === FileType.FOLDER ? GOOGLE_FOLDER_MIME_TYPE : file.mimeType || 'application/octet-stream',
+      size: file.type === FileType.FOLDER ? undefined : String(file.size),
+      parents: file.parentId ? [file.parentId] : undefined,
+      driveId: file.extensionStatus?.googleDrive?.driveId,
+      createdTime: file.createdAt.toISOString(),
+      modifiedTime: file.modifiedAt.toISOString(),
+      webViewLink: file.extensionStatus?.googleDrive?.webViewLink,
+      webContentLink: file.extensionStatus?.googleDrive?.webContentLink,
+      thumbnailLink: file.extensionStatus?.googleDrive?.thumbnailLink,
+      starred: file.isFavorite,
+      trashed: file.isTrashed,
+      shared: file.isShared,
+      path: file.path,
+    };
+  }
+
+  // ============================================
+  // 私有辅助方法
+  // ============================================
+
+  /**
+   * 发送 Drive 请求（令牌即将过期时先刷新），失败时抛出带状态码的错误
+   */
+  private async api(url: string, init: RequestInit = {}): Promise<Response> {
+    if (isTokenExpiring(this.config.tokens) && this.config.tokens?.refreshToken) {
+      await this.refreshAuth();
+    }
+
+    const headers = new Headers(init.headers);
+    if (typeof init.body === 'string' && !headers.has('Content-Type')) {
+      headers.set('Content-Type', 'application/json; charset=UTF-8');
+    }
+
+    const response = await this.fetchWithAuth(url, { ...init, headers });
+    if (!response.ok) {
+      throw await this.toError(response, 'Drive request failed');
+    }
+    return response;
+  }
+
+  /**
+   * 发送 Drive 请求并解析 JSON
+   */
+  private async apiJson<T>(url: string, init?: RequestInit): Promise<T> {
+    const response = await this.api(url, init);
+    return response.status === 204 ? (undefined as T) : response.json();
+  }
+
+  /**
+   * 构建请求地址（始终启用共享云端硬盘支持，忽略未定义的参数）
+   */
+  private url(path: string, params: Record<string, string | undefined> = {}, base: string = this.apiUrl): string {
+    const query = new URLSearchParams({ supportsAllDrives: 'true' });
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined) {
+        query.set(key, value);
+      }
+    }
+    return `${base}${path}?${query}`;
+  }
+
+  /**
+   * 列表查询的范围参数（设置 workspace 时限定在共享云端硬盘内）
+   */
+  private listParams(): Record<string, string> {
+    return this.sharedDriveId
+      ? { corpora: 'drive', driveId: this.sharedDriveId, includeItemsFromAllDrives: 'true' }
+      : { includeItemsFromAllDrives: 'true' };
+  }
+
+  /**
+   * 由错误响应创建带状态码的错误
+   * Drive 以 403 返回限流错误，按 429 处理以便重试
+   */
+  private async toError(response: Response, message: string): Promise<Error> {
+    const body = await response.json().catch(() => undefined);
+    const detail = body?.error?.message || response.statusText;
+    const reason = body?.error?.errors?.[0]?.reason;
+    const error = createHttpError(response, `${message} (${response.status}): ${detail}`);
+
+    if (response.status === 403 && (reason === 'userRateLimitExceeded' || reason === 'rateLimitExceeded')) {
+      error.status = 429;
+    }
+    return error;
+  }
+
+  private async doRefreshAuth(): Promise<void> {
+    const refreshToken = this.config.tokens?.refreshToken;
+    if (!refreshToken) {
+      throw new Error('No refresh token available');
+    }
+
+    try {
+      this.setTokens(await this.getOAuthClient().refresh(refreshToken));
+    } catch (error) {
+      this.setStatus(ProviderStatus.AUTH_ERROR, (error as Error).message);
+      throw error;
+    }
+  }
+
+  /**
+   * 保存令牌并通知（调用方监听 TOKEN_REFRESHED 持久化配置）
+   */
+  private setTokens(tokens: OAuth2Tokens): void {
+    this.config.tokens = { ...this.config.tokens, ...tokens };
+    this.emit({
+      type: ProviderEventType.TOKEN_REFRESHED,
+      timestamp: new Date(),
+      data: { tokens: this.config.tokens },
+    });
+  }
+
+  private getOAuthClient(): OAuth2Client {
+    if (!this.oauth) {
+      throw new Error('OAuth2 is not configured for this provider');
+    }
+    return this.oauth;
+  }
+
+  /**
+   * 根文件夹ID（共享云端硬盘的 ID 即其根文件夹 ID）
+   */
+  private async getRootId(): Promise<string> {
+    if (this.sharedDriveId) {
+      return this.sharedDriveId;
+    }
+    if (!this.rootId) {
+      const root = await this.apiJson<IGoogleDriveFile>(this.url('/files/root', { fields: 'id' }));
+      this.rootId = root.id;
+    }
+    return this.rootId;
+  }
+
+  /**
+   * 文件标识解析为文件ID：空值、/ 和 root 为根文件夹，以 / 开头时按路径逐级查找
+   */
+  private async resolveId(idOrPath?: string): Promise<string> {
+    if (!idOrPath || idOrPath === '/' || idOrPath === 'root') {
+      return this.getRootId();
+    }
+    if (!idOrPath.startsWith('/')) {
+      return idOrPath;
+    }
+
+    let id = await this.getRootId();
+    let path = '';
+    for (const name of idOrPath.split('/').filter(Boolean)) {
+      const child = await this.findChild(id, name);
+      if (!child) {
+        throw new Error(`File not found: ${idOrPath}`);
+      }
+      id = child.id;
+      path += `/${name}`;
+      if (child.mimeType === GOOGLE_FOLDER_MIME_TYPE) {
+        this.folderPaths.set(id, path);
+      }
+    }
+    return id;
+  }
+
+  /**
+   * 查找文件夹中指定名称的子项（Drive 允许重名，取第一个）
+   */
+  private async findChild(folderId: string, name: string): Promise<IGoogleDriveFile | undefined> {
+    const page = await this.apiJson<IGoogleDrivePage<'files', IGoogleDriveFile>>(
+      this.url('/files', {
+        ...this.listParams(),
+        q: `'${escapeQuery(folderId)}' in parents and name = '${escapeQuery(name)}' and trashed = false`,
+        fields: `files(${FILE_FIELDS})`,
+        pageSize: '1',
+      })
+    );
+    return page.files?.[0];
+  }
+
+  private getRawFile(id: string): Promise<IGoogleDriveFile> {
+    return this.apiJson<IGoogleDriveFile>(this.url(`/files/${encodeURIComponent(id)}`, { fields: FILE_FIELDS }));
+  }
+
+  /**
+   * 文件夹路径（逐级查询父文件夹并缓存）
+   * 无法访问的父文件夹（如他人共享的文件所在位置）视为根目录
+   */
+  private async getFolderPath(folderId: string): Promise<string> {
+    if (folderId === await this.getRootId()) {
+      return '/';
+    }
+    const cached = this.folderPaths.get(folderId);
+    if (cached) {
+      return cached;
+    }
+
+    let folder: IGoogleDriveFile;
+    try {
+      folder = await this.apiJson<IGoogleDriveFile>(
+        this.url(`/files/${encodeURIComponent(folderId)}`, { fields: 'id,name,parents' })
+      );
+    } catch (error) {
+      const status = classifyError(error).status;
+      if (status === 403 || status === 404) {
+        return '/';
+      }
+      throw error;
+    }
+
+    const parentPath = folder.parents?.[0] ? await this.getFolderPath(folder.parents[0]) : '/';
+    const path = joinPath(parentPath, folder.name);
+    this.folderPaths.set(folderId, path);
+    return path;
+  }
+
+  /**
+   * 补充原始数据的路径
+   */
+  private async withPath(raw: IGoogleDriveFile): Promise<IGoogleDriveFile> {
+    const parentPath = raw.parents?.[0] ? await this.getFolderPath(raw.parents[0]) : '/';
+    return this.withChildPath(raw, parentPath);
+  }
+
+  /**
+   * 按已知的父文件夹路径补充路径，文件夹同时写入路径缓存
+   */
+  private withChildPath(raw: IGoogleDriveFile, parentPath: string): IGoogleDriveFile {
+    const path = joinPath(parentPath, raw.name);
+    if (raw.mimeType === GOOGLE_FOLDER_MIME_TYPE) {
+      this.folderPaths.set(raw.id, path);
+    }
+    return { ...raw, path };
+  }
+
+  /**
+   * multipart 上传（元数据和内容在同一请求中）
+   */
+  private async uploadMultipart(file: File | Blob, options: IUploadOptions): Promise<IFileItem> {
+    const folderId = await this.resolveId(options.parentId ?? options.targetPath);
+    const existing = options.overwrite ? await this.findChild(folderId, options.fileName) : undefined;
+    const mimeType = file.type || this.getMimeType(options.fileName);
+    const metadata = existing ? { mimeType } : { name: options.fileName, mimeType, parents: [folderId] };
+    const boundary = `cloud-core-${Math.random().toString(36).slice(2)}`;
+
+    const body = new Blob([
+      `--${boundary}\r\nContent-Type: application/json; charset=UTF-8\r\n\r\n${JSON.stringify(metadata)}\r\n`,
+      `--${boundary}\r\nContent-Type: ${mimeType}\r\n\r\n`,
+      file,
+      `\r\n--${boundary}--`,
+    ]);
+
+    const raw = await this.apiJson<IGoogleDriveFile>(
+      existing
+        ? this.url(`/files/${encodeURIComponent(existing.id)}`, { uploadType: 'multipart', fields: FILE_FIELDS }, this.uploadUrl)
+        : this.url('/files', { uploadType: 'multipart', fields: FILE_FIELDS }, this.uploadUrl),
+      {
+        method: existing ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': `multipart/related; boundary=${boundary}` },
+        body,
+      }
+    );
+    return this.normalizeFile(this.withChildPath(raw, await this.getFolderPath(folderId)));
+  }
+
+  /**
+   * 按会话响应更新已接收的字节数
+   * @returns 响应是否为会话的正常状态（308 未完成或 200/201 已完成）
+   */
+  private updateSessionState(state: IGoogleDriveSessionState, response: Response): boolean {
+    if (response.status === 308) {
+      // Range: bytes=0-N，没有 Range 表示尚未接收任何数据
+      const match = /bytes=\d+-(\d+)/.exec(response.headers.get('Range') || '');
+      state.offset = match ? Number(match[1]) + 1 : 0;
+      return true;
+    }
+    if (response.status === 200 || response.status === 201) {
+      state.offset = state.size;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * 打开 Google 文档的导出流（优先使用 exportLinks，export 接口限制 10MB）
+   */
+  private async openExportStream(raw: IGoogleDriveFile, mimeType: string): Promise<ReadableStream<Uint8Array>> {
+    const url = raw.exportLinks?.[mimeType]
+      ?? this.url(`/files/${encodeURIComponent(raw.id)}/export`, { mimeType });
+    const response = await this.api(url);
+
+    if (!response.body) {
+      throw new Error('Streaming response body is not supported');
+    }
+    return response.body;
+  }
+
+  /**
+   * 依次读取 changes 分页，返回全部变化和新的起始令牌
+   */
+  private async fetchChanges(pageToken: string): Promise<{ changes: IGoogleDriveChange[]; newStartPageToken: string }> {
+    const changes: IGoogleDriveChange[] = [];
+    let token = pageToken;
+
+    for (;;) {
+      const page = await this.apiJson<{
+        changes: IGoogleDriveChange[];
+        nextPageToken?: string;
+        newStartPageToken?: string;
+      }>(
+        this.url('/changes', {
+          pageToken: token,
+          driveId: this.sharedDriveId,
+          includeItemsFromAllDrives: 'true',
+          fields: `nextPageToken,newStartPageToken,changes(fileId,removed,file(${FILE_FIELDS}))`,
+        })
+      );
+      changes.push(...page.changes);
+      if (page.newStartPageToken) {
+        return { changes, newStartPageToken: page.newStartPageToken };
+      }
+      if (!page.nextPageToken) {
+        return { changes, newStartPageToken: token };
+      }
+      token = page.nextPageToken;
+    }
+  }
+
+  private async listPermissions(fileId: string): Promise<IGoogleDrivePermission[]> {
+    const page = await this.apiJson<IGoogleDrivePage<'permissions', IGoogleDrivePermission>>(
+      this.url(`/files/${encodeURIComponent(fileId)}/permissions`, {
+        fields: 'permissions(id,type,role,emailAddress,displayName,photoLink,domain)',
+      })
+    );
+    return page.permissions || [];
+  }
+
+  private async deletePermission(fileId: string, permissionId: string): Promise<void> {
+    await this.api(
+      this.url(`/files/${encodeURIComponent(fileId)}/permissions/${encodeURIComponent(permissionId)}`),
+      { method: 'DELETE' }
+    );
+  }
+
+  private getSessionState(session: IChunkUploadSession): IGoogleDriveSessionState {
+    const state = session.metadata?.googleDrive as IGoogleDriveSessionState | undefined;
+    if (!state) {
+      throw new Error(`Invalid Google Drive upload session: ${session.uploadId}`);
+    }
+    return state;
+  }
+
+  /**
+   * 分片大小按 256 KiB 对齐
+   */
+  private alignChunkSize(chunkSize: number): number {
+    return Math.max(UPLOAD_ALIGNMENT, Math.floor(chunkSize / UPLOAD_ALIGNMENT) * UPLOAD_ALIGNMENT);
+  }
+}
+
+/**
+ * 是否为只能导出的 Google 文档（文件夹除外）
+ */
+function isGoogleDocument(raw: IGoogleDriveFile): boolean {
+  return raw.mimeType.startsWith(GOOGLE_APPS_PREFIX) && raw.mimeType !== GOOGLE_FOLDER_MIME_TYPE;
+}
+
+/**
+ * 解析导出格式（扩展名或 MIME 类型），并检查文档是否支持该格式
+ */
+function resolveExportFormat(raw: IGoogleDriveFile, format?: string): { mimeType: string; extension: string } {
+  const requested = format || DEFAULT_EXPORT_FORMATS[raw.mimeType.slice(GOOGLE_APPS_PREFIX.length)] || 'pdf';
+  const mimeType = requested.includes('/') ? requested : GOOGLE_EXPORT_FORMATS[requested.toLowerCase()];
+  if (!mimeType) {
+    throw new Error(`Unknown export format: ${requested}`);
+  }
+  if (raw.exportLinks && !raw.exportLinks[mimeType]) {
+    throw new Error(`${raw.name} cannot be exported as ${requested}`);
+  }
+
+  const extension = Object.keys(GOOGLE_EXPORT_FORMATS).find(key => GOOGLE_EXPORT_FORMATS[key] === mimeType)
+    ?? mimeType.split('/').pop()!;
+  return { mimeType, extension };
+}
+
+/**
+ * 转义查询字符串中的单引号和反斜杠
+ */
+function escapeQuery(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+}
+
+function joinPath(parentPath: string, name: string): string {
+  return `${parentPath.replace(/\/+$/, '')}/${name}`;
+}
+
+/**
+ * 共享权限 → Drive 角色（管理员角色只存在于共享云端硬盘）
+ */
+function toDriveRole(permission: SharePermission, sharedDrive: boolean): IGoogleDrivePermission['role'] {
+  switch (permission) {
+    case SharePermission.READ:
+      return 'reader';
+    case SharePermission.ADMIN:
+      return sharedDrive ? 'organizer' : 'writer';
+    default:
+      return 'writer';
+  }
+}
+
+/**
+ * Drive 角色 → 共享权限
+ */
+function fromDriveRole(role: IGoogleDrivePermission['role']): SharePermission {
+  switch (role) {
+    case 'owner':
+      return SharePermission.OWNER;
+    case 'organizer':
+    case 'fileOrganizer':
+      return SharePermission.ADMIN;
+    case 'writer':
+      return SharePermission.WRITE;
+    default:
+      return SharePermission.READ;
+  }
+}
+
+/**
+ * 创建Google Drive提供商实例
+ */
+export function createGoogleDriveProvider(config: IProviderConfig): IStorageProvider {
+  return new GoogleDriveProvider(config);
+}
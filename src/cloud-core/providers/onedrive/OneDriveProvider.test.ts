@@ -0,0 +1,285 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { OneDriveProvider } from './OneDriveProvider';
+import { IChunkInfo, IProviderConfig, IUploadOptions, TransferStatus } from '../base';
+import { mockFetch, readBody, jsonResponse, IRecordedRequest } from '../../testing/mockFetch';
+
+const DRIVE = 'https://graph.microsoft.com/v1.0/me/drive';
+const UPLOAD_URL = 'https://upload.example.com/session-1';
+const KB = 1024;
+
+const createProvider = () => new OneDriveProvider({
+  id: 'onedrive-test',
+  name: 'OneDrive Test',
+  type: 'onedrive',
+  enabled: true,
+  auth: {},
+  tokens: { accessToken: 'token' },
+  sync: { interval: 10 },
+} as IProviderConfig);
+
+const item = (id: string, name: string, parentId = 'folder-1', extra: Record<string, unknown> = {}) => ({
+  id,
+  name,
+  size: 10,
+  file: { mimeType: 'text/plain' },
+  parentReference: { id: parentId, path: '/drive/root:/Documents' },
+  ...extra,
+});
+
+const createChunk = (index: number, offset: number, size: number) =>
+  ({ index, offset, size, status: TransferStatus.ACTIVE, retryCount: 0 }) as IChunkInfo;
+
+/**
+ * 请求的 Content-Range 和请求体大小
+ */
+const fragment = (request: IRecordedRequest) => [request.headers.get('Content-Range'), (request.body as Blob).size];
+
+describe('OneDriveProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('列出文件', () => {
+    it('按路径列出并通过 nextLink 翻页', async () => {
+      const nextLink = `${DRIVE}/root:/Documents:/children?$skiptoken=page2`;
+      const { requests } = mockFetch(request => {
+        if (request.url.searchParams.get('$skiptoken') === 'page2') {
+          return jsonResponse({ value: [item('c', 'c.txt')] });
+        }
+        return jsonResponse({
+          value: [item('a', 'a.txt'), item('hidden', '.hidden'), item('b', 'b', 'folder-1', { file: undefined, folder: {} })],
+          '@odata.nextLink': nextLink,
+        });
+      });
+      const provider = createProvider();
+
+      const first = await provider.listFiles({ path: '/Documents', limit: 2, sortBy: 'modified', sortOrder: 'desc' });
+
+      expect(requests[0].url.pathname).toBe('/v1.0/me/drive/root:/Documents:/children');
+      expect(Object.fromEntries(requests[0].url.searchParams)).toEqual({
+        $expand: 'thumbnails',
+        $top: '2',
+        $orderby: 'lastModifiedDateTime desc',
+      });
+      expect(requests[0].headers.get('Authorization')).toBe('Bearer token');
+      expect(first.files.map(file => [file.name, file.type, file.path])).toEqual([
+        ['a.txt', 'file', '/Documents/a.txt'],
+        ['b', 'folder', '/Documents/b'],
+      ]);
+      expect(first).toMatchObject({ hasMore: true, nextCursor: nextLink });
+
+      const second = await provider.listFiles({ cursor: first.nextCursor });
+
+      expect(requests[1].url.toString()).toBe(nextLink);
+      expect(second.files.map(file => file.id)).toEqual(['c']);
+      expect(second.hasMore).toBe(false);
+    });
+
+    it('监视文件夹时读取全部 delta 分页，之后按 deltaLink 增量获取', async () => {
+      const deltaUrl = (token: string) => `${DRIVE}/items/folder-1/delta?token=${token}`;
+      const changes = [
+        item('c', 'c.txt'),
+        { id: 'a', name: 'a.txt', deleted: { state: 'deleted' } },
+        item('b', 'b.txt', 'folder-2'),
+      ];
+      const { requests } = mockFetch(request => {
+        switch (request.url.searchParams.get('token')) {
+          case null:
+            return jsonResponse({
+              value: [{ id: 'folder-1', name: 'Documents', folder: {} }, item('a', 'a.txt')],
+              '@odata.nextLink': deltaUrl('page2'),
+            });
+          case 'page2':
+            return jsonResponse({ value: [item('b', 'b.txt')], '@odata.deltaLink': deltaUrl('d1') });
+          case 'd1':
+            return jsonResponse({ value: changes.splice(0), '@odata.deltaLink': deltaUrl('d1') });
+        }
+      });
+      const callbacks = { onCreated: vi.fn(), onDeleted: vi.fn(), onMoved: vi.fn(), onUpdated: vi.fn(), onError: vi.fn() };
+
+      const stop = createProvider().watchFiles('folder-1', callbacks);
+      try {
+        await vi.waitFor(() => expect(callbacks.onMoved).toHaveBeenCalled());
+
+        expect(requests.slice(0, 3).map(request => request.url.toString())).toEqual([
+          `${DRIVE}/items/folder-1/delta`,
+          deltaUrl('page2'),
+          deltaUrl('d1'),
+        ]);
+        // 首次查询只记录现有文件
+        expect(callbacks.onCreated).toHaveBeenCalledTimes(1);
+        expect(callbacks.onCreated).toHaveBeenCalledWith(expect.objectContaining({ id: 'c', name: 'c.txt' }));
+        expect(callbacks.onDeleted).toHaveBeenCalledWith('a');
+        expect(callbacks.onMoved).toHaveBeenCalledWith('b', 'folder-2');
+        expect(callbacks.onUpdated).not.toHaveBeenCalled();
+        expect(callbacks.onError).not.toHaveBeenCalled();
+      } finally {
+        stop();
+      }
+    });
+
+    it('deltaLink 失效（410）时重新全量查询，比对出已删除的文件', async () => {
+      let fullQueries = 0;
+      mockFetch(request => {
+        if (request.url.searchParams.get('token') === 'expired') {
+          return jsonResponse({ error: { message: 'Resync required' } }, { status: 410 });
+        }
+        fullQueries++;
+        return jsonResponse({
+          value: fullQueries === 1 ? [item('a', 'a.txt'), item('b', 'b.txt')] : [item('a', 'a.txt')],
+          '@odata.deltaLink': `${DRIVE}/items/folder-1/delta?token=expired`,
+        });
+      });
+      const callbacks = { onDeleted: vi.fn(), onError: vi.fn() };
+
+      const stop = createProvider().watchFiles('folder-1', callbacks);
+      try {
+        await vi.waitFor(() => expect(callbacks.onDeleted).toHaveBeenCalledWith('b'));
+
+        expect(callbacks.onDeleted).toHaveBeenCalledTimes(1);
+        expect(callbacks.onError).not.toHaveBeenCalled();
+      } finally {
+        stop();
+      }
+    });
+  });
+
+  describe('上传会话', () => {
+    const options = { fileName: 'big.bin', targetPath: '/Documents', chunkSize: 1300 * KB } as IUploadOptions;
+
+    it('大文件创建上传会话，按 320 KiB 对齐的分片顺序上传', async () => {
+      const file = new File([new Uint8Array(5 * 1024 * KB)], 'big.bin');
+      const { requests } = mockFetch(async request => {
+        if (request.url.pathname.endsWith('/createUploadSession')) {
+          return jsonResponse({ uploadUrl: UPLOAD_URL, expirationDateTime: '2030-01-01T00:00:00Z' });
+        }
+        if (request.url.toString() === UPLOAD_URL && request.method === 'PUT') {
+          const [, end, size] = /bytes \d+-(\d+)\/(\d+)/.exec(request.headers.get('Content-Range')!)!.map(Number);
+          return end + 1 === size
+            ? jsonResponse(item('big', 'big.bin', 'folder-1', { size }), { status: 201 })
+            : jsonResponse({ nextExpectedRanges: [`${end + 1}-`] }, { status: 202 });
+        }
+      });
+      const progress: number[] = [];
+
+      const task = await createProvider().uploadFile(file, { ...options, onProgress: p => progress.push(p.transferred) });
+
+      const [create, ...fragments] = requests;
+      expect(create.method).toBe('POST');
+      expect(create.url.pathname).toBe('/v1.0/me/drive/root:/Documents/big.bin:/createUploadSession');
+      expect(JSON.parse(await readBody(create))).toEqual({ item: { '@microsoft.graph.conflictBehavior': 'rename' } });
+
+      // 1300 KiB 对齐为 1280 KiB
+      expect(fragments.map(fragment)).toEqual([
+        ['bytes 0-1310719/5242880', 1280 * KB],
+        ['bytes 1310720-2621439/5242880', 1280 * KB],
+        ['bytes 2621440-3932159/5242880', 1280 * KB],
+        ['bytes 3932160-5242879/5242880', 1280 * KB],
+      ]);
+      // 上传地址已预先授权，不携带访问令牌
+      expect(fragments.every(request => !request.headers.has('Authorization'))).toBe(true);
+      expect(progress).toEqual([1310720, 2621440, 3932160, 5242880, 5242880]);
+      expect(task.result).toMatchObject({ success: true, fileId: 'big' });
+    });
+
+    it('从服务端期望的位置继续，只发送分片的剩余部分', async () => {
+      const { requests } = mockFetch(request => {
+        if (request.url.pathname.endsWith('/createUploadSession')) {
+          return jsonResponse({ uploadUrl: UPLOAD_URL });
+        }
+        if (request.method === 'GET') {
+          return jsonResponse({ nextExpectedRanges: ['409600-'] });
+        }
+        return jsonResponse({ nextExpectedRanges: ['655360-'] }, { status: 202 });
+      });
+      const provider = createProvider();
+      const file = new File([new Uint8Array(1280 * KB)], 'big.bin');
+
+      const session = await provider.initChunkUpload(file, options);
+      expect(await provider.getChunkUploadOffset(session)).toBe(409600);
+      await provider.uploadChunk(session, createChunk(0, 0, 640 * KB), file.slice(0, 640 * KB));
+
+      expect(fragment(requests[2])).toEqual(['bytes 409600-655359/1310720', 240 * KB]);
+      expect((session.metadata!.oneDrive as { offset: number }).offset).toBe(655360);
+    });
+
+    it('范围已被接收（416）时按服务端进度校正，否则报错', async () => {
+      let expected = '655360-';
+      mockFetch(request => {
+        if (request.url.pathname.endsWith('/createUploadSession')) {
+          return jsonResponse({ uploadUrl: UPLOAD_URL });
+        }
+        if (request.method === 'GET') {
+          return jsonResponse({ nextExpectedRanges: [expected] });
+        }
+        return new Response(null, { status: 416, statusText: 'Requested Range Not Satisfiable' });
+      });
+      const provider = createProvider();
+      const file = new File([new Uint8Array(1280 * KB)], 'big.bin');
+      const session = await provider.initChunkUpload(file, options);
+
+      await expect(provider.uploadChunk(session, createChunk(0, 0, 640 * KB), file.slice(0, 640 * KB))).resolves.toEqual({});
+
+      expected = '700000-';
+      await expect(provider.uploadChunk(session, createChunk(1, 640 * KB, 640 * KB), file.slice(640 * KB)))
+        .rejects.toMatchObject({ message: 'Upload fragment rejected at offset 655360', status: 416 });
+    });
+  });
+
+  describe('分享', () => {
+    it('创建带过期时间和密码的匿名链接', async () => {
+      const { requests } = mockFetch(request => {
+        if (request.url.pathname.endsWith('/createLink')) {
+          return jsonResponse({
+            id: 'perm-1',
+            link: { webUrl: 'https://1drv.ms/t/s!abc' },
+            expirationDateTime: '2030-01-02T00:00:00Z',
+          });
+        }
+        if (request.method === 'DELETE') {
+          return new Response(null, { status: 204 });
+        }
+        return jsonResponse(item('item-1', 'a.txt'));
+      });
+      const provider = createProvider();
+
+      const share = await provider.createShare({
+        fileId: '/Documents/a.txt',
+        shareType: 'link',
+        permission: 'read',
+        expiresAt: new Date('2030-01-01T12:00:00Z'),
+        password: 'p@ss',
+        allowDownload: true,
+      });
+
+      // 路径形式的标识先解析为 driveItem ID
+      expect(requests[0].url.pathname).toBe('/v1.0/me/drive/root:/Documents/a.txt:');
+      expect(requests[1].method).toBe('POST');
+      expect(requests[1].url.pathname).toBe('/v1.0/me/drive/items/item-1/createLink');
+      expect(JSON.parse(await readBody(requests[1]))).toEqual({
+        type: 'view',
+        scope: 'anonymous',
+        expirationDateTime: '2030-01-01T12:00:00.000Z',
+        password: 'p@ss',
+      });
+      expect(share).toEqual({
+        shareId: 'item-1/perm-1',
+        shareUrl: 'https://1drv.ms/t/s!abc',
+        expiresAt: new Date('2030-01-02T00:00:00Z'),
+      });
+
+      await provider.deleteShare(share.shareId);
+      expect(requests[2].method).toBe('DELETE');
+      expect(requests[2].url.pathname).toBe('/v1.0/me/drive/items/item-1/permissions/perm-1');
+    });
+
+    it('没有过期时间和密码时不提交这些字段', async () => {
+      const { requests } = mockFetch(() => jsonResponse({ id: 'perm-2', link: { webUrl: 'https://1drv.ms/w/s!def' } }));
+
+      const share = await createProvider().createShare({ fileId: 'item-2', shareType: 'link', permission: 'write', allowDownload: true });
+
+      expect(JSON.parse(await readBody(requests[0]))).toEqual({ type: 'edit', scope: 'anonymous' });
+      expect(share.expiresAt).toBeUndefined();
+    });
+  });
+});
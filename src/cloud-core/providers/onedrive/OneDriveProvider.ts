@@ -0,0 +1,1280 @@
+/**
+ * OneDrive 提供商实现
+ * 基于 Microsoft Graph driveItem API，OAuth2（PKCE）授权
+ *
+ * 文件以 driveItem ID 标识，以 / 开头的 ID 按路径访问；
+ * 大文件使用上传会话按 320 KiB 对齐的分片顺序上传，下载使用预签名的 downloadUrl
+ */
+
+import {
+  BaseStorageProvider,
+  IFileItem,
+  IFileListResponse,
+  IFileVersion,
+  IThumbnail,
+  IStorageProvider,
+  IProviderConfig,
+  IProviderCapabilities,
+  IListFilesOptions,
+  IUploadOptions,
+  IDownloadOptions,
+  IShareOptions,
+  IFileWatchCallbacks,
+  IChunkUploadSession,
+  IChunkUploadResult,
+  IChunkInfo,
+  ISearchOptions,
+  ISearchResult,
+  IStorageQuota,
+  ITransferTask,
+  ITransferOptions,
+  IAuthorizationRequest,
+  OAuth2Client,
+  OAuth2Tokens,
+  isTokenExpiring,
+  FileType,
+  TransferType,
+  TransferStatus,
+  ProviderStatus,
+  ProviderEventType,
+} from '../base';
+import { createDownloadSink } from '../../transfer/DownloadSink';
+import { classifyError, createHttpError, sleep } from '../../transfer/RetryPolicy';
+
+/**
+ * Microsoft Graph 默认端点
+ */
+export const GRAPH_ENDPOINT = 'https://graph.microsoft.com/v1.0';
+
+/**
+ * Microsoft 身份平台 OAuth2 默认配置（个人和工作/学校账户）
+ */
+export const ONEDRIVE_OAUTH = {
+  authUrl: 'https://login.microsoftonline.com/common/oauth2/v2.0/authorize',
+  tokenUrl: 'https://login.microsoftonline.com/common/oauth2/v2.0/token',
+  scopes: ['Files.ReadWrite.All', 'offline_access', 'User.Read'],
+};
+
+/**
+ * 上传会话分片大小必须是 320 KiB 的整数倍
+ */
+const FRAGMENT_ALIGNMENT = 320 * 1024;
+
+/**
+ * 不超过该大小的文件直接 PUT 上传
+ */
+const SIMPLE_UPLOAD_LIMIT = 4 * 1024 * 1024;
+
+/**
+ * downloadUrl 缓存时间（链接约 1 小时后失效）
+ */
+const DOWNLOAD_URL_TTL = 10 * 60 * 1000;
+
+/**
+ * 复制任务状态轮询间隔
+ */
+const COPY_POLL_INTERVAL = 1000;
+
+/**
+ * OneDrive 提供商能力声明
+ */
+const ONEDRIVE_CAPABILITIES: IProviderCapabilities = {
+  supports: {
+    listFiles: true,
+    uploadFile: true,
+    downloadFile: true,
+    deleteFile: true,
+    moveFile: true,
+    copyFile: true,
+    renameFile: true,
+    createFolder: true,
+    searchFiles: true,
+    shareFile: true,
+    getFileInfo: true,
+    getFileThumbnail: true,
+    getFilePreview: false,
+    batchDelete: false,
+    batchDownload: false,
+    batchMove: false,
+    batchCopy: false,
+    chunkUpload: true,
+    chunkDownload: true,
+    resumableUpload: true,
+    resumableDownload: true,
+    uploadSpeedLimit: false,
+    downloadSpeedLimit: false,
+    sync: true,
+    versioning: true,
+    conflictResolution: true,
+    metadataCache: true,
+    thumbnailCache: true,
+    encryption: false,
+    twoFactorAuth: false,
+  },
+  limits: {
+    maxFileSize: 250 * 1024 * 1024 * 1024, // 250GB
+    maxFolderDepth: 0,
+    maxFileNameLength: 255,
+    maxPathLength: 400,
+    maxUploadConnections: 1,
+    maxDownloadConnections: 4,
+    allowedFileTypes: [],
+    blockedFileTypes: [],
+  },
+  performance: {
+    recommendedChunkSize: 10 * 1024 * 1024, // 10MB
+    maxChunkSize: 60 * 1024 * 1024, // 60MB
+    minChunkSize: FRAGMENT_ALIGNMENT,
+    chunkAlignment: FRAGMENT_ALIGNMENT,
+    maxConcurrentRequests: 4,
+    requestTimeout: 30000,
+    apiRateLimit: 0,
+  },
+  authMethods: ['oauth2'],
+  regions: ['global'],
+  customMetadata: false,
+};
+
+/**
+ * Graph driveItem 原始数据
+ */
+export interface IOneDriveItem {
+  id: string;
+  name: string;
+  size?: number;
+  createdDateTime?: string;
+  lastModifiedDateTime?: string;
+  webUrl?: string;
+  eTag?: string;
+  cTag?: string;
+  file?: {
+    mimeType?: string;
+    hashes?: { sha1Hash?: string; sha256Hash?: string; crc32Hash?: string; quickXorHash?: string };
+  };
+  folder?: { childCount?: number };
+  root?: Record<string, never>;
+  deleted?: { state?: string };
+  shared?: Record<string, any>;
+  parentReference?: { driveId?: string; id?: string; path?: string };
+  fileSystemInfo?: { createdDateTime?: string; lastModifiedDateTime?: string };
+  thumbnails?: IOneDriveThumbnailSet[];
+  '@microsoft.graph.downloadUrl'?: string;
+}
+
+/**
+ * Graph 缩略图集合
+ */
+interface IOneDriveThumbnailSet {
+  small?: IOneDriveThumbnail;
+  medium?: IOneDriveThumbnail;
+  large?: IOneDriveThumbnail;
+}
+
+interface IOneDriveThumbnail {
+  url: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Graph driveItemVersion
+ */
+interface IOneDriveVersion {
+  id: string;
+  lastModifiedDateTime: string;
+  size?: number;
+  lastModifiedBy?: { user?: { id?: string; displayName?: string } };
+}
+
+/**
+ * 上传会话状态（保存在 session.metadata.oneDrive）
+ */
+interface IOneDriveSessionState {
+  size: number;                  // 文件大小
+  offset: number;                // 服务端期望的下一个字节
+  itemPath: string;              // 目标文件的 Graph 路径
+  item?: IOneDriveItem;          // 最后一个分片返回的文件
+}
+
+/**
+ * 分页响应
+ */
+interface IGraphPage<T> {
+  value: T[];
+  '@odata.nextLink'?: string;
+  '@odata.deltaLink'?: string;
+}
+
+/**
+ * OneDrive 提供商类
+ */
+export class OneDriveProvider extends BaseStorageProvider {
+  private driveUrl: string;
+  private oauth?: OAuth2Client;
+  private refreshing?: Promise<void>;
+  private downloadUrls: Map<string, { url: string; expiresAt: number }> = new Map();
+
+  constructor(config: IProviderConfig) {
+    super(config.id, config.name, 'onedrive', config, ONEDRIVE_CAPABILITIES);
+
+    const endpoint = (config.endpoint || GRAPH_ENDPOINT).replace(/\/+$/, '');
+    const driveId = config.metadata?.driveId;
+    this.driveUrl = driveId ? `${endpoint}/drives/${encodeURIComponent(driveId)}` : `${endpoint}/me/drive`;
+    this.oauth = config.auth.oauth2 ? new OAuth2Client(config.auth.oauth2) : undefined;
+  }
+
+  // ============================================
+  // 初始化和连接
+  // ============================================
+
+  /**
+   * 初始化提供商
+   */
+  async initialize(): Promise<void> {
+    this.setStatus(ProviderStatus.DISCONNECTED, 'Initialized');
+  }
+
+  /**
+   * 连接到提供商（读取驱动器信息验证令牌）
+   */
+  async connect(): Promise<void> {
+    this.setStatus(ProviderStatus.CONNECTING, 'Connecting...');
+
+    try {
+      if (!this.config.tokens?.accessToken) {
+        throw new Error('Not authorized: complete the OAuth2 sign-in first');
+      }
+      this.config.quota = await this.getStorageQuota();
+      this.config.lastConnected = new Date();
+      this.setStatus(ProviderStatus.CONNECTED, 'Connected');
+    } catch (error) {
+      this.setStatus(ProviderStatus.AUTH_ERROR, (error as Error).message);
+      throw error;
+    }
+  }
+
+  /**
+   * 断开连接
+   */
+  async disconnect(): Promise<void> {
+    this.downloadUrls.clear();
+    this.setStatus(ProviderStatus.DISCONNECTED, 'Disconnected');
+  }
+
+  /**
+   * 测试连接
+   */
+  async testConnection(): Promise<boolean> {
+    try {
+      await this.graph('');
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * 刷新访问令牌（并发调用共用同一次刷新）
+   */
+  async refreshAuth(): Promise<void> {
+    if (!this.refreshing) {
+      this.refreshing = this.doRefreshAuth().finally(() => {
+        this.refreshing = undefined;
+      });
+    }
+    return this.refreshing;
+  }
+
+  /**
+   * 创建授权请求，调用方保存返回值后跳转到 url
+   */
+  public createAuthorizationRequest(params?: Record<string, string>): Promise<IAuthorizationRequest> {
+    return this.getOAuthClient().createAuthorizationRequest(params);
+  }
+
+  /**
+   * 处理授权回调并保存令牌
+   * @param redirectUrl - 回调页面的完整地址
+   * @param request - createAuthorizationRequest 返回的授权请求
+   */
+  public async completeAuthorization(redirectUrl: string, request: IAuthorizationRequest): Promise<void> {
+    this.setTokens(await this.getOAuthClient().handleRedirect(redirectUrl, request));
+  }
+
+  /**
+   * 验证配置
+   */
+  public async validateConfig(config: IProviderConfig): Promise<{
+    valid: boolean;
+    errors?: string[];
+  }> {
+    const result = await super.validateConfig(config);
+    const errors = result.errors ? [...result.errors] : [];
+
+    if (!config.auth.oauth2 && !config.tokens?.accessToken) {
+      errors.push('OAuth2 configuration or access token is required');
+    }
+    if (config.endpoint) {
+      try {
+        new URL(config.endpoint);
+      } catch {
+        errors.push(`Invalid endpoint: ${config.endpoint}`);
+      }
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors: errors.length > 0 ? errors : undefined,
+    };
+  }
+
+  // ============================================
+  // 文件操作
+  // ============================================
+
+  /**
+   * 列出文件（nextCursor 为 Graph 的 @odata.nextLink）
+   */
+  async listFiles(options?: IListFilesOptions): Promise<IFileListResponse> {
+    let url = options?.cursor;
+    if (!url) {
+      const params = new URLSearchParams({ $expand: 'thumbnails' });
+      if (options?.limit) {
+        params.set('$top', String(options.limit));
+      }
+      if (options?.sortBy) {
+        const field = { name: 'name', size: 'size', modified: 'lastModifiedDateTime', created: 'createdDateTime' }[options.sortBy];
+        params.set('$orderby', `${field} ${options.sortOrder || 'asc'}`);
+      }
+      url = `${this.itemPath(options?.folderId ?? options?.path)}/children?${params}`;
+    }
+
+    const page = await this.graphJson<IGraphPage<IOneDriveItem>>(url);
+    const files = page.value
+      .map(item => this.normalizeFile(item))
+      .filter(file => this.config.preferences?.showHiddenFiles || !file.isHidden);
+
+    return {
+      files,
+      nextCursor: page['@odata.nextLink'],
+      hasMore: !!page['@odata.nextLink'],
+    };
+  }
+
+  /**
+   * 获取文件信息
+   */
+  async getFileInfo(fileId: string): Promise<IFileItem> {
+    const item = await this.graphJson<IOneDriveItem>(this.itemPath(fileId));
+    this.cacheDownloadUrl(fileId, item);
+    return this.normalizeFile(item);
+  }
+
+  /**
+   * 创建文件夹
+   */
+  async createFolder(name: string, parentId: string): Promise<IFileItem> {
+    const item = await this.graphJson<IOneDriveItem>(`${this.itemPath(parentId)}/children`, {
+      method: 'POST',
+      body: JSON.stringify({ name, folder: {}, '@microsoft.graph.conflictBehavior': 'fail' }),
+    });
+    return this.normalizeFile(item);
+  }
+
+  /**
+   * 重命名文件
+   */
+  async renameFile(fileId: string, newName: string): Promise<IFileItem> {
+    const item = await this.graphJson<IOneDriveItem>(this.itemPath(fileId), {
+      method: 'PATCH',
+      body: JSON.stringify({ name: newName }),
+    });
+    return this.normalizeFile(item);
+  }
+
+  /**
+   * 移动文件
+   */
+  async moveFile(fileId: string, targetParentId: string): Promise<IFileItem> {
+    const target = await this.getFileInfo(targetParentId);
+    const item = await this.graphJson<IOneDriveItem>(this.itemPath(fileId), {
+      method: 'PATCH',
+      body: JSON.stringify({ parentReference: { id: target.id } }),
+    });
+    return this.normalizeFile(item);
+  }
+
+  /**
+   * 复制文件（Graph 异步复制，轮询监视地址直到完成）
+   */
+  async copyFile(fileId: string, targetParentId: string, newName?: string): Promise<IFileItem> {
+    const target = await this.getFileInfo(targetParentId);
+    const response = await this.graph(`${this.itemPath(fileId)}/copy`, {
+      method: 'POST',
+      body: JSON.stringify({
+        parentReference: { driveId: target.extensionStatus?.oneDrive?.driveId, id: target.id },
+        ...(newName ? { name: newName } : {}),
+      }),
+    });
+
+    const monitorUrl = response.headers.get('Location');
+    if (!monitorUrl) {
+      throw new Error('Copy monitor URL missing from response');
+    }
+
+    // 监视地址已预先授权，不能携带访问令牌
+    for (;;) {
+      const monitor = await fetch(monitorUrl);
+      const status = await monitor.json().catch(() => ({}));
+
+      if (status.status === 'completed' && status.resourceId) {
+        return this.getFileInfo(status.resourceId);
+      }
+      if (status.status === 'failed' || (!monitor.ok && monitor.status !== 202)) {
+        throw new Error(`Copy failed: ${status.error?.message || status.errorCode || monitor.statusText}`);
+      }
+      await sleep(COPY_POLL_INTERVAL);
+    }
+  }
+
+  /**
+   * 删除文件（默认移入回收站）
+   */
+  async deleteFile(fileId: string, permanent?: boolean): Promise<void> {
+    if (permanent) {
+      await this.graph(`${this.itemPath(fileId)}/permanentDelete`, { method: 'POST' });
+    } else {
+      await this.graph(this.itemPath(fileId), { method: 'DELETE' });
+    }
+    this.downloadUrls.delete(fileId);
+  }
+
+  /**
+   * 搜索文件
+   */
+  async searchFiles(options: ISearchOptions): Promise<ISearchResult> {
+    const startedAt = Date.now();
+    const query = encodeURIComponent(options.query.replace(/'/g, "''"));
+    const scope = options.folderId ? this.itemPath(options.folderId) : '/root';
+    const params = options.limit ? `?$top=${options.limit}` : '';
+
+    const page = await this.graphJson<IGraphPage<IOneDriveItem>>(`${scope}/search(q='${query}')${params}`);
+    const files = page.value.map(item => this.normalizeFile(item));
+
+    return {
+      files,
+      total: files.length,
+      searchTime: Date.now() - startedAt,
+    };
+  }
+
+  // ============================================
+  // 上传和下载
+  // ============================================
+
+  /**
+   * 上传文件（小文件直接 PUT，大文件使用上传会话）
+   */
+  async uploadFile(file: File | Blob, options: IUploadOptions): Promise<ITransferTask> {
+    const chunkSize = this.alignChunkSize(options.chunkSize || this.capabilities.performance.recommendedChunkSize);
+
+    const task = this.createTransferTask(
+      TransferType.UPLOAD,
+      options.fileName,
+      file.size,
+      { providerId: 'local', path: options.fileName },
+      { providerId: this.id, path: options.targetPath },
+      { ...options, chunkSize } as ITransferOptions
+    );
+
+    task.status = TransferStatus.ACTIVE;
+    task.startedAt = new Date();
+
+    const reportProgress = (transferred: number) => {
+      task.progress.transferred = transferred;
+      task.progress.percentage = file.size > 0 ? (transferred / file.size) * 100 : 100;
+      options.onProgress?.(task.progress);
+    };
+
+    try {
+      let fileItem: IFileItem;
+
+      if (file.size <= SIMPLE_UPLOAD_LIMIT) {
+        const behavior = options.overwrite ? 'replace' : 'rename';
+        const item = await this.graphJson<IOneDriveItem>(
+          `${this.childPath(options.parentId ?? options.targetPath, options.fileName)}/content?@microsoft.graph.conflictBehavior=${behavior}`,
+          { method: 'PUT', body: file, headers: { 'Content-Type': file.type || 'application/octet-stream' } }
+        );
+        fileItem = this.normalizeFile(item);
+      } else {
+        const session = await this.initChunkUpload(file, options);
+        const state = this.getSessionState(session);
+
+        for (let offset = 0, index = 0; offset < file.size; offset += chunkSize, index++) {
+          const size = Math.min(chunkSize, file.size - offset);
+          const chunk: IChunkInfo = { index, offset, size, status: TransferStatus.ACTIVE, retryCount: 0 };
+          await this.uploadChunk(session, chunk, file.slice(offset, offset + size));
+          reportProgress(state.offset);
+        }
+        fileItem = await this.completeChunkUpload(session, []);
+      }
+
+      reportProgress(file.size);
+      task.status = TransferStatus.COMPLETED;
+      task.completedAt = new Date();
+      task.destination.fileId = fileItem.id;
+      task.result = { success: true, fileId: fileItem.id, filePath: fileItem.path };
+      options.onComplete?.(task);
+    } catch (error) {
+      task.status = TransferStatus.FAILED;
+      task.error = error as Error;
+      task.errorMessage = (error as Error).message;
+      task.errorCount++;
+      options.onError?.(error as Error);
+      throw error;
+    }
+
+    return task;
+  }
+
+  /**
+   * 下载文件（流式写入本地，不在内存中缓冲整个文件）
+   */
+  async downloadFile(fileId: string, options?: IDownloadOptions): Promise<ITransferTask> {
+    const fileInfo = await this.getFileInfo(fileId);
+
+    const task = this.createTransferTask(
+      TransferType.DOWNLOAD,
+      fileInfo.name,
+      fileInfo.size,
+      { providerId: this.id, path: fileInfo.path, fileId },
+      { providerId: 'local', path: '/' },
+      options || {} as any
+    );
+
+    task.status = TransferStatus.ACTIVE;
+    task.startedAt = new Date();
+
+    const sink = await createDownloadSink({
+      fileName: fileInfo.name,
+      size: fileInfo.size,
+      mimeType: fileInfo.mimeType,
+      fileHandle: options?.saveHandle,
+    });
+
+    try {
+      const reader = (await this.openDownloadStream(fileId)).getReader();
+      let transferred = 0;
+
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+
+        await sink.write(value);
+        transferred += value.length;
+
+        task.progress.transferred = transferred;
+        task.progress.percentage = fileInfo.size > 0 ? (transferred / fileInfo.size) * 100 : 100;
+        options?.onProgress?.(task.progress);
+      }
+
+      await sink.close();
+
+      task.status = TransferStatus.COMPLETED;
+      task.progress.transferred = fileInfo.size;
+      task.progress.percentage = 100;
+      task.completedAt = new Date();
+      task.result = { success: true, fileId, filePath: fileInfo.path };
+    } catch (error) {
+      await sink.abort().catch(() => undefined);
+      task.status = TransferStatus.FAILED;
+      task.error = error as Error;
+      throw error;
+    }
+
+    return task;
+  }
+
+  /**
+   * 打开文件读取流（预签名 downloadUrl，支持 Range）
+   */
+  async openDownloadStream(
+    fileId: string,
+    range?: { start: number; end: number },
+    signal?: AbortSignal
+  ): Promise<ReadableStream<Uint8Array>> {
+    const url = await this.getDownloadUrl(fileId);
+    const response = await fetch(url, {
+      headers: range ? { Range: `bytes=${range.start}-${range.end}` } : undefined,
+      signal,
+    });
+
+    if (!response.ok) {
+      // 链接可能已过期，下次重新获取
+      this.downloadUrls.delete(fileId);
+      throw createHttpError(response, `Download failed (${response.status}): ${response.statusText}`);
+    }
+
+    if (range && response.status !== 206) {
+      throw new Error('Server does not support range requests');
+    }
+
+    if (!response.body) {
+      throw new Error('Streaming response body is not supported');
+    }
+
+    return response.body;
+  }
+
+  /**
+   * 获取下载URL（预签名，有效期约 1 小时）
+   */
+  public async getDownloadUrl(fileId: string, _expiresIn?: number): Promise<string> {
+    const cached = this.downloadUrls.get(fileId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.url;
+    }
+
+    const item = await this.graphJson<IOneDriveItem>(this.itemPath(fileId));
+    const url = item['@microsoft.graph.downloadUrl'];
+    if (!url) {
+      throw new Error(`Download URL not available: ${fileId}`);
+    }
+    this.cacheDownloadUrl(fileId, item);
+    return url;
+  }
+
+  // ============================================
+  // 分片上传契约（供 TransferManager 调度）
+  // ============================================
+
+  /**
+   * 创建上传会话
+   */
+  async initChunkUpload(file: File | Blob, options: IUploadOptions): Promise<IChunkUploadSession> {
+    const itemPath = this.childPath(options.parentId ?? options.targetPath, options.fileName);
+    const session = await this.graphJson<{ uploadUrl: string; expirationDateTime?: string }>(
+      `${itemPath}/createUploadSession`,
+      {
+        method: 'POST',
+        body: JSON.stringify({
+          item: { '@microsoft.graph.conflictBehavior': options.overwrite ? 'replace' : 'rename' },
+        }),
+      }
+    );
+
+    const state: IOneDriveSessionState = { size: file.size, offset: 0, itemPath };
+    return {
+      uploadId: session.uploadUrl,
+      expiresAt: session.expirationDateTime ? new Date(session.expirationDateTime) : undefined,
+      metadata: { oneDrive: state },
+    };
+  }
+
+  /**
+   * 上传一个分片（Content-Range 指定位置，必须按顺序上传）
+   * 服务端已接收分片的一部分时只发送剩余部分
+   */
+  async uploadChunk(
+    session: IChunkUploadSession,
+    chunk: IChunkInfo,
+    data: Blob,
+    signal?: AbortSignal
+  ): Promise<IChunkUploadResult> {
+    const state = this.getSessionState(session);
+    const end = chunk.offset + chunk.size;
+    if (state.offset >= end) {
+      return {};
+    }
+
+    const start = Math.max(chunk.offset, state.offset);
+    // 上传地址已预先授权，不能携带访问令牌
+    const response = await fetch(session.uploadId, {
+      method: 'PUT',
+      headers: { 'Content-Range': `bytes ${start}-${end - 1}/${state.size}` },
+      body: start > chunk.offset ? data.slice(start - chunk.offset) : data,
+      signal,
+    });
+
+    // 范围已被接收（例如上次请求成功但响应丢失），按服务端进度校正
+    if (response.status === 416) {
+      if ((await this.getChunkUploadOffset(session, signal)) >= end) {
+        return {};
+      }
+      throw createHttpError(response, `Upload fragment rejected at offset ${start}`);
+    }
+    if (!response.ok) {
+      throw await this.toError(response, 'Upload fragment failed');
+    }
+
+    const body = await response.json().catch(() => ({}));
+    if (response.status === 200 || response.status === 201) {
+      state.item = body;
+      state.offset = state.size;
+    } else {
+      state.offset = parseNextExpectedOffset(body.nextExpectedRanges) ?? end;
+    }
+
+    return {};
+  }
+
+  /**
+   * 完成上传（最后一个分片的响应即为创建的文件）
+   */
+  async completeChunkUpload(session: IChunkUploadSession, _chunks: IChunkInfo[]): Promise<IFileItem> {
+    const state = this.getSessionState(session);
+    return this.normalizeFile(state.item ?? await this.graphJson<IOneDriveItem>(state.itemPath));
+  }
+
+  /**
+   * 取消上传会话
+   */
+  async abortChunkUpload(session: IChunkUploadSession): Promise<void> {
+    const response = await fetch(session.uploadId, { method: 'DELETE' });
+    if (!response.ok && response.status !== 404) {
+      throw await this.toError(response, 'Failed to cancel upload session');
+    }
+  }
+
+  /**
+   * 查询服务端期望的下一个字节（nextExpectedRanges）
+   */
+  async getChunkUploadOffset(session: IChunkUploadSession, signal?: AbortSignal): Promise<number> {
+    const response = await fetch(session.uploadId, { signal });
+    if (!response.ok) {
+      throw await this.toError(response, 'Failed to query upload session');
+    }
+
+    const state = this.getSessionState(session);
+    const body = await response.json();
+    state.offset = parseNextExpectedOffset(body.nextExpectedRanges) ?? state.size;
+    return state.offset;
+  }
+
+  // ============================================
+  // 缩略图
+  // ============================================
+
+  /**
+   * 获取缩略图（选择不小于请求尺寸的最小缩略图）
+   */
+  public async getThumbnail(fileId: string, size: number = 256): Promise<IThumbnail> {
+    const page = await this.graphJson<IGraphPage<IOneDriveThumbnailSet>>(`${this.itemPath(fileId)}/thumbnails`);
+    const set = page.value[0];
+    const candidates = [set?.small, set?.medium, set?.large].filter((thumb): thumb is IOneDriveThumbnail => !!thumb);
+    const thumbnail = candidates.find(thumb => Math.max(thumb.width, thumb.height) >= size) ?? candidates.pop();
+
+    if (!thumbnail) {
+      throw new Error('Thumbnail not available');
+    }
+    return {
+      url: thumbnail.url,
+      width: thumbnail.width,
+      height: thumbnail.height,
+      size: 0,
+      mimeType: 'image/jpeg',
+    };
+  }
+
+  // ============================================
+  // 共享
+  // ============================================
+
+  /**
+   * 创建分享链接（createLink，支持过期时间和密码）
+   * shareId 为 "文件ID/权限ID"
+   */
+  public async createShare(options: IShareOptions): Promise<{ shareId: string; shareUrl: string; expiresAt?: Date }> {
+    const itemId = await this.resolveItemId(options.fileId);
+    const permission = await this.graphJson<{
+      id: string;
+      link: { webUrl: string };
+      expirationDateTime?: string;
+    }>(`/items/${encodeURIComponent(itemId)}/createLink`, {
+      method: 'POST',
+      body: JSON.stringify({
+        type: options.permission === 'read' ? 'view' : 'edit',
+        scope: 'anonymous',
+        ...(options.expiresAt ? { expirationDateTime: options.expiresAt.toISOString() } : {}),
+        ...(options.password ? { password: options.password } : {}),
+      }),
+    });
+
+    return {
+      shareId: `${itemId}/${permission.id}`,
+      shareUrl: permission.link.webUrl,
+      expiresAt: permission.expirationDateTime ? new Date(permission.expirationDateTime) : options.expiresAt,
+    };
+  }
+
+  /**
+   * 获取文件的分享链接
+   */
+  public async getShareInfo(fileId: string): Promise<any> {
+    const page = await this.graphJson<IGraphPage<any>>(`${this.itemPath(fileId)}/permissions`);
+    return page.value.filter(permission => permission.link);
+  }
+
+  /**
+   * 删除分享链接
+   */
+  public async deleteShare(shareId: string): Promise<void> {
+    const separator = shareId.indexOf('/');
+    if (separator < 0) {
+      throw new Error(`Invalid share ID: ${shareId}`);
+    }
+    const itemId = shareId.slice(0, separator);
+    const permissionId = shareId.slice(separator + 1);
+    await this.graph(`/items/${encodeURIComponent(itemId)}/permissions/${encodeURIComponent(permissionId)}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // ============================================
+  // 版本控制
+  // ============================================
+
+  /**
+   * 获取文件版本列表（最新版本在前）
+   */
+  public async getFileVersions(fileId: string): Promise<IFileVersion[]> {
+    const path = this.itemPath(fileId);
+    const page = await this.graphJson<IGraphPage<IOneDriveVersion>>(`${path}/versions`);
+
+    return page.value.map((version, index) => ({
+      id: version.id,
+      versionNumber: page.value.length - index,
+      modifiedAt: new Date(version.lastModifiedDateTime),
+      modifiedBy: {
+        id: version.lastModifiedBy?.user?.id || '',
+        name: version.lastModifiedBy?.user?.displayName || '',
+      },
+      size: version.size || 0,
+      downloadUrl: `${this.driveUrl}${path}/versions/${encodeURIComponent(version.id)}/content`,
+      isCurrent: index === 0,
+    }));
+  }
+
+  /**
+   * 获取特定版本
+   */
+  public async getFileVersion(fileId: string, versionId: string): Promise<IFileVersion> {
+    const version = (await this.getFileVersions(fileId)).find(item => item.id === versionId);
+    if (!version) {
+      throw new Error(`Version not found: ${versionId}`);
+    }
+    return version;
+  }
+
+  /**
+   * 恢复到特定版本
+   */
+  public async restoreFileVersion(fileId: string, versionId: string): Promise<void> {
+    await this.graph(`${this.itemPath(fileId)}/versions/${encodeURIComponent(versionId)}/restoreVersion`, {
+      method: 'POST',
+    });
+    this.downloadUrls.delete(fileId);
+  }
+
+  // ============================================
+  // 存储配额
+  // ============================================
+
+  /**
+   * 获取存储配额（drive.quota）
+   */
+  async getStorageQuota(): Promise<IStorageQuota> {
+    const drive = await this.graphJson<{ quota?: { total?: number; used?: number; remaining?: number } }>('');
+    const total = drive.quota?.total || 0;
+    const used = drive.quota?.used || 0;
+
+    return {
+      total,
+      used,
+      remaining: drive.quota?.remaining ?? Math.max(0, total - used),
+      usagePercentage: total > 0 ? (used / total) * 100 : 0,
+    };
+  }
+
+  // ============================================
+  // 文件监视
+  // ============================================
+
+  /**
+   * 监视文件夹及其子项的变化（delta 查询）
+   * 首次查询记录现有文件，之后按 deltaLink 增量获取；deltaLink 失效（410）时重新全量查询并比对
+   */
+  public watchFiles(folderId: string, callbacks: IFileWatchCallbacks): () => void {
+    const watcherId = `${folderId}-${Date.now()}`;
+    const known = new Map<string, string>();
+    let deltaLink: string | undefined;
+    let synced = false;
+    let polling = false;
+
+    const poll = async () => {
+      if (polling) {
+        return;
+      }
+      polling = true;
+
+      try {
+        const full = !deltaLink;
+        const { items, deltaLink: nextLink } = await this.fetchDelta(deltaLink ?? `${this.itemPath(folderId)}/delta`);
+        const seen = new Set<string>();
+
+        for (const item of items) {
+          // 被监视的文件夹本身
+          if (item.root || item.id === folderId) {
+            continue;
+          }
+
+          if (item.deleted) {
+            if (known.delete(item.id) && synced) {
+              callbacks.onDeleted?.(item.id);
+            }
+            continue;
+          }
+
+          const file = this.normalizeFile(item);
+          const previousParent = known.get(item.id);
+          seen.add(item.id);
+          known.set(item.id, file.parentId);
+
+          if (!synced) {
+            continue;
+          }
+          if (previousParent === undefined) {
+            callbacks.onCreated?.(file);
+          } else if (previousParent !== file.parentId) {
+            callbacks.onMoved?.(item.id, file.parentId);
+          } else if (!full) {
+            callbacks.onUpdated?.(file);
+          }
+        }
+
+        // 全量查询中没有出现的文件已被删除
+        if (full) {
+          for (const id of [...known.keys()]) {
+            if (!seen.has(id)) {
+              known.delete(id);
+              if (synced) {
+                callbacks.onDeleted?.(id);
+              }
+            }
+          }
+        }
+
+        deltaLink = nextLink;
+        synced = true;
+      } catch (error) {
+        if (classifyError(error).status === 410) {
+          deltaLink = undefined;
+        } else {
+          callbacks.onError?.(error as Error);
+        }
+      } finally {
+        polling = false;
+      }
+    };
+
+    poll();
+    const intervalId = setInterval(poll, this.config.sync?.interval || 30000);
+
+    const cleanup = () => {
+      clearInterval(intervalId);
+      this._fileWatchers.delete(watcherId);
+    };
+
+    this._fileWatchers.set(watcherId, { callbacks, cleanup });
+
+    return cleanup;
+  }
+
+  // ============================================
+  // 实用方法
+  // ============================================
+
+  /**
+   * 获取提供商特定功能
+   */
+  public getFeature(feature: string): any {
+    switch (feature) {
+      case 'oauth2':
+        return this.getOAuthClient();
+      default:
+        return super.getFeature(feature);
+    }
+  }
+
+  /**
+   * 标准化文件项
+   */
+  normalizeFile(rawFile: IOneDriveItem): IFileItem {
+    const isFolder = !!rawFile.folder || !!rawFile.root;
+    const path = rawFile.root ? '/' : toItemPath(rawFile.parentReference?.path, rawFile.name);
+    const createdAt = new Date(rawFile.fileSystemInfo?.createdDateTime || rawFile.createdDateTime || Date.now());
+    const modifiedAt = new Date(
+      rawFile.fileSystemInfo?.lastModifiedDateTime || rawFile.lastModifiedDateTime || createdAt.getTime()
+    );
+    const hashes = rawFile.file?.hashes;
+    const thumbnail = rawFile.thumbnails?.[0]?.medium;
+
+    return {
+      id: rawFile.id,
+      providerId: this.id,
+      parentId: rawFile.parentReference?.id || '',
+      path,
+      name: rawFile.name,
+      type: isFolder ? FileType.FOLDER : FileType.FILE,
+      fileType: isFolder ? FileType.FOLDER : (this.getFileType(rawFile.name) as FileType),
+      size: rawFile.size || 0,
+      createdAt,
+      modifiedAt,
+      downloadUrl: rawFile['@microsoft.graph.downloadUrl'],
+      previewUrl: rawFile.webUrl,
+      thumbnailUrl: thumbnail?.url,
+      mimeType: isFolder ? undefined : rawFile.file?.mimeType || this.getMimeType(rawFile.name),
+      hash: hashes && (hashes.sha1Hash || hashes.sha256Hash || hashes.crc32Hash)
+        ? {
+            sha1: hashes.sha1Hash?.toLowerCase(),
+            sha256: hashes.sha256Hash?.toLowerCase(),
+            crc32: hashes.crc32Hash?.toLowerCase(),
+          }
+        : undefined,
+      permissions: {
+        canRead: true,
+        canWrite: true,
+        canDelete: !rawFile.root,
+        canShare: true,
+        canRename: !rawFile.root,
+        canMove: !rawFile.root,
+        canCopy: !rawFile.root,
+      },
+      hasVersions: !isFolder,
+      isFavorite: false,
+      isOffline: false,
+      isShared: !!rawFile.shared,
+      isLocked: false,
+      isHidden: rawFile.name.startsWith('.'),
+      isTrashed: !!rawFile.deleted,
+      isEncrypted: false,
+      childCount: rawFile.folder?.childCount,
+      isEmpty: rawFile.folder ? rawFile.folder.childCount === 0 : undefined,
+      extensionStatus: {
+        oneDrive: {
+          webUrl: rawFile.webUrl,
+          driveId: rawFile.parentReference?.driveId,
+          quickXorHash: hashes?.quickXorHash,
+        },
+      },
+      isCached: false,
+    };
+  }
+
+  /**
+   * 反标准化文件项
+   */
+  denormalizeFile(file: IFileItem): IOneDriveItem {
+    const isFolder = file.type === FileType.FOLDER;
+    return {
+      id: file.id,
+      name: file.name,
+      size: file.size,
+      createdDateTime: file.createdAt.toISOString(),
+      lastModifiedDateTime: file.modifiedAt.toISOString(),
+      webUrl: file.extensionStatus?.oneDrive?.webUrl,
+      file: isFolder ? undefined : { mimeType: file.mimeType },
+      folder: isFolder ? { childCount: file.childCount } : undefined,
+      parentReference: { id: file.parentId, driveId: file.extensionStatus?.oneDrive?.driveId },
+    };
+  }
+
+  // ============================================
+  // 私有辅助方法
+  // ============================================
+
+  /**
+   * 发送 Graph 请求（令牌即将过期时先刷新），失败时抛出带状态码的错误
+   * @param pathOrUrl - 相对驱动器的路径或完整地址（如 @odata.nextLink）
+   */
+  private async graph(pathOrUrl: string, init: RequestInit = {}): Promise<Response> {
+    if (isTokenExpiring(this.config.tokens) && this.config.tokens?.refreshToken) {
+      await this.refreshAuth();
+    }
+
+    const url = /^https?:\/\//i.test(pathOrUrl) ? pathOrUrl : `${this.driveUrl}${pathOrUrl}`;
+    const headers = new Headers(init.headers);
+    if (typeof init.body === 'string' && !headers.has('Content-Type')) {
+      headers.set('Content-Type', 'application/json');
+    }
+
+    const response = await this.fetchWithAuth(url, { ...init, headers });
+    if (!response.ok) {
+      throw await this.toError(response, 'Graph request failed');
+    }
+    return response;
+  }
+
+  /**
+   * 发送 Graph 请求并解析 JSON
+   */
+  private async graphJson<T>(pathOrUrl: string, init?: RequestInit): Promise<T> {
+    const response = await this.graph(pathOrUrl, init);
+    return response.status === 204 ? (undefined as T) : response.json();
+  }
+
+  /**
+   * 依次读取 delta 分页，返回全部变化和新的 deltaLink
+   */
+  private async fetchDelta(url: string): Promise<{ items: IOneDriveItem[]; deltaLink?: string }> {
+    const items: IOneDriveItem[] = [];
+    let next: string | undefined = url;
+
+    while (next) {
+      const page: IGraphPage<IOneDriveItem> = await this.graphJson<IGraphPage<IOneDriveItem>>(next);
+      items.push(...page.value);
+      if (page['@odata.deltaLink']) {
+        return { items, deltaLink: page['@odata.deltaLink'] };
+      }
+      next = page['@odata.nextLink'];
+    }
+
+    return { items };
+  }
+
+  /**
+   * 由错误响应创建带状态码的错误（包含 Graph 错误信息）
+   */
+  private async toError(response: Response, message: string): Promise<Error> {
+    const body = await response.json().catch(() => undefined);
+    const detail = body?.error?.message || response.statusText;
+    return createHttpError(response, `${message} (${response.status}): ${detail}`);
+  }
+
+  private async doRefreshAuth(): Promise<void> {
+    const refreshToken = this.config.tokens?.refreshToken;
+    if (!refreshToken) {
+      throw new Error('No refresh token available');
+    }
+
+    try {
+      this.setTokens(await this.getOAuthClient().refresh(refreshToken));
+    } catch (error) {
+      this.setStatus(ProviderStatus.AUTH_ERROR, (error as Error).message);
+      throw error;
+    }
+  }
+
+  /**
+   * 保存令牌并通知（调用方监听 TOKEN_REFRESHED 持久化配置）
+   */
+  private setTokens(tokens: OAuth2Tokens): void {
+    this.config.tokens = { ...this.config.tokens, ...tokens };
+    this.emit({
+      type: ProviderEventType.TOKEN_REFRESHED,
+      timestamp: new Date(),
+      data: { tokens: this.config.tokens },
+    });
+  }
+
+  private getOAuthClient(): OAuth2Client {
+    if (!this.oauth) {
+      throw new Error('OAuth2 is not configured for this provider');
+    }
+    return this.oauth;
+  }
+
+  /**
+   * 文件的 Graph 路径：ID 使用 /items/{id}，以 / 开头时按路径访问
+   */
+  private itemPath(idOrPath?: string): string {
+    if (!idOrPath || idOrPath === '/' || idOrPath === 'root') {
+      return '/root';
+    }
+    if (idOrPath.startsWith('/')) {
+      return `/root:${encodePath(idOrPath)}:`;
+    }
+    return `/items/${encodeURIComponent(idOrPath)}`;
+  }
+
+  /**
+   * 文件夹下指定名称的子项的 Graph 路径
+   */
+  private childPath(parent: string | undefined, name: string): string {
+    const base = this.itemPath(parent);
+    const child = encodeURIComponent(name);
+
+    if (base === '/root') {
+      return `/root:/${child}:`;
+    }
+    if (base.endsWith(':')) {
+      return `${base.slice(0, -1)}/${child}:`;
+    }
+    return `${base}:/${child}:`;
+  }
+
+  /**
+   * 路径形式的文件标识解析为 driveItem ID
+   */
+  private async resolveItemId(idOrPath: string): Promise<string> {
+    if (idOrPath && !idOrPath.startsWith('/') && idOrPath !== 'root') {
+      return idOrPath;
+    }
+    return (await this.getFileInfo(idOrPath)).id;
+  }
+
+  private cacheDownloadUrl(fileId: string, item: IOneDriveItem): void {
+    const url = item['@microsoft.graph.downloadUrl'];
+    if (url) {
+      this.downloadUrls.set(fileId, { url, expiresAt: Date.now() + DOWNLOAD_URL_TTL });
+    }
+  }
+
+  private getSessionState(session: IChunkUploadSession): IOneDriveSessionState {
+    const state = session.metadata?.oneDrive as IOneDriveSessionState | undefined;
+    if (!state) {
+      throw new Error(`Invalid OneDrive upload session: ${session.uploadId}`);
+    }
+    return state;
+  }
+
+  /**
+   * 分片大小按 320 KiB 对齐
+   */
+  private alignChunkSize(chunkSize: number): number {
+    return Math.max(FRAGMENT_ALIGNMENT, Math.floor(chunkSize / FRAGMENT_ALIGNMENT) * FRAGMENT_ALIGNMENT);
+  }
+}
+
+/**
+ * 由 parentReference.path（如 /drive/root:/Documents）和名称构建路径
+ */
+function toItemPath(parentPath: string | undefined, name: string): string {
+  const index = parentPath?.indexOf('root:') ?? -1;
+  const folder = index >= 0 ? decodeURIComponent(parentPath!.slice(index + 'root:'.length)) : '';
+  return `${folder.replace(/\/+$/, '')}/${name}`;
+}
+
+function encodePath(path: string): string {
+  return path.replace(/\/+$/, '').split('/').map(encodeURIComponent).join('/');
+}
+
+/**
+ * 解析 nextExpectedRanges 的第一个范围起点（如 "26214400-" 或 "0-1048575"）
+ */
+function parseNextExpectedOffset(ranges: string[] | undefined): number | undefined {
+  if (!ranges || ranges.length === 0) {
+    return undefined;
+  }
+  const start = Number(ranges[0].split('-')[0]);
+  return Number.isNaN(start) ? undefined : start;
+}
+
+/**
+ * 创建OneDrive提供商实例
+ */
+export function createOneDriveProvider(config: IProviderConfig): IStorageProvider {
+  return new OneDriveProvider(config);
+}
@@ -115,6 +115,13 @@ export class ProviderRegistry implements IStorageProviderFactory {
     return instance;
   }
 
+  /**
+   * 登记已有实例（如配置替换失败后放回原实例）
+   */
+  public registerInstance(id: string, instance: IStorageProvider): void {
+    this.instances.set(id, instance);
+  }
+
   /**
    * 获取现有实例
    */
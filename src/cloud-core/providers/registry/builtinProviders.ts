@@ -0,0 +1,342 @@
+/**
+ * 内置提供商注册
+ * 将仓库自带的提供商实现注册到提供商注册表
+ */
+
+import { IProviderConfig, IProviderTemplate, ProviderStatus } from '../base/IProviderConfig';
+import { providerRegistry, registerProvider } from './ProviderRegistry';
+import { createWebDAVProvider } from '../examples/WebDAVProvider';
+import { createS3Provider } from '../s3/S3Provider';
+import { createTusProvider } from '../tus/TusProvider';
+import { createOneDriveProvider, ONEDRIVE_OAUTH } from '../onedrive/OneDriveProvider';
+import { createGoogleDriveProvider, GOOGLE_DRIVE_OAUTH } from '../googledrive/GoogleDriveProvider';
+import { createDropboxProvider, DROPBOX_OAUTH } from '../dropbox/DropboxProvider';
+import { createAliDriveProvider, ALIDRIVE_OAUTH } from '../alidrive/AliDriveProvider';
+import { createBaiduDriveProvider, BAIDU_OAUTH } from '../baidu/BaiduDriveProvider';
+
+/**
+ * 通用默认配置
+ */
+function createDefaultConfig(type: string, icon: string, color: string, order: number): Partial<IProviderConfig> {
+  return {
+    type,
+    enabled: true,
+    preferences: {
+      autoSync: false,
+      showHiddenFiles: false,
+      preservePermissions: false,
+      preserveTimestamps: true,
+      calculateHash: false,
+      generateThumbnails: false,
+    },
+    status: ProviderStatus.DISCONNECTED,
+    ui: {
+      icon,
+      color,
+      order,
+      showInQuickAccess: true,
+    },
+  };
+}
+
+/**
+ * WebDAV 模板
+ */
+const WEBDAV_TEMPLATE: IProviderTemplate = {
+  id: 'webdav',
+  name: 'WebDAV',
+  type: 'webdav',
+  description: '连接到任何 WebDAV 兼容的存储服务',
+  icon: 'fa-server',
+  color: '#3B82F6',
+  defaultConfig: {
+    ...createDefaultConfig('webdav', 'fa-server', '#3B82F6', 10),
+    auth: { basic: { username: '', password: '' } },
+  },
+  requiredFields: ['endpoint', 'auth'],
+  optionalFields: ['rootPath', 'preferences', 'ui'],
+};
+
+/**
+ * S3 模板
+ */
+const S3_TEMPLATE: IProviderTemplate = {
+  id: 's3',
+  name: 'S3 兼容存储',
+  type: 's3',
+  description: 'AWS S3、MinIO 及任何兼容 S3 API 的对象存储',
+  icon: 'fa-brands fa-aws',
+  color: '#F59E0B',
+  defaultConfig: {
+    ...createDefaultConfig('s3', 'fa-brands fa-aws', '#F59E0B', 20),
+    auth: { apiKey: { key: '', secret: '' } },
+    region: 'us-east-1',
+  },
+  requiredFields: ['bucket', 'region', 'auth'],
+  optionalFields: ['endpoint', 'rootPath', 'preferences', 'ui'],
+  helpUrl: 'https://docs.aws.amazon.com/AmazonS3/latest/userguide/cors.html',
+};
+
+/**
+ * tus 模板
+ */
+const TUS_TEMPLATE: IProviderTemplate = {
+  id: 'tus',
+  name: 'tus',
+  type: 'tus',
+  description: '支持 tus 1.0 可续传上传协议的自建服务',
+  icon: 'fa-cloud-arrow-up',
+  color: '#10B981',
+  defaultConfig: {
+    ...createDefaultConfig('tus', 'fa-cloud-arrow-up', '#10B981', 30),
+    auth: {},
+    metadata: { listEndpoint: '' },
+  },
+  requiredFields: ['endpoint'],
+  optionalFields: ['auth', 'metadata', 'preferences', 'ui'],
+  helpUrl: 'https://tus.io/protocols/resumable-upload',
+};
+
+/**
+ * OneDrive 模板
+ */
+const ONEDRIVE_TEMPLATE: IProviderTemplate = {
+  id: 'onedrive',
+  name: 'OneDrive',
+  type: 'onedrive',
+  description: 'Microsoft OneDrive 个人版和商业版（Microsoft Graph）',
+  icon: 'fa-brands fa-microsoft',
+  color: '#0078D4',
+  defaultConfig: {
+    ...createDefaultConfig('onedrive', 'fa-brands fa-microsoft', '#0078D4', 40),
+    auth: {
+      oauth2: {
+        ...ONEDRIVE_OAUTH,
+        clientId: '',
+        clientSecret: '',
+        redirectUri: '',
+        usePkce: true,
+      },
+    },
+  },
+  requiredFields: ['auth'],
+  optionalFields: ['endpoint', 'metadata', 'sync', 'preferences', 'ui'],
+  helpUrl: 'https://learn.microsoft.com/graph/onedrive-concept-overview',
+};
+
+/**
+ * Google Drive 模板
+ */
+const GOOGLE_DRIVE_TEMPLATE: IProviderTemplate = {
+  id: 'googledrive',
+  name: 'Google Drive',
+  type: 'googledrive',
+  description: 'Google Drive 个人云端硬盘和共享云端硬盘（Drive API v3）',
+  icon: 'fa-brands fa-google-drive',
+  color: '#1A73E8',
+  defaultConfig: {
+    ...createDefaultConfig('googledrive', 'fa-brands fa-google-drive', '#1A73E8', 50),
+    auth: {
+      oauth2: {
+        ...GOOGLE_DRIVE_OAUTH,
+        clientId: '',
+        clientSecret: '',
+        redirectUri: '',
+        usePkce: true,
+      },
+    },
+  },
+  requiredFields: ['auth'],
+  optionalFields: ['endpoint', 'workspace', 'sync', 'preferences', 'ui'],
+  helpUrl: 'https://developers.google.com/drive/api/guides/about-sdk',
+};
+
+/**
+ * Dropbox 模板
+ */
+const DROPBOX_TEMPLATE: IProviderTemplate = {
+  id: 'dropbox',
+  name: 'Dropbox',
+  type: 'dropbox',
+  description: 'Dropbox 个人版和团队版（Dropbox API v2）',
+  icon: 'fa-brands fa-dropbox',
+  color: '#0061FF',
+  defaultConfig: {
+    ...createDefaultConfig('dropbox', 'fa-brands fa-dropbox', '#0061FF', 60),
+    auth: {
+      oauth2: {
+        ...DROPBOX_OAUTH,
+        clientId: '',
+        clientSecret: '',
+        redirectUri: '',
+        usePkce: true,
+      },
+    },
+  },
+  requiredFields: ['auth'],
+  optionalFields: ['endpoint', 'sync', 'preferences', 'ui'],
+  helpUrl: 'https://www.dropbox.com/developers/documentation/http/documentation',
+};
+
+/**
+ * 阿里云盘模板
+ */
+const ALIDRIVE_TEMPLATE: IProviderTemplate = {
+  id: 'alidrive',
+  name: '阿里云盘',
+  type: 'alidrive',
+  description: '阿里云盘备份盘和资源库（阿里云盘开放平台）',
+  icon: 'fa-cloud',
+  color: '#637DFF',
+  defaultConfig: {
+    ...createDefaultConfig('alidrive', 'fa-cloud', '#637DFF', 70),
+    auth: {
+      oauth2: {
+        ...ALIDRIVE_OAUTH,
+        clientId: '',
+        clientSecret: '',
+        redirectUri: '',
+        usePkce: true,
+      },
+    },
+  },
+  requiredFields: ['auth'],
+  optionalFields: ['endpoint', 'workspace', 'preferences', 'ui'],
+  helpUrl: 'https://www.yuque.com/aliyundrive/zpfszx',
+};
+
+/**
+ * 百度网盘模板
+ */
+const BAIDU_TEMPLATE: IProviderTemplate = {
+  id: 'baidu',
+  name: '百度网盘',
+  type: 'baidu',
+  description: '百度网盘个人文件（百度网盘开放平台）',
+  icon: 'fa-cloud',
+  color: '#06A7FF',
+  defaultConfig: {
+    ...createDefaultConfig('baidu', 'fa-cloud', '#06A7FF', 80),
+    auth: {
+      oauth2: {
+        ...BAIDU_OAUTH,
+        clientId: '',
+        clientSecret: '',
+        redirectUri: '',
+        usePkce: false,
+      },
+    },
+  },
+  requiredFields: ['auth'],
+  optionalFields: ['endpoint', 'preferences', 'ui'],
+  helpUrl: 'https://pan.baidu.com/union/doc/',
+};
+
+/**
+ * 注册所有内置提供商（可重复调用）
+ */
+export function registerBuiltinProviders(): void {
+  if (!providerRegistry.isRegistered('webdav')) {
+    registerProvider(
+      'webdav',
+      'WebDAV',
+      '通用 WebDAV 协议支持',
+      WEBDAV_TEMPLATE.icon,
+      WEBDAV_TEMPLATE.color,
+      'protocol',
+      createWebDAVProvider,
+      WEBDAV_TEMPLATE
+    );
+  }
+
+  if (!providerRegistry.isRegistered('s3')) {
+    registerProvider(
+      's3',
+      'S3 兼容存储',
+      S3_TEMPLATE.description || '',
+      S3_TEMPLATE.icon,
+      S3_TEMPLATE.color,
+      'object-storage',
+      createS3Provider,
+      S3_TEMPLATE
+    );
+  }
+
+  if (!providerRegistry.isRegistered('tus')) {
+    registerProvider(
+      'tus',
+      'tus',
+      TUS_TEMPLATE.description || '',
+      TUS_TEMPLATE.icon,
+      TUS_TEMPLATE.color,
+      'protocol',
+      createTusProvider,
+      TUS_TEMPLATE
+    );
+  }
+
+  if (!providerRegistry.isRegistered('onedrive')) {
+    registerProvider(
+      'onedrive',
+      'OneDrive',
+      ONEDRIVE_TEMPLATE.description || '',
+      ONEDRIVE_TEMPLATE.icon,
+      ONEDRIVE_TEMPLATE.color,
+      'personal',
+      createOneDriveProvider,
+      ONEDRIVE_TEMPLATE
+    );
+  }
+
+  if (!providerRegistry.isRegistered('googledrive')) {
+    registerProvider(
+      'googledrive',
+      'Google Drive',
+      GOOGLE_DRIVE_TEMPLATE.description || '',
+      GOOGLE_DRIVE_TEMPLATE.icon,
+      GOOGLE_DRIVE_TEMPLATE.color,
+      'personal',
+      createGoogleDriveProvider,
+      GOOGLE_DRIVE_TEMPLATE
+    );
+  }
+
+  if (!providerRegistry.isRegistered('dropbox')) {
+    registerProvider(
+      'dropbox',
+      'Dropbox',
+      DROPBOX_TEMPLATE.description || '',
+      DROPBOX_TEMPLATE.icon,
+      DROPBOX_TEMPLATE.color,
+      'personal',
+      createDropboxProvider,
+      DROPBOX_TEMPLATE
+    );
+  }
+
+  if (!providerRegistry.isRegistered('alidrive')) {
+    registerProvider(
+      'alidrive',
+      '阿里云盘',
+      ALIDRIVE_TEMPLATE.description || '',
+      ALIDRIVE_TEMPLATE.icon,
+      ALIDRIVE_TEMPLATE.color,
+      'personal',
+      createAliDriveProvider,
+      ALIDRIVE_TEMPLATE
+    );
+  }
+
+  if (!providerRegistry.isRegistered('baidu')) {
+    registerProvider(
+      'baidu',
+      '百度网盘',
+      BAIDU_TEMPLATE.description || '',
+      BAIDU_TEMPLATE.icon,
+      BAIDU_TEMPLATE.color,
+      'personal',
+      createBaiduDriveProvider,
+      BAIDU_TEMPLATE
+    );
+  }
+}
@@ -0,0 +1,186 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { JSDOM } from 'jsdom';
+import { S3Provider } from './S3Provider';
+import { IProviderConfig, IUploadOptions } from '../base';
+import { classifyError } from '../../transfer/RetryPolicy';
+import { mockFetch, readBody } from '../../testing/mockFetch';
+
+const createProvider = () => new S3Provider({
+  id: 's3-test',
+  name: 'S3 Test',
+  type: 's3',
+  enabled: true,
+  endpoint: 'https://minio.example.com',
+  bucket: 'bucket',
+  region: 'us-east-1',
+  auth: { apiKey: { key: 'AKID', secret: 'SECRET' } },
+} as IProviderConfig);
+
+const xml = (body: string, init: ResponseInit = {}) =>
+  new Response(`<?xml version="1.0" encoding="UTF-8"?>${body}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/xml', ...(init.headers as Record<string, string>) },
+  });
+
+describe('S3Provider', () => {
+  beforeEach(() => {
+    // S3 响应为 XML，Node 环境没有 DOMParser
+    vi.stubGlobal('DOMParser', new JSDOM().window.DOMParser);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('getFileInfo', () => {
+    it('读取 HEAD 响应头', async () => {
+      const { requests } = mockFetch(() => new Response(null, {
+        headers: {
+          'Content-Length': '1234',
+          'Content-Type': 'text/plain',
+          ETag: '"9e107d9d372bb6826bd81d3542a419d6"',
+          'Last-Modified': 'Fri, 24 May 2013 00:00:00 GMT',
+          'x-amz-meta-author': 'alice',
+        },
+      }));
+
+      const file = await createProvider().getFileInfo('docs/a.txt');
+
+      expect(requests[0].method).toBe('HEAD');
+      expect(requests[0].url.pathname).toBe('/bucket/docs/a.txt');
+      expect(requests[0].headers.get('authorization')).toMatch(/^AWS4-HMAC-SHA256 Credential=AKID\//);
+      expect(file).toMatchObject({
+        id: 'docs/a.txt',
+        name: 'a.txt',
+        size: 1234,
+        mimeType: 'text/plain',
+        hash: { md5: '9e107d9d372bb6826bd81d3542a419d6' },
+        metadata: { author: 'alice' },
+      });
+    });
+
+    it('只有 404 视为文件不存在', async () => {
+      mockFetch(() => new Response(null, { status: 404, statusText: 'Not Found' }));
+      const error = await createProvider().getFileInfo('missing.txt').catch(e => e);
+
+      expect(error.message).toBe('File not found: missing.txt');
+      expect(classifyError(error)).toMatchObject({ kind: 'client', status: 404, retryable: false });
+    });
+
+    it.each([
+      [401, 'auth'],
+      [403, 'client'],
+      [503, 'server'],
+    ])('HEAD 返回 %i 时保留状态码', async (status, kind) => {
+      mockFetch(() => new Response(null, { status, headers: { 'Retry-After': '2' } }));
+      const error = await createProvider().getFileInfo('a.txt').catch(e => e);
+
+      expect(error.message).not.toContain('File not found');
+      expect(error.status).toBe(status);
+      expect(classifyError(error)).toMatchObject({ kind, status });
+    });
+
+    it('网络错误原样抛出', async () => {
+      vi.stubGlobal('fetch', vi.fn(async () => { throw new TypeError('Failed to fetch'); }));
+      const error = await createProvider().getFileInfo('a.txt').catch(e => e);
+
+      expect(error).toBeInstanceOf(TypeError);
+      expect(classifyError(error).kind).toBe('network');
+    });
+
+    it('目录不存在时返回 404', async () => {
+      mockFetch(() => xml('<ListBucketResult><IsTruncated>false</IsTruncated></ListBucketResult>'));
+      const error = await createProvider().getFileInfo('empty/').catch(e => e);
+
+      expect(error.message).toBe('File not found: empty/');
+      expect(error.status).toBe(404);
+    });
+  });
+
+  it('按 continuation token 分页列出文件和目录', async () => {
+    const { requests } = mockFetch((request) => {
+      const token = request.url.searchParams.get('continuation-token');
+      return xml(
+        '<ListBucketResult>' +
+        (token
+          ? '<Contents><Key>docs/b.txt</Key><Size>2</Size></Contents><IsTruncated>false</IsTruncated>'
+          : '<CommonPrefixes><Prefix>docs/sub/</Prefix></CommonPrefixes>' +
+            '<Contents><Key>docs/</Key><Size>0</Size></Contents>' +
+            '<Contents><Key>docs/a.txt</Key><Size>1</Size><ETag>"abc-2"</ETag></Contents>' +
+            '<IsTruncated>true</IsTruncated><NextContinuationToken>next-1</NextContinuationToken>') +
+        '</ListBucketResult>'
+      );
+    });
+    const provider = createProvider();
+
+    const first = await provider.listFiles({ folderId: 'docs/' });
+    expect(requests[0].url.searchParams.get('prefix')).toBe('docs/');
+    expect(requests[0].url.searchParams.get('delimiter')).toBe('/');
+    expect(first.files.map(file => [file.name, file.type])).toEqual([['sub', 'folder'], ['a.txt', 'file']]);
+    // 分片上传的 ETag 不是内容 MD5
+    expect(first.files[1].hash).toBeUndefined();
+    expect(first).toMatchObject({ hasMore: true, nextCursor: 'next-1' });
+
+    const second = await provider.listFiles({ folderId: 'docs/', cursor: first.nextCursor });
+    expect(requests[1].url.searchParams.get('continuation-token')).toBe('next-1');
+    expect(second.files.map(file => file.id)).toEqual(['docs/b.txt']);
+    expect(second.hasMore).toBe(false);
+  });
+
+  it('大文件按分片上传并按分片号完成', async () => {
+    const partSize = 5 * 1024 * 1024;
+    const file = new Blob([new Uint8Array(2 * partSize + 100)]);
+    const uploadedParts: number[] = [];
+    let completeBody = '';
+
+    const { requests } = mockFetch(async (request) => {
+      const { searchParams } = request.url;
+      if (request.method === 'POST' && searchParams.has('uploads')) {
+        return xml('<InitiateMultipartUploadResult><UploadId>upload-1</UploadId></InitiateMultipartUploadResult>');
+      }
+      if (request.method === 'PUT' && searchParams.get('uploadId') === 'upload-1') {
+        const partNumber = Number(searchParams.get('partNumber'));
+        uploadedParts.push(partNumber);
+        return new Response(null, { headers: { ETag: `"etag-${partNumber}"` } });
+      }
+      if (request.method === 'POST' && searchParams.get('uploadId') === 'upload-1') {
+        completeBody = await readBody(request);
+        return xml('<CompleteMultipartUploadResult><ETag>"final-3"</ETag></CompleteMultipartUploadResult>');
+      }
+      return undefined;
+    });
+
+    const task = await createProvider().uploadFile(file, {
+      fileName: 'big.bin',
+      targetPath: '/uploads',
+      chunkSize: partSize,
+    } as IUploadOptions);
+
+    expect(requests[0].url.pathname).toBe('/bucket/uploads/big.bin');
+    expect(uploadedParts.sort()).toEqual([1, 2, 3]);
+    expect(completeBody).toContain('<Part><PartNumber>1</PartNumber><ETag>&quot;etag-1&quot;</ETag></Part>');
+    expect(completeBody.indexOf('<PartNumber>1<')).toBeLessThan(completeBody.indexOf('<PartNumber>3<'));
+    expect(task.result).toMatchObject({ success: true, fileId: 'uploads/big.bin' });
+  });
+
+  it('CompleteMultipartUpload 在 200 响应体中返回错误时失败', async () => {
+    mockFetch((request) => {
+      if (request.url.searchParams.has('uploads')) {
+        return xml('<InitiateMultipartUploadResult><UploadId>u</UploadId></InitiateMultipartUploadResult>');
+      }
+      if (request.method === 'PUT') {
+        return new Response(null, { headers: { ETag: '"e"' } });
+      }
+      if (request.method === 'POST') {
+        return xml('<Error><Code>InternalError</Code><Message>We encountered an internal error.</Message></Error>');
+      }
+      return new Response(null);
+    });
+
+    await expect(createProvider().uploadFile(new Blob([new Uint8Array(6 * 1024 * 1024)]), {
+      fileName: 'x.bin',
+      targetPath: '/',
+      chunkSize: 5 * 1024 * 1024,
+    } as IUploadOptions)).rejects.toThrow('Complete multipart upload failed: InternalError');
+  });
+});
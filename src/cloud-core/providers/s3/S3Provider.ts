@@ -0,0 +1,1382 @@
+/**
+ * S3 兼容存储提供商实现
+ * 支持 AWS S3、MinIO 以及任何兼容 S3 API 的对象存储
+ *
+ * 注意：浏览器直连时存储桶需要配置 CORS，
+ * 并通过 ExposeHeaders 暴露 ETag、x-amz-version-id 等响应头
+ */
+
+import {
+  BaseStorageProvider,
+  IFileItem,
+  IFileListResponse,
+  IStorageProvider,
+  IProviderConfig,
+  IProviderCapabilities,
+  IListFilesOptions,
+  IUploadOptions,
+  IDownloadOptions,
+  IChunkUploadSession,
+  IChunkUploadResult,
+  IChunkInfo,
+  ISearchOptions,
+  ISearchResult,
+  IBatchOperationResult,
+  IPreviewInfo,
+  IStorageQuota,
+  ITransferTask,
+  ITransferOptions,
+  FileType,
+  TransferType,
+  TransferStatus,
+  ProviderStatus,
+} from '../base';
+import {
+  SigV4Signer,
+  EMPTY_PAYLOAD_HASH,
+  sha256,
+  sha256Hex,
+  toBase64,
+  uriEncode,
+} from './SigV4Signer';
+import { createHttpError, IHttpError } from '../../transfer/RetryPolicy';
+
+/**
+ * 分片上传最小分片（最后一片除外）
+ */
+const MIN_PART_SIZE = 5 * 1024 * 1024;
+
+/**
+ * 分片上传最大分片数
+ */
+const MAX_PARTS = 10000;
+
+/**
+ * DeleteObjects 单次请求最大对象数
+ */
+const MAX_DELETE_KEYS = 1000;
+
+/**
+ * S3 提供商能力声明
+ */
+const S3_CAPABILITIES: IProviderCapabilities = {
+  supports: {
+    listFiles: true,
+    uploadFile: true,
+    downloadFile: true,
+    deleteFile: true,
+    moveFile: true,
+    copyFile: true,
+    renameFile: true,
+    createFolder: true,
+    searchFiles: true,
+    shareFile: false,
+    getFileInfo: true,
+    getFileThumbnail: false,
+    getFilePreview: true,
+    batchDelete: true,
+    batchDownload: false,
+    batchMove: false,
+    batchCopy: false,
+    chunkUpload: true,
+    chunkDownload: true,
+    resumableUpload: true,
+    resumableDownload: true,
+    uploadSpeedLimit: false,
+    downloadSpeedLimit: false,
+    sync: false,
+    versioning: false,
+    conflictResolution: false,
+    metadataCache: true,
+    thumbnailCache: false,
+    encryption: false,
+    twoFactorAuth: false,
+  },
+  limits: {
+    maxFileSize: 5 * 1024 * 1024 * 1024 * 1024, // 5TB
+    maxFolderDepth: 0,
+    maxFileNameLength: 1024,
+    maxPathLength: 1024,
+    maxUploadConnections: 4,
+    maxDownloadConnections: 6,
+    allowedFileTypes: [],
+    blockedFileTypes: [],
+  },
+  performance: {
+    recommendedChunkSize: 8 * 1024 * 1024, // 8MB
+    maxChunkSize: 5 * 1024 * 1024 * 1024, // 5GB
+    minChunkSize: MIN_PART_SIZE,
+    fixedChunkSize: true,
+    maxConcurrentRequests: 6,
+    requestTimeout: 30000,
+    apiRateLimit: 0,
+  },
+  authMethods: ['apikey'],
+  regions: ['us-east-1', 'us-west-2', 'eu-west-1', 'ap-northeast-1', 'ap-southeast-1'],
+  customMetadata: true,
+};
+
+/**
+ * S3 对象原始数据接口
+ */
+export interface IS3Object {
+  key: string;
+  size: number;
+  lastModified?: string;
+  etag?: string;
+  storageClass?: string;
+  contentType?: string;
+  versionId?: string;
+  metadata?: Record<string, string>;
+}
+
+/**
+ * 已上传分片接口
+ */
+export interface IS3UploadedPart {
+  partNumber: number;
+  etag: string;
+  size?: number;
+}
+
+/**
+ * 请求选项接口
+ */
+interface IS3RequestOptions {
+  query?: Record<string, string>;
+  headers?: Record<string, string>;
+  body?: BodyInit;
+  payloadHash?: string;
+  timeout?: number;
+  signal?: AbortSignal;          // 外部中止信号
+}
+
+/**
+ * S3 提供商类
+ */
+export class S3Provider extends BaseStorageProvider {
+  private bucket: string;
+  private region: string;
+  private endpoint: URL;
+  private forcePathStyle: boolean;
+  private rootPrefix: string;
+  private signer: SigV4Signer;
+
+  constructor(config: IProviderConfig) {
+    super(
+      config.id,
+      config.name,
+      's3',
+      config,
+      S3_CAPABILITIES
+    );
+
+    this.bucket = config.bucket || '';
+    this.region = config.region || config.auth.apiKey?.region || 'us-east-1';
+
+    const endpoint = config.endpoint || `https://s3.${this.region}.amazonaws.com`;
+    this.endpoint = new URL(/^https?:\/\//.test(endpoint) ? endpoint : `https://${endpoint}`);
+
+    // 自定义端点（如 MinIO）默认使用路径风格访问
+    this.forcePathStyle = config.metadata?.forcePathStyle ?? !!config.endpoint;
+
+    this.rootPrefix = this.toFolderKey(config.rootPath, '');
+
+    this.signer = new SigV4Signer(
+      {
+        accessKeyId: config.auth.apiKey?.key || '',
+        secretAccessKey: config.auth.apiKey?.secret || '',
+        sessionToken: config.auth.custom?.sessionToken,
+      },
+      this.region
+    );
+  }
+
+  // ============================================
+  // 初始化和连接
+  // ============================================
+
+  /**
+   * 初始化提供商
+   */
+  async initialize(): Promise<void> {
+    this.setStatus(ProviderStatus.DISCONNECTED, 'Initialized');
+  }
+
+  /**
+   * 连接到提供商
+   */
+  async connect(): Promise<void> {
+    this.setStatus(ProviderStatus.CONNECTING, 'Connecting...');
+
+    try {
+      // 直接探测存储桶，保留 S3 返回的错误码（如 InvalidAccessKeyId）
+      await this.probeBucket();
+      this.config.lastConnected = new Date();
+      this.setStatus(ProviderStatus.CONNECTED, 'Connected');
+    } catch (error) {
+      this.setStatus(ProviderStatus.AUTH_ERROR, (error as Error).message);
+      throw error;
+    }
+  }
+
+  /**
+   * 断开连接
+   */
+  async disconnect(): Promise<void> {
+    this.setStatus(ProviderStatus.DISCONNECTED, 'Disconnected');
+  }
+
+  /**
+   * 测试连接（列出一个对象以验证凭证和存储桶权限）
+   */
+  async testConnection(): Promise<boolean> {
+    try {
+      await this.probeBucket();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * 探测存储桶访问权限
+   */
+  private async probeBucket(): Promise<void> {
+    await this.request('GET', '', {
+      query: { 'list-type': '2', 'max-keys': '1', prefix: this.rootPrefix },
+    });
+  }
+
+  /**
+   * 刷新认证（静态密钥无需刷新）
+   */
+  async refreshAuth(): Promise<void> {
+    // Access Key 认证不需要刷新
+  }
+
+  /**
+   * 验证配置
+   */
+  public async validateConfig(config: IProviderConfig): Promise<{
+    valid: boolean;
+    errors?: string[];
+  }> {
+    const result = await super.validateConfig(config);
+    const errors = result.errors ? [...result.errors] : [];
+
+    if (!config.bucket) errors.push('Bucket is required');
+    if (!config.auth?.apiKey?.key) errors.push('Access Key ID is required');
+    if (!config.auth?.apiKey?.secret) errors.push('Secret Access Key is required');
+    if (!config.region && !config.auth?.apiKey?.region && !config.endpoint) {
+      errors.push('Region or endpoint is required');
+    }
+    if (config.endpoint) {
+      try {
+        new URL(/^https?:\/\//.test(config.endpoint) ? config.endpoint : `https://${config.endpoint}`);
+      } catch {
+        errors.push(`Invalid endpoint: ${config.endpoint}`);
+      }
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors: errors.length > 0 ? errors : undefined,
+    };
+  }
+
+  // ============================================
+  // 文件操作
+  // ============================================
+
+  /**
+   * 列出文件（ListObjectsV2，nextCursor 为 continuation token）
+   */
+  async listFiles(options?: IListFilesOptions): Promise<IFileListResponse> {
+    const prefix = this.toFolderKey(options?.folderId ?? options?.path);
+    const page = await this.listObjectsPage(prefix, {
+      recursive: options?.recursive,
+      limit: options?.limit,
+      cursor: options?.cursor,
+    });
+
+    const files = [
+      ...page.folders,
+      // 排除目录自身的占位对象
+      ...page.objects.filter(object => object.key !== prefix),
+    ]
+      .map(object => this.normalizeFile(object))
+      .filter(file => this.config.preferences?.showHiddenFiles || !file.isHidden);
+
+    return {
+      files,
+      total: page.nextCursor ? undefined : files.length,
+      nextCursor: page.nextCursor,
+      hasMore: !!page.nextCursor,
+    };
+  }
+
+  /**
+   * 获取文件信息（HEAD）
+   */
+  async getFileInfo(fileId: string): Promise<IFileItem> {
+    const key = this.toObjectKey(fileId);
+
+    // 目录是虚拟前缀：存在占位对象或任何子对象即视为存在
+    if (key === '' || key.endsWith('/')) {
+      const page = await this.listObjectsPage(key, { recursive: true, limit: 1 });
+      if (key !== '' && page.objects.length === 0) {
+        throw Object.assign(new Error(`File not found: ${fileId}`), { status: 404 });
+      }
+      return this.normalizeFile({ key, size: 0 });
+    }
+
+    let response: Response;
+    try {
+      response = await this.request('HEAD', key);
+    } catch (error) {
+      // 只有 404 表示不存在；认证失败、服务端错误和网络错误保留原状态码，交给刷新令牌和重试处理
+      if ((error as IHttpError).status === 404) {
+        throw Object.assign(new Error(`File not found: ${fileId}`), { status: 404 });
+      }
+      throw error;
+    }
+
+    const metadata: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+      if (name.startsWith('x-amz-meta-')) {
+        metadata[name.slice('x-amz-meta-'.length)] = value;
+      }
+    });
+
+    return this.normalizeFile({
+      key,
+      size: parseInt(response.headers.get('Content-Length') || '0', 10),
+      lastModified: response.headers.get('Last-Modified') || undefined,
+      etag: response.headers.get('ETag') || undefined,
+      contentType: response.headers.get('Content-Type') || undefined,
+      storageClass: response.headers.get('x-amz-storage-class') || undefined,
+      versionId: response.headers.get('x-amz-version-id') || undefined,
+      metadata: Object.keys(metadata).length > 0 ? metadata : undefined,
+    });
+  }
+
+  /**
+   * 创建文件夹（写入以 / 结尾的空占位对象）
+   */
+  async createFolder(name: string, parentId: string): Promise<IFileItem> {
+    const key = `${this.toFolderKey(parentId)}${name.replace(/\/+$/, '')}/`;
+
+    await this.request('PUT', key, {
+      body: new Blob([]),
+      payloadHash: EMPTY_PAYLOAD_HASH,
+    });
+
+    return this.normalizeFile({ key, size: 0, lastModified: new Date().toISOString() });
+  }
+
+  /**
+   * 重命名文件（复制后删除源对象）
+   */
+  async renameFile(fileId: string, newName: string): Promise<IFileItem> {
+    const key = this.toObjectKey(fileId);
+    const renamed = await this.copyFile(key, this.getParentKey(key), newName);
+    await this.deleteFile(key);
+    return renamed;
+  }
+
+  /**
+   * 移动文件（复制后删除源对象）
+   */
+  async moveFile(fileId: string, targetParentId: string): Promise<IFileItem> {
+    const key = this.toObjectKey(fileId);
+    const moved = await this.copyFile(key, targetParentId);
+    await this.deleteFile(key);
+    return moved;
+  }
+
+  /**
+   * 复制文件（CopyObject，文件夹递归复制）
+   */
+  async copyFile(fileId: string, targetParentId: string, newName?: string): Promise<IFileItem> {
+    const sourceKey = this.toObjectKey(fileId);
+    const name = newName || this.getBaseName(sourceKey);
+
+    if (sourceKey.endsWith('/')) {
+      const targetPrefix = `${this.toFolderKey(targetParentId)}${name}/`;
+      if (targetPrefix.startsWith(sourceKey)) {
+        throw new Error('Cannot copy a folder into itself');
+      }
+
+      const objects = await this.listAllObjects(sourceKey);
+      await this.runConcurrent(objects.length, this.capabilities.performance.maxConcurrentRequests, async index => {
+        const object = objects[index];
+        await this.copyObject(object.key, targetPrefix + object.key.slice(sourceKey.length));
+      });
+
+      return this.normalizeFile({ key: targetPrefix, size: 0, lastModified: new Date().toISOString() });
+    }
+
+    const targetKey = `${this.toFolderKey(targetParentId)}${name}`;
+    await this.copyObject(sourceKey, targetKey);
+    return this.getFileInfo(targetKey);
+  }
+
+  /**
+   * 删除文件（文件夹删除其下全部对象）
+   */
+  async deleteFile(fileId: string, _permanent?: boolean): Promise<void> {
+    const key = this.toObjectKey(fileId);
+
+    if (key.endsWith('/')) {
+      const result = await this.deleteFiles([key]);
+      if (result.failedCount > 0) {
+        throw new Error(`Failed to delete folder: ${result.failed[0].error}`);
+      }
+      return;
+    }
+
+    await this.request('DELETE', key);
+  }
+
+  /**
+   * 批量删除文件（DeleteObjects，每批最多1000个）
+   */
+  public async deleteFiles(fileIds: string[]): Promise<IBatchOperationResult> {
+    const keys: string[] = [];
+    for (const fileId of fileIds) {
+      const key = this.toObjectKey(fileId);
+      if (key.endsWith('/')) {
+        const objects = await this.listAllObjects(key);
+        keys.push(...objects.map(object => object.key));
+        if (!objects.some(object => object.key === key)) {
+          keys.push(key);
+        }
+      } else {
+        keys.push(key);
+      }
+    }
+
+    const successful: IFileItem[] = [];
+    const failed: Array<{ file: IFileItem; error: string }> = [];
+
+    for (let start = 0; start < keys.length; start += MAX_DELETE_KEYS) {
+      const batch = keys.slice(start, start + MAX_DELETE_KEYS);
+      const body = `<?xml version="1.0" encoding="UTF-8"?>` +
+        `<Delete xmlns="http://s3.amazonaws.com/doc/2006-03-01/"><Quiet>true</Quiet>` +
+        batch.map(key => `<Object><Key>${this.escapeXml(key)}</Key></Object>`).join('') +
+        `</Delete>`;
+
+      const response = await this.request('POST', '', {
+        query: { delete: '' },
+        headers: {
+          'Content-Type': 'application/xml',
+          'x-amz-checksum-sha256': toBase64(await sha256(body)),
+        },
+        body,
+        payloadHash: await sha256Hex(body),
+      });
+
+      const doc = this.parseXml(await response.text());
+      const errors = new Map<string, string>();
+      for (const element of Array.from(doc.getElementsByTagName('Error'))) {
+        errors.set(
+          this.childText(element, 'Key'),
+          `${this.childText(element, 'Code')}: ${this.childText(element, 'Message')}`
+        );
+      }
+
+      for (const key of batch) {
+        const file = this.normalizeFile({ key, size: 0 });
+        const error = errors.get(key);
+        if (error) {
+          failed.push({ file, error });
+        } else {
+          successful.push(file);
+        }
+      }
+    }
+
+    return {
+      successful,
+      failed,
+      total: keys.length,
+      successCount: successful.length,
+      failedCount: failed.length,
+    };
+  }
+
+  /**
+   * 搜索文件（按前缀递归列出后在客户端匹配）
+   */
+  async searchFiles(options: ISearchOptions): Promise<ISearchResult> {
+    const startTime = Date.now();
+    const query = options.query.toLowerCase();
+    const objects = await this.listAllObjects(this.toFolderKey(options.folderId));
+
+    const matched = objects
+      .map(object => this.normalizeFile(object))
+      .filter(file => {
+        if (!file.name.toLowerCase().includes(query)) return false;
+        if (options.fileTypes?.length && !options.fileTypes.includes(file.fileType)) return false;
+        if (options.minSize !== undefined && file.size < options.minSize) return false;
+        if (options.maxSize !== undefined && file.size > options.maxSize) return false;
+        if (options.modifiedAfter && file.modifiedAt < options.modifiedAfter) return false;
+        if (options.modifiedBefore && file.modifiedAt > options.modifiedBefore) return false;
+        return true;
+      });
+
+    const offset = options.offset || 0;
+    const files = matched.slice(offset, options.limit ? offset + options.limit : undefined);
+
+    return {
+      files,
+      total: matched.length,
+      searchTime: Date.now() - startTime,
+    };
+  }
+
+  // ============================================
+  // 上传和下载
+  // ============================================
+
+  /**
+   * 上传文件（超过分片大小时自动使用分片上传）
+   */
+  async uploadFile(file: File | Blob, options: IUploadOptions): Promise<ITransferTask> {
+    const key = `${this.toFolderKey(options.parentId ?? options.targetPath)}${options.fileName}`;
+    const contentType = file.type || this.getMimeType(options.fileName);
+    const partSize = this.getPartSize(file.size, options.chunkSize);
+
+    const task = this.createTransferTask(
+      TransferType.UPLOAD,
+      options.fileName,
+      file.size,
+      { providerId: 'local', path: options.fileName },
+      { providerId: this.id, path: `/${key}`, fileId: key },
+      { ...options, chunkSize: partSize } as ITransferOptions
+    );
+
+    task.status = TransferStatus.ACTIVE;
+    task.startedAt = new Date();
+
+    try {
+      if (options.enableChunking !== false && file.size > partSize) {
+        await this.uploadMultipart(file, key, partSize, contentType, task, options);
+      } else {
+        await this.request('PUT', key, {
+          body: file,
+          headers: {
+            'Content-Type': contentType,
+            ...this.toMetadataHeaders(options.metadata),
+          },
+          timeout: options.timeout,
+        });
+        this.updateTaskProgress(task, file.size);
+      }
+
+      task.status = TransferStatus.COMPLETED;
+      task.completedAt = new Date();
+      task.result = {
+        success: true,
+        fileId: key,
+        filePath: `/${key}`,
+      };
+      options.onComplete?.(task);
+    } catch (error) {
+      task.status = TransferStatus.FAILED;
+      task.error = error as Error;
+      task.errorMessage = (error as Error).message;
+      task.errorCount++;
+      options.onError?.(error as Error);
+      throw error;
+    }
+
+    return task;
+  }
+
+  /**
+   * 下载文件（使用预签名URL交由浏览器直接下载，不在内存中缓冲）
+   */
+  async downloadFile(fileId: string, options?: IDownloadOptions): Promise<ITransferTask> {
+    const fileInfo = await this.getFileInfo(fileId);
+
+    const task = this.createTransferTask(
+      TransferType.DOWNLOAD,
+      fileInfo.name,
+      fileInfo.size,
+      { providerId: this.id, path: fileInfo.path, fileId: fileInfo.id },
+      { providerId: 'local', path: '/' },
+      options || {} as any
+    );
+
+    task.status = TransferStatus.ACTIVE;
+    task.startedAt = new Date();
+
+    try {
+      const url = await this.presignObject('GET', fileInfo.id, 3600, {
+        'response-content-disposition': `attachment; filename*=UTF-8''${uriEncode(fileInfo.name)}`,
+      });
+
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = fileInfo.name;
+      a.rel = 'noopener';
+      a.click();
+
+      task.status = TransferStatus.COMPLETED;
+      task.progress.transferred = fileInfo.size;
+      task.progress.percentage = 100;
+      task.completedAt = new Date();
+    } catch (error) {
+      task.status = TransferStatus.FAILED;
+      task.error = error as Error;
+      throw error;
+    }
+
+    return task;
+  }
+
+  /**
+   * 获取对象内容（支持Range请求）
+   * @param fileId - 文件ID
+   * @param range - 字节范围（含首尾）
+   */
+  public async getObject(
+    fileId: string,
+    range?: { start: number; end: number },
+    signal?: AbortSignal
+  ): Promise<Response> {
+    return this.request('GET', this.toObjectKey(fileId), {
+      headers: range ? { Range: `bytes=${range.start}-${range.end}` } : undefined,
+      timeout: 0,
+      signal,
+    });
+  }
+
+  /**
+   * 打开对象读取流（供 TransferManager 分片下载）
+   */
+  async openDownloadStream(
+    fileId: string,
+    range?: { start: number; end: number },
+    signal?: AbortSignal
+  ): Promise<ReadableStream<Uint8Array>> {
+    const response = await this.getObject(fileId, range, signal);
+    if (!response.body) {
+      throw new Error('Streaming response body is not supported');
+    }
+    return response.body;
+  }
+
+  /**
+   * 获取下载URL（预签名GET）
+   */
+  public async getDownloadUrl(fileId: string, expiresIn: number = 3600): Promise<string> {
+    return this.presignObject('GET', this.toObjectKey(fileId), expiresIn);
+  }
+
+  /**
+   * 获取上传URL（预签名PUT）
+   */
+  public async getUploadUrl(folderId: string, fileName: string, expiresIn: number = 3600): Promise<{
+    uploadUrl: string;
+    fileId?: string;
+    headers?: Record<string, string>;
+  }> {
+    const key = `${this.toFolderKey(folderId)}${fileName}`;
+    return {
+      uploadUrl: await this.presignObject('PUT', key, expiresIn),
+      fileId: key,
+      headers: {},
+    };
+  }
+
+  /**
+   * 获取预览信息（预签名内联URL）
+   */
+  public async getPreviewInfo(fileId: string): Promise<IPreviewInfo> {
+    const file = await this.getFileInfo(fileId);
+    const expiresIn = 3600;
+    const mimeType = file.mimeType || 'application/octet-stream';
+
+    return {
+      url: await this.presignObject('GET', file.id, expiresIn, {
+        'response-content-disposition': 'inline',
+        'response-content-type': mimeType,
+      }),
+      mimeType,
+      expiresAt: new Date(Date.now() + expiresIn * 1000),
+      canEmbed: /^(image|video|audio)\//.test(mimeType) || mimeType === 'application/pdf',
+      downloadUrl: await this.getDownloadUrl(file.id, expiresIn),
+    };
+  }
+
+  // ============================================
+  // 分片上传（Multipart Upload）
+  // ============================================
+  // 分片上传契约（供 TransferManager 调度）
+  // ============================================
+
+  /**
+   * 创建分片上传会话
+   */
+  async initChunkUpload(file: File | Blob, options: IUploadOptions): Promise<IChunkUploadSession> {
+    const key = `${this.toFolderKey(options.parentId ?? options.targetPath)}${options.fileName}`;
+    const uploadId = await this.createMultipartUpload(key, {
+      contentType: file.type || this.getMimeType(options.fileName),
+      metadata: options.metadata,
+    });
+
+    return {
+      uploadId,
+      fileId: key,
+      chunkSize: this.getPartSize(file.size, options.chunkSize),
+    };
+  }
+
+  /**
+   * 上传单个分片（分片序号从1开始）
+   */
+  async uploadChunk(
+    session: IChunkUploadSession,
+    chunk: IChunkInfo,
+    data: Blob,
+    signal?: AbortSignal
+  ): Promise<IChunkUploadResult> {
+    const etag = await this.uploadPart(
+      session.fileId!,
+      session.uploadId,
+      chunk.index + 1,
+      data,
+      this.config.transfer?.upload.timeout,
+      signal
+    );
+    return { etag };
+  }
+
+  /**
+   * 合并分片
+   */
+  async completeChunkUpload(session: IChunkUploadSession, chunks: IChunkInfo[]): Promise<IFileItem> {
+    await this.completeMultipartUpload(
+      session.fileId!,
+      session.uploadId,
+      chunks.map(chunk => ({ partNumber: chunk.index + 1, etag: chunk.etag || '', size: chunk.size }))
+    );
+    return this.getFileInfo(session.fileId!);
+  }
+
+  /**
+   * 中止分片上传
+   */
+  async abortChunkUpload(session: IChunkUploadSession): Promise<void> {
+    await this.abortMultipartUpload(session.fileId!, session.uploadId);
+  }
+
+  // ============================================
+
+  /**
+   * 初始化分片上传
+   * @returns 上传会话ID（UploadId）
+   */
+  public async createMultipartUpload(
+    key: string,
+    options: { contentType?: string; metadata?: Record<string, any> } = {}
+  ): Promise<string> {
+    const response = await this.request('POST', this.toObjectKey(key), {
+      query: { uploads: '' },
+      headers: {
+        'Content-Type': options.contentType || this.getMimeType(key),
+        ...this.toMetadataHeaders(options.metadata),
+      },
+    });
+
+    const doc = this.parseXml(await response.text());
+    const uploadId = this.childText(doc.documentElement, 'UploadId');
+    if (!uploadId) {
+      throw new Error('Failed to create multipart upload: missing UploadId');
+    }
+    return uploadId;
+  }
+
+  /**
+   * 上传单个分片
+   * @returns 分片 ETag
+   */
+  public async uploadPart(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    body: Blob,
+    timeout?: number,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const response = await this.request('PUT', this.toObjectKey(key), {
+      query: { partNumber: String(partNumber), uploadId },
+      body,
+      timeout,
+      signal,
+    });
+
+    const etag = response.headers.get('ETag');
+    if (!etag) {
+      throw new Error('Missing ETag for uploaded part (check CORS ExposeHeaders)');
+    }
+    return etag;
+  }
+
+  /**
+   * 完成分片上传
+   * @returns 合并后对象的 ETag
+   */
+  public async completeMultipartUpload(key: string, uploadId: string, parts: IS3UploadedPart[]): Promise<string> {
+    const body = `<?xml version="1.0" encoding="UTF-8"?>` +
+      `<CompleteMultipartUpload xmlns="http://s3.amazonaws.com/doc/2006-03-01/">` +
+      [...parts]
+        .sort((a, b) => a.partNumber - b.partNumber)
+        .map(part => `<Part><PartNumber>${part.partNumber}</PartNumber><ETag>${this.escapeXml(part.etag)}</ETag></Part>`)
+        .join('') +
+      `</CompleteMultipartUpload>`;
+
+    const response = await this.request('POST', this.toObjectKey(key), {
+      query: { uploadId },
+      headers: { 'Content-Type': 'application/xml' },
+      body,
+      payloadHash: await sha256Hex(body),
+    });
+
+    // CompleteMultipartUpload 可能在 200 响应体中返回错误
+    const doc = this.parseXml(await response.text());
+    this.assertNoErrorBody(doc, 'Complete multipart upload');
+
+    return this.childText(doc.documentElement, 'ETag');
+  }
+
+  /**
+   * 取消分片上传
+   */
+  public async abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+    await this.request('DELETE', this.toObjectKey(key), {
+      query: { uploadId },
+    });
+  }
+
+  /**
+   * 列出已上传的分片（用于断点续传）
+   */
+  public async listParts(key: string, uploadId: string): Promise<IS3UploadedPart[]> {
+    const parts: IS3UploadedPart[] = [];
+    let marker: string | undefined;
+
+    do {
+      const query: Record<string, string> = { uploadId };
+      if (marker) {
+        query['part-number-marker'] = marker;
+      }
+
+      const response = await this.request('GET', this.toObjectKey(key), { query });
+      const doc = this.parseXml(await response.text());
+
+      for (const element of Array.from(doc.getElementsByTagName('Part'))) {
+        parts.push({
+          partNumber: parseInt(this.childText(element, 'PartNumber'), 10),
+          etag: this.childText(element, 'ETag'),
+          size: parseInt(this.childText(element, 'Size') || '0', 10),
+        });
+      }
+
+      marker = this.childText(doc.documentElement, 'IsTruncated') === 'true'
+        ? this.childText(doc.documentElement, 'NextPartNumberMarker')
+        : undefined;
+    } while (marker);
+
+    return parts;
+  }
+
+  // ============================================
+  // 存储配额
+  // ============================================
+
+  /**
+   * 获取存储配额（S3 没有配额概念）
+   */
+  async getStorageQuota(): Promise<IStorageQuota> {
+    return {
+      total: 0,
+      used: 0,
+      remaining: 0,
+      usagePercentage: 0,
+    };
+  }
+
+  // ============================================
+  // 实用方法
+  // ============================================
+
+  /**
+   * 获取提供商特定功能
+   */
+  public getFeature(feature: string): any {
+    switch (feature) {
+      case 'multipartUpload':
+        return {
+          create: this.createMultipartUpload.bind(this),
+          uploadPart: this.uploadPart.bind(this),
+          complete: this.completeMultipartUpload.bind(this),
+          abort: this.abortMultipartUpload.bind(this),
+          listParts: this.listParts.bind(this),
+        };
+      case 'presign':
+        return (method: string, fileId: string, expiresIn?: number) =>
+          this.presignObject(method, this.toObjectKey(fileId), expiresIn);
+      default:
+        return super.getFeature(feature);
+    }
+  }
+
+  /**
+   * 标准化文件项
+   */
+  normalizeFile(rawFile: IS3Object): IFileItem {
+    const isFolder = rawFile.key === '' || rawFile.key.endsWith('/');
+    const name = this.getBaseName(rawFile.key) || '/';
+    const etag = rawFile.etag?.replace(/"/g, '');
+    const modifiedAt = rawFile.lastModified ? new Date(rawFile.lastModified) : new Date();
+
+    return {
+      id: rawFile.key,
+      providerId: this.id,
+      parentId: this.getParentKey(rawFile.key),
+      path: `/${rawFile.key}`,
+      name,
+      type: isFolder ? FileType.FOLDER : FileType.FILE,
+      fileType: isFolder ? FileType.FOLDER : (this.getFileType(name) as FileType),
+      size: rawFile.size || 0,
+      createdAt: modifiedAt,
+      modifiedAt,
+      mimeType: isFolder ? undefined : rawFile.contentType || this.getMimeType(name),
+      // 分片上传的 ETag 形如 "<md5>-<parts>"，不是内容MD5
+      hash: etag && !etag.includes('-') ? { md5: etag } : undefined,
+      permissions: {
+        canRead: true,
+        canWrite: true,
+        canDelete: true,
+        canShare: false,
+        canRename: true,
+        canMove: true,
+        canCopy: true,
+      },
+      hasVersions: !!rawFile.versionId,
+      currentVersionId: rawFile.versionId,
+      isFavorite: false,
+      isOffline: false,
+      isShared: false,
+      isLocked: false,
+      isHidden: name.startsWith('.'),
+      isTrashed: false,
+      isEncrypted: false,
+      metadata: rawFile.metadata,
+      extensionStatus: {
+        s3: {
+          etag,
+          versionId: rawFile.versionId,
+          storageClass: rawFile.storageClass,
+        },
+      },
+      isCached: false,
+      raw: rawFile,
+    };
+  }
+
+  /**
+   * 反标准化文件项
+   */
+  denormalizeFile(file: IFileItem): IS3Object {
+    return {
+      key: file.id,
+      size: file.size,
+      lastModified: file.modifiedAt.toISOString(),
+      etag: file.extensionStatus?.s3?.etag,
+      storageClass: file.extensionStatus?.s3?.storageClass,
+      contentType: file.mimeType,
+      versionId: file.extensionStatus?.s3?.versionId,
+    };
+  }
+
+  // ============================================
+  // 私有辅助方法
+  // ============================================
+
+  /**
+   * 执行分片上传
+   */
+  private async uploadMultipart(
+    file: Blob,
+    key: string,
+    partSize: number,
+    contentType: string,
+    task: ITransferTask,
+    options: IUploadOptions
+  ): Promise<void> {
+    const uploadId = await this.createMultipartUpload(key, { contentType, metadata: options.metadata });
+    task.metadata = { ...task.metadata, uploadId };
+
+    const partCount = Math.ceil(file.size / partSize);
+    const concurrency = Math.max(
+      1,
+      Math.min(options.maxConcurrentChunks || 3, this.capabilities.limits.maxUploadConnections)
+    );
+    let transferred = 0;
+
+    try {
+      const parts = await this.runConcurrent(partCount, concurrency, async index => {
+        const start = index * partSize;
+        const body = file.slice(start, Math.min(start + partSize, file.size));
+        const etag = await this.uploadPart(key, uploadId, index + 1, body, options.chunkTimeout);
+
+        transferred += body.size;
+        this.updateTaskProgress(task, transferred);
+
+        return { partNumber: index + 1, etag, size: body.size };
+      });
+
+      await this.completeMultipartUpload(key, uploadId, parts);
+    } catch (error) {
+      await this.abortMultipartUpload(key, uploadId).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * 复制单个对象
+   */
+  private async copyObject(sourceKey: string, targetKey: string): Promise<void> {
+    const response = await this.request('PUT', targetKey, {
+      headers: {
+        'x-amz-copy-source': `/${this.bucket}/${uriEncode(sourceKey, false)}`,
+      },
+    });
+
+    // CopyObject 可能在 200 响应体中返回错误
+    const text = await response.text();
+    if (text) {
+      this.assertNoErrorBody(this.parseXml(text), 'Copy object');
+    }
+  }
+
+  /**
+   * 列出一页对象（ListObjectsV2）
+   */
+  private async listObjectsPage(
+    prefix: string,
+    options: { recursive?: boolean; limit?: number; cursor?: string } = {}
+  ): Promise<{ folders: IS3Object[]; objects: IS3Object[]; nextCursor?: string }> {
+    const query: Record<string, string> = {
+      'list-type': '2',
+      prefix,
+    };
+
+    if (!options.recursive) {
+      query.delimiter = '/';
+    }
+    if (options.limit) {
+      query['max-keys'] = String(Math.min(options.limit, 1000));
+    }
+    if (options.cursor) {
+      query['continuation-token'] = options.cursor;
+    }
+
+    const response = await this.request('GET', '', { query });
+    const doc = this.parseXml(await response.text());
+
+    const folders = Array.from(doc.getElementsByTagName('CommonPrefixes')).map(element => ({
+      key: this.childText(element, 'Prefix'),
+      size: 0,
+    }));
+    const objects = Array.from(doc.getElementsByTagName('Contents')).map(element =>
+      this.parseObjectElement(element)
+    );
+
+    const isTruncated = this.childText(doc.documentElement, 'IsTruncated') === 'true';
+    const nextCursor = this.childText(doc.documentElement, 'NextContinuationToken');
+
+    return {
+      folders,
+      objects,
+      nextCursor: isTruncated && nextCursor ? nextCursor : undefined,
+    };
+  }
+
+  /**
+   * 递归列出前缀下的所有对象（包含隐藏对象和目录占位对象）
+   */
+  private async listAllObjects(prefix: string): Promise<IS3Object[]> {
+    const objects: IS3Object[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = await this.listObjectsPage(prefix, { recursive: true, cursor });
+      objects.push(...page.objects);
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    return objects;
+  }
+
+  /**
+   * 生成对象预签名URL
+   */
+  private async presignObject(
+    method: string,
+    key: string,
+    expiresIn: number = 3600,
+    query: Record<string, string> = {}
+  ): Promise<string> {
+    return this.signer.presign(method, this.buildUrl(key, query), expiresIn);
+  }
+
+  /**
+   * 发送签名请求
+   */
+  private async request(method: string, key: string, options: IS3RequestOptions = {}): Promise<Response> {
+    const url = this.buildUrl(key, options.query);
+    const headers = await this.signer.sign({
+      method,
+      url,
+      headers: options.headers,
+      payloadHash: options.payloadHash,
+    });
+
+    const controller = new AbortController();
+    const timeout = options.timeout ?? this.config.transfer?.upload.timeout ?? this.capabilities.performance.requestTimeout;
+    const timeoutId = timeout > 0 ? setTimeout(() => controller.abort(), timeout) : undefined;
+    const onAbort = () => controller.abort();
+    options.signal?.addEventListener('abort', onAbort);
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers,
+        body: options.body,
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        throw await this.toError(method, response);
+      }
+
+      return response;
+    } catch (error) {
+      options.signal?.removeEventListener('abort', onAbort);
+      throw error;
+    } finally {
+      // 成功时保留中止监听，响应体读取期间仍可中止
+      if (timeoutId) {
+        clearTimeout(timeoutId);
+      }
+    }
+  }
+
+  /**
+   * 构建请求URL
+   */
+  private buildUrl(key: string, query: Record<string, string> = {}): string {
+    const encodedKey = uriEncode(key, false);
+    const base = this.forcePathStyle
+      ? `${this.endpoint.origin}${this.endpoint.pathname.replace(/\/$/, '')}/${uriEncode(this.bucket)}/${encodedKey}`
+      : `${this.endpoint.protocol}//${this.bucket}.${this.endpoint.host}/${encodedKey}`;
+
+    const queryString = Object.entries(query)
+      .map(([name, value]) => (value === '' ? uriEncode(name) : `${uriEncode(name)}=${uriEncode(value)}`))
+      .join('&');
+
+    return queryString ? `${base}?${queryString}` : base;
+  }
+
+  /**
+   * 将错误响应转换为异常
+   */
+  private async toError(method: string, response: Response): Promise<Error> {
+    let detail = response.statusText;
+
+    if (method !== 'HEAD') {
+      try {
+        const doc = this.parseXml(await response.text());
+        const code = this.childText(doc.documentElement, 'Code');
+        const message = this.childText(doc.documentElement, 'Message');
+        if (code) {
+          detail = message ? `${code}: ${message}` : code;
+        }
+      } catch {
+        // 忽略无法解析的错误响应
+      }
+    }
+
+    return createHttpError(response, `S3 ${method} request failed (${response.status}): ${detail}`);
+  }
+
+  /**
+   * 检查响应体中是否包含错误
+   */
+  private assertNoErrorBody(doc: Document, operation: string): void {
+    if (doc.documentElement?.nodeName === 'Error') {
+      throw new Error(
+        `${operation} failed: ${this.childText(doc.documentElement, 'Code')}: ${this.childText(doc.documentElement, 'Message')}`
+      );
+    }
+  }
+
+  /**
+   * 更新任务进度
+   */
+  private updateTaskProgress(task: ITransferTask, transferred: number): void {
+    const elapsed = (Date.now() - (task.startedAt?.getTime() ?? Date.now())) / 1000;
+    const average = elapsed > 0 ? transferred / elapsed : 0;
+
+    task.progress.transferred = transferred;
+    task.progress.percentage = task.fileSize > 0 ? (transferred / task.fileSize) * 100 : 100;
+    task.progress.elapsed = elapsed;
+    task.progress.speed.current = average;
+    task.progress.speed.average = average;
+    task.progress.speed.peak = Math.max(task.progress.speed.peak, average);
+    task.progress.remainingTime = average > 0 ? (task.fileSize - transferred) / average : undefined;
+    task.statistics.transferredBytes = transferred;
+
+    task.options.onProgress?.(task.progress);
+  }
+
+  /**
+   * 计算分片大小（满足最小分片和最大分片数限制）
+   */
+  private getPartSize(fileSize: number, requested?: number): number {
+    return Math.max(
+      requested || this.capabilities.performance.recommendedChunkSize,
+      MIN_PART_SIZE,
+      Math.ceil(fileSize / MAX_PARTS)
+    );
+  }
+
+  /**
+   * 以固定并发执行任务，结果按索引顺序返回
+   */
+  private async runConcurrent<T>(
+    count: number,
+    concurrency: number,
+    worker: (index: number) => Promise<T>
+  ): Promise<T[]> {
+    const results: T[] = new Array(count);
+    let next = 0;
+
+    const runners = Array.from({ length: Math.min(concurrency, count) }, async () => {
+      while (next < count) {
+        const index = next++;
+        results[index] = await worker(index);
+      }
+    });
+
+    await Promise.all(runners);
+    return results;
+  }
+
+  /**
+   * 自定义元数据转换为 x-amz-meta-* 请求头
+   */
+  private toMetadataHeaders(metadata?: Record<string, any>): Record<string, string> {
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(metadata || {})) {
+      if (value !== undefined && value !== null) {
+        headers[`x-amz-meta-${name.toLowerCase()}`] = encodeURIComponent(String(value));
+      }
+    }
+    return headers;
+  }
+
+  /**
+   * 将文件夹ID或路径转换为以 / 结尾的前缀
+   */
+  private toFolderKey(idOrPath?: string, fallback: string = this.rootPrefix): string {
+    if (!idOrPath || idOrPath === '/') {
+      return fallback;
+    }
+    const key = idOrPath.replace(/^\/+/, '');
+    return key.endsWith('/') ? key : `${key}/`;
+  }
+
+  /**
+   * 将文件ID或路径转换为对象键
+   */
+  private toObjectKey(idOrPath: string): string {
+    return idOrPath.replace(/^\/+/, '');
+  }
+
+  /**
+   * 获取父前缀
+   */
+  private getParentKey(key: string): string {
+    const trimmed = key.replace(/\/$/, '');
+    const index = trimmed.lastIndexOf('/');
+    return index >= 0 ? trimmed.slice(0, index + 1) : '';
+  }
+
+  /**
+   * 获取对象名称
+   */
+  private getBaseName(key: string): string {
+    return key.replace(/\/$/, '').split('/').pop() || '';
+  }
+
+  /**
+   * 解析XML
+   */
+  private parseXml(xml: string): Document {
+    return new DOMParser().parseFromString(xml, 'application/xml');
+  }
+
+  /**
+   * 解析 Contents 元素
+   */
+  private parseObjectElement(element: Element): IS3Object {
+    return {
+      key: this.childText(element, 'Key'),
+      size: parseInt(this.childText(element, 'Size') || '0', 10),
+      lastModified: this.childText(element, 'LastModified') || undefined,
+      etag: this.childText(element, 'ETag') || undefined,
+      storageClass: this.childText(element, 'StorageClass') || undefined,
+    };
+  }
+
+  /**
+   * 获取直接子元素文本
+   */
+  private childText(element: Element | null, name: string): string {
+    if (!element) {
+      return '';
+    }
+    for (const child of Array.from(element.children)) {
+      if (child.localName === name) {
+        return child.textContent || '';
+      }
+    }
+    return '';
+  }
+
+  /**
+   * 转义XML特殊字符
+   */
+  private escapeXml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
+  }
+}
+
+/**
+ * 创建S3提供商实例
+ */
+export function createS3Provider(config: IProviderConfig): IStorageProvider {
+  return new S3Provider(config);
+}
@@ -0,0 +1,273 @@
+/**
+ * AWS Signature Version 4 签名器
+ * 基于 WebCrypto 在浏览器中完成请求签名与预签名URL生成
+ */
+
+/**
+ * 签名凭证接口
+ */
+export interface ISigV4Credentials {
+  accessKeyId: string;           // Access Key ID
+  secretAccessKey: string;       // Secret Access Key
+  sessionToken?: string;         // 临时凭证令牌（STS）
+}
+
+/**
+ * 待签名请求接口
+ */
+export interface ISigV4Request {
+  method: string;                // HTTP方法
+  url: string;                   // 完整URL（含查询参数）
+  headers?: Record<string, string>; // 额外请求头（参与签名）
+  payloadHash?: string;          // 请求体SHA256（十六进制），默认 UNSIGNED-PAYLOAD
+}
+
+/**
+ * 未签名负载标记（S3 允许在 HTTPS 下跳过请求体哈希）
+ */
+export const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD';
+
+/**
+ * 空请求体的SHA256
+ */
+export const EMPTY_PAYLOAD_HASH = 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855';
+
+const ALGORITHM = 'AWS4-HMAC-SHA256';
+const encoder = new TextEncoder();
+
+/**
+ * 按 RFC 3986 编码（S3 签名要求）
+ */
+export function uriEncode(value: string, encodeSlash: boolean = true): string {
+  const encoded = encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+  return encodeSlash ? encoded : encoded.replace(/%2F/g, '/');
+}
+
+/**
+ * 字节数组转十六进制字符串
+ */
+export function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * 字节数组转Base64字符串
+ */
+export function toBase64(buffer: ArrayBuffer): string {
+  let binary = '';
+  const bytes = new Uint8Array(buffer);
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+/**
+ * 计算SHA256
+ */
+export async function sha256(data: string | ArrayBuffer): Promise<ArrayBuffer> {
+  const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+  return crypto.subtle.digest('SHA-256', bytes);
+}
+
+/**
+ * 计算SHA256（十六进制）
+ */
+export async function sha256Hex(data: string | ArrayBuffer): Promise<string> {
+  return toHex(await sha256(data));
+}
+
+/**
+ * 计算HMAC-SHA256
+ */
+async function hmac(key: ArrayBuffer | Uint8Array, data: string): Promise<ArrayBuffer> {
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    key,
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(data));
+}
+
+/**
+ * 格式化为 AMZ 日期（YYYYMMDDTHHMMSSZ）
+ */
+function toAmzDate(date: Date): string {
+  return date.toISOString().replace(/[:-]|\.\d{3}/g, '');
+}
+
+/**
+ * SigV4 签名器类
+ */
+export class SigV4Signer {
+  private credentials: ISigV4Credentials;
+  private region: string;
+  private service: string;
+  private signingKeyCache: { date: string; key: ArrayBuffer } | null = null;
+
+  constructor(credentials: ISigV4Credentials, region: string, service: string = 's3') {
+    this.credentials = credentials;
+    this.region = region || 'us-east-1';
+    this.service = service;
+  }
+
+  /**
+   * 签名请求，返回需要附加到请求上的完整请求头
+   */
+  public async sign(request: ISigV4Request, now: Date = new Date()): Promise<Record<string, string>> {
+    const url = new URL(request.url);
+    const amzDate = toAmzDate(now);
+    const dateStamp = amzDate.slice(0, 8);
+    const payloadHash = request.payloadHash || UNSIGNED_PAYLOAD;
+
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(request.headers || {})) {
+      headers[name.toLowerCase()] = value;
+    }
+    headers['host'] = url.host;
+    headers['x-amz-date'] = amzDate;
+    headers['x-amz-content-sha256'] = payloadHash;
+    if (this.credentials.sessionToken) {
+      headers['x-amz-security-token'] = this.credentials.sessionToken;
+    }
+
+    const { canonicalHeaders, signedHeaders } = this.canonicalizeHeaders(headers);
+    const canonicalRequest = [
+      request.method.toUpperCase(),
+      this.canonicalizePath(url.pathname),
+      this.canonicalizeQuery(url.searchParams),
+      canonicalHeaders,
+      signedHeaders,
+      payloadHash,
+    ].join('\n');
+
+    const scope = this.getScope(dateStamp);
+    const signature = await this.calculateSignature(canonicalRequest, amzDate, dateStamp);
+
+    // 浏览器禁止设置 Host 头，由 fetch 自动填充
+    delete headers['host'];
+    headers['authorization'] =
+      `${ALGORITHM} Credential=${this.credentials.accessKeyId}/${scope}, ` +
+      `SignedHeaders=${signedHeaders}, Signature=${signature}`;
+
+    return headers;
+  }
+
+  /**
+   * 生成预签名URL
+   * @param method - HTTP方法
+   * @param url - 目标URL（可包含额外查询参数）
+   * @param expiresIn - 过期时间（秒，最长7天）
+   */
+  public async presign(method: string, url: string, expiresIn: number = 3600, now: Date = new Date()): Promise<string> {
+    const target = new URL(url);
+    const amzDate = toAmzDate(now);
+    const dateStamp = amzDate.slice(0, 8);
+    const scope = this.getScope(dateStamp);
+
+    target.searchParams.set('X-Amz-Algorithm', ALGORITHM);
+    target.searchParams.set('X-Amz-Credential', `${this.credentials.accessKeyId}/${scope}`);
+    target.searchParams.set('X-Amz-Date', amzDate);
+    target.searchParams.set('X-Amz-Expires', String(Math.min(Math.max(1, Math.floor(expiresIn)), 604800)));
+    target.searchParams.set('X-Amz-SignedHeaders', 'host');
+    if (this.credentials.sessionToken) {
+      target.searchParams.set('X-Amz-Security-Token', this.credentials.sessionToken);
+    }
+
+    const canonicalRequest = [
+      method.toUpperCase(),
+      this.canonicalizePath(target.pathname),
+      this.canonicalizeQuery(target.searchParams),
+      `host:${target.host}\n`,
+      'host',
+      UNSIGNED_PAYLOAD,
+    ].join('\n');
+
+    const signature = await this.calculateSignature(canonicalRequest, amzDate, dateStamp);
+
+    return `${target.origin}${target.pathname}?${this.canonicalizeQuery(target.searchParams)}&X-Amz-Signature=${signature}`;
+  }
+
+  /**
+   * 计算签名
+   */
+  private async calculateSignature(canonicalRequest: string, amzDate: string, dateStamp: string): Promise<string> {
+    const stringToSign = [
+      ALGORITHM,
+      amzDate,
+      this.getScope(dateStamp),
+      await sha256Hex(canonicalRequest),
+    ].join('\n');
+
+    const signingKey = await this.getSigningKey(dateStamp);
+    return toHex(await hmac(signingKey, stringToSign));
+  }
+
+  /**
+   * 获取签名密钥（按日期缓存）
+   */
+  private async getSigningKey(dateStamp: string): Promise<ArrayBuffer> {
+    if (this.signingKeyCache?.date === dateStamp) {
+      return this.signingKeyCache.key;
+    }
+
+    const kDate = await hmac(encoder.encode(`AWS4${this.credentials.secretAccessKey}`), dateStamp);
+    const kRegion = await hmac(kDate, this.region);
+    const kService = await hmac(kRegion, this.service);
+    const kSigning = await hmac(kService, 'aws4_request');
+
+    this.signingKeyCache = { date: dateStamp, key: kSigning };
+    return kSigning;
+  }
+
+  /**
+   * 获取凭证范围
+   */
+  private getScope(dateStamp: string): string {
+    return `${dateStamp}/${this.region}/${this.service}/aws4_request`;
+  }
+
+  /**
+   * 规范化路径（S3 对每个路径段只编码一次）
+   */
+  private canonicalizePath(pathname: string): string {
+    return pathname
+      .split('/')
+      .map(segment => uriEncode(decodeURIComponent(segment)))
+      .join('/') || '/';
+  }
+
+  /**
+   * 规范化查询字符串
+   */
+  private canonicalizeQuery(params: URLSearchParams): string {
+    return Array.from(params.entries())
+      .map(([key, value]) => [uriEncode(key), uriEncode(value)])
+      .sort(([a, av], [b, bv]) => (a < b ? -1 : a > b ? 1 : av < bv ? -1 : av > bv ? 1 : 0))
+      .map(([key, value]) => `${key}=${value}`)
+      .join('&');
+  }
+
+  /**
+   * 规范化请求头
+   */
+  private canonicalizeHeaders(headers: Record<string, string>): {
+    canonicalHeaders: string;
+    signedHeaders: string;
+  } {
+    const names = Object.keys(headers).sort();
+    return {
+      canonicalHeaders: names
+        .map(name => `${name}:${String(headers[name]).trim().replace(/\s+/g, ' ')}\n`)
+        .join(''),
+      signedHeaders: names.join(';'),
+    };
+  }
+}
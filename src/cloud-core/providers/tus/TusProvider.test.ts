@@ -0,0 +1,58 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { TusProvider } from './TusProvider';
+import { IProviderConfig } from '../base';
+import { classifyError } from '../../transfer/RetryPolicy';
+import { mockFetch } from '../../testing/mockFetch';
+
+const UPLOAD_URL = 'https://tus.example.com/files/upload-1';
+
+const createProvider = () => new TusProvider({
+  id: 'tus-test',
+  name: 'tus Test',
+  type: 'tus',
+  enabled: true,
+  endpoint: 'https://tus.example.com/files/',
+  auth: { apiKey: { key: 'secret' } },
+} as IProviderConfig);
+
+describe('TusProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('getFileInfo', () => {
+    it('由 HEAD 返回的偏移和元数据构建文件项', async () => {
+      const { requests } = mockFetch(() => new Response(null, {
+        headers: {
+          'Upload-Offset': '40',
+          'Upload-Length': '100',
+          'Upload-Metadata': `filename ${btoa('a.txt')},targetPath ${btoa('/docs')}`,
+        },
+      }));
+
+      const file = await createProvider().getFileInfo(UPLOAD_URL);
+
+      expect(requests[0].method).toBe('HEAD');
+      expect(requests[0].headers.get('X-API-Key')).toBe('secret');
+      expect(file).toMatchObject({ id: UPLOAD_URL, name: 'a.txt', path: '/docs/a.txt', size: 100 });
+    });
+
+    it.each([404, 410])('上传不存在或已过期（%i）时报告文件不存在', async (status) => {
+      mockFetch(() => new Response(null, { status }));
+
+      await expect(createProvider().getFileInfo(UPLOAD_URL)).rejects.toMatchObject({
+        message: `File not found: ${UPLOAD_URL}`,
+        status,
+      });
+    });
+
+    it('其他错误保留状态码，由重试策略分类', async () => {
+      mockFetch(() => new Response(null, { status: 503, statusText: 'Service Unavailable', headers: { 'Retry-After': '2' } }));
+
+      const error = await createProvider().getFileInfo(UPLOAD_URL).catch(e => e);
+
+      expect(error.message).toBe('tus offset request failed (503): Service Unavailable');
+      expect(classifyError(error)).toMatchObject({ kind: 'server', status: 503, retryable: true, retryAfter: 2000 });
+    });
+  });
+});
@@ -0,0 +1,723 @@
+/**
+ * tus 提供商实现
+ * 通过 tus 1.0 协议上传，配合一个简单的列表接口浏览已上传的文件
+ *
+ * 列表接口：GET {listEndpoint}?path=/folder[&recursive=1]，返回 ITusFileEntry 数组（或 { files: [...] }）；
+ * 文件以上传地址标识，下载为 GET 上传地址，删除使用 termination 扩展
+ */
+
+import {
+  BaseStorageProvider,
+  IFileItem,
+  IFileListResponse,
+  IStorageProvider,
+  IProviderConfig,
+  IProviderCapabilities,
+  IListFilesOptions,
+  IUploadOptions,
+  IDownloadOptions,
+  IChunkUploadSession,
+  IChunkUploadResult,
+  IChunkInfo,
+  ISearchOptions,
+  ISearchResult,
+  IStorageQuota,
+  ITransferTask,
+  ITransferOptions,
+  FileType,
+  TransferType,
+  TransferStatus,
+  ProviderStatus,
+} from '../base';
+import { TusClient, TUS_VERSION, ITusUploadStatus } from '../../transfer/TusClient';
+import { createDownloadSink } from '../../transfer/DownloadSink';
+import { createHttpError, IHttpError } from '../../transfer/RetryPolicy';
+
+/**
+ * tus 提供商能力声明（tus 字段在实例化时按端点填充，连接时按服务端声明更新）
+ */
+const TUS_CAPABILITIES: IProviderCapabilities = {
+  supports: {
+    listFiles: true,
+    uploadFile: true,
+    downloadFile: true,
+    deleteFile: true,
+    moveFile: false,
+    copyFile: false,
+    renameFile: false,
+    createFolder: false,
+    searchFiles: true,
+    shareFile: false,
+    getFileInfo: true,
+    getFileThumbnail: false,
+    getFilePreview: false,
+    batchDelete: false,
+    batchDownload: false,
+    batchMove: false,
+    batchCopy: false,
+    chunkUpload: true,
+    chunkDownload: false,
+    resumableUpload: true,
+    resumableDownload: false,
+    uploadSpeedLimit: false,
+    downloadSpeedLimit: false,
+    sync: false,
+    versioning: false,
+    conflictResolution: false,
+    metadataCache: true,
+    thumbnailCache: false,
+    encryption: false,
+    twoFactorAuth: false,
+  },
+  limits: {
+    maxFileSize: 0, // 无限制（连接后按 Tus-Max-Size 更新）
+    maxFolderDepth: 0,
+    maxFileNameLength: 255,
+    maxPathLength: 1024,
+    maxUploadConnections: 1,
+    maxDownloadConnections: 3,
+    allowedFileTypes: [],
+    blockedFileTypes: [],
+  },
+  performance: {
+    recommendedChunkSize: 5 * 1024 * 1024, // 5MB
+    maxChunkSize: 100 * 1024 * 1024, // 100MB
+    minChunkSize: 256 * 1024, // 256KB
+    maxConcurrentRequests: 3,
+    requestTimeout: 30000,
+    apiRateLimit: 0,
+  },
+  authMethods: ['basic', 'apikey', 'custom'],
+  regions: ['default'],
+  customMetadata: true,
+};
+
+/**
+ * 列表接口返回的文件项
+ */
+export interface ITusFileEntry {
+  id?: string;                   // 上传地址或上传ID（相对地址按 tus 端点解析）
+  name: string;                  // 文件名
+  path?: string;                 // 完整路径
+  type?: 'file' | 'folder';      // 类型（默认为文件）
+  size?: number;                 // 文件大小
+  offset?: number;               // 已接收字节数（小于 size 表示上传未完成）
+  mimeType?: string;             // MIME类型
+  createdAt?: string;            // 创建时间
+  modifiedAt?: string;           // 修改时间
+  metadata?: Record<string, string>; // 创建上传时提交的元数据
+}
+
+/**
+ * tus 提供商类
+ */
+export class TusProvider extends BaseStorageProvider {
+  private endpoint: string;
+  private listEndpoint: string;
+  private client: TusClient;
+  private discovery?: Promise<void>;
+
+  constructor(config: IProviderConfig) {
+    const endpoint = config.endpoint || '';
+
+    super(
+      config.id,
+      config.name,
+      'tus',
+      config,
+      {
+        ...TUS_CAPABILITIES,
+        supports: { ...TUS_CAPABILITIES.supports },
+        limits: { ...TUS_CAPABILITIES.limits },
+        tus: { endpoint, version: TUS_VERSION, extensions: ['creation'] },
+      }
+    );
+
+    this.endpoint = endpoint;
+    this.listEndpoint = config.metadata?.listEndpoint || endpoint;
+    this.client = new TusClient(this.capabilities.tus!, (url, init) => this.request(url, init));
+  }
+
+  // ============================================
+  // 初始化和连接
+  // ============================================
+
+  /**
+   * 初始化提供商
+   */
+  async initialize(): Promise<void> {
+    this.setStatus(ProviderStatus.DISCONNECTED, 'Initialized');
+  }
+
+  /**
+   * 连接到提供商（查询服务端支持的扩展）
+   */
+  async connect(): Promise<void> {
+    this.setStatus(ProviderStatus.CONNECTING, 'Connecting...');
+
+    try {
+      this.discovery = undefined;
+      await this.discover();
+      this.config.lastConnected = new Date();
+      this.setStatus(ProviderStatus.CONNECTED, 'Connected');
+    } catch (error) {
+      this.setStatus(ProviderStatus.AUTH_ERROR, (error as Error).message);
+      throw error;
+    }
+  }
+
+  /**
+   * 断开连接
+   */
+  async disconnect(): Promise<void> {
+    this.setStatus(ProviderStatus.DISCONNECTED, 'Disconnected');
+  }
+
+  /**
+   * 测试连接
+   */
+  async testConnection(): Promise<boolean> {
+    try {
+      const info = await this.client.discover();
+      return info.versions.length === 0 || info.versions.includes(TUS_VERSION);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * 刷新认证（静态凭证无需刷新）
+   */
+  async refreshAuth(): Promise<void> {
+    // 基本认证和 API Key 不需要刷新
+  }
+
+  /**
+   * 验证配置
+   */
+  public async validateConfig(config: IProviderConfig): Promise<{
+    valid: boolean;
+    errors?: string[];
+  }> {
+    const result = await super.validateConfig(config);
+    const errors = result.errors ? [...result.errors] : [];
+
+    if (!config.endpoint) {
+      errors.push('Endpoint is required');
+    }
+    for (const url of [config.endpoint, config.metadata?.listEndpoint]) {
+      if (url) {
+        try {
+          new URL(url);
+        } catch {
+          errors.push(`Invalid endpoint: ${url}`);
+        }
+      }
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors: errors.length > 0 ? errors : undefined,
+    };
+  }
+
+  // ============================================
+  // 文件操作
+  // ============================================
+
+  /**
+   * 列出文件
+   */
+  async listFiles(options?: IListFilesOptions): Promise<IFileListResponse> {
+    const path = this.normalizePath(options?.folderId ?? options?.path);
+    const url = new URL(this.listEndpoint);
+    url.searchParams.set('path', path);
+    if (options?.recursive) {
+      url.searchParams.set('recursive', '1');
+    }
+
+    const response = await this.request(url.toString(), { headers: { Accept: 'application/json' } });
+    if (!response.ok) {
+      throw createHttpError(response, `Failed to list files (${response.status}): ${response.statusText}`);
+    }
+
+    const body = await response.json();
+    const entries: ITusFileEntry[] = Array.isArray(body) ? body : body?.files || [];
+    const files = entries
+      .map(entry => this.normalizeFile({ ...entry, path: entry.path ?? this.joinPath(path, entry.name) }))
+      .filter(file => this.config.preferences?.showHiddenFiles || !file.isHidden);
+
+    return {
+      files,
+      total: files.length,
+      hasMore: false,
+    };
+  }
+
+  /**
+   * 获取文件信息（文件：HEAD 上传地址；文件夹：虚拟路径）
+   */
+  async getFileInfo(fileId: string): Promise<IFileItem> {
+    if (!this.isUploadUrl(fileId)) {
+      const path = this.normalizePath(fileId);
+      return this.normalizeFile({ name: path.split('/').pop() || '/', path, type: 'folder' });
+    }
+
+    let status: ITusUploadStatus;
+    try {
+      status = await this.client.getStatus(fileId);
+    } catch (error) {
+      // 只有 404/410 表示上传不存在或已过期；其余错误保留状态码，交给刷新令牌和重试处理
+      const code = (error as IHttpError).status;
+      if (code === 404 || code === 410) {
+        throw Object.assign(new Error(`File not found: ${fileId}`), { status: code });
+      }
+      throw error;
+    }
+    return this.toFileEntry(fileId, status);
+  }
+
+  /**
+   * 创建文件夹（文件夹由上传时的 targetPath 决定，不能单独创建）
+   */
+  async createFolder(_name: string, _parentId: string): Promise<IFileItem> {
+    throw new Error('Creating folders is not supported by tus servers');
+  }
+
+  /**
+   * 重命名文件
+   */
+  async renameFile(_fileId: string, _newName: string): Promise<IFileItem> {
+    throw new Error('Renaming files is not supported by tus servers');
+  }
+
+  /**
+   * 移动文件
+   */
+  async moveFile(_fileId: string, _targetParentId: string): Promise<IFileItem> {
+    throw new Error('Moving files is not supported by tus servers');
+  }
+
+  /**
+   * 复制文件
+   */
+  async copyFile(_fileId: string, _targetParentId: string, _newName?: string): Promise<IFileItem> {
+    throw new Error('Copying files is not supported by tus servers');
+  }
+
+  /**
+   * 删除文件（termination 扩展）
+   */
+  async deleteFile(fileId: string, _permanent?: boolean): Promise<void> {
+    if (!this.isUploadUrl(fileId)) {
+      throw new Error('Deleting folders is not supported by tus servers');
+    }
+    await this.discover();
+    await this.client.terminate(fileId);
+  }
+
+  /**
+   * 搜索文件（递归列出后在客户端按名称过滤）
+   */
+  async searchFiles(options: ISearchOptions): Promise<ISearchResult> {
+    const startedAt = Date.now();
+    const response = await this.listFiles({ path: options.folderId, recursive: true });
+    const query = options.query.toLowerCase();
+
+    const files = response.files.filter(file => file.name.toLowerCase().includes(query));
+    return {
+      files: options.limit ? files.slice(0, options.limit) : files,
+      total: files.length,
+      searchTime: Date.now() - startedAt,
+    };
+  }
+
+  // ============================================
+  // 上传和下载
+  // ============================================
+
+  /**
+   * 上传文件（创建上传后按分片大小依次 PATCH）
+   */
+  async uploadFile(file: File | Blob, options: IUploadOptions): Promise<ITransferTask> {
+    const path = this.joinPath(this.normalizePath(options.parentId ?? options.targetPath), options.fileName);
+    const chunkSize = options.chunkSize || this.capabilities.performance.recommendedChunkSize;
+
+    const task = this.createTransferTask(
+      TransferType.UPLOAD,
+      options.fileName,
+      file.size,
+      { providerId: 'local', path: options.fileName },
+      { providerId: this.id, path },
+      { ...options, chunkSize } as ITransferOptions
+    );
+
+    task.status = TransferStatus.ACTIVE;
+    task.startedAt = new Date();
+
+    try {
+      const session = await this.initChunkUpload(file, options);
+      task.metadata = { ...task.metadata, uploadUrl: session.uploadId };
+
+      await this.client.uploadFile(session, file, chunkSize, {
+        onProgress: offset => {
+          task.progress.transferred = offset;
+          task.progress.percentage = file.size > 0 ? (offset / file.size) * 100 : 100;
+          options.onProgress?.(task.progress);
+        },
+      });
+      const fileItem = await this.completeChunkUpload(session, []);
+
+      task.status = TransferStatus.COMPLETED;
+      task.completedAt = new Date();
+      task.destination.fileId = fileItem.id;
+      task.progress.transferred = file.size;
+      task.progress.percentage = 100;
+      task.result = { success: true, fileId: fileItem.id, filePath: fileItem.path };
+      options.onComplete?.(task);
+    } catch (error) {
+      task.status = TransferStatus.FAILED;
+      task.error = error as Error;
+      task.errorMessage = (error as Error).message;
+      task.errorCount++;
+      options.onError?.(error as Error);
+      throw error;
+    }
+
+    return task;
+  }
+
+  /**
+   * 下载文件（流式写入本地，不在内存中缓冲整个文件）
+   */
+  async downloadFile(fileId: string, options?: IDownloadOptions): Promise<ITransferTask> {
+    const fileInfo = await this.getFileInfo(fileId);
+
+    const task = this.createTransferTask(
+      TransferType.DOWNLOAD,
+      fileInfo.name,
+      fileInfo.size,
+      { providerId: this.id, path: fileInfo.path, fileId },
+      { providerId: 'local', path: '/' },
+      options || {} as any
+    );
+
+    task.status = TransferStatus.ACTIVE;
+    task.startedAt = new Date();
+
+    const sink = await createDownloadSink({
+      fileName: fileInfo.name,
+      size: fileInfo.size,
+      mimeType: fileInfo.mimeType,
+      fileHandle: options?.saveHandle,
+    });
+
+    try {
+      const reader = (await this.openDownloadStream(fileId)).getReader();
+      let transferred = 0;
+
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+
+        await sink.write(value);
+        transferred += value.length;
+
+        task.progress.transferred = transferred;
+        task.progress.percentage = fileInfo.size > 0 ? (transferred / fileInfo.size) * 100 : 100;
+        options?.onProgress?.(task.progress);
+      }
+
+      await sink.close();
+
+      task.status = TransferStatus.COMPLETED;
+      task.progress.transferred = fileInfo.size;
+      task.progress.percentage = 100;
+      task.completedAt = new Date();
+      task.result = { success: true, fileId, filePath: fileInfo.path };
+    } catch (error) {
+      await sink.abort().catch(() => undefined);
+      task.status = TransferStatus.FAILED;
+      task.error = error as Error;
+      throw error;
+    }
+
+    return task;
+  }
+
+  /**
+   * 打开文件读取流（GET 上传地址）
+   */
+  async openDownloadStream(
+    fileId: string,
+    range?: { start: number; end: number },
+    signal?: AbortSignal
+  ): Promise<ReadableStream<Uint8Array>> {
+    const response = await this.request(fileId, {
+      headers: range ? { Range: `bytes=${range.start}-${range.end}` } : undefined,
+      signal,
+    });
+
+    if (!response.ok) {
+      throw createHttpError(response, `Download failed (${response.status}): ${response.statusText}`);
+    }
+
+    // 服务器忽略 Range 时会返回完整内容，不能当作分片使用
+    if (range && response.status !== 206) {
+      throw new Error('Server does not support range requests');
+    }
+
+    if (!response.body) {
+      throw new Error('Streaming response body is not supported');
+    }
+
+    return response.body;
+  }
+
+  /**
+   * 获取下载URL
+   */
+  public async getDownloadUrl(fileId: string, _expiresIn?: number): Promise<string> {
+    return fileId;
+  }
+
+  // ============================================
+  // 分片上传契约（供 TransferManager 调度）
+  // ============================================
+
+  /**
+   * 创建 tus 上传
+   */
+  async initChunkUpload(file: File | Blob, options: IUploadOptions): Promise<IChunkUploadSession> {
+    await this.discover();
+    return this.client.createSession(file, {
+      ...options,
+      targetPath: this.normalizePath(options.parentId ?? options.targetPath),
+    });
+  }
+
+  /**
+   * 按偏移追加一个分片
+   */
+  async uploadChunk(
+    session: IChunkUploadSession,
+    chunk: IChunkInfo,
+    data: Blob,
+    signal?: AbortSignal
+  ): Promise<IChunkUploadResult> {
+    return this.client.uploadChunk(session, chunk, data, signal);
+  }
+
+  /**
+   * 确认服务端已接收全部数据
+   */
+  async completeChunkUpload(session: IChunkUploadSession, _chunks: IChunkInfo[]): Promise<IFileItem> {
+    return this.toFileEntry(session.uploadId, await this.client.finishSession(session));
+  }
+
+  /**
+   * 终止上传
+   */
+  async abortChunkUpload(session: IChunkUploadSession): Promise<void> {
+    await this.discover();
+    await this.client.abortSession(session);
+  }
+
+  /**
+   * 查询服务端已接收的字节数
+   */
+  async getChunkUploadOffset(session: IChunkUploadSession, signal?: AbortSignal): Promise<number> {
+    return this.client.getSessionOffset(session, signal);
+  }
+
+  // ============================================
+  // 存储配额
+  // ============================================
+
+  /**
+   * 获取存储配额（tus 协议没有配额接口）
+   */
+  async getStorageQuota(): Promise<IStorageQuota> {
+    return {
+      total: 0,
+      used: 0,
+      remaining: 0,
+      usagePercentage: 0,
+    };
+  }
+
+  // ============================================
+  // 实用方法
+  // ============================================
+
+  /**
+   * 获取提供商特定功能
+   */
+  public getFeature(feature: string): any {
+    switch (feature) {
+      case 'tus':
+        return this.client;
+      default:
+        return super.getFeature(feature);
+    }
+  }
+
+  /**
+   * 标准化文件项
+   */
+  normalizeFile(rawFile: ITusFileEntry): IFileItem {
+    const isFolder = rawFile.type === 'folder';
+    const path = this.normalizePath(rawFile.path ?? rawFile.name);
+    const id = isFolder ? path : this.resolveUploadUrl(rawFile.id ?? rawFile.name);
+    const size = rawFile.size || 0;
+    const createdAt = rawFile.createdAt ? new Date(rawFile.createdAt) : new Date();
+    const incomplete = rawFile.offset !== undefined && rawFile.offset < size;
+
+    return {
+      id,
+      providerId: this.id,
+      parentId: path.slice(0, path.lastIndexOf('/')) || '/',
+      path,
+      name: rawFile.name,
+      type: isFolder ? FileType.FOLDER : FileType.FILE,
+      fileType: isFolder ? FileType.FOLDER : (this.getFileType(rawFile.name) as FileType),
+      size,
+      createdAt,
+      modifiedAt: rawFile.modifiedAt ? new Date(rawFile.modifiedAt) : createdAt,
+      downloadUrl: isFolder ? undefined : id,
+      mimeType: isFolder ? undefined : rawFile.mimeType || this.getMimeType(rawFile.name),
+      permissions: {
+        canRead: !incomplete,
+        canWrite: false,
+        canDelete: !isFolder,
+        canShare: false,
+        canRename: false,
+        canMove: false,
+        canCopy: false,
+      },
+      hasVersions: false,
+      isFavorite: false,
+      isOffline: false,
+      isShared: false,
+      isLocked: false,
+      isHidden: rawFile.name.startsWith('.'),
+      isTrashed: false,
+      isEncrypted: false,
+      metadata: rawFile.metadata,
+      extensionStatus: isFolder ? undefined : {
+        tus: { uploadUrl: id, offset: incomplete ? rawFile.offset : undefined },
+      },
+      isCached: false,
+    };
+  }
+
+  /**
+   * 反标准化文件项
+   */
+  denormalizeFile(file: IFileItem): ITusFileEntry {
+    return {
+      id: file.id,
+      name: file.name,
+      path: file.path,
+      type: file.type === FileType.FOLDER ? 'folder' : 'file',
+      size: file.size,
+      offset: file.extensionStatus?.tus?.offset,
+      mimeType: file.mimeType,
+      createdAt: file.createdAt.toISOString(),
+      modifiedAt: file.modifiedAt.toISOString(),
+      metadata: file.metadata as Record<string, string> | undefined,
+    };
+  }
+
+  // ============================================
+  // 私有辅助方法
+  // ============================================
+
+  /**
+   * 查询并记录服务端支持的扩展（只查询一次，失败后下次重新查询）
+   */
+  private discover(): Promise<void> {
+    if (!this.discovery) {
+      this.discovery = this.client.discover().then(info => {
+        const tus = this.capabilities.tus!;
+        tus.extensions = info.extensions.length > 0 ? info.extensions : tus.extensions;
+        tus.checksumAlgorithms = info.checksumAlgorithms;
+        tus.maxSize = info.maxSize;
+        this.capabilities.limits.maxFileSize = info.maxSize || 0;
+        this.capabilities.supports.deleteFile = tus.extensions.includes('termination');
+      });
+      this.discovery.catch(() => {
+        this.discovery = undefined;
+      });
+    }
+    return this.discovery;
+  }
+
+  /**
+   * 发送带认证的请求（基本认证、API Key 或 OAuth 令牌）
+   */
+  private request(url: string, init: RequestInit = {}): Promise<Response> {
+    const headers = new Headers(init.headers);
+    const { basic, apiKey } = this.config.auth;
+
+    if (basic?.username) {
+      headers.set('Authorization', `Basic ${btoa(`${basic.username}:${basic.password}`)}`);
+    } else if (apiKey?.key) {
+      headers.set(this.config.metadata?.apiKeyHeader || 'X-API-Key', apiKey.key);
+    }
+
+    return this.fetchWithAuth(url, { ...init, headers });
+  }
+
+  /**
+   * 由上传状态构建文件项
+   */
+  private toFileEntry(uploadUrl: string, status: ITusUploadStatus): IFileItem {
+    const name = status.metadata.filename || uploadUrl.split('/').pop() || uploadUrl;
+    return this.normalizeFile({
+      id: uploadUrl,
+      name,
+      path: this.joinPath(this.normalizePath(status.metadata.targetPath), name),
+      size: status.length ?? status.offset,
+      offset: status.offset,
+      mimeType: status.metadata.filetype,
+      metadata: status.metadata,
+    });
+  }
+
+  /**
+   * 是否为上传地址（文件夹以路径标识）
+   */
+  private isUploadUrl(fileId: string): boolean {
+    return /^https?:\/\//i.test(fileId);
+  }
+
+  /**
+   * 将列表接口返回的相对上传地址或上传ID解析为完整地址
+   */
+  private resolveUploadUrl(id: string): string {
+    if (this.isUploadUrl(id)) {
+      return id;
+    }
+    const base = this.endpoint.endsWith('/') ? this.endpoint : `${this.endpoint}/`;
+    return new URL(id, base).toString();
+  }
+
+  private normalizePath(path?: string): string {
+    const trimmed = (path || '').replace(/\/+$/, '');
+    return trimmed.startsWith('/') ? trimmed : `/${trimmed}`;
+  }
+
+  private joinPath(folder: string, name: string): string {
+    return `${folder === '/' ? '' : folder}/${name}`;
+  }
+}
+
+/**
+ * 创建tus提供商实例
+ */
+export function createTusProvider(config: IProviderConfig): IStorageProvider {
+  return new TusProvider(config);
+}
@@ -0,0 +1,207 @@
+/**
+ * 测试用的内存存储提供商
+ * 只实现传输管理器用到的接口（列目录、整文件上传、分片上传、读取），文件保存在内存中；
+ * 通过钩子注入分片失败，记录调用次数供断言
+ */
+
+import { IStorageProvider, IUploadOptions, IChunkUploadSession, IChunkUploadResult } from '../providers/base/IStorageProvider';
+import { IProviderCapabilities } from '../providers/base/IProviderCapabilities';
+import { IProviderConfig } from '../providers/base/IProviderConfig';
+import { IFileItem, IFileListResponse, FileType } from '../providers/base/IFileItem';
+import { IChunkInfo, ITransferTask } from '../providers/base/ITransferOptions';
+
+/**
+ * 内存提供商选项
+ */
+export interface IMemoryProviderOptions {
+  id?: string;                   // 提供商ID
+  chunkUpload?: boolean;         // 是否支持分片上传（默认支持）
+  versioning?: boolean;          // 是否支持版本控制
+  maxUploadConnections?: number; // 单任务最大并发分片数
+  chunkHashesUpFront?: boolean;  // 创建分片上传会话时读取整个文件（模拟百度网盘预创建）
+  // 上传分片前调用，抛出错误模拟分片失败
+  beforeChunk?: (chunk: IChunkInfo, attempt: number, signal?: AbortSignal) => void | Promise<void>;
+  // 整文件上传前调用
+  beforeUpload?: (file: File | Blob, options: IUploadOptions) => void | Promise<void>;
+}
+
+/**
+ * 内存中的文件
+ */
+export interface IMemoryFile {
+  item: IFileItem;
+  data: Uint8Array;
+}
+
+export class MemoryProvider {
+  readonly id: string;
+  readonly name = 'Memory';
+  readonly type = 'memory';
+  readonly config: IProviderConfig;
+  readonly capabilities: IProviderCapabilities;
+
+  readonly files: Map<string, IMemoryFile> = new Map();
+  readonly calls = {
+    refreshAuth: 0,
+    initChunkUpload: 0,
+    uploadChunk: [] as number[],
+    completeChunkUpload: 0,
+    abortChunkUpload: 0,
+    uploadFile: 0,
+  };
+
+  private sessions: Map<string, { name: string; parts: Map<number, Uint8Array> }> = new Map();
+  private attempts: Map<number, number> = new Map();
+
+  constructor(private options: IMemoryProviderOptions = {}) {
+    this.id = options.id || 'memory';
+    this.config = { id: this.id, name: this.name, type: this.type, enabled: true, auth: {} } as IProviderConfig;
+    this.capabilities = {
+      supports: {
+        chunkUpload: options.chunkUpload !== false,
+        versioning: !!options.versioning,
+        createFolder: true,
+      },
+      limits: {
+        maxFileSize: 0,
+        maxFolderDepth: 0,
+        maxFileNameLength: 255,
+        maxPathLength: 0,
+        maxUploadConnections: options.maxUploadConnections ?? 1,
+        maxDownloadConnections: 1,
+        allowedFileTypes: [],
+        blockedFileTypes: [],
+      },
+      performance: {
+        recommendedChunkSize: 1024,
+        maxChunkSize: 0,
+        minChunkSize: 1,
+        fixedChunkSize: true,
+        chunkHashesUpFront: !!options.chunkHashesUpFront,
+        maxConcurrentRequests: 4,
+        requestTimeout: 0,
+        apiRateLimit: 0,
+      },
+      authMethods: [],
+    } as unknown as IProviderCapabilities;
+  }
+
+  /**
+   * 作为 IStorageProvider 使用（未实现的方法不会被调用）
+   */
+  asProvider(): IStorageProvider {
+    return this as unknown as IStorageProvider;
+  }
+
+  /**
+   * 预置文件
+   */
+  addFile(name: string, data: Uint8Array = new Uint8Array(0)): IFileItem {
+    const item = {
+      id: `file-${name}`,
+      providerId: this.id,
+      parentId: '/',
+      path: `/${name}`,
+      name,
+      type: FileType.FILE,
+      fileType: FileType.FILE,
+      size: data.length,
+      createdAt: new Date(),
+      modifiedAt: new Date(),
+    } as IFileItem;
+    this.files.set(name, { item, data });
+    return item;
+  }
+
+  async refreshAuth(): Promise<void> {
+    this.calls.refreshAuth++;
+  }
+
+  async cleanup(): Promise<void> {
+    this.sessions.clear();
+  }
+
+  async listFiles(): Promise<IFileListResponse> {
+    return {
+      files: Array.from(this.files.values()).map(file => file.item),
+      hasMore: false,
+    };
+  }
+
+  async getFileInfo(fileId: string): Promise<IFileItem> {
+    return this.getFile(fileId).item;
+  }
+
+  async uploadFile(file: File | Blob, options: IUploadOptions): Promise<ITransferTask> {
+    this.calls.uploadFile++;
+    await this.options.beforeUpload?.(file, options);
+
+    const item = this.addFile(options.fileName, new Uint8Array(await file.arrayBuffer()));
+    options.onProgress?.({ transferred: file.size } as any);
+    return {
+      destination: { providerId: this.id, path: item.path, fileId: item.id },
+      result: { success: true, fileId: item.id, filePath: item.path },
+    } as ITransferTask;
+  }
+
+  async initChunkUpload(file: File | Blob, options: IUploadOptions): Promise<IChunkUploadSession> {
+    this.calls.initChunkUpload++;
+    if (this.options.chunkHashesUpFront) {
+      await file.slice(0, file.size).arrayBuffer();
+    }
+    const uploadId = `session-${this.calls.initChunkUpload}`;
+    this.sessions.set(uploadId, { name: options.fileName, parts: new Map() });
+    return { uploadId };
+  }
+
+  async uploadChunk(
+    session: IChunkUploadSession,
+    chunk: IChunkInfo,
+    data: Blob,
+    signal?: AbortSignal
+  ): Promise<IChunkUploadResult> {
+    const attempt = this.attempts.get(chunk.index) ?? 0;
+    this.attempts.set(chunk.index, attempt + 1);
+    this.calls.uploadChunk.push(chunk.index);
+    await this.options.beforeChunk?.(chunk, attempt, signal);
+
+    const upload = this.sessions.get(session.uploadId);
+    if (!upload) {
+      throw Object.assign(new Error(`Upload session not found: ${session.uploadId}`), { status: 404 });
+    }
+    upload.parts.set(chunk.offset, new Uint8Array(await data.arrayBuffer()));
+    return { etag: `etag-${chunk.index}` };
+  }
+
+  async completeChunkUpload(session: IChunkUploadSession, chunks: IChunkInfo[]): Promise<IFileItem> {
+    this.calls.completeChunkUpload++;
+    const upload = this.sessions.get(session.uploadId)!;
+
+    const size = chunks.reduce((sum, chunk) => sum + chunk.size, 0);
+    const data = new Uint8Array(size);
+    for (const [offset, part] of upload.parts) {
+      data.set(part, offset);
+    }
+
+    this.sessions.delete(session.uploadId);
+    return this.addFile(upload.name, data);
+  }
+
+  async abortChunkUpload(session: IChunkUploadSession): Promise<void> {
+    this.calls.abortChunkUpload++;
+    this.sessions.delete(session.uploadId);
+  }
+
+  async openDownloadStream(fileId: string, range?: { start: number; end: number }): Promise<ReadableStream<Uint8Array>> {
+    const { data } = this.getFile(fileId);
+    return new Blob([range ? data.slice(range.start, range.end + 1) : data]).stream();
+  }
+
+  private getFile(fileId: string): IMemoryFile {
+    const file = Array.from(this.files.values()).find(entry => entry.item.id === fileId);
+    if (!file) {
+      throw Object.assign(new Error(`File not found: ${fileId}`), { status: 404 });
+    }
+    return file;
+  }
+}
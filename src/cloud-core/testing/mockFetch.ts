@@ -0,0 +1,67 @@
+/**
+ * 测试用的 fetch 模拟
+ * 按请求依次交给处理函数生成响应，并记录所有请求，供提供商测试模拟服务端
+ */
+
+import { vi } from 'vitest';
+
+/**
+ * 记录的请求
+ */
+export interface IRecordedRequest {
+  method: string;                // HTTP方法
+  url: URL;                      // 请求URL
+  headers: Headers;              // 请求头
+  body?: BodyInit | null;        // 原始请求体
+}
+
+/**
+ * 请求处理函数，返回 undefined 时响应 404
+ */
+export type MockFetchHandler = (request: IRecordedRequest) => Response | undefined | Promise<Response | undefined>;
+
+/**
+ * 替换全局 fetch，测试结束后调用 vi.unstubAllGlobals() 恢复
+ */
+export function mockFetch(handler: MockFetchHandler): { requests: IRecordedRequest[] } {
+  const requests: IRecordedRequest[] = [];
+
+  vi.stubGlobal('fetch', vi.fn(async (input: RequestInfo | URL, init: RequestInit = {}) => {
+    const url = new URL(input instanceof Request ? input.url : String(input));
+    const request: IRecordedRequest = {
+      method: (init.method || (input instanceof Request ? input.method : 'GET')).toUpperCase(),
+      url,
+      headers: new Headers(init.headers || (input instanceof Request ? input.headers : undefined)),
+      body: init.body,
+    };
+    requests.push(request);
+
+    if (init.signal?.aborted) {
+      throw new DOMException('The operation was aborted.', 'AbortError');
+    }
+
+    return (await handler(request)) ?? new Response('Not Found', { status: 404, statusText: 'Not Found' });
+  }));
+
+  return { requests };
+}
+
+/**
+ * 读取请求体文本
+ */
+export async function readBody(request: IRecordedRequest): Promise<string> {
+  if (request.body === undefined || request.body === null) {
+    return '';
+  }
+  return new Response(request.body).text();
+}
+
+/**
+ * JSON 响应
+ */
+export function jsonResponse(data: unknown, init: ResponseInit = {}): Response {
+  return new Response(JSON.stringify(data), {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...(init.headers as Record<string, string>) },
+  });
+}
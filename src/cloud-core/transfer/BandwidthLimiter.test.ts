@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { TokenBucket, throttle, throttleBurst } from './BandwidthLimiter';
+
+const MB = 1024 * 1024;
+
+/**
+ * 记录 Promise 是否已完成
+ */
+const track = (promise: Promise<void>) => {
+  const state = { done: false, error: undefined as Error | undefined };
+  promise.then(() => { state.done = true; }, (error) => { state.error = error; });
+  return state;
+};
+
+describe('TokenBucket', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('不限速时立即通过', async () => {
+    const bucket = new TokenBucket(0);
+    expect(bucket.limited).toBe(false);
+    await bucket.consume(100 * MB);
+  });
+
+  it('按速率发放令牌，桶容量为一秒的流量', async () => {
+    const bucket = new TokenBucket(MB);
+    await bucket.consume(MB);
+
+    const next = track(bucket.consume(MB / 2));
+    await vi.advanceTimersByTimeAsync(400);
+    expect(next.done).toBe(false);
+    await vi.advanceTimersByTimeAsync(150);
+    expect(next.done).toBe(true);
+  });
+
+  it('大块请求拆分成不超过桶容量的小块', async () => {
+    const bucket = new TokenBucket(MB);
+    const request = track(bucket.consume(3 * MB));
+
+    await vi.advanceTimersByTimeAsync(1500);
+    expect(request.done).toBe(false);
+    await vi.advanceTimersByTimeAsync(600);
+    expect(request.done).toBe(true);
+  });
+
+  it('调低速率时正在等待的大块请求不会卡住', async () => {
+    const bucket = new TokenBucket(10 * MB);
+    await bucket.consume(10 * MB);
+
+    // 按 10 MB/s 的容量排队等待一整桶
+    const waiting = track(bucket.consume(10 * MB));
+    await vi.advanceTimersByTimeAsync(100);
+    expect(waiting.done).toBe(false);
+
+    bucket.setRate(MB);
+    expect(bucket.capacity).toBe(MB);
+
+    await vi.advanceTimersByTimeAsync(8000);
+    expect(waiting.done).toBe(false);
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(waiting.done).toBe(true);
+  });
+
+  it('调高或取消限速后等待的请求立即继续', async () => {
+    const bucket = new TokenBucket(MB);
+    await bucket.consume(MB);
+
+    const waiting = track(bucket.consume(MB));
+    await vi.advanceTimersByTimeAsync(100);
+    bucket.setRate(0);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(waiting.done).toBe(true);
+  });
+
+  it('先到的请求先获得令牌', async () => {
+    const bucket = new TokenBucket(MB);
+    await bucket.consume(MB);
+
+    const order: number[] = [];
+    const first = bucket.consume(MB).then(() => order.push(1));
+    const second = bucket.consume(1024).then(() => order.push(2));
+    await vi.advanceTimersByTimeAsync(2000);
+    await Promise.all([first, second]);
+    expect(order).toEqual([1, 2]);
+  });
+
+  it('中止等待中的请求', async () => {
+    const bucket = new TokenBucket(MB);
+    await bucket.consume(MB);
+
+    const controller = new AbortController();
+    const waiting = track(bucket.consume(MB, controller.signal));
+    const next = track(bucket.consume(1024));
+
+    controller.abort();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(waiting.error?.message).toBe('Transfer aborted');
+
+    await vi.advanceTimersByTimeAsync(10);
+    expect(next.done).toBe(true);
+    await expect(bucket.consume(1, controller.signal)).rejects.toThrow('Transfer aborted');
+  });
+});
+
+describe('throttle', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('依次通过全局和任务限速', async () => {
+    const global = new TokenBucket(2 * MB);
+    const task = new TokenBucket(MB);
+
+    const request = track(throttle([task, global, undefined], 2 * MB));
+    await vi.advanceTimersByTimeAsync(900);
+    expect(request.done).toBe(false);
+    await vi.advanceTimersByTimeAsync(200);
+    expect(request.done).toBe(true);
+  });
+
+  it('throttleBurst 最多预留一桶令牌', async () => {
+    const bucket = new TokenBucket(MB);
+    await bucket.consume(MB);
+
+    const request = track(throttleBurst([bucket], 2000 * MB));
+    await vi.advanceTimersByTimeAsync(1100);
+    expect(request.done).toBe(true);
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * 带宽限制
+ * 令牌桶算法，按字节发放令牌，支持运行中修改速率
+ */
+
+/**
+ * 最小桶容量（字节），避免速率过低时单次读取永远无法满足
+ */
+const MIN_BUCKET_CAPACITY = 16 * 1024;
+
+/**
+ * 等待令牌的请求
+ */
+interface ITokenWaiter {
+  bytes: number;
+  resolve: () => void;
+  reject: (error: Error) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+/**
+ * 令牌桶
+ * 速率为 0 表示不限速；桶容量为一秒的令牌量，允许短时突发
+ */
+export class TokenBucket {
+  private bytesPerSecond: number;
+  private tokens: number;
+  private lastRefill: number = Date.now();
+  private waiters: ITokenWaiter[] = [];
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(bytesPerSecond: number = 0) {
+    this.bytesPerSecond = Math.max(0, bytesPerSecond || 0);
+    this.tokens = this.capacity;
+  }
+
+  /**
+   * 当前速率（字节/秒，0 表示不限速）
+   */
+  public get rate(): number {
+    return this.bytesPerSecond;
+  }
+
+  /**
+   * 是否限速
+   */
+  public get limited(): boolean {
+    return this.bytesPerSecond > 0;
+  }
+
+  /**
+   * 桶容量（字节），单次最多发放的令牌数
+   */
+  public get capacity(): number {
+    return Math.max(this.bytesPerSecond, MIN_BUCKET_CAPACITY);
+  }
+
+  /**
+   * 修改速率，正在等待的请求按新速率继续（调低后超出新容量的请求分批发放）
+   */
+  public setRate(bytesPerSecond: number = 0): void {
+    this.refill();
+    this.bytesPerSecond = Math.max(0, bytesPerSecond || 0);
+    this.tokens = Math.min(this.tokens, this.capacity);
+    this.drain();
+  }
+
+  /**
+   * 消耗令牌，令牌不足时等待
+   */
+  public async consume(bytes: number, signal?: AbortSignal): Promise<void> {
+    let remaining = bytes;
+
+    // 大块请求拆分成不超过桶容量的小块依次获取
+    while (remaining > 0 && this.limited) {
+      const piece = Math.min(remaining, this.capacity);
+      await this.acquire(piece, signal);
+      remaining -= piece;
+    }
+  }
+
+  private acquire(bytes: number, signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(new Error('Transfer aborted'));
+    }
+
+    this.refill();
+    if (this.waiters.length === 0 && this.tokens >= bytes) {
+      this.tokens -= bytes;
+      return Promise.resolve();
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const waiter: ITokenWaiter = { bytes, resolve, reject, signal };
+
+      if (signal) {
+        waiter.onAbort = () => {
+          this.waiters = this.waiters.filter(w => w !== waiter);
+          reject(new Error('Transfer aborted'));
+          this.drain();
+        };
+        signal.addEventListener('abort', waiter.onAbort, { once: true });
+      }
+
+      this.waiters.push(waiter);
+      this.drain();
+    });
+  }
+
+  /**
+   * 按先后顺序发放令牌，不足时定时重试
+   */
+  private drain(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    this.refill();
+
+    while (this.waiters.length > 0) {
+      const waiter = this.waiters[0];
+      if (this.limited) {
+        // 调低速率前排队的请求可能超过当前容量，每次最多扣除一桶
+        const piece = Math.min(waiter.bytes, this.capacity);
+        if (this.tokens < piece) {
+          break;
+        }
+        this.tokens -= piece;
+        waiter.bytes -= piece;
+        if (waiter.bytes > 0) {
+          continue;
+        }
+      }
+
+      this.waiters.shift();
+      if (waiter.onAbort) {
+        waiter.signal?.removeEventListener('abort', waiter.onAbort);
+      }
+      waiter.resolve();
+    }
+
+    if (this.waiters.length > 0) {
+      const missing = Math.min(this.waiters[0].bytes, this.capacity) - this.tokens;
+      const delay = Math.max(10, (missing / this.bytesPerSecond) * 1000);
+      this.timer = setTimeout(() => this.drain(), delay);
+    }
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    if (this.limited) {
+      const elapsed = (now - this.lastRefill) / 1000;
+      this.tokens = Math.min(this.capacity, this.tokens + elapsed * this.bytesPerSecond);
+    }
+    this.lastRefill = now;
+  }
+}
+
+/**
+ * 依次通过多个令牌桶（如全局限速和任务限速）
+ */
+export async function throttle(
+  buckets: Array<TokenBucket | undefined>,
+  bytes: number,
+  signal?: AbortSignal
+): Promise<void> {
+  for (const bucket of buckets) {
+    if (bucket?.limited) {
+      await bucket.consume(bytes, signal);
+    }
+  }
+}
+
+/**
+ * 依次在多个令牌桶中预留最多一桶的令牌
+ * 用于无法分段限速的整体发送（如不支持分片的提供商），只能避免突发叠加，不能限制发送过程中的速度
+ */
+export async function throttleBurst(
+  buckets: Array<TokenBucket | undefined>,
+  bytes: number,
+  signal?: AbortSignal
+): Promise<void> {
+  for (const bucket of buckets) {
+    if (bucket?.limited) {
+      await bucket.consume(Math.min(bytes, bucket.capacity), signal);
+    }
+  }
+}
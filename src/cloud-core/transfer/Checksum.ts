@@ -0,0 +1,85 @@
+/**
+ * 校验和比对
+ * 将本地计算的哈希与提供商返回的哈希或 ETag 比对
+ */
+
+import { IFileItem } from '../providers/base/IFileItem';
+import { createHasher, hexToBytes, HashAlgorithm } from './HashAlgorithms';
+
+/**
+ * 比对结果：true 一致，false 不一致，undefined 无法比对（提供商未返回可用的哈希）
+ */
+export type ChecksumMatch = boolean | undefined;
+
+const MD5_PATTERN = /^[0-9a-f]{32}$/;
+const MULTIPART_ETAG_PATTERN = /^([0-9a-f]{32})-(\d+)$/;
+
+/**
+ * 标准化 ETag（去掉弱校验前缀和引号）
+ */
+export function normalizeETag(etag?: string): string | undefined {
+  if (!etag) {
+    return undefined;
+  }
+  return etag.trim().replace(/^W\//i, '').replace(/"/g, '').toLowerCase();
+}
+
+/**
+ * 计算 S3 分片上传的 ETag：各分片 MD5 二进制拼接后再取 MD5，加上 "-分片数"
+ */
+export function computeMultipartETag(partMd5s: string[]): string {
+  const hasher = createHasher('md5');
+  for (const md5 of partMd5s) {
+    hasher.update(hexToBytes(md5));
+  }
+  return `${hasher.digest()}-${partMd5s.length}`;
+}
+
+/**
+ * 比对分片 MD5 与上传分片返回的 ETag
+ * 仅当 ETag 为 32 位十六进制（即内容 MD5）时可比对，SSE-KMS 等加密对象的 ETag 不是 MD5
+ */
+export function matchChunkETag(etag: string | undefined, md5: string): ChecksumMatch {
+  const normalized = normalizeETag(etag);
+  if (!normalized || !MD5_PATTERN.test(normalized)) {
+    return undefined;
+  }
+  return normalized === md5.toLowerCase();
+}
+
+/**
+ * 比对整个文件的哈希
+ * @param checksum - 本地计算的哈希（algorithm 指定的算法）
+ * @param partMd5s - 按分片顺序的 MD5，用于比对分片上传的 ETag
+ */
+export function matchFileChecksum(
+  file: IFileItem,
+  algorithm: HashAlgorithm,
+  checksum: string | undefined,
+  partMd5s?: string[]
+): ChecksumMatch {
+  // 提供商直接返回了同算法的哈希
+  const expected = file.hash?.[algorithm];
+  if (expected && checksum) {
+    return expected.toLowerCase() === checksum.toLowerCase();
+  }
+
+  const etag = normalizeETag(file.extensionStatus?.s3?.etag ?? file.extensionStatus?.webDav?.etag);
+  if (!etag) {
+    return undefined;
+  }
+
+  const multipart = MULTIPART_ETAG_PATTERN.exec(etag);
+  if (multipart) {
+    if (!partMd5s || partMd5s.length !== parseInt(multipart[2], 10)) {
+      return undefined;
+    }
+    return computeMultipartETag(partMd5s) === etag;
+  }
+
+  if (algorithm === 'md5' && checksum && MD5_PATTERN.test(etag)) {
+    return etag === checksum.toLowerCase();
+  }
+
+  return undefined;
+}
@@ -0,0 +1,164 @@
+import { describe, it, expect } from 'vitest';
+import {
+  AdaptiveChunkSizer,
+  DEFAULT_CHUNK_SIZE,
+  IChunkSizeLimits,
+  clampChunkSize,
+  getChunkSizeLimits,
+  getInitialChunkSize,
+  resplitChunks,
+} from './ChunkSizer';
+import { IStorageProvider } from '../providers/base/IStorageProvider';
+import { IChunkInfo, TransferStatus } from '../providers/base/ITransferOptions';
+
+const KB = 1024;
+const MB = 1024 * KB;
+
+const createProvider = (performance: Record<string, number>) =>
+  ({ capabilities: { performance: { minChunkSize: 0, maxChunkSize: 0, recommendedChunkSize: 0, ...performance } } }) as unknown as IStorageProvider;
+
+const limits = (overrides: Partial<IChunkSizeLimits> = {}): IChunkSizeLimits =>
+  ({ min: 1, max: 0, recommended: MB, alignment: 1, ...overrides });
+
+describe('getChunkSizeLimits', () => {
+  it('合并所有提供商的限制，推荐值取上传目标', () => {
+    const target = createProvider({ minChunkSize: 256 * KB, maxChunkSize: 100 * MB, recommendedChunkSize: 10 * MB, chunkAlignment: 320 * KB });
+    const source = createProvider({ minChunkSize: MB, maxChunkSize: 50 * MB, recommendedChunkSize: 4 * MB, chunkAlignment: 256 * KB });
+
+    expect(getChunkSizeLimits([target, source])).toEqual({
+      min: MB,
+      max: 50 * MB,
+      recommended: 10 * MB,
+      alignment: 1280 * KB,
+    });
+  });
+
+  it('任务选项进一步收紧限制', () => {
+    const provider = createProvider({ minChunkSize: 256 * KB, maxChunkSize: 100 * MB });
+
+    expect(getChunkSizeLimits([provider], { minChunkSize: 2 * MB, maxChunkSize: 8 * MB })).toEqual({
+      min: 2 * MB,
+      max: 8 * MB,
+      recommended: DEFAULT_CHUNK_SIZE,
+      alignment: 1,
+    });
+  });
+});
+
+describe('clampChunkSize', () => {
+  it('限制在范围内', () => {
+    expect(clampChunkSize(10, limits({ min: 100 }))).toBe(100);
+    expect(clampChunkSize(5000, limits({ max: 1000 }))).toBe(1000);
+  });
+
+  it('按对齐要求向下取整，低于最小值时向上取整', () => {
+    expect(clampChunkSize(1000, limits({ alignment: 300 }))).toBe(900);
+    expect(clampChunkSize(1000, limits({ min: 1000, alignment: 300 }))).toBe(1200);
+    expect(clampChunkSize(5000, limits({ max: 1000, alignment: 300 }))).toBe(900);
+    expect(clampChunkSize(10, limits({ alignment: 300 }))).toBe(300);
+  });
+});
+
+describe('getInitialChunkSize', () => {
+  it('优先使用用户指定值', () => {
+    expect(getInitialChunkSize(limits({ recommended: 5 * MB }))).toBe(5 * MB);
+    expect(getInitialChunkSize(limits({ recommended: 5 * MB }), 2 * MB)).toBe(2 * MB);
+    expect(getInitialChunkSize(limits({ recommended: 5 * MB, max: 4 * MB }), 8 * MB)).toBe(4 * MB);
+  });
+});
+
+describe('AdaptiveChunkSizer', () => {
+  it('快速链路逐步增大分片，每次最多翻倍', () => {
+    const sizer = new AdaptiveChunkSizer(limits(), MB);
+
+    // 1MB/s，目标 4 秒 → 4MB
+    expect(sizer.record(MB, 1000)).toBe(2 * MB);
+    expect(sizer.record(2 * MB, 2000)).toBe(4 * MB);
+    expect(sizer.record(4 * MB, 4000)).toBe(4 * MB);
+    expect(sizer.bytesPerSecond).toBe(MB);
+  });
+
+  it('慢速链路减小分片，每次最多减半', () => {
+    const sizer = new AdaptiveChunkSizer(limits(), MB);
+
+    // 64KB/s，目标 4 秒 → 256KB
+    expect(sizer.record(MB, 16000)).toBe(512 * KB);
+    expect(sizer.record(512 * KB, 8000)).toBe(256 * KB);
+  });
+
+  it('差距较小时不调整', () => {
+    const sizer = new AdaptiveChunkSizer(limits(), MB);
+
+    expect(sizer.record(MB, 3500)).toBe(MB);
+    expect(sizer.record(MB, 4500)).toBe(MB);
+  });
+
+  it('吞吐量平滑，单次波动不会大幅改变分片大小', () => {
+    const sizer = new AdaptiveChunkSizer(limits(), MB);
+    sizer.record(MB, 4000);
+
+    // 一次 10 倍速的样本只把平滑吞吐量提高到约 3.7 倍
+    sizer.record(MB, 400);
+    expect(sizer.bytesPerSecond).toBeCloseTo(0.25 * MB + 0.3 * (2.5 * MB - 0.25 * MB));
+    expect(sizer.chunkSize).toBe(2 * MB);
+  });
+
+  it('调整结果遵守提供商的范围和对齐要求', () => {
+    const sizer = new AdaptiveChunkSizer(limits({ min: 640 * KB, max: 3 * MB, alignment: 320 * KB }), MB);
+    expect(sizer.chunkSize).toBe(960 * KB);
+
+    expect(sizer.record(MB, 500)).toBe(1920 * KB);
+    expect(sizer.record(2 * MB, 1000)).toBe(2880 * KB);
+
+    const slow = new AdaptiveChunkSizer(limits({ min: 640 * KB, max: 3 * MB, alignment: 320 * KB }), MB);
+    expect(slow.record(MB, 16000)).toBe(640 * KB);
+  });
+
+  it('忽略无效的记录', () => {
+    const sizer = new AdaptiveChunkSizer(limits(), MB);
+
+    expect(sizer.record(0, 1000)).toBe(MB);
+    expect(sizer.record(MB, 0)).toBe(MB);
+    expect(sizer.bytesPerSecond).toBe(0);
+  });
+});
+
+describe('resplitChunks', () => {
+  const createChunks = (size: number, chunkSize: number): IChunkInfo[] =>
+    Array.from({ length: Math.ceil(size / chunkSize) }, (_, index) => ({
+      index,
+      offset: index * chunkSize,
+      size: Math.min(chunkSize, size - index * chunkSize),
+      status: TransferStatus.PENDING,
+      retryCount: 0,
+    }));
+
+  const layout = (chunks: IChunkInfo[]) => chunks.map(chunk => [chunk.index, chunk.offset, chunk.size]);
+
+  it('只重新划分剩余分片，已传输分片的边界不变', () => {
+    const chunks = createChunks(10, 4);
+    chunks[0] = { ...chunks[0], status: TransferStatus.COMPLETED, retryCount: 2 };
+
+    resplitChunks(chunks, 1, 3);
+
+    expect(layout(chunks)).toEqual([[0, 0, 4], [1, 4, 3], [2, 7, 3]]);
+    expect(chunks[0].status).toBe(TransferStatus.COMPLETED);
+    expect(chunks.slice(1).every(chunk => chunk.status === TransferStatus.PENDING && chunk.retryCount === 0)).toBe(true);
+  });
+
+  it('增大分片时合并剩余分片', () => {
+    const chunks = createChunks(10, 2);
+
+    resplitChunks(chunks, 2, 8);
+
+    expect(layout(chunks)).toEqual([[0, 0, 2], [1, 2, 2], [2, 4, 6]]);
+  });
+
+  it('没有剩余分片时不修改', () => {
+    const chunks = createChunks(10, 4);
+
+    resplitChunks(chunks, 3, 1);
+
+    expect(layout(chunks)).toEqual([[0, 0, 4], [1, 4, 4], [2, 8, 2]]);
+  });
+});
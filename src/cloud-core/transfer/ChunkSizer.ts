@@ -0,0 +1,188 @@
+/**
+ * 分片大小
+ * 按提供商限制确定任务的初始分片大小，传输过程中按实测吞吐量调整：
+ * 慢速链路使用较小的分片（失败重传代价小），快速链路使用较大的分片（减少请求数）
+ */
+
+import { IStorageProvider } from '../providers/base/IStorageProvider';
+import { IChunkInfo, ITransferOptions, TransferStatus } from '../providers/base/ITransferOptions';
+
+/**
+ * 提供商未给出推荐值时的分片大小
+ */
+export const DEFAULT_CHUNK_SIZE = 5 * 1024 * 1024;
+
+/**
+ * 单个分片的目标传输时长（毫秒）
+ */
+export const TARGET_CHUNK_DURATION = 4000;
+
+/**
+ * 吞吐量平滑系数（指数加权移动平均）
+ */
+const THROUGHPUT_SMOOTHING = 0.3;
+
+/**
+ * 与当前大小相差不到该比例时不调整，避免频繁重新分片
+ */
+const RESIZE_THRESHOLD = 0.25;
+
+/**
+ * 单次调整的最大倍数
+ */
+const MAX_RESIZE_FACTOR = 2;
+
+/**
+ * 分片大小限制
+ */
+export interface IChunkSizeLimits {
+  min: number;                   // 最小分片大小
+  max: number;                   // 最大分片大小（0 表示无限制）
+  recommended: number;           // 推荐分片大小
+  alignment: number;             // 分片大小必须是该值的整数倍
+}
+
+/**
+ * 合并参与传输的提供商和任务选项的分片大小限制
+ * 推荐值取第一个提供商（上传目标）
+ */
+export function getChunkSizeLimits(
+  providers: IStorageProvider[],
+  options: Pick<ITransferOptions, 'minChunkSize' | 'maxChunkSize'> = {}
+): IChunkSizeLimits {
+  let min = options.minChunkSize || 1;
+  let max = options.maxChunkSize || 0;
+  let alignment = 1;
+
+  for (const provider of providers) {
+    const performance = provider.capabilities.performance;
+    min = Math.max(min, performance.minChunkSize || 1);
+    if (performance.maxChunkSize > 0) {
+      max = max > 0 ? Math.min(max, performance.maxChunkSize) : performance.maxChunkSize;
+    }
+    alignment = lcm(alignment, performance.chunkAlignment || 1);
+  }
+
+  return {
+    min,
+    max,
+    recommended: providers[0]?.capabilities.performance.recommendedChunkSize || DEFAULT_CHUNK_SIZE,
+    alignment,
+  };
+}
+
+/**
+ * 将分片大小限制在范围内并按对齐要求取整
+ */
+export function clampChunkSize(size: number, limits: IChunkSizeLimits): number {
+  const clamped = limits.max > 0 ? Math.min(limits.max, Math.max(limits.min, size)) : Math.max(limits.min, size);
+  const aligned = Math.max(limits.alignment, Math.floor(clamped / limits.alignment) * limits.alignment);
+
+  // 向下取整低于最小值时向上取整
+  if (aligned < limits.min && (limits.max <= 0 || aligned + limits.alignment <= limits.max)) {
+    return aligned + limits.alignment;
+  }
+  return aligned;
+}
+
+/**
+ * 任务的初始分片大小：用户指定值或提供商推荐值
+ */
+export function getInitialChunkSize(limits: IChunkSizeLimits, requested?: number): number {
+  return clampChunkSize(requested || limits.recommended, limits);
+}
+
+/**
+ * 自适应分片大小
+ * 记录每个分片的传输耗时，使分片传输时长接近目标时长
+ */
+export class AdaptiveChunkSizer {
+  private throughput = 0;
+  private size: number;
+
+  constructor(
+    private limits: IChunkSizeLimits,
+    initialSize: number,
+    private targetDuration: number = TARGET_CHUNK_DURATION
+  ) {
+    this.size = clampChunkSize(initialSize, limits);
+  }
+
+  /**
+   * 当前建议的分片大小
+   */
+  public get chunkSize(): number {
+    return this.size;
+  }
+
+  /**
+   * 平滑后的单连接吞吐量（字节/秒）
+   */
+  public get bytesPerSecond(): number {
+    return this.throughput;
+  }
+
+  /**
+   * 记录一个分片的传输结果
+   * @param bytes 分片字节数
+   * @param duration 传输耗时（毫秒，含重试）
+   * @returns 调整后的分片大小
+   */
+  public record(bytes: number, duration: number): number {
+    if (bytes <= 0 || duration <= 0) {
+      return this.size;
+    }
+
+    const sample = (bytes * 1000) / duration;
+    this.throughput = this.throughput > 0
+      ? this.throughput + THROUGHPUT_SMOOTHING * (sample - this.throughput)
+      : sample;
+
+    const ideal = (this.throughput * this.targetDuration) / 1000;
+    if (Math.abs(ideal - this.size) < this.size * RESIZE_THRESHOLD) {
+      return this.size;
+    }
+
+    const bounded = Math.min(this.size * MAX_RESIZE_FACTOR, Math.max(this.size / MAX_RESIZE_FACTOR, ideal));
+    this.size = clampChunkSize(bounded, this.limits);
+    return this.size;
+  }
+}
+
+/**
+ * 从 startIndex 开始按新大小重新划分剩余分片（原地修改，分片索引与数组下标保持一致）
+ * 只应对尚未开始传输的分片调用，之前分片的边界保持不变
+ */
+export function resplitChunks(chunks: IChunkInfo[], startIndex: number, chunkSize: number): void {
+  if (startIndex >= chunks.length) {
+    return;
+  }
+
+  const last = chunks[chunks.length - 1];
+  const start = chunks[startIndex].offset;
+  const end = last.offset + last.size;
+  const resplit: IChunkInfo[] = [];
+
+  for (let offset = start; offset < end; offset += chunkSize) {
+    resplit.push({
+      index: startIndex + resplit.length,
+      offset,
+      size: Math.min(chunkSize, end - offset),
+      status: TransferStatus.PENDING,
+      retryCount: 0,
+    });
+  }
+
+  chunks.splice(startIndex, chunks.length - startIndex, ...resplit);
+}
+
+function gcd(a: number, b: number): number {
+  while (b) {
+    [a, b] = [b, a % b];
+  }
+  return a;
+}
+
+function lcm(a: number, b: number): number {
+  return (a / gcd(a, b)) * b;
+}
@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ConflictAction, ConflictResolver, IUploadConflict, generateUniqueName } from './ConflictResolver';
+import { ITransferOptions, ITransferTask } from '../providers/base/ITransferOptions';
+import { eventBus, CloudEventType } from '../events';
+import { MemoryProvider } from '../testing/MemoryProvider';
+
+let taskCount = 0;
+
+const createTask = (fileName: string, options: Partial<ITransferOptions> = {}, groupId?: string) => ({
+  id: `task-${++taskCount}`,
+  fileName,
+  fileSize: 10,
+  groupId,
+  options: { targetPath: '/', ...options },
+}) as ITransferTask;
+
+describe('generateUniqueName', () => {
+  it('在扩展名前追加序号', () => {
+    expect(generateUniqueName('report.pdf', new Set(['report.pdf']))).toBe('report (1).pdf');
+    expect(generateUniqueName('report.pdf', new Set(['report.pdf', 'report (1).pdf']))).toBe('report (2).pdf');
+  });
+
+  it('已有序号时继续递增', () => {
+    expect(generateUniqueName('report (3).pdf', new Set(['report (3).pdf']))).toBe('report (4).pdf');
+  });
+
+  it('没有扩展名和隐藏文件', () => {
+    expect(generateUniqueName('README', new Set())).toBe('README (1)');
+    expect(generateUniqueName('.env', new Set())).toBe('.env (1)');
+    expect(generateUniqueName('archive.tar.gz', new Set())).toBe('archive.tar (1).gz');
+  });
+
+  it('超过长度限制时截断主文件名，保留序号和扩展名', () => {
+    const name = generateUniqueName(`${'a'.repeat(20)}.txt`, new Set(), 16);
+    expect(name).toBe('aaaaaaaa (1).txt');
+    expect(name.length).toBe(16);
+  });
+});
+
+describe('ConflictResolver', () => {
+  let provider: MemoryProvider;
+  let resolver: ConflictResolver;
+
+  beforeEach(() => {
+    provider = new MemoryProvider();
+    provider.addFile('a.txt');
+    resolver = new ConflictResolver();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  /**
+   * 监听冲突询问，由 answer 决定回复
+   */
+  const onConflict = (answer: (conflict: IUploadConflict) => { action: ConflictAction; applyToAll?: boolean } | undefined) => {
+    const conflicts: IUploadConflict[] = [];
+    const unsubscribe = eventBus.on<IUploadConflict>(CloudEventType.UPLOAD_CONFLICT, (conflict) => {
+      conflicts.push(conflict);
+      const reply = answer(conflict);
+      if (reply) {
+        eventBus.emit(CloudEventType.UPLOAD_CONFLICT_RESOLVED, { conflictId: conflict.conflictId, ...reply }, 'test');
+      }
+    });
+    return { conflicts, unsubscribe };
+  };
+
+  it('目标位置没有同名文件时不处理', async () => {
+    expect(await resolver.resolve(createTask('b.txt'), provider.asProvider())).toEqual({ fileName: 'b.txt' });
+  });
+
+  it('没有界面处理冲突时默认覆盖', async () => {
+    const outcome = await resolver.resolve(createTask('a.txt'), provider.asProvider());
+    expect(outcome).toMatchObject({ action: 'overwrite', fileName: 'a.txt', existing: { name: 'a.txt' } });
+  });
+
+  it('按任务选项的策略处理', async () => {
+    expect((await resolver.resolve(createTask('a.txt', { skipExisting: true }), provider.asProvider())).action).toBe('skip');
+    expect((await resolver.resolve(createTask('a.txt', { overwrite: true }), provider.asProvider())).action).toBe('overwrite');
+  });
+
+  it('同批上传的同名文件依次重命名', async () => {
+    const first = await resolver.resolve(createTask('a.txt', { renameIfExists: true }), provider.asProvider());
+    const second = await resolver.resolve(createTask('a.txt', { renameIfExists: true }), provider.asProvider());
+
+    expect(first).toMatchObject({ action: 'rename', fileName: 'a (1).txt' });
+    expect(second).toMatchObject({ action: 'rename', fileName: 'a (2).txt' });
+  });
+
+  it('不支持版本控制时保留版本改为重命名', async () => {
+    expect(await resolver.resolve(createTask('a.txt', { versioning: true }), provider.asProvider()))
+      .toMatchObject({ action: 'rename', fileName: 'a (1).txt' });
+
+    const versioned = new MemoryProvider({ versioning: true });
+    versioned.addFile('a.txt');
+    expect((await resolver.resolve(createTask('a.txt', { versioning: true }), versioned.asProvider())).action).toBe('version');
+  });
+
+  it('询问用户，"应用到全部"后同组其余冲突不再询问', async () => {
+    provider.addFile('b.txt');
+    const { conflicts, unsubscribe } = onConflict(() => ({ action: 'skip', applyToAll: true }));
+
+    try {
+      const outcomes = await Promise.all([
+        resolver.resolve(createTask('a.txt', {}, 'group-1'), provider.asProvider()),
+        resolver.resolve(createTask('b.txt', {}, 'group-1'), provider.asProvider()),
+      ]);
+
+      expect(outcomes.map(outcome => outcome.action)).toEqual(['skip', 'skip']);
+      expect(conflicts).toHaveLength(1);
+      expect(conflicts[0]).toMatchObject({ fileName: 'a.txt', suggestedName: 'a (1).txt', canVersion: false });
+    } finally {
+      unsubscribe();
+    }
+  });
+
+  it('等待超时后覆盖并通知界面关闭询问', async () => {
+    vi.useFakeTimers();
+    const { unsubscribe } = onConflict(() => undefined);
+    const resolved = vi.fn();
+    const stop = eventBus.on(CloudEventType.UPLOAD_CONFLICT_RESOLVED, resolved);
+
+    try {
+      const outcome = resolver.resolve(createTask('a.txt'), provider.asProvider());
+      await vi.advanceTimersByTimeAsync(10 * 60 * 1000);
+
+      expect((await outcome).action).toBe('overwrite');
+      expect(resolved).toHaveBeenCalledWith(expect.objectContaining({ action: 'overwrite' }));
+    } finally {
+      unsubscribe();
+      stop();
+    }
+  });
+});
@@ -0,0 +1,258 @@
+/**
+ * 上传冲突处理
+ * 上传前检查目标位置是否存在同名文件，按策略覆盖、跳过、重命名或保留版本；
+ * 未指定策略时通过事件总线询问用户，批量上传可"应用到全部"
+ */
+
+import { ITransferTask } from '../providers/base/ITransferOptions';
+import { IFileItem } from '../providers/base/IFileItem';
+import { IStorageProvider } from '../providers/base/IStorageProvider';
+import { eventBus, CloudEventType } from '../events';
+
+/**
+ * 冲突处理方式
+ */
+export type ConflictAction = 'overwrite' | 'skip' | 'rename' | 'version';
+
+/**
+ * 上传冲突（UPLOAD_CONFLICT 事件数据）
+ */
+export interface IUploadConflict {
+  conflictId: string;            // 冲突ID（回复时使用）
+  taskId: string;                // 任务ID
+  groupId?: string;              // 批量上传的任务组ID
+  fileName: string;              // 上传的文件名
+  existing: IFileItem;           // 目标位置已存在的文件
+  suggestedName: string;         // 自动重命名的建议名称
+  canVersion: boolean;           // 提供商是否支持版本控制
+}
+
+/**
+ * 冲突处理结果（UPLOAD_CONFLICT_RESOLVED 事件数据）
+ */
+export interface IConflictResolution {
+  conflictId: string;            // 冲突ID
+  action: ConflictAction;        // 处理方式
+  applyToAll?: boolean;          // 应用到同组的其余冲突
+}
+
+/**
+ * 冲突检查结果
+ */
+export interface IConflictOutcome {
+  action?: ConflictAction;       // 无冲突时为空
+  fileName: string;              // 最终使用的文件名
+  existing?: IFileItem;          // 已存在的文件
+}
+
+/**
+ * 目录列表缓存时间（毫秒），批量上传时避免每个文件都重新列目录
+ */
+const LISTING_TTL = 10000;
+
+/**
+ * 没有界面处理冲突或等待超时时的默认方式（覆盖，与引入冲突检查前一致）
+ */
+const DEFAULT_ACTION: ConflictAction = 'overwrite';
+
+/**
+ * 等待用户选择的超时时间（毫秒）
+ */
+const PROMPT_TIMEOUT = 10 * 60 * 1000;
+
+/**
+ * 生成不冲突的文件名："name (1).ext"、"name (2).ext"...
+ * 超过长度限制时截断主文件名，保留扩展名和序号
+ */
+export function generateUniqueName(fileName: string, taken: Set<string>, maxLength: number = 255): string {
+  const dot = fileName.lastIndexOf('.');
+  const hasExtension = dot > 0;
+  const extension = hasExtension ? fileName.slice(dot) : '';
+  // 已经是 "name (n)" 形式时从 n 继续递增
+  const match = /^(.*) \((\d+)\)$/.exec(hasExtension ? fileName.slice(0, dot) : fileName);
+  const base = match ? match[1] : hasExtension ? fileName.slice(0, dot) : fileName;
+  let index = match ? parseInt(match[2], 10) + 1 : 1;
+
+  for (;;) {
+    const suffix = ` (${index})${extension}`;
+    const candidate = base.slice(0, Math.max(1, maxLength - suffix.length)) + suffix;
+    if (!taken.has(candidate)) {
+      return candidate;
+    }
+    index++;
+  }
+}
+
+/**
+ * 冲突处理器
+ */
+export class ConflictResolver {
+  private listings: Map<string, { names: Promise<Map<string, IFileItem>>; expiresAt: number }> = new Map();
+  private decisions: Map<string, ConflictAction> = new Map();
+  private prompts: Map<string, Promise<unknown>> = new Map();
+
+  /**
+   * 检查目标位置并确定处理方式
+   */
+  async resolve(task: ITransferTask, provider: IStorageProvider): Promise<IConflictOutcome> {
+    const listing = await this.getListing(task, provider);
+    const existing = listing.get(task.fileName);
+    if (!existing) {
+      this.reserve(listing, task.fileName, task);
+      return { fileName: task.fileName };
+    }
+
+    const canVersion = provider.capabilities.supports.versioning;
+    let action = this.getPolicyAction(task) ?? (task.groupId ? this.decisions.get(task.groupId) : undefined);
+    if (!action) {
+      action = await this.prompt(task, existing, listing, provider);
+    }
+
+    // 不支持版本控制时保留两个文件，旧文件相当于历史版本
+    if (action === 'version' && !canVersion) {
+      action = 'rename';
+    }
+
+    if (action === 'rename') {
+      const maxLength = provider.capabilities.limits.maxFileNameLength || 255;
+      const fileName = generateUniqueName(task.fileName, new Set(listing.keys()), maxLength);
+      this.reserve(listing, fileName, task);
+      return { action, fileName, existing };
+    }
+
+    return { action, fileName: task.fileName, existing };
+  }
+
+  /**
+   * 清除"应用到全部"的选择
+   */
+  clearDecision(groupId: string): void {
+    this.decisions.delete(groupId);
+  }
+
+  /**
+   * 任务选项中指定的策略
+   */
+  private getPolicyAction(task: ITransferTask): ConflictAction | undefined {
+    const { options } = task;
+    if (options.versioning) return 'version';
+    if (options.overwrite) return 'overwrite';
+    if (options.skipExisting) return 'skip';
+    if (options.renameIfExists) return 'rename';
+    return undefined;
+  }
+
+  /**
+   * 通过事件总线询问用户，同组冲突依次询问
+   */
+  private async prompt(
+    task: ITransferTask,
+    existing: IFileItem,
+    listing: Map<string, IFileItem>,
+    provider: IStorageProvider
+  ): Promise<ConflictAction> {
+    if (eventBus.getListenerCount(CloudEventType.UPLOAD_CONFLICT) === 0) {
+      return DEFAULT_ACTION;
+    }
+
+    const queueKey = task.groupId || task.id;
+    const previous = this.prompts.get(queueKey) || Promise.resolve();
+
+    const result = previous.then(async () => {
+      // 等待期间用户可能已选择"应用到全部"
+      const decided = task.groupId ? this.decisions.get(task.groupId) : undefined;
+      if (decided) {
+        return decided;
+      }
+
+      const conflict: IUploadConflict = {
+        conflictId: `conflict-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        taskId: task.id,
+        groupId: task.groupId,
+        fileName: task.fileName,
+        existing,
+        suggestedName: generateUniqueName(
+          task.fileName,
+          new Set(listing.keys()),
+          provider.capabilities.limits.maxFileNameLength || 255
+        ),
+        canVersion: provider.capabilities.supports.versioning,
+      };
+
+      const resolution = await this.waitForResolution(conflict);
+      if (resolution.applyToAll && task.groupId) {
+        this.decisions.set(task.groupId, resolution.action);
+      }
+      return resolution.action;
+    });
+
+    this.prompts.set(queueKey, result.catch(() => undefined));
+    return result;
+  }
+
+  private waitForResolution(conflict: IUploadConflict): Promise<IConflictResolution> {
+    return new Promise((resolve) => {
+      // 超时后同样发出 UPLOAD_CONFLICT_RESOLVED，界面据此关闭对应的询问
+      const timeoutId = setTimeout(() => {
+        unsubscribe();
+        const resolution: IConflictResolution = { conflictId: conflict.conflictId, action: DEFAULT_ACTION };
+        resolve(resolution);
+        eventBus.emit(CloudEventType.UPLOAD_CONFLICT_RESOLVED, resolution, 'TransferManager').catch(console.error);
+      }, PROMPT_TIMEOUT);
+
+      const unsubscribe = eventBus.on<IConflictResolution>(
+        CloudEventType.UPLOAD_CONFLICT_RESOLVED,
+        (resolution) => {
+          clearTimeout(timeoutId);
+          unsubscribe();
+          resolve(resolution);
+        },
+        { filter: (resolution: IConflictResolution) => resolution.conflictId === conflict.conflictId }
+      );
+
+      eventBus.emit(CloudEventType.UPLOAD_CONFLICT, conflict, 'TransferManager').catch(console.error);
+    });
+  }
+
+  /**
+   * 获取目标目录的文件列表（按名称索引，短时间内复用）
+   */
+  private async getListing(task: ITransferTask, provider: IStorageProvider): Promise<Map<string, IFileItem>> {
+    const folder = task.options.parentId || task.options.targetPath || '/';
+    const key = `${provider.id}:${folder}`;
+    const cached = this.listings.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.names;
+    }
+
+    const names = (async () => {
+      const files = new Map<string, IFileItem>();
+      let cursor: string | undefined;
+      do {
+        const response = await provider.listFiles({
+          folderId: task.options.parentId,
+          path: task.options.targetPath || '/',
+          cursor,
+        });
+        for (const file of response.files) {
+          files.set(file.name, file);
+        }
+        cursor = response.hasMore ? response.nextCursor : undefined;
+      } while (cursor);
+      return files;
+    })();
+
+    this.listings.set(key, { names, expiresAt: Date.now() + LISTING_TTL });
+    names.catch(() => this.listings.delete(key));
+    return names;
+  }
+
+  /**
+   * 占用文件名，避免同批并发上传选到同一个名称
+   */
+  private reserve(listing: Map<string, IFileItem>, fileName: string, task: ITransferTask): void {
+    if (!listing.has(fileName)) {
+      listing.set(fileName, { name: fileName, size: task.fileSize } as IFileItem);
+    }
+  }
+}
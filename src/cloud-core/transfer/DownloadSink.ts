@@ -0,0 +1,292 @@
+/**
+ * 下载写入目标
+ * 按优先级选择：File System Access API → Service Worker 流式下载 → 内存 Blob
+ * 前两种方式按顺序写入磁盘，大文件不会完整驻留内存
+ */
+
+/**
+ * 写入目标类型
+ */
+export type DownloadSinkType = 'file-system' | 'service-worker' | 'memory';
+
+/**
+ * 下载写入目标接口
+ */
+export interface IDownloadSink {
+  readonly type: DownloadSinkType;
+
+  /**
+   * 按顺序写入数据
+   */
+  write(data: Blob | Uint8Array): Promise<void>;
+
+  /**
+   * 完成写入
+   */
+  close(): Promise<void>;
+
+  /**
+   * 放弃写入
+   */
+  abort(reason?: string): Promise<void>;
+}
+
+/**
+ * 写入目标创建选项
+ */
+export interface IDownloadSinkOptions {
+  fileName: string;              // 文件名
+  size?: number;                 // 文件大小（用于 Content-Length）
+  mimeType?: string;             // MIME类型
+  fileHandle?: FileSystemFileHandle; // 已选择的保存文件
+  allowServiceWorker?: boolean;  // 是否允许使用 Service Worker 流式下载
+}
+
+/**
+ * Service Worker 脚本地址（位于 public 目录）
+ */
+const SERVICE_WORKER_URL = `${import.meta.env.BASE_URL}download-sw.js`;
+
+/**
+ * 流式下载URL前缀（由 Service Worker 拦截）
+ */
+const STREAM_PATH_PREFIX = `${import.meta.env.BASE_URL}__cloud_download__/`;
+
+/**
+ * 等待 Service Worker 应答的超时时间（毫秒）
+ */
+const SERVICE_WORKER_TIMEOUT = 3000;
+
+/**
+ * 是否支持 File System Access API 保存文件
+ */
+export function supportsFileSystemAccess(): boolean {
+  return typeof window !== 'undefined' && 'showSaveFilePicker' in window;
+}
+
+/**
+ * 弹出保存对话框选择下载位置（需在用户手势中调用）
+ * @returns 文件句柄，浏览器不支持或用户取消时返回 undefined
+ */
+export async function pickSaveFile(fileName: string): Promise<FileSystemFileHandle | undefined> {
+  if (!supportsFileSystemAccess()) {
+    return undefined;
+  }
+
+  try {
+    return await (window as any).showSaveFilePicker({ suggestedName: fileName });
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * 创建下载写入目标
+ */
+export async function createDownloadSink(options: IDownloadSinkOptions): Promise<IDownloadSink> {
+  if (options.fileHandle) {
+    return FileSystemSink.create(options.fileHandle);
+  }
+
+  if (options.allowServiceWorker !== false) {
+    const sink = await ServiceWorkerSink.create(options).catch(() => null);
+    if (sink) {
+      return sink;
+    }
+  }
+
+  return new MemorySink(options.fileName, options.mimeType);
+}
+
+// ============================================
+// File System Access API
+// ============================================
+
+/**
+ * 直接写入用户选择的本地文件
+ */
+class FileSystemSink implements IDownloadSink {
+  readonly type: DownloadSinkType = 'file-system';
+
+  private constructor(private writable: FileSystemWritableFileStream) {}
+
+  static async create(handle: FileSystemFileHandle): Promise<FileSystemSink> {
+    return new FileSystemSink(await handle.createWritable());
+  }
+
+  async write(data: Blob | Uint8Array): Promise<void> {
+    await this.writable.write(data);
+  }
+
+  async close(): Promise<void> {
+    await this.writable.close();
+  }
+
+  async abort(reason?: string): Promise<void> {
+    await this.writable.abort(reason);
+  }
+}
+
+// ============================================
+// Service Worker 流式下载
+// ============================================
+
+/**
+ * 通过 Service Worker 构造流式响应，由浏览器下载管理器写入磁盘
+ * 写入按 Service Worker 的 pull 请求节流，避免数据堆积在内存中
+ */
+class ServiceWorkerSink implements IDownloadSink {
+  readonly type: DownloadSinkType = 'service-worker';
+
+  readonly ready: Promise<boolean>;
+
+  private credits = 0;
+  private waiters: Array<() => void> = [];
+  private cancelled = false;
+  private frame?: HTMLIFrameElement;
+
+  private constructor(private port: MessagePort) {
+    let resolveReady: (ready: boolean) => void = () => undefined;
+    this.ready = new Promise<boolean>(resolve => {
+      resolveReady = resolve;
+      setTimeout(() => resolve(false), SERVICE_WORKER_TIMEOUT);
+    });
+
+    this.port.onmessage = (event) => {
+      switch (event.data?.type) {
+        case 'ready':
+          resolveReady(true);
+          break;
+        case 'pull':
+          this.credits++;
+          this.waiters.shift()?.();
+          break;
+        case 'cancel':
+          // 用户在浏览器中取消了下载
+          this.cancelled = true;
+          this.waiters.forEach(resolve => resolve());
+          this.waiters = [];
+          break;
+      }
+    };
+  }
+
+  static async create(options: IDownloadSinkOptions): Promise<ServiceWorkerSink | null> {
+    if (typeof navigator === 'undefined' || !('serviceWorker' in navigator) || !window.isSecureContext) {
+      return null;
+    }
+
+    const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+    const worker = registration.active || (await navigator.serviceWorker.ready).active;
+    if (!worker) {
+      return null;
+    }
+
+    const id = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    const url = `${STREAM_PATH_PREFIX}${id}/${encodeURIComponent(options.fileName)}`;
+    const channel = new MessageChannel();
+    const sink = new ServiceWorkerSink(channel.port1);
+
+    worker.postMessage(
+      {
+        type: 'CLOUD_DOWNLOAD_INIT',
+        url: new URL(url, location.href).pathname,
+        fileName: options.fileName,
+        size: options.size,
+        mimeType: options.mimeType,
+      },
+      [channel.port2]
+    );
+
+    // 等待 Service Worker 确认已准备好流
+    if (!(await sink.ready)) {
+      channel.port1.close();
+      return null;
+    }
+
+    sink.start(url);
+    return sink;
+  }
+
+  async write(data: Blob | Uint8Array): Promise<void> {
+    const bytes = data instanceof Blob ? new Uint8Array(await data.arrayBuffer()) : data;
+
+    if (this.credits === 0 && !this.cancelled) {
+      await new Promise<void>(resolve => this.waiters.push(resolve));
+    }
+    if (this.cancelled) {
+      throw new Error('Download cancelled by browser');
+    }
+    this.credits--;
+
+    // 独占缓冲区时直接转移所有权，否则复制
+    const buffer = bytes.byteOffset === 0 && bytes.byteLength === bytes.buffer.byteLength
+      ? bytes.buffer
+      : bytes.slice().buffer;
+    this.port.postMessage({ type: 'chunk', data: new Uint8Array(buffer) }, [buffer]);
+  }
+
+  async close(): Promise<void> {
+    this.port.postMessage({ type: 'end' });
+    this.dispose();
+  }
+
+  async abort(reason?: string): Promise<void> {
+    this.port.postMessage({ type: 'abort', reason });
+    this.dispose();
+  }
+
+  /**
+   * 通过隐藏 iframe 触发浏览器下载
+   */
+  private start(url: string): void {
+    this.frame = document.createElement('iframe');
+    this.frame.hidden = true;
+    this.frame.src = url;
+    document.body.appendChild(this.frame);
+  }
+
+  private dispose(): void {
+    // 保留 iframe 一段时间，确保下载已交给浏览器
+    const frame = this.frame;
+    setTimeout(() => frame?.remove(), 60000);
+    this.frame = undefined;
+    this.waiters.forEach(resolve => resolve());
+    this.waiters = [];
+  }
+}
+
+// ============================================
+// 内存回退
+// ============================================
+
+/**
+ * 在内存中拼接分片，完成后触发浏览器下载
+ */
+class MemorySink implements IDownloadSink {
+  readonly type: DownloadSinkType = 'memory';
+
+  private parts: BlobPart[] = [];
+
+  constructor(private fileName: string, private mimeType?: string) {}
+
+  async write(data: Blob | Uint8Array): Promise<void> {
+    this.parts.push(data);
+  }
+
+  async close(): Promise<void> {
+    const blob = new Blob(this.parts, { type: this.mimeType || 'application/octet-stream' });
+    this.parts = [];
+
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = this.fileName;
+    a.click();
+    setTimeout(() => URL.revokeObjectURL(url), 60000);
+  }
+
+  async abort(): Promise<void> {
+    this.parts = [];
+  }
+}
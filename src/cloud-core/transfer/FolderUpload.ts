@@ -0,0 +1,233 @@
+/**
+ * 文件夹上传
+ * 从拖放（webkitGetAsEntry）、目录选择器（showDirectoryPicker）或 webkitdirectory 输入框
+ * 收集文件及其相对路径，并按传输选项过滤
+ */
+
+import { ITransferOptions } from '../providers/base/ITransferOptions';
+
+/**
+ * 带相对路径的文件
+ */
+export interface IFolderEntry {
+  file: File;
+  relativePath: string;          // 相对上传根目录的路径（含文件名），如 "photos/2024/a.jpg"
+}
+
+/**
+ * 文件夹上传过滤选项
+ */
+export type FolderFilterOptions = Pick<
+  Partial<ITransferOptions>,
+  'includePatterns' | 'excludePatterns' | 'fileTypes' | 'minFileSize' | 'maxFileSize'
+>;
+
+/**
+ * 是否支持目录选择器
+ */
+export function supportsDirectoryPicker(): boolean {
+  return typeof window !== 'undefined' && 'showDirectoryPicker' in window;
+}
+
+/**
+ * 从拖放数据中收集文件（包括文件夹中的文件）
+ * 必须在 drop 事件处理函数中同步调用，事件结束后 DataTransfer 会被清空
+ */
+export function collectDroppedEntries(dataTransfer: DataTransfer): Promise<IFolderEntry[]> {
+  // 同步取出所有条目，后续异步遍历
+  const entries = Array.from(dataTransfer.items || [])
+    .filter(item => item.kind === 'file')
+    .map(item => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+
+  if (entries.length === 0) {
+    return Promise.resolve(
+      Array.from(dataTransfer.files).map(file => ({ file, relativePath: file.name }))
+    );
+  }
+
+  return Promise.all(entries.map(entry => walkEntry(entry, ''))).then(results => results.flat());
+}
+
+/**
+ * 通过目录选择器选择文件夹（需在用户手势中调用）
+ * @returns 浏览器不支持或用户取消时返回 undefined
+ */
+export async function pickDirectory(): Promise<IFolderEntry[] | undefined> {
+  const handle = await pickDirectoryHandle();
+  return handle ? collectDirectoryEntries(handle) : undefined;
+}
+
+/**
+ * 通过目录选择器选择文件夹并返回句柄（句柄可保存到 IndexedDB，供定时上传再次读取）
+ * @returns 浏览器不支持或用户取消时返回 undefined
+ */
+export async function pickDirectoryHandle(): Promise<FileSystemDirectoryHandle | undefined> {
+  if (!supportsDirectoryPicker()) {
+    return undefined;
+  }
+
+  try {
+    return await (window as any).showDirectoryPicker();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * 收集目录句柄中的全部文件，相对路径以该目录名开头
+ */
+export function collectDirectoryEntries(handle: FileSystemDirectoryHandle): Promise<IFolderEntry[]> {
+  return walkDirectoryHandle(handle, `${handle.name}/`);
+}
+
+/**
+ * 从 webkitdirectory 输入框的文件列表收集文件
+ */
+export function collectInputEntries(files: FileList | File[]): IFolderEntry[] {
+  return Array.from(files).map(file => ({
+    file,
+    relativePath: file.webkitRelativePath || file.name,
+  }));
+}
+
+/**
+ * 按包含/排除模式、文件类型和大小过滤
+ */
+export function filterEntries(entries: IFolderEntry[], options: FolderFilterOptions): IFolderEntry[] {
+  const include = options.includePatterns?.map(globToRegExp);
+  const exclude = options.excludePatterns?.map(globToRegExp);
+
+  return entries.filter(({ file, relativePath }) => {
+    if (options.minFileSize !== undefined && file.size < options.minFileSize) return false;
+    if (options.maxFileSize !== undefined && file.size > options.maxFileSize) return false;
+    if (options.fileTypes?.length && !matchesFileType(file, options.fileTypes)) return false;
+    if (include?.length && !include.some(pattern => matchesPattern(pattern, relativePath))) return false;
+    if (exclude?.some(pattern => matchesPattern(pattern, relativePath))) return false;
+    return true;
+  });
+}
+
+/**
+ * 获取条目中所有需要创建的文件夹（父文件夹在前）
+ */
+export function getFolderPaths(entries: IFolderEntry[]): string[] {
+  const folders = new Set<string>();
+
+  for (const { relativePath } of entries) {
+    const parts = relativePath.split('/').slice(0, -1);
+    for (let i = 1; i <= parts.length; i++) {
+      folders.add(parts.slice(0, i).join('/'));
+    }
+  }
+
+  return Array.from(folders).sort((a, b) => a.split('/').length - b.split('/').length || a.localeCompare(b));
+}
+
+// ============================================
+// 目录遍历
+// ============================================
+
+async function walkEntry(entry: FileSystemEntry, prefix: string): Promise<IFolderEntry[]> {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) =>
+      (entry as FileSystemFileEntry).file(resolve, reject)
+    );
+    return [{ file, relativePath: `${prefix}${entry.name}` }];
+  }
+
+  if (!entry.isDirectory) {
+    return [];
+  }
+
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const children: FileSystemEntry[] = [];
+
+  // readEntries 每次只返回一部分，需要读到空为止
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) {
+      break;
+    }
+    children.push(...batch);
+  }
+
+  const results: IFolderEntry[] = [];
+  for (const child of children) {
+    results.push(...(await walkEntry(child, `${prefix}${entry.name}/`)));
+  }
+  return results;
+}
+
+async function walkDirectoryHandle(handle: FileSystemDirectoryHandle, prefix: string): Promise<IFolderEntry[]> {
+  const results: IFolderEntry[] = [];
+
+  for await (const child of (handle as any).values() as AsyncIterable<FileSystemHandle>) {
+    if (child.kind === 'file') {
+      const file = await (child as FileSystemFileHandle).getFile();
+      results.push({ file, relativePath: `${prefix}${child.name}` });
+    } else {
+      results.push(...(await walkDirectoryHandle(child as FileSystemDirectoryHandle, `${prefix}${child.name}/`)));
+    }
+  }
+
+  return results;
+}
+
+// ============================================
+// 过滤规则
+// ============================================
+
+/**
+ * glob 转正则：** 匹配任意层级，* 和 ? 不跨越目录
+ */
+function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      // "**/" 可以匹配零层目录
+      if (pattern[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i++;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`, 'i');
+}
+
+/**
+ * 不含 "/" 的模式匹配任意层级的名称（文件名或任一级目录名），否则匹配完整相对路径
+ */
+function matchesPattern(pattern: RegExp, relativePath: string): boolean {
+  if (!pattern.source.includes('/')) {
+    return relativePath.split('/').some(part => pattern.test(part));
+  }
+  return pattern.test(relativePath);
+}
+
+/**
+ * 文件类型：扩展名（"jpg"、".jpg"）或 MIME（"image/png"、"image/*"）
+ */
+function matchesFileType(file: File, fileTypes: string[]): boolean {
+  const extension = file.name.includes('.') ? file.name.split('.').pop()!.toLowerCase() : '';
+
+  return fileTypes.some(type => {
+    const normalized = type.trim().toLowerCase();
+    if (normalized.includes('/')) {
+      return normalized.endsWith('/*')
+        ? file.type.startsWith(normalized.slice(0, -1))
+        : file.type === normalized;
+    }
+    return normalized.replace(/^\./, '') === extension;
+  });
+}
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { createHasher, hashBlob, hexToBytes, isSupportedHashAlgorithm, HashAlgorithm } from './HashAlgorithms';
+
+const encoder = new TextEncoder();
+
+const digest = (algorithm: HashAlgorithm, data: Uint8Array | string): string => {
+  const hasher = createHasher(algorithm);
+  hasher.update(typeof data === 'string' ? encoder.encode(data) : data);
+  return hasher.digest();
+};
+
+const sha256 = async (data: Uint8Array): Promise<Uint8Array> =>
+  new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+
+describe('HashAlgorithms', () => {
+  // 标准测试向量（RFC 1321 / FIPS 180 / CRC-32 check value）
+  it.each([
+    ['md5', '', 'd41d8cd98f00b204e9800998ecf8427e'],
+    ['md5', 'abc', '900150983cd24fb0d6963f7d28e17f72'],
+    ['md5', 'The quick brown fox jumps over the lazy dog', '9e107d9d372bb6826bd81d3542a419d6'],
+    ['sha1', '', 'da39a3ee5e6b4b0d3255bfef95601890afd80709'],
+    ['sha1', 'abc', 'a9993e364706816aba3e25717850c26c9cd0d89d'],
+    ['sha1', 'abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq', '84983e441c3bd26ebaae4aa1f95129e5e54670f1'],
+    ['sha256', '', 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'],
+    ['sha256', 'abc', 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'],
+    ['sha256', 'abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq', '248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1'],
+    ['crc32', '', '00000000'],
+    ['crc32', '123456789', 'cbf43926'],
+  ] as const)('%s(%j)', (algorithm, input, expected) => {
+    expect(digest(algorithm, input)).toBe(expected);
+  });
+
+  it('一百万个 "a" 的摘要与标准向量一致', () => {
+    const data = new Uint8Array(1000000).fill(0x61);
+    expect(digest('md5', data)).toBe('7707d6ae4e027c70eea2a935c2296f21');
+    expect(digest('sha1', data)).toBe('34aa973cd4c4daa4f61eeb2bdbad27316534016f');
+    expect(digest('sha256', data)).toBe('cdc76e5c9914fb9281a1c7e284d73e67f1809a48a497200e046d39ccc7112cd0');
+  });
+
+  it.each(['md5', 'sha1', 'sha256', 'crc32', 'dropbox'] as const)('%s 分块更新与一次性计算结果相同', (algorithm) => {
+    const data = new Uint8Array(200003).map((_, i) => (i * 31 + 7) & 0xff);
+    const hasher = createHasher(algorithm);
+    // 块大小不与 64 字节分组对齐
+    for (let offset = 0, size = 1; offset < data.length; offset += size, size = size * 3 + 1) {
+      hasher.update(data.subarray(offset, offset + size));
+    }
+    expect(hasher.digest()).toBe(digest(algorithm, data));
+  });
+
+  it('dropbox 内容哈希为每 4 MiB 块 SHA-256 拼接后的 SHA-256', async () => {
+    const block = 4 * 1024 * 1024;
+    const data = new Uint8Array(block + 1000).map((_, i) => i & 0xff);
+
+    const parts = [await sha256(data.subarray(0, block)), await sha256(data.subarray(block))];
+    const joined = new Uint8Array(64);
+    joined.set(parts[0]);
+    joined.set(parts[1], 32);
+    const expected = Array.from(await sha256(joined), b => b.toString(16).padStart(2, '0')).join('');
+
+    expect(digest('dropbox', data)).toBe(expected);
+    expect(digest('dropbox', '')).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+  });
+
+  it('hashBlob 对 Blob 和 Uint8Array 结果一致', async () => {
+    const data = encoder.encode('hello world');
+    const progress: number[] = [];
+    expect(await hashBlob(new Blob([data]), 'sha1', bytes => progress.push(bytes)))
+      .toBe('2aae6c35c94fcfb415dbe95f408b9ce91ee846ed');
+    expect(await hashBlob(data, 'sha1')).toBe('2aae6c35c94fcfb415dbe95f408b9ce91ee846ed');
+    expect(progress).toEqual([data.length]);
+  });
+
+  it('识别支持的算法', () => {
+    expect(isSupportedHashAlgorithm('sha256')).toBe(true);
+    expect(isSupportedHashAlgorithm('quickxor')).toBe(false);
+    expect(() => createHasher('quickxor' as HashAlgorithm)).toThrow('Unsupported hash algorithm');
+  });
+
+  it('hexToBytes', () => {
+    expect(Array.from(hexToBytes('00ff10a0'))).toEqual([0x00, 0xff, 0x10, 0xa0]);
+  });
+});
@@ -0,0 +1,446 @@
+/**
+ * 增量哈希算法
+ * WebCrypto 不支持 MD5/CRC32，也不支持增量计算，这里提供纯 TS 实现，
+ * 可在主线程和 Web Worker 中按块流式计算
+ */
+
+import type { ITransferOptions } from '../providers/base/ITransferOptions';
+
+/**
+ * 支持的哈希算法
+ */
+export type HashAlgorithm = NonNullable<ITransferOptions['hashAlgorithm']>;
+
+/**
+ * 已实现的哈希算法
+ */
+const SUPPORTED_ALGORITHMS: readonly HashAlgorithm[] = ['md5', 'sha1', 'sha256', 'crc32', 'dropbox'];
+
+/**
+ * 读取 Blob 时的分块大小
+ */
+const READ_BLOCK_SIZE = 4 * 1024 * 1024;
+
+/**
+ * Dropbox content_hash 的分块大小
+ */
+const DROPBOX_BLOCK_SIZE = 4 * 1024 * 1024;
+
+/**
+ * 增量哈希接口
+ */
+export interface IHasher {
+  update(data: Uint8Array): void;
+  digest(): string;              // 十六进制摘要
+}
+
+/**
+ * 是否支持该哈希算法（缓存的文件信息中可能带有其他算法的哈希）
+ */
+export function isSupportedHashAlgorithm(algorithm: string): algorithm is HashAlgorithm {
+  return (SUPPORTED_ALGORITHMS as readonly string[]).includes(algorithm);
+}
+
+/**
+ * 创建增量哈希
+ */
+export function createHasher(algorithm: HashAlgorithm): IHasher {
+  switch (algorithm) {
+    case 'md5':
+      return new Md5();
+    case 'sha1':
+      return new Sha1();
+    case 'sha256':
+      return new Sha256();
+    case 'crc32':
+      return new Crc32();
+    case 'dropbox':
+      return new DropboxContentHasher();
+    default:
+      throw new Error(`Unsupported hash algorithm: ${algorithm}`);
+  }
+}
+
+/**
+ * 分块读取 Blob 并计算哈希
+ */
+export async function hashBlob(
+  data: Blob | Uint8Array,
+  algorithm: HashAlgorithm,
+  onProgress?: (bytes: number) => void
+): Promise<string> {
+  const hasher = createHasher(algorithm);
+
+  if (data instanceof Uint8Array) {
+    hasher.update(data);
+    onProgress?.(data.length);
+    return hasher.digest();
+  }
+
+  for (let offset = 0; offset < data.size; offset += READ_BLOCK_SIZE) {
+    const block = data.slice(offset, offset + READ_BLOCK_SIZE);
+    hasher.update(new Uint8Array(await block.arrayBuffer()));
+    onProgress?.(Math.min(offset + READ_BLOCK_SIZE, data.size));
+  }
+
+  return hasher.digest();
+}
+
+/**
+ * 十六进制转字节
+ */
+export function hexToBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return bytes;
+}
+
+function toHex(bytes: Uint8Array): string {
+  let hex = '';
+  for (let i = 0; i < bytes.length; i++) {
+    hex += bytes[i].toString(16).padStart(2, '0');
+  }
+  return hex;
+}
+
+// ============================================
+// 分组哈希基类（MD5 / SHA-1 / SHA-256）
+// ============================================
+
+/**
+ * 64 字节分组的 Merkle–Damgård 哈希
+ */
+abstract class BlockHasher implements IHasher {
+  private block = new Uint8Array(64);
+  private blockView = new DataView(this.block.buffer);
+  private blockLength = 0;
+  private totalLength = 0;
+
+  constructor(private littleEndian: boolean) {}
+
+  update(data: Uint8Array): void {
+    this.totalLength += data.length;
+    let offset = 0;
+
+    while (offset < data.length) {
+      const take = Math.min(64 - this.blockLength, data.length - offset);
+      this.block.set(data.subarray(offset, offset + take), this.blockLength);
+      this.blockLength += take;
+      offset += take;
+
+      if (this.blockLength === 64) {
+        this.processBlock(this.blockView);
+        this.blockLength = 0;
+      }
+    }
+  }
+
+  digest(): string {
+    const bitLength = this.totalLength * 8;
+
+    // 填充：0x80 + 0x00... + 64 位消息长度
+    this.block[this.blockLength++] = 0x80;
+    if (this.blockLength > 56) {
+      this.block.fill(0, this.blockLength);
+      this.processBlock(this.blockView);
+      this.blockLength = 0;
+    }
+    this.block.fill(0, this.blockLength);
+
+    const high = Math.floor(bitLength / 0x100000000);
+    const low = bitLength >>> 0;
+    if (this.littleEndian) {
+      this.blockView.setUint32(56, low, true);
+      this.blockView.setUint32(60, high, true);
+    } else {
+      this.blockView.setUint32(56, high, false);
+      this.blockView.setUint32(60, low, false);
+    }
+    this.processBlock(this.blockView);
+
+    const state = this.getState();
+    const out = new Uint8Array(state.length * 4);
+    const view = new DataView(out.buffer);
+    state.forEach((word, i) => view.setUint32(i * 4, word, this.littleEndian));
+    return toHex(out);
+  }
+
+  protected abstract processBlock(view: DataView): void;
+
+  protected abstract getState(): number[];
+}
+
+// ============================================
+// MD5
+// ============================================
+
+const MD5_SHIFTS = [
+  7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22,
+  5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20,
+  4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23,
+  6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21,
+];
+
+const MD5_CONSTANTS = Array.from({ length: 64 }, (_, i) =>
+  Math.floor(Math.abs(Math.sin(i + 1)) * 0x100000000) >>> 0
+);
+
+class Md5 extends BlockHasher {
+  private state = [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476];
+  private words = new Uint32Array(16);
+
+  constructor() {
+    super(true);
+  }
+
+  protected processBlock(view: DataView): void {
+    const m = this.words;
+    for (let i = 0; i < 16; i++) {
+      m[i] = view.getUint32(i * 4, true);
+    }
+
+    let [a, b, c, d] = this.state;
+
+    for (let i = 0; i < 64; i++) {
+      let f: number;
+      let g: number;
+      if (i < 16) {
+        f = (b & c) | (~b & d);
+        g = i;
+      } else if (i < 32) {
+        f = (d & b) | (~d & c);
+        g = (5 * i + 1) % 16;
+      } else if (i < 48) {
+        f = b ^ c ^ d;
+        g = (3 * i + 5) % 16;
+      } else {
+        f = c ^ (b | ~d);
+        g = (7 * i) % 16;
+      }
+
+      const sum = (a + f + MD5_CONSTANTS[i] + m[g]) | 0;
+      a = d;
+      d = c;
+      c = b;
+      b = (b + ((sum << MD5_SHIFTS[i]) | (sum >>> (32 - MD5_SHIFTS[i])))) | 0;
+    }
+
+    this.state[0] = (this.state[0] + a) | 0;
+    this.state[1] = (this.state[1] + b) | 0;
+    this.state[2] = (this.state[2] + c) | 0;
+    this.state[3] = (this.state[3] + d) | 0;
+  }
+
+  protected getState(): number[] {
+    return this.state.map(word => word >>> 0);
+  }
+}
+
+// ============================================
+// SHA-1
+// ============================================
+
+class Sha1 extends BlockHasher {
+  private state = [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476, 0xc3d2e1f0];
+  private words = new Int32Array(80);
+
+  constructor() {
+    super(false);
+  }
+
+  protected processBlock(view: DataView): void {
+    const w = this.words;
+    for (let i = 0; i < 16; i++) {
+      w[i] = view.getInt32(i * 4, false);
+    }
+    for (let i = 16; i < 80; i++) {
+      const x = w[i - 3] ^ w[i - 8] ^ w[i - 14] ^ w[i - 16];
+      w[i] = (x << 1) | (x >>> 31);
+    }
+
+    let [a, b, c, d, e] = this.state;
+
+    for (let i = 0; i < 80; i++) {
+      let f: number;
+      let k: number;
+      if (i < 20) {
+        f = (b & c) | (~b & d);
+        k = 0x5a827999;
+      } else if (i < 40) {
+        f = b ^ c ^ d;
+        k = 0x6ed9eba1;
+      } else if (i < 60) {
+        f = (b & c) | (b & d) | (c & d);
+        k = 0x8f1bbcdc;
+      } else {
+        f = b ^ c ^ d;
+        k = 0xca62c1d6;
+      }
+
+      const temp = (((a << 5) | (a >>> 27)) + f + e + k + w[i]) | 0;
+      e = d;
+      d = c;
+      c = (b << 30) | (b >>> 2);
+      b = a;
+      a = temp;
+    }
+
+    this.state[0] = (this.state[0] + a) | 0;
+    this.state[1] = (this.state[1] + b) | 0;
+    this.state[2] = (this.state[2] + c) | 0;
+    this.state[3] = (this.state[3] + d) | 0;
+    this.state[4] = (this.state[4] + e) | 0;
+  }
+
+  protected getState(): number[] {
+    return this.state.map(word => word >>> 0);
+  }
+}
+
+// ============================================
+// SHA-256
+// ============================================
+
+const SHA256_CONSTANTS = [
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+];
+
+class Sha256 extends BlockHasher {
+  private state = [
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a,
+    0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+  ];
+  private words = new Int32Array(64);
+
+  constructor() {
+    super(false);
+  }
+
+  protected processBlock(view: DataView): void {
+    const w = this.words;
+    for (let i = 0; i < 16; i++) {
+      w[i] = view.getInt32(i * 4, false);
+    }
+    for (let i = 16; i < 64; i++) {
+      const x = w[i - 15];
+      const y = w[i - 2];
+      const s0 = ((x >>> 7) | (x << 25)) ^ ((x >>> 18) | (x << 14)) ^ (x >>> 3);
+      const s1 = ((y >>> 17) | (y << 15)) ^ ((y >>> 19) | (y << 13)) ^ (y >>> 10);
+      w[i] = (w[i - 16] + s0 + w[i - 7] + s1) | 0;
+    }
+
+    let [a, b, c, d, e, f, g, h] = this.state;
+
+    for (let i = 0; i < 64; i++) {
+      const s1 = ((e >>> 6) | (e << 26)) ^ ((e >>> 11) | (e << 21)) ^ ((e >>> 25) | (e << 7));
+      const ch = (e & f) ^ (~e & g);
+      const temp1 = (h + s1 + ch + SHA256_CONSTANTS[i] + w[i]) | 0;
+      const s0 = ((a >>> 2) | (a << 30)) ^ ((a >>> 13) | (a << 19)) ^ ((a >>> 22) | (a << 10));
+      const maj = (a & b) ^ (a & c) ^ (b & c);
+      const temp2 = (s0 + maj) | 0;
+
+      h = g;
+      g = f;
+      f = e;
+      e = (d + temp1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (temp1 + temp2) | 0;
+    }
+
+    this.state[0] = (this.state[0] + a) | 0;
+    this.state[1] = (this.state[1] + b) | 0;
+    this.state[2] = (this.state[2] + c) | 0;
+    this.state[3] = (this.state[3] + d) | 0;
+    this.state[4] = (this.state[4] + e) | 0;
+    this.state[5] = (this.state[5] + f) | 0;
+    this.state[6] = (this.state[6] + g) | 0;
+    this.state[7] = (this.state[7] + h) | 0;
+  }
+
+  protected getState(): number[] {
+    return this.state.map(word => word >>> 0);
+  }
+}
+
+// ============================================
+// CRC32
+// ============================================
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let c = i;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[i] = c >>> 0;
+  }
+  return table;
+})();
+
+class Crc32 implements IHasher {
+  private crc = 0xffffffff;
+
+  update(data: Uint8Array): void {
+    let crc = this.crc;
+    for (let i = 0; i < data.length; i++) {
+      crc = CRC32_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+    this.crc = crc;
+  }
+
+  digest(): string {
+    return ((this.crc ^ 0xffffffff) >>> 0).toString(16).padStart(8, '0');
+  }
+}
+
+// ============================================
+// Dropbox content_hash
+// ============================================
+
+/**
+ * 文件按 4MB 分块分别计算 SHA-256，再对各块摘要（二进制）拼接的结果计算 SHA-256
+ */
+class DropboxContentHasher implements IHasher {
+  private overall = new Sha256();
+  private block = new Sha256();
+  private blockLength = 0;
+
+  update(data: Uint8Array): void {
+    let offset = 0;
+    while (offset < data.length) {
+      const take = Math.min(DROPBOX_BLOCK_SIZE - this.blockLength, data.length - offset);
+      this.block.update(data.subarray(offset, offset + take));
+      this.blockLength += take;
+      offset += take;
+
+      if (this.blockLength === DROPBOX_BLOCK_SIZE) {
+        this.flushBlock();
+      }
+    }
+  }
+
+  digest(): string {
+    if (this.blockLength > 0) {
+      this.flushBlock();
+    }
+    return this.overall.digest();
+  }
+
+  private flushBlock(): void {
+    this.overall.update(hexToBytes(this.block.digest()));
+    this.block = new Sha256();
+    this.blockLength = 0;
+  }
+}
@@ -0,0 +1,285 @@
+/**
+ * 哈希计算服务
+ * 在 Web Worker 池中计算哈希，避免阻塞主线程；不支持 Worker 时回退到主线程
+ */
+
+import { createHasher, hashBlob, HashAlgorithm, IHasher } from './HashAlgorithms';
+import type { HashWorkerRequest, HashWorkerResponse } from './HashWorker';
+
+/**
+ * Worker 池最大数量
+ */
+const MAX_WORKERS = 4;
+
+/**
+ * 快速哈希的首尾采样大小
+ */
+const QUICK_HASH_SAMPLE_SIZE = 1024 * 1024;
+
+/**
+ * 增量哈希会话（按调用顺序追加数据）
+ */
+export interface IHashSession {
+  readonly algorithm: HashAlgorithm;
+  update(data: Blob | Uint8Array): void;
+  digest(): Promise<string>;
+  dispose(): void;
+}
+
+/**
+ * 池中的 Worker
+ */
+interface IPooledWorker {
+  worker: Worker;
+  load: number;                  // 未完成的请求数
+}
+
+/**
+ * 等待响应的请求
+ */
+interface IPendingRequest {
+  resolve: (hash: string) => void;
+  reject: (error: Error) => void;
+  onProgress?: (bytes: number) => void;
+  worker: IPooledWorker;
+}
+
+/**
+ * 哈希计算服务类
+ */
+export class HashService {
+  private static instance: HashService;
+  private workers: IPooledWorker[] = [];
+  private pending: Map<number, IPendingRequest> = new Map();
+  private nextId = 1;
+  private workerUnavailable = false;
+
+  private constructor() {}
+
+  /**
+   * 获取哈希服务单例
+   */
+  public static getInstance(): HashService {
+    if (!HashService.instance) {
+      HashService.instance = new HashService();
+    }
+    return HashService.instance;
+  }
+
+  /**
+   * 计算数据的哈希
+   * @returns 十六进制摘要
+   */
+  public hash(
+    data: Blob | Uint8Array,
+    algorithm: HashAlgorithm,
+    onProgress?: (bytes: number) => void
+  ): Promise<string> {
+    const pooled = this.acquireWorker();
+    if (!pooled) {
+      return hashBlob(data, algorithm, onProgress);
+    }
+
+    const id = this.nextId++;
+    return this.request(pooled, id, { type: 'hash', id, algorithm, data, reportProgress: !!onProgress }, onProgress);
+  }
+
+  /**
+   * 快速哈希：首尾各 1MB 的 SHA-256，用于秒传预检
+   */
+  public quickHash(file: Blob): Promise<string> {
+    const sample = file.size > QUICK_HASH_SAMPLE_SIZE * 2
+      ? new Blob([file.slice(0, QUICK_HASH_SAMPLE_SIZE), file.slice(file.size - QUICK_HASH_SAMPLE_SIZE)])
+      : file;
+    return this.hash(sample, 'sha256');
+  }
+
+  /**
+   * 创建增量哈希会话，会话固定在同一个 Worker 中按顺序处理
+   */
+  public createSession(algorithm: HashAlgorithm): IHashSession {
+    const pooled = this.acquireWorker();
+    if (!pooled) {
+      return new LocalHashSession(algorithm, createHasher(algorithm));
+    }
+
+    const sessionId = this.nextId++;
+    pooled.load++;
+    pooled.worker.postMessage({ type: 'open', sessionId, algorithm } as HashWorkerRequest);
+
+    let closed = false;
+    const release = () => {
+      if (!closed) {
+        closed = true;
+        pooled.load--;
+      }
+    };
+
+    return {
+      algorithm,
+      update: (data) => {
+        if (!closed) {
+          pooled.worker.postMessage({ type: 'update', sessionId, data } as HashWorkerRequest);
+        }
+      },
+      digest: () => {
+        if (closed) {
+          return Promise.reject(new Error('Hash session already closed'));
+        }
+        release();
+        const id = this.nextId++;
+        return this.request(pooled, id, { type: 'digest', id, sessionId });
+      },
+      dispose: () => {
+        if (!closed) {
+          pooled.worker.postMessage({ type: 'close', sessionId } as HashWorkerRequest);
+          release();
+        }
+      },
+    };
+  }
+
+  /**
+   * 终止所有 Worker
+   */
+  public dispose(): void {
+    for (const pooled of this.workers) {
+      pooled.worker.terminate();
+    }
+    this.workers = [];
+
+    for (const request of this.pending.values()) {
+      request.reject(new Error('Hash service disposed'));
+    }
+    this.pending.clear();
+  }
+
+  private request(
+    pooled: IPooledWorker,
+    id: number,
+    message: HashWorkerRequest,
+    onProgress?: (bytes: number) => void
+  ): Promise<string> {
+    return new Promise((resolve, reject) => {
+      pooled.load++;
+      this.pending.set(id, { resolve, reject, onProgress, worker: pooled });
+      pooled.worker.postMessage(message);
+    });
+  }
+
+  /**
+   * 选择负载最低的 Worker，未满时创建新的
+   */
+  private acquireWorker(): IPooledWorker | null {
+    if (this.workerUnavailable || typeof Worker === 'undefined') {
+      return null;
+    }
+
+    const idle = this.workers.find(pooled => pooled.load === 0);
+    if (idle) {
+      return idle;
+    }
+
+    const poolSize = Math.max(
+      1,
+      Math.min(MAX_WORKERS, (typeof navigator !== 'undefined' ? navigator.hardwareConcurrency : 2) - 1)
+    );
+    if (this.workers.length < poolSize) {
+      const created = this.spawnWorker();
+      if (created) {
+        return created;
+      }
+    }
+
+    if (this.workers.length === 0) {
+      return null;
+    }
+    return this.workers.reduce((least, pooled) => (pooled.load < least.load ? pooled : least));
+  }
+
+  private spawnWorker(): IPooledWorker | null {
+    try {
+      const worker = new Worker(new URL('./HashWorker.ts', import.meta.url), { type: 'module' });
+      const pooled: IPooledWorker = { worker, load: 0 };
+
+      worker.onmessage = (event: MessageEvent<HashWorkerResponse>) => this.handleMessage(event.data);
+      worker.onerror = (event) => {
+        console.error('Hash worker error:', event.message);
+        this.failWorker(pooled, new Error(event.message || 'Hash worker crashed'));
+      };
+
+      this.workers.push(pooled);
+      return pooled;
+    } catch (error) {
+      console.warn('Hash worker unavailable, hashing on main thread:', error);
+      this.workerUnavailable = true;
+      return null;
+    }
+  }
+
+  private handleMessage(message: HashWorkerResponse): void {
+    const request = this.pending.get(message.id);
+    if (!request) {
+      return;
+    }
+
+    switch (message.type) {
+      case 'progress':
+        request.onProgress?.(message.bytes);
+        break;
+      case 'result':
+        this.pending.delete(message.id);
+        request.worker.load--;
+        request.resolve(message.hash);
+        break;
+      case 'error':
+        this.pending.delete(message.id);
+        request.worker.load--;
+        request.reject(new Error(message.error));
+        break;
+    }
+  }
+
+  /**
+   * Worker 崩溃时拒绝其所有请求并移出池
+   */
+  private failWorker(pooled: IPooledWorker, error: Error): void {
+    for (const [id, request] of this.pending) {
+      if (request.worker === pooled) {
+        this.pending.delete(id);
+        request.reject(error);
+      }
+    }
+    pooled.worker.terminate();
+    this.workers = this.workers.filter(w => w !== pooled);
+  }
+}
+
+/**
+ * 主线程增量会话（不支持 Worker 时使用）
+ */
+class LocalHashSession implements IHashSession {
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(readonly algorithm: HashAlgorithm, private hasher: IHasher) {}
+
+  update(data: Blob | Uint8Array): void {
+    // 调用方可能随后转移缓冲区所有权，先复制
+    const copy = data instanceof Blob ? data : data.slice();
+    this.pending = this.pending.then(async () => {
+      this.hasher.update(copy instanceof Blob ? new Uint8Array(await copy.arrayBuffer()) : copy);
+    });
+  }
+
+  async digest(): Promise<string> {
+    await this.pending;
+    return this.hasher.digest();
+  }
+
+  dispose(): void {
+    this.pending = Promise.resolve();
+  }
+}
+
+// 导出单例实例
+export const hashService = HashService.getInstance();
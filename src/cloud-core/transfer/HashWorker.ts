@@ -0,0 +1,79 @@
+/**
+ * 哈希计算 Web Worker
+ * 由 HashService 创建，支持一次性计算和按顺序追加数据的增量会话
+ */
+
+import { createHasher, hashBlob, HashAlgorithm, IHasher } from './HashAlgorithms';
+
+/**
+ * Worker 请求消息
+ */
+export type HashWorkerRequest =
+  | { type: 'hash'; id: number; algorithm: HashAlgorithm; data: Blob | Uint8Array; reportProgress?: boolean }
+  | { type: 'open'; sessionId: number; algorithm: HashAlgorithm }
+  | { type: 'update'; sessionId: number; data: Blob | Uint8Array }
+  | { type: 'digest'; id: number; sessionId: number }
+  | { type: 'close'; sessionId: number };
+
+/**
+ * Worker 响应消息
+ */
+export type HashWorkerResponse =
+  | { type: 'result'; id: number; hash: string }
+  | { type: 'progress'; id: number; bytes: number }
+  | { type: 'error'; id: number; error: string };
+
+const ctx = self as unknown as Worker;
+
+// 增量会话：同一会话的数据按消息顺序串行处理
+const sessions = new Map<number, { hasher: IHasher; pending: Promise<void> }>();
+
+ctx.onmessage = (event: MessageEvent<HashWorkerRequest>) => {
+  const message = event.data;
+
+  switch (message.type) {
+    case 'hash':
+      hashBlob(
+        message.data,
+        message.algorithm,
+        message.reportProgress
+          ? bytes => ctx.postMessage({ type: 'progress', id: message.id, bytes } as HashWorkerResponse)
+          : undefined
+      )
+        .then(hash => ctx.postMessage({ type: 'result', id: message.id, hash } as HashWorkerResponse))
+        .catch(error => ctx.postMessage({ type: 'error', id: message.id, error: String(error?.message || error) } as HashWorkerResponse));
+      break;
+
+    case 'open':
+      sessions.set(message.sessionId, { hasher: createHasher(message.algorithm), pending: Promise.resolve() });
+      break;
+
+    case 'update': {
+      const session = sessions.get(message.sessionId);
+      if (session) {
+        const data = message.data;
+        session.pending = session.pending.then(async () => {
+          session.hasher.update(data instanceof Blob ? new Uint8Array(await data.arrayBuffer()) : data);
+        });
+      }
+      break;
+    }
+
+    case 'digest': {
+      const session = sessions.get(message.sessionId);
+      if (!session) {
+        ctx.postMessage({ type: 'error', id: message.id, error: 'Hash session not found' } as HashWorkerResponse);
+        break;
+      }
+      session.pending
+        .then(() => ctx.postMessage({ type: 'result', id: message.id, hash: session.hasher.digest() } as HashWorkerResponse))
+        .catch(error => ctx.postMessage({ type: 'error', id: message.id, error: String(error?.message || error) } as HashWorkerResponse))
+        .finally(() => sessions.delete(message.sessionId));
+      break;
+    }
+
+    case 'close':
+      sessions.delete(message.sessionId);
+      break;
+  }
+};
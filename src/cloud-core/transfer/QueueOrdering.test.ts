@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { orderQueue, getSmartScore, DEFAULT_AGING_INTERVAL } from './QueueOrdering';
+import { ITransferTask, TransferPriority } from '../providers/base/ITransferOptions';
+
+const MB = 1024 * 1024;
+const NOW = Date.parse('2024-06-01T12:00:00Z');
+
+const createTask = (
+  id: string,
+  priority: TransferPriority,
+  { fileSize = MB, transferred = 0, waited = 0 }: { fileSize?: number; transferred?: number; waited?: number } = {}
+) => ({
+  id,
+  priority,
+  fileSize,
+  progress: { transferred, percentage: fileSize > 0 ? (transferred / fileSize) * 100 : 0 },
+  createdAt: new Date(NOW - waited),
+}) as ITransferTask;
+
+const ids = (tasks: ITransferTask[]) => tasks.map(task => task.id);
+
+describe('orderQueue', () => {
+  const tasks = [
+    createTask('low', TransferPriority.LOW),
+    createTask('urgent', TransferPriority.URGENT),
+    createTask('normal-1', TransferPriority.NORMAL),
+    createTask('normal-2', TransferPriority.NORMAL),
+  ];
+
+  it('先进先出模式保持加入顺序', () => {
+    expect(ids(orderQueue(tasks, 'fifo', { now: NOW }))).toEqual(['low', 'urgent', 'normal-1', 'normal-2']);
+  });
+
+  it('优先级模式按优先级排序，同级保持加入顺序', () => {
+    expect(ids(orderQueue(tasks, 'priority', { now: NOW }))).toEqual(['urgent', 'normal-1', 'normal-2', 'low']);
+  });
+
+  it('手动调整过位置的任务排在最前', () => {
+    const pinned = new Map([['normal-2', 0], ['low', 1]]);
+    expect(ids(orderQueue(tasks, 'priority', { pinned, now: NOW }))).toEqual(['normal-2', 'low', 'urgent', 'normal-1']);
+  });
+
+  it('不修改原数组', () => {
+    orderQueue(tasks, 'priority', { now: NOW });
+    expect(ids(tasks)).toEqual(['low', 'urgent', 'normal-1', 'normal-2']);
+  });
+
+  describe('智能模式', () => {
+    it('同一优先级时小文件和接近完成的任务优先', () => {
+      const ordered = orderQueue([
+        createTask('large', TransferPriority.NORMAL, { fileSize: 1024 * MB }),
+        createTask('half-done', TransferPriority.NORMAL, { fileSize: 1024 * MB, transferred: 512 * MB }),
+        createTask('small', TransferPriority.NORMAL, { fileSize: 10 * 1024 }),
+      ], 'smart', { now: NOW });
+
+      expect(ids(ordered)).toEqual(['small', 'half-done', 'large']);
+    });
+
+    it('文件大小和进度的加分不超过一级优先级', () => {
+      const ordered = orderQueue([
+        createTask('tiny-low', TransferPriority.LOW, { fileSize: 1 }),
+        createTask('huge-normal', TransferPriority.NORMAL, { fileSize: 100 * 1024 * MB }),
+      ], 'smart', { now: NOW });
+
+      expect(ids(ordered)).toEqual(['huge-normal', 'tiny-low']);
+    });
+
+    it('等待时间越长分数越高，低优先级任务不会一直等待', () => {
+      const waiting = createTask('waiting-low', TransferPriority.LOW, { fileSize: 1024 * MB, waited: 3 * DEFAULT_AGING_INTERVAL });
+      const fresh = createTask('fresh-high', TransferPriority.HIGH, { fileSize: 1024 * MB });
+
+      expect(ids(orderQueue([fresh, waiting], 'smart', { now: NOW }))).toEqual(['waiting-low', 'fresh-high']);
+      // 老化间隔更长时仍按优先级
+      expect(ids(orderQueue([fresh, waiting], 'smart', { now: NOW, agingInterval: 10 * DEFAULT_AGING_INTERVAL })))
+        .toEqual(['fresh-high', 'waiting-low']);
+    });
+
+    it('恢复的任务从恢复时间开始计算等待', () => {
+      const task = createTask('resumed', TransferPriority.NORMAL, { waited: 10 * DEFAULT_AGING_INTERVAL });
+      const before = getSmartScore(task, NOW);
+      task.resumedAt = new Date(NOW);
+
+      expect(before - getSmartScore(task, NOW)).toBeCloseTo(10);
+    });
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * 传输队列排序
+ * 按队列模式（先进先出、优先级、智能）决定排队任务的启动顺序
+ */
+
+import { ITransferTask, ITransferQueueConfig } from '../providers/base/ITransferOptions';
+
+/**
+ * 排序选项
+ */
+export interface IQueueOrderOptions {
+  pinned?: Map<string, number>;  // 手动调整过位置的任务（数值越小越靠前）
+  agingInterval?: number;        // 智能模式下每等待多久提升一级优先级（毫秒）
+  now?: number;                  // 当前时间（毫秒）
+}
+
+/**
+ * 智能模式默认老化间隔：每等待 1 分钟相当于提升一级优先级
+ */
+export const DEFAULT_AGING_INTERVAL = 60 * 1000;
+
+/**
+ * 智能模式中"小文件"的参考大小
+ */
+const SMALL_FILE_SIZE = 1024 * 1024;
+
+/**
+ * 按队列模式排序任务（不修改原数组）
+ * 手动调整过位置的任务始终排在最前；其余任务按模式排序，相同时保持加入队列的顺序
+ */
+export function orderQueue(
+  tasks: ITransferTask[],
+  mode: ITransferQueueConfig['priorityMode'],
+  options: IQueueOrderOptions = {}
+): ITransferTask[] {
+  const pinned = options.pinned;
+  const now = options.now ?? Date.now();
+  const agingInterval = options.agingInterval || DEFAULT_AGING_INTERVAL;
+
+  // 智能模式的分数在排序前计算一次，避免比较过程中时间变化
+  const scores = mode === 'smart'
+    ? new Map(tasks.map(task => [task.id, getSmartScore(task, now, agingInterval)]))
+    : undefined;
+
+  return [...tasks].sort((a, b) => {
+    const pinA = pinned?.get(a.id);
+    const pinB = pinned?.get(b.id);
+    if (pinA !== undefined || pinB !== undefined) {
+      return (pinA ?? Infinity) - (pinB ?? Infinity);
+    }
+
+    if (mode === 'priority') {
+      return b.priority - a.priority;
+    }
+    if (scores) {
+      return scores.get(b.id)! - scores.get(a.id)!;
+    }
+    return 0;
+  });
+}
+
+/**
+ * 智能模式分数
+ * 以优先级为基础，剩余字节越少、进度越高加分越多（合计不超过一级），
+ * 等待时间按老化间隔持续加分，保证大文件和低优先级任务不会一直等待
+ */
+export function getSmartScore(task: ITransferTask, now: number, agingInterval: number = DEFAULT_AGING_INTERVAL): number {
+  const remaining = Math.max(0, task.fileSize - task.progress.transferred);
+  const smallBonus = 1 / (1 + Math.log2(1 + remaining / SMALL_FILE_SIZE));
+  const progressBonus = Math.min(100, Math.max(0, task.progress.percentage)) / 100;
+
+  const waitingSince = new Date(task.resumedAt ?? task.createdAt).getTime();
+  const aging = Number.isFinite(waitingSince) ? Math.max(0, now - waitingSince) / agingInterval : 0;
+
+  return task.priority + (smallBonus + progressBonus) / 2 + aging;
+}
@@ -0,0 +1,215 @@
+/**
+ * 远程链接读取
+ * 离线下载任务的链接探测、分段读取，以及提供商服务端离线下载功能的获取
+ */
+
+import { IStorageProvider, IRemoteFetchFeature } from '../providers/base/IStorageProvider';
+import { createHttpError } from './RetryPolicy';
+
+/**
+ * 远程文件信息（探测失败的字段为空）
+ */
+export interface IRemoteFileInfo {
+  url: string;                   // 链接
+  fileName: string;              // 文件名（Content-Disposition 或链接路径）
+  size?: number;                 // 文件大小
+  mimeType?: string;             // MIME类型
+  acceptRanges: boolean;         // 是否支持范围请求
+  etag?: string;                 // ETag
+  lastModified?: string;         // Last-Modified
+}
+
+/**
+ * 打开的远程文件
+ */
+export interface IRemoteSource {
+  offset: number;                // 响应数据的起始位置（服务器忽略 Range 时为 0）
+  info: IRemoteFileInfo;         // 响应中的文件信息
+  read(size: number): Promise<Uint8Array[]>;
+  close(): void;
+}
+
+/**
+ * 无法从链接推断文件名时的默认名称
+ */
+const DEFAULT_FILE_NAME = 'download';
+
+/**
+ * 校验离线下载链接（只支持 http/https）
+ */
+export function validateRemoteUrl(url: string): URL {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error(`Invalid URL: ${url}`);
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new Error(`Unsupported URL protocol: ${parsed.protocol}`);
+  }
+  return parsed;
+}
+
+/**
+ * 探测远程文件的名称、大小和范围请求支持
+ * 服务器不允许 HEAD 或跨域读取时返回只包含链接文件名的信息，不抛出异常
+ */
+export async function probeRemoteFile(url: string, signal?: AbortSignal): Promise<IRemoteFileInfo> {
+  try {
+    const response = await fetch(url, { method: 'HEAD', signal });
+    if (response.ok) {
+      return toRemoteFileInfo(url, response);
+    }
+  } catch (error) {
+    if (signal?.aborted) {
+      throw error;
+    }
+  }
+
+  return { url, fileName: getFileNameFromUrl(url), acceptRanges: false };
+}
+
+/**
+ * 从指定位置读取远程文件
+ * 恢复时带上 If-Range，文件已变化或服务器不支持范围请求时从头返回（offset 为 0）
+ */
+export async function openRemoteFile(
+  url: string,
+  offset: number,
+  signal: AbortSignal,
+  validator?: string
+): Promise<IRemoteSource> {
+  const headers = new Headers();
+  if (offset > 0) {
+    headers.set('Range', `bytes=${offset}-`);
+    if (validator) {
+      headers.set('If-Range', validator);
+    }
+  }
+
+  const response = await fetch(url, { headers, signal });
+  if (!response.ok) {
+    throw createHttpError(response, `Failed to fetch ${url} (${response.status}): ${response.statusText}`);
+  }
+  if (!response.body) {
+    throw new Error('Streaming response body is not supported');
+  }
+
+  const reader = response.body.getReader();
+  let buffered: Uint8Array | undefined;
+
+  return {
+    offset: response.status === 206 ? offset : 0,
+    info: toRemoteFileInfo(url, response),
+
+    async read(size: number): Promise<Uint8Array[]> {
+      const parts: Uint8Array[] = [];
+      let received = 0;
+
+      while (received < size) {
+        let value = buffered;
+        buffered = undefined;
+        if (!value) {
+          const result = await reader.read();
+          if (result.done) {
+            break;
+          }
+          value = result.value;
+        }
+
+        // 超出本次读取长度的部分留给下一次
+        const needed = size - received;
+        if (value.length > needed) {
+          buffered = value.subarray(needed);
+          value = value.subarray(0, needed);
+        }
+        parts.push(value);
+        received += value.length;
+      }
+
+      return parts;
+    },
+
+    close(): void {
+      reader.cancel().catch(() => undefined);
+    },
+  };
+}
+
+/**
+ * 获取提供商的服务端离线下载功能（未实现时返回 undefined）
+ */
+export function getRemoteFetchFeature(provider: IStorageProvider): IRemoteFetchFeature | undefined {
+  try {
+    const feature = provider.getFeature('remoteFetch');
+    return feature && typeof feature.start === 'function' && typeof feature.getStatus === 'function'
+      ? feature
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * 从链接路径推断文件名
+ */
+export function getFileNameFromUrl(url: string): string {
+  try {
+    const segment = new URL(url).pathname.split('/').filter(Boolean).pop();
+    return sanitizeFileName(segment ? decodeURIComponent(segment) : '');
+  } catch {
+    return DEFAULT_FILE_NAME;
+  }
+}
+
+/**
+ * 解析 Content-Disposition 中的文件名（优先 RFC 5987 的 filename*）
+ */
+export function parseContentDisposition(header: string | null): string | undefined {
+  if (!header) {
+    return undefined;
+  }
+
+  const extended = /filename\*\s*=\s*([^']*)'[^']*'([^;]+)/i.exec(header);
+  if (extended) {
+    try {
+      return decodeURIComponent(extended[2].trim());
+    } catch {
+      // 编码无效时使用普通文件名
+    }
+  }
+
+  const plain = /filename\s*=\s*("([^"]*)"|[^;]+)/i.exec(header);
+  return plain ? (plain[2] ?? plain[1]).trim() : undefined;
+}
+
+function toRemoteFileInfo(url: string, response: Response): IRemoteFileInfo {
+  const headers = response.headers;
+  const range = /\/(\d+)\s*$/.exec(headers.get('Content-Range') || '');
+  const length = headers.get('Content-Length');
+  const size = range
+    ? Number(range[1])
+    : response.status !== 206 && length !== null && headers.get('Content-Encoding') === null
+      ? Number(length)
+      : undefined;
+
+  const disposition = parseContentDisposition(headers.get('Content-Disposition'));
+
+  return {
+    url,
+    fileName: disposition ? sanitizeFileName(disposition) : getFileNameFromUrl(response.url || url),
+    size: size !== undefined && Number.isFinite(size) ? size : undefined,
+    mimeType: headers.get('Content-Type')?.split(';')[0].trim() || undefined,
+    acceptRanges: response.status === 206 || headers.get('Accept-Ranges')?.toLowerCase() === 'bytes',
+    etag: headers.get('ETag') || undefined,
+    lastModified: headers.get('Last-Modified') || undefined,
+  };
+}
+
+/**
+ * 去掉文件名中的路径分隔符和控制字符
+ */
+function sanitizeFileName(name: string): string {
+  const cleaned = name.replace(/[\\/\u0000-\u001f]/g, '_').trim();
+  return cleaned && cleaned !== '.' && cleaned !== '..' ? cleaned : DEFAULT_FILE_NAME;
+}
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { classifyError, createHttpError, getRetryDelay, parseRetryAfter } from './RetryPolicy';
+
+describe('classifyError', () => {
+  it.each([
+    [429, 'rate-limit', true],
+    [401, 'auth', true],
+    [507, 'quota', false],
+    [408, 'timeout', true],
+    [500, 'server', true],
+    [503, 'server', true],
+    [403, 'client', false],
+    [404, 'client', false],
+  ])('状态码 %i 归类为 %s', (status, kind, retryable) => {
+    const error = Object.assign(new Error('Request failed'), { status });
+    expect(classifyError(error)).toMatchObject({ kind, status, retryable });
+  });
+
+  it('带配额提示的 403 归类为配额不足', () => {
+    const error = Object.assign(new Error('Storage quota exceeded'), { status: 403 });
+    expect(classifyError(error)).toMatchObject({ kind: 'quota', retryable: false });
+  });
+
+  it('使用 createHttpError 带上的 Retry-After', () => {
+    const response = new Response(null, { status: 429, headers: { 'Retry-After': '3' } });
+    const error = createHttpError(response, 'API request failed (429): Too Many Requests');
+    expect(classifyError(error)).toMatchObject({ kind: 'rate-limit', status: 429, retryAfter: 3000 });
+  });
+
+  it('包装后丢失 status 的错误从 "failed (NNN): " 中识别状态码', () => {
+    const error = new Error('Upload failed: tus upload failed (503): Service Unavailable');
+    expect(classifyError(error)).toMatchObject({ kind: 'server', status: 503, retryable: true });
+  });
+
+  it('不把文件名中的括号数字当成状态码', () => {
+    expect(classifyError(new Error('Upload failed: report (404).pdf: network connection lost'))).toEqual({
+      kind: 'network',
+      retryable: true,
+    });
+    expect(classifyError(new Error('Checksum mismatch for backup (500).zip'))).toEqual({
+      kind: 'integrity',
+      retryable: true,
+    });
+    expect(classifyError(new Error('HTTP 404 Not Found.txt is locked')).status).toBeUndefined();
+  });
+
+  it('识别超时、网络和校验错误', () => {
+    expect(classifyError(new DOMException('The operation timed out.', 'TimeoutError')).kind).toBe('timeout');
+    expect(classifyError(new TypeError('Failed to fetch')).kind).toBe('network');
+    expect(classifyError(new Error('Chunk 2 checksum mismatch: expected a, got b')).kind).toBe('integrity');
+    expect(classifyError(new Error('Something odd'))).toMatchObject({ kind: 'unknown', retryable: false });
+  });
+});
+
+describe('getRetryDelay', () => {
+  const options = { retryDelay: 1000, exponentialBackoff: true, maxRetryDelay: 10000 };
+
+  it('指数退避并在 [delay/2, delay] 内抖动', () => {
+    expect(getRetryDelay(options, 0, undefined, () => 0)).toBe(500);
+    expect(getRetryDelay(options, 0, undefined, () => 1)).toBe(1000);
+    expect(getRetryDelay(options, 2, undefined, () => 1)).toBe(4000);
+  });
+
+  it('不超过 maxRetryDelay', () => {
+    expect(getRetryDelay(options, 10, undefined, () => 1)).toBe(10000);
+  });
+
+  it('关闭指数退避时使用固定间隔', () => {
+    expect(getRetryDelay({ ...options, exponentialBackoff: false }, 5, undefined, () => 1)).toBe(1000);
+  });
+
+  it('至少等待服务端要求的 Retry-After', () => {
+    const classification = classifyError(Object.assign(new Error('Too many'), { status: 429, retryAfter: 30000 }));
+    expect(getRetryDelay(options, 0, classification, () => 1)).toBe(30000);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('解析秒数和 HTTP 日期', () => {
+    const now = Date.parse('2024-01-01T00:00:00Z');
+    expect(parseRetryAfter('120')).toBe(120000);
+    expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:05 GMT', now)).toBe(5000);
+    expect(parseRetryAfter('soon')).toBeUndefined();
+    expect(parseRetryAfter(null)).toBeUndefined();
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * 重试策略
+ * 对传输失败进行分类，只重试暂时性错误，并按指数退避加随机抖动计算等待时间
+ */
+
+import { ITransferOptions, TransferErrorKind } from '../providers/base/ITransferOptions';
+
+/**
+ * 错误分类结果
+ */
+export interface IErrorClassification {
+  kind: TransferErrorKind;       // 错误类型
+  retryable: boolean;            // 是否值得重试
+  status?: number;               // HTTP 状态码
+  retryAfter?: number;           // 服务端要求的等待时间（毫秒）
+}
+
+/**
+ * 带 HTTP 状态的错误（提供商抛出，供分类使用）
+ */
+export interface IHttpError extends Error {
+  status?: number;               // HTTP 状态码
+  retryAfter?: number;           // Retry-After（毫秒）
+}
+
+/**
+ * 未配置 maxRetryDelay 时的最大重试等待
+ */
+export const DEFAULT_MAX_RETRY_DELAY = 60 * 1000;
+
+/**
+ * 可重试的错误类型（认证错误需先刷新令牌）
+ */
+const RETRYABLE_KINDS: ReadonlySet<TransferErrorKind> = new Set<TransferErrorKind>([
+  'network',
+  'timeout',
+  'server',
+  'rate-limit',
+  'auth',
+  'integrity',
+]);
+
+/**
+ * 根据响应创建带状态码和 Retry-After 的错误
+ */
+export function createHttpError(response: Response, message: string): IHttpError {
+  return Object.assign(new Error(message), {
+    status: response.status,
+    retryAfter: parseRetryAfter(response.headers.get('Retry-After')),
+  });
+}
+
+/**
+ * 解析 Retry-After（秒数或 HTTP 日期）
+ * @returns 等待毫秒数，无法解析时返回 undefined
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.round(Number(trimmed) * 1000);
+  }
+
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * 对错误进行分类
+ * 优先使用错误上的 status/retryAfter，其次从错误名称和消息中识别
+ */
+export function classifyError(error: unknown): IErrorClassification {
+  const err = error as IHttpError | undefined;
+  const message = String(err?.message ?? error ?? '');
+  const status = err?.status ?? parseStatus(message);
+
+  if (status !== undefined) {
+    return classifyStatus(status, message, err?.retryAfter);
+  }
+
+  if (err?.name === 'AbortError' || err?.name === 'TimeoutError' || /timed? ?out/i.test(message)) {
+    return withRetryable({ kind: 'timeout' });
+  }
+  if (/quota|insufficient storage|not enough space/i.test(message)) {
+    return withRetryable({ kind: 'quota' });
+  }
+  if (/checksum mismatch|size mismatch|hash mismatch/i.test(message)) {
+    return withRetryable({ kind: 'integrity' });
+  }
+  if (
+    err?.name === 'TypeError' && /fetch|network|load failed|terminated/i.test(message) ||
+    /network|failed to fetch|connection|ECONNRESET|ETIMEDOUT|socket/i.test(message)
+  ) {
+    return withRetryable({ kind: 'network' });
+  }
+
+  return withRetryable({ kind: 'unknown' });
+}
+
+/**
+ * 计算第 attempt 次重试（从 0 开始）前的等待时间
+ * 在 [delay/2, delay] 内随机抖动，避免大量任务同时重试；
+ * 服务端给出 Retry-After 时至少等待该时长
+ */
+export function getRetryDelay(
+  options: Pick<ITransferOptions, 'retryDelay' | 'exponentialBackoff' | 'maxRetryDelay'>,
+  attempt: number,
+  classification?: IErrorClassification,
+  random: () => number = Math.random
+): number {
+  const base = Math.max(0, options.retryDelay || 0);
+  const max = options.maxRetryDelay || DEFAULT_MAX_RETRY_DELAY;
+  const exponential = options.exponentialBackoff ? base * Math.pow(2, Math.max(0, attempt)) : base;
+  const capped = Math.min(exponential, max);
+  const delay = capped / 2 + random() * (capped / 2);
+
+  const retryAfter = classification?.retryAfter;
+  return retryAfter !== undefined ? Math.max(delay, retryAfter) : delay;
+}
+
+/**
+ * 可中止的等待
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function classifyStatus(status: number, message: string, retryAfter?: number): IErrorClassification {
+  if (status === 429) {
+    return withRetryable({ kind: 'rate-limit', status, retryAfter });
+  }
+  if (status === 401) {
+    return withRetryable({ kind: 'auth', status });
+  }
+  if (status === 507 || /quota|insufficient storage/i.test(message)) {
+    return withRetryable({ kind: 'quota', status });
+  }
+  if (status === 408) {
+    return withRetryable({ kind: 'timeout', status, retryAfter });
+  }
+  if (status >= 500) {
+    return withRetryable({ kind: 'server', status, retryAfter });
+  }
+  if (status >= 400) {
+    return withRetryable({ kind: 'client', status });
+  }
+  return withRetryable({ kind: 'unknown', status });
+}
+
+function withRetryable(classification: Omit<IErrorClassification, 'retryable'>): IErrorClassification {
+  return { ...classification, retryable: RETRYABLE_KINDS.has(classification.kind) };
+}
+
+/**
+ * 从 createHttpError 生成的 "... failed (503): ..." 消息中提取状态码
+ * 错误被包装后丢失 status 时使用；只匹配这一格式，避免把文件名中的 "(404)" 当成状态码
+ */
+function parseStatus(message: string): number | undefined {
+  const match = /\bfailed \(([45]\d{2})\): /.exec(message);
+  return match ? Number(match[1]) : undefined;
+}
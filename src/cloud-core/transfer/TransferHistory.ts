@@ -0,0 +1,493 @@
+/**
+ * 传输历史
+ * 将结束的传输任务和文件打开记录保存到 IndexedDB，供最近文件和传输记录查询、导出
+ */
+
+import {
+  ITransferTask,
+  ITransferHistory,
+  TransferType,
+  TransferStatus,
+} from '../providers/base/ITransferOptions';
+import { IFileItem } from '../providers/base/IFileItem';
+
+/**
+ * 对象仓库名称
+ */
+const TRANSFERS_STORE = 'transfers';
+const OPENS_STORE = 'opens';
+
+/**
+ * 历史记录保留配置
+ */
+export interface ITransferHistoryConfig {
+  dbName: string;                // IndexedDB数据库名称
+  maxEntries: number;            // 每类记录最多保留条数（0表示不限制）
+  maxAge: number;                // 记录保留时长（毫秒，0表示不限制）
+}
+
+/**
+ * 传输记录查询条件（时间范围按结束时间，包含 from、不包含 to）
+ */
+export interface ITransferHistoryQuery {
+  from?: Date;                   // 开始时间
+  to?: Date;                     // 结束时间
+  providerId?: string;           // 提供商ID（源或目标）
+  status?: TransferStatus | TransferStatus[]; // 任务状态
+  type?: TransferType | TransferType[]; // 传输类型
+  fileType?: string | string[];  // 文件类型
+  keyword?: string;              // 文件名关键字
+  offset?: number;               // 跳过条数
+  limit?: number;                // 最多返回条数
+}
+
+/**
+ * 文件打开记录（同一文件只保留最近一次）
+ */
+export interface IFileOpenRecord {
+  id: string;                    // 提供商ID + 文件ID
+  fileId: string;                // 文件ID
+  providerId: string;            // 提供商ID
+  fileName: string;              // 文件名
+  filePath: string;              // 文件路径
+  fileType: string;              // 文件类型
+  fileSize: number;              // 文件大小
+  mimeType?: string;             // MIME类型
+  openedAt: Date;                // 打开时间
+}
+
+/**
+ * 最近文件（合并文件打开记录和成功的传输记录）
+ */
+export interface IRecentFile {
+  key: string;                   // 去重键
+  fileId?: string;               // 文件ID
+  providerId: string;            // 提供商ID
+  fileName: string;              // 文件名
+  filePath: string;              // 文件路径
+  fileType: string;              // 文件类型
+  fileSize: number;              // 文件大小
+  accessedAt: Date;              // 最近访问时间
+  action: 'open' | TransferType; // 最近一次访问方式
+}
+
+/**
+ * 默认配置：保留 90 天内最多 1000 条记录
+ */
+const DEFAULT_HISTORY_CONFIG: ITransferHistoryConfig = {
+  dbName: 'cloud-transfer-history',
+  maxEntries: 1000,
+  maxAge: 90 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * CSV 导出列
+ */
+const CSV_COLUMNS: Array<keyof ITransferHistory> = [
+  'taskId', 'type', 'status', 'fileName', 'filePath', 'fileType', 'fileSize',
+  'providerId', 'targetProviderId', 'startedAt', 'finishedAt', 'duration',
+  'averageSpeed', 'transferredBytes', 'error',
+];
+
+/**
+ * 由结束的任务生成历史记录
+ */
+export function createHistoryEntry(task: ITransferTask): ITransferHistory {
+  const finishedAt = task.completedAt ? new Date(task.completedAt) : new Date();
+  const startedAt = new Date(task.startedAt ?? task.createdAt);
+  const duration = Math.max(0, (finishedAt.getTime() - startedAt.getTime()) / 1000);
+  const transferredBytes = task.progress.transferred;
+  const isUpload = task.type === TransferType.UPLOAD || task.type === TransferType.FETCH;
+  const isRelay = task.type === TransferType.COPY || task.type === TransferType.MOVE;
+
+  return {
+    taskId: task.id,
+    type: task.type,
+    fileName: task.fileName,
+    filePath: isUpload ? task.result?.filePath ?? task.destination.path : task.source.path,
+    fileSize: task.fileSize,
+    fileType: task.fileType,
+    mimeType: task.mimeType,
+    fileId: isUpload || isRelay ? task.destination.fileId : task.source.fileId,
+    providerId: isUpload ? task.destination.providerId : task.source.providerId,
+    targetProviderId: isRelay ? task.destination.providerId : undefined,
+    groupId: task.groupId,
+    status: task.status,
+    startedAt,
+    completedAt: task.status === TransferStatus.COMPLETED ? finishedAt : undefined,
+    finishedAt,
+    duration,
+    averageSpeed: task.progress.speed.average || (duration > 0 ? transferredBytes / duration : 0),
+    transferredBytes,
+    success: task.status === TransferStatus.COMPLETED,
+    error: task.errorMessage,
+  };
+}
+
+/**
+ * 将历史记录转换为 CSV
+ */
+export function toHistoryCsv(entries: ITransferHistory[]): string {
+  const rows = entries.map(entry => CSV_COLUMNS.map(column => toCsvCell(entry[column])).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+}
+
+/**
+ * 传输历史存储类
+ */
+export class TransferHistory {
+  private static instance: TransferHistory;
+  private config: ITransferHistoryConfig;
+  private db: IDBDatabase | null = null;
+  private pruning: Promise<void> = Promise.resolve();
+
+  private constructor(config: Partial<ITransferHistoryConfig> = {}) {
+    this.config = { ...DEFAULT_HISTORY_CONFIG, ...config };
+  }
+
+  /**
+   * 获取传输历史单例
+   */
+  public static getInstance(config?: Partial<ITransferHistoryConfig>): TransferHistory {
+    if (!TransferHistory.instance) {
+      TransferHistory.instance = new TransferHistory(config);
+    }
+    return TransferHistory.instance;
+  }
+
+  /**
+   * 更新保留配置（数据库名称创建后不再变化）
+   */
+  public updateConfig(config: Partial<Omit<ITransferHistoryConfig, 'dbName'>>): void {
+    this.config = { ...this.config, ...config };
+    this.schedulePrune();
+  }
+
+  /**
+   * 是否可用（非浏览器环境或隐私模式下可能不可用）
+   */
+  public isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  /**
+   * 记录结束的传输任务
+   */
+  public async record(task: ITransferTask): Promise<void> {
+    await this.put(TRANSFERS_STORE, createHistoryEntry(task));
+    this.schedulePrune();
+  }
+
+  /**
+   * 记录文件打开
+   */
+  public async recordFileOpen(providerId: string, file: IFileItem): Promise<void> {
+    const record: IFileOpenRecord = {
+      id: `${providerId}:${file.id}`,
+      fileId: file.id,
+      providerId,
+      fileName: file.name,
+      filePath: file.path,
+      fileType: file.fileType,
+      fileSize: file.size,
+      mimeType: file.mimeType,
+      openedAt: new Date(),
+    };
+    await this.put(OPENS_STORE, record);
+    this.schedulePrune();
+  }
+
+  /**
+   * 查询传输记录（按结束时间倒序）
+   */
+  public async query(query: ITransferHistoryQuery = {}): Promise<ITransferHistory[]> {
+    const statuses = toList(query.status);
+    const types = toList(query.type);
+    const fileTypes = toList(query.fileType);
+    const keyword = query.keyword?.toLowerCase();
+
+    return this.scan<ITransferHistory>(TRANSFERS_STORE, 'finishedAt', query, entry => (
+      (!query.providerId || entry.providerId === query.providerId || entry.targetProviderId === query.providerId) &&
+      (!statuses || statuses.includes(entry.status)) &&
+      (!types || types.includes(entry.type)) &&
+      (!fileTypes || fileTypes.includes(entry.fileType)) &&
+      (!keyword || entry.fileName.toLowerCase().includes(keyword))
+    ));
+  }
+
+  /**
+   * 查询文件打开记录（按打开时间倒序）
+   */
+  public async queryFileOpens(
+    query: Pick<ITransferHistoryQuery, 'from' | 'to' | 'providerId' | 'fileType' | 'keyword' | 'offset' | 'limit'> = {}
+  ): Promise<IFileOpenRecord[]> {
+    const fileTypes = toList(query.fileType);
+    const keyword = query.keyword?.toLowerCase();
+
+    return this.scan<IFileOpenRecord>(OPENS_STORE, 'openedAt', query, record => (
+      (!query.providerId || record.providerId === query.providerId) &&
+      (!fileTypes || fileTypes.includes(record.fileType)) &&
+      (!keyword || record.fileName.toLowerCase().includes(keyword))
+    ));
+  }
+
+  /**
+   * 查询最近文件：合并文件打开记录和成功的上传/下载记录，同一文件只保留最近一次访问
+   */
+  public async getRecentFiles(
+    query: Pick<ITransferHistoryQuery, 'from' | 'to' | 'providerId' | 'fileType' | 'keyword' | 'limit'> = {}
+  ): Promise<IRecentFile[]> {
+    const { limit, ...range } = query;
+    const [opens, transfers] = await Promise.all([
+      this.queryFileOpens(range),
+      this.query({
+        ...range,
+        status: TransferStatus.COMPLETED,
+        type: [TransferType.UPLOAD, TransferType.DOWNLOAD],
+      }),
+    ]);
+
+    const recent = new Map<string, IRecentFile>();
+    const add = (file: IRecentFile) => {
+      const existing = recent.get(file.key);
+      if (!existing || existing.accessedAt < file.accessedAt) {
+        recent.set(file.key, file);
+      }
+    };
+
+    for (const record of opens) {
+      add({
+        key: `${record.providerId}:${record.fileId}`,
+        fileId: record.fileId,
+        providerId: record.providerId,
+        fileName: record.fileName,
+        filePath: record.filePath,
+        fileType: record.fileType,
+        fileSize: record.fileSize,
+        accessedAt: new Date(record.openedAt),
+        action: 'open',
+      });
+    }
+    for (const entry of transfers) {
+      add({
+        key: `${entry.providerId}:${entry.fileId ?? entry.filePath}`,
+        fileId: entry.fileId,
+        providerId: entry.providerId,
+        fileName: entry.fileName,
+        filePath: entry.filePath,
+        fileType: entry.fileType,
+        fileSize: entry.fileSize,
+        accessedAt: new Date(entry.finishedAt),
+        action: entry.type,
+      });
+    }
+
+    const files = Array.from(recent.values()).sort((a, b) => b.accessedAt.getTime() - a.accessedAt.getTime());
+    return limit ? files.slice(0, limit) : files;
+  }
+
+  /**
+   * 导出传输记录
+   */
+  public async export(format: 'csv' | 'json', query: ITransferHistoryQuery = {}): Promise<string> {
+    const entries = await this.query(query);
+    return format === 'csv' ? toHistoryCsv(entries) : JSON.stringify(entries, null, 2);
+  }
+
+  /**
+   * 删除单条传输记录
+   */
+  public async delete(taskId: string): Promise<void> {
+    const db = await this.open();
+    await this.request(db.transaction(TRANSFERS_STORE, 'readwrite').objectStore(TRANSFERS_STORE).delete(taskId));
+  }
+
+  /**
+   * 清空所有记录
+   */
+  public async clear(): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction([TRANSFERS_STORE, OPENS_STORE], 'readwrite');
+    await Promise.all([
+      this.request(transaction.objectStore(TRANSFERS_STORE).clear()),
+      this.request(transaction.objectStore(OPENS_STORE).clear()),
+    ]);
+  }
+
+  /**
+   * 按保留配置删除过期和超出数量的记录
+   */
+  public async prune(): Promise<void> {
+    const db = await this.open();
+    await this.pruneStore(db, TRANSFERS_STORE, 'finishedAt');
+    await this.pruneStore(db, OPENS_STORE, 'openedAt');
+  }
+
+  private async open(): Promise<IDBDatabase> {
+    if (this.db) {
+      return this.db;
+    }
+
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.config.dbName, 1);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        this.db = request.result;
+        resolve(this.db);
+      };
+
+      request.onupgradeneeded = (event) => {
+        const db = (event.target as IDBOpenDBRequest).result;
+        if (!db.objectStoreNames.contains(TRANSFERS_STORE)) {
+          const store = db.createObjectStore(TRANSFERS_STORE, { keyPath: 'taskId' });
+          store.createIndex('finishedAt', 'finishedAt', { unique: false });
+        }
+        if (!db.objectStoreNames.contains(OPENS_STORE)) {
+          const store = db.createObjectStore(OPENS_STORE, { keyPath: 'id' });
+          store.createIndex('openedAt', 'openedAt', { unique: false });
+        }
+      };
+    });
+  }
+
+  private async put(storeName: string, value: ITransferHistory | IFileOpenRecord): Promise<void> {
+    const db = await this.open();
+    await this.request(db.transaction(storeName, 'readwrite').objectStore(storeName).put(value));
+  }
+
+  private request<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve(request.result);
+    });
+  }
+
+  /**
+   * 按时间索引倒序遍历，时间范围由索引过滤，其余条件逐条过滤
+   */
+  private async scan<T>(
+    storeName: string,
+    indexName: string,
+    query: Pick<ITransferHistoryQuery, 'from' | 'to' | 'offset' | 'limit'>,
+    predicate: (value: T) => boolean
+  ): Promise<T[]> {
+    const db = await this.open();
+    const index = db.transaction(storeName, 'readonly').objectStore(storeName).index(indexName);
+    const range = toKeyRange(query.from, query.to);
+    const offset = query.offset ?? 0;
+    const limit = query.limit ?? Infinity;
+
+    return new Promise((resolve, reject) => {
+      const results: T[] = [];
+      let skipped = 0;
+      const request = index.openCursor(range, 'prev');
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor || results.length >= limit) {
+          resolve(results);
+          return;
+        }
+        if (predicate(cursor.value as T)) {
+          if (skipped < offset) {
+            skipped++;
+          } else {
+            results.push(cursor.value as T);
+          }
+        }
+        cursor.continue();
+      };
+    });
+  }
+
+  /**
+   * 删除超过保留时长的记录，再从最旧的开始删除超出数量的记录
+   */
+  private async pruneStore(db: IDBDatabase, storeName: string, indexName: string): Promise<void> {
+    const { maxAge, maxEntries } = this.config;
+    const cutoff = maxAge > 0 ? new Date(Date.now() - maxAge) : undefined;
+
+    const store = db.transaction(storeName, 'readwrite').objectStore(storeName);
+    const total = await this.request(store.count());
+    let excess = maxEntries > 0 ? total - maxEntries : 0;
+
+    if (!cutoff && excess <= 0) {
+      return;
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const request = store.index(indexName).openCursor();
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve();
+          return;
+        }
+        const time = (cursor.key as Date).getTime();
+        if (cutoff && time < cutoff.getTime()) {
+          cursor.delete();
+          excess--;
+          cursor.continue();
+        } else if (excess > 0) {
+          cursor.delete();
+          excess--;
+          cursor.continue();
+        } else {
+          resolve();
+        }
+      };
+    });
+  }
+
+  /**
+   * 串行执行清理，避免多个写入同时触发重复清理
+   */
+  private schedulePrune(): void {
+    this.pruning = this.pruning
+      .then(() => this.prune())
+      .catch(err => console.error('Error pruning transfer history:', err));
+  }
+}
+
+function toList<T>(value?: T | T[]): T[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  return Array.isArray(value) ? value : [value];
+}
+
+function toKeyRange(from?: Date, to?: Date): IDBKeyRange | undefined {
+  if (from && to) {
+    return IDBKeyRange.bound(from, to, false, true);
+  }
+  if (from) {
+    return IDBKeyRange.lowerBound(from);
+  }
+  if (to) {
+    return IDBKeyRange.upperBound(to, true);
+  }
+  return undefined;
+}
+
+/**
+ * CSV 单元格：日期输出 ISO 格式，以公式字符开头的文本加前缀防止表格软件执行
+ */
+function toCsvCell(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * 传输历史单例导出
+ */
+export const transferHistory = TransferHistory.getInstance();
@@ -0,0 +1,342 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { TransferManager, TransferTaskOptions } from './TransferManager';
+import { TransferPriority, TransferStatus, TransferType } from '../providers/base/ITransferOptions';
+import { providerRegistry } from '../providers/registry/ProviderRegistry';
+import { IPersistedTransfer } from './TransferStore';
+import { MemoryProvider } from '../testing/MemoryProvider';
+
+const CHUNK = 1024;
+
+/**
+ * 内容可辨认的测试文件
+ */
+const createFile = (size: number, name = 'data.bin') =>
+  new File([Uint8Array.from({ length: size }, (_, i) => i % 251)], name);
+
+/**
+ * 代替 IndexedDB 的任务存储，按结构化克隆保存记录
+ */
+class MemoryStore {
+  records: Map<string, IPersistedTransfer> = new Map();
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async getAll(): Promise<IPersistedTransfer[]> {
+    return Array.from(this.records.values()).map(record => structuredClone(record));
+  }
+
+  async save(record: IPersistedTransfer): Promise<void> {
+    this.records.set(record.id, structuredClone(record));
+  }
+
+  async delete(id: string): Promise<void> {
+    this.records.delete(id);
+  }
+}
+
+const httpError = (status: number) => Object.assign(new Error(`Upload failed (${status}): error`), { status });
+
+/**
+ * 测试选项：小分片、极短重试间隔、不计算哈希
+ */
+const taskOptions = (options: TransferTaskOptions = {}): TransferTaskOptions => ({
+  chunkSize: CHUNK,
+  adaptiveChunkSize: false,
+  retryDelay: 1,
+  verifyHash: false,
+  ...options,
+});
+
+describe('TransferManager', () => {
+  let manager: TransferManager;
+
+  beforeEach(() => {
+    manager = new (TransferManager as any)({ throttleDelay: 5 });
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    (manager as any).stopProcessing();
+    vi.restoreAllMocks();
+  });
+
+  /**
+   * 等待任务进入结束状态
+   */
+  const settle = async (taskId: string, status: TransferStatus) => {
+    await vi.waitFor(() => {
+      expect((manager as any).queue.get(taskId)?.status).toBe(status);
+    }, { timeout: 2000 });
+    return (manager as any).queue.get(taskId);
+  };
+
+  describe('重试', () => {
+    it('分片失败时只重传该分片', async () => {
+      const provider = new MemoryProvider({
+        beforeChunk: (chunk, attempt) => {
+          if (chunk.index === 1 && attempt === 0) {
+            throw httpError(503);
+          }
+        },
+      });
+      const file = createFile(4 * CHUNK);
+
+      const task = await manager.addTask(provider.asProvider(), TransferType.UPLOAD, file, taskOptions());
+      await settle(task.id, TransferStatus.COMPLETED);
+
+      expect(provider.calls.uploadChunk.sort()).toEqual([0, 1, 1, 2, 3]);
+      expect(provider.calls.initChunkUpload).toBe(1);
+      expect(task.retryCount).toBe(0);
+      expect(task.statistics.retriedChunks).toBe(1);
+      expect(provider.files.get('data.bin')!.data).toEqual(new Uint8Array(await file.arrayBuffer()));
+    });
+
+    it('分片重试用尽后整体重试，复用会话并跳过已完成的分片', async () => {
+      const provider = new MemoryProvider({
+        beforeChunk: (chunk, attempt) => {
+          if (chunk.index === 2 && attempt < 2) {
+            throw httpError(503);
+          }
+        },
+      });
+      const file = createFile(4 * CHUNK);
+
+      const task = await manager.addTask(provider.asProvider(), TransferType.UPLOAD, file, taskOptions({ maxRetries: 1 }));
+      await settle(task.id, TransferStatus.COMPLETED);
+
+      expect(task.retryCount).toBe(1);
+      expect(provider.calls.initChunkUpload).toBe(1);
+      expect(provider.calls.uploadChunk.filter(index => index !== 2).sort()).toEqual([0, 1, 3]);
+      expect(provider.files.get('data.bin')!.data).toEqual(new Uint8Array(await file.arrayBuffer()));
+    });
+
+    it('不可重试的错误直接失败，并中止任务的请求和分片会话', async () => {
+      let taskSignal: AbortSignal | undefined;
+      const provider = new MemoryProvider({
+        beforeChunk: () => {
+          // 任务可能在 addTask 返回前开始执行，此时队列中只有这一个任务
+          const [controller] = (manager as any).abortControllers.values();
+          taskSignal = controller?.signal;
+          throw httpError(403);
+        },
+      });
+      const onError = vi.fn();
+
+      const task = await manager.addTask(provider.asProvider(), TransferType.UPLOAD, createFile(2 * CHUNK), taskOptions({ onError }));
+      await settle(task.id, TransferStatus.FAILED);
+
+      expect(task.errorKind).toBe('client');
+      expect(task.retryCount).toBe(0);
+      expect(provider.calls.uploadChunk).toEqual([0]);
+      expect(provider.calls.abortChunkUpload).toBe(1);
+      expect(taskSignal?.aborted).toBe(true);
+      expect((manager as any).abortControllers.has(task.id)).toBe(false);
+      expect(onError).toHaveBeenCalledOnce();
+    });
+
+    it('认证失败时刷新令牌后重试', async () => {
+      const provider = new MemoryProvider({
+        beforeChunk: (chunk, attempt) => {
+          if (chunk.index === 0 && attempt === 0) {
+            throw httpError(401);
+          }
+        },
+      });
+
+      const task = await manager.addTask(provider.asProvider(), TransferType.UPLOAD, createFile(CHUNK + 1), taskOptions());
+      await settle(task.id, TransferStatus.COMPLETED);
+
+      expect(provider.calls.refreshAuth).toBe(1);
+    });
+
+    it('文件名中的括号数字不影响错误分类', async () => {
+      const provider = new MemoryProvider({
+        chunkUpload: false,
+        beforeUpload: (_file, options) => {
+          if (provider.calls.uploadFile === 1) {
+            throw new Error(`Upload failed: ${options.fileName}: network connection lost`);
+          }
+        },
+      });
+
+      const task = await manager.addTask(provider.asProvider(), TransferType.UPLOAD, createFile(10, 'report (404).pdf'), taskOptions());
+      await settle(task.id, TransferStatus.COMPLETED);
+
+      expect(task.retryCount).toBe(1);
+      expect(provider.files.has('report (404).pdf')).toBe(true);
+    });
+  });
+
+  describe('队列', () => {
+    beforeEach(() => {
+      (manager as any).stopProcessing();
+      manager = new (TransferManager as any)({ autoStart: false, maxQueueSize: 3 });
+    });
+
+    const addTasks = async (provider: MemoryProvider, priorities: TransferPriority[]) => {
+      const tasks = [];
+      for (const [index, priority] of priorities.entries()) {
+        tasks.push(await manager.addTask(provider.asProvider(), TransferType.UPLOAD, createFile(10, `${index}.bin`), taskOptions({ priority })));
+      }
+      return tasks;
+    };
+
+    it('队列已满时拒绝新任务', async () => {
+      const provider = new MemoryProvider();
+      await addTasks(provider, [TransferPriority.NORMAL, TransferPriority.NORMAL, TransferPriority.NORMAL]);
+
+      await expect(addTasks(provider, [TransferPriority.NORMAL])).rejects.toThrow('Transfer queue is full (max 3 tasks)');
+    });
+
+    it('队列已满时等待空位', async () => {
+      manager.updateConfig({ queueOverflow: 'wait' });
+      const provider = new MemoryProvider();
+      const [first] = await addTasks(provider, [TransferPriority.NORMAL, TransferPriority.NORMAL, TransferPriority.NORMAL]);
+
+      let added = false;
+      const waiting = addTasks(provider, [TransferPriority.NORMAL]).then(() => { added = true; });
+      await new Promise(resolve => setTimeout(resolve, 10));
+      expect(added).toBe(false);
+
+      await manager.cancelTask(first.id);
+      await waiting;
+      expect(manager.getQueuedTasks()).toHaveLength(3);
+    });
+
+    it('按优先级排列，手动调整的位置优先，修改优先级后取消手动位置', async () => {
+      const [low, normal, high] = await addTasks(new MemoryProvider(), [
+        TransferPriority.LOW,
+        TransferPriority.NORMAL,
+        TransferPriority.HIGH,
+      ]);
+      const order = () => manager.getQueuedTasks().map(task => task.id);
+
+      expect(order()).toEqual([high.id, normal.id, low.id]);
+
+      await manager.moveToTop(low.id);
+      expect(order()).toEqual([low.id, high.id, normal.id]);
+
+      await manager.reorder([normal.id, low.id]);
+      expect(order()).toEqual([normal.id, low.id, high.id]);
+
+      await manager.setPriority(normal.id, TransferPriority.LOW);
+      expect(order()).toEqual([low.id, high.id, normal.id]);
+    });
+  });
+
+  describe('上传冲突', () => {
+    it('跳过已存在的文件，不上传', async () => {
+      const provider = new MemoryProvider();
+      const existing = provider.addFile('data.bin', new Uint8Array([1, 2, 3]));
+
+      const task = await manager.addTask(provider.asProvider(), TransferType.UPLOAD, createFile(2 * CHUNK), taskOptions({ skipExisting: true }));
+      await settle(task.id, TransferStatus.COMPLETED);
+
+      expect(provider.calls.initChunkUpload).toBe(0);
+      expect(task.result).toMatchObject({ fileId: existing.id, metadata: { skipped: true } });
+      expect(provider.files.get('data.bin')!.data).toEqual(new Uint8Array([1, 2, 3]));
+    });
+
+    it('自动重命名后以新名称上传', async () => {
+      const provider = new MemoryProvider();
+      provider.addFile('data.bin');
+
+      const task = await manager.addTask(provider.asProvider(), TransferType.UPLOAD, createFile(2 * CHUNK), taskOptions({ renameIfExists: true }));
+      await settle(task.id, TransferStatus.COMPLETED);
+
+      expect(task.fileName).toBe('data (1).bin');
+      expect(provider.files.get('data (1).bin')!.data.length).toBe(2 * CHUNK);
+      expect(provider.files.get('data.bin')!.data.length).toBe(0);
+    });
+
+    it('没有界面处理冲突时覆盖', async () => {
+      const provider = new MemoryProvider();
+      provider.addFile('data.bin');
+
+      const task = await manager.addTask(provider.asProvider(), TransferType.UPLOAD, createFile(10), taskOptions());
+      await settle(task.id, TransferStatus.COMPLETED);
+
+      expect(task.options.overwrite).toBe(true);
+      expect(provider.files.get('data.bin')!.data.length).toBe(10);
+    });
+  });
+
+  describe('断点续传', () => {
+    const abortError = () => new DOMException('The operation was aborted.', 'AbortError');
+
+    let store: MemoryStore;
+    let provider: MemoryProvider;
+
+    beforeEach(() => {
+      store = new MemoryStore();
+      (manager as any).store = store;
+    });
+
+    afterEach(async () => {
+      await providerRegistry.removeInstance(provider.id);
+    });
+
+    /**
+     * 上传到第 3 个分片时暂停，模拟页面关闭前保存的状态
+     */
+    const interruptUpload = async (file: File) => {
+      provider = new MemoryProvider({
+        beforeChunk: async (chunk, attempt, signal) => {
+          if (chunk.index === 2 && attempt === 0) {
+            const [taskId] = store.records.keys();
+            await manager.pauseTask(taskId);
+            if (signal?.aborted) {
+              throw abortError();
+            }
+          }
+        },
+      });
+      providerRegistry.registerInstance(provider.id, provider.asProvider());
+
+      const task = await manager.addTask(provider.asProvider(), TransferType.UPLOAD, file, taskOptions());
+      await settle(task.id, TransferStatus.PAUSED);
+      (manager as any).stopProcessing();
+      return task;
+    };
+
+    it('页面刷新后重新选择文件，只上传剩余的分片', async () => {
+      const file = createFile(4 * CHUNK);
+      const original = await interruptUpload(file);
+
+      manager = new (TransferManager as any)({ throttleDelay: 5 });
+      (manager as any).store = store;
+      const [task] = await manager.restoreTasks();
+
+      expect(task.id).toBe(original.id);
+      expect(task.status).toBe(TransferStatus.PAUSED);
+      expect(task.requiresSource).toBe(true);
+      expect(task.progress.transferred).toBe(2 * CHUNK);
+      expect(await manager.findRestoredUpload(file)).toBe(task);
+
+      await manager.reattachSource(task.id, file);
+      await settle(task.id, TransferStatus.COMPLETED);
+
+      expect(provider.calls.initChunkUpload).toBe(1);
+      expect(provider.calls.uploadChunk).toEqual([0, 1, 2, 2, 3]);
+      expect(task.statistics.skippedChunks).toBe(2);
+      expect(provider.files.get('data.bin')!.data).toEqual(new Uint8Array(await file.arrayBuffer()));
+      expect(store.records.size).toBe(0);
+    });
+
+    it('重新选择的文件内容不同时拒绝续传', async () => {
+      const file = createFile(4 * CHUNK);
+      const task = await interruptUpload(file);
+
+      manager = new (TransferManager as any)({ throttleDelay: 5 });
+      (manager as any).store = store;
+      await manager.restoreTasks();
+
+      const other = new File([new Uint8Array(4 * CHUNK)], file.name, { lastModified: file.lastModified });
+      expect(await manager.findRestoredUpload(other)).toBeUndefined();
+      await expect(manager.reattachSource(task.id, other)).rejects.toThrow('Selected file does not match');
+      expect((manager as any).queue.get(task.id).status).toBe(TransferStatus.PAUSED);
+    });
+  });
+});
@@ -9,26 +9,110 @@ import {
   TransferType,
   TransferStatus,
   TransferPriority,
-  ITransferProgress,
   ITransferSpeed,
   IChunkInfo,
   ITransferSummary,
-  TransferQueueConfig,
+  ITransferQueueConfig,
+  ITransferSchedule,
 } from '../providers/base/ITransferOptions';
-import { IFileItem } from '../providers/base/IFileItem';
-import { IStorageProvider } from '../providers/base/IStorageProvider';
+import { IFileItem, FileType } from '../providers/base/IFileItem';
+import {
+  IStorageProvider,
+  IUploadOptions,
+  IDownloadOptions,
+  IChunkUploadSession,
+  IRemoteFetchFeature,
+} from '../providers/base/IStorageProvider';
+import { providerRegistry } from '../providers/registry/ProviderRegistry';
+import { EncryptedProvider } from '../providers/encrypted/EncryptedProvider';
+import { IEncryptionConfig } from '../providers/base/IProviderConfig';
 import { eventBus, CloudEventType } from '../events';
-import { cacheManager, CacheType } from '../cache';
+import { cacheManager, CacheType } from '../cache/CacheManager';
+import { createDownloadSink, IDownloadSink } from './DownloadSink';
+import { TokenBucket, throttle, throttleBurst } from './BandwidthLimiter';
+import { HashAlgorithm, isSupportedHashAlgorithm } from './HashAlgorithms';
+import { hashService, IHashSession } from './HashService';
+import { matchChunkETag, matchFileChecksum } from './Checksum';
+import { ConflictResolver, ConflictAction, IConflictResolution } from './ConflictResolver';
+import { IFolderEntry, filterEntries, getFolderPaths } from './FolderUpload';
+import { orderQueue } from './QueueOrdering';
+import { transferHistory } from './TransferHistory';
+import { getScheduleBlock, getNextWindowEnd, isWithinWindow, validateSchedule, IScheduleBlock } from './TransferSchedule';
+import { classifyError, getRetryDelay, sleep } from './RetryPolicy';
+import { IRemoteFileInfo, getRemoteFetchFeature, openRemoteFile, probeRemoteFile, validateRemoteUrl } from './RemoteFetch';
+import {
+  AdaptiveChunkSizer,
+  DEFAULT_CHUNK_SIZE,
+  getChunkSizeLimits,
+  getInitialChunkSize,
+  resplitChunks,
+} from './ChunkSizer';
+import {
+  TransferStore,
+  IPersistedTransfer,
+  IFileFingerprint,
+  createFileFingerprint,
+  matchesFingerprint,
+} from './TransferStore';
+
+/**
+ * 添加任务时可用的选项（下载任务额外支持范围和保存位置）
+ */
+export type TransferTaskOptions = Partial<ITransferOptions> &
+  Pick<Partial<IDownloadOptions>, 'range' | 'saveHandle' | 'format'> & {
+    groupId?: string;            // 任务组ID（批量任务）
+    targetProvider?: IStorageProvider; // 复制/移动的目标提供商（默认与源相同）
+    schedule?: ITransferSchedule; // 传输计划（开始时间、时间窗口）
+    fileName?: string;           // 离线下载保存的文件名（默认从链接推断）
+    expectedChecksum?: string;   // 离线下载文件的预期校验和（hashAlgorithm 指定的算法）
+  };
+
+/**
+ * 文件夹上传结果
+ */
+export interface IFolderUploadResult {
+  groupId: string;               // 任务组ID
+  tasks: ITransferTask[];        // 创建的上传任务
+  folders: IFileItem[];          // 目标位置的文件夹（新建或已存在）
+  skipped: number;               // 被过滤掉的文件数
+}
+
+/**
+ * 瞬时速度统计窗口（毫秒）
+ */
+const SPEED_WINDOW = 3000;
+
+/**
+ * 分片内进度上报间隔（毫秒）
+ */
+const PROGRESS_INTERVAL = 200;
+
+/**
+ * 计划定时器的最长间隔（定时器过长时分段等待，避免休眠后时间漂移）
+ */
+const MAX_SCHEDULE_DELAY = 60 * 60 * 1000;
+
+/**
+ * 服务端离线下载的进度查询间隔（毫秒）
+ */
+const REMOTE_FETCH_POLL_INTERVAL = 3000;
+
+/**
+ * 整文件离线下载每次读取的最大字节数
+ */
+const FETCH_READ_SIZE = 1024 * 1024;
 
 /**
  * 传输队列默认配置
  */
-const DEFAULT_QUEUE_CONFIG: TransferQueueConfig = {
+const DEFAULT_QUEUE_CONFIG: ITransferQueueConfig = {
   maxConcurrent: 3,
   maxUploadConcurrent: 2,
   maxDownloadConcurrent: 3,
   maxQueueSize: 100,
   priorityMode: 'priority',
+  queueOverflow: 'reject',
+  perProviderLimits: true,
   autoStart: true,
   throttleDelay: 100,
 };
@@ -40,16 +124,55 @@ export class TransferManager {
   private static instance: TransferManager;
   private queue: Map<string, ITransferTask> = new Map();
   private activeTransfers: Set<string> = new Set();
-  private config: TransferQueueConfig;
-  private processingInterval?: NodeJS.Timeout;
+  private config: ITransferQueueConfig;
+  private processingInterval?: ReturnType<typeof setInterval>;
   private paused: boolean = false;
 
+  // 队列顺序与容量（手动调整的位置、等待空位的调用方）
+  private pinnedOrder: Map<string, number> = new Map();
+  private pinSequence = 0;
+  private queueWaiters: Array<() => void> = [];
+  private reservedSlots = 0;
+
+  // 计划任务（等待开始时间或传输窗口）的唤醒定时器
+  private scheduleTimer?: ReturnType<typeof setTimeout>;
+  private scheduleTimerAt = Infinity;
+
+  // 进行中的认证刷新（同一提供商的并发失败只刷新一次）
+  private authRefreshes: Map<string, Promise<void>> = new Map();
+
+  // 任务运行时状态（不随任务对象序列化）
+  private taskProviders: Map<string, IStorageProvider> = new Map();
+  private targetProviders: Map<string, IStorageProvider> = new Map();
+  private taskSources: Map<string, File | Blob> = new Map();
+  private abortControllers: Map<string, AbortController> = new Map();
+  private downloadSinks: Map<string, IDownloadSink> = new Map();
+  private saveHandles: Map<string, FileSystemFileHandle> = new Map();
+  private speedSamples: Map<string, Array<{ time: number; bytes: number }>> = new Map();
+  private hashSessions: Map<string, IHashSession> = new Map();
+
+  // 带宽限制（全局按方向，任务单独限速）
+  private uploadLimiter = new TokenBucket();
+  private downloadLimiter = new TokenBucket();
+  private taskLimiters: Map<string, TokenBucket> = new Map();
+
+  // 加密传输使用的加密层（按提供商和口令复用，避免重复派生密钥）
+  private encryptedProviders: Map<string, EncryptedProvider> = new Map();
+
+  // 上传冲突处理
+  private conflictResolver = new ConflictResolver();
+
+  // 持久化（断点续传跨页面刷新）
+  private store = new TransferStore();
+  private fingerprints: Map<string, IFileFingerprint> = new Map();
+
   // 统计信息
   private totalUploadSpeed: ITransferSpeed = { current: 0, average: 0, peak: 0 };
   private totalDownloadSpeed: ITransferSpeed = { current: 0, average: 0, peak: 0 };
 
-  private constructor(config: Partial<TransferQueueConfig> = {}) {
+  private constructor(config: Partial<ITransferQueueConfig> = {}) {
     this.config = { ...DEFAULT_QUEUE_CONFIG, ...config };
+    this.applySpeedLimits();
 
     if (this.config.autoStart) {
       this.startProcessing();
@@ -59,7 +182,7 @@ export class TransferManager {
   /**
    * 获取传输管理器单例
    */
-  public static getInstance(config?: Partial<TransferQueueConfig>): TransferManager {
+  public static getInstance(config?: Partial<ITransferQueueConfig>): TransferManager {
     if (!TransferManager.instance) {
       TransferManager.instance = new TransferManager(config);
     }
@@ -69,8 +192,10 @@ export class TransferManager {
   /**
    * 更新配置
    */
-  public updateConfig(config: Partial<TransferQueueConfig>): void {
+  public updateConfig(config: Partial<ITransferQueueConfig>): void {
     this.config = { ...this.config, ...config };
+    this.applySpeedLimits();
+    this.notifyQueueWaiters();
 
     if (!this.processingInterval && this.config.autoStart && !this.paused) {
       this.startProcessing();
@@ -84,23 +209,41 @@ export class TransferManager {
     provider: IStorageProvider,
     type: TransferType,
     fileOrPath: File | Blob | string,
-    options: Partial<ITransferOptions> = {}
+    options: TransferTaskOptions = {}
   ): Promise<ITransferTask> {
+    const {
+      range,
+      saveHandle,
+      format,
+      groupId,
+      schedule,
+      fileName,
+      expectedChecksum,
+      targetProvider: requestedTarget,
+      ...transferOptions
+    } = options;
+    if (schedule) {
+      validateSchedule(schedule);
+    }
+    let targetProvider = requestedTarget;
     const defaultOptions: ITransferOptions = {
       type,
       priority: TransferPriority.NORMAL,
       maxConcurrentChunks: 3,
       maxConcurrentFiles: 1,
-      chunkSize: 5 * 1024 * 1024, // 5MB
+      chunkSize: DEFAULT_CHUNK_SIZE,
       enableChunking: true,
       maxRetries: 3,
       retryDelay: 1000,
       exponentialBackoff: true,
       timeout: 30000,
       verifyHash: true,
+      verifyOnComplete: false,
+      verifyPerChunk: false,
       overwrite: false,
       skipExisting: false,
       renameIfExists: false,
+      versioning: false,
       preservePermissions: false,
       preserveTimestamps: false,
       preserveMetadata: false,
@@ -111,6 +254,8 @@ export class TransferManager {
       notifyOnComplete: true,
       notifyOnError: true,
       useCache: true,
+      bypassCache: false,
+      encrypt: false,
       autoStart: this.config.autoStart,
       autoRetry: true,
       sequential: false,
@@ -119,33 +264,95 @@ export class TransferManager {
       enableLogging: false,
     };
 
-    const mergedOptions = { ...defaultOptions, ...options };
+    const mergedOptions = { ...defaultOptions, ...transferOptions };
+
+    // 加密传输经过加密层：上传加密、下载解密，复制/移动加密写入目标
+    if (mergedOptions.encrypt) {
+      if (type === TransferType.COPY || type === TransferType.MOVE) {
+        targetProvider = this.getEncryptedProvider(targetProvider || provider, mergedOptions);
+      } else {
+        provider = this.getEncryptedProvider(provider, mergedOptions);
+      }
+    }
+
+    // 初始分片大小按参与传输的提供商限制确定（复制/移动以目标为准）
+    const chunkProviders = type === TransferType.COPY || type === TransferType.MOVE
+      ? [targetProvider || provider, provider]
+      : [provider];
+    mergedOptions.chunkSize = getInitialChunkSize(
+      getChunkSizeLimits(chunkProviders, mergedOptions),
+      transferOptions.chunkSize
+    );
+
+    // 队列已满时拒绝或等待空位，创建任务期间保留名额
+    await this.acquireQueueSlot();
 
     // 创建任务
     let task: ITransferTask;
 
-    if (type === TransferType.UPLOAD) {
-      if (typeof fileOrPath === 'string') {
-        throw new Error('Upload requires File or Blob');
-      }
+    try {
+      if (type === TransferType.UPLOAD) {
+        if (typeof fileOrPath === 'string') {
+          throw new Error('Upload requires File or Blob');
+        }
+
+        task = await this.createUploadTask(provider, fileOrPath, mergedOptions);
+      } else if (type === TransferType.DOWNLOAD) {
+        if (typeof fileOrPath !== 'string') {
+          throw new Error('Download requires file path or ID');
+        }
+
+        task = await this.createDownloadTask(provider, fileOrPath, mergedOptions, range, format);
+      } else if (type === TransferType.COPY || type === TransferType.MOVE) {
+        if (typeof fileOrPath !== 'string') {
+          throw new Error(`${type} requires file path or ID`);
+        }
+
+        task = await this.createRelayTask(provider, targetProvider || provider, fileOrPath, mergedOptions, type);
+      } else if (type === TransferType.FETCH) {
+        if (typeof fileOrPath !== 'string') {
+          throw new Error('Fetch requires a URL');
+        }
 
-      task = await this.createUploadTask(provider, fileOrPath, mergedOptions);
-    } else if (type === TransferType.DOWNLOAD) {
-      if (typeof fileOrPath !== 'string') {
-        throw new Error('Download requires file path or ID');
+        task = await this.createFetchTask(provider, fileOrPath, mergedOptions, fileName, expectedChecksum);
+      } else {
+        throw new Error(`Transfer type ${type} not implemented`);
       }
 
-      task = await this.createDownloadTask(provider, fileOrPath, mergedOptions);
-    } else {
-      throw new Error(`Transfer type ${type} not implemented`);
+      // 口令不持久化，保存校验值供恢复任务时确认重新输入的口令
+      const encrypted = [provider, targetProvider].find(item => item instanceof EncryptedProvider);
+      if (mergedOptions.encrypt && encrypted) {
+        task.metadata = { ...task.metadata, encryptionKeyCheck: await (encrypted as EncryptedProvider).getKeyCheck() };
+      }
+    } catch (error) {
+      this.reservedSlots--;
+      this.notifyQueueWaiters();
+      throw error;
     }
 
+    this.reservedSlots--;
+    task.groupId = groupId;
+    task.schedule = schedule;
+    this.applySchedule(task);
+
     // 添加到队列
     this.queue.set(task.id, task);
+    this.taskProviders.set(task.id, provider);
+    if (targetProvider) {
+      this.targetProviders.set(task.id, targetProvider);
+    }
+    if (typeof fileOrPath !== 'string') {
+      this.taskSources.set(task.id, fileOrPath);
+      this.fingerprints.set(task.id, await createFileFingerprint(fileOrPath));
+    }
+    if (saveHandle) {
+      this.saveHandles.set(task.id, saveHandle);
+    }
+    this.persistTask(task);
 
     // 发出事件
     await eventBus.emit(
-      type === TransferType.UPLOAD ? CloudEventType.UPLOAD_STARTED : CloudEventType.DOWNLOAD_STARTED,
+      type === TransferType.DOWNLOAD ? CloudEventType.DOWNLOAD_STARTED : CloudEventType.UPLOAD_STARTED,
       task,
       'TransferManager'
     );
@@ -160,13 +367,14 @@ export class TransferManager {
     provider: IStorageProvider,
     type: TransferType,
     filesOrPaths: Array<File | Blob | string>,
-    options: Partial<ITransferOptions> = {}
+    options: TransferTaskOptions = {}
   ): Promise<ITransferTask[]> {
     const tasks: ITransferTask[] = [];
+    const groupId = options.groupId || `group-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
     for (const fileOrPath of filesOrPaths) {
       try {
-        const task = await this.addTask(provider, type, fileOrPath, options);
+        const task = await this.addTask(provider, type, fileOrPath, { ...options, groupId });
         tasks.push(task);
       } catch (error) {
         console.error('Error adding transfer task:', error);
@@ -179,6 +387,99 @@ export class TransferManager {
     return tasks;
   }
 
+  /**
+   * 上传文件夹（保留目录结构）
+   * 先按层级创建缺失的文件夹，再为每个文件创建上传任务，所有任务属于同一任务组
+   */
+  public async uploadFolder(
+    provider: IStorageProvider,
+    entries: IFolderEntry[],
+    options: TransferTaskOptions = {}
+  ): Promise<IFolderUploadResult> {
+    const groupId = options.groupId || `group-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    const accepted = filterEntries(entries, options);
+    const folderPaths = getFolderPaths(accepted);
+
+    if (folderPaths.length > 0 && !provider.capabilities.supports.createFolder) {
+      throw new Error(`Provider ${provider.id} does not support creating folders`);
+    }
+
+    // 队列放不下全部文件时在创建文件夹之前拒绝
+    if (this.config.queueOverflow !== 'wait' && this.config.maxQueueSize > 0) {
+      const free = Math.max(0, this.config.maxQueueSize - this.getQueueLength() - this.reservedSlots);
+      if (accepted.length > free) {
+        throw new Error(`Folder upload of ${accepted.length} files exceeds the free transfer queue slots (${free})`);
+      }
+    }
+
+    // 在创建任何文件夹之前检查深度限制（0 表示不限制）
+    const maxDepth = provider.capabilities.limits.maxFolderDepth;
+    if (maxDepth > 0 && folderPaths.length > 0) {
+      const baseDepth = (options.targetPath || '').split('/').filter(Boolean).length;
+      const depth = baseDepth + Math.max(...folderPaths.map(path => path.split('/').length));
+      if (depth > maxDepth) {
+        throw new Error(`Folder depth ${depth} exceeds provider limit of ${maxDepth}`);
+      }
+    }
+
+    // 父文件夹在前依次创建，子文件夹使用父文件夹的 ID 和路径
+    const root = { id: options.parentId ?? options.targetPath ?? '/', path: options.targetPath ?? '/' };
+    const targets = new Map<string, { id: string; path: string }>([['', root]]);
+    const folders: IFileItem[] = [];
+
+    for (const folderPath of folderPaths) {
+      const separator = folderPath.lastIndexOf('/');
+      const parent = targets.get(separator === -1 ? '' : folderPath.slice(0, separator))!;
+      const name = folderPath.slice(separator + 1);
+
+      const folder = await this.findFolder(provider, parent, name) ?? await provider.createFolder(name, parent.id);
+      targets.set(folderPath, { id: folder.id, path: folder.path });
+      folders.push(folder);
+    }
+
+    const tasks: ITransferTask[] = [];
+    for (const { file, relativePath } of accepted) {
+      const separator = relativePath.lastIndexOf('/');
+      const target = targets.get(separator === -1 ? '' : relativePath.slice(0, separator))!;
+      try {
+        const task = await this.addTask(provider, TransferType.UPLOAD, file, {
+          ...options,
+          groupId,
+          parentId: target.id,
+          targetPath: target.path,
+        });
+        tasks.push(task);
+      } catch (error) {
+        console.error('Error adding transfer task:', error);
+        if (options.onError) {
+          options.onError(error as Error);
+        }
+      }
+    }
+
+    return { groupId, tasks, folders, skipped: entries.length - accepted.length };
+  }
+
+  /**
+   * 在父文件夹中查找同名文件夹
+   */
+  private async findFolder(
+    provider: IStorageProvider,
+    parent: { id: string; path: string },
+    name: string
+  ): Promise<IFileItem | undefined> {
+    let cursor: string | undefined;
+    do {
+      const response = await provider.listFiles({ folderId: parent.id, path: parent.path, cursor });
+      const found = response.files.find(file => file.name === name && file.type === FileType.FOLDER);
+      if (found) {
+        return found;
+      }
+      cursor = response.hasMore ? response.nextCursor : undefined;
+    } while (cursor);
+    return undefined;
+  }
+
   /**
    * 创建上传任务
    */
@@ -244,16 +545,9 @@ export class TransferManager {
       retryCount: 0,
       maxRetries: options.maxRetries,
       events: [],
-
-      // 添加方法
-      start: () => this.startTask(fileId),
-      pause: () => this.pauseTask(fileId),
-      resume: () => this.resumeTask(fileId),
-      cancel: () => this.cancelTask(fileId),
-      retry: () => this.retryTask(fileId),
     };
 
-    return task;
+    return this.attachTaskMethods(task);
   }
 
   /**
@@ -262,34 +556,34 @@ export class TransferManager {
   private async createDownloadTask(
     provider: IStorageProvider,
     fileIdOrPath: string,
-    options: ITransferOptions
+    options: ITransferOptions,
+    range?: { start: number; end: number },
+    format?: string
   ): Promise<ITransferTask> {
-    // 获取文件信息
-    let fileInfo: IFileItem;
-    try {
-      fileInfo = await provider.getFileInfo(fileIdOrPath);
-    } catch {
-      // 尝试通过路径查找
-      const result = await provider.listFiles({ path: fileIdOrPath });
-      if (result.files.length === 0) {
-        throw new Error(`File not found: ${fileIdOrPath}`);
-      }
-      fileInfo = result.files[0];
+    if (range && format) {
+      throw new Error('Range downloads cannot be combined with format conversion');
     }
 
+    const fileInfo = await this.findSourceFile(provider, fileIdOrPath);
     const taskId = `download-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
-    // 如果启用分片，创建分片信息
+    // 部分下载时只传输指定范围
+    if (range && (range.start < 0 || range.end < range.start || range.end >= fileInfo.size)) {
+      throw new Error(`Invalid download range: ${range.start}-${range.end}`);
+    }
+    const fileSize = range ? range.end - range.start + 1 : fileInfo.size;
+
+    // 如果启用分片，创建分片信息（格式转换由提供商完成，转换后大小未知）
     let chunks: IChunkInfo[] | undefined;
-    if (options.enableChunking && fileInfo.size > options.chunkSize) {
-      chunks = this.createChunks(fileInfo.size, options.chunkSize);
+    if (options.enableChunking && !format && fileSize > options.chunkSize) {
+      chunks = this.createChunks(fileSize, options.chunkSize);
     }
 
     const task: ITransferTask = {
       id: taskId,
       fileName: fileInfo.name,
       filePath: fileInfo.path,
-      fileSize: fileInfo.size,
+      fileSize,
       fileType: fileInfo.type,
       mimeType: fileInfo.mimeType,
       source: {
@@ -306,7 +600,85 @@ export class TransferManager {
       priority: options.priority,
       progress: {
         transferred: 0,
-        total: fileInfo.size,
+        total: fileSize,
+        percentage: 0,
+        speed: {
+          current: 0,
+          average: 0,
+          peak: 0,
+        },
+        elapsed: 0,
+      },
+      statistics: {
+        totalBytes: fileSize,
+        transferredBytes: 0,
+        failedBytes: 0,
+        chunkCount: chunks?.length || 1,
+        completedChunks: 0,
+        failedChunks: 0,
+        retriedChunks: 0,
+        skippedChunks: 0,
+      },
+      chunks,
+      chunkSize: options.chunkSize,
+      options,
+      createdAt: new Date(),
+      errorCount: 0,
+      retryCount: 0,
+      maxRetries: options.maxRetries,
+      metadata: range ? { range } : format ? { format } : undefined,
+      events: [],
+    };
+
+    return this.attachTaskMethods(task);
+  }
+
+  /**
+   * 创建复制/移动任务（源文件从一个提供商传到另一个提供商，或在同一提供商内由服务端完成）
+   */
+  private async createRelayTask(
+    source: IStorageProvider,
+    target: IStorageProvider,
+    fileIdOrPath: string,
+    options: ITransferOptions,
+    type: TransferType
+  ): Promise<ITransferTask> {
+    const fileInfo = await this.findSourceFile(source, fileIdOrPath);
+    if (fileInfo.type === FileType.FOLDER && source.id !== target.id) {
+      throw new Error(`Cannot ${type} folders between providers: ${fileInfo.name}`);
+    }
+
+    const taskId = `${type}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    const fileSize = fileInfo.size;
+    const targetPath = options.targetPath || '/';
+
+    let chunks: IChunkInfo[] | undefined;
+    if (options.enableChunking && fileSize > options.chunkSize) {
+      chunks = this.createChunks(fileSize, options.chunkSize);
+    }
+
+    const task: ITransferTask = {
+      id: taskId,
+      fileName: fileInfo.name,
+      filePath: targetPath,
+      fileSize,
+      fileType: fileInfo.type,
+      mimeType: fileInfo.mimeType,
+      source: {
+        providerId: source.id,
+        path: fileInfo.path,
+        fileId: fileInfo.id,
+      },
+      destination: {
+        providerId: target.id,
+        path: targetPath,
+      },
+      type,
+      status: options.autoStart ? TransferStatus.QUEUED : TransferStatus.PENDING,
+      priority: options.priority,
+      progress: {
+        transferred: 0,
+        total: fileSize,
         percentage: 0,
         speed: {
           current: 0,
@@ -316,7 +688,7 @@ export class TransferManager {
         elapsed: 0,
       },
       statistics: {
-        totalBytes: fileInfo.size,
+        totalBytes: fileSize,
         transferredBytes: 0,
         failedBytes: 0,
         chunkCount: chunks?.length || 1,
@@ -333,14 +705,117 @@ export class TransferManager {
       retryCount: 0,
       maxRetries: options.maxRetries,
       events: [],
+    };
+
+    return this.attachTaskMethods(task);
+  }
+
+  /**
+   * 创建离线下载任务（从远程链接保存到提供商）
+   * 链接的大小未知时无法分片，读取完整内容后整文件上传
+   */
+  private async createFetchTask(
+    provider: IStorageProvider,
+    url: string,
+    options: ITransferOptions,
+    fileName?: string,
+    expectedChecksum?: string
+  ): Promise<ITransferTask> {
+    validateRemoteUrl(url);
+    const remote = await probeRemoteFile(url);
+
+    const taskId = `fetch-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    const name = fileName || remote.fileName;
+    const fileSize = remote.size ?? 0;
+    const targetPath = options.targetPath || '/';
+
+    let chunks: IChunkInfo[] | undefined;
+    if (remote.size !== undefined && options.enableChunking && fileSize > options.chunkSize) {
+      chunks = this.createChunks(fileSize, options.chunkSize);
+    }
 
-      start: () => this.startTask(taskId),
-      pause: () => this.pauseTask(taskId),
-      resume: () => this.resumeTask(taskId),
-      cancel: () => this.cancelTask(taskId),
-      retry: () => this.retryTask(taskId),
+    const task: ITransferTask = {
+      id: taskId,
+      fileName: name,
+      filePath: targetPath,
+      fileSize,
+      fileType: this.getFileType(name),
+      mimeType: remote.mimeType || 'application/octet-stream',
+      source: {
+        providerId: 'url',
+        path: url,
+        url,
+      },
+      destination: {
+        providerId: provider.id,
+        path: targetPath,
+      },
+      type: TransferType.FETCH,
+      status: options.autoStart ? TransferStatus.QUEUED : TransferStatus.PENDING,
+      priority: options.priority,
+      progress: {
+        transferred: 0,
+        total: fileSize,
+        percentage: 0,
+        speed: {
+          current: 0,
+          average: 0,
+          peak: 0,
+        },
+        elapsed: 0,
+      },
+      statistics: {
+        totalBytes: fileSize,
+        transferredBytes: 0,
+        failedBytes: 0,
+        chunkCount: chunks?.length || 1,
+        completedChunks: 0,
+        failedChunks: 0,
+        retriedChunks: 0,
+        skippedChunks: 0,
+      },
+      chunks,
+      chunkSize: options.chunkSize,
+      options,
+      createdAt: new Date(),
+      errorCount: 0,
+      retryCount: 0,
+      maxRetries: options.maxRetries,
+      metadata: {
+        remote: { size: remote.size, etag: remote.etag, lastModified: remote.lastModified },
+        expectedChecksum: expectedChecksum?.toLowerCase(),
+      },
+      events: [],
     };
 
+    return this.attachTaskMethods(task);
+  }
+
+  /**
+   * 按ID或路径查找源文件
+   */
+  private async findSourceFile(provider: IStorageProvider, fileIdOrPath: string): Promise<IFileItem> {
+    try {
+      return await provider.getFileInfo(fileIdOrPath);
+    } catch {
+      // 尝试通过路径查找
+      const result = await provider.listFiles({ path: fileIdOrPath });
+      if (result.files.length === 0) {
+        throw new Error(`File not found: ${fileIdOrPath}`);
+      }
+      return result.files[0];
+    }
+  }
+
+  /**
+   * 添加任务操作方法
+   */
+  private attachTaskMethods(task: ITransferTask): ITransferTask {
+    task.start = () => this.startTask(task.id);
+    task.pause = () => this.pauseTask(task.id);
+    task.resume = () => this.resumeTask(task.id);
+    task.cancel = () => this.cancelTask(task.id);
+    task.retry = () => this.retryTask(task.id);
     return task;
   }
 
@@ -380,8 +855,12 @@ export class TransferManager {
       return; // 已经在运行
     }
 
+    this.assertSourceAvailable(task);
+
     task.status = TransferStatus.QUEUED;
     task.startedAt = new Date();
+    this.applySchedule(task);
+    this.persistTask(task);
 
     await this.processQueue();
   }
@@ -395,13 +874,17 @@ export class TransferManager {
       throw new Error(`Task not found: ${taskId}`);
     }
 
-    if (task.status === TransferStatus.ACTIVE) {
+    if (task.status === TransferStatus.ACTIVE || task.status === TransferStatus.PREPARING) {
       task.status = TransferStatus.PAUSED;
       task.pausedAt = new Date();
       this.activeTransfers.delete(taskId);
 
+      // 中止进行中的分片请求，已完成的分片在恢复时跳过
+      this.abortControllers.get(taskId)?.abort();
+      this.persistTask(task);
+
       await eventBus.emit(
-        task.type === TransferType.UPLOAD ? CloudEventType.UPLOAD_PAUSED : CloudEventType.DOWNLOAD_PAUSED,
+        task.type === TransferType.DOWNLOAD ? CloudEventType.DOWNLOAD_PAUSED : CloudEventType.UPLOAD_PAUSED,
         task,
         'TransferManager'
       );
@@ -418,11 +901,15 @@ export class TransferManager {
     }
 
     if (task.status === TransferStatus.PAUSED) {
+      this.assertSourceAvailable(task);
+
       task.status = TransferStatus.QUEUED;
       task.resumedAt = new Date();
+      this.applySchedule(task);
+      this.persistTask(task);
 
       await eventBus.emit(
-        task.type === TransferType.UPLOAD ? CloudEventType.UPLOAD_RESUMED : CloudEventType.DOWNLOAD_RESUMED,
+        task.type === TransferType.DOWNLOAD ? CloudEventType.DOWNLOAD_RESUMED : CloudEventType.UPLOAD_RESUMED,
         task,
         'TransferManager'
       );
@@ -440,14 +927,22 @@ export class TransferManager {
 
     task.status = TransferStatus.CANCELLED;
     this.activeTransfers.delete(taskId);
+    this.recordHistory(task);
+    this.abortControllers.get(taskId)?.abort();
+    await this.abortChunkSession(task);
+    await this.cancelRemoteFetch(task);
+    await this.downloadSinks.get(taskId)?.abort().catch(console.error);
+    this.releaseTask(taskId);
+    this.unpersistTask(taskId);
 
     await eventBus.emit(
-      task.type === TransferType.UPLOAD ? CloudEventType.UPLOAD_CANCELLED : CloudEventType.DOWNLOAD_CANCELLED,
+      task.type === TransferType.DOWNLOAD ? CloudEventType.DOWNLOAD_CANCELLED : CloudEventType.UPLOAD_CANCELLED,
       task,
       'TransferManager'
     );
 
     this.queue.delete(taskId);
+    this.notifyQueueWaiters();
   }
 
   /**
@@ -459,22 +954,40 @@ export class TransferManager {
       throw new Error(`Task not found: ${taskId}`);
     }
 
+    this.assertSourceAvailable(task);
+    task.nextRetryAt = undefined;
+    await this.restartTask(task);
+  }
+
+  /**
+   * 重新开始任务，保留仍然有效的进度（已完成的分片、已写入的下载数据）
+   */
+  private async restartTask(task: ITransferTask): Promise<void> {
+    const resumable = this.getResumableBytes(task);
+    const keepChunks = task.type === TransferType.DOWNLOAD
+      ? this.downloadSinks.has(task.id)
+      : !!task.metadata?.chunkSession;
+
     // 重置任务状态
     task.status = TransferStatus.PENDING;
     task.errorCount = 0;
     task.retryCount++;
-    task.progress.transferred = 0;
-    task.progress.percentage = 0;
+    task.progress.transferred = resumable;
+    task.progress.percentage = task.fileSize > 0 ? (resumable / task.fileSize) * 100 : 0;
+    task.statistics.transferredBytes = resumable;
 
-    // 重置分片
-    if (task.chunks) {
-      for (const chunk of task.chunks) {
+    // 重置未完成的分片
+    for (const chunk of task.chunks || []) {
+      if (!keepChunks || chunk.status !== TransferStatus.COMPLETED) {
         chunk.status = TransferStatus.PENDING;
+        chunk.currentSize = 0;
         chunk.retryCount = 0;
       }
     }
+    task.statistics.completedChunks = (task.chunks || [])
+      .filter(chunk => chunk.status === TransferStatus.COMPLETED).length;
 
-    await this.startTask(taskId);
+    await this.startTask(task.id);
   }
 
   /**
@@ -501,6 +1014,7 @@ export class TransferManager {
       clearInterval(this.processingInterval);
       this.processingInterval = undefined;
     }
+    this.clearScheduleTimer();
   }
 
   /**
@@ -511,13 +1025,24 @@ export class TransferManager {
       return;
     }
 
+    // 传输窗口关闭时，进行中的任务回到队列等待下一个窗口
+    const now = new Date();
+    for (const id of Array.from(this.activeTransfers)) {
+      const task = this.queue.get(id);
+      if (task?.schedule?.window && !isWithinWindow(task.schedule.window, now)) {
+        this.deferTask(task, now);
+      }
+    }
+    this.armScheduleTimer(now);
+
     // 检查并发限制
-    const activeUploads = Array.from(this.activeTransfers).filter(
-      id => this.queue.get(id)?.type === TransferType.UPLOAD
+    // 复制/移动和离线下载任务同时占用上传和下载名额
+    let activeUploads = Array.from(this.activeTransfers).filter(
+      id => this.queue.get(id)?.type !== TransferType.DOWNLOAD
     ).length;
 
-    const activeDownloads = Array.from(this.activeTransfers).filter(
-      id => this.queue.get(id)?.type === TransferType.DOWNLOAD
+    let activeDownloads = Array.from(this.activeTransfers).filter(
+      id => this.queue.get(id)?.type !== TransferType.UPLOAD
     ).length;
 
     if (
@@ -528,176 +1053,2820 @@ export class TransferManager {
       return;
     }
 
-    // 获取待处理的任务
+    // 获取待处理的任务（未到计划时间的任务继续排队）
     const pendingTasks = Array.from(this.queue.values()).filter(
-      task => task.status === TransferStatus.QUEUED
+      task => task.status === TransferStatus.QUEUED && this.applySchedule(task, now)
     );
 
     if (pendingTasks.length === 0) {
       return;
     }
 
-    // 根据优先级排序
-    pendingTasks.sort((a, b) => b.priority - a.priority);
+    // 按队列模式排序
+    const orderedTasks = this.orderTasks(pendingTasks);
+
+    // 各提供商已占用的连接数
+    const providerUsage = new Map<string, number>();
+    for (const id of this.activeTransfers) {
+      const active = this.queue.get(id);
+      for (const slot of active ? this.getProviderSlots(active) : []) {
+        providerUsage.set(slot.key, (providerUsage.get(slot.key) ?? 0) + 1);
+      }
+    }
 
     // 启动可以启动的任务
-    for (const task of pendingTasks) {
-      if (task.type === TransferType.UPLOAD && activeUploads >= this.config.maxUploadConcurrent) {
+    for (const task of orderedTasks) {
+      if (task.type !== TransferType.DOWNLOAD && activeUploads >= this.config.maxUploadConcurrent) {
         continue;
       }
-      if (task.type === TransferType.DOWNLOAD && activeDownloads >= this.config.maxDownloadConcurrent) {
+      if (task.type !== TransferType.UPLOAD && activeDownloads >= this.config.maxDownloadConcurrent) {
         continue;
       }
       if (this.activeTransfers.size >= this.config.maxConcurrent) {
         break;
       }
 
+      const slots = this.config.perProviderLimits !== false ? this.getProviderSlots(task) : [];
+      if (slots.some(slot => slot.limit > 0 && (providerUsage.get(slot.key) ?? 0) >= slot.limit)) {
+        continue;
+      }
+      for (const slot of slots) {
+        providerUsage.set(slot.key, (providerUsage.get(slot.key) ?? 0) + 1);
+      }
+
       // 启动任务
-      this.executeTask(task).catch(console.error);
+      this.pinnedOrder.delete(task.id);
       this.activeTransfers.add(task.id);
       task.status = TransferStatus.ACTIVE;
       task.startedAt = task.startedAt || new Date();
+      if (task.type !== TransferType.DOWNLOAD) {
+        activeUploads++;
+      }
+      if (task.type !== TransferType.UPLOAD) {
+        activeDownloads++;
+      }
+      this.executeTask(task).catch(console.error);
+    }
+
+    // 新开始的任务可能需要在传输窗口关闭时回到队列
+    this.armScheduleTimer(now);
+  }
+
+  /**
+   * 执行传输任务
+   */
+  private async executeTask(task: ITransferTask): Promise<void> {
+    try {
+      if (task.type === TransferType.UPLOAD) {
+        await this.executeUpload(task);
+      } else if (task.type === TransferType.DOWNLOAD) {
+        await this.executeDownload(task);
+      } else if (task.type === TransferType.FETCH) {
+        await this.executeFetch(task);
+      } else {
+        await this.executeRelay(task);
+      }
+    } catch (error) {
+      // 停止仍在进行的分片请求，避免与重试重复传输
+      this.abortControllers.get(task.id)?.abort();
+      this.abortControllers.delete(task.id);
+
+      // 暂停、取消或传输窗口关闭导致的中止不算失败
+      if (
+        task.status === TransferStatus.PAUSED ||
+        task.status === TransferStatus.CANCELLED ||
+        task.status === TransferStatus.QUEUED
+      ) {
+        return;
+      }
+
+      const classification = classifyError(error);
+      task.error = error as Error;
+      task.errorMessage = (error as Error).message;
+      task.errorKind = classification.kind;
+      task.errorCount++;
+      this.activeTransfers.delete(task.id);
+
+      // 检查是否可以重试（只重试暂时性错误，认证失败先刷新令牌）
+      let retry = classification.retryable && task.options.autoRetry && task.retryCount < task.maxRetries;
+      if (retry && classification.kind === 'auth') {
+        retry = await this.refreshTaskAuth(task);
+      }
+
+      // 重试时不再保留的已传输数据需要重传（未完成分片的失败尝试已按分片统计）
+      const transferred = task.chunks?.some(chunk => chunk.startedAt)
+        ? this.getCompletedBytes(task)
+        : task.progress.transferred;
+      task.statistics.failedBytes += Math.max(0, transferred - (retry ? this.getResumableBytes(task) : 0));
+
+      if (retry) {
+        if (task.type === TransferType.DOWNLOAD && !this.canResumeDownload(task)) {
+          await this.discardDownload(task);
+        }
+        task.nextRetryAt = new Date(Date.now() + getRetryDelay(task.options, task.retryCount, classification));
+        await this.restartTask(task);
+      } else {
+        task.nextRetryAt = undefined;
+        if (task.type === TransferType.DOWNLOAD) {
+          await this.discardDownload(task);
+        }
+
+        task.status = TransferStatus.FAILED;
+        await this.abortChunkSession(task);
+        await this.cancelRemoteFetch(task);
+        this.persistTask(task);
+        this.recordHistory(task);
+        this.notifyQueueWaiters();
+
+        await eventBus.emit(
+          task.type === TransferType.DOWNLOAD ? CloudEventType.DOWNLOAD_FAILED : CloudEventType.UPLOAD_FAILED,
+          task,
+          'TransferManager'
+        );
+
+        if (task.options.onError) {
+          task.options.onError(error as Error);
+        }
+      }
+    }
+  }
+
+  /**
+   * 执行上传任务
+   * 支持分片上传的提供商逐片推送，其余提供商回退到 uploadFile
+   */
+  private async executeUpload(task: ITransferTask): Promise<void> {
+    const provider = this.getTaskProvider(task);
+    const file = this.taskSources.get(task.id);
+    if (!provider || !file) {
+      throw new Error(`Upload source not available for task: ${task.id}`);
+    }
+
+    task.status = TransferStatus.ACTIVE;
+    this.beginProgress(task);
+
+    const controller = new AbortController();
+    this.abortControllers.set(task.id, controller);
+
+    // 同一文件的完整哈希只计算一次（秒传、校验共用）
+    const hashes = new Map<HashAlgorithm, Promise<string>>();
+    const hashOf = (algorithm: HashAlgorithm): Promise<string> => {
+      let hash = hashes.get(algorithm);
+      if (!hash) {
+        hash = hashService.hash(file, algorithm);
+        hash.catch(() => undefined);
+        hashes.set(algorithm, hash);
+      }
+      return hash;
+    };
+
+    // 检查目标位置的同名文件
+    if (!task.metadata?.chunkSession && !task.metadata?.conflictResolved) {
+      const action = await this.resolveUploadConflict(task, provider);
+      if (action === 'skip') {
+        await this.completeTask(task);
+        return;
+      }
+      if (task.status !== TransferStatus.ACTIVE) {
+        return;
+      }
+    }
+
+    // 秒传：尚未开始上传时先检查服务端或本地缓存中是否已有相同内容
+    if (task.options.deduplicate && !task.metadata?.chunkSession) {
+      if (await this.tryDeduplicate(task, provider, file, hashOf)) {
+        await this.completeTask(task);
+        return;
+      }
+      if (task.status !== TransferStatus.ACTIVE) {
+        return;
+      }
+    }
+
+    // 与上传并行计算整个文件的哈希（去重时用于记录内容哈希）
+    const checksum = task.options.verifyHash || task.options.deduplicate
+      ? hashOf(this.getHashAlgorithm(task))
+      : undefined;
+
+    if (task.chunks && this.supportsChunkUpload(provider)) {
+      await this.uploadChunks(task, provider, file, controller.signal);
+    } else {
+      await this.uploadWhole(task, provider, file, controller.signal);
+    }
+
+    // 上传期间被暂停或取消
+    if (task.status !== TransferStatus.ACTIVE) {
+      return;
+    }
+
+    if (checksum && task.options.verifyHash) {
+      await this.verifyUpload(task, provider, await checksum);
+    }
+    if (checksum && task.options.deduplicate) {
+      await this.rememberContentHash(task, provider, await checksum);
+    }
+
+    await this.completeTask(task);
+  }
+
+  /**
+   * 标记任务完成
+   */
+  private async completeTask(task: ITransferTask): Promise<void> {
+    this.updateProgress(task, task.fileSize);
+    task.status = TransferStatus.COMPLETED;
+    task.completedAt = new Date();
+    this.activeTransfers.delete(task.id);
+    this.releaseTask(task.id);
+    this.unpersistTask(task.id);
+    this.recordHistory(task);
+    this.notifyQueueWaiters();
+
+    await eventBus.emit(
+      task.type === TransferType.DOWNLOAD ? CloudEventType.DOWNLOAD_COMPLETED : CloudEventType.UPLOAD_COMPLETED,
+      task,
+      'TransferManager'
+    );
+
+    if (task.options.onComplete) {
+      task.options.onComplete(task);
+    }
+  }
+
+  /**
+   * 检查提供商是否实现了分片上传契约
+   */
+  private supportsChunkUpload(provider: IStorageProvider): boolean {
+    return (
+      provider.capabilities.supports.chunkUpload &&
+      !!provider.initChunkUpload &&
+      !!provider.uploadChunk &&
+      !!provider.completeChunkUpload
+    );
+  }
+
+  /**
+   * 单个上传任务的最大并发分片数
+   * tus 上传只能按偏移顺序追加，固定为单连接
+   */
+  private getUploadConnections(provider: IStorageProvider): number {
+    if (provider.capabilities.tus) {
+      return 1;
+    }
+    return provider.capabilities.limits.maxUploadConnections || Infinity;
+  }
+
+  /**
+   * 创建分片大小调整器
+   * 关闭自适应或上传目标要求固定分片大小时返回 undefined
+   */
+  private createChunkSizer(
+    task: ITransferTask,
+    providers: IStorageProvider[],
+    uploadTarget?: IStorageProvider
+  ): AdaptiveChunkSizer | undefined {
+    if (task.options.adaptiveChunkSize === false || uploadTarget?.capabilities.performance.fixedChunkSize) {
+      return undefined;
+    }
+    return new AdaptiveChunkSizer(getChunkSizeLimits(providers, task.options), task.chunkSize);
+  }
+
+  /**
+   * 按顺序取下一个待传输分片
+   * 建议大小变化且剩余分片都未开始传输时，按新大小重新划分剩余分片，已取出的分片边界不变
+   */
+  private createChunkPicker(task: ITransferTask, sizer?: AdaptiveChunkSizer): () => IChunkInfo | undefined {
+    let cursor = 0;
+
+    return () => {
+      const chunks = task.chunks!;
+      while (cursor < chunks.length && chunks[cursor].status === TransferStatus.COMPLETED) {
+        cursor++;
+      }
+      if (cursor >= chunks.length) {
+        return undefined;
+      }
+
+      if (
+        sizer &&
+        sizer.chunkSize !== task.chunkSize &&
+        chunks.slice(cursor).every(chunk => chunk.status === TransferStatus.PENDING)
+      ) {
+        resplitChunks(chunks, cursor, sizer.chunkSize);
+        task.chunkSize = sizer.chunkSize;
+        task.statistics.chunkCount = chunks.length;
+        this.persistTask(task);
+      }
+
+      return chunks[cursor++];
+    };
+  }
+
+  /**
+   * 构建提供商上传选项
+   */
+  private toUploadOptions(task: ITransferTask): IUploadOptions {
+    return {
+      ...task.options,
+      fileName: task.fileName,
+      targetPath: task.options.targetPath || '/',
+      parentId: task.options.parentId,
+      chunkSize: task.chunkSize,
+      metadata: task.options.customMetadata,
+    };
+  }
+
+  /**
+   * 分片上传
+   */
+  private async uploadChunks(
+    task: ITransferTask,
+    provider: IStorageProvider,
+    file: File | Blob,
+    signal: AbortSignal
+  ): Promise<void> {
+    const session = await this.openChunkSession(task, provider, file);
+    const chunks = task.chunks!;
+    const pending = chunks.filter(chunk => chunk.status !== TransferStatus.COMPLETED);
+    task.statistics.skippedChunks = chunks.length - pending.length;
+    const concurrency = Math.max(
+      1,
+      Math.min(
+        task.options.maxConcurrentChunks || 1,
+        this.getUploadConnections(provider),
+        pending.length
+      )
+    );
+
+    const sizer = this.createChunkSizer(task, [provider], provider);
+    const nextChunk = this.createChunkPicker(task, sizer);
+    const worker = async (chunkSignal: AbortSignal) => {
+      let chunk: IChunkInfo | undefined;
+      while (!chunkSignal.aborted && (chunk = nextChunk())) {
+        const started = Date.now();
+        await this.uploadChunk(task, provider, session, file.slice(chunk.offset, chunk.offset + chunk.size), chunk, chunkSignal);
+        sizer?.record(chunk.size, Date.now() - started);
+      }
+    };
+
+    await this.runChunkWorkers(concurrency, signal, worker);
+
+    if (signal.aborted) {
+      return;
+    }
+
+    const fileItem = await provider.completeChunkUpload!(session, chunks);
+    // 会话已结束，之后的重试重新上传
+    delete task.metadata!.chunkSession;
+    task.destination.fileId = fileItem.id;
+    task.result = {
+      success: true,
+      fileId: fileItem.id,
+      filePath: fileItem.path,
+    };
+  }
+
+  /**
+   * 获取分片上传会话（恢复时复用已有会话）
+   */
+  private async openChunkSession(
+    task: ITransferTask,
+    provider: IStorageProvider,
+    file: File | Blob
+  ): Promise<IChunkUploadSession> {
+    const existing: IChunkUploadSession | undefined = task.metadata?.chunkSession;
+    if (existing) {
+      if (!provider.getChunkUploadOffset) {
+        return existing;
+      }
+
+      // 以服务端已接收的字节数为准校正分片状态
+      try {
+        this.applyUploadOffset(task, await provider.getChunkUploadOffset(existing));
+        this.persistTask(task);
+        return existing;
+      } catch (error) {
+        const status = classifyError(error).status;
+        if (status !== 404 && status !== 410) {
+          throw error;
+        }
+        // 服务端会话已过期，重新上传
+        delete task.metadata!.chunkSession;
+        this.applyUploadOffset(task, 0);
+      }
+    }
+
+    const session = await provider.initChunkUpload!(file, this.toUploadOptions(task));
+    task.metadata = { ...task.metadata, chunkSession: session };
+
+    // 提供商要求的分片大小与任务不同时重新分片
+    if (session.chunkSize && session.chunkSize !== task.chunkSize) {
+      task.chunkSize = session.chunkSize;
+      task.chunks = this.createChunks(task.fileSize, session.chunkSize);
+      task.statistics.chunkCount = task.chunks.length;
+    }
+    this.persistTask(task);
+
+    return session;
+  }
+
+  /**
+   * 按服务端偏移设置分片状态：偏移之前的分片已完成，其余分片待上传
+   * 偏移落在分片中间时由提供商只发送该分片的剩余部分
+   */
+  private applyUploadOffset(task: ITransferTask, offset: number): void {
+    for (const chunk of task.chunks || []) {
+      if (chunk.offset + chunk.size <= offset) {
+        chunk.status = TransferStatus.COMPLETED;
+        chunk.currentSize = chunk.size;
+      } else if (chunk.status === TransferStatus.COMPLETED) {
+        chunk.status = TransferStatus.PENDING;
+        chunk.currentSize = 0;
+        chunk.etag = undefined;
+      }
+    }
+
+    task.statistics.completedChunks = (task.chunks || []).filter(chunk => chunk.status === TransferStatus.COMPLETED).length;
+    this.updateProgress(task, this.getCompletedBytes(task));
+  }
+
+  /**
+   * 上传单个分片
+   */
+  private async uploadChunk(
+    task: ITransferTask,
+    provider: IStorageProvider,
+    session: IChunkUploadSession,
+    data: Blob,
+    chunk: IChunkInfo,
+    signal: AbortSignal
+  ): Promise<void> {
+    chunk.status = TransferStatus.ACTIVE;
+    chunk.startedAt = new Date();
+    chunk.error = undefined;
+    task.options.onChunkStart?.(chunk);
+
+    // 分片 MD5 用于比对分片 ETag 和分片上传后的整体 ETag
+    const md5 = task.options.verifyHash ? hashService.hash(data, 'md5') : undefined;
+    md5?.catch(() => undefined);
+
+    try {
+      // 失败时只重传当前分片（包括校验失败的分片）
+      for (let attempt = 0; ; attempt++) {
+        try {
+          // 复制/移动和离线下载任务在读取源数据时已限速
+          if (task.type === TransferType.UPLOAD) {
+            await this.throttleTask(task, chunk.size, signal);
+          }
+
+          const result = await provider.uploadChunk!(session, chunk, data, signal);
+          chunk.etag = result.etag ?? chunk.etag;
+
+          if (md5) {
+            const chunkMd5 = await md5;
+            task.metadata = {
+              ...task.metadata,
+              chunkHashes: { ...task.metadata?.chunkHashes, [chunk.index]: chunkMd5 },
+            };
+
+            if (task.options.verifyPerChunk && matchChunkETag(chunk.etag, chunkMd5) === false) {
+              throw new Error(`Chunk ${chunk.index} checksum mismatch: expected ${chunkMd5}, got ${chunk.etag}`);
+            }
+          }
+          break;
+        } catch (error) {
+          if (!(await this.retryChunk(task, provider, chunk, error, attempt, chunk.size, signal))) {
+            throw error;
+          }
+        }
+      }
+
+      chunk.currentSize = chunk.size;
+      chunk.status = TransferStatus.COMPLETED;
+      chunk.completedAt = new Date();
+      task.statistics.completedChunks++;
+
+      this.updateProgress(task, Math.max(task.progress.transferred, this.getCompletedBytes(task)));
+      this.persistTask(task);
+      task.options.onChunkComplete?.(chunk);
+    } catch (error) {
+      chunk.currentSize = 0;
+
+      // 暂停/取消时分片回到待上传状态
+      if (signal.aborted) {
+        chunk.status = TransferStatus.PENDING;
+        return;
+      }
+
+      chunk.status = TransferStatus.FAILED;
+      chunk.error = (error as Error).message;
+      task.statistics.failedChunks++;
+      task.statistics.failedBytes += chunk.size;
+      task.options.onChunkError?.(chunk, error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * 分片失败后判断是否在分片级别重试，需要重试时等待退避时间（认证失败时先刷新令牌）
+   * @param lostBytes 本次失败的尝试中已传输、需要重传的字节数
+   * @returns 是否重试该分片
+   */
+  private async retryChunk(
+    task: ITransferTask,
+    provider: IStorageProvider,
+    chunk: IChunkInfo,
+    error: unknown,
+    attempt: number,
+    lostBytes: number,
+    signal: AbortSignal
+  ): Promise<boolean> {
+    if (signal.aborted) {
+      return false;
+    }
+
+    const classification = classifyError(error);
+    if (!classification.retryable || attempt >= task.maxRetries) {
+      return false;
+    }
+    if (classification.kind === 'auth' && !(await this.refreshProviderAuth(provider))) {
+      return false;
+    }
+
+    chunk.retryCount++;
+    chunk.error = (error as Error).message;
+    task.statistics.retriedChunks++;
+    task.statistics.failedBytes += lostBytes;
+
+    if (classification.kind !== 'auth') {
+      await sleep(getRetryDelay(task.options, attempt, classification), signal);
+    }
+    return true;
+  }
+
+  /**
+   * 并发执行分片任务
+   * 任一分片最终失败时中止其余分片，等待全部结束后再抛出，避免重试时与旧请求重复传输同一分片
+   */
+  private async runChunkWorkers(
+    concurrency: number,
+    signal: AbortSignal,
+    worker: (chunkSignal: AbortSignal) => Promise<void>
+  ): Promise<void> {
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    if (signal.aborted) {
+      abort();
+    }
+    signal.addEventListener('abort', abort);
+
+    let failure: { error: unknown } | undefined;
+    try {
+      await Promise.all(Array.from({ length: concurrency }, () => worker(controller.signal).catch(error => {
+        if (!failure) {
+          failure = { error };
+          abort();
+        }
+      })));
+    } finally {
+      signal.removeEventListener('abort', abort);
+    }
+
+    if (failure) {
+      throw failure.error;
+    }
+  }
+
+  /**
+   * 刷新任务涉及的提供商的认证
+   * @returns 是否刷新成功
+   */
+  private async refreshTaskAuth(task: ITransferTask): Promise<boolean> {
+    const providers = new Set([this.getTaskProvider(task), this.getTargetProvider(task)]);
+    for (const provider of providers) {
+      if (provider && !(await this.refreshProviderAuth(provider))) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * 刷新提供商认证，同一提供商同时只刷新一次
+   * @returns 是否刷新成功
+   */
+  private async refreshProviderAuth(provider: IStorageProvider): Promise<boolean> {
+    let refresh = this.authRefreshes.get(provider.id);
+    if (!refresh) {
+      refresh = provider.refreshAuth().finally(() => this.authRefreshes.delete(provider.id));
+      this.authRefreshes.set(provider.id, refresh);
+    }
+
+    try {
+      await refresh;
+      return true;
+    } catch (error) {
+      console.error('Error refreshing provider auth:', error);
+      return false;
+    }
+  }
+
+  /**
+   * 整文件上传（不支持分片的提供商）
+   */
+  private async uploadWhole(
+    task: ITransferTask,
+    provider: IStorageProvider,
+    file: File | Blob,
+    signal: AbortSignal
+  ): Promise<void> {
+    // 提供商整体发送请求体，无法按读取进度限速；只预留一桶令牌，避免和其他传输的突发叠加
+    await throttleBurst(this.getTaskLimiters(task), file.size, signal);
+
+    const providerTask = await provider.uploadFile(file, {
+      ...this.toUploadOptions(task),
+      onProgress: progress => this.updateProgress(task, progress.transferred),
+      onComplete: undefined,
+      onError: undefined,
+    });
+
+    task.destination.fileId = providerTask.result?.fileId ?? providerTask.destination.fileId;
+    task.result = providerTask.result ?? {
+      success: true,
+      fileId: providerTask.destination.fileId,
+      filePath: providerTask.destination.path,
+    };
+  }
+
+  /**
+   * 中止未完成的分片上传会话
+   */
+  private async abortChunkSession(task: ITransferTask): Promise<void> {
+    const session: IChunkUploadSession | undefined = task.metadata?.chunkSession;
+    const provider = this.getTargetProvider(task);
+    if (!session || !provider?.abortChunkUpload) {
+      return;
+    }
+
+    try {
+      await provider.abortChunkUpload(session);
+    } catch (error) {
+      console.error('Error aborting chunk upload:', error);
+    }
+    delete task.metadata!.chunkSession;
+  }
+
+  /**
+   * 已完成分片的总字节数
+   */
+  private getCompletedBytes(task: ITransferTask): number {
+    return (task.chunks || [])
+      .filter(chunk => chunk.status === TransferStatus.COMPLETED)
+      .reduce((sum, chunk) => sum + chunk.size, 0);
+  }
+
+  /**
+   * 开始一次进度统计（启动或恢复时调用）
+   */
+  private beginProgress(task: ITransferTask): void {
+    this.speedSamples.set(task.id, [{ time: Date.now(), bytes: task.progress.transferred }]);
+  }
+
+  /**
+   * 更新任务进度和速度
+   */
+  private updateProgress(task: ITransferTask, transferred: number): void {
+    const now = Date.now();
+    const samples = this.speedSamples.get(task.id) || [{ time: now, bytes: task.progress.transferred }];
+    const last = samples[samples.length - 1];
+
+    // 累计实际传输时长（不含暂停时间）
+    task.progress.elapsed += (now - last.time) / 1000;
+
+    samples.push({ time: now, bytes: transferred });
+    while (samples.length > 2 && now - samples[1].time >= SPEED_WINDOW) {
+      samples.shift();
+    }
+    this.speedSamples.set(task.id, samples);
+
+    const first = samples[0];
+    const windowSeconds = (now - first.time) / 1000;
+    const speed = task.progress.speed;
+    if (windowSeconds > 0) {
+      speed.current = Math.max(0, transferred - first.bytes) / windowSeconds;
+    }
+    speed.average = task.progress.elapsed > 0 ? transferred / task.progress.elapsed : 0;
+    speed.peak = Math.max(speed.peak, speed.current);
+
+    task.progress.transferred = transferred;
+    task.progress.percentage = task.fileSize > 0 ? (transferred / task.fileSize) * 100 : 100;
+    const rate = this.estimateRate(task);
+    task.progress.remainingTime = rate > 0 ? (task.fileSize - transferred) / rate : undefined;
+    task.estimatedCompletion = task.progress.remainingTime !== undefined
+      ? new Date(now + task.progress.remainingTime * 1000)
+      : undefined;
+    task.statistics.transferredBytes = transferred;
+
+    this.updateTotalSpeed(task.type);
+
+    if (task.options.onProgress) {
+      task.options.onProgress(task.progress);
+    }
+
+    eventBus.emit(
+      task.type === TransferType.DOWNLOAD ? CloudEventType.DOWNLOAD_PROGRESS : CloudEventType.UPLOAD_PROGRESS,
+      { task, progress: task.progress },
+      'TransferManager'
+    ).catch(console.error);
+  }
+
+  /**
+   * 汇总同方向活动任务的速度（复制/移动计入上传）
+   */
+  private updateTotalSpeed(type: TransferType): void {
+    const download = type === TransferType.DOWNLOAD;
+    const total = download ? this.totalDownloadSpeed : this.totalUploadSpeed;
+    const active = Array.from(this.activeTransfers)
+      .map(id => this.queue.get(id))
+      .filter((task): task is ITransferTask => !!task && (task.type === TransferType.DOWNLOAD) === download);
+
+    total.current = active.reduce((sum, task) => sum + task.progress.speed.current, 0);
+    total.average = active.reduce((sum, task) => sum + task.progress.speed.average, 0);
+    total.peak = Math.max(total.peak, total.current);
+  }
+
+  /**
+   * 释放任务运行时资源
+   */
+  private releaseTask(taskId: string): void {
+    this.fingerprints.delete(taskId);
+    this.taskLimiters.delete(taskId);
+    this.abortControllers.delete(taskId);
+    this.downloadSinks.delete(taskId);
+    this.saveHandles.delete(taskId);
+    this.speedSamples.delete(taskId);
+    this.taskSources.delete(taskId);
+    this.hashSessions.get(taskId)?.dispose();
+    this.hashSessions.delete(taskId);
+    this.taskProviders.delete(taskId);
+    this.targetProviders.delete(taskId);
+    this.pinnedOrder.delete(taskId);
+  }
+
+  /**
+   * 执行下载任务
+   * 提供商实现 openDownloadStream 时按 Range 分片下载并顺序写入磁盘，
+   * 否则（以及需要格式转换时）回退到提供商自身的 downloadFile
+   */
+  private async executeDownload(task: ITransferTask): Promise<void> {
+    const provider = this.getTaskProvider(task);
+    if (!provider) {
+      throw new Error(`Download source not available for task: ${task.id}`);
+    }
+
+    task.status = TransferStatus.ACTIVE;
+    this.beginProgress(task);
+
+    const controller = new AbortController();
+    this.abortControllers.set(task.id, controller);
+
+    if (provider.openDownloadStream && !task.metadata?.format) {
+      const sink = await this.getDownloadSink(task);
+
+      // 从头下载时边写入边计算哈希（断点续传的会话在暂停期间保留）
+      if (task.options.verifyHash && !this.hashSessions.has(task.id) && task.progress.transferred === 0) {
+        this.hashSessions.set(task.id, hashService.createSession(this.getHashAlgorithm(task)));
+      }
+
+      if (task.chunks && provider.capabilities.supports.chunkDownload) {
+        await this.downloadChunks(task, provider, sink, controller.signal);
+      } else {
+        await this.downloadStream(task, provider, sink, controller.signal);
+      }
+
+      if (controller.signal.aborted) {
+        // 不支持断点下载时暂停即放弃已下载数据，恢复后从头开始
+        const status = task.status as TransferStatus; // 可能已被 pauseTask/cancelTask 修改
+        if (status === TransferStatus.PAUSED && !provider.capabilities.supports.resumableDownload) {
+          await this.discardDownload(task);
+        }
+        return;
+      }
+
+      // 校验通过后再完成写入，校验失败时由失败处理放弃已写入的数据
+      await this.verifyDownload(task, provider);
+      await sink.close();
+      this.downloadSinks.delete(task.id);
+    } else {
+      await this.downloadViaProvider(task, provider);
+    }
+
+    // 下载期间被暂停或取消
+    if (task.status !== TransferStatus.ACTIVE) {
+      return;
+    }
+
+    task.result = task.result ?? {
+      success: true,
+      fileId: task.source.fileId,
+      filePath: task.source.path,
+    };
+
+    await this.completeTask(task);
+  }
+
+  /**
+   * 下载失败后能否从已写入的位置继续
+   */
+  private canResumeDownload(task: ITransferTask): boolean {
+    const provider = this.getTaskProvider(task);
+    return (
+      this.downloadSinks.has(task.id) &&
+      !!provider?.openDownloadStream &&
+      provider.capabilities.supports.resumableDownload
+    );
+  }
+
+  /**
+   * 重新开始时仍然有效的字节数（已完成的上传分片、已写入的下载数据）
+   */
+  private getResumableBytes(task: ITransferTask): number {
+    if (task.type !== TransferType.DOWNLOAD) {
+      return task.metadata?.chunkSession ? this.getCompletedBytes(task) : 0;
+    }
+    if (!this.canResumeDownload(task)) {
+      return 0;
+    }
+    return task.chunks && this.getTaskProvider(task)!.capabilities.supports.chunkDownload
+      ? this.getCompletedBytes(task)
+      : task.progress.transferred;
+  }
+
+  /**
+   * 获取（或创建）任务的写入目标，断点续传时复用
+   */
+  private async getDownloadSink(task: ITransferTask): Promise<IDownloadSink> {
+    let sink = this.downloadSinks.get(task.id);
+    if (!sink) {
+      sink = await createDownloadSink({
+        fileName: task.fileName,
+        size: task.fileSize,
+        mimeType: task.mimeType,
+        fileHandle: this.saveHandles.get(task.id),
+      });
+      this.downloadSinks.set(task.id, sink);
+    }
+    return sink;
+  }
+
+  /**
+   * 放弃已下载的数据并重置进度
+   */
+  private async discardDownload(task: ITransferTask): Promise<void> {
+    const sink = this.downloadSinks.get(task.id);
+    this.downloadSinks.delete(task.id);
+    await sink?.abort().catch(console.error);
+
+    this.hashSessions.get(task.id)?.dispose();
+    this.hashSessions.delete(task.id);
+
+    task.progress.transferred = 0;
+    task.progress.percentage = 0;
+    task.statistics.transferredBytes = 0;
+    task.statistics.completedChunks = 0;
+
+    for (const chunk of task.chunks || []) {
+      chunk.status = TransferStatus.PENDING;
+      chunk.currentSize = 0;
+    }
+  }
+
+  /**
+   * 按分片并发下载，按顺序写入
+   */
+  private async downloadChunks(
+    task: ITransferTask,
+    provider: IStorageProvider,
+    sink: IDownloadSink,
+    signal: AbortSignal
+  ): Promise<void> {
+    const chunks = task.chunks!;
+    const baseOffset: number = task.metadata?.range?.start ?? 0;
+    const pending = chunks.filter(chunk => chunk.status !== TransferStatus.COMPLETED);
+    task.statistics.skippedChunks = chunks.length - pending.length;
+    const concurrency = Math.max(
+      1,
+      Math.min(
+        task.options.maxConcurrentChunks || 1,
+        provider.capabilities.limits.maxDownloadConnections || Infinity,
+        pending.length
+      )
+    );
+
+    // 已下载但尚未写入的分片（限制乱序缓冲数量，控制内存占用）
+    const buffered = new Map<number, Blob>();
+    const bufferWindow = concurrency * 2;
+    let nextWrite = pending.length > 0 ? pending[0].index : chunks.length;
+    let writing: Promise<void> = Promise.resolve();
+
+    const flush = async () => {
+      while (buffered.has(nextWrite)) {
+        const chunk = chunks[nextWrite];
+        this.hashSessions.get(task.id)?.update(buffered.get(nextWrite)!);
+        await sink.write(buffered.get(nextWrite)!);
+        buffered.delete(nextWrite);
+
+        chunk.status = TransferStatus.COMPLETED;
+        chunk.completedAt = new Date();
+        task.statistics.completedChunks++;
+        task.options.onChunkComplete?.(chunk);
+        nextWrite++;
+      }
+    };
+
+    let lastReport = 0;
+    const reportProgress = (force: boolean = false) => {
+      const now = Date.now();
+      if (force || now - lastReport >= PROGRESS_INTERVAL) {
+        lastReport = now;
+        this.updateProgress(task, chunks.reduce((sum, chunk) => sum + (chunk.currentSize || 0), 0));
+      }
+    };
+
+    const sizer = this.createChunkSizer(task, [provider]);
+    const nextChunk = this.createChunkPicker(task, sizer);
+    const worker = async (chunkSignal: AbortSignal) => {
+      let chunk: IChunkInfo | undefined;
+      while (!chunkSignal.aborted && (chunk = nextChunk())) {
+        while (chunk.index - nextWrite >= bufferWindow && !chunkSignal.aborted) {
+          await new Promise(resolve => setTimeout(resolve, 50));
+        }
+        if (chunkSignal.aborted) {
+          break;
+        }
+
+        // 等待写入的时间不计入分片耗时
+        const started = Date.now();
+        const data = await this.downloadChunk(
+          task,
+          provider,
+          chunk,
+          { start: baseOffset + chunk.offset, end: baseOffset + chunk.offset + chunk.size - 1 },
+          chunkSignal,
+          reportProgress
+        );
+        if (!data) {
+          break;
+        }
+        sizer?.record(chunk.size, Date.now() - started);
+
+        buffered.set(chunk.index, data);
+        writing = writing.then(flush);
+        await writing;
+        reportProgress(true);
+      }
+    };
+
+    await this.runChunkWorkers(concurrency, signal, worker);
+    await writing;
+
+    if (signal.aborted) {
+      // 未写入的分片在恢复时重新下载
+      for (const chunk of chunks) {
+        if (chunk.status !== TransferStatus.COMPLETED) {
+          chunk.status = TransferStatus.PENDING;
+          chunk.currentSize = 0;
+        }
+      }
+      this.updateProgress(task, this.getCompletedBytes(task));
+    }
+  }
+
+  /**
+   * 下载单个分片
+   * @returns 分片数据，被中止时返回 null
+   */
+  private async downloadChunk(
+    task: ITransferTask,
+    provider: IStorageProvider,
+    chunk: IChunkInfo,
+    range: { start: number; end: number },
+    signal: AbortSignal,
+    onBytes: () => void
+  ): Promise<Blob | null> {
+    chunk.status = TransferStatus.ACTIVE;
+    chunk.startedAt = new Date();
+    chunk.currentSize = 0;
+    chunk.error = undefined;
+    task.options.onChunkStart?.(chunk);
+
+    // 最近一次失败的尝试已收到的字节数
+    let received = 0;
+
+    try {
+      // 失败时只重新下载当前分片
+      for (let attempt = 0; ; attempt++) {
+        const parts: Uint8Array[] = [];
+        try {
+          const stream = await provider.openDownloadStream!(task.source.fileId || task.source.path, range, signal);
+          const reader = stream.getReader();
+
+          for (;;) {
+            const { done, value } = await reader.read();
+            if (done) {
+              break;
+            }
+            await this.throttleTask(task, value.length, signal);
+            parts.push(value);
+            chunk.currentSize += value.length;
+            onBytes();
+          }
+
+          if (chunk.currentSize !== chunk.size) {
+            throw new Error(`Chunk ${chunk.index} size mismatch: expected ${chunk.size}, received ${chunk.currentSize}`);
+          }
+
+          return new Blob(parts);
+        } catch (error) {
+          received = chunk.currentSize;
+          chunk.currentSize = 0;
+          if (!(await this.retryChunk(task, provider, chunk, error, attempt, received, signal))) {
+            throw error;
+          }
+        }
+      }
+    } catch (error) {
+      chunk.currentSize = 0;
+
+      if (signal.aborted) {
+        chunk.status = TransferStatus.PENDING;
+        return null;
+      }
+
+      chunk.status = TransferStatus.FAILED;
+      chunk.error = (error as Error).message;
+      task.statistics.failedChunks++;
+      task.statistics.failedBytes += received;
+      task.options.onChunkError?.(chunk, error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * 单流下载（不支持分片的提供商或小文件）
+   * 支持断点下载时从已写入的位置继续
+   */
+  private async downloadStream(
+    task: ITransferTask,
+    provider: IStorageProvider,
+    sink: IDownloadSink,
+    signal: AbortSignal
+  ): Promise<void> {
+    const baseOffset: number = task.metadata?.range?.start ?? 0;
+    let transferred = task.progress.transferred;
+
+    const range = task.metadata?.range || transferred > 0
+      ? { start: baseOffset + transferred, end: baseOffset + task.fileSize - 1 }
+      : undefined;
+
+    let lastReport = 0;
+
+    try {
+      const stream = await provider.openDownloadStream!(task.source.fileId || task.source.path, range, signal);
+      const reader = stream.getReader();
+
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+
+        await this.throttleTask(task, value.length, signal);
+        // 写入可能转移缓冲区所有权，先交给哈希会话
+        this.hashSessions.get(task.id)?.update(value);
+        await sink.write(value);
+        transferred += value.length;
+
+        if (Date.now() - lastReport >= PROGRESS_INTERVAL) {
+          lastReport = Date.now();
+          this.updateProgress(task, transferred);
+        }
+      }
+    } catch (error) {
+      if (!signal.aborted) {
+        // 记录实际写入的位置，重试时从这里继续
+        this.updateProgress(task, transferred);
+        throw error;
+      }
+    }
+
+    this.updateProgress(task, transferred);
+  }
+
+  /**
+   * 交由提供商下载（未实现 openDownloadStream 的提供商）
+   */
+  private async downloadViaProvider(task: ITransferTask, provider: IStorageProvider): Promise<void> {
+    const fileId = task.source.fileId || task.source.path;
+    const providerTask = await provider.downloadFile(fileId, {
+      ...task.options,
+      fileId,
+      range: task.metadata?.range,
+      format: task.metadata?.format,
+      saveHandle: this.saveHandles.get(task.id),
+      onProgress: progress => this.updateProgress(task, progress.transferred),
+      onComplete: undefined,
+      onError: undefined,
+    });
+
+    // 格式转换后的文件名（如追加扩展名）
+    task.fileName = providerTask.fileName || task.fileName;
+    task.result = providerTask.result;
+  }
+
+  // ============================================
+  // 复制与移动
+  // ============================================
+
+  /**
+   * 执行复制/移动任务
+   * 同一提供商内由服务端完成；跨提供商时从源读取后直接写入目标，不经过本地磁盘。
+   * 移动任务在目标文件校验通过后才删除源文件
+   */
+  private async executeRelay(task: ITransferTask): Promise<void> {
+    const source = this.getTaskProvider(task);
+    const target = this.getTargetProvider(task);
+    if (!source || !target) {
+      throw new Error(`Transfer providers not available for task: ${task.id}`);
+    }
+
+    task.status = TransferStatus.ACTIVE;
+    this.beginProgress(task);
+
+    const controller = new AbortController();
+    this.abortControllers.set(task.id, controller);
+
+    // 检查目标位置的同名文件
+    if (!task.metadata?.chunkSession && !task.metadata?.conflictResolved) {
+      const action = await this.resolveUploadConflict(task, target);
+      if (action === 'skip') {
+        await this.completeTask(task);
+        return;
+      }
+      if (task.status !== TransferStatus.ACTIVE) {
+        return;
+      }
+    }
+
+    if (source.id === target.id) {
+      await this.relayOnServer(task, source);
+      await this.completeTask(task);
+      return;
+    }
+
+    let checksum: string | undefined;
+    if (task.chunks && this.supportsChunkUpload(target) && this.supportsRangedRead(source)) {
+      await this.relayChunks(task, source, target, controller.signal);
+    } else {
+      checksum = await this.relayWhole(task, source, target, controller.signal);
+    }
+
+    // 传输期间被暂停或取消
+    if (task.status !== TransferStatus.ACTIVE) {
+      return;
+    }
+
+    if (task.type === TransferType.MOVE || task.options.verifyOnComplete) {
+      await this.verifyRelay(task, source, target, checksum);
+      if (task.status !== TransferStatus.ACTIVE) {
+        return;
+      }
+    } else if (checksum) {
+      task.result = {
+        ...task.result,
+        success: true,
+        checksum,
+        metadata: { ...task.result?.metadata, hashAlgorithm: this.getHashAlgorithm(task) },
+      };
+    }
+
+    if (task.type === TransferType.MOVE) {
+      await this.deleteMovedSource(task, source);
+    }
+
+    await this.completeTask(task);
+  }
+
+  /**
+   * 同一提供商内由服务端复制/移动
+   */
+  private async relayOnServer(task: ITransferTask, provider: IStorageProvider): Promise<void> {
+    const sourceId = task.source.fileId || task.source.path;
+    const targetParentId = task.options.parentId ?? task.options.targetPath ?? '/';
+
+    let fileItem: IFileItem;
+    if (task.type === TransferType.MOVE && task.metadata?.conflictResolved !== 'rename') {
+      fileItem = await provider.moveFile(sourceId, targetParentId);
+    } else {
+      // 重命名的移动先复制为新名称再删除源文件，避免移动时覆盖目标位置的同名文件
+      fileItem = await provider.copyFile(sourceId, targetParentId, task.fileName);
+      if (task.type === TransferType.MOVE) {
+        await provider.deleteFile(sourceId);
+      }
+    }
+
+    task.destination.fileId = fileItem.id;
+    task.result = {
+      success: true,
+      fileId: fileItem.id,
+      filePath: fileItem.path,
+      metadata: { serverSide: true },
+    };
+  }
+
+  /**
+   * 源提供商是否支持按范围读取
+   */
+  private supportsRangedRead(provider: IStorageProvider): boolean {
+    return !!provider.openDownloadStream && provider.capabilities.supports.chunkDownload;
+  }
+
+  /**
+   * 跨提供商分片中转：按范围读取源文件分片，直接作为目标的上传分片
+   * 内存中最多同时保留并发数个分片
+   */
+  private async relayChunks(
+    task: ITransferTask,
+    source: IStorageProvider,
+    target: IStorageProvider,
+    signal: AbortSignal
+  ): Promise<void> {
+    const session = await this.openChunkSession(task, target, this.describeSource(task));
+    const chunks = task.chunks!;
+    const pending = chunks.filter(chunk => chunk.status !== TransferStatus.COMPLETED);
+    task.statistics.skippedChunks = chunks.length - pending.length;
+    const concurrency = Math.max(
+      1,
+      Math.min(
+        task.options.maxConcurrentChunks || 1,
+        source.capabilities.limits.maxDownloadConnections || Infinity,
+        this.getUploadConnections(target),
+        pending.length
+      )
+    );
+
+    // 进度按已从源读取的字节计算
+    let lastReport = 0;
+    const reportProgress = () => {
+      if (Date.now() - lastReport >= PROGRESS_INTERVAL) {
+        lastReport = Date.now();
+        this.updateProgress(task, chunks.reduce((sum, chunk) => sum + (chunk.currentSize || 0), 0));
+      }
+    };
+
+    const sizer = this.createChunkSizer(task, [target, source], target);
+    const nextChunk = this.createChunkPicker(task, sizer);
+    const worker = async (chunkSignal: AbortSignal) => {
+      let chunk: IChunkInfo | undefined;
+      while (!chunkSignal.aborted && (chunk = nextChunk())) {
+        const started = Date.now();
+        const data = await this.downloadChunk(
+          task,
+          source,
+          chunk,
+          { start: chunk.offset, end: chunk.offset + chunk.size - 1 },
+          chunkSignal,
+          reportProgress
+        );
+        if (!data) {
+          break;
+        }
+        await this.uploadChunk(task, target, session, data, chunk, chunkSignal);
+        sizer?.record(chunk.size, Date.now() - started);
+      }
+    };
+
+    await this.runChunkWorkers(concurrency, signal, worker);
+
+    if (signal.aborted) {
+      return;
+    }
+
+    const fileItem = await target.completeChunkUpload!(session, chunks);
+    delete task.metadata!.chunkSession;
+    task.destination.fileId = fileItem.id;
+    task.result = {
+      success: true,
+      fileId: fileItem.id,
+      filePath: fileItem.path,
+    };
+  }
+
+  /**
+   * 跨提供商整文件中转（目标不支持分片上传或源不支持范围读取）
+   * 目标的 uploadFile 需要完整数据，源文件在内存中缓冲
+   * @returns 传输数据的校验和（开启校验时）
+   */
+  private async relayWhole(
+    task: ITransferTask,
+    source: IStorageProvider,
+    target: IStorageProvider,
+    signal: AbortSignal
+  ): Promise<string | undefined> {
+    const parts: Uint8Array[] = [];
+    let read = 0;
+    let lastReport = 0;
+
+    // 读取和写入各占一半进度
+    try {
+      const reader = (await this.openSourceStream(task, source, signal)).getReader();
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+
+        await this.throttleTask(task, value.length, signal);
+        parts.push(value);
+        read += value.length;
+
+        if (Date.now() - lastReport >= PROGRESS_INTERVAL) {
+          lastReport = Date.now();
+          this.updateProgress(task, read / 2);
+        }
+      }
+    } catch (error) {
+      if (signal.aborted) {
+        return undefined;
+      }
+      throw error;
+    }
+
+    if (read !== task.fileSize) {
+      throw new Error(`Size mismatch reading ${task.fileName}: expected ${task.fileSize}, received ${read}`);
+    }
+
+    const data = new Blob(parts, { type: task.mimeType || 'application/octet-stream' });
+    const checksum = task.options.verifyHash ? hashService.hash(data, this.getHashAlgorithm(task)) : undefined;
+    checksum?.catch(() => undefined);
+
+    const providerTask = await target.uploadFile(data, {
+      ...this.toUploadOptions(task),
+      onProgress: progress => this.updateProgress(task, (read + progress.transferred) / 2),
+      onComplete: undefined,
+      onError: undefined,
+    });
+
+    task.destination.fileId = providerTask.result?.fileId ?? providerTask.destination.fileId;
+    task.result = providerTask.result ?? {
+      success: true,
+      fileId: providerTask.destination.fileId,
+      filePath: providerTask.destination.path,
+    };
+
+    return checksum;
+  }
+
+  /**
+   * 打开源文件读取流，未实现 openDownloadStream 的提供商通过下载链接读取
+   */
+  private async openSourceStream(
+    task: ITransferTask,
+    source: IStorageProvider,
+    signal: AbortSignal
+  ): Promise<ReadableStream<Uint8Array>> {
+    const fileId = task.source.fileId || task.source.path;
+    if (source.openDownloadStream) {
+      return source.openDownloadStream(fileId, undefined, signal);
+    }
+
+    const response = await fetch(await source.getDownloadUrl(fileId), { signal });
+    if (!response.ok || !response.body) {
+      throw new Error(`Failed to read source file: ${response.status} ${response.statusText}`);
+    }
+    return response.body;
+  }
+
+  /**
+   * 源文件描述（初始化分片上传时提供商只读取名称、大小和类型）
+   */
+  private describeSource(task: ITransferTask): File {
+    return {
+      name: task.fileName,
+      size: task.fileSize,
+      type: task.mimeType || '',
+      lastModified: Date.now(),
+    } as File;
+  }
+
+  /**
+   * 校验复制结果：两端大小一致、同算法哈希一致，并与传输数据的校验和比对
+   */
+  private async verifyRelay(
+    task: ITransferTask,
+    source: IStorageProvider,
+    target: IStorageProvider,
+    checksum?: string
+  ): Promise<void> {
+    if (!task.destination.fileId) {
+      throw new Error(`Cannot verify ${task.type} without destination file: ${task.fileName}`);
+    }
+
+    task.status = TransferStatus.VERIFYING;
+    const [sourceItem, targetItem] = await Promise.all([
+      source.getFileInfo(task.source.fileId || task.source.path),
+      target.getFileInfo(task.destination.fileId),
+    ]);
+
+    if (targetItem.size !== sourceItem.size) {
+      throw new Error(`Size mismatch after ${task.type}: ${task.fileName} (${sourceItem.size} != ${targetItem.size})`);
+    }
+
+    // 两端都提供同一算法的哈希时直接比较
+    const shared = (['sha256', 'sha1', 'md5', 'crc32', 'dropbox'] as HashAlgorithm[])
+      .find(algorithm => sourceItem.hash?.[algorithm] && targetItem.hash?.[algorithm]);
+    const sharedMatch = shared
+      ? sourceItem.hash![shared]!.toLowerCase() === targetItem.hash![shared]!.toLowerCase()
+      : undefined;
+
+    // 传输数据的校验和与两端比对（源的分片 ETag 与本次分片方式无关，只比对目标）
+    const algorithm = this.getHashAlgorithm(task);
+    const chunkHashes: Record<number, string> | undefined = task.metadata?.chunkHashes;
+    const partMd5s = task.chunks && chunkHashes
+      ? task.chunks.map(chunk => chunkHashes[chunk.index])
+      : undefined;
+
+    if (
+      sharedMatch === false ||
+      matchFileChecksum(sourceItem, algorithm, checksum) === false ||
+      matchFileChecksum(targetItem, algorithm, checksum, partMd5s?.every(Boolean) ? partMd5s : undefined) === false
+    ) {
+      throw new Error(`Checksum mismatch after ${task.type}: ${task.fileName}`);
+    }
+
+    task.result = {
+      ...task.result,
+      success: true,
+      checksum,
+      metadata: { ...task.result?.metadata, verified: true, hashAlgorithm: checksum ? algorithm : undefined },
+    };
+
+    if (task.status === TransferStatus.VERIFYING) {
+      task.status = TransferStatus.ACTIVE;
+    }
+  }
+
+  /**
+   * 移动任务在目标校验通过后删除源文件
+   * 删除失败时文件已复制完成，任务仍视为完成并在结果中记录错误
+   */
+  private async deleteMovedSource(task: ITransferTask, source: IStorageProvider): Promise<void> {
+    try {
+      await source.deleteFile(task.source.fileId || task.source.path);
+      task.result = { ...task.result, success: true, metadata: { ...task.result?.metadata, sourceDeleted: true } };
+    } catch (error) {
+      console.error('Error deleting moved source file:', error);
+      task.result = {
+        ...task.result,
+        success: true,
+        metadata: { ...task.result?.metadata, sourceDeleted: false, sourceDeleteError: (error as Error).message },
+      };
+    }
+  }
+
+  // ============================================
+  // 离线下载
+  // ============================================
+
+  /**
+   * 执行离线下载任务
+   * 提供商支持服务端离线下载时交由服务端完成；否则由浏览器读取链接，
+   * 按分片上传（限速、分片重试与普通上传相同），边读取边计算校验和
+   */
+  private async executeFetch(task: ITransferTask): Promise<void> {
+    const provider = this.getTaskProvider(task);
+    if (!provider) {
+      throw new Error(`Fetch target not available for task: ${task.id}`);
+    }
+
+    task.status = TransferStatus.ACTIVE;
+    this.beginProgress(task);
+
+    const controller = new AbortController();
+    this.abortControllers.set(task.id, controller);
+
+    // 检查目标位置的同名文件
+    if (!task.metadata?.chunkSession && !task.metadata?.remoteJobId && !task.metadata?.conflictResolved) {
+      const action = await this.resolveUploadConflict(task, provider);
+      if (action === 'skip') {
+        await this.completeTask(task);
+        return;
+      }
+      if (task.status !== TransferStatus.ACTIVE) {
+        return;
+      }
+    }
+
+    let checksum: string | undefined;
+    const remoteFetch = getRemoteFetchFeature(provider);
+    if (remoteFetch) {
+      await this.fetchOnServer(task, remoteFetch, controller.signal);
+    } else if (task.chunks && this.supportsChunkUpload(provider)) {
+      checksum = await this.fetchChunks(task, provider, controller.signal);
+    } else {
+      checksum = await this.fetchWhole(task, provider, controller.signal);
+    }
+
+    // 传输期间被暂停或取消
+    if (task.status !== TransferStatus.ACTIVE) {
+      return;
+    }
+
+    await this.verifyFetch(task, provider, checksum);
+    if (task.status !== TransferStatus.ACTIVE) {
+      return;
+    }
+
+    await this.completeTask(task);
+  }
+
+  /**
+   * 服务端离线下载：创建任务后轮询进度，暂停时保留服务端任务，恢复后继续轮询
+   */
+  private async fetchOnServer(task: ITransferTask, remoteFetch: IRemoteFetchFeature, signal: AbortSignal): Promise<void> {
+    try {
+      let jobId: string | undefined = task.metadata?.remoteJobId;
+      if (!jobId) {
+        const job = await remoteFetch.start(task.source.url || task.source.path, {
+          fileName: task.fileName,
+          targetPath: task.options.targetPath || '/',
+          parentId: task.options.parentId,
+          overwrite: task.options.overwrite,
+          signal,
+        });
+        jobId = job.jobId;
+        task.metadata = { ...task.metadata, remoteJobId: jobId };
+        this.persistTask(task);
+      }
+
+      while (!signal.aborted) {
+        const status = await remoteFetch.getStatus(jobId, signal);
+
+        if (status.total !== undefined && task.metadata?.remote?.size === undefined) {
+          this.setFetchSize(task, status.total);
+        }
+        if (status.transferred !== undefined) {
+          this.updateProgress(task, status.transferred);
+        }
+
+        if (status.state === 'completed') {
+          delete task.metadata!.remoteJobId;
+          task.destination.fileId = status.file?.id;
+          task.result = {
+            success: true,
+            fileId: status.file?.id,
+            filePath: status.file?.path,
+            metadata: { serverSide: true },
+          };
+          if (status.file && task.metadata?.remote?.size === undefined) {
+            this.setFetchSize(task, status.file.size);
+          }
+          return;
+        }
+        if (status.state === 'failed') {
+          // 服务端任务已结束，重试时重新创建
+          delete task.metadata!.remoteJobId;
+          throw new Error(`Remote fetch failed: ${status.error || task.source.path}`);
+        }
+
+        await sleep(REMOTE_FETCH_POLL_INTERVAL, signal);
+      }
+    } catch (error) {
+      if (!signal.aborted) {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * 读取链接并按分片上传
+   * 恢复时从第一个未完成的分片继续读取（服务器不支持范围请求时从头读取并跳过已上传的分片）
+   * @returns 从头读取时的完整校验和
+   */
+  private async fetchChunks(
+    task: ITransferTask,
+    provider: IStorageProvider,
+    signal: AbortSignal
+  ): Promise<string | undefined> {
+    const session = await this.openChunkSession(task, provider, this.describeSource(task));
+    const chunks = task.chunks!;
+    const first = chunks.find(chunk => chunk.status !== TransferStatus.COMPLETED);
+    if (first && !(await this.streamFetchChunks(task, provider, session, first, signal))) {
+      return undefined;
+    }
+
+    const fileItem = await provider.completeChunkUpload!(session, chunks);
+    delete task.metadata!.chunkSession;
+    task.destination.fileId = fileItem.id;
+    task.result = {
+      success: true,
+      fileId: fileItem.id,
+      filePath: fileItem.path,
+    };
+
+    const hash = this.hashSessions.get(task.id);
+    this.hashSessions.delete(task.id);
+    return hash?.digest();
+  }
+
+  /**
+   * 从第一个未完成的分片开始读取链接，读取过程串行，上传并发
+   * @returns 是否读取完所有分片（被中止时返回 false）
+   */
+  private async streamFetchChunks(
+    task: ITransferTask,
+    provider: IStorageProvider,
+    session: IChunkUploadSession,
+    first: IChunkInfo,
+    signal: AbortSignal
+  ): Promise<boolean> {
+    const chunks = task.chunks!;
+    const source = await openRemoteFile(
+      task.source.url || task.source.path,
+      first.offset,
+      signal,
+      this.getRemoteValidator(task)
+    );
+
+    try {
+      // 从头读取时链接内容已变化，已上传的分片作废
+      if (source.offset === 0 && first.offset > 0 && this.isRemoteChanged(task, source.info)) {
+        if (source.info.size !== undefined && source.info.size !== task.fileSize) {
+          throw new Error(`Remote file changed size: ${task.fileName} (${task.fileSize} != ${source.info.size})`);
+        }
+        for (const chunk of chunks) {
+          chunk.status = TransferStatus.PENDING;
+          chunk.etag = undefined;
+        }
+        task.statistics.completedChunks = 0;
+      }
+      task.metadata = {
+        ...task.metadata,
+        remote: { size: task.fileSize, etag: source.info.etag, lastModified: source.info.lastModified },
+      };
+
+      // 只有从头读取时才能得到完整校验和
+      this.hashSessions.get(task.id)?.dispose();
+      this.hashSessions.delete(task.id);
+      const hash = source.offset === 0 && (task.options.verifyHash || task.metadata?.expectedChecksum)
+        ? hashService.createSession(this.getHashAlgorithm(task))
+        : undefined;
+      if (hash) {
+        this.hashSessions.set(task.id, hash);
+      }
+
+      const pending = chunks.filter(chunk => chunk.status !== TransferStatus.COMPLETED);
+      task.statistics.skippedChunks = chunks.length - pending.length;
+      const concurrency = Math.max(
+        1,
+        Math.min(
+          task.options.maxConcurrentChunks || 1,
+          this.getUploadConnections(provider),
+          pending.length
+        )
+      );
+
+      let position = source.offset;
+      let reading: Promise<unknown> = Promise.resolve();
+      const readChunk = async (): Promise<{ chunk: IChunkInfo; data: Blob } | null> => {
+        for (const chunk of chunks) {
+          if (chunk.offset < position) {
+            continue;
+          }
+
+          const parts = await source.read(chunk.size);
+          const received = parts.reduce((sum, part) => sum + part.length, 0);
+          for (const part of parts) {
+            await this.throttleTask(task, part.length, signal);
+            hash?.update(part);
+          }
+          position += received;
+
+          if (received !== chunk.size) {
+            throw new Error(`Chunk ${chunk.index} size mismatch: expected ${chunk.size}, received ${received}`);
+          }
+          if (chunk.status !== TransferStatus.COMPLETED) {
+            return { chunk, data: new Blob(parts) };
+          }
+        }
+        return null;
+      };
+      const nextChunk = () => {
+        const result = reading.then(readChunk);
+        reading = result.catch(() => undefined);
+        return result;
+      };
+
+      const worker = async (chunkSignal: AbortSignal) => {
+        while (!chunkSignal.aborted) {
+          const next = await nextChunk();
+          if (!next || chunkSignal.aborted) {
+            break;
+          }
+          await this.uploadChunk(task, provider, session, next.data, next.chunk, chunkSignal);
+        }
+      };
+
+      await this.runChunkWorkers(concurrency, signal, worker);
+
+      if (signal.aborted) {
+        return false;
+      }
+      if ((await source.read(1)).length > 0) {
+        throw new Error(`Size mismatch reading ${task.fileName}: remote file is larger than ${task.fileSize} bytes`);
+      }
+      return true;
+    } finally {
+      source.close();
+    }
+  }
+
+  /**
+   * 读取链接的完整内容后整文件上传（大小未知、文件较小或提供商不支持分片上传）
+   * 读取和写入各占一半进度
+   * @returns 传输数据的校验和（开启校验时）
+   */
+  private async fetchWhole(
+    task: ITransferTask,
+    provider: IStorageProvider,
+    signal: AbortSignal
+  ): Promise<string | undefined> {
+    const parts: Uint8Array[] = [];
+    let read = 0;
+    let lastReport = 0;
+
+    try {
+      const source = await openRemoteFile(task.source.url || task.source.path, 0, signal);
+      try {
+        for (;;) {
+          const values = await source.read(FETCH_READ_SIZE);
+          if (values.length === 0) {
+            break;
+          }
+
+          for (const value of values) {
+            await this.throttleTask(task, value.length, signal);
+            parts.push(value);
+            read += value.length;
+          }
+
+          if (Date.now() - lastReport >= PROGRESS_INTERVAL) {
+            lastReport = Date.now();
+            this.updateProgress(task, read / 2);
+          }
+        }
+      } finally {
+        source.close();
+      }
+    } catch (error) {
+      if (signal.aborted) {
+        return undefined;
+      }
+      throw error;
+    }
+
+    if (task.metadata?.remote?.size === undefined) {
+      this.setFetchSize(task, read);
+    } else if (read !== task.fileSize) {
+      throw new Error(`Size mismatch reading ${task.fileName}: expected ${task.fileSize}, received ${read}`);
+    }
+
+    const data = new Blob(parts, { type: task.mimeType || 'application/octet-stream' });
+    const checksum = task.options.verifyHash || task.metadata?.expectedChecksum
+      ? hashService.hash(data, this.getHashAlgorithm(task))
+      : undefined;
+    checksum?.catch(() => undefined);
+
+    const providerTask = await provider.uploadFile(data, {
+      ...this.toUploadOptions(task),
+      onProgress: progress => this.updateProgress(task, (read + progress.transferred) / 2),
+      onComplete: undefined,
+      onError: undefined,
+    });
+
+    task.destination.fileId = providerTask.result?.fileId ?? providerTask.destination.fileId;
+    task.result = providerTask.result ?? {
+      success: true,
+      fileId: providerTask.destination.fileId,
+      filePath: providerTask.destination.path,
+    };
+
+    return checksum;
+  }
+
+  /**
+   * 校验离线下载结果
+   * 有传输数据的校验和时与预期值和目标文件比对；服务端下载或从中间恢复时
+   * 只能用目标文件的大小和哈希与预期值比对
+   */
+  private async verifyFetch(task: ITransferTask, provider: IStorageProvider, checksum?: string): Promise<void> {
+    const expected: string | undefined = task.metadata?.expectedChecksum;
+    if (checksum && expected && checksum.toLowerCase() !== expected) {
+      throw new Error(`Checksum mismatch after fetch: ${task.fileName}`);
+    }
+    if (checksum) {
+      await this.verifyUpload(task, provider, checksum);
+      return;
+    }
+
+    if ((!expected && !task.options.verifyOnComplete) || !task.destination.fileId) {
+      return;
+    }
+
+    task.status = TransferStatus.VERIFYING;
+    const fileItem = await provider.getFileInfo(task.destination.fileId);
+
+    if (task.metadata?.remote?.size !== undefined && fileItem.size !== task.fileSize) {
+      throw new Error(`Size mismatch after fetch: ${task.fileName} (${task.fileSize} != ${fileItem.size})`);
+    }
+    if (expected && matchFileChecksum(fileItem, this.getHashAlgorithm(task), expected) === false) {
+      throw new Error(`Checksum mismatch after fetch: ${task.fileName}`);
+    }
+
+    task.status = TransferStatus.ACTIVE;
+  }
+
+  /**
+   * 取消服务端离线下载任务
+   */
+  private async cancelRemoteFetch(task: ITransferTask): Promise<void> {
+    const jobId: string | undefined = task.metadata?.remoteJobId;
+    const provider = this.getTargetProvider(task);
+    const remoteFetch = jobId && provider ? getRemoteFetchFeature(provider) : undefined;
+    if (!jobId || !remoteFetch?.cancel) {
+      return;
+    }
+
+    try {
+      await remoteFetch.cancel(jobId);
+    } catch (error) {
+      console.error('Error cancelling remote fetch:', error);
+    }
+    delete task.metadata!.remoteJobId;
+  }
+
+  /**
+   * 恢复读取时用于 If-Range 的校验值（弱 ETag 不能用于范围请求）
+   */
+  private getRemoteValidator(task: ITransferTask): string | undefined {
+    const remote: Partial<IRemoteFileInfo> | undefined = task.metadata?.remote;
+    return remote?.etag && !remote.etag.startsWith('W/') ? remote.etag : remote?.lastModified;
+  }
+
+  /**
+   * 链接内容是否与上次读取时不同
+   */
+  private isRemoteChanged(task: ITransferTask, info: IRemoteFileInfo): boolean {
+    const remote: Partial<IRemoteFileInfo> | undefined = task.metadata?.remote;
+    return (
+      (!!remote?.etag && !!info.etag && remote.etag !== info.etag) ||
+      (!!remote?.lastModified && !!info.lastModified && remote.lastModified !== info.lastModified) ||
+      (info.size !== undefined && info.size !== task.fileSize)
+    );
+  }
+
+  /**
+   * 大小未知的离线下载在得知大小后更新任务
+   */
+  private setFetchSize(task: ITransferTask, size: number): void {
+    task.fileSize = size;
+    task.progress.total = size;
+    task.statistics.totalBytes = size;
+    task.metadata = { ...task.metadata, remote: { ...task.metadata?.remote, size } };
+  }
+
+  // ============================================
+  // 上传冲突
+  // ============================================
+
+  /**
+   * 回复 UPLOAD_CONFLICT 事件
+   * @param applyToAll - 应用到同一批次的其余冲突
+   */
+  public async resolveConflict(conflictId: string, action: ConflictAction, applyToAll: boolean = false): Promise<void> {
+    const resolution: IConflictResolution = { conflictId, action, applyToAll };
+    await eventBus.emit(CloudEventType.UPLOAD_CONFLICT_RESOLVED, resolution, 'TransferManager');
+  }
+
+  /**
+   * 上传前处理目标位置的同名文件
+   * @returns 采用的处理方式，无冲突时为 undefined
+   */
+  private async resolveUploadConflict(
+    task: ITransferTask,
+    provider: IStorageProvider
+  ): Promise<ConflictAction | undefined> {
+    task.status = TransferStatus.PREPARING;
+
+    try {
+      const outcome = await this.conflictResolver.resolve(task, provider);
+
+      switch (outcome.action) {
+        case 'skip':
+          task.destination.fileId = outcome.existing?.id;
+          task.statistics.skippedChunks = task.statistics.chunkCount;
+          task.result = {
+            success: true,
+            fileId: outcome.existing?.id,
+            filePath: outcome.existing?.path,
+            metadata: { skipped: true },
+          };
+          break;
+        case 'rename':
+          task.fileName = outcome.fileName;
+          break;
+        case 'overwrite':
+          task.options.overwrite = true;
+          break;
+        case 'version':
+          task.options.overwrite = true;
+          task.options.versioning = true;
+          break;
+      }
+
+      task.metadata = { ...task.metadata, conflictResolved: outcome.action || 'none' };
+      this.persistTask(task);
+      return outcome.action;
+    } catch (error) {
+      // 无法列出目标目录（如目录尚不存在）时直接上传
+      console.warn('Conflict check failed, uploading without it:', error);
+      return undefined;
+    } finally {
+      if (task.status === TransferStatus.PREPARING) {
+        task.status = TransferStatus.ACTIVE;
+      }
+    }
+  }
+
+  // ============================================
+  // 秒传（内容去重）
+  // ============================================
+
+  /**
+   * 尝试秒传：先由提供商按内容哈希判断，再在本地缓存中查找相同内容的文件并复制
+   * @returns 是否已通过去重完成上传
+   */
+  private async tryDeduplicate(
+    task: ITransferTask,
+    provider: IStorageProvider,
+    file: File | Blob,
+    hashOf: (algorithm: HashAlgorithm) => Promise<string>
+  ): Promise<boolean> {
+    task.status = TransferStatus.PREPARING;
+
+    try {
+      if (provider.instantUpload) {
+        const quickHash = await hashService.quickHash(file);
+        const fileItem = await provider.instantUpload(
+          file,
+          { size: file.size, quickHash, hash: hashOf },
+          this.toUploadOptions(task)
+        );
+        if (fileItem) {
+          this.finishDeduplicated(task, fileItem, 'instant');
+          return true;
+        }
+      }
+
+      const candidates = cacheManager.findFiles(item =>
+        item.providerId === provider.id &&
+        item.type !== FileType.FOLDER &&
+        item.size === file.size &&
+        !!item.hash
+      );
+
+      for (const candidate of candidates) {
+        for (const [algorithm, expected] of Object.entries(candidate.hash!)) {
+          // 本地无法计算的算法跳过，继续比对其他算法和候选文件
+          if (!expected || !isSupportedHashAlgorithm(algorithm)) {
+            continue;
+          }
+          if ((await hashOf(algorithm)) !== expected.toLowerCase()) {
+            continue;
+          }
+
+          const copied = await provider.copyFile(
+            candidate.id,
+            task.options.parentId || task.destination.path,
+            task.fileName
+          );
+          this.finishDeduplicated(task, copied, 'copy', candidate.id);
+          return true;
+        }
+      }
+
+      return false;
+    } catch (error) {
+      // 去重失败不影响正常上传
+      console.warn('Deduplication failed, uploading normally:', error);
+      return false;
+    } finally {
+      if (task.status === TransferStatus.PREPARING) {
+        task.status = TransferStatus.ACTIVE;
+      }
+    }
+  }
+
+  /**
+   * 记录通过去重完成的上传
+   */
+  private finishDeduplicated(
+    task: ITransferTask,
+    fileItem: IFileItem,
+    method: 'instant' | 'copy',
+    sourceFileId?: string
+  ): void {
+    task.destination.fileId = fileItem.id;
+    task.statistics.skippedChunks = task.statistics.chunkCount;
+    task.metadata = { ...task.metadata, deduplicated: method };
+    task.result = {
+      success: true,
+      fileId: fileItem.id,
+      filePath: fileItem.path,
+      metadata: { deduplicated: method, sourceFileId },
+    };
+  }
+
+  /**
+   * 将上传文件的内容哈希写入元数据缓存，供后续上传查找重复内容
+   */
+  private async rememberContentHash(task: ITransferTask, provider: IStorageProvider, hash: string): Promise<void> {
+    if (!task.destination.fileId) {
+      return;
+    }
+
+    try {
+      const fileItem = await provider.getFileInfo(task.destination.fileId);
+      await cacheManager.set(CacheType.METADATA, `${provider.id}:${fileItem.id}`, {
+        ...fileItem,
+        hash: { ...fileItem.hash, [this.getHashAlgorithm(task)]: hash },
+      });
+    } catch (error) {
+      console.warn('Failed to cache content hash:', error);
+    }
+  }
+
+  // ============================================
+  // 完整性校验
+  // ============================================
+
+  private getHashAlgorithm(task: ITransferTask): HashAlgorithm {
+    return task.options.hashAlgorithm || 'md5';
+  }
+
+  /**
+   * 记录上传结果的校验和，并在需要时与提供商返回的哈希/ETag 比对
+   */
+  private async verifyUpload(task: ITransferTask, provider: IStorageProvider, checksum: string): Promise<void> {
+    const algorithm = this.getHashAlgorithm(task);
+    task.result = {
+      ...task.result,
+      success: true,
+      checksum,
+      metadata: { ...task.result?.metadata, hashAlgorithm: algorithm },
+    };
+
+    if (!task.options.verifyOnComplete || !task.destination.fileId) {
+      return;
+    }
+
+    task.status = TransferStatus.VERIFYING;
+    const fileItem = await provider.getFileInfo(task.destination.fileId);
+
+    const chunkHashes: Record<number, string> | undefined = task.metadata?.chunkHashes;
+    const partMd5s = task.chunks && chunkHashes
+      ? task.chunks.map(chunk => chunkHashes[chunk.index])
+      : undefined;
+
+    const match = matchFileChecksum(
+      fileItem,
+      algorithm,
+      checksum,
+      partMd5s?.every(Boolean) ? partMd5s : undefined
+    );
+    if (match === false) {
+      throw new Error(`Checksum mismatch after upload: ${task.fileName}`);
+    }
+
+    task.status = TransferStatus.ACTIVE;
+  }
+
+  /**
+   * 计算下载数据的校验和，并在需要时与提供商返回的哈希/ETag 比对
+   */
+  private async verifyDownload(task: ITransferTask, provider: IStorageProvider): Promise<void> {
+    const session = this.hashSessions.get(task.id);
+    if (!session) {
+      return; // 未开启校验，或从其他会话恢复缺少前面的数据
+    }
+    this.hashSessions.delete(task.id);
+
+    const checksum = await session.digest();
+    task.result = {
+      ...task.result,
+      success: true,
+      fileId: task.source.fileId,
+      filePath: task.source.path,
+      checksum,
+      metadata: { ...task.result?.metadata, hashAlgorithm: session.algorithm },
+    };
+
+    // 范围下载只有部分内容，无法与整个文件比对
+    if (!task.options.verifyOnComplete || task.metadata?.range) {
+      return;
+    }
+
+    task.status = TransferStatus.VERIFYING;
+    const fileItem = await provider.getFileInfo(task.source.fileId || task.source.path);
+    if (matchFileChecksum(fileItem, session.algorithm, checksum) === false) {
+      throw new Error(`Checksum mismatch after download: ${task.fileName}`);
+    }
+
+    task.status = TransferStatus.ACTIVE;
+  }
+
+  // ============================================
+  // 队列顺序与容量
+  // ============================================
+
+  /**
+   * 获取等待中的任务（按启动顺序）
+   */
+  public getQueuedTasks(): ITransferTask[] {
+    return this.orderTasks(
+      Array.from(this.queue.values()).filter(
+        task => task.status === TransferStatus.QUEUED || task.status === TransferStatus.PENDING
+      )
+    );
+  }
+
+  /**
+   * 将任务移到队列最前
+   */
+  public async moveToTop(taskId: string): Promise<void> {
+    this.getWaitingTask(taskId);
+    this.pinnedOrder.set(taskId, --this.pinSequence);
+    await this.emitQueueChanged();
+  }
+
+  /**
+   * 按给定顺序排列任务，这些任务排在其余等待任务之前（替换之前的手动顺序）
+   */
+  public async reorder(taskIds: string[]): Promise<void> {
+    taskIds.forEach(taskId => this.getWaitingTask(taskId));
+
+    this.pinnedOrder.clear();
+    this.pinSequence = 0;
+    taskIds.forEach((taskId, index) => this.pinnedOrder.set(taskId, index));
+    await this.emitQueueChanged();
+  }
+
+  /**
+   * 修改任务优先级，手动调整过的位置随之取消，按新优先级排序
+   */
+  public async setPriority(taskId: string, priority: TransferPriority): Promise<void> {
+    const task = this.queue.get(taskId);
+    if (!task) {
+      throw new Error(`Task not found: ${taskId}`);
+    }
+    if (TransferPriority[priority] === undefined) {
+      throw new Error(`Invalid transfer priority: ${priority}`);
+    }
+
+    task.priority = priority;
+    task.options.priority = priority;
+    this.pinnedOrder.delete(taskId);
+    this.persistTask(task);
+    await this.emitQueueChanged();
+  }
+
+  /**
+   * 获取可调整位置的任务（尚未开始或已暂停）
+   */
+  private getWaitingTask(taskId: string): ITransferTask {
+    const task = this.queue.get(taskId);
+    if (!task) {
+      throw new Error(`Task not found: ${taskId}`);
+    }
+    if (
+      task.status !== TransferStatus.QUEUED &&
+      task.status !== TransferStatus.PENDING &&
+      task.status !== TransferStatus.PAUSED
+    ) {
+      throw new Error(`Task is not waiting in queue: ${taskId}`);
+    }
+    return task;
+  }
+
+  /**
+   * 按队列模式排序
+   */
+  private orderTasks(tasks: ITransferTask[]): ITransferTask[] {
+    return orderQueue(tasks, this.config.priorityMode, {
+      pinned: this.pinnedOrder,
+      agingInterval: this.config.agingInterval,
+    });
+  }
+
+  private async emitQueueChanged(): Promise<void> {
+    await eventBus.emit(CloudEventType.TRANSFER_QUEUE_CHANGED, this.getQueuedTasks(), 'TransferManager');
+  }
+
+  /**
+   * 占用队列名额的任务数（已完成、失败和取消的任务不计入）
+   */
+  private getQueueLength(): number {
+    let count = 0;
+    for (const task of this.queue.values()) {
+      if (
+        task.status !== TransferStatus.COMPLETED &&
+        task.status !== TransferStatus.FAILED &&
+        task.status !== TransferStatus.CANCELLED
+      ) {
+        count++;
+      }
+    }
+    return count;
+  }
+
+  /**
+   * 保留一个队列名额（maxQueueSize 为 0 表示不限制）
+   * 队列已满时按 queueOverflow 拒绝，或等待其他任务结束后再加入
+   */
+  private async acquireQueueSlot(): Promise<void> {
+    while (
+      this.config.maxQueueSize > 0 &&
+      this.getQueueLength() + this.reservedSlots >= this.config.maxQueueSize
+    ) {
+      if (this.config.queueOverflow !== 'wait') {
+        throw new Error(`Transfer queue is full (max ${this.config.maxQueueSize} tasks)`);
+      }
+      await new Promise<void>(resolve => this.queueWaiters.push(resolve));
+    }
+    this.reservedSlots++;
+  }
+
+  /**
+   * 唤醒等待队列名额的调用方（被唤醒后重新检查容量）
+   */
+  private notifyQueueWaiters(): void {
+    for (const resolve of this.queueWaiters.splice(0)) {
+      resolve();
+    }
+  }
+
+  /**
+   * 任务占用的提供商连接：上传计入目标提供商，下载计入源提供商，复制/移动两者都占
+   * 加密层与被包装的提供商共用同一组连接
+   */
+  private getProviderSlots(task: ITransferTask): Array<{ key: string; limit: number }> {
+    const slots: Array<{ key: string; limit: number }> = [];
+    const keyOf = (provider: IStorageProvider) =>
+      provider instanceof EncryptedProvider ? provider.innerProvider.id : provider.id;
+
+    if (task.type !== TransferType.UPLOAD && task.type !== TransferType.FETCH) {
+      const source = this.getTaskProvider(task);
+      if (source) {
+        slots.push({ key: `download:${keyOf(source)}`, limit: source.capabilities.limits.maxDownloadConnections });
+      }
+    }
+    if (task.type !== TransferType.DOWNLOAD) {
+      const target = this.getTargetProvider(task);
+      if (target) {
+        slots.push({ key: `upload:${keyOf(target)}`, limit: target.capabilities.limits.maxUploadConnections });
+      }
+    }
+    return slots;
+  }
+
+  // ============================================
+  // 传输计划
+  // ============================================
+
+  /**
+   * 设置或清除任务的传输计划
+   */
+  public async scheduleTask(taskId: string, schedule?: ITransferSchedule): Promise<void> {
+    const task = this.queue.get(taskId);
+    if (!task) {
+      throw new Error(`Task not found: ${taskId}`);
     }
+
+    await this.scheduleTasks([task], schedule);
   }
 
   /**
-   * 执行传输任务
+   * 设置或清除任务组中所有未结束任务的传输计划
    */
-  private async executeTask(task: ITransferTask): Promise<void> {
-    try {
-      if (task.type === TransferType.UPLOAD) {
-        await this.executeUpload(task);
-      } else if (task.type === TransferType.DOWNLOAD) {
-        await this.executeDownload(task);
+  public async scheduleGroup(groupId: string, schedule?: ITransferSchedule): Promise<void> {
+    const tasks = Array.from(this.queue.values()).filter(task => (
+      task.groupId === groupId &&
+      task.status !== TransferStatus.COMPLETED &&
+      task.status !== TransferStatus.FAILED &&
+      task.status !== TransferStatus.CANCELLED
+    ));
+    if (tasks.length === 0) {
+      throw new Error(`No unfinished tasks in group: ${groupId}`);
+    }
+
+    await this.scheduleTasks(tasks, schedule);
+  }
+
+  private async scheduleTasks(tasks: ITransferTask[], schedule?: ITransferSchedule): Promise<void> {
+    if (schedule) {
+      validateSchedule(schedule);
+    }
+
+    for (const task of tasks) {
+      task.schedule = schedule;
+      this.applySchedule(task);
+      this.persistTask(task);
+    }
+
+    await this.emitQueueChanged();
+    await this.processQueue();
+  }
+
+  /**
+   * 按计划更新任务的等待原因
+   * @returns 任务当前是否可以开始
+   */
+  private applySchedule(task: ITransferTask, now: Date = new Date()): boolean {
+    const block = this.getRetryBlock(task, now) ?? getScheduleBlock(task.schedule, now);
+    task.waitingReason = block?.reason;
+    task.scheduledAt = block?.until;
+    return !block;
+  }
+
+  /**
+   * 等待自动重试的退避时间
+   */
+  private getRetryBlock(task: ITransferTask, now: Date): IScheduleBlock | undefined {
+    if (!task.nextRetryAt) {
+      return undefined;
+    }
+
+    const until = new Date(task.nextRetryAt);
+    if (until <= now) {
+      task.nextRetryAt = undefined;
+      return undefined;
+    }
+    return {
+      reason: `Retrying (${task.retryCount}/${task.maxRetries}) after ${task.errorKind ?? 'unknown'} error`,
+      until,
+    };
+  }
+
+  /**
+   * 传输窗口关闭：中止进行中的请求并回到队列，已完成的分片在窗口打开后跳过
+   */
+  private deferTask(task: ITransferTask, now: Date): void {
+    task.status = TransferStatus.QUEUED;
+    this.activeTransfers.delete(task.id);
+    this.abortControllers.get(task.id)?.abort();
+    this.applySchedule(task, now);
+    this.persistTask(task);
+    this.notifyQueueWaiters();
+  }
+
+  /**
+   * 在最近的计划时间（等待任务的开始时间、进行中任务的窗口关闭时间）唤醒队列
+   * 未开启自动处理时也能按时开始和暂停计划任务
+   */
+  private armScheduleTimer(now: Date): void {
+    let next = Infinity;
+    for (const task of this.queue.values()) {
+      if (task.status === TransferStatus.QUEUED && task.scheduledAt) {
+        next = Math.min(next, new Date(task.scheduledAt).getTime());
+      } else if (task.status === TransferStatus.ACTIVE && task.schedule?.window) {
+        next = Math.min(next, getNextWindowEnd(task.schedule.window, now).getTime());
       }
-    } catch (error) {
-      task.error = error as Error;
-      task.errorMessage = (error as Error).message;
-      task.errorCount++;
+    }
 
-      // 检查是否可以重试
-      if (task.retryCount < task.maxRetries && task.options.autoRetry) {
-        await this.retryTask(task.id);
-      } else {
-        task.status = TransferStatus.FAILED;
-        this.activeTransfers.delete(task.id);
+    // 唤醒时间未变化时保留现有定时器
+    if (next === this.scheduleTimerAt && this.scheduleTimer) {
+      return;
+    }
+    this.clearScheduleTimer();
 
-        await eventBus.emit(
-          task.type === TransferType.UPLOAD ? CloudEventType.UPLOAD_FAILED : CloudEventType.DOWNLOAD_FAILED,
-          task,
-          'TransferManager'
-        );
+    if (next !== Infinity) {
+      const delay = Math.min(Math.max(0, next - now.getTime()), MAX_SCHEDULE_DELAY);
+      this.scheduleTimerAt = next;
+      this.scheduleTimer = setTimeout(() => {
+        this.clearScheduleTimer();
+        this.processQueue().catch(console.error);
+      }, delay);
+    }
+  }
 
-        if (task.options.onError) {
-          task.options.onError(error as Error);
-        }
+  private clearScheduleTimer(): void {
+    if (this.scheduleTimer) {
+      clearTimeout(this.scheduleTimer);
+      this.scheduleTimer = undefined;
+    }
+    this.scheduleTimerAt = Infinity;
+  }
+
+  // ============================================
+  // 带宽限制
+  // ============================================
+
+  /**
+   * 修改单个任务的速度限制（字节/秒，0表示不限制），立即生效
+   */
+  public setTaskSpeedLimit(taskId: string, bytesPerSecond: number): void {
+    const task = this.queue.get(taskId);
+    if (!task) {
+      throw new Error(`Task not found: ${taskId}`);
+    }
+
+    if (task.type === TransferType.DOWNLOAD) {
+      task.options.downloadSpeedLimit = bytesPerSecond;
+    } else {
+      task.options.uploadSpeedLimit = bytesPerSecond;
+    }
+
+    this.taskLimiters.get(taskId)?.setRate(bytesPerSecond);
+    this.persistTask(task);
+  }
+
+  /**
+   * 应用全局速度限制
+   */
+  private applySpeedLimits(): void {
+    this.uploadLimiter.setRate(this.config.uploadSpeedLimit);
+    this.downloadLimiter.setRate(this.config.downloadSpeedLimit);
+  }
+
+  /**
+   * 任务速度限制：任务选项 > 提供商传输配置
+   */
+  private getTaskSpeedLimit(task: ITransferTask): number {
+    const upload = task.type !== TransferType.DOWNLOAD;
+    const transferConfig = this.getTargetProvider(task)?.config.transfer;
+
+    return (
+      (upload ? task.options.uploadSpeedLimit : task.options.downloadSpeedLimit) ??
+      task.options.speedLimit ??
+      (upload ? transferConfig?.upload.speedLimit : transferConfig?.download.speedLimit) ??
+      0
+    );
+  }
+
+  /**
+   * 按全局和任务限速等待令牌
+   */
+  private async throttleTask(task: ITransferTask, bytes: number, signal?: AbortSignal): Promise<void> {
+    await throttle(this.getTaskLimiters(task), bytes, signal);
+  }
+
+  /**
+   * 任务经过的令牌桶（任务限速和全局限速）
+   */
+  private getTaskLimiters(task: ITransferTask): TokenBucket[] {
+    let limiter = this.taskLimiters.get(task.id);
+    if (!limiter) {
+      limiter = new TokenBucket(this.getTaskSpeedLimit(task));
+      this.taskLimiters.set(task.id, limiter);
+    }
+
+    return [limiter, ...this.getGlobalLimiters(task)];
+  }
+
+  /**
+   * 任务占用的全局限速（复制/移动和离线下载任务的数据同时经过下载和上传）
+   */
+  private getGlobalLimiters(task: ITransferTask): TokenBucket[] {
+    switch (task.type) {
+      case TransferType.UPLOAD:
+        return [this.uploadLimiter];
+      case TransferType.DOWNLOAD:
+        return [this.downloadLimiter];
+      default:
+        return [this.uploadLimiter, this.downloadLimiter];
+    }
+  }
+
+  /**
+   * 估算剩余时间使用的速度：当前速度不超过任务限速和全局限速的均分值
+   */
+  private estimateRate(task: ITransferTask): number {
+    let rate = task.progress.speed.current;
+
+    const taskLimit = this.taskLimiters.get(task.id)?.rate || this.getTaskSpeedLimit(task);
+    if (taskLimit > 0) {
+      rate = Math.min(rate, taskLimit);
+    }
+
+    for (const globalLimiter of this.getGlobalLimiters(task)) {
+      if (globalLimiter.limited) {
+        const sharing = Array.from(this.activeTransfers)
+          .filter(id => this.getGlobalLimiters(this.queue.get(id)!).includes(globalLimiter)).length;
+        rate = Math.min(rate, globalLimiter.rate / Math.max(1, sharing));
       }
     }
+
+    return rate;
   }
 
+  // ============================================
+  // 持久化与恢复
+  // ============================================
+
   /**
-   * 执行上传任务
+   * 从 IndexedDB 恢复未完成的任务（提供商实例创建后调用）
+   * 上传任务需要通过 reattachSource 重新选择源文件后才能继续，
+   * 加密任务需要通过 provideEncryptionKey 重新输入口令后才能继续
    */
-  private async executeUpload(task: ITransferTask): Promise<void> {
-    // 这里简化实现，实际应该支持分片上传
-    // 真正的实现会调用provider的uploadFile方法
+  public async restoreTasks(): Promise<ITransferTask[]> {
+    if (!this.store.isAvailable()) {
+      return [];
+    }
 
-    task.status = TransferStatus.ACTIVE;
+    const records = await this.store.getAll();
+    const restored: ITransferTask[] = [];
 
-    // 模拟上传进度
-    const startTime = Date.now();
-    const updateInterval = setInterval(() => {
-      if (task.status !== TransferStatus.ACTIVE) {
-        clearInterval(updateInterval);
-        return;
+    for (const record of records) {
+      if (this.queue.has(record.id)) {
+        continue;
       }
 
-      const elapsed = (Date.now() - startTime) / 1000;
-      task.progress.elapsed = elapsed;
+      const task = this.hydrateTask(record);
+      this.queue.set(task.id, task);
+      if (record.fingerprint) {
+        this.fingerprints.set(task.id, record.fingerprint);
+      }
+      if (record.saveHandle) {
+        this.saveHandles.set(task.id, record.saveHandle);
+      }
+      restored.push(task);
+    }
+
+    if (restored.length > 0) {
+      await eventBus.emit(CloudEventType.TRANSFERS_RESTORED, restored, 'TransferManager');
+    }
+
+    return restored;
+  }
+
+  /**
+   * 查找与所选文件匹配的待恢复上传任务（名称、大小、修改时间和局部哈希）
+   */
+  public async findRestoredUpload(file: File): Promise<ITransferTask | undefined> {
+    const candidates = Array.from(this.queue.values()).filter(task => {
+      const fingerprint = this.fingerprints.get(task.id);
+      return task.requiresSource && fingerprint && matchesFingerprint(file, fingerprint);
+    });
+
+    if (candidates.length === 0) {
+      return undefined;
+    }
+
+    const { partialHash } = await createFileFingerprint(file);
+    return candidates.find(task => this.fingerprints.get(task.id)?.partialHash === partialHash);
+  }
 
-      // 模拟进度
-      const progress = Math.min((elapsed / 10) * 100, 100); // 假设10秒完成
-      task.progress.transferred = (task.fileSize * progress) / 100;
-      task.progress.percentage = progress;
-      task.progress.speed.current = task.progress.transferred / elapsed;
+  /**
+   * 为恢复的上传任务重新关联源文件并继续上传
+   */
+  public async reattachSource(taskId: string, file: File): Promise<void> {
+    const task = this.queue.get(taskId);
+    if (!task) {
+      throw new Error(`Task not found: ${taskId}`);
+    }
 
-      if (task.options.onProgress) {
-        task.options.onProgress(task.progress);
+    const fingerprint = this.fingerprints.get(taskId);
+    if (fingerprint) {
+      const selected = await createFileFingerprint(file);
+      if (
+        !matchesFingerprint(file, fingerprint) ||
+        selected.partialHash !== fingerprint.partialHash
+      ) {
+        throw new Error(`Selected file does not match the interrupted upload: ${task.fileName}`);
       }
+    }
 
-      await eventBus.emit(
-        CloudEventType.UPLOAD_PROGRESS,
-        { task, progress: task.progress },
-        'TransferManager'
-      );
-    }, 100);
+    this.taskSources.set(taskId, file);
+    task.requiresSource = false;
+
+    if (!task.requiresEncryptionKey) {
+      await this.resumeTask(taskId);
+    }
+  }
 
-    // 模拟网络延迟
-    await new Promise(resolve => setTimeout(resolve, 10000));
+  /**
+   * 为恢复的加密任务重新输入口令，重新包装加密层后继续传输
+   * 口令与创建任务时不一致时抛出错误（避免用不同的密钥续传同一个文件）
+   */
+  public async provideEncryptionKey(taskId: string, encryptionKey: string): Promise<void> {
+    const task = this.queue.get(taskId);
+    if (!task) {
+      throw new Error(`Task not found: ${taskId}`);
+    }
+    if (!task.requiresEncryptionKey) {
+      return;
+    }
 
-    clearInterval(updateInterval);
+    // 加密层的 ID 为 `${被包装提供商ID}:encrypted`：下载解密源，其余加密写入目标
+    const relay = task.type === TransferType.COPY || task.type === TransferType.MOVE;
+    const encryptedId = task.type === TransferType.DOWNLOAD ? task.source.providerId : task.destination.providerId;
+    const innerId = encryptedId.replace(/:encrypted$/, '');
+    const inner = providerRegistry.getInstance(innerId);
+    if (!inner) {
+      throw new Error(`Provider not available: ${innerId}`);
+    }
 
-    // 完成
-    task.progress.transferred = task.fileSize;
-    task.progress.percentage = 100;
-    task.status = TransferStatus.COMPLETED;
-    task.completedAt = new Date();
-    this.activeTransfers.delete(task.id);
+    const encrypted = this.getEncryptedProvider(inner, { ...task.options, encryptionKey }) as EncryptedProvider;
+    const expected: string | undefined = task.metadata?.encryptionKeyCheck;
+    if (expected && (await encrypted.getKeyCheck()) !== expected) {
+      throw new Error(`Encryption key does not match the interrupted transfer: ${task.fileName}`);
+    }
 
-    await eventBus.emit(CloudEventType.UPLOAD_COMPLETED, task, 'TransferManager');
+    task.options.encryptionKey = encryptionKey;
+    (relay ? this.targetProviders : this.taskProviders).set(taskId, encrypted);
+    task.requiresEncryptionKey = false;
 
-    if (task.options.onComplete) {
-      task.options.onComplete(task);
+    if (!task.requiresSource) {
+      await this.resumeTask(taskId);
     }
   }
 
   /**
-   * 执行下载任务
+   * 将恢复的记录转换为任务
    */
-  private async executeDownload(task: ITransferTask): Promise<void> {
-    // 类似上传的实现
-    task.status = TransferStatus.ACTIVE;
+  private hydrateTask(record: IPersistedTransfer): ITransferTask {
+    const task = record.task as ITransferTask;
 
-    const startTime = Date.now();
-    const updateInterval = setInterval(() => {
-      if (task.status !== TransferStatus.ACTIVE) {
-        clearInterval(updateInterval);
-        return;
+    // 恢复的任务一律暂停，由用户确认后继续
+    if (
+      task.status !== TransferStatus.FAILED &&
+      task.status !== TransferStatus.PAUSED
+    ) {
+      task.status = TransferStatus.PAUSED;
+      task.pausedAt = new Date();
+    }
+
+    if (task.type !== TransferType.DOWNLOAD) {
+      // 已完成的分片（含 ETag）保留，其余重新上传；复制/移动和离线下载的源不在本地，无需重新选择
+      for (const chunk of task.chunks || []) {
+        if (chunk.status !== TransferStatus.COMPLETED) {
+          chunk.status = TransferStatus.PENDING;
+          chunk.currentSize = 0;
+        }
       }
+      task.requiresSource = task.type === TransferType.UPLOAD;
 
-      const elapsed = (Date.now() - startTime) / 1000;
-      task.progress.elapsed = elapsed;
+      const transferred = task.chunks ? this.getCompletedBytes(task) : 0;
+      task.progress.transferred = transferred;
+      task.progress.percentage = task.fileSize > 0 ? (transferred / task.fileSize) * 100 : 0;
+      task.statistics.transferredBytes = transferred;
+    } else {
+      // 下载写入目标无法跨页面保留，从头开始
+      task.progress.transferred = 0;
+      task.progress.percentage = 0;
+      task.statistics.transferredBytes = 0;
+      task.statistics.completedChunks = 0;
+      for (const chunk of task.chunks || []) {
+        chunk.status = TransferStatus.PENDING;
+        chunk.currentSize = 0;
+      }
+    }
 
-      const progress = Math.min((elapsed / 10) * 100, 100);
-      task.progress.transferred = (task.fileSize * progress) / 100;
-      task.progress.percentage = progress;
-      task.progress.speed.current = task.progress.transferred / elapsed;
+    // 口令不持久化，加密任务需要重新输入口令后才能继续
+    task.requiresEncryptionKey = !!task.options.encrypt;
 
-      if (task.options.onProgress) {
-        task.options.onProgress(task.progress);
-      }
+    task.progress.speed = { current: 0, average: 0, peak: 0 };
+    task.progress.remainingTime = undefined;
 
-      await eventBus.emit(
-        CloudEventType.DOWNLOAD_PROGRESS,
-        { task, progress: task.progress },
-        'TransferManager'
-      );
-    }, 100);
+    return this.attachTaskMethods(task);
+  }
+
+  /**
+   * 保存任务状态
+   */
+  private persistTask(task: ITransferTask): void {
+    if (!this.store.isAvailable()) {
+      return;
+    }
 
-    await new Promise(resolve => setTimeout(resolve, 10000));
+    const { start, pause, resume, cancel, retry, error, ...state } = task;
+    const {
+      onProgress,
+      onComplete,
+      onError,
+      onChunkStart,
+      onChunkComplete,
+      onChunkError,
+      encryptionKey, // 口令不写入本地存储
+      ...options
+    } = task.options;
+
+    const record: IPersistedTransfer = {
+      id: task.id,
+      task: {
+        ...state,
+        options: options as ITransferOptions,
+        chunks: task.chunks?.map(chunk => ({ ...chunk })),
+        events: [],
+      },
+      fingerprint: this.fingerprints.get(task.id),
+      saveHandle: this.saveHandles.get(task.id),
+      updatedAt: Date.now(),
+    };
 
-    clearInterval(updateInterval);
+    this.store.save(record).catch(err => {
+      console.error('Error persisting transfer task:', err);
+    });
+  }
 
-    task.progress.transferred = task.fileSize;
-    task.progress.percentage = 100;
-    task.status = TransferStatus.COMPLETED;
-    task.completedAt = new Date();
-    this.activeTransfers.delete(task.id);
+  /**
+   * 删除任务的持久化状态
+   */
+  private unpersistTask(taskId: string): void {
+    if (this.store.isAvailable()) {
+      this.store.delete(taskId).catch(console.error);
+    }
+  }
+
+  /**
+   * 记录结束的任务（完成、失败或取消）到传输历史
+   */
+  private recordHistory(task: ITransferTask): void {
+    if (transferHistory.isAvailable()) {
+      transferHistory.record(task).catch(err => {
+        console.error('Error recording transfer history:', err);
+      });
+    }
+  }
 
-    await eventBus.emit(CloudEventType.DOWNLOAD_COMPLETED, task, 'TransferManager');
+  /**
+   * 获取任务对应的提供商实例（恢复的任务通过注册表查找）
+   */
+  private getTaskProvider(task: ITransferTask): IStorageProvider | undefined {
+    return (
+      this.taskProviders.get(task.id) ??
+      providerRegistry.getInstance(
+        task.type === TransferType.UPLOAD || task.type === TransferType.FETCH
+          ? task.destination.providerId
+          : task.source.providerId
+      )
+    );
+  }
 
-    if (task.options.onComplete) {
-      task.options.onComplete(task);
+  /**
+   * 获取提供商的加密层（加密传输）
+   */
+  private getEncryptedProvider(provider: IStorageProvider, options: ITransferOptions): IStorageProvider {
+    if (provider instanceof EncryptedProvider) {
+      return provider;
+    }
+    if (!options.encryptionKey) {
+      throw new Error('Encrypted transfer requires an encryption key');
+    }
+
+    const cacheKey = `${provider.id}\n${options.encryptionAlgorithm ?? ''}\n${options.encryptionKey}`;
+    let encrypted = this.encryptedProviders.get(cacheKey);
+    if (!encrypted) {
+      encrypted = new EncryptedProvider(provider, {
+        passphrase: options.encryptionKey,
+        encryption: options.encryptionAlgorithm
+          ? { algorithm: options.encryptionAlgorithm as IEncryptionConfig['algorithm'] }
+          : undefined,
+      });
+      this.encryptedProviders.set(cacheKey, encrypted);
+    }
+    return encrypted;
+  }
+
+  /**
+   * 获取任务写入的目标提供商（上传、复制/移动和离线下载任务）
+   */
+  private getTargetProvider(task: ITransferTask): IStorageProvider | undefined {
+    if (task.type === TransferType.UPLOAD || task.type === TransferType.FETCH) {
+      return this.getTaskProvider(task);
+    }
+    return this.targetProviders.get(task.id) ?? providerRegistry.getInstance(task.destination.providerId);
+  }
+
+  /**
+   * 检查恢复的任务能否继续（上传源文件和加密口令）
+   */
+  private assertSourceAvailable(task: ITransferTask): void {
+    if (task.requiresSource) {
+      throw new Error(`Re-select the source file to resume upload: ${task.fileName}`);
+    }
+    if (task.requiresEncryptionKey) {
+      throw new Error(`Enter the encryption key to resume transfer: ${task.fileName}`);
     }
   }
 
@@ -736,14 +3905,7 @@ export class TransferManager {
     const tasks = Array.from(this.queue.values());
 
     return {
-      totalTasks: tasks.length,
-      activeTasks: tasks.filter(t => t.status === TransferStatus.ACTIVE).length,
-      completedTasks: tasks.filter(t => t.status === TransferStatus.COMPLETED).length,
-      failedTasks: tasks.filter(t => t.status === TransferStatus.FAILED).length,
-      pausedTasks: tasks.filter(t => t.status === TransferStatus.PAUSED).length,
-      queuedTasks: tasks.filter(t => t.status === TransferStatus.QUEUED).length,
-      totalBytes: tasks.reduce((sum, t) => sum + t.fileSize, 0),
-      transferredBytes: tasks.reduce((sum, t) => sum + t.progress.transferred, 0),
+      ...this.summarize(tasks),
       speed: {
         current: this.totalUploadSpeed.current + this.totalDownloadSpeed.current,
         average: this.totalUploadSpeed.average + this.totalDownloadSpeed.average,
@@ -756,7 +3918,43 @@ export class TransferManager {
   }
 
   /**
-   * 清空已完成的任务
+   * 获取任务组的汇总进度（按字节计算百分比）
+   */
+  public getGroupSummary(groupId: string): ITransferSummary {
+    const tasks = Array.from(this.queue.values()).filter(task => task.groupId === groupId);
+    const summary = this.summarize(tasks);
+    const current = tasks
+      .filter(t => t.status === TransferStatus.ACTIVE)
+      .reduce((sum, t) => sum + t.progress.speed.current, 0);
+    const remaining = summary.totalBytes - summary.transferredBytes;
+
+    return {
+      ...summary,
+      speed: {
+        current,
+        average: tasks.reduce((sum, t) => sum + t.progress.speed.average, 0),
+        peak: tasks.reduce((sum, t) => Math.max(sum, t.progress.speed.peak), current),
+      },
+      percentage: summary.totalBytes > 0 ? (summary.transferredBytes / summary.totalBytes) * 100 : 0,
+      estimatedTime: current > 0 ? remaining / current : undefined,
+    };
+  }
+
+  private summarize(tasks: ITransferTask[]): Omit<ITransferSummary, 'speed' | 'percentage'> {
+    return {
+      totalTasks: tasks.length,
+      activeTasks: tasks.filter(t => t.status === TransferStatus.ACTIVE).length,
+      completedTasks: tasks.filter(t => t.status === TransferStatus.COMPLETED).length,
+      failedTasks: tasks.filter(t => t.status === TransferStatus.FAILED).length,
+      pausedTasks: tasks.filter(t => t.status === TransferStatus.PAUSED).length,
+      queuedTasks: tasks.filter(t => t.status === TransferStatus.QUEUED).length,
+      totalBytes: tasks.reduce((sum, t) => sum + t.fileSize, 0),
+      transferredBytes: tasks.reduce((sum, t) => sum + t.progress.transferred, 0),
+    };
+  }
+
+  /**
+   * 清空已完成的任务（任务结束时已记录到传输历史）
    */
   public clearCompleted(): void {
     for (const [id, task] of this.queue.entries()) {
@@ -766,6 +3964,8 @@ export class TransferManager {
         task.status === TransferStatus.CANCELLED
       ) {
         this.queue.delete(id);
+        this.releaseTask(id);
+        this.unpersistTask(id);
       }
     }
   }
@@ -774,8 +3974,27 @@ export class TransferManager {
    * 清空所有任务
    */
   public clearAll(): void {
+    for (const controller of this.abortControllers.values()) {
+      controller.abort();
+    }
     this.queue.clear();
     this.activeTransfers.clear();
+    this.pinnedOrder.clear();
+    this.abortControllers.clear();
+    for (const sink of this.downloadSinks.values()) {
+      sink.abort().catch(console.error);
+    }
+    this.downloadSinks.clear();
+    this.saveHandles.clear();
+    this.speedSamples.clear();
+    this.taskLimiters.clear();
+    this.fingerprints.clear();
+    if (this.store.isAvailable()) {
+      this.store.clear().catch(console.error);
+    }
+    this.taskSources.clear();
+    this.taskProviders.clear();
+    this.notifyQueueWaiters();
   }
 
   /**
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getNextCronTime,
+  getNextWindowEnd,
+  getNextWindowStart,
+  getScheduleBlock,
+  isWithinWindow,
+  validateCron,
+  validateSchedule,
+} from './TransferSchedule';
+
+/**
+ * 本地时间（计划均按本地时间计算）
+ */
+const at = (year: number, month: number, day: number, hours = 0, minutes = 0) =>
+  new Date(year, month - 1, day, hours, minutes);
+
+describe('传输窗口', () => {
+  const night = { start: '22:00', end: '06:00' };
+
+  it('跨午夜的窗口', () => {
+    expect(isWithinWindow(night, at(2024, 6, 1, 23, 30))).toBe(true);
+    expect(isWithinWindow(night, at(2024, 6, 1, 5, 59))).toBe(true);
+    expect(isWithinWindow(night, at(2024, 6, 1, 6, 0))).toBe(false);
+    expect(isWithinWindow(night, at(2024, 6, 1, 21, 59))).toBe(false);
+  });
+
+  it('当天内的窗口包含开始、不包含结束', () => {
+    const office = { start: '09:00', end: '17:30' };
+    expect(isWithinWindow(office, at(2024, 6, 1, 9, 0))).toBe(true);
+    expect(isWithinWindow(office, at(2024, 6, 1, 17, 30))).toBe(false);
+  });
+
+  it('开始和结束相同表示全天', () => {
+    expect(isWithinWindow({ start: '00:00', end: '00:00' }, at(2024, 6, 1, 13, 0))).toBe(true);
+  });
+
+  it('下一次打开和关闭的时间', () => {
+    expect(getNextWindowStart(night, at(2024, 6, 1, 12, 0))).toEqual(at(2024, 6, 1, 22, 0));
+    expect(getNextWindowStart(night, at(2024, 6, 1, 22, 0))).toEqual(at(2024, 6, 2, 22, 0));
+    expect(getNextWindowEnd(night, at(2024, 6, 1, 23, 0))).toEqual(at(2024, 6, 2, 6, 0));
+  });
+});
+
+describe('getScheduleBlock', () => {
+  it('未到开始时间时等待', () => {
+    const block = getScheduleBlock({ startAt: at(2024, 6, 1, 20, 5) }, at(2024, 6, 1, 12, 0));
+    expect(block).toEqual({ reason: 'Scheduled to start at 2024-06-01 20:05', until: at(2024, 6, 1, 20, 5) });
+  });
+
+  it('窗口外等待到窗口打开', () => {
+    const block = getScheduleBlock({ window: { start: '22:00', end: '06:00' } }, at(2024, 6, 1, 12, 0));
+    expect(block).toEqual({ reason: 'Waiting for transfer window 22:00-06:00', until: at(2024, 6, 1, 22, 0) });
+  });
+
+  it('已到开始时间且在窗口内时可以开始', () => {
+    expect(getScheduleBlock(undefined)).toBeUndefined();
+    expect(getScheduleBlock(
+      { startAt: at(2024, 6, 1, 22, 0), window: { start: '22:00', end: '06:00' } },
+      at(2024, 6, 1, 23, 0)
+    )).toBeUndefined();
+  });
+
+  it('校验计划', () => {
+    expect(() => validateSchedule({ window: { start: '24:00', end: '06:00' } })).toThrow('Invalid time of day: 24:00');
+    expect(() => validateSchedule({ window: { start: '9am', end: '06:00' } })).toThrow('Invalid time of day: 9am');
+    expect(() => validateSchedule({ startAt: new Date('not a date') })).toThrow('Invalid schedule start time');
+    expect(() => validateSchedule({ startAt: at(2024, 6, 1), window: { start: '1:30', end: '06:00' } })).not.toThrow();
+  });
+});
+
+describe('getNextCronTime', () => {
+  const from = at(2024, 6, 1, 12, 34); // 周六
+
+  it.each([
+    ['*/15 * * * *', at(2024, 6, 1, 12, 45)],
+    ['0 3 * * *', at(2024, 6, 2, 3, 0)],
+    ['30 2 * * 1-5', at(2024, 6, 3, 2, 30)],
+    ['0 0 1 * *', at(2024, 7, 1, 0, 0)],
+    ['0 9 * * 7', at(2024, 6, 2, 9, 0)],
+    ['0 12,18 * * *', at(2024, 6, 1, 18, 0)],
+    ['@hourly', at(2024, 6, 1, 13, 0)],
+    ['@weekly', at(2024, 6, 2, 0, 0)],
+    ['@yearly', at(2025, 1, 1, 0, 0)],
+  ])('%s', (expression, expected) => {
+    expect(getNextCronTime(expression, from)).toEqual(expected);
+  });
+
+  it('不会返回当前分钟', () => {
+    expect(getNextCronTime('34 12 * * *', from)).toEqual(at(2024, 6, 2, 12, 34));
+  });
+
+  it('日和周同时指定时满足其一即可', () => {
+    // 每月 15 日或每周一
+    expect(getNextCronTime('0 0 15 * 1', from)).toEqual(at(2024, 6, 3, 0, 0));
+    expect(getNextCronTime('0 0 15 * 1', at(2024, 6, 11, 0, 0))).toEqual(at(2024, 6, 15, 0, 0));
+  });
+
+  it('2 月 29 日跨越多年查找', () => {
+    expect(getNextCronTime('0 0 29 2 *', at(2024, 3, 1))).toEqual(at(2028, 2, 29, 0, 0));
+  });
+
+  it('拒绝无效和永不匹配的表达式', () => {
+    expect(() => validateCron('* * * *')).toThrow('Invalid cron expression: * * * *');
+    expect(() => validateCron('60 * * * *')).toThrow('Invalid cron expression');
+    expect(() => validateCron('5-1 * * * *')).toThrow('Invalid cron expression');
+    expect(() => validateCron('*/0 * * * *')).toThrow('Invalid cron expression');
+    expect(() => validateCron('0 0 31 2 *')).toThrow('Cron expression never matches: 0 0 31 2 *');
+  });
+});
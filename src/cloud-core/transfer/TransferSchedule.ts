@@ -0,0 +1,253 @@
+/**
+ * 传输计划
+ * 开始时间、传输时间窗口和 cron 表达式的计算（均按本地时间）
+ */
+
+import { ITransferSchedule, ITransferWindow } from '../providers/base/ITransferOptions';
+
+/**
+ * 任务因计划而等待的信息
+ */
+export interface IScheduleBlock {
+  reason: string;                // 等待原因
+  until: Date;                   // 最早可以开始的时间
+}
+
+/**
+ * 解析后的 cron 表达式
+ */
+interface ICronFields {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  anyDayOfMonth: boolean;        // 日字段为 *
+  anyDayOfWeek: boolean;         // 周字段为 *
+}
+
+/**
+ * 常用 cron 别名
+ */
+const CRON_MACROS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+};
+
+/**
+ * 查找下次执行时间的最大范围（覆盖 2 月 29 日等稀疏表达式）
+ */
+const CRON_SEARCH_YEARS = 8;
+
+/**
+ * 校验传输计划
+ */
+export function validateSchedule(schedule: ITransferSchedule): void {
+  if (schedule.startAt && Number.isNaN(new Date(schedule.startAt).getTime())) {
+    throw new Error('Invalid schedule start time');
+  }
+  if (schedule.window) {
+    parseTime(schedule.window.start);
+    parseTime(schedule.window.end);
+  }
+}
+
+/**
+ * 检查任务当前是否因计划而需要等待
+ * @returns 可以开始时返回 undefined
+ */
+export function getScheduleBlock(schedule: ITransferSchedule | undefined, now: Date = new Date()): IScheduleBlock | undefined {
+  if (!schedule) {
+    return undefined;
+  }
+
+  if (schedule.startAt) {
+    const startAt = new Date(schedule.startAt);
+    if (startAt > now) {
+      return { reason: `Scheduled to start at ${formatDateTime(startAt)}`, until: startAt };
+    }
+  }
+
+  if (schedule.window && !isWithinWindow(schedule.window, now)) {
+    return {
+      reason: `Waiting for transfer window ${schedule.window.start}-${schedule.window.end}`,
+      until: getNextWindowStart(schedule.window, now),
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * 是否处于时间窗口内（开始和结束相同表示全天）
+ */
+export function isWithinWindow(window: ITransferWindow, date: Date = new Date()): boolean {
+  const start = parseTime(window.start);
+  const end = parseTime(window.end);
+  const minutes = date.getHours() * 60 + date.getMinutes();
+
+  if (start === end) {
+    return true;
+  }
+  return start < end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+}
+
+/**
+ * 下一次窗口打开的时间
+ */
+export function getNextWindowStart(window: ITransferWindow, date: Date = new Date()): Date {
+  return getNextTime(parseTime(window.start), date);
+}
+
+/**
+ * 下一次窗口关闭的时间
+ */
+export function getNextWindowEnd(window: ITransferWindow, date: Date = new Date()): Date {
+  return getNextTime(parseTime(window.end), date);
+}
+
+/**
+ * 计算 cron 表达式在指定时间之后的下一次执行时间
+ * 支持五段格式（分 时 日 月 周）、* / , - 语法和 @daily 等别名；
+ * 日和周同时指定时满足其一即可（与常见 cron 实现一致）
+ */
+export function getNextCronTime(expression: string, after: Date = new Date()): Date {
+  const cron = parseCron(expression);
+  const date = new Date(after.getTime());
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+
+  const limit = new Date(after.getTime());
+  limit.setFullYear(limit.getFullYear() + CRON_SEARCH_YEARS);
+
+  while (date <= limit) {
+    if (!cron.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(cron, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!cron.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!cron.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0);
+      continue;
+    }
+    return date;
+  }
+
+  throw new Error(`Cron expression never matches: ${expression}`);
+}
+
+/**
+ * 校验 cron 表达式
+ */
+export function validateCron(expression: string): void {
+  getNextCronTime(expression);
+}
+
+function parseCron(expression: string): ICronFields {
+  const normalized = CRON_MACROS[expression.trim().toLowerCase()] ?? expression.trim();
+  const fields = normalized.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression: ${expression}`);
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+  const daysOfWeek = parseCronField(dayOfWeek, 0, 7, expression);
+  // 周日可以写作 0 或 7
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes: parseCronField(minute, 0, 59, expression),
+    hours: parseCronField(hour, 0, 23, expression),
+    daysOfMonth: parseCronField(dayOfMonth, 1, 31, expression),
+    months: parseCronField(month, 1, 12, expression),
+    daysOfWeek,
+    anyDayOfMonth: dayOfMonth === '*',
+    anyDayOfWeek: dayOfWeek === '*',
+  };
+}
+
+function parseCronField(field: string, min: number, max: number, expression: string): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      throw new Error(`Invalid cron expression: ${expression}`);
+    }
+
+    const step = match[4] ? Number(match[4]) : 1;
+    let from = min;
+    let to = max;
+    if (match[1] !== '*') {
+      from = Number(match[2]);
+      to = match[3] !== undefined ? Number(match[3]) : match[4] ? max : from;
+    }
+
+    if (step < 1 || from < min || to > max || from > to) {
+      throw new Error(`Invalid cron expression: ${expression}`);
+    }
+    for (let value = from; value <= to; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+function matchesDay(cron: ICronFields, date: Date): boolean {
+  const dayOfMonth = cron.daysOfMonth.has(date.getDate());
+  const dayOfWeek = cron.daysOfWeek.has(date.getDay());
+
+  if (cron.anyDayOfMonth || cron.anyDayOfWeek) {
+    return dayOfMonth && dayOfWeek;
+  }
+  return dayOfMonth || dayOfWeek;
+}
+
+/**
+ * 解析 HH:mm 为当天的分钟数
+ */
+function parseTime(time: string): number {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time);
+  const hours = match ? Number(match[1]) : NaN;
+  const minutes = match ? Number(match[2]) : NaN;
+  if (!(hours >= 0 && hours <= 23 && minutes >= 0 && minutes <= 59)) {
+    throw new Error(`Invalid time of day: ${time}`);
+  }
+  return hours * 60 + minutes;
+}
+
+/**
+ * 指定时间之后第一次到达当天某分钟的时间
+ */
+function getNextTime(minutesOfDay: number, date: Date): Date {
+  const next = new Date(date.getTime());
+  next.setHours(Math.floor(minutesOfDay / 60), minutesOfDay % 60, 0, 0);
+  if (next <= date) {
+    next.setDate(next.getDate() + 1);
+  }
+  return next;
+}
+
+function formatDateTime(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
@@ -0,0 +1,475 @@
+/**
+ * 定时传输任务
+ * 按 cron 表达式重复执行的上传任务（如每晚上传某个本地文件夹），
+ * 任务定义和文件夹句柄保存在 IndexedDB，页面打开期间按时执行
+ */
+
+import { providerRegistry } from '../providers/registry/ProviderRegistry';
+import { ITransferTask, TransferStatus } from '../providers/base';
+import { eventBus, CloudEventType } from '../events';
+import { transferManager, TransferTaskOptions } from './TransferManager';
+import { collectDirectoryEntries } from './FolderUpload';
+import { getNextCronTime, validateCron, validateSchedule } from './TransferSchedule';
+
+/**
+ * 定时任务的传输选项（不含回调和运行时对象）
+ */
+export type ScheduledJobOptions = Omit<
+  TransferTaskOptions,
+  | 'onProgress' | 'onComplete' | 'onError' | 'onChunkStart' | 'onChunkComplete' | 'onChunkError'
+  | 'targetProvider' | 'groupId' | 'range' | 'saveHandle'
+>;
+
+/**
+ * 定时任务单次执行结果
+ */
+export interface IScheduledJobResult {
+  runAt: Date;                   // 执行时间
+  groupId?: string;              // 创建的任务组ID
+  taskCount: number;             // 创建的上传任务数
+  skipped: number;               // 未修改或被过滤的文件数
+  error?: string;                // 失败原因
+}
+
+/**
+ * 定时任务
+ */
+export interface IScheduledJob {
+  id: string;                    // 任务ID
+  name: string;                  // 名称
+  cron: string;                  // cron 表达式（分 时 日 月 周），如 "0 22 * * *"
+  providerId: string;            // 目标提供商ID
+  directory: FileSystemDirectoryHandle; // 要上传的本地文件夹
+  options: ScheduledJobOptions;  // 上传选项（目标路径、过滤规则、传输窗口等）
+  incremental: boolean;          // 只上传上次成功执行后修改过的文件
+  enabled: boolean;              // 是否启用
+  createdAt: Date;               // 创建时间
+  nextRunAt?: Date;              // 下次执行时间
+  lastRunAt?: Date;              // 上次执行时间
+  lastSuccessAt?: Date;          // 上次全部文件上传完成的执行时间（增量上传的起点）
+  lastResult?: IScheduledJobResult; // 上次执行结果
+}
+
+/**
+ * 创建定时任务的参数
+ */
+export type ScheduledJobInput = Pick<IScheduledJob, 'name' | 'cron' | 'providerId' | 'directory'> &
+  Partial<Pick<IScheduledJob, 'options' | 'incremental' | 'enabled'>>;
+
+/**
+ * 等待上传完成的执行（全部任务完成后才推进增量上传的起点）
+ */
+interface IPendingRun {
+  jobId: string;                 // 定时任务ID
+  runAt: Date;                   // 执行时间
+  remaining: Set<string>;        // 尚未结束的任务ID
+  failed: boolean;               // 是否有任务失败或被取消
+}
+
+/**
+ * 已结束的任务状态
+ */
+const FINISHED_STATUSES = [TransferStatus.COMPLETED, TransferStatus.FAILED, TransferStatus.CANCELLED];
+
+/**
+ * 定时器的最长间隔（定时器过长时分段等待，避免休眠后时间漂移）
+ */
+const MAX_TIMER_DELAY = 60 * 60 * 1000;
+
+/**
+ * 定时任务默认上传选项：无人值守时同名文件直接覆盖，不等待用户选择
+ */
+const DEFAULT_JOB_OPTIONS: ScheduledJobOptions = {
+  overwrite: true,
+};
+
+/**
+ * 定时任务调度器
+ */
+export class TransferScheduler {
+  private static instance: TransferScheduler;
+  private dbName: string;
+  private storeName: string;
+  private db: IDBDatabase | null = null;
+  private jobs: Map<string, IScheduledJob> = new Map();
+  private running: Set<string> = new Set();
+  private pendingRuns: Map<string, IPendingRun> = new Map();
+  private timer?: ReturnType<typeof setTimeout>;
+  private started = false;
+
+  private constructor(dbName: string = 'cloud-transfer-jobs', storeName: string = 'jobs') {
+    this.dbName = dbName;
+    this.storeName = storeName;
+
+    // 跟踪定时任务创建的上传任务，决定何时推进增量上传的起点
+    eventBus.on(CloudEventType.UPLOAD_COMPLETED, (task: ITransferTask) => this.settleTask(task, true));
+    eventBus.on(CloudEventType.UPLOAD_FAILED, (task: ITransferTask) => this.settleTask(task, false));
+    eventBus.on(CloudEventType.UPLOAD_CANCELLED, (task: ITransferTask) => this.settleTask(task, false));
+  }
+
+  /**
+   * 获取调度器单例
+   */
+  public static getInstance(): TransferScheduler {
+    if (!TransferScheduler.instance) {
+      TransferScheduler.instance = new TransferScheduler();
+    }
+    return TransferScheduler.instance;
+  }
+
+  /**
+   * 是否可用（非浏览器环境或隐私模式下可能不可用）
+   */
+  public isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  /**
+   * 加载保存的定时任务并开始调度（提供商实例创建后调用）
+   * 页面关闭期间错过的执行在启动时补执行一次
+   */
+  public async start(): Promise<void> {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+
+    if (this.isAvailable()) {
+      for (const job of await this.loadAll()) {
+        if (!this.jobs.has(job.id)) {
+          this.jobs.set(job.id, job);
+        }
+      }
+    }
+
+    this.arm();
+  }
+
+  /**
+   * 停止调度（已创建的上传任务不受影响）
+   */
+  public stop(): void {
+    this.started = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * 获取所有定时任务
+   */
+  public getJobs(): IScheduledJob[] {
+    return Array.from(this.jobs.values());
+  }
+
+  /**
+   * 获取定时任务
+   */
+  public getJob(jobId: string): IScheduledJob | undefined {
+    return this.jobs.get(jobId);
+  }
+
+  /**
+   * 添加定时任务
+   */
+  public async addJob(input: ScheduledJobInput): Promise<IScheduledJob> {
+    const options = { ...DEFAULT_JOB_OPTIONS, ...input.options };
+    validateCron(input.cron);
+    if (options.schedule) {
+      validateSchedule(options.schedule);
+    }
+
+    const job: IScheduledJob = {
+      id: `job-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      name: input.name,
+      cron: input.cron,
+      providerId: input.providerId,
+      directory: input.directory,
+      options,
+      incremental: input.incremental ?? true,
+      enabled: input.enabled ?? true,
+      createdAt: new Date(),
+    };
+    job.nextRunAt = job.enabled ? getNextCronTime(job.cron) : undefined;
+
+    this.jobs.set(job.id, job);
+    await this.save(job);
+    this.arm();
+    return job;
+  }
+
+  /**
+   * 修改定时任务
+   */
+  public async updateJob(
+    jobId: string,
+    changes: Partial<Pick<IScheduledJob, 'name' | 'cron' | 'providerId' | 'directory' | 'options' | 'incremental' | 'enabled'>>
+  ): Promise<IScheduledJob> {
+    const job = this.getExistingJob(jobId);
+    if (changes.cron) {
+      validateCron(changes.cron);
+    }
+    if (changes.options?.schedule) {
+      validateSchedule(changes.options.schedule);
+    }
+
+    Object.assign(job, changes);
+    job.nextRunAt = job.enabled ? getNextCronTime(job.cron) : undefined;
+
+    await this.save(job);
+    this.arm();
+    return job;
+  }
+
+  /**
+   * 删除定时任务（已创建的上传任务不受影响）
+   */
+  public async removeJob(jobId: string): Promise<void> {
+    this.jobs.delete(jobId);
+    if (this.isAvailable()) {
+      const db = await this.open();
+      await this.request(db.transaction(this.storeName, 'readwrite').objectStore(this.storeName).delete(jobId));
+    }
+    this.arm();
+  }
+
+  /**
+   * 立即执行一次定时任务
+   */
+  public async runJob(jobId: string): Promise<IScheduledJobResult> {
+    return this.execute(this.getExistingJob(jobId));
+  }
+
+  /**
+   * 请求读取文件夹的权限（页面重新打开后需要在用户手势中调用）
+   */
+  public async requestPermission(jobId: string): Promise<boolean> {
+    const handle = this.getExistingJob(jobId).directory as any;
+    if (!handle.requestPermission) {
+      return true;
+    }
+    return (await handle.requestPermission({ mode: 'read' })) === 'granted';
+  }
+
+  /**
+   * 执行定时任务：收集文件夹中的文件，按任务选项创建上传任务组
+   * 增量上传的起点在本次创建的任务全部完成后才推进；有任务失败、被取消或页面关闭前未完成时不推进，
+   * 下次执行重新上传这些文件
+   */
+  private async execute(job: IScheduledJob): Promise<IScheduledJobResult> {
+    if (this.running.has(job.id)) {
+      throw new Error(`Scheduled job is already running: ${job.name}`);
+    }
+    this.running.add(job.id);
+
+    const runAt = new Date();
+    let result: IScheduledJobResult;
+
+    try {
+      if (this.getPendingRun(job.id)) {
+        throw new Error(`Previous run is still uploading: ${job.name}`);
+      }
+
+      const provider = providerRegistry.getInstance(job.providerId);
+      if (!provider) {
+        throw new Error(`Provider not available: ${job.providerId}`);
+      }
+      if (!(await this.hasReadPermission(job.directory))) {
+        throw new Error(`Permission required to read folder: ${job.directory.name}`);
+      }
+
+      const entries = await collectDirectoryEntries(job.directory);
+      const since = job.incremental ? job.lastSuccessAt?.getTime() : undefined;
+      const changed = since !== undefined
+        ? entries.filter(entry => entry.file.lastModified > since)
+        : entries;
+
+      if (changed.length === 0) {
+        result = { runAt, taskCount: 0, skipped: entries.length };
+        job.lastSuccessAt = runAt;
+      } else {
+        const upload = await transferManager.uploadFolder(provider, changed, { ...job.options });
+        result = {
+          runAt,
+          groupId: upload.groupId,
+          taskCount: upload.tasks.length,
+          skipped: entries.length - changed.length + upload.skipped,
+        };
+
+        // 创建期间可能已有任务结束（如秒传），按当前状态登记
+        const remaining = new Set(upload.tasks.filter(task => !FINISHED_STATUSES.includes(task.status)).map(task => task.id));
+        const failed = upload.tasks.some(task => task.status === TransferStatus.FAILED || task.status === TransferStatus.CANCELLED);
+        if (remaining.size > 0) {
+          this.pendingRuns.set(upload.groupId, { jobId: job.id, runAt, remaining, failed });
+        } else if (!failed) {
+          job.lastSuccessAt = runAt;
+        }
+      }
+    } catch (error) {
+      result = { runAt, taskCount: 0, skipped: 0, error: (error as Error).message };
+    } finally {
+      this.running.delete(job.id);
+    }
+
+    job.lastRunAt = runAt;
+    job.lastResult = result;
+    job.nextRunAt = job.enabled ? getNextCronTime(job.cron, new Date(Math.max(Date.now(), runAt.getTime()))) : undefined;
+    await this.save(job).catch(err => console.error('Error saving scheduled job:', err));
+
+    await eventBus.emit(CloudEventType.TRANSFER_JOB_RUN, { job, result }, 'TransferScheduler');
+    return result;
+  }
+
+  /**
+   * 在最近的执行时间唤醒，执行到期的任务
+   */
+  private arm(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    if (!this.started) {
+      return;
+    }
+
+    const next = Math.min(
+      ...this.getJobs()
+        .filter(job => job.enabled && job.nextRunAt)
+        .map(job => new Date(job.nextRunAt!).getTime())
+    );
+    if (next === Infinity) {
+      return;
+    }
+
+    const delay = Math.min(Math.max(0, next - Date.now()), MAX_TIMER_DELAY);
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.runDueJobs().catch(console.error).finally(() => this.arm());
+    }, delay);
+  }
+
+  private async runDueJobs(): Promise<void> {
+    const now = Date.now();
+    const due = this.getJobs().filter(job => (
+      job.enabled &&
+      job.nextRunAt &&
+      new Date(job.nextRunAt).getTime() <= now &&
+      !this.running.has(job.id)
+    ));
+
+    for (const job of due) {
+      await this.execute(job);
+    }
+  }
+
+  /**
+   * 查找定时任务尚未结束的执行（任务已被移出队列的执行视为失败并丢弃）
+   */
+  private getPendingRun(jobId: string): IPendingRun | undefined {
+    for (const [groupId, run] of this.pendingRuns) {
+      if (run.jobId !== jobId) {
+        continue;
+      }
+      if (Array.from(run.remaining).some(taskId => transferManager.getTask(taskId))) {
+        return run;
+      }
+      this.pendingRuns.delete(groupId);
+    }
+    return undefined;
+  }
+
+  /**
+   * 记录定时任务创建的上传任务结束，全部成功时推进增量上传的起点
+   */
+  private async settleTask(task: ITransferTask, succeeded: boolean): Promise<void> {
+    const run = task.groupId ? this.pendingRuns.get(task.groupId) : undefined;
+    if (!run || !run.remaining.delete(task.id)) {
+      return;
+    }
+
+    run.failed = run.failed || !succeeded;
+    if (run.remaining.size > 0) {
+      return;
+    }
+    this.pendingRuns.delete(task.groupId!);
+
+    const job = this.jobs.get(run.jobId);
+    if (!job || run.failed || (job.lastSuccessAt && job.lastSuccessAt >= run.runAt)) {
+      return;
+    }
+    job.lastSuccessAt = run.runAt;
+    await this.save(job).catch(err => console.error('Error saving scheduled job:', err));
+  }
+
+  private getExistingJob(jobId: string): IScheduledJob {
+    const job = this.jobs.get(jobId);
+    if (!job) {
+      throw new Error(`Scheduled job not found: ${jobId}`);
+    }
+    return job;
+  }
+
+  /**
+   * 检查文件夹读取权限（不弹出授权提示）
+   */
+  private async hasReadPermission(handle: FileSystemDirectoryHandle): Promise<boolean> {
+    const query = (handle as any).queryPermission;
+    if (!query) {
+      return true;
+    }
+    return (await query.call(handle, { mode: 'read' })) === 'granted';
+  }
+
+  // ============================================
+  // 持久化
+  // ============================================
+
+  private async open(): Promise<IDBDatabase> {
+    if (this.db) {
+      return this.db;
+    }
+
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.dbName, 1);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        this.db = request.result;
+        resolve(this.db);
+      };
+
+      request.onupgradeneeded = (event) => {
+        const db = (event.target as IDBOpenDBRequest).result;
+        if (!db.objectStoreNames.contains(this.storeName)) {
+          db.createObjectStore(this.storeName, { keyPath: 'id' });
+        }
+      };
+    });
+  }
+
+  private async loadAll(): Promise<IScheduledJob[]> {
+    const db = await this.open();
+    return this.request(db.transaction(this.storeName, 'readonly').objectStore(this.storeName).getAll());
+  }
+
+  private async save(job: IScheduledJob): Promise<void> {
+    if (!this.isAvailable()) {
+      return;
+    }
+    const db = await this.open();
+    await this.request(db.transaction(this.storeName, 'readwrite').objectStore(this.storeName).put(job));
+  }
+
+  private request<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve(request.result);
+    });
+  }
+}
+
+/**
+ * 定时任务调度器单例导出
+ */
+export const transferScheduler = TransferScheduler.getInstance();
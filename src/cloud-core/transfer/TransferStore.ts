@@ -0,0 +1,175 @@
+/**
+ * 传输任务持久化存储
+ * 将未完成的传输任务保存到 IndexedDB，页面刷新后恢复断点续传
+ */
+
+import { ITransferTask } from '../providers/base/ITransferOptions';
+
+/**
+ * 局部哈希采样大小（文件首尾各取一段）
+ */
+const FINGERPRINT_SAMPLE_SIZE = 64 * 1024;
+
+/**
+ * 源文件指纹（用于重新选择文件时校验是否为同一文件）
+ */
+export interface IFileFingerprint {
+  name: string;                  // 文件名
+  size: number;                  // 文件大小
+  lastModified: number;          // 最后修改时间
+  partialHash: string;           // 首尾采样的 SHA-256
+}
+
+/**
+ * 可持久化的任务（去除回调、方法和错误对象）
+ */
+export type IPersistedTask = Omit<ITransferTask, 'start' | 'pause' | 'resume' | 'cancel' | 'retry' | 'error'>;
+
+/**
+ * 持久化的传输记录
+ */
+export interface IPersistedTransfer {
+  id: string;                    // 任务ID
+  task: IPersistedTask;          // 任务状态（含分片状态、ETag、上传会话）
+  fingerprint?: IFileFingerprint; // 上传源文件指纹
+  saveHandle?: FileSystemFileHandle; // 下载保存位置
+  updatedAt: number;             // 更新时间
+}
+
+/**
+ * 计算源文件指纹
+ */
+export async function createFileFingerprint(file: File | Blob): Promise<IFileFingerprint> {
+  const head = file.slice(0, FINGERPRINT_SAMPLE_SIZE);
+  const tail = file.size > FINGERPRINT_SAMPLE_SIZE
+    ? file.slice(Math.max(FINGERPRINT_SAMPLE_SIZE, file.size - FINGERPRINT_SAMPLE_SIZE))
+    : new Blob();
+
+  const sample = await new Blob([head, tail, String(file.size)]).arrayBuffer();
+  const digest = await crypto.subtle.digest('SHA-256', sample);
+
+  return {
+    name: (file as File).name || '',
+    size: file.size,
+    lastModified: (file as File).lastModified || 0,
+    partialHash: Array.from(new Uint8Array(digest))
+      .map(b => b.toString(16).padStart(2, '0'))
+      .join(''),
+  };
+}
+
+/**
+ * 比较文件基本信息（不计算哈希）
+ */
+export function matchesFingerprint(file: File, fingerprint: IFileFingerprint): boolean {
+  return (
+    file.name === fingerprint.name &&
+    file.size === fingerprint.size &&
+    file.lastModified === fingerprint.lastModified
+  );
+}
+
+/**
+ * 传输任务存储类
+ */
+export class TransferStore {
+  private dbName: string;
+  private storeName: string;
+  private db: IDBDatabase | null = null;
+
+  constructor(dbName: string = 'cloud-transfers', storeName: string = 'tasks') {
+    this.dbName = dbName;
+    this.storeName = storeName;
+  }
+
+  /**
+   * 是否可用（非浏览器环境或隐私模式下可能不可用）
+   */
+  public isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  private async open(): Promise<IDBDatabase> {
+    if (this.db) {
+      return this.db;
+    }
+
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.dbName, 1);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        this.db = request.result;
+        resolve(this.db);
+      };
+
+      request.onupgradeneeded = (event) => {
+        const db = (event.target as IDBOpenDBRequest).result;
+        if (!db.objectStoreNames.contains(this.storeName)) {
+          const store = db.createObjectStore(this.storeName, { keyPath: 'id' });
+          store.createIndex('updatedAt', 'updatedAt', { unique: false });
+        }
+      };
+    });
+  }
+
+  async get(id: string): Promise<IPersistedTransfer | undefined> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(this.storeName, 'readonly');
+      const store = transaction.objectStore(this.storeName);
+      const request = store.get(id);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve(request.result);
+    });
+  }
+
+  async getAll(): Promise<IPersistedTransfer[]> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(this.storeName, 'readonly');
+      const store = transaction.objectStore(this.storeName);
+      const request = store.getAll();
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve(request.result as IPersistedTransfer[]);
+    });
+  }
+
+  async save(record: IPersistedTransfer): Promise<void> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(this.storeName, 'readwrite');
+      const store = transaction.objectStore(this.storeName);
+      const request = store.put(record);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve();
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(this.storeName, 'readwrite');
+      const store = transaction.objectStore(this.storeName);
+      const request = store.delete(id);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve();
+    });
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(this.storeName, 'readwrite');
+      const store = transaction.objectStore(this.storeName);
+      const request = store.clear();
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve();
+    });
+  }
+}
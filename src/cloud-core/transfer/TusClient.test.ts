@@ -0,0 +1,225 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { TusClient, encodeTusMetadata, decodeTusMetadata } from './TusClient';
+import { IChunkInfo, IChunkUploadSession, IUploadOptions, TransferStatus } from '../providers/base';
+import { ITusCapability } from '../providers/base/IProviderCapabilities';
+import { mockFetch, IRecordedRequest } from '../testing/mockFetch';
+
+const ENDPOINT = 'https://tus.example.com/files/';
+const UPLOAD_URL = 'https://tus.example.com/files/upload-1';
+
+/**
+ * 模拟的 tus 服务端
+ * acceptLimit 限制每次 PATCH 接收的字节数；offset 可直接修改以模拟其他客户端写入
+ */
+class FakeTusServer {
+  offset = 0;
+  length = 0;
+  metadata = '';
+  data: number[] = [];
+  acceptLimit = Infinity;
+
+  handle = async (request: IRecordedRequest): Promise<Response | undefined> => {
+    if (request.method === 'POST') {
+      this.length = Number(request.headers.get('Upload-Length'));
+      this.metadata = request.headers.get('Upload-Metadata') || '';
+      return new Response(null, { status: 201, headers: { Location: 'upload-1' } });
+    }
+    if (request.url.toString() !== UPLOAD_URL) {
+      return undefined;
+    }
+
+    if (request.method === 'HEAD') {
+      return new Response(null, {
+        headers: {
+          'Upload-Offset': String(this.offset),
+          'Upload-Length': String(this.length),
+          'Upload-Metadata': this.metadata,
+        },
+      });
+    }
+    if (request.method === 'PATCH') {
+      if (Number(request.headers.get('Upload-Offset')) !== this.offset) {
+        return new Response(null, { status: 409, statusText: 'Conflict' });
+      }
+      const body = new Uint8Array(await new Response(request.body).arrayBuffer()).slice(0, this.acceptLimit);
+      this.data.splice(this.offset, body.length, ...body);
+      this.offset += body.length;
+      return new Response(null, { status: 204, headers: { 'Upload-Offset': String(this.offset) } });
+    }
+    return undefined;
+  };
+}
+
+const createClient = (capability: Partial<ITusCapability> = {}) =>
+  new TusClient({ endpoint: ENDPOINT, version: '1.0.0', extensions: ['creation'], ...capability });
+
+const createFile = (size: number) =>
+  new File([Uint8Array.from({ length: size }, (_, i) => i % 256)], 'video.mp4', { type: 'video/mp4' });
+
+const createChunk = (index: number, offset: number, size: number) =>
+  ({ index, offset, size, status: TransferStatus.ACTIVE, retryCount: 0 }) as IChunkInfo;
+
+const uploadOptions = { fileName: 'video.mp4', targetPath: '/media' } as IUploadOptions;
+
+const patches = (requests: IRecordedRequest[]) =>
+  requests.filter(request => request.method === 'PATCH').map(request => Number(request.headers.get('Upload-Offset')));
+
+describe('TusClient', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('创建上传时提交大小和元数据', async () => {
+    const server = new FakeTusServer();
+    const { requests } = mockFetch(server.handle);
+
+    const session = await createClient().createSession(createFile(10), {
+      ...uploadOptions,
+      metadata: { album: '旅行' },
+    } as IUploadOptions);
+
+    expect(session.uploadId).toBe(UPLOAD_URL);
+    expect(requests[0].headers.get('Tus-Resumable')).toBe('1.0.0');
+    expect(server.length).toBe(10);
+    expect(decodeTusMetadata(server.metadata)).toEqual({
+      album: '旅行',
+      filename: 'video.mp4',
+      filetype: 'video/mp4',
+      targetPath: '/media',
+    });
+  });
+
+  it('服务端只接收部分数据时从返回的偏移继续', async () => {
+    const server = new FakeTusServer();
+    server.acceptLimit = 4;
+    const { requests } = mockFetch(server.handle);
+    const client = createClient();
+    const file = createFile(10);
+
+    const session = await client.createSession(file, uploadOptions);
+    await client.uploadChunk(session, createChunk(0, 0, 10), file);
+
+    expect(patches(requests)).toEqual([0, 4, 8]);
+    expect(server.data).toEqual(Array.from(new Uint8Array(await file.arrayBuffer())));
+    expect((await client.finishSession(session)).offset).toBe(10);
+  });
+
+  it('偏移冲突（409）时查询服务端偏移并只发送剩余部分', async () => {
+    const server = new FakeTusServer();
+    const { requests } = mockFetch(server.handle);
+    const client = createClient();
+    const file = createFile(10);
+
+    const session = await client.createSession(file, uploadOptions);
+    // 上一次请求已被服务端接收，但客户端没有收到响应
+    server.data = Array.from(new Uint8Array(await file.slice(0, 6).arrayBuffer()));
+    server.offset = 6;
+
+    await client.uploadChunk(session, createChunk(0, 0, 10), file);
+
+    expect(requests.map(request => request.method)).toEqual(['POST', 'PATCH', 'HEAD', 'PATCH']);
+    expect(patches(requests)).toEqual([0, 6]);
+    expect(server.data).toEqual(Array.from(new Uint8Array(await file.arrayBuffer())));
+  });
+
+  it('服务端偏移落后于分片开始位置时报错', async () => {
+    const server = new FakeTusServer();
+    mockFetch(server.handle);
+    const client = createClient();
+    const file = createFile(10);
+    const session = await client.createSession(file, uploadOptions);
+
+    await expect(client.uploadChunk(session, createChunk(1, 5, 5), file.slice(5)))
+      .rejects.toThrow('Upload offset 0 is behind chunk 1 at 5');
+  });
+
+  it('连续两次偏移冲突时不再重试', async () => {
+    const server = new FakeTusServer();
+    const { requests } = mockFetch(async request => {
+      if (request.method === 'PATCH') {
+        server.offset++; // 每次查询后服务端偏移都已变化
+        return new Response(null, { status: 409, statusText: 'Conflict' });
+      }
+      return server.handle(request);
+    });
+    const client = createClient();
+    const file = createFile(10);
+    const session = await client.createSession(file, uploadOptions);
+
+    await expect(client.uploadChunk(session, createChunk(0, 0, 10), file)).rejects.toMatchObject({ status: 409 });
+    expect(patches(requests)).toHaveLength(2);
+  });
+
+  it('服务端没有接收任何数据时报错，避免无限循环', async () => {
+    const server = new FakeTusServer();
+    server.acceptLimit = 0;
+    mockFetch(server.handle);
+    const client = createClient();
+    const file = createFile(10);
+    const session = await client.createSession(file, uploadOptions);
+
+    await expect(client.uploadChunk(session, createChunk(0, 0, 10), file))
+      .rejects.toThrow('tus server accepted no data at offset 0');
+  });
+
+  it('恢复会话后从服务端偏移继续上传', async () => {
+    const server = new FakeTusServer();
+    const { requests } = mockFetch(server.handle);
+    const client = createClient();
+    const file = createFile(10);
+    const session = await client.createSession(file, uploadOptions);
+    server.data = Array.from(new Uint8Array(await file.slice(0, 7).arrayBuffer()));
+    server.offset = 7;
+
+    // 页面刷新后只保留了上传地址
+    const restored: IChunkUploadSession = { uploadId: session.uploadId, metadata: { tus: { offset: 0, size: 10 } } };
+    expect(await client.getSessionOffset(restored)).toBe(7);
+
+    const progress: number[] = [];
+    await client.uploadFile(restored, file, 4, { onProgress: offset => progress.push(offset) });
+
+    // 第 1 个分片（4-8）只发送服务端缺少的 7-8，之后继续第 2 个分片
+    expect(patches(requests)).toEqual([7, 8]);
+    expect(progress).toEqual([8, 10]);
+    expect(server.data).toEqual(Array.from(new Uint8Array(await file.arrayBuffer())));
+  });
+
+  it('服务端数据不完整时完成会话失败', async () => {
+    const server = new FakeTusServer();
+    mockFetch(server.handle);
+    const client = createClient();
+    const session = await client.createSession(createFile(10), uploadOptions);
+    server.offset = 4;
+
+    await expect(client.finishSession(session)).rejects.toThrow('tus upload incomplete: 4 of 10 bytes received');
+  });
+
+  it('服务端支持 checksum 扩展时附带 Upload-Checksum', async () => {
+    // Node 环境没有 Worker，哈希在主线程计算
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const server = new FakeTusServer();
+    const { requests } = mockFetch(server.handle);
+    const client = createClient({ extensions: ['creation', 'checksum'], checksumAlgorithms: ['md5', 'sha1'] });
+    const file = new File([new TextEncoder().encode('hello')], 'hello.txt');
+
+    const session = await client.createSession(file, { ...uploadOptions, verifyHash: true } as IUploadOptions);
+    await client.uploadChunk(session, createChunk(0, 0, 5), file);
+
+    const patch = requests.find(request => request.method === 'PATCH')!;
+    expect(patch.headers.get('Upload-Checksum')).toBe('sha1 qvTGHdzF6KLavt4PO0gs2a6pQ00=');
+  });
+
+  it('上传不存在时查询状态返回 404 错误', async () => {
+    mockFetch(() => undefined);
+
+    await expect(createClient().getStatus(UPLOAD_URL)).rejects.toMatchObject({ status: 404 });
+  });
+
+  it('元数据编码和解码', () => {
+    const header = encodeTusMetadata({ filename: '报告.pdf', empty: '', 'bad key': 'x' });
+    expect(header).toBe(`filename ${Buffer.from('报告.pdf').toString('base64')},empty`);
+    expect(decodeTusMetadata(header)).toEqual({ filename: '报告.pdf', empty: '' });
+    expect(decodeTusMetadata('a !!!,b')).toEqual({ b: '' });
+  });
+});
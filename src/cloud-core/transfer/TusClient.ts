@@ -0,0 +1,435 @@
+/**
+ * tus 1.0 可续传上传客户端
+ * 实现 creation、HEAD 偏移恢复、PATCH 分片、termination 和 checksum 扩展，
+ * 并提供与分片上传契约（initChunkUpload/uploadChunk/...）对应的方法，供声明了 tus 的提供商直接委托
+ */
+
+import {
+  IChunkUploadSession,
+  IChunkUploadResult,
+  IUploadOptions,
+} from '../providers/base/IStorageProvider';
+import { IChunkInfo, TransferStatus } from '../providers/base/ITransferOptions';
+import { ITusCapability, TusExtension } from '../providers/base/IProviderCapabilities';
+import { createHttpError, IHttpError } from './RetryPolicy';
+import { hashService } from './HashService';
+import { HashAlgorithm, hexToBytes } from './HashAlgorithms';
+
+/**
+ * 客户端实现的协议版本
+ */
+export const TUS_VERSION = '1.0.0';
+
+/**
+ * 按优先顺序排列的校验算法（与服务端声明的算法取交集）
+ */
+const CHECKSUM_ALGORITHMS: HashAlgorithm[] = ['sha1', 'sha256', 'md5', 'crc32'];
+
+/**
+ * 发送请求的方法（提供商传入带认证的实现）
+ */
+export type TusRequest = (url: string, init: RequestInit) => Promise<Response>;
+
+/**
+ * OPTIONS 查询到的服务端信息
+ */
+export interface ITusServerInfo {
+  versions: string[];            // 支持的协议版本（Tus-Version）
+  extensions: TusExtension[];    // 支持的扩展（Tus-Extension）
+  checksumAlgorithms: string[];  // 支持的校验算法（Tus-Checksum-Algorithm）
+  maxSize?: number;              // 单个上传的最大字节数（Tus-Max-Size）
+}
+
+/**
+ * 上传状态（HEAD 结果）
+ */
+export interface ITusUploadStatus {
+  offset: number;                // 服务端已接收的字节数（Upload-Offset）
+  length?: number;               // 上传总大小（延迟声明长度时为空）
+  metadata: Record<string, string>; // 创建时提交的元数据
+  expiresAt?: Date;              // 过期时间（expiration 扩展）
+}
+
+/**
+ * PATCH 选项
+ */
+export interface ITusPatchOptions {
+  checksumAlgorithm?: HashAlgorithm; // 附带 Upload-Checksum 时使用的算法
+  signal?: AbortSignal;          // 中止信号
+}
+
+/**
+ * tus 会话在 IChunkUploadSession.metadata 中保存的数据
+ */
+interface ITusSessionState {
+  offset: number;                // 最近一次确认的服务端偏移
+  size: number;                  // 上传总大小
+  checksumAlgorithm?: HashAlgorithm; // 每次 PATCH 附带校验和时使用的算法
+}
+
+/**
+ * tus 客户端
+ * uploadId 即上传地址（创建时服务端返回的 Location）
+ */
+export class TusClient {
+  constructor(
+    private capability: ITusCapability,
+    private request: TusRequest = (url, init) => fetch(url, init)
+  ) {}
+
+  /**
+   * 是否支持指定扩展
+   */
+  public supports(extension: TusExtension): boolean {
+    return this.capability.extensions.includes(extension);
+  }
+
+  /**
+   * 查询服务端支持的版本、扩展和限制（OPTIONS）
+   */
+  public async discover(signal?: AbortSignal): Promise<ITusServerInfo> {
+    const response = await this.request(this.capability.endpoint, { method: 'OPTIONS', signal });
+    if (!response.ok) {
+      throw createHttpError(response, `tus discovery failed (${response.status}): ${response.statusText}`);
+    }
+
+    const maxSize = response.headers.get('Tus-Max-Size');
+    return {
+      versions: splitHeader(response.headers.get('Tus-Version')),
+      extensions: splitHeader(response.headers.get('Tus-Extension')) as TusExtension[],
+      checksumAlgorithms: splitHeader(response.headers.get('Tus-Checksum-Algorithm')),
+      maxSize: maxSize ? Number(maxSize) : undefined,
+    };
+  }
+
+  /**
+   * 创建上传
+   * @returns 上传地址
+   */
+  public async create(size: number, metadata: Record<string, string> = {}, signal?: AbortSignal): Promise<string> {
+    const maxSize = this.capability.maxSize;
+    if (maxSize && size > maxSize) {
+      throw new Error(`File exceeds tus upload limit: ${size} > ${maxSize}`);
+    }
+
+    const response = await this.request(this.capability.endpoint, {
+      method: 'POST',
+      headers: this.headers({
+        'Upload-Length': String(size),
+        'Upload-Metadata': encodeTusMetadata(metadata),
+      }),
+      signal,
+    });
+    if (response.status !== 201) {
+      throw createHttpError(response, `tus creation failed (${response.status}): ${response.statusText}`);
+    }
+
+    const location = response.headers.get('Location');
+    if (!location) {
+      throw new Error('tus creation response is missing the Location header');
+    }
+    return new URL(location, this.capability.endpoint).toString();
+  }
+
+  /**
+   * 查询上传状态（HEAD）
+   * 上传不存在或已过期时抛出带 404/410 状态的错误
+   */
+  public async getStatus(uploadUrl: string, signal?: AbortSignal): Promise<ITusUploadStatus> {
+    const response = await this.request(uploadUrl, {
+      method: 'HEAD',
+      headers: this.headers({ 'Cache-Control': 'no-store' }),
+      signal,
+    });
+    if (!response.ok) {
+      throw createHttpError(response, `tus offset request failed (${response.status}): ${response.statusText}`);
+    }
+
+    const offset = Number(response.headers.get('Upload-Offset'));
+    if (!Number.isFinite(offset) || offset < 0) {
+      throw new Error(`Invalid Upload-Offset from ${uploadUrl}`);
+    }
+
+    const length = response.headers.get('Upload-Length');
+    return {
+      offset,
+      length: length !== null ? Number(length) : undefined,
+      metadata: decodeTusMetadata(response.headers.get('Upload-Metadata')),
+      expiresAt: parseExpires(response.headers.get('Upload-Expires')),
+    };
+  }
+
+  /**
+   * 从指定偏移追加数据（PATCH）
+   * 服务端可能只接收部分数据，调用方需按返回的偏移继续
+   * @returns 服务端新的偏移
+   */
+  public async patch(uploadUrl: string, offset: number, data: Blob, options: ITusPatchOptions = {}): Promise<number> {
+    const headers: Record<string, string> = {
+      'Upload-Offset': String(offset),
+      'Content-Type': 'application/offset+octet-stream',
+    };
+    if (options.checksumAlgorithm) {
+      const digest = await hashService.hash(data, options.checksumAlgorithm);
+      headers['Upload-Checksum'] = `${options.checksumAlgorithm} ${toBase64(hexToBytes(digest))}`;
+    }
+
+    const response = await this.request(uploadUrl, {
+      method: 'PATCH',
+      headers: this.headers(headers),
+      body: data,
+      signal: options.signal,
+    });
+
+    // 460 Checksum Mismatch 按完整性错误处理（重传该段）
+    if (response.status === 460) {
+      throw new Error(`Upload checksum mismatch at offset ${offset}`);
+    }
+    if (response.status !== 204 && response.status !== 200) {
+      throw createHttpError(response, `tus upload failed (${response.status}): ${response.statusText}`);
+    }
+
+    const next = Number(response.headers.get('Upload-Offset'));
+    if (!Number.isFinite(next) || next < offset) {
+      throw new Error(`Invalid Upload-Offset from ${uploadUrl}`);
+    }
+    return next;
+  }
+
+  /**
+   * 终止上传并删除已接收的数据（termination 扩展）
+   */
+  public async terminate(uploadUrl: string, signal?: AbortSignal): Promise<void> {
+    if (!this.supports('termination')) {
+      throw new Error('tus server does not support termination');
+    }
+
+    const response = await this.request(uploadUrl, { method: 'DELETE', headers: this.headers(), signal });
+    if (!response.ok && response.status !== 404 && response.status !== 410) {
+      throw createHttpError(response, `tus termination failed (${response.status}): ${response.statusText}`);
+    }
+  }
+
+  // ============================================
+  // 分片上传契约
+  // ============================================
+
+  /**
+   * 创建上传并返回分片上传会话
+   * 元数据包含 filename、filetype、targetPath 和自定义元数据
+   */
+  public async createSession(file: File | Blob, options: IUploadOptions): Promise<IChunkUploadSession> {
+    const uploadUrl = await this.create(file.size, {
+      ...stringifyMetadata(options.metadata),
+      filename: options.fileName,
+      filetype: file.type || 'application/octet-stream',
+      targetPath: options.targetPath,
+    });
+
+    const state: ITusSessionState = {
+      offset: 0,
+      size: file.size,
+      checksumAlgorithm: options.verifyPerChunk || options.verifyHash ? this.getChecksumAlgorithm() : undefined,
+    };
+    return { uploadId: uploadUrl, metadata: { tus: state } };
+  }
+
+  /**
+   * 上传一个分片
+   * 分片必须按偏移顺序上传；服务端已接收分片的前半部分时只发送剩余部分，
+   * 偏移不一致（409）时查询服务端偏移后继续
+   */
+  public async uploadChunk(
+    session: IChunkUploadSession,
+    chunk: IChunkInfo,
+    data: Blob,
+    signal?: AbortSignal
+  ): Promise<IChunkUploadResult> {
+    const state = getSessionState(session);
+    const end = chunk.offset + chunk.size;
+    let offset = state.offset > chunk.offset && state.offset <= end ? state.offset : chunk.offset;
+    let resynced = false;
+
+    while (offset < end) {
+      try {
+        const body = data.slice(offset - chunk.offset);
+        offset = this.advance(offset, await this.patch(session.uploadId, offset, body, {
+          checksumAlgorithm: state.checksumAlgorithm,
+          signal,
+        }));
+      } catch (error) {
+        if ((error as IHttpError).status !== 409 || resynced) {
+          throw error;
+        }
+        resynced = true;
+
+        const status = await this.getStatus(session.uploadId, signal);
+        if (status.offset < chunk.offset) {
+          throw new Error(`Upload offset ${status.offset} is behind chunk ${chunk.index} at ${chunk.offset}`);
+        }
+        offset = Math.min(status.offset, end);
+      }
+      state.offset = offset;
+    }
+
+    return {};
+  }
+
+  /**
+   * 按固定大小依次上传整个文件（从会话记录的偏移继续）
+   * @param onProgress - 每段完成后回调服务端已确认的偏移
+   */
+  public async uploadFile(
+    session: IChunkUploadSession,
+    file: Blob,
+    chunkSize: number,
+    options: { signal?: AbortSignal; onProgress?: (offset: number) => void } = {}
+  ): Promise<void> {
+    const state = getSessionState(session);
+    const size = Math.max(1, chunkSize);
+
+    for (let index = Math.floor(state.offset / size); index * size < file.size; index++) {
+      const offset = index * size;
+      const chunk: IChunkInfo = {
+        index,
+        offset,
+        size: Math.min(size, file.size - offset),
+        status: TransferStatus.ACTIVE,
+        retryCount: 0,
+      };
+      await this.uploadChunk(session, chunk, file.slice(offset, offset + chunk.size), options.signal);
+      options.onProgress?.(state.offset);
+    }
+  }
+
+  /**
+   * 查询会话的服务端偏移，并更新会话中记录的偏移
+   */
+  public async getSessionOffset(session: IChunkUploadSession, signal?: AbortSignal): Promise<number> {
+    const status = await this.getStatus(session.uploadId, signal);
+    session.metadata = { ...session.metadata, tus: { ...getSessionState(session), offset: status.offset } };
+    session.expiresAt = status.expiresAt ?? session.expiresAt;
+    return status.offset;
+  }
+
+  /**
+   * 确认服务端已接收全部数据
+   */
+  public async finishSession(session: IChunkUploadSession, signal?: AbortSignal): Promise<ITusUploadStatus> {
+    const status = await this.getStatus(session.uploadId, signal);
+    const size = status.length ?? getSessionState(session).size;
+    if (status.offset !== size) {
+      throw new Error(`tus upload incomplete: ${status.offset} of ${size} bytes received`);
+    }
+    return status;
+  }
+
+  /**
+   * 放弃会话（服务端不支持 termination 时保留数据等待过期）
+   */
+  public async abortSession(session: IChunkUploadSession): Promise<void> {
+    if (this.supports('termination')) {
+      await this.terminate(session.uploadId);
+    }
+  }
+
+  // ============================================
+  // 私有辅助方法
+  // ============================================
+
+  /**
+   * 添加协议版本头
+   */
+  private headers(headers: Record<string, string> = {}): Record<string, string> {
+    return { 'Tus-Resumable': this.capability.version || TUS_VERSION, ...headers };
+  }
+
+  /**
+   * 服务端声明 checksum 扩展时选择双方都支持的算法
+   */
+  private getChecksumAlgorithm(): HashAlgorithm | undefined {
+    if (!this.supports('checksum')) {
+      return undefined;
+    }
+    const supported = (this.capability.checksumAlgorithms || []).map(name => name.toLowerCase());
+    return CHECKSUM_ALGORITHMS.find(algorithm => supported.includes(algorithm));
+  }
+
+  /**
+   * 检查 PATCH 后偏移是否前进，避免服务端不接收数据时无限循环
+   */
+  private advance(offset: number, next: number): number {
+    if (next <= offset) {
+      throw new Error(`tus server accepted no data at offset ${offset}`);
+    }
+    return next;
+  }
+}
+
+/**
+ * 编码 Upload-Metadata（键 + 空格 + Base64 值，逗号分隔）
+ */
+export function encodeTusMetadata(metadata: Record<string, string>): string {
+  return Object.entries(metadata)
+    .filter(([key]) => /^[^\s,]+$/.test(key))
+    .map(([key, value]) => (value ? `${key} ${toBase64(new TextEncoder().encode(value))}` : key))
+    .join(',');
+}
+
+/**
+ * 解码 Upload-Metadata
+ */
+export function decodeTusMetadata(header: string | null): Record<string, string> {
+  const metadata: Record<string, string> = {};
+  if (!header) {
+    return metadata;
+  }
+
+  for (const pair of header.split(',')) {
+    const [key, value] = pair.trim().split(/\s+/);
+    if (!key) {
+      continue;
+    }
+    try {
+      metadata[key] = value ? new TextDecoder().decode(Uint8Array.from(atob(value), c => c.charCodeAt(0))) : '';
+    } catch {
+      // 忽略无效的 Base64 值
+    }
+  }
+  return metadata;
+}
+
+function getSessionState(session: IChunkUploadSession): ITusSessionState {
+  const state = session.metadata?.tus as ITusSessionState | undefined;
+  if (!state) {
+    throw new Error(`Not a tus upload session: ${session.uploadId}`);
+  }
+  return state;
+}
+
+function stringifyMetadata(metadata?: Record<string, any>): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [key, value] of Object.entries(metadata || {})) {
+    if (value !== undefined && value !== null) {
+      result[key] = typeof value === 'string' ? value : JSON.stringify(value);
+    }
+  }
+  return result;
+}
+
+function splitHeader(value: string | null): string[] {
+  return value ? value.split(',').map(item => item.trim()).filter(Boolean) : [];
+}
+
+function parseExpires(value: string | null): Date | undefined {
+  const time = value ? Date.parse(value) : NaN;
+  return Number.isNaN(time) ? undefined : new Date(time);
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
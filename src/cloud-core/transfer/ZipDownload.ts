@@ -0,0 +1,282 @@
+/**
+ * 打包下载
+ * 将选中的文件和文件夹（递归展开）边下载边写入一个 ZIP 归档；
+ * 提供商支持服务端打包（batchDownload）时直接下载服务端生成的归档
+ */
+
+import { IFileItem, FileType } from '../providers/base/IFileItem';
+import { IStorageProvider } from '../providers/base/IStorageProvider';
+import { ITransferOptions } from '../providers/base/ITransferOptions';
+import { createDownloadSink, IDownloadSink } from './DownloadSink';
+import { ZipWriter } from './ZipWriter';
+import { generateUniqueName } from './ConflictResolver';
+
+/**
+ * 打包下载选项
+ */
+export interface IZipDownloadOptions extends Pick<Partial<ITransferOptions>, 'compress' | 'compressionLevel'> {
+  archiveName?: string;          // 归档文件名（默认按所选项目命名）
+  saveHandle?: FileSystemFileHandle; // 已选择的保存文件
+  signal?: AbortSignal;          // 中止信号
+  onProgress?: (progress: IZipDownloadProgress) => void; // 进度回调
+}
+
+/**
+ * 打包下载进度
+ */
+export interface IZipDownloadProgress {
+  transferred: number;           // 已读取的原始字节数
+  total: number;                 // 所有文件的总字节数
+  percentage: number;            // 百分比（0-100）
+  currentFile?: string;          // 正在写入的条目
+}
+
+/**
+ * 打包下载结果
+ */
+export interface IZipDownloadResult {
+  fileName: string;              // 归档文件名
+  fileCount: number;             // 文件数
+  folderCount: number;           // 文件夹数
+  totalBytes: number;            // 文件总字节数（压缩前）
+  serverSide: boolean;           // 是否由服务端打包
+}
+
+/**
+ * 归档条目
+ */
+interface IArchiveEntry {
+  file: IFileItem;
+  path: string;                  // 归档内路径
+}
+
+/**
+ * 已经压缩过的格式，再次 DEFLATE 几乎没有收益
+ */
+const COMPRESSED_EXTENSIONS = new Set([
+  'zip', 'rar', '7z', 'gz', 'tgz', 'bz2', 'xz', 'zst', 'lz4',
+  'jpg', 'jpeg', 'png', 'gif', 'webp', 'heic', 'avif',
+  'mp3', 'aac', 'm4a', 'ogg', 'opus', 'flac',
+  'mp4', 'm4v', 'mkv', 'mov', 'webm', 'avi',
+  'docx', 'xlsx', 'pptx', 'apk', 'jar', 'epub',
+]);
+
+/**
+ * 打包下载多个文件/文件夹
+ */
+export async function downloadAsZip(
+  provider: IStorageProvider,
+  fileIds: string[],
+  options: IZipDownloadOptions = {}
+): Promise<IZipDownloadResult> {
+  if (fileIds.length === 0) {
+    throw new Error('No files selected');
+  }
+
+  const selected = await provider.getFilesInfo(fileIds);
+  if (selected.length === 0) {
+    throw new Error('Selected files not found');
+  }
+
+  const fileName = options.archiveName || getArchiveName(selected);
+  const sink = await createDownloadSink({
+    fileName,
+    mimeType: 'application/zip',
+    fileHandle: options.saveHandle,
+  });
+
+  try {
+    const result = provider.capabilities.supports.batchDownload && provider.openArchiveStream
+      ? await writeServerArchive(provider, selected, sink, options)
+      : await writeArchive(provider, selected, sink, options);
+
+    await sink.close();
+    return { ...result, fileName };
+  } catch (error) {
+    await sink.abort(options.signal?.aborted ? 'cancelled' : (error as Error).message).catch(console.error);
+    throw error;
+  }
+}
+
+/**
+ * 在浏览器中逐个读取文件并写入归档
+ */
+async function writeArchive(
+  provider: IStorageProvider,
+  selected: IFileItem[],
+  sink: IDownloadSink,
+  options: IZipDownloadOptions
+): Promise<Omit<IZipDownloadResult, 'fileName'>> {
+  const entries = await collectEntries(provider, selected, options.signal);
+  const files = entries.filter(entry => entry.file.type !== FileType.FOLDER);
+  const total = files.reduce((sum, entry) => sum + entry.file.size, 0);
+  const compress = !!options.compress && options.compressionLevel !== 0;
+
+  const zip = new ZipWriter();
+  const piping = pipeToSink(zip.readable, sink);
+  // 写入目标失败时结束归档写入，避免等待读取端
+  piping.catch(error => zip.abort(error));
+
+  let completed = 0;
+  const report = (transferred: number, currentFile?: string) => {
+    options.onProgress?.({
+      transferred,
+      total,
+      percentage: total > 0 ? (transferred / total) * 100 : 100,
+      currentFile,
+    });
+  };
+
+  try {
+    for (const { file, path } of entries) {
+      options.signal?.throwIfAborted();
+
+      if (file.type === FileType.FOLDER) {
+        await zip.addDirectory(path, { lastModified: file.modifiedAt });
+        continue;
+      }
+
+      const stream = await openFileStream(provider, file, options.signal);
+      await zip.addFile(path, stream, {
+        lastModified: file.modifiedAt,
+        compress: compress && !isCompressedFormat(file.name),
+        onProgress: bytes => report(completed + bytes, path),
+      });
+      completed += file.size;
+      report(completed, path);
+    }
+
+    await zip.close();
+    await piping;
+  } catch (error) {
+    await zip.abort(error);
+    throw error;
+  }
+
+  return {
+    fileCount: files.length,
+    folderCount: entries.length - files.length,
+    totalBytes: total,
+    serverSide: false,
+  };
+}
+
+/**
+ * 下载服务端生成的归档
+ */
+async function writeServerArchive(
+  provider: IStorageProvider,
+  selected: IFileItem[],
+  sink: IDownloadSink,
+  options: IZipDownloadOptions
+): Promise<Omit<IZipDownloadResult, 'fileName'>> {
+  const stream = await provider.openArchiveStream!(selected.map(file => file.id), options.signal);
+  // 服务端归档大小未知，按所选文件大小估算进度（文件夹大小可能为 0）
+  const total = selected.reduce((sum, file) => sum + file.size, 0);
+
+  await pipeToSink(stream, sink, transferred => options.onProgress?.({
+    transferred,
+    total,
+    percentage: total > 0 ? Math.min(100, (transferred / total) * 100) : 0,
+  }));
+
+  return {
+    fileCount: selected.filter(file => file.type !== FileType.FOLDER).length,
+    folderCount: selected.filter(file => file.type === FileType.FOLDER).length,
+    totalBytes: total,
+    serverSide: true,
+  };
+}
+
+/**
+ * 展开所选项目：文件夹递归列出全部内容，归档内路径以所选项目为根
+ */
+async function collectEntries(
+  provider: IStorageProvider,
+  selected: IFileItem[],
+  signal?: AbortSignal
+): Promise<IArchiveEntry[]> {
+  const entries: IArchiveEntry[] = [];
+  const rootNames = new Set<string>();
+  const pending: IArchiveEntry[] = selected.map(file => {
+    const name = rootNames.has(file.name) ? generateUniqueName(file.name, rootNames) : file.name;
+    rootNames.add(name);
+    return { file, path: name };
+  });
+
+  while (pending.length > 0) {
+    signal?.throwIfAborted();
+    const entry = pending.shift()!;
+    entries.push(entry);
+
+    if (entry.file.type !== FileType.FOLDER) {
+      continue;
+    }
+
+    let cursor: string | undefined;
+    do {
+      const response = await provider.listFiles({ folderId: entry.file.id, path: entry.file.path, cursor });
+      for (const child of response.files) {
+        pending.push({ file: child, path: `${entry.path}/${child.name}` });
+      }
+      cursor = response.hasMore ? response.nextCursor : undefined;
+    } while (cursor);
+  }
+
+  return entries;
+}
+
+/**
+ * 打开文件读取流，未实现 openDownloadStream 的提供商通过下载链接读取
+ */
+async function openFileStream(
+  provider: IStorageProvider,
+  file: IFileItem,
+  signal?: AbortSignal
+): Promise<ReadableStream<Uint8Array>> {
+  if (provider.openDownloadStream) {
+    return provider.openDownloadStream(file.id, undefined, signal);
+  }
+
+  const response = await fetch(file.downloadUrl || await provider.getDownloadUrl(file.id), { signal });
+  if (!response.ok || !response.body) {
+    throw new Error(`Failed to read ${file.name}: ${response.status} ${response.statusText}`);
+  }
+  return response.body;
+}
+
+/**
+ * 将数据流按顺序写入下载目标
+ */
+async function pipeToSink(
+  stream: ReadableStream<Uint8Array>,
+  sink: IDownloadSink,
+  onBytes?: (transferred: number) => void
+): Promise<void> {
+  const reader = stream.getReader();
+  let transferred = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    await sink.write(value);
+    transferred += value.length;
+    onBytes?.(transferred);
+  }
+}
+
+/**
+ * 默认归档名：单个项目使用其名称，多个项目使用第一个项目名称加数量
+ */
+function getArchiveName(selected: IFileItem[]): string {
+  const [item] = selected;
+  const first = (item.type === FileType.FOLDER ? item.name : item.name.replace(/\.[^./]+$/, '')) || 'download';
+  return selected.length === 1 ? `${first}.zip` : `${first}等${selected.length}个文件.zip`;
+}
+
+function isCompressedFormat(fileName: string): boolean {
+  const extension = fileName.includes('.') ? fileName.split('.').pop()!.toLowerCase() : '';
+  return COMPRESSED_EXTENSIONS.has(extension);
+}
@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'vitest';
+import { ZipWriter } from './ZipWriter';
+import { createHasher } from './HashAlgorithms';
+
+interface IParsedEntry {
+  name: string;
+  method: number;
+  flags: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  data: Uint8Array;
+}
+
+const decoder = new TextDecoder();
+
+const crc32 = (data: Uint8Array): number => {
+  const hasher = createHasher('crc32');
+  hasher.update(data);
+  return parseInt(hasher.digest(), 16) >>> 0;
+};
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> =>
+  new Uint8Array(await new Response(new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'))).arrayBuffer());
+
+/**
+ * 按中央目录解析归档，并核对本地文件头和数据描述符
+ */
+const parseZip = (bytes: Uint8Array): IParsedEntry[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  const eocd = bytes.length - 22;
+  expect(view.getUint32(eocd, true)).toBe(0x06054b50);
+  const count = view.getUint16(eocd + 10, true);
+  const centralSize = view.getUint32(eocd + 12, true);
+  let position = view.getUint32(eocd + 16, true);
+  expect(position + centralSize).toBe(eocd);
+
+  const entries: IParsedEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(position, true)).toBe(0x02014b50);
+    const flags = view.getUint16(position + 8, true);
+    const method = view.getUint16(position + 10, true);
+    const crc = view.getUint32(position + 16, true);
+    const compressedSize = view.getUint32(position + 20, true);
+    const size = view.getUint32(position + 24, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const extraLength = view.getUint16(position + 30, true);
+    const commentLength = view.getUint16(position + 32, true);
+    const localOffset = view.getUint32(position + 42, true);
+    const name = decoder.decode(bytes.subarray(position + 46, position + 46 + nameLength));
+    position += 46 + nameLength + extraLength + commentLength;
+
+    // 本地文件头与中央目录一致
+    expect(view.getUint32(localOffset, true)).toBe(0x04034b50);
+    expect(view.getUint16(localOffset + 6, true)).toBe(flags);
+    expect(view.getUint16(localOffset + 8, true)).toBe(method);
+    const localNameLength = view.getUint16(localOffset + 26, true);
+    const localExtraLength = view.getUint16(localOffset + 28, true);
+    expect(decoder.decode(bytes.subarray(localOffset + 30, localOffset + 30 + localNameLength))).toBe(name);
+
+    const dataStart = localOffset + 30 + localNameLength + localExtraLength;
+    const data = bytes.subarray(dataStart, dataStart + compressedSize);
+
+    if (flags & 0x0008) {
+      // 流式条目：本地文件头带 ZIP64 扩展字段，数据描述符使用 8 字节大小
+      expect(view.getUint16(localOffset + 4, true)).toBe(45);
+      expect(view.getUint16(localOffset + 30 + localNameLength, true)).toBe(0x0001);
+      expect(view.getUint32(localOffset + 18, true)).toBe(0xffffffff);
+      expect(view.getUint32(localOffset + 22, true)).toBe(0xffffffff);
+
+      const descriptor = dataStart + compressedSize;
+      expect(view.getUint32(descriptor, true)).toBe(0x08074b50);
+      expect(view.getUint32(descriptor + 4, true)).toBe(crc);
+      expect(Number(view.getBigUint64(descriptor + 8, true))).toBe(compressedSize);
+      expect(Number(view.getBigUint64(descriptor + 16, true))).toBe(size);
+    }
+
+    entries.push({ name, method, flags, crc, compressedSize, size, data });
+  }
+
+  return entries;
+};
+
+const writeZip = async (build: (zip: ZipWriter) => Promise<void>): Promise<Uint8Array> => {
+  const zip = new ZipWriter();
+  const output = new Response(zip.readable).arrayBuffer();
+  await build(zip);
+  await zip.close();
+  return new Uint8Array(await output);
+};
+
+describe('ZipWriter', () => {
+  it('写入目录和未压缩的文件', async () => {
+    const text = new TextEncoder().encode('hello zip\n');
+    const blob = new Uint8Array(100000).map((_, i) => i & 0xff);
+
+    const bytes = await writeZip(async (zip) => {
+      await zip.addDirectory('docs');
+      await zip.addFile('docs/readme.txt', text);
+      await zip.addFile('数据/blob.bin', new Blob([blob]));
+    });
+    const entries = parseZip(bytes);
+
+    expect(entries.map(entry => entry.name)).toEqual(['docs/', 'docs/readme.txt', '数据/blob.bin']);
+    expect(entries[0]).toMatchObject({ size: 0, compressedSize: 0 });
+
+    const [, readme, binary] = entries;
+    expect(readme).toMatchObject({ method: 0, size: text.length, compressedSize: text.length, crc: crc32(text) });
+    expect(readme.data).toEqual(text);
+    expect(binary).toMatchObject({ method: 0, size: blob.length, crc: crc32(blob) });
+    expect(binary.data).toEqual(blob);
+    // 非 ASCII 名称设置 UTF-8 标志
+    expect(binary.flags & 0x0800).toBe(0x0800);
+  });
+
+  it('压缩条目可以解压回原始数据', async () => {
+    const data = new TextEncoder().encode('abcdefgh'.repeat(10000));
+    const chunks = [data.subarray(0, 12345), data.subarray(12345)];
+
+    const bytes = await writeZip(async (zip) => {
+      await zip.addFile('repeat.txt', new ReadableStream({
+        start(controller) {
+          chunks.forEach(chunk => controller.enqueue(chunk));
+          controller.close();
+        },
+      }), { compress: true });
+    });
+    const [entry] = parseZip(bytes);
+
+    expect(entry.method).toBe(8);
+    expect(entry.size).toBe(data.length);
+    expect(entry.compressedSize).toBeLessThan(data.length / 10);
+    expect(entry.crc).toBe(crc32(data));
+    expect(await inflateRaw(entry.data)).toEqual(data);
+  });
+
+  it('报告读取进度，bytesWritten 等于输出大小', async () => {
+    const progress: number[] = [];
+    const zip = new ZipWriter();
+    const output = new Response(zip.readable).arrayBuffer();
+
+    await zip.addFile('a.bin', new Blob([new Uint8Array(10), new Uint8Array(20)]), {
+      onProgress: bytes => progress.push(bytes),
+    });
+    await zip.close();
+
+    expect(progress[progress.length - 1]).toBe(30);
+    expect(zip.bytesWritten).toBe((await output).byteLength);
+  });
+
+  it('空归档只有结束记录', async () => {
+    const bytes = await writeZip(async () => undefined);
+    expect(bytes.length).toBe(22);
+    expect(parseZip(bytes)).toEqual([]);
+  });
+});
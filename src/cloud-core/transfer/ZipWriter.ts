@@ -0,0 +1,412 @@
+/**
+ * 流式 ZIP 写入器
+ * 边读取边输出归档数据，条目大小和 CRC 写在数据描述符中，无需预先知道；
+ * 文件条目的大小事先未知，本地文件头始终带 ZIP64 扩展字段，数据描述符使用 8 字节大小；
+ * 归档总大小或条目数超出 32 位限制时中央目录使用 ZIP64 扩展
+ */
+
+import { createHasher } from './HashAlgorithms';
+
+/**
+ * 条目选项
+ */
+export interface IZipEntryOptions {
+  lastModified?: Date | number;  // 修改时间
+  compress?: boolean;            // 是否使用 DEFLATE 压缩（否则 STORE）
+  onProgress?: (bytes: number) => void; // 已读取的原始字节数
+}
+
+/**
+ * 中央目录记录
+ */
+interface ICentralEntry {
+  name: Uint8Array;              // UTF-8 编码的条目路径
+  method: number;                // 压缩方式
+  time: number;                  // DOS 时间
+  date: number;                  // DOS 日期
+  crc: number;                   // CRC32
+  compressedSize: number;        // 压缩后大小
+  size: number;                  // 原始大小
+  offset: number;                // 本地文件头偏移
+  directory: boolean;            // 是否为目录
+}
+
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+
+const FLAG_DATA_DESCRIPTOR = 0x0008;
+const FLAG_UTF8 = 0x0800;
+
+const VERSION_DEFAULT = 20;
+const VERSION_ZIP64 = 45;
+
+const UINT16_MAX = 0xffff;
+const UINT32_MAX = 0xffffffff;
+
+/**
+ * 当前环境是否支持 DEFLATE 压缩
+ */
+export function supportsDeflate(): boolean {
+  return typeof CompressionStream !== 'undefined';
+}
+
+/**
+ * ZIP 写入器类
+ * 通过 readable 读取归档数据，读取端的速度决定写入速度
+ */
+export class ZipWriter {
+  readonly readable: ReadableStream<Uint8Array>;
+  private writer: WritableStreamDefaultWriter<Uint8Array>;
+  private entries: ICentralEntry[] = [];
+  private offset = 0;
+  private closed = false;
+
+  constructor() {
+    const stream = new TransformStream<Uint8Array, Uint8Array>();
+    this.readable = stream.readable;
+    this.writer = stream.writable.getWriter();
+  }
+
+  /**
+   * 已输出的字节数
+   */
+  get bytesWritten(): number {
+    return this.offset;
+  }
+
+  /**
+   * 添加目录条目
+   */
+  async addDirectory(path: string, options: IZipEntryOptions = {}): Promise<void> {
+    const name = path.endsWith('/') ? path : `${path}/`;
+    const entry = this.createEntry(name, METHOD_STORE, options.lastModified, true);
+
+    // 目录没有数据，直接写入大小为 0 的本地文件头
+    await this.output(this.localHeader(entry, 0, false));
+    this.entries.push(entry);
+  }
+
+  /**
+   * 添加文件条目（按顺序写入，前一个条目完成后才能添加下一个）
+   */
+  async addFile(
+    path: string,
+    data: ReadableStream<Uint8Array> | Blob | Uint8Array,
+    options: IZipEntryOptions = {}
+  ): Promise<void> {
+    const method = options.compress && supportsDeflate() ? METHOD_DEFLATE : METHOD_STORE;
+    const entry = this.createEntry(path, method, options.lastModified, false);
+
+    await this.output(this.localHeader(entry, FLAG_DATA_DESCRIPTOR, true));
+
+    const source = data instanceof ReadableStream
+      ? data
+      : data instanceof Blob ? data.stream() : new Blob([data]).stream();
+    const crc = createHasher('crc32');
+
+    const onChunk = (chunk: Uint8Array) => {
+      crc.update(chunk);
+      entry.size += chunk.length;
+      options.onProgress?.(entry.size);
+    };
+
+    if (method === METHOD_DEFLATE) {
+      await this.writeDeflated(source, entry, onChunk);
+    } else {
+      const reader = source.getReader();
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+        onChunk(value);
+        entry.compressedSize += value.length;
+        await this.output(value);
+      }
+    }
+
+    entry.crc = parseInt(crc.digest(), 16) >>> 0;
+    await this.output(this.dataDescriptor(entry));
+    this.entries.push(entry);
+  }
+
+  /**
+   * 写入中央目录并结束归档
+   */
+  async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+
+    const centralOffset = this.offset;
+    for (const entry of this.entries) {
+      await this.output(this.centralHeader(entry));
+    }
+    const centralSize = this.offset - centralOffset;
+
+    const needsZip64 =
+      this.entries.length >= UINT16_MAX ||
+      centralOffset >= UINT32_MAX ||
+      centralSize >= UINT32_MAX;
+
+    if (needsZip64) {
+      const zip64Offset = this.offset;
+      await this.output(this.zip64EndRecord(centralOffset, centralSize));
+      await this.output(this.zip64Locator(zip64Offset));
+    }
+
+    await this.output(this.endRecord(centralOffset, centralSize, needsZip64));
+    await this.writer.close();
+  }
+
+  /**
+   * 放弃写入，读取端收到错误
+   */
+  async abort(reason?: unknown): Promise<void> {
+    this.closed = true;
+    await this.writer.abort(reason).catch(() => undefined);
+  }
+
+  // ============================================
+  // 数据写入
+  // ============================================
+
+  private async output(data: Uint8Array): Promise<void> {
+    await this.writer.write(data);
+    this.offset += data.length;
+  }
+
+  /**
+   * 经 CompressionStream 压缩后写入（raw deflate，不含 zlib 头）
+   */
+  private async writeDeflated(
+    source: ReadableStream<Uint8Array>,
+    entry: ICentralEntry,
+    onChunk: (chunk: Uint8Array) => void
+  ): Promise<void> {
+    const compressor = new CompressionStream('deflate-raw');
+    const input = compressor.writable.getWriter();
+
+    const pumping = (async () => {
+      const reader = compressor.readable.getReader();
+      try {
+        for (;;) {
+          const { done, value } = await reader.read();
+          if (done) {
+            break;
+          }
+          entry.compressedSize += value.length;
+          await this.output(value);
+        }
+      } catch (error) {
+        // 输出端失败时让压缩输入端的等待也结束
+        await input.abort(error).catch(() => undefined);
+        throw error;
+      }
+    })();
+
+    const reader = source.getReader();
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+        onChunk(value);
+        await input.write(value);
+      }
+      await input.close();
+    } catch (error) {
+      await input.abort(error).catch(() => undefined);
+      await pumping.catch(() => undefined);
+      throw error;
+    }
+
+    await pumping;
+  }
+
+  // ============================================
+  // 记录编码
+  // ============================================
+
+  private createEntry(
+    path: string,
+    method: number,
+    lastModified: Date | number | undefined,
+    directory: boolean
+  ): ICentralEntry {
+    if (this.closed) {
+      throw new Error('ZIP archive already closed');
+    }
+
+    const { time, date } = toDosDateTime(lastModified !== undefined ? new Date(lastModified) : new Date());
+    return {
+      name: new TextEncoder().encode(path.replace(/^\/+/, '')),
+      method,
+      time,
+      date,
+      crc: 0,
+      compressedSize: 0,
+      size: 0,
+      offset: this.offset,
+      directory,
+    };
+  }
+
+  /**
+   * 本地文件头（使用数据描述符时 CRC 填 0，大小写在数据描述符中）
+   * 流式读取端按本地文件头判断数据描述符的宽度，流式条目始终带 ZIP64 扩展字段（大小填 0），
+   * 32 位大小字段填 0xFFFFFFFF 指向扩展字段
+   */
+  private localHeader(entry: ICentralEntry, flags: number, zip64: boolean): Uint8Array {
+    const extraLength = zip64 ? 20 : 0;
+    const buffer = new Uint8Array(30 + entry.name.length + extraLength);
+    const view = new DataView(buffer.buffer);
+
+    view.setUint32(0, 0x04034b50, true);
+    view.setUint16(4, zip64 ? VERSION_ZIP64 : VERSION_DEFAULT, true);
+    view.setUint16(6, flags | FLAG_UTF8, true);
+    view.setUint16(8, entry.method, true);
+    view.setUint16(10, entry.time, true);
+    view.setUint16(12, entry.date, true);
+    // 14-17: CRC32
+    if (zip64) {
+      view.setUint32(18, UINT32_MAX, true);
+      view.setUint32(22, UINT32_MAX, true);
+    }
+    view.setUint16(26, entry.name.length, true);
+    view.setUint16(28, extraLength, true);
+    buffer.set(entry.name, 30);
+
+    if (zip64) {
+      // 扩展字段：原始大小、压缩后大小（实际值写在数据描述符中）
+      const extraOffset = 30 + entry.name.length;
+      view.setUint16(extraOffset, 0x0001, true);
+      view.setUint16(extraOffset + 2, 16, true);
+    }
+
+    return buffer;
+  }
+
+  /**
+   * ZIP64 数据描述符（大小使用 8 字节，与本地文件头的 ZIP64 扩展字段对应）
+   */
+  private dataDescriptor(entry: ICentralEntry): Uint8Array {
+    const buffer = new Uint8Array(24);
+    const view = new DataView(buffer.buffer);
+
+    view.setUint32(0, 0x08074b50, true);
+    view.setUint32(4, entry.crc, true);
+    setUint64(view, 8, entry.compressedSize);
+    setUint64(view, 16, entry.size);
+
+    return buffer;
+  }
+
+  /**
+   * 中央目录文件头，超出 32 位的字段放到 ZIP64 扩展字段中
+   */
+  private centralHeader(entry: ICentralEntry): Uint8Array {
+    const zip64Fields = [
+      entry.size >= UINT32_MAX ? entry.size : undefined,
+      entry.compressedSize >= UINT32_MAX ? entry.compressedSize : undefined,
+      entry.offset >= UINT32_MAX ? entry.offset : undefined,
+    ].filter((value): value is number => value !== undefined);
+    const extraLength = zip64Fields.length > 0 ? 4 + zip64Fields.length * 8 : 0;
+
+    const buffer = new Uint8Array(46 + entry.name.length + extraLength);
+    const view = new DataView(buffer.buffer);
+    const version = zip64Fields.length > 0 || !entry.directory ? VERSION_ZIP64 : VERSION_DEFAULT;
+
+    view.setUint32(0, 0x02014b50, true);
+    view.setUint16(4, VERSION_ZIP64, true);
+    view.setUint16(6, version, true);
+    view.setUint16(8, (entry.directory ? 0 : FLAG_DATA_DESCRIPTOR) | FLAG_UTF8, true);
+    view.setUint16(10, entry.method, true);
+    view.setUint16(12, entry.time, true);
+    view.setUint16(14, entry.date, true);
+    view.setUint32(16, entry.crc, true);
+    view.setUint32(20, Math.min(entry.compressedSize, UINT32_MAX), true);
+    view.setUint32(24, Math.min(entry.size, UINT32_MAX), true);
+    view.setUint16(28, entry.name.length, true);
+    view.setUint16(30, extraLength, true);
+    // 32-37: 注释长度、起始磁盘号、内部属性
+    view.setUint32(38, entry.directory ? 0x10 : 0, true);
+    view.setUint32(42, Math.min(entry.offset, UINT32_MAX), true);
+    buffer.set(entry.name, 46);
+
+    if (extraLength > 0) {
+      const extraOffset = 46 + entry.name.length;
+      view.setUint16(extraOffset, 0x0001, true);
+      view.setUint16(extraOffset + 2, extraLength - 4, true);
+      zip64Fields.forEach((value, index) => setUint64(view, extraOffset + 4 + index * 8, value));
+    }
+
+    return buffer;
+  }
+
+  private zip64EndRecord(centralOffset: number, centralSize: number): Uint8Array {
+    const buffer = new Uint8Array(56);
+    const view = new DataView(buffer.buffer);
+
+    view.setUint32(0, 0x06064b50, true);
+    setUint64(view, 4, 44);
+    view.setUint16(12, VERSION_ZIP64, true);
+    view.setUint16(14, VERSION_ZIP64, true);
+    // 16-23: 磁盘号
+    setUint64(view, 24, this.entries.length);
+    setUint64(view, 32, this.entries.length);
+    setUint64(view, 40, centralSize);
+    setUint64(view, 48, centralOffset);
+
+    return buffer;
+  }
+
+  private zip64Locator(zip64Offset: number): Uint8Array {
+    const buffer = new Uint8Array(20);
+    const view = new DataView(buffer.buffer);
+
+    view.setUint32(0, 0x07064b50, true);
+    setUint64(view, 8, zip64Offset);
+    view.setUint32(16, 1, true);
+
+    return buffer;
+  }
+
+  private endRecord(centralOffset: number, centralSize: number, zip64: boolean): Uint8Array {
+    const buffer = new Uint8Array(22);
+    const view = new DataView(buffer.buffer);
+    const count = zip64 ? UINT16_MAX : this.entries.length;
+
+    view.setUint32(0, 0x06054b50, true);
+    view.setUint16(8, count, true);
+    view.setUint16(10, count, true);
+    view.setUint32(12, zip64 ? UINT32_MAX : centralSize, true);
+    view.setUint32(16, zip64 ? UINT32_MAX : centralOffset, true);
+
+    return buffer;
+  }
+}
+
+/**
+ * 写入 64 位小端整数（Number 可精确表示 2^53 以内的值）
+ */
+function setUint64(view: DataView, offset: number, value: number): void {
+  view.setUint32(offset, value % 0x100000000, true);
+  view.setUint32(offset + 4, Math.floor(value / 0x100000000), true);
+}
+
+/**
+ * 转换为 DOS 日期时间（1980 年之前按 1980-01-01 处理）
+ */
+function toDosDateTime(date: Date): { time: number; date: number } {
+  if (isNaN(date.getTime()) || date.getFullYear() < 1980) {
+    return { time: 0, date: (1 << 5) | 1 };
+  }
+
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
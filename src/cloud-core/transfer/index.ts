@@ -3,3 +3,21 @@
  */
 
 export * from './TransferManager';
+export * from './DownloadSink';
+export * from './TransferStore';
+export * from './BandwidthLimiter';
+export * from './HashAlgorithms';
+export * from './HashService';
+export * from './Checksum';
+export * from './ConflictResolver';
+export * from './FolderUpload';
+export * from './ZipWriter';
+export * from './ZipDownload';
+export * from './QueueOrdering';
+export * from './TransferHistory';
+export * from './TransferSchedule';
+export * from './TransferScheduler';
+export * from './RetryPolicy';
+export * from './RemoteFetch';
+export * from './TusClient';
+export * from './ChunkSizer';
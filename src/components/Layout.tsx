@@ -1,5 +1,6 @@
 import { Outlet, Navigate } from "react-router-dom";
 import Sidebar from "@/components/Sidebar";
+import UploadConflictDialog from "@/components/UploadConflictDialog";
 import { useContext } from "react";
 import { AuthContext } from "@/contexts/authContext";
 
@@ -16,6 +17,7 @@ const Layout = () => {
       <main className="flex-1 overflow-y-auto bg-gray-50 dark:bg-gray-900 p-4">
         <Outlet />
       </main>
+      <UploadConflictDialog />
     </div>
   );
 };
@@ -0,0 +1,65 @@
+import { cn } from '@/lib/utils';
+import { useTransferGroup } from '@/cloud-core/hooks';
+
+// 格式化文件大小
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes}B`;
+  const units = ["KB", "MB", "GB", "TB"];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value < 10 ? value.toFixed(1) : Math.round(value)}${units[unit]}`;
+};
+
+interface TransferGroupProgressProps {
+  groupId: string | null;
+  title?: string;
+  className?: string;
+}
+
+// 任务组汇总进度（文件夹上传等批量任务）
+const TransferGroupProgress = ({ groupId, title = '上传进度', className }: TransferGroupProgressProps) => {
+  const { summary } = useTransferGroup(groupId);
+
+  if (!groupId || summary.totalTasks === 0) {
+    return null;
+  }
+
+  const finished = summary.completedTasks + summary.failedTasks;
+  const done = finished === summary.totalTasks;
+
+  return (
+    <div className={cn("bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-4", className)}>
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-sm font-medium text-gray-900 dark:text-white">{title}</h4>
+        <span className="text-xs text-gray-500 dark:text-gray-400">
+          {finished}/{summary.totalTasks} 个文件 · {formatSize(summary.transferredBytes)}/{formatSize(summary.totalBytes)}
+        </span>
+      </div>
+      <div className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+        <div
+          className={cn(
+            "h-full rounded-full transition-all duration-300",
+            summary.failedTasks > 0 ? "bg-yellow-500" : done ? "bg-green-500" : "bg-blue-600"
+          )}
+          style={{ width: `${Math.min(100, summary.percentage)}%` }}
+        />
+      </div>
+      <div className="flex items-center justify-between mt-2 text-xs text-gray-500 dark:text-gray-400">
+        <span>
+          {done
+            ? summary.failedTasks > 0 ? `${summary.failedTasks} 个文件上传失败` : '全部上传完成'
+            : `${formatSize(summary.speed.current)}/s`}
+        </span>
+        {!done && summary.estimatedTime !== undefined && (
+          <span>剩余约 {Math.ceil(summary.estimatedTime)} 秒</span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TransferGroupProgress;
@@ -0,0 +1,127 @@
+import { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { cn } from '@/lib/utils';
+import { useUploadConflicts } from '@/cloud-core/hooks';
+import { ConflictAction } from '@/cloud-core/transfer/ConflictResolver';
+
+// 格式化文件大小
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes}B`;
+  const units = ["KB", "MB", "GB", "TB"];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value < 10 ? value.toFixed(1) : Math.round(value)}${units[unit]}`;
+};
+
+interface ConflictOption {
+  action: ConflictAction;
+  label: string;
+  description: string;
+  icon: string;
+}
+
+// 上传时目标位置已有同名文件，询问覆盖、跳过、重命名或保留版本
+const UploadConflictDialog = () => {
+  const { conflict, pending, resolve } = useUploadConflicts();
+  const [applyToAll, setApplyToAll] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  // 每个新的冲突重置选项
+  useEffect(() => {
+    setApplyToAll(false);
+    setSubmitting(false);
+  }, [conflict?.conflictId]);
+
+  const options: ConflictOption[] = conflict ? [
+    { action: 'overwrite', label: '覆盖', description: '替换已有的文件', icon: 'fa-file-circle-exclamation' },
+    { action: 'rename', label: '保留两者', description: `另存为 ${conflict.suggestedName}`, icon: 'fa-copy' },
+    ...(conflict.canVersion
+      ? [{ action: 'version' as const, label: '保存为新版本', description: '已有文件保留为历史版本', icon: 'fa-clock-rotate-left' }]
+      : []),
+    { action: 'skip', label: '跳过', description: '不上传这个文件', icon: 'fa-forward' },
+  ] : [];
+
+  const handleSelect = async (action: ConflictAction) => {
+    if (!conflict || submitting) return;
+    setSubmitting(true);
+    await resolve(conflict, action, applyToAll && !!conflict.groupId);
+  };
+
+  return (
+    <AnimatePresence>
+      {conflict && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4"
+        >
+          <motion.div
+            key={conflict.conflictId}
+            initial={{ opacity: 0, scale: 0.95, y: 10 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 10 }}
+            transition={{ type: "spring", stiffness: 300, damping: 30 }}
+            className="w-full max-w-md bg-white dark:bg-gray-800 rounded-xl shadow-lg border border-gray-200 dark:border-gray-700 p-5"
+          >
+            <div className="flex items-start gap-3 mb-4">
+              <div className="w-9 h-9 rounded-lg bg-yellow-100 dark:bg-yellow-900/30 text-yellow-600 dark:text-yellow-400 flex items-center justify-center shrink-0">
+                <i className="fa-solid fa-triangle-exclamation text-sm"></i>
+              </div>
+              <div className="min-w-0">
+                <h3 className="text-sm font-medium text-gray-900 dark:text-white">目标位置已有同名文件</h3>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1 truncate" title={conflict.fileName}>
+                  {conflict.fileName}
+                  {conflict.existing.size !== undefined && ` · 已有文件 ${formatSize(conflict.existing.size)}`}
+                </p>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              {options.map(option => (
+                <button
+                  key={option.action}
+                  disabled={submitting}
+                  onClick={() => handleSelect(option.action)}
+                  className={cn(
+                    "w-full flex items-center gap-3 px-3 py-2.5 rounded-lg border border-gray-200 dark:border-gray-700 text-left transition-colors",
+                    "hover:bg-gray-50 dark:hover:bg-gray-700/50 disabled:opacity-50 disabled:cursor-not-allowed"
+                  )}
+                >
+                  <i className={cn("fa-solid w-4 text-center text-gray-500 dark:text-gray-400", option.icon)}></i>
+                  <span className="flex flex-col min-w-0">
+                    <span className="text-sm font-medium text-gray-900 dark:text-white">{option.label}</span>
+                    <span className="text-xs text-gray-500 dark:text-gray-400 truncate">{option.description}</span>
+                  </span>
+                </button>
+              ))}
+            </div>
+
+            <div className="flex items-center justify-between mt-4">
+              {conflict.groupId ? (
+                <label className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-300 cursor-pointer select-none">
+                  <input
+                    type="checkbox"
+                    checked={applyToAll}
+                    onChange={(e) => setApplyToAll(e.target.checked)}
+                    className="rounded border-gray-300 dark:border-gray-600"
+                  />
+                  对本批次其余同名文件执行相同操作
+                </label>
+              ) : <span />}
+              {pending > 1 && (
+                <span className="text-xs text-gray-400">还有 {pending - 1} 个冲突</span>
+              )}
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default UploadConflictDialog;
@@ -1,5 +1,7 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { toast } from 'sonner';
+import { useCloud } from '@/cloud-core/contexts/CloudProviderContext';
+import { IProviderConfig, ProviderStatus } from '@/cloud-core/providers/base/IProviderConfig';
 
 // 对象存储提供商类型
 export type OSSProvider = 'aliyun' | 'aws' | 'minio' | 'tencent' | 'custom';
@@ -16,6 +18,71 @@ export interface OSSConfig {
   isConfigured: boolean;
 }
 
+// 对象存储提供商预设
+export interface OSSProviderPreset {
+  label: string;
+  providerType: string; // 注册表中的提供商类型
+  defaultRegion: string;
+  endpoint?: (region: string) => string; // 根据区域生成端点
+  requiresEndpoint: boolean;
+  forcePathStyle: boolean;
+  icon: string;
+  color: string;
+}
+
+export const OSS_PROVIDER_PRESETS: Record<OSSProvider, OSSProviderPreset> = {
+  aliyun: {
+    label: '阿里云OSS',
+    providerType: 's3',
+    defaultRegion: 'oss-cn-hangzhou',
+    endpoint: (region) => `https://${region}.aliyuncs.com`,
+    requiresEndpoint: false,
+    forcePathStyle: false,
+    icon: 'fa-cloud',
+    color: '#F97316',
+  },
+  aws: {
+    label: 'AWS S3',
+    providerType: 's3',
+    defaultRegion: 'us-east-1',
+    requiresEndpoint: false,
+    forcePathStyle: false,
+    icon: 'fa-brands fa-aws',
+    color: '#EAB308',
+  },
+  tencent: {
+    label: '腾讯云COS',
+    providerType: 's3',
+    defaultRegion: 'ap-guangzhou',
+    endpoint: (region) => `https://cos.${region}.myqcloud.com`,
+    requiresEndpoint: false,
+    forcePathStyle: false,
+    icon: 'fa-cloud',
+    color: '#3B82F6',
+  },
+  minio: {
+    label: 'MinIO',
+    providerType: 's3',
+    defaultRegion: 'us-east-1',
+    requiresEndpoint: true,
+    forcePathStyle: true,
+    icon: 'fa-server',
+    color: '#EF4444',
+  },
+  custom: {
+    label: '自定义对象存储',
+    providerType: 's3',
+    defaultRegion: '',
+    requiresEndpoint: true,
+    forcePathStyle: true,
+    icon: 'fa-cog',
+    color: '#6B7280',
+  },
+};
+
+// 对象存储在提供商列表中的固定ID
+export const OSS_PROVIDER_ID = 'oss-storage';
+
 // 对象存储上下文类型
 interface OSSContextType {
   config: OSSConfig;
@@ -37,81 +104,132 @@ const defaultConfig: OSSConfig = {
   isConfigured: false,
 };
 
+const isComplete = (config: OSSConfig) =>
+  !!(config.accessKeyId && config.accessKeySecret && config.bucketName && config.region);
+
+// 将表单配置转换为提供商配置
+export const toProviderConfig = (config: OSSConfig, previous?: IProviderConfig): IProviderConfig => {
+  const preset = OSS_PROVIDER_PRESETS[config.provider];
+  const region = config.region || preset.defaultRegion;
+  const now = new Date();
+
+  return {
+    id: OSS_PROVIDER_ID,
+    name: `${preset.label} - ${config.bucketName}`,
+    type: preset.providerType,
+    enabled: true,
+    auth: {
+      apiKey: {
+        key: config.accessKeyId,
+        secret: config.accessKeySecret,
+        region,
+      },
+    },
+    region,
+    endpoint: preset.endpoint ? preset.endpoint(region) : config.endpoint || undefined,
+    bucket: config.bucketName,
+    rootPath: config.prefix || undefined,
+    preferences: previous?.preferences ?? {
+      autoSync: false,
+      showHiddenFiles: false,
+      preservePermissions: false,
+      preserveTimestamps: true,
+      calculateHash: false,
+      generateThumbnails: false,
+    },
+    status: ProviderStatus.DISCONNECTED,
+    ui: {
+      icon: preset.icon,
+      color: preset.color,
+      order: previous?.ui.order ?? 0,
+      showInQuickAccess: true,
+    },
+    metadata: {
+      ...previous?.metadata,
+      ossProvider: config.provider,
+      forcePathStyle: preset.forcePathStyle,
+    },
+    createdAt: previous?.createdAt ?? now,
+    updatedAt: now,
+  };
+};
+
+// 将提供商配置还原为表单配置
+export const fromProviderConfig = (providerConfig: IProviderConfig): OSSConfig => {
+  const provider: OSSProvider = providerConfig.metadata?.ossProvider ?? 'custom';
+  const preset = OSS_PROVIDER_PRESETS[provider];
+
+  return {
+    provider,
+    accessKeyId: providerConfig.auth.apiKey?.key || '',
+    accessKeySecret: providerConfig.auth.apiKey?.secret || '',
+    bucketName: providerConfig.bucket || '',
+    region: providerConfig.region || '',
+    endpoint: preset.endpoint ? '' : providerConfig.endpoint || '',
+    prefix: providerConfig.rootPath || '',
+    isConfigured: true,
+  };
+};
+
 const OSSContext = createContext<OSSContextType | undefined>(undefined);
 
 export const OSSProvider = ({ children }: { children: ReactNode }) => {
+  const { providers, addProvider, removeProvider } = useCloud();
+  const savedProvider = providers.find(p => p.id === OSS_PROVIDER_ID);
   const [config, setConfigState] = useState<OSSConfig>(defaultConfig);
-  const [isConnected, setIsConnected] = useState(false);
   const [isTesting, setIsTesting] = useState(false);
 
-  // 从localStorage加载配置
+  // 从提供商列表加载配置（兼容旧版 oss_config 存储）
   useEffect(() => {
-    const savedConfig = localStorage.getItem('oss_config');
-    if (savedConfig) {
+    if (savedProvider) {
+      setConfigState(fromProviderConfig(savedProvider.config));
+      return;
+    }
+
+    const legacyConfig = localStorage.getItem('oss_config');
+    if (legacyConfig) {
       try {
-        const parsed = JSON.parse(savedConfig);
-        setConfigState(parsed);
-        if (parsed.isConfigured) {
-          setIsConnected(true);
-        }
+        const parsed = JSON.parse(legacyConfig);
+        setConfigState({ ...defaultConfig, ...parsed, isConfigured: isComplete(parsed) });
       } catch (error) {
         console.error('Failed to parse OSS config:', error);
       }
     }
-  }, []);
-
-  // 保存配置到localStorage
-  useEffect(() => {
-    if (config.isConfigured) {
-      localStorage.setItem('oss_config', JSON.stringify(config));
-    } else {
-      localStorage.removeItem('oss_config');
-    }
-  }, [config]);
+  }, [savedProvider?.config]);
 
   const setConfig = (newConfig: Partial<OSSConfig>) => {
-    setConfigState(prev => ({
-      ...prev,
-      ...newConfig,
-      isConfigured: !!(newConfig.accessKeyId && newConfig.accessKeySecret && newConfig.bucketName && newConfig.region),
-    }));
+    setConfigState(prev => {
+      const merged = { ...prev, ...newConfig };
+      return { ...merged, isConfigured: isComplete(merged) };
+    });
   };
 
   const testConnection = async (): Promise<boolean> => {
-    if (!config.accessKeyId || !config.accessKeySecret || !config.bucketName || !config.region) {
+    const preset = OSS_PROVIDER_PRESETS[config.provider];
+
+    if (!isComplete(config)) {
       toast.error('请先填写完整的配置信息');
       return false;
     }
 
+    if (preset.requiresEndpoint && !config.endpoint) {
+      toast.error('请填写自定义端点');
+      return false;
+    }
+
     setIsTesting(true);
 
     try {
-      // 模拟连接测试（实际项目中应该调用真实的API）
-      await new Promise(resolve => setTimeout(resolve, 1500));
-
-      // 根据不同的提供商进行不同的测试逻辑
-      const testMessage = {
-        aliyun: '阿里云OSS',
-        aws: 'AWS S3',
-        minio: 'MinIO',
-        tencent: '腾讯云COS',
-        custom: '自定义对象存储',
-      }[config.provider];
-
-      // 这里应该添加实际的连接测试代码
-      // 例如：使用阿里云OSS SDK测试连接
-      // const OSS = require('ali-oss');
-      // const client = new OSS({...config});
-      // await client.list();
-
-      toast.success(`成功连接到${testMessage}`);
-      setIsConnected(true);
-      setConfig({ isConfigured: true });
+      // 创建提供商实例、校验配置并测试连接，成功后写入 cloud_providers
+      const providerConfig = toProviderConfig(config, savedProvider?.config);
+      await addProvider(providerConfig.type, providerConfig);
+
+      localStorage.removeItem('oss_config');
+      toast.success(`成功连接到${preset.label}`);
       return true;
     } catch (error) {
-      toast.error('连接失败，请检查配置信息');
+      toast.error(`连接失败：${(error as Error).message || '请检查配置信息'}`);
       console.error('OSS connection test failed:', error);
-      setIsConnected(false);
       return false;
     } finally {
       setIsTesting(false);
@@ -120,8 +238,14 @@ export const OSSProvider = ({ children }: { children: ReactNode }) => {
 
   const clearConfig = () => {
     setConfigState(defaultConfig);
-    setIsConnected(false);
     localStorage.removeItem('oss_config');
+
+    if (savedProvider) {
+      removeProvider(OSS_PROVIDER_ID).catch(error => {
+        console.error('Failed to remove OSS provider:', error);
+      });
+    }
+
     toast.success('已清除对象存储配置');
   };
 
@@ -130,7 +254,7 @@ export const OSSProvider = ({ children }: { children: ReactNode }) => {
     setConfig,
     testConnection,
     clearConfig,
-    isConnected,
+    isConnected: !!savedProvider?.connected,
     isTesting,
   };
 
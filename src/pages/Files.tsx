@@ -1,10 +1,15 @@
-import React, { useContext, useState, useEffect } from "react";
+import React, { useContext, useState, useEffect, useRef } from "react";
 import { Link } from "react-router-dom";
 import { AuthContext } from "@/contexts/authContext";
   import { useApi } from "@/contexts/apiContext";
   import { toast } from 'sonner';
   import { cn } from "@/lib/utils";
 import { Empty } from "@/components/Empty";
+import { useCloud } from "@/cloud-core/contexts/CloudProviderContext";
+import { IFileItem, FileType } from "@/cloud-core/providers/base/IFileItem";
+import { TransferType } from "@/cloud-core/providers/base/ITransferOptions";
+import { downloadAsZip } from "@/cloud-core/transfer/ZipDownload";
+import { transferHistory } from "@/cloud-core/transfer/TransferHistory";
 
 // 文件/文件夹类型定义
 interface FileItem {
@@ -21,6 +26,68 @@ interface FileItem {
 // 模拟文件夹路径数据
 const folderPath = ["我的文件", "工作文档", "项目A"];
 
+// 按扩展名匹配的图标
+const extensionIcons: Record<string, { icon: string; color: string }> = {
+  doc: { icon: "fa-file-word", color: "text-blue-500" },
+  docx: { icon: "fa-file-word", color: "text-blue-500" },
+  pdf: { icon: "fa-file-pdf", color: "text-red-500" },
+  xls: { icon: "fa-file-excel", color: "text-green-500" },
+  xlsx: { icon: "fa-file-excel", color: "text-green-500" },
+  ppt: { icon: "fa-file-powerpoint", color: "text-orange-500" },
+  pptx: { icon: "fa-file-powerpoint", color: "text-orange-500" },
+};
+
+// 按文件类型匹配的图标
+const fileTypeIcons: Partial<Record<FileType, { icon: string; color: string }>> = {
+  [FileType.FOLDER]: { icon: "fa-folder", color: "text-yellow-500" },
+  [FileType.IMAGE]: { icon: "fa-file-image", color: "text-pink-500" },
+  [FileType.VIDEO]: { icon: "fa-file-video", color: "text-purple-500" },
+  [FileType.AUDIO]: { icon: "fa-file-audio", color: "text-green-500" },
+  [FileType.ARCHIVE]: { icon: "fa-file-archive", color: "text-yellow-600" },
+  [FileType.CODE]: { icon: "fa-file-code", color: "text-indigo-500" },
+};
+
+// 格式化文件大小
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes}B`;
+  const units = ["KB", "MB", "GB", "TB"];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value < 10 ? value.toFixed(1) : Math.round(value)}${units[unit]}`;
+};
+
+// 格式化修改时间
+const formatModified = (date: Date) => {
+  const d = new Date(date);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
+
+// 将云存储文件转换为列表项
+const toFileItem = (file: IFileItem): FileItem => {
+  const isFolder = file.type === FileType.FOLDER;
+  const extension = file.name.includes(".") ? file.name.split(".").pop()!.toLowerCase() : "";
+  const { icon, color } =
+    (!isFolder && extensionIcons[extension]) ||
+    fileTypeIcons[file.type] ||
+    { icon: "fa-file-alt", color: "text-gray-500" };
+
+  return {
+    id: file.id,
+    name: file.name,
+    type: isFolder ? "folder" : "file",
+    size: isFolder ? undefined : formatSize(file.size),
+    modified: formatModified(file.modifiedAt),
+    icon,
+    color,
+    path: file.path,
+  };
+};
+
 // 模拟文件数据
 const mockFiles: FileItem[] = [
   {
@@ -112,32 +179,61 @@ const Files = () => {
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedItems, setSelectedItems] = useState<string[]>([]);
   
-  // 模拟数据加载
+  // 已配置的云存储提供商（未配置时使用模拟数据）
+  const { providers, activeProvider, setActiveProvider, transferManager } = useCloud();
+  const zipAbortRef = useRef<AbortController | null>(null);
+  const cloudItemsRef = useRef<Map<string, IFileItem>>(new Map());
+  const [folderStack, setFolderStack] = useState<{ id: string; name: string }[]>([]);
+  const currentFolderId = folderStack.length > 0 ? folderStack[folderStack.length - 1].id : undefined;
+
+  // 没有活动提供商时默认使用第一个
   useEffect(() => {
-    const timer = setTimeout(() => {
-     setFiles(mockFiles);
-     setLoading(false);
-   }, 800);
-   
-   return () => clearTimeout(timer);
- }, []);
- 
+    if (!activeProvider && providers.length > 0) {
+      setActiveProvider(providers[0].id);
+    }
+  }, [activeProvider, providers, setActiveProvider]);
+
+  // 切换提供商时回到根目录
+  useEffect(() => {
+    setFolderStack([]);
+  }, [activeProvider]);
+
  // 文件列表加载函数
- const fetchFileList = () => {
+ const fetchFileList = async () => {
    setLoading(true);
    setError(null);
-   
-   // 模拟API请求
-   setTimeout(() => {
-     try {
+   setSelectedItems([]);
+
+   if (!activeProvider) {
+     // 模拟API请求
+     setTimeout(() => {
        setFiles(mockFiles);
        setLoading(false);
-     } catch (err) {
-       setError('加载文件列表失败，请重试');
-       setLoading(false);
-     }
-   }, 800);
+     }, 800);
+     return;
+   }
+
+   try {
+     const items: IFileItem[] = [];
+     let cursor: string | undefined;
+     do {
+       const result = await activeProvider.listFiles({ folderId: currentFolderId, cursor });
+       items.push(...result.files);
+       cursor = result.hasMore ? result.nextCursor : undefined;
+     } while (cursor);
+     cloudItemsRef.current = new Map(items.map(item => [item.id, item]));
+     setFiles(items.map(toFileItem));
+   } catch (err) {
+     console.error("Failed to list files:", err);
+     setError('加载文件列表失败，请重试');
+   } finally {
+     setLoading(false);
+   }
   };
+
+  useEffect(() => {
+    fetchFileList();
+  }, [activeProvider, currentFolderId]);
   
   // 切换视图模式
   const toggleViewMode = (mode: "list" | "grid") => {
@@ -167,10 +263,20 @@ const Files = () => {
     file.name.toLowerCase().includes(searchQuery.toLowerCase())
   );
   
+  // 面包屑路径：云存储使用当前目录栈，否则使用模拟路径
+  const activeProviderName = providers.find(p => p.id === activeProvider?.id)?.name;
+  const breadcrumbs = activeProvider
+    ? [activeProviderName || "我的文件", ...folderStack.map(folder => folder.name)]
+    : folderPath;
+
   // 处理文件夹导航
   const navigateToFolder = (index: number) => {
-    // 在实际应用中，这里会导航到相应文件夹
-    console.log("导航到:", folderPath.slice(0, index + 1).join("/"));
+    if (!activeProvider) {
+      // 在实际应用中，这里会导航到相应文件夹
+      console.log("导航到:", folderPath.slice(0, index + 1).join("/"));
+      return;
+    }
+    setFolderStack(prev => prev.slice(0, index));
   };
   
   // 处理文件/文件夹点击
@@ -186,9 +292,18 @@ const Files = () => {
     setLastUsed(Date.now());
     
     if (item.type === "folder") {
-      // 在实际应用中，这里会导航到相应文件夹
-      console.log("打开文件夹:", item.name);
+      if (activeProvider) {
+        setFolderStack(prev => [...prev, { id: item.id, name: item.name }]);
+      } else {
+        // 在实际应用中，这里会导航到相应文件夹
+        console.log("打开文件夹:", item.name);
+      }
     } else {
+      // 记录到最近文件
+      const cloudFile = cloudItemsRef.current.get(item.id);
+      if (activeProvider && cloudFile && transferHistory.isAvailable()) {
+        transferHistory.recordFileOpen(activeProvider.id, cloudFile).catch(console.error);
+      }
       // 在实际应用中，这里会打开文件预览或下载文件
       console.log("打开文件:", item.name);
     }
@@ -219,11 +334,65 @@ const Files = () => {
     }
   };
   
+  // 下载选中项目：单个文件直接下载，多个项目或包含文件夹时打包为 ZIP
+  const handleBatchDownload = async () => {
+    if (!activeProvider) {
+      toast.info(`已选择 ${selectedItems.length} 个项目，配置云存储后可下载`);
+      return;
+    }
+
+    const selected = files.filter(file => selectedItems.includes(file.id));
+    if (selected.length === 1 && selected[0].type === "file") {
+      try {
+        await transferManager.addTask(activeProvider, TransferType.DOWNLOAD, selected[0].id);
+        toast.success(`开始下载 ${selected[0].name}`);
+      } catch (err) {
+        toast.error(`下载失败: ${(err as Error).message}`);
+      }
+      return;
+    }
+
+    if (zipAbortRef.current) {
+      toast.warning("正在打包下载，请等待完成");
+      return;
+    }
+
+    const controller = new AbortController();
+    zipAbortRef.current = controller;
+    const toastId = toast.loading("正在准备打包下载...", {
+      action: { label: "取消", onClick: () => controller.abort() },
+    });
+
+    let lastPercentage = -1;
+    try {
+      const result = await downloadAsZip(activeProvider, selected.map(file => file.id), {
+        compress: true,
+        signal: controller.signal,
+        onProgress: ({ percentage, transferred, total }) => {
+          const rounded = Math.floor(percentage);
+          if (rounded !== lastPercentage) {
+            lastPercentage = rounded;
+            toast.loading(`正在打包下载 ${rounded}%（${formatSize(transferred)}/${formatSize(total)}）`, { id: toastId });
+          }
+        },
+      });
+      toast.success(`已下载 ${result.fileName}（${result.fileCount} 个文件）`, { id: toastId, action: undefined });
+    } catch (err) {
+      if (controller.signal.aborted) {
+        toast.info("已取消打包下载", { id: toastId, action: undefined });
+      } else {
+        toast.error(`打包下载失败: ${(err as Error).message}`, { id: toastId, action: undefined });
+      }
+    } finally {
+      zipAbortRef.current = null;
+    }
+  };
+  
   // 渲染面包屑导航
   const renderBreadcrumbs = () => {
     return (
       <div className="flex items-center text-sm text-gray-600 dark:text-gray-300 mb-6">
-        {folderPath.map((folder, index) => (
+        {breadcrumbs.map((folder, index) => (
           <React.Fragment key={index}>
             <button
               onClick={() => navigateToFolder(index)}
@@ -231,7 +400,7 @@ const Files = () => {
             >
               {folder}
             </button>
-            {index < folderPath.length - 1 && (
+            {index < breadcrumbs.length - 1 && (
               <i className="fa-solid fa-angle-right mx-2 text-xs text-gray-400"></i>
             )}
           </React.Fragment>
@@ -555,6 +724,12 @@ const Files = () => {
             <div className="text-sm text-gray-700 dark:text-gray-300">
               已选择 {selectedItems.length} 个项目
             </div>
+            <button
+              onClick={handleBatchDownload}
+              className="text-sm text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300 flex items-center gap-1"
+            >
+              <i className="fa-solid fa-download"></i> 下载
+            </button>
             <button className="text-sm text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300 flex items-center gap-1">
               <i className="fa-solid fa-trash"></i> 删除
             </button>
@@ -5,6 +5,10 @@ import { AuthContext } from "@/contexts/authContext";
 import { cn } from "@/lib/utils";
 import { Empty } from "@/components/Empty";
 import APICredentialSettings from "@/components/APICredentialSettings";
+import TransferGroupProgress from "@/components/TransferGroupProgress";
+import { useActiveProvider } from "@/cloud-core/contexts/CloudProviderContext";
+import { useFolderUpload } from "@/cloud-core/hooks";
+import { collectDroppedEntries, IFolderEntry } from "@/cloud-core/transfer/FolderUpload";
 import { toast } from "sonner";
 
 // 模拟存储使用历史数据
@@ -92,6 +96,8 @@ const Home = () => {
   const [searchQuery, setSearchQuery] = useState("");
   const [isDragOver, setIsDragOver] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const activeProvider = useActiveProvider();
+  const { groupId, uploadFolder } = useFolderUpload();
   
   // 计算存储使用率百分比
   const storagePercentage = Math.round((user.storageUsed / user.storageTotal) * 100);
@@ -121,9 +127,32 @@ const Home = () => {
     e.preventDefault();
     setIsDragOver(false);
     
-    if (e.dataTransfer.files.length > 0) {
-      toast.success(`检测到 ${e.dataTransfer.files.length} 个文件，准备上传`);
-      // 这里会处理文件上传逻辑
+    // 需要在事件处理函数中同步读取，文件夹会展开为其中的全部文件
+    collectDroppedEntries(e.dataTransfer)
+      .then(handleDroppedEntries)
+      .catch(error => toast.error(`读取拖放内容失败: ${error.message}`));
+  };
+  
+  // 上传拖放的文件和文件夹（保留目录结构）
+  const handleDroppedEntries = async (entries: IFolderEntry[]) => {
+    if (entries.length === 0) {
+      return;
+    }
+    
+    if (!activeProvider) {
+      toast.success(`检测到 ${entries.length} 个文件，准备上传`);
+      return;
+    }
+    
+    try {
+      const result = await uploadFolder(entries, "/");
+      toast.success(
+        result.skipped > 0
+          ? `已添加 ${result.tasks.length} 个上传任务，跳过 ${result.skipped} 个文件`
+          : `已添加 ${result.tasks.length} 个上传任务`
+      );
+    } catch (error) {
+      toast.error(`上传失败: ${(error as Error).message}`);
     }
   };
   
@@ -257,6 +286,8 @@ const Home = () => {
         </div>
       </div>
       
+      <TransferGroupProgress groupId={groupId} title="拖放上传进度" />
+      
       {/* 存储和快速访问区域 */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
         {/* 存储状态卡片 */}
@@ -1,7 +1,12 @@
 import { useContext, useState, useEffect } from "react";
 import { AuthContext } from "@/contexts/authContext";
+import { toast } from "sonner";
 import { cn } from "@/lib/utils";
 import { Empty } from "@/components/Empty";
+import { useCloud } from "@/cloud-core/contexts/CloudProviderContext";
+import { FileType } from "@/cloud-core/providers/base/IFileItem";
+import { TransferType } from "@/cloud-core/providers/base/ITransferOptions";
+import { transferHistory, IRecentFile } from "@/cloud-core/transfer/TransferHistory";
 
 // 最近文件类型定义
 interface RecentFileItem {
@@ -11,142 +16,195 @@ interface RecentFileItem {
   size?: string;
   accessed: string;
   accessedAgo: string;
+  action: string;
   location: string;
   icon: string;
   color: string;
 }
 
-// 模拟最近文件数据
-const mockRecentFiles: RecentFileItem[] = [
-  {
-    id: "1",
-    name: "项目计划书.docx",
-    type: "file",
-    size: "1.2MB",
-    accessed: "今天 09:45",
-    accessedAgo: "2小时前",
-    location: "我的文件 > 工作文档",
-    icon: "fa-file-word",
-    color: "text-blue-500",
-  },
-  {
-    id: "2",
-    name: "产品设计稿.png",
-    type: "file",
-    size: "3.7MB",
-    accessed: "今天 08:10",
-    accessedAgo: "3小时前",
-    location: "我的文件 > 设计资源",
-    icon: "fa-file-image",
-    color: "text-pink-500",
-  },
-  {
-    id: "3",
-    name: "会议记录.pdf",
-    type: "file",
-    size: "845KB",
-    accessed: "昨天 16:20",
-    accessedAgo: "1天前",
-    location: "共享文件 > 团队会议",
-    icon: "fa-file-pdf",
-    color: "text-red-500",
-  },
-  {
-    id: "4",
-    name: "开发资源包",
-    type: "folder",
-    accessed: "昨天 14:35",
-    accessedAgo: "1天前",
-    location: "我的文件 > 项目资料",
-    icon: "fa-folder",
-    color: "text-yellow-500",
-  },
-  {
-    id: "5",
-    name: "项目预算.xlsx",
-    type: "file",
-    size: "876KB",
-    accessed: "2023-06-20",
-    accessedAgo: "2天前",
-    location: "我的文件 > 财务文档",
-    icon: "fa-file-excel",
-    color: "text-green-500",
-  },
-  {
-    id: "6",
-    name: "演示文稿.pptx",
-    type: "file",
-    size: "5.3MB",
-    accessed: "2023-06-19",
-    accessedAgo: "3天前",
-    location: "共享文件 > 产品演示",
-    icon: "fa-file-powerpoint",
-    color: "text-orange-500",
-  },
-  {
-    id: "7",
-    name: "架构设计图.png",
-    type: "file",
-    size: "2.8MB",
-    accessed: "2023-06-18",
-    accessedAgo: "4天前",
-    location: "我的文件 > 设计资源",
-    icon: "fa-file-image",
-    color: "text-pink-500",
-  },
-  {
-    id: "8",
-    name: "需求规格说明书.docx",
-    type: "file",
-    size: "1.5MB",
-    accessed: "2023-06-17",
-    accessedAgo: "5天前",
-    location: "共享文件 > 产品需求",
-    icon: "fa-file-word",
-    color: "text-blue-500",
-  },
-  {
-    id: "9",
-    name: "客户反馈汇总.xlsx",
-    type: "file",
-    size: "642KB",
-    accessed: "2023-06-15",
-    accessedAgo: "1周前",
-    location: "我的文件 > 客户资料",
-    icon: "fa-file-excel",
-    color: "text-green-500",
-  },
-  {
-    id: "10",
-    name: "市场调研报告.pdf",
-    type: "file",
-    size: "2.4MB",
-    accessed: "2023-06-10",
-    accessedAgo: "2周前",
-    location: "共享文件 > 市场部",
-    icon: "fa-file-pdf",
-    color: "text-red-500",
-  },
-];
+type TimeFilter = "all" | "today" | "yesterday" | "week" | "month";
+
+// 按扩展名匹配的图标
+const extensionIcons: Record<string, { icon: string; color: string }> = {
+  doc: { icon: "fa-file-word", color: "text-blue-500" },
+  docx: { icon: "fa-file-word", color: "text-blue-500" },
+  pdf: { icon: "fa-file-pdf", color: "text-red-500" },
+  xls: { icon: "fa-file-excel", color: "text-green-500" },
+  xlsx: { icon: "fa-file-excel", color: "text-green-500" },
+  ppt: { icon: "fa-file-powerpoint", color: "text-orange-500" },
+  pptx: { icon: "fa-file-powerpoint", color: "text-orange-500" },
+};
+
+// 按文件类型匹配的图标
+const fileTypeIcons: Record<string, { icon: string; color: string }> = {
+  [FileType.FOLDER]: { icon: "fa-folder", color: "text-yellow-500" },
+  [FileType.IMAGE]: { icon: "fa-file-image", color: "text-pink-500" },
+  [FileType.VIDEO]: { icon: "fa-file-video", color: "text-purple-500" },
+  [FileType.AUDIO]: { icon: "fa-file-audio", color: "text-green-500" },
+  [FileType.ARCHIVE]: { icon: "fa-file-archive", color: "text-yellow-600" },
+  [FileType.CODE]: { icon: "fa-file-code", color: "text-indigo-500" },
+};
+
+// 访问方式
+const actionLabels: Record<IRecentFile["action"], string> = {
+  open: "打开",
+  [TransferType.UPLOAD]: "上传",
+  [TransferType.DOWNLOAD]: "下载",
+  [TransferType.COPY]: "复制",
+  [TransferType.MOVE]: "移动",
+  [TransferType.FETCH]: "离线下载",
+};
+
+// 格式化文件大小
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes}B`;
+  const units = ["KB", "MB", "GB", "TB"];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value < 10 ? value.toFixed(1) : Math.round(value)}${units[unit]}`;
+};
+
+// 当天零点
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+// 时间筛选对应的查询范围（本周从周一开始）
+const getTimeRange = (filter: TimeFilter): { from?: Date; to?: Date } => {
+  const today = startOfDay(new Date());
+  switch (filter) {
+    case "today":
+      return { from: today };
+    case "yesterday":
+      return { from: new Date(today.getFullYear(), today.getMonth(), today.getDate() - 1), to: today };
+    case "week":
+      return { from: new Date(today.getFullYear(), today.getMonth(), today.getDate() - (today.getDay() + 6) % 7) };
+    case "month":
+      return { from: new Date(today.getFullYear(), today.getMonth(), 1) };
+    default:
+      return {};
+  }
+};
+
+// 格式化访问时间：今天、昨天或日期
+const formatAccessed = (date: Date) => {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const time = `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+  const days = Math.round((startOfDay(new Date()).getTime() - startOfDay(date).getTime()) / 86400000);
+  if (days === 0) return `今天 ${time}`;
+  if (days === 1) return `昨天 ${time}`;
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+// 格式化距今时间
+const formatAgo = (date: Date) => {
+  const minutes = Math.floor((Date.now() - date.getTime()) / 60000);
+  if (minutes < 1) return "刚刚";
+  if (minutes < 60) return `${minutes}分钟前`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}小时前`;
+  const days = Math.floor(hours / 24);
+  if (days < 7) return `${days}天前`;
+  if (days < 30) return `${Math.floor(days / 7)}周前`;
+  return `${Math.floor(days / 30)}个月前`;
+};
+
+// 将最近文件记录转换为列表项
+const toRecentFileItem = (file: IRecentFile, providerName?: string): RecentFileItem => {
+  const isFolder = file.fileType === FileType.FOLDER;
+  const extension = file.fileName.includes(".") ? file.fileName.split(".").pop()!.toLowerCase() : "";
+  const { icon, color } =
+    (!isFolder && extensionIcons[extension]) ||
+    fileTypeIcons[file.fileType] ||
+    { icon: "fa-file-alt", color: "text-gray-500" };
+  const folders = file.filePath.split("/").filter(Boolean);
+  if (folders[folders.length - 1] === file.fileName) {
+    folders.pop();
+  }
+
+  return {
+    id: file.key,
+    name: file.fileName,
+    type: isFolder ? "folder" : "file",
+    size: isFolder ? undefined : formatSize(file.fileSize),
+    accessed: formatAccessed(file.accessedAt),
+    accessedAgo: formatAgo(file.accessedAt),
+    action: actionLabels[file.action],
+    location: [providerName || file.providerId, ...folders].join(" > "),
+    icon,
+    color,
+  };
+};
 
 const Recent = () => {
   const { user } = useContext(AuthContext);
+  const { providers } = useCloud();
   const [viewMode, setViewMode] = useState<"list" | "grid">("list");
   const [files, setFiles] = useState<RecentFileItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState("");
-  const [timeFilter, setTimeFilter] = useState<"all" | "today" | "yesterday" | "week" | "month">("all");
+  const [timeFilter, setTimeFilter] = useState<TimeFilter>("all");
   const [selectedItems, setSelectedItems] = useState<string[]>([]);
   
-  // 模拟数据加载
+  // 按时间筛选查询打开记录和传输记录
   useEffect(() => {
-    const timer = setTimeout(() => {
-      setFiles(mockRecentFiles);
+    if (!transferHistory.isAvailable()) {
+      setFiles([]);
       setLoading(false);
-    }, 800);
-    
-    return () => clearTimeout(timer);
-  }, []);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    setSelectedItems([]);
+
+    transferHistory
+      .getRecentFiles(getTimeRange(timeFilter))
+      .then(recent => {
+        if (!cancelled) {
+          const names = new Map(providers.map(provider => [provider.id, provider.name]));
+          setFiles(recent.map(file => toRecentFileItem(file, names.get(file.providerId))));
+        }
+      })
+      .catch(err => {
+        console.error("Failed to load recent files:", err);
+        if (!cancelled) {
+          setFiles([]);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [timeFilter, providers]);
+
+  // 导出当前时间范围内的传输记录
+  const exportHistory = async (format: "csv" | "json") => {
+    if (!transferHistory.isAvailable()) {
+      toast.error("当前浏览器不支持保存传输记录");
+      return;
+    }
+
+    try {
+      const content = await transferHistory.export(format, getTimeRange(timeFilter));
+      const blob = new Blob([content], { type: format === "csv" ? "text/csv;charset=utf-8" : "application/json" });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `transfer-history.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      toast.error(`导出失败: ${(err as Error).message}`);
+    }
+  };
   
   // 切换视图模式
   const toggleViewMode = (mode: "list" | "grid") => {
@@ -172,29 +230,11 @@ const Recent = () => {
     }
   };
   
-  // 根据筛选条件过滤文件
+  // 根据搜索关键字过滤文件（时间筛选在查询时完成）
   const getFilteredFiles = () => {
-    let result = files.filter(file => 
+    return files.filter(file => 
       file.name.toLowerCase().includes(searchQuery.toLowerCase())
     );
-    
-    // 根据时间筛选
-    if (timeFilter === "today") {
-      result = result.filter(file => file.accessed.startsWith("今天"));
-    } else if (timeFilter === "yesterday") {
-      result = result.filter(file => file.accessed.startsWith("昨天"));
-    } else if (timeFilter === "week") {
-      result = result.filter(file => 
-        file.accessedAgo.endsWith("天前") && parseInt(file.accessedAgo) <= 7
-      );
-    } else if (timeFilter === "month") {
-      result = result.filter(file => 
-        (file.accessedAgo.endsWith("天前") && parseInt(file.accessedAgo) <= 30) || 
-        file.accessedAgo.endsWith("周前")
-      );
-    }
-    
-    return result;
   };
   
   // 渲染文件列表视图
@@ -248,6 +288,7 @@ const Recent = () => {
                 {file.name}
               </h3>
               <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-gray-500 dark:text-gray-400">
+                <span>{file.action}</span>
                 <span>{file.location}</span>
                 <span className="hidden md:block">•</span>
                 <span className="md:hidden">{file.size} · {file.accessed}</span>
@@ -432,6 +473,24 @@ const Recent = () => {
               </button>
             </div>
             
+            {/* 导出传输记录 */}
+            <div className="flex border border-gray-300 dark:border-gray-600 rounded-lg overflow-hidden">
+              <button
+                onClick={() => exportHistory("csv")}
+                className="px-3 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors duration-200"
+                aria-label="导出传输记录为 CSV"
+              >
+                <i className="fa-solid fa-file-export mr-1"></i>CSV
+              </button>
+              <button
+                onClick={() => exportHistory("json")}
+                className="px-3 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors duration-200"
+                aria-label="导出传输记录为 JSON"
+              >
+                JSON
+              </button>
+            </div>
+            
             {/* 视图切换 */}
             <div className="flex border border-gray-300 dark:border-gray-600 rounded-lg overflow-hidden">
               <button